@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // Tesseract spawns worker threads from its own files, so it can't be bundled
+  serverExternalPackages: ["tesseract.js"],
 };
 
 export default nextConfig;
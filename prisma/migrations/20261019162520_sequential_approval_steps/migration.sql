@@ -0,0 +1,22 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "ApprovalStatus" ADD VALUE 'WAITING';
+ALTER TYPE "ApprovalStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "activatedAt" TIMESTAMP(3),
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "ruleId" TEXT,
+ADD COLUMN     "stepOrder" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_expenseId_ruleId_stepOrder_idx" ON "ExpenseApproval"("expenseId", "ruleId", "stepOrder");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "ApprovalRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
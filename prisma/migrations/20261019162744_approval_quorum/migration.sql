@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "ApprovalStatus" ADD VALUE 'SUPERSEDED';
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "isRequired" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ApprovalRule" ADD COLUMN     "managerApprovalLevels" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "isManagerStep" BOOLEAN NOT NULL DEFAULT false;
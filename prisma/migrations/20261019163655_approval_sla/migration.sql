@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "EscalationTarget" AS ENUM ('MANAGER', 'FALLBACK');
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedFromId" TEXT,
+ADD COLUMN     "reminderSentAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ApprovalSlaSettings" (
+    "id" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "stepSlaHours" INTEGER NOT NULL DEFAULT 48,
+    "reminderBeforeHours" INTEGER NOT NULL DEFAULT 8,
+    "escalationTarget" "EscalationTarget" NOT NULL DEFAULT 'MANAGER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "fallbackApproverId" TEXT,
+
+    CONSTRAINT "ApprovalSlaSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalSlaSettings_companyId_key" ON "ApprovalSlaSettings"("companyId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_status_dueAt_idx" ON "ExpenseApproval"("status", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_escalatedFromId_fkey" FOREIGN KEY ("escalatedFromId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalSlaSettings" ADD CONSTRAINT "ApprovalSlaSettings_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalSlaSettings" ADD CONSTRAINT "ApprovalSlaSettings_fallbackApproverId_fkey" FOREIGN KEY ("fallbackApproverId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ExportTaskStatus" AS ENUM ('QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "ExportTask" (
+    "id" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "status" "ExportTaskStatus" NOT NULL DEFAULT 'QUEUED',
+    "filters" JSONB NOT NULL,
+    "includeReceipts" BOOLEAN NOT NULL DEFAULT false,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "rowCount" INTEGER,
+    "error" TEXT,
+    "fileKey" TEXT,
+    "fileName" TEXT,
+    "fileSize" INTEGER,
+    "contentType" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+
+    CONSTRAINT "ExportTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExportTask_companyId_requestedById_createdAt_idx" ON "ExportTask"("companyId", "requestedById", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExportTask_status_expiresAt_idx" ON "ExportTask"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ExportTask" ADD CONSTRAINT "ExportTask_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExportTask" ADD CONSTRAINT "ExportTask_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
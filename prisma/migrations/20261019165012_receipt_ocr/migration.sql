@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "ReceiptStatus" AS ENUM ('PROCESSING', 'PROCESSED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "fileSize" INTEGER,
+ADD COLUMN     "ocrConfidence" DOUBLE PRECISION,
+ADD COLUMN     "ocrEngine" TEXT,
+ADD COLUMN     "ocrError" TEXT,
+ADD COLUMN     "ocrFields" JSONB,
+ADD COLUMN     "ocrLineItems" JSONB,
+ADD COLUMN     "ocrProcessedAt" TIMESTAMP(3),
+ADD COLUMN     "ocrText" TEXT,
+ADD COLUMN     "s3Key" TEXT,
+ADD COLUMN     "status" "ReceiptStatus" NOT NULL DEFAULT 'PROCESSED',
+ADD COLUMN     "userId" TEXT,
+ALTER COLUMN "expenseId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "Receipt" ADD CONSTRAINT "Receipt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ReceiptType" AS ENUM ('RECEIPT', 'INVOICE', 'FOLIO', 'ITEMIZED_BILL', 'OTHER');
+
+-- DropIndex
+DROP INDEX "Receipt_expenseId_key";
+
+-- AlterTable
+ALTER TABLE "Receipt" ADD COLUMN     "caption" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "type" "ReceiptType" NOT NULL DEFAULT 'RECEIPT';
+
+-- CreateIndex
+CREATE INDEX "Receipt_expenseId_position_idx" ON "Receipt"("expenseId", "position");
+
+-- Number the receipts already attached to each expense in upload order
+UPDATE "Receipt" AS r
+SET "position" = ordered."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "expenseId" ORDER BY "uploadedAt", "id") - 1 AS "position"
+    FROM "Receipt"
+    WHERE "expenseId" IS NOT NULL
+) AS ordered
+WHERE r."id" = ordered."id";
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "baseAmount" DECIMAL(12,2),
+ADD COLUMN     "baseCurrency" VARCHAR(3),
+ADD COLUMN     "exchangeRate" DECIMAL(18,8),
+ADD COLUMN     "exchangeRateDate" DATE,
+ADD COLUMN     "rateLockedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL,
+    "baseCurrency" VARCHAR(3) NOT NULL,
+    "quoteCurrency" VARCHAR(3) NOT NULL,
+    "rate" DECIMAL(18,8) NOT NULL,
+    "rateDate" DATE NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT,
+
+    CONSTRAINT "ExchangeRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_quoteCurrency_rateDate_idx" ON "ExchangeRate"("quoteCurrency", "rateDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_baseCurrency_rateDate_idx" ON "ExchangeRate"("baseCurrency", "rateDate");
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_companyId_rateDate_idx" ON "ExchangeRate"("companyId", "rateDate");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRate" ADD CONSTRAINT "ExchangeRate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing expenses in their company's base currency convert at 1. Expenses
+-- in other currencies are converted by the next rate sync, which backfills
+-- every expense without a base amount.
+UPDATE "Expense" AS e
+SET "baseAmount" = e."amount",
+    "baseCurrency" = c."baseCurrency",
+    "exchangeRate" = 1,
+    "exchangeRateDate" = e."expenseDate"::date,
+    "rateLockedAt" = CASE WHEN e."status" = 'DRAFT' THEN NULL ELSE CURRENT_TIMESTAMP END
+FROM "Company" AS c
+WHERE e."companyId" = c."id"
+  AND e."currency" = c."baseCurrency";
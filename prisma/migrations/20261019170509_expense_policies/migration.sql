@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ExpensePolicyType" AS ENUM ('RECEIPT_REQUIRED', 'CATEGORY_DAILY_CAP', 'CATEGORY_MONTHLY_CAP', 'MAX_EXPENSE_AGE', 'MIN_DESCRIPTION_LENGTH', 'WEEKEND_EXPENSE', 'HOLIDAY_EXPENSE');
+
+-- CreateEnum
+CREATE TYPE "PolicySeverity" AS ENUM ('BLOCK', 'WARN');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "policyCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "policyViolations" JSONB;
+
+-- CreateTable
+CREATE TABLE "ExpensePolicy" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "ExpensePolicyType" NOT NULL,
+    "severity" "PolicySeverity" NOT NULL DEFAULT 'WARN',
+    "config" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "createdById" TEXT,
+
+    CONSTRAINT "ExpensePolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpensePolicy_companyId_isActive_idx" ON "ExpensePolicy"("companyId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "ExpensePolicy" ADD CONSTRAINT "ExpensePolicy_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePolicy" ADD CONSTRAINT "ExpensePolicy_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePolicy" ADD CONSTRAINT "ExpensePolicy_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
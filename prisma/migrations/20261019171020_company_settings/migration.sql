@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "CompanySettings" (
+    "id" TEXT NOT NULL,
+    "fiscalYearStartMonth" INTEGER NOT NULL DEFAULT 1,
+    "defaultCurrency" VARCHAR(3),
+    "allowedCurrencies" TEXT[],
+    "requireReceipts" BOOLEAN NOT NULL DEFAULT true,
+    "receiptMinAmount" DECIMAL(10,2) NOT NULL DEFAULT 25,
+    "emailApprovalRequests" BOOLEAN NOT NULL DEFAULT true,
+    "emailDecisions" BOOLEAN NOT NULL DEFAULT true,
+    "emailSlaReminders" BOOLEAN NOT NULL DEFAULT true,
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "updatedById" TEXT,
+
+    CONSTRAINT "CompanySettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CompanySettingsVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "settings" JSONB NOT NULL,
+    "changes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+    "changedById" TEXT,
+
+    CONSTRAINT "CompanySettingsVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanySettings_companyId_key" ON "CompanySettings"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CompanySettingsVersion_companyId_version_key" ON "CompanySettingsVersion"("companyId", "version");
+
+-- AddForeignKey
+ALTER TABLE "CompanySettings" ADD CONSTRAINT "CompanySettings_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanySettings" ADD CONSTRAINT "CompanySettings_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanySettingsVersion" ADD CONSTRAINT "CompanySettingsVersion_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CompanySettingsVersion" ADD CONSTRAINT "CompanySettingsVersion_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "BudgetPeriod" AS ENUM ('MONTHLY', 'ANNUAL');
+
+-- AlterTable
+ALTER TABLE "ExpenseCategory" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "glCode" VARCHAR(32),
+ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CategoryBudget" (
+    "id" TEXT NOT NULL,
+    "period" "BudgetPeriod" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+
+    CONSTRAINT "CategoryBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CategoryBudget_companyId_idx" ON "CategoryBudget"("companyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryBudget_categoryId_period_key" ON "CategoryBudget"("categoryId", "period");
+
+-- CreateIndex
+CREATE INDEX "ExpenseCategory_companyId_parentId_idx" ON "ExpenseCategory"("companyId", "parentId");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCategory" ADD CONSTRAINT "ExpenseCategory_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryBudget" ADD CONSTRAINT "CategoryBudget_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryBudget" ADD CONSTRAINT "CategoryBudget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
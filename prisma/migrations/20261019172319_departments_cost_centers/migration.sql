@@ -0,0 +1,95 @@
+-- DropIndex
+DROP INDEX "CategoryBudget_categoryId_period_key";
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "costCenterId" TEXT,
+ADD COLUMN     "departmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "CategoryBudget" ADD COLUMN     "departmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "costCenterId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Department" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" VARCHAR(32),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "headId" TEXT,
+
+    CONSTRAINT "Department_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CostCenter" (
+    "id" TEXT NOT NULL,
+    "code" VARCHAR(32) NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "departmentId" TEXT,
+
+    CONSTRAINT "CostCenter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExpenseCostAllocation" (
+    "id" TEXT NOT NULL,
+    "percentage" DECIMAL(5,2) NOT NULL,
+    "expenseId" TEXT NOT NULL,
+    "costCenterId" TEXT NOT NULL,
+
+    CONSTRAINT "ExpenseCostAllocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Department_companyId_name_key" ON "Department"("companyId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostCenter_companyId_code_key" ON "CostCenter"("companyId", "code");
+
+-- CreateIndex
+CREATE INDEX "ExpenseCostAllocation_costCenterId_idx" ON "ExpenseCostAllocation"("costCenterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExpenseCostAllocation_expenseId_costCenterId_key" ON "ExpenseCostAllocation"("expenseId", "costCenterId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryBudget_categoryId_departmentId_period_key" ON "CategoryBudget"("categoryId", "departmentId", "period");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_costCenterId_fkey" FOREIGN KEY ("costCenterId") REFERENCES "CostCenter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CategoryBudget" ADD CONSTRAINT "CategoryBudget_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Department" ADD CONSTRAINT "Department_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Department" ADD CONSTRAINT "Department_headId_fkey" FOREIGN KEY ("headId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostCenter" ADD CONSTRAINT "CostCenter_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CostCenter" ADD CONSTRAINT "CostCenter_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCostAllocation" ADD CONSTRAINT "ExpenseCostAllocation_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCostAllocation" ADD CONSTRAINT "ExpenseCostAllocation_costCenterId_fkey" FOREIGN KEY ("costCenterId") REFERENCES "CostCenter"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_costCenterId_fkey" FOREIGN KEY ("costCenterId") REFERENCES "CostCenter"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
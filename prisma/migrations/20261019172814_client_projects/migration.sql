@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "invoiceReference" TEXT,
+ADD COLUMN     "invoicedAt" TIMESTAMP(3),
+ADD COLUMN     "isBillable" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "projectId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL,
+    "code" VARCHAR(32) NOT NULL,
+    "name" TEXT NOT NULL,
+    "clientName" TEXT NOT NULL,
+    "budget" DECIMAL(12,2),
+    "startDate" DATE,
+    "endDate" DATE,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "Project_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Project_companyId_clientName_idx" ON "Project"("companyId", "clientName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_companyId_code_key" ON "Project"("companyId", "code");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ExpenseType" AS ENUM ('STANDARD', 'MILEAGE', 'PER_DIEM');
+
+-- CreateEnum
+CREATE TYPE "DistanceUnit" AS ENUM ('KM', 'MILE');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "calculation" JSONB,
+ADD COLUMN     "type" "ExpenseType" NOT NULL DEFAULT 'STANDARD';
+
+-- CreateTable
+CREATE TABLE "MileageRate" (
+    "id" TEXT NOT NULL,
+    "vehicleType" VARCHAR(32) NOT NULL,
+    "unit" "DistanceUnit" NOT NULL,
+    "rate" DECIMAL(10,4) NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "MileageRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PerDiemRate" (
+    "id" TEXT NOT NULL,
+    "destination" VARCHAR(64) NOT NULL,
+    "dailyRate" DECIMAL(10,2) NOT NULL,
+    "breakfastDeduction" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "lunchDeduction" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "dinnerDeduction" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "effectiveFrom" DATE NOT NULL,
+    "effectiveTo" DATE,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "PerDiemRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MileageRate_companyId_vehicleType_effectiveFrom_key" ON "MileageRate"("companyId", "vehicleType", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PerDiemRate_companyId_destination_effectiveFrom_key" ON "PerDiemRate"("companyId", "destination", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "MileageRate" ADD CONSTRAINT "MileageRate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PerDiemRate" ADD CONSTRAINT "PerDiemRate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
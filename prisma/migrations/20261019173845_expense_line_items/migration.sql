@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ExpenseLineItem" (
+    "id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "taxRate" DECIMAL(5,2),
+    "taxAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "expenseId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+
+    CONSTRAINT "ExpenseLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpenseLineItem_expenseId_idx" ON "ExpenseLineItem"("expenseId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseLineItem_categoryId_idx" ON "ExpenseLineItem"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "ExpenseLineItem" ADD CONSTRAINT "ExpenseLineItem_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseLineItem" ADD CONSTRAINT "ExpenseLineItem_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
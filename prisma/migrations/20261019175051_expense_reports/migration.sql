@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "reportId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "reportId" TEXT,
+ALTER COLUMN "expenseId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "ExpenseReport" (
+    "id" TEXT NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "purpose" TEXT,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "status" "ExpenseStatus" NOT NULL DEFAULT 'DRAFT',
+    "advanceAmount" DECIMAL(12,2),
+    "totalAmount" DECIMAL(12,2),
+    "currency" VARCHAR(3),
+    "submittedAt" TIMESTAMP(3),
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "submitterId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "ExpenseReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExpenseReport_companyId_status_idx" ON "ExpenseReport"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "ExpenseReport_submitterId_status_idx" ON "ExpenseReport"("submitterId", "status");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_reportId_ruleId_stepOrder_idx" ON "ExpenseApproval"("reportId", "ruleId", "stepOrder");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "ExpenseReport"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseReport" ADD CONSTRAINT "ExpenseReport_submitterId_fkey" FOREIGN KEY ("submitterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseReport" ADD CONSTRAINT "ExpenseReport_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "ExpenseReport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "AdvanceStatus" AS ENUM ('PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'CANCELLED', 'DISBURSED', 'RECONCILED');
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "advanceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ExpenseReport" ADD COLUMN     "advanceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ExpenseApproval" ADD COLUMN     "advanceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Advance" (
+    "id" TEXT NOT NULL,
+    "purpose" VARCHAR(500) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "neededBy" DATE,
+    "status" "AdvanceStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "disbursedAt" TIMESTAMP(3),
+    "disbursementMethod" VARCHAR(50),
+    "disbursementReference" VARCHAR(100),
+    "disbursedById" TEXT,
+    "reconciledAt" TIMESTAMP(3),
+    "approvedAmount" DECIMAL(12,2),
+    "settlementAmount" DECIMAL(12,2),
+    "settlementNote" TEXT,
+    "reconciledById" TEXT,
+    "submitterId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "Advance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Advance_companyId_status_idx" ON "Advance"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "Advance_submitterId_status_idx" ON "Advance"("submitterId", "status");
+
+-- CreateIndex
+CREATE INDEX "ExpenseApproval_advanceId_ruleId_stepOrder_idx" ON "ExpenseApproval"("advanceId", "ruleId", "stepOrder");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_advanceId_fkey" FOREIGN KEY ("advanceId") REFERENCES "Advance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseReport" ADD CONSTRAINT "ExpenseReport_advanceId_fkey" FOREIGN KEY ("advanceId") REFERENCES "Advance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Advance" ADD CONSTRAINT "Advance_disbursedById_fkey" FOREIGN KEY ("disbursedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Advance" ADD CONSTRAINT "Advance_reconciledById_fkey" FOREIGN KEY ("reconciledById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Advance" ADD CONSTRAINT "Advance_submitterId_fkey" FOREIGN KEY ("submitterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Advance" ADD CONSTRAINT "Advance_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseApproval" ADD CONSTRAINT "ExpenseApproval_advanceId_fkey" FOREIGN KEY ("advanceId") REFERENCES "Advance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
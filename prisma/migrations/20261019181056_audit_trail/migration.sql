@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('EXPENSE', 'APPROVAL', 'APPROVAL_RULE', 'USER', 'ROLE', 'CATEGORY', 'SETTINGS');
+
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "entityType" "AuditEntityType" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "expenseId" TEXT,
+    "action" VARCHAR(64) NOT NULL,
+    "changes" JSONB,
+    "metadata" JSONB,
+    "actorId" TEXT,
+    "ipAddress" VARCHAR(64),
+    "userAgent" VARCHAR(512),
+    "previousHash" CHAR(64),
+    "hash" CHAR(64) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_companyId_entityType_entityId_idx" ON "AuditEvent"("companyId", "entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_companyId_expenseId_idx" ON "AuditEvent"("companyId", "expenseId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_companyId_actorId_idx" ON "AuditEvent"("companyId", "actorId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_companyId_createdAt_idx" ON "AuditEvent"("companyId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditEvent_companyId_sequence_key" ON "AuditEvent"("companyId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "AuditEvent" ADD CONSTRAINT "AuditEvent_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN     "onboardingDismissedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "emailVerifiedAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP;
+
+-- Users from before email verification keep signing in; count them as
+-- verified from when their account was created
+UPDATE "User" SET "emailVerifiedAt" = "createdAt";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CompanySettings" ADD COLUMN     "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "twoFactorRecoveryCodes" TEXT[],
+ADD COLUMN     "twoFactorSecret" TEXT;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ApprovalQuorumMode" AS ENUM ('ALL', 'ANY');
+
+-- AlterTable
+ALTER TABLE "ApprovalRule" ADD COLUMN     "quorumMode" "ApprovalQuorumMode" NOT NULL DEFAULT 'ALL';
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Loader2, UserPlus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+interface InvitationPreview {
+  email: string;
+  name: string;
+  role: string;
+  companyName: string;
+  inviterName: string | null;
+  expiresAt: string;
+}
+
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return result.error?.details?.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+export default function AcceptInvitationPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(!!token);
+  const [linkError, setLinkError] = useState<string | null>(
+    token ? null : "This invitation link is incomplete."
+  );
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(
+          `/api/invitations/accept?token=${encodeURIComponent(token)}`
+        );
+        const result = await response.json();
+
+        if (result.success) {
+          setInvitation(result.data);
+        } else {
+          setLinkError(errorMessage(result, "This invitation can't be used"));
+        }
+      } catch {
+        setLinkError("This invitation can't be used");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  async function accept(e: React.FormEvent) {
+    e.preventDefault();
+    if (!token) return;
+
+    if (password !== confirmPassword) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/invitations/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        router.push("/signin?message=Your account is ready. Please sign in.");
+      } else {
+        setError(errorMessage(result, "Failed to accept the invitation"));
+      }
+    } catch {
+      setError("Failed to accept the invitation");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 p-4">
+      <Card className="w-full max-w-md shadow-2xl border-0 relative overflow-hidden">
+        {/* Gradient accent bar */}
+        <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600"></div>
+
+        <CardHeader className="space-y-1 pb-6 pt-8 bg-gradient-to-b from-blue-50/50 to-transparent">
+          <div className="flex items-center justify-center mb-4">
+            <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-blue-600 to-indigo-600 flex items-center justify-center shadow-lg">
+              <UserPlus className="h-6 w-6 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-3xl text-center font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            Join {invitation?.companyName || "Your Team"}
+          </CardTitle>
+          <CardDescription className="text-center text-gray-600 mt-2">
+            {invitation
+              ? `${invitation.inviterName || "Your administrator"} invited you as ${invitation.role.toLowerCase()}. Choose a password to finish.`
+              : "Accept your invitation to Expense-Wise"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          )}
+
+          {linkError && (
+            <Alert variant="destructive">
+              <AlertDescription>{linkError}</AlertDescription>
+            </Alert>
+          )}
+
+          {invitation && (
+            <form onSubmit={accept} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" type="email" value={invitation.email} disabled />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+                <p className="text-xs text-gray-500">
+                  At least 8 characters with uppercase, lowercase, a number and a special character.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button type="submit" className="w-full" disabled={isSubmitting || !password}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Accept invitation
+              </Button>
+            </form>
+          )}
+
+          <div className="pt-4 border-t border-gray-100 text-center text-sm">
+            <Link href="/signin" className="font-semibold text-blue-600 hover:text-indigo-600 transition-colors">
+              Already have an account? Sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
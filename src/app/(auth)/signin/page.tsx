@@ -6,7 +6,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import Link from "next/link";
-import { Loader2, Building2, CheckCircle2 } from "lucide-react";
+import { Loader2, Building2, CheckCircle2, ShieldCheck } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -25,9 +25,11 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import AuthService from "@/services/auth.service";
+import AuthService, { TwoFactorChallenge } from "@/services/auth.service";
+import { User } from "@/lib/jwt";
 
 const signinSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -41,6 +43,13 @@ export default function SigninPage() {
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // The second step, for users with two-factor authentication
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Shown once after setting up two-factor authentication while signing in
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [signedInUser, setSignedInUser] = useState<User | null>(null);
 
   useEffect(() => {
     const message = searchParams.get("message");
@@ -71,10 +80,14 @@ export default function SigninPage() {
     setError(null);
 
     try {
-      await AuthService.signIn(data);
+      const response = await AuthService.signIn(data);
 
-      // Success - user will be redirected by AuthService.redirectByRole
-      // This is already handled in the service
+      if (response.twoFactor) {
+        setChallenge(response.twoFactor);
+        setSuccessMessage(null);
+      } else if (response.user) {
+        AuthService.redirectByRole(response.user);
+      }
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Invalid email or password"
@@ -84,6 +97,39 @@ export default function SigninPage() {
     }
   }
 
+  async function onVerifyCode(e: React.FormEvent) {
+    e.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await AuthService.verifyTwoFactor(
+        challenge.challengeToken,
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      );
+
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+        setSignedInUser(result.user);
+      } else {
+        AuthService.redirectByRole(result.user);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Invalid code";
+      setError(message);
+      setCode("");
+      // Expired challenges and too many attempts mean starting over
+      if (/sign in again/i.test(message)) {
+        setChallenge(null);
+        setUseRecoveryCode(false);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 p-4">
       {/* Decorative background elements */}
@@ -125,64 +171,165 @@ export default function SigninPage() {
             </Alert>
           )}
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email Address</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="email"
-                        placeholder="your.email@company.com"
-                        autoComplete="username"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <div className="flex items-center justify-between">
-                      <FormLabel>Password</FormLabel>
-                      <Link
-                        href="/forgot-password"
-                        className="text-sm text-primary hover:underline"
-                      >
-                        Forgot password?
-                      </Link>
-                    </div>
-                    <FormControl>
-                      <Input
-                        type="password"
-                        placeholder="••••••••"
-                        autoComplete="current-password"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
+          {recoveryCodes ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                <ShieldCheck className="h-4 w-4 text-green-600" />
+                Two-factor authentication is on
+              </div>
+              <p className="text-sm text-gray-600">
+                Save these recovery codes somewhere safe. Each one signs you in
+                once if you lose your authenticator; they won&apos;t be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-3 font-mono text-sm">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
               <Button
-                type="submit"
-                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5"
-                disabled={isLoading}
+                className="w-full"
+                onClick={() => signedInUser && AuthService.redirectByRole(signedInUser)}
               >
+                Continue
+              </Button>
+            </div>
+          ) : challenge ? (
+            <form onSubmit={onVerifyCode} className="space-y-4">
+              {challenge.method === "setup" && challenge.setup ? (
+                <div className="space-y-3 text-sm text-gray-600">
+                  <p>
+                    Your company requires two-factor authentication. Scan this
+                    code with your authenticator app, then enter the 6-digit
+                    code it shows.
+                  </p>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={challenge.setup.qrCode}
+                    alt="Two-factor authentication QR code"
+                    className="mx-auto h-44 w-44"
+                  />
+                  <p className="text-center text-xs">
+                    Can&apos;t scan it? Enter this key:{" "}
+                    <span className="font-mono break-all">{challenge.setup.secret}</span>
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  {useRecoveryCode
+                    ? "Enter one of your recovery codes."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="code">
+                  {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                </Label>
+                <Input
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  autoFocus
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading || !code}>
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Sign In
+                Verify
               </Button>
+
+              <div className="flex justify-between text-sm">
+                {challenge.method === "totp" ? (
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode("");
+                    }}
+                  >
+                    {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  type="button"
+                  className="text-gray-600 hover:underline"
+                  onClick={() => {
+                    setChallenge(null);
+                    setUseRecoveryCode(false);
+                    setCode("");
+                    setError(null);
+                  }}
+                >
+                  Back
+                </button>
+              </div>
             </form>
-          </Form>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email Address</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="your.email@company.com"
+                          autoComplete="username"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center justify-between">
+                        <FormLabel>Password</FormLabel>
+                        <Link
+                          href="/forgot-password"
+                          className="text-sm text-primary hover:underline"
+                        >
+                          Forgot password?
+                        </Link>
+                      </div>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="••••••••"
+                          autoComplete="current-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-semibold py-3 shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5"
+                  disabled={isLoading}
+                >
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Sign In
+                </Button>
+              </form>
+            </Form>
+          )}
 
           <div className="mt-6 pt-6 border-t border-gray-100">
             <div className="relative mb-6">
@@ -65,8 +65,8 @@ const signupSchema = z
       .string()
       .min(8, "Password must be at least 8 characters")
       .regex(
-        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-        "Password must contain uppercase, lowercase, and number"
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/,
+        "Password must contain uppercase, lowercase, number, and special character"
       ),
     confirmPassword: z.string(),
   })
@@ -104,12 +104,12 @@ export default function SignupPage() {
         email: data.email,
         companyName: data.companyName,
         country: data.country,
+        baseCurrency:
+          COUNTRIES.find((country) => country.code === data.country)?.currency ?? "USD",
         password: data.password,
       });
 
-      router.push(
-        "/signin?message=Account created successfully. Please sign in."
-      );
+      router.push(`/verify-email?email=${encodeURIComponent(data.email)}`);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "An unexpected error occurred"
@@ -251,7 +251,7 @@ export default function SignupPage() {
                         />
                       </FormControl>
                       <FormDescription className="text-xs">
-                        Min 8 chars with uppercase, lowercase, and number
+                        Min 8 chars with uppercase, lowercase, number, and one of @$!%*?&
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
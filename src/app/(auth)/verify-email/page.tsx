@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Loader2, MailCheck, CheckCircle2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+
+type VerificationState = "pending" | "verifying" | "verified" | "failed";
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const signupEmail = searchParams.get("email");
+  const [email, setEmail] = useState(signupEmail ?? "");
+
+  const [state, setState] = useState<VerificationState>(token ? "verifying" : "pending");
+  const [error, setError] = useState<string | null>(null);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setState("verified");
+        } else {
+          setState("failed");
+          setError(result.error?.message || "Email verification failed");
+        }
+      } catch {
+        setState("failed");
+        setError("Email verification failed");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  async function resend() {
+    if (!email.trim()) return;
+    setIsResending(true);
+    setResendMessage(null);
+
+    try {
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const result = await response.json();
+      setResendMessage(
+        result.success
+          ? "A new verification link is on its way."
+          : result.error?.message || "Failed to send verification email"
+      );
+    } catch {
+      setResendMessage("Failed to send verification email");
+    } finally {
+      setIsResending(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 p-4">
+      <Card className="w-full max-w-md shadow-2xl border-0 relative overflow-hidden">
+        {/* Gradient accent bar */}
+        <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-blue-600 via-indigo-600 to-purple-600"></div>
+
+        <CardHeader className="space-y-1 pb-6 pt-8 bg-gradient-to-b from-blue-50/50 to-transparent">
+          <div className="flex items-center justify-center mb-4">
+            <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-blue-600 to-indigo-600 flex items-center justify-center shadow-lg">
+              <MailCheck className="h-6 w-6 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-3xl text-center font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            {state === "verified" ? "Email Verified" : "Verify Your Email"}
+          </CardTitle>
+          <CardDescription className="text-center text-gray-600 mt-2">
+            {state === "pending" &&
+              `We sent a verification link to ${signupEmail || "your email address"}. It expires in 24 hours.`}
+            {state === "verifying" && "Confirming your email address..."}
+            {state === "verified" && "Your company account is ready."}
+            {state === "failed" && "This verification link can't be used."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state === "verifying" && (
+            <div className="flex justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          )}
+
+          {state === "verified" && (
+            <>
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-800">
+                  Sign in to finish setting up your company.
+                </AlertDescription>
+              </Alert>
+              <Button asChild className="w-full">
+                <Link href="/signin?message=Email verified. Please sign in.">Sign in</Link>
+              </Button>
+            </>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {state === "failed" && (
+            <p className="text-sm text-center text-gray-600">
+              Links expire after 24 hours and work once. Request a new one below.
+            </p>
+          )}
+
+          {(state === "pending" || state === "failed") && (
+            <div className="space-y-2">
+              <Input
+                type="email"
+                placeholder="you@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={resend}
+                disabled={isResending || !email.trim()}
+              >
+                {isResending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Resend verification email
+              </Button>
+            </div>
+          )}
+
+          {resendMessage && <p className="text-sm text-center text-gray-600">{resendMessage}</p>}
+
+          <div className="pt-4 border-t border-gray-100 text-center text-sm">
+            <Link href="/signin" className="font-semibold text-blue-600 hover:text-indigo-600 transition-colors">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  approveAdvanceSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  APPROVAL_NOT_ACTIONABLE: 403,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Approve Advance (expense:approve)
+ * POST /api/advances/[id]/approve
+ *
+ * Approves the current user's open step on the advance (their own or one
+ * delegated to them). Admins can also decide an advance no approval rule
+ * applied to. The advance is approved once the whole chain is.
+ *
+ * Request Body:
+ * {
+ *   comment?: string;
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateAdvanceInput(approveAdvanceSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.decideAdvance(
+        user,
+        advanceId,
+        "approve",
+        validation.data!.comment
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to approve advance");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Advance approved successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Approve advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to approve advance",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["expense:approve"]
+);
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  INVALID_ADVANCE_STATUS: 409,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Cancel Advance
+ * POST /api/advances/[id]/cancel
+ *
+ * Withdraws the user's own advance while it is awaiting approval or approved
+ * but not yet paid out. Expenses and reports linked to it are unlinked.
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.cancelAdvance(user, advanceId);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to cancel advance");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Advance cancelled",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Cancel advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to cancel advance",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
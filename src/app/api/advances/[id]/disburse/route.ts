@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  disburseAdvanceSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  INVALID_ADVANCE_STATUS: 409,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Disburse Advance (advance:disburse)
+ * POST /api/advances/[id]/disburse
+ *
+ * Records that an approved advance was paid out to the employee.
+ *
+ * Request Body:
+ * {
+ *   method: "CASH" | "BANK_TRANSFER" | "CARD" | "PAYROLL" | "OTHER";
+ *   reference?: string;   // e.g. the bank transfer reference
+ *   disbursedOn?: string; // YYYY-MM-DD, defaults to today
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateAdvanceInput(disburseAdvanceSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.disburseAdvance(
+        user,
+        advanceId,
+        validation.data!
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to record the disbursement");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Advance paid out",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Disburse advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to record the disbursement",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["advance:disburse"]
+);
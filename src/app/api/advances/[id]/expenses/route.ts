@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  advanceExpensesSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  INVALID_ADVANCE_STATUS: 409,
+  EXPENSE_NOT_FOUND: 400,
+  ADVANCE_EXPENSES_INVALID: 400,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Link expenses to an advance or unlink them
+ */
+const changeAdvanceExpenses = (action: "link" | "unlink") =>
+  withAuth(
+    async (
+      request: NextRequest,
+      context?: { params?: Record<string, string> }
+    ) => {
+      const fallbackMessage =
+        action === "link"
+          ? "Failed to link expenses to the advance"
+          : "Failed to unlink expenses from the advance";
+
+      try {
+        const user = (request as AuthenticatedRequest).user;
+        const advanceId = context?.params?.id;
+
+        if (!advanceId) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "INVALID_REQUEST",
+                message: "Advance ID is required",
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const body = await request.json();
+        const validation = validateAdvanceInput(advanceExpensesSchema, body);
+
+        if (!validation.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "VALIDATION_ERROR",
+                message: "Invalid input data",
+                details: validation.errors,
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const { expenseIds } = validation.data!;
+        const result =
+          action === "link"
+            ? await AdvanceService.linkExpenses(user, advanceId, expenseIds)
+            : await AdvanceService.unlinkExpenses(user, advanceId, expenseIds);
+
+        if (!result.success) {
+          return serviceErrorResponse(result.error, fallbackMessage);
+        }
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: result.data,
+          },
+          { status: 200 }
+        );
+      } catch (error) {
+        console.error(`Advance expenses (${action}) error:`, error);
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INTERNAL_ERROR",
+              message: fallbackMessage,
+            },
+          },
+          { status: 500 }
+        );
+      }
+    }
+  );
+
+/**
+ * Link Expenses to Advance
+ * POST /api/advances/[id]/expenses
+ *
+ * Marks the user's own expenses as paid from the advance. Expenses in an
+ * expense report are linked by linking the report (advanceId) instead.
+ *
+ * Request Body:
+ * {
+ *   expenseIds: string[];
+ * }
+ */
+export const POST = changeAdvanceExpenses("link");
+
+/**
+ * Unlink Expenses from Advance
+ * DELETE /api/advances/[id]/expenses
+ *
+ * Request Body:
+ * {
+ *   expenseIds: string[];
+ * }
+ */
+export const DELETE = changeAdvanceExpenses("unlink");
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  reconcileAdvanceSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  INVALID_ADVANCE_STATUS: 409,
+  ADVANCE_EXPENSES_PENDING: 409,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Reconcile Advance (advance:reconcile)
+ * POST /api/advances/[id]/reconcile
+ *
+ * Settles a paid out advance against the approved expenses submitted on it.
+ * Fails with ADVANCE_EXPENSES_PENDING, listing them, while any of those
+ * expenses is still awaiting approval.
+ *
+ * Request Body:
+ * {
+ *   settlementAmount?: number; // defaults to the balance; positive when the
+ *                              // employee pays back, negative when paid out
+ *   note?: string;
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateAdvanceInput(reconcileAdvanceSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.reconcileAdvance(
+        user,
+        advanceId,
+        validation.data!
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to reconcile advance");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Advance reconciled",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Reconcile advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to reconcile advance",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["advance:reconcile"]
+);
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  rejectAdvanceSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ADVANCE_NOT_FOUND: 404,
+  APPROVAL_NOT_ACTIONABLE: 403,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Reject Advance (expense:reject)
+ * POST /api/advances/[id]/reject
+ *
+ * Rejects the current user's open step on the advance. The advance is
+ * rejected once its rule can no longer reach its quorum.
+ *
+ * Request Body:
+ * {
+ *   comment: string; // the reason, shown to the requester
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateAdvanceInput(rejectAdvanceSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.decideAdvance(
+        user,
+        advanceId,
+        "reject",
+        validation.data!.comment
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to reject advance");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Advance rejected",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Reject advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to reject advance",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["expense:reject"]
+);
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Get Advance
+ * GET /api/advances/[id]
+ *
+ * The advance with its balance, the expenses submitted against it and its
+ * approval chain
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const advanceId = context?.params?.id;
+
+      if (!advanceId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Advance ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AdvanceService.getAdvance(user, advanceId);
+
+      if (!result.success) {
+        const notFound = result.error?.code === "ADVANCE_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: notFound ? "ADVANCE_NOT_FOUND" : "INTERNAL_ERROR",
+              message: result.error?.message || "Failed to fetch advance",
+            },
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get advance error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch advance",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
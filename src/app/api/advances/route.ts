@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  advanceListQuerySchema,
+  requestAdvanceSchema,
+  validateAdvanceInput,
+} from "@/lib/validations/advances";
+import { AdvanceService } from "@/services/advance.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  FORBIDDEN: 403,
+};
+
+// Error response for a failed AdvanceService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Advances
+ * GET /api/advances
+ *
+ * Each advance includes its balance against the expenses submitted on it.
+ *
+ * Query Parameters:
+ * - status: PENDING_APPROVAL | APPROVED | REJECTED | CANCELLED | DISBURSED | RECONCILED
+ * - scope: mine (default) | approvals | company (admins only)
+ * - submitterId: with scope=company, one employee's advances
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateAdvanceInput(
+      advanceListQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await AdvanceService.listAdvances(user, validation.data!);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to fetch advances");
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get advances error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch advances",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Request Advance
+ * POST /api/advances
+ *
+ * The advance goes through the company approval rules like an expense of
+ * the same amount.
+ *
+ * Request Body:
+ * {
+ *   purpose: string;
+ *   amount: number;     // company base currency
+ *   neededBy?: string;  // YYYY-MM-DD
+ * }
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const body = await request.json();
+    const validation = validateAdvanceInput(requestAdvanceSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await AdvanceService.requestAdvance(user, validation.data!);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to request advance");
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Advance requested",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Request advance error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to request advance",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import { ApiResponse } from "@/types/api";
 import {
   updateApprovalRuleSchema,
-  validateApprovalAccess,
   validateUserInput,
   validateApprovalRuleConfig,
   type UpdateApprovalRuleInput,
 } from "@/lib/validations/approvals";
 import { prisma } from "@/lib/prisma";
+import {
+  ApprovalRuleConditionGroup,
+  toAuditedRule,
+} from "@/lib/approval-rules";
+import { AuditService } from "@/services/audit.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -28,8 +32,10 @@ interface ApprovalRule {
   name: string;
   description: string | null;
   isManagerApprovalRequired: boolean;
+  managerApprovalLevels: number;
   isSequenceRequired: boolean;
   minApprovalPercentage: number | null;
+  quorumMode: "ALL" | "ANY";
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -40,12 +46,9 @@ interface ApprovalRule {
     sequenceOrder: number | null;
     isRequired: boolean;
   }>;
-  conditions: {
-    amountThreshold?: number;
-    categories?: string[];
-    userRoles?: string[];
-    departmentIds?: string[];
-  };
+  priority: number;
+  stopOnMatch: boolean;
+  conditions: ApprovalRuleConditionGroup | null;
 }
 
 interface UpdateApprovalRuleResponse {
@@ -54,9 +57,9 @@ interface UpdateApprovalRuleResponse {
 
 /**
  * PUT /api/approval-rules/[ruleId]
- * Update an approval rule (Admin only)
+ * Update an approval rule (approval-rule:manage)
  */
-export const PUT = withAuth(
+export const PUT = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -76,22 +79,6 @@ export const PUT = withAuth(
         );
       }
 
-      // Validate role-based access - only admins can manage approval rules
-      const accessValidation = validateApprovalAccess(
-        user.role,
-        "manage-rules"
-      );
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate request body
       const body = await request.json();
       const validation = validateUserInput(updateApprovalRuleSchema, body);
@@ -136,11 +123,24 @@ export const PUT = withAuth(
         );
       }
 
+      // Required approvers carry over from the existing rule unless replaced,
+      // dropping anyone who is no longer an approver
+      const approverIds =
+        updateData.approvers ||
+        existingRule.approvers.map((a) => a.approverId);
+      const requiredApproverIds =
+        updateData.requiredApprovers ||
+        existingRule.approvers
+          .filter((a) => a.isRequired && approverIds.includes(a.approverId))
+          .map((a) => a.approverId);
+
       // Validate approval rule configuration if approvers or settings are being updated
-      if (updateData.approvers || updateData.minApprovalPercentage) {
-        const approversToValidate =
-          updateData.approvers ||
-          existingRule.approvers.map((a) => a.approverId);
+      if (
+        updateData.approvers ||
+        updateData.minApprovalPercentage ||
+        updateData.requiredApprovers
+      ) {
+        const approversToValidate = approverIds;
         const sequenceToValidate =
           updateData.sequence ||
           (existingRule.isSequenceRequired ? "SEQUENTIAL" : "PARALLEL");
@@ -152,7 +152,8 @@ export const PUT = withAuth(
         const configValidation = validateApprovalRuleConfig(
           approversToValidate,
           sequenceToValidate,
-          percentageToValidate
+          percentageToValidate,
+          requiredApproverIds
         );
 
         if (!configValidation.success) {
@@ -199,10 +200,34 @@ export const PUT = withAuth(
       if (updateData.isManagerApprovalRequired !== undefined)
         updateFields.isManagerApprovalRequired =
           updateData.isManagerApprovalRequired;
+      if (updateData.managerApprovalLevels !== undefined)
+        updateFields.managerApprovalLevels = updateData.managerApprovalLevels;
       if (updateData.sequence)
         updateFields.isSequenceRequired = updateData.sequence === "SEQUENTIAL";
       if (updateData.minApprovalPercentage !== undefined)
         updateFields.minApprovalPercentage = updateData.minApprovalPercentage;
+      if (updateData.quorumMode)
+        updateFields.quorumMode = updateData.quorumMode;
+      if (updateData.isActive !== undefined)
+        updateFields.isActive = updateData.isActive;
+      if (updateData.priority !== undefined)
+        updateFields.priority = updateData.priority;
+      if (updateData.stopOnMatch !== undefined)
+        updateFields.stopOnMatch = updateData.stopOnMatch;
+      if (updateData.conditions !== undefined)
+        updateFields.conditions = updateData.conditions;
+
+      // Update which of the existing approvers are required
+      if (updateData.requiredApprovers && !updateData.approvers) {
+        await prisma.ruleApprover.updateMany({
+          where: { ruleId },
+          data: { isRequired: false },
+        });
+        await prisma.ruleApprover.updateMany({
+          where: { ruleId, approverId: { in: requiredApproverIds } },
+          data: { isRequired: true },
+        });
+      }
 
       // Update approval rule
       const updatedRule = await prisma.approvalRule.update({
@@ -234,7 +259,7 @@ export const PUT = withAuth(
             approverId,
             sequenceOrder:
               updateData.sequence === "SEQUENTIAL" ? index + 1 : null,
-            isRequired: true,
+            isRequired: requiredApproverIds.includes(approverId),
           })),
         });
 
@@ -257,15 +282,26 @@ export const PUT = withAuth(
           throw new Error("Failed to retrieve updated rule");
         }
 
+        await AuditService.record({
+          companyId: user.companyId,
+          entityType: "APPROVAL_RULE",
+          entityId: ruleId,
+          action: "updated",
+          before: toAuditedRule(existingRule),
+          after: toAuditedRule(finalRule),
+        });
+
         // Format response
         const formattedRule: ApprovalRule = {
           id: finalRule.id,
           name: finalRule.name,
           description: finalRule.description,
           isManagerApprovalRequired: finalRule.isManagerApprovalRequired,
+          managerApprovalLevels: finalRule.managerApprovalLevels,
           isSequenceRequired: finalRule.isSequenceRequired,
           minApprovalPercentage: finalRule.minApprovalPercentage,
-          isActive: updateData.isActive ?? true,
+          quorumMode: finalRule.quorumMode,
+          isActive: finalRule.isActive,
           createdAt: finalRule.createdAt.toISOString(),
           updatedAt: finalRule.updatedAt.toISOString(),
           approvers: finalRule.approvers.map((approver) => ({
@@ -275,7 +311,9 @@ export const PUT = withAuth(
             sequenceOrder: approver.sequenceOrder,
             isRequired: approver.isRequired,
           })),
-          conditions: updateData.conditions || {},
+          priority: finalRule.priority,
+          stopOnMatch: finalRule.stopOnMatch,
+          conditions: finalRule.conditions as ApprovalRuleConditionGroup | null,
         };
 
         return NextResponse.json(
@@ -290,15 +328,26 @@ export const PUT = withAuth(
         );
       }
 
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "APPROVAL_RULE",
+        entityId: ruleId,
+        action: "updated",
+        before: toAuditedRule(existingRule),
+        after: toAuditedRule(updatedRule),
+      });
+
       // Format response for non-approver updates
       const formattedRule: ApprovalRule = {
         id: updatedRule.id,
         name: updatedRule.name,
         description: updatedRule.description,
         isManagerApprovalRequired: updatedRule.isManagerApprovalRequired,
+        managerApprovalLevels: updatedRule.managerApprovalLevels,
         isSequenceRequired: updatedRule.isSequenceRequired,
         minApprovalPercentage: updatedRule.minApprovalPercentage,
-        isActive: updateData.isActive ?? true,
+        quorumMode: updatedRule.quorumMode,
+        isActive: updatedRule.isActive,
         createdAt: updatedRule.createdAt.toISOString(),
         updatedAt: updatedRule.updatedAt.toISOString(),
         approvers: updatedRule.approvers.map((approver) => ({
@@ -308,7 +357,9 @@ export const PUT = withAuth(
           sequenceOrder: approver.sequenceOrder,
           isRequired: approver.isRequired,
         })),
-        conditions: updateData.conditions || {},
+        priority: updatedRule.priority,
+        stopOnMatch: updatedRule.stopOnMatch,
+        conditions: updatedRule.conditions as ApprovalRuleConditionGroup | null,
       };
 
       return NextResponse.json(
@@ -334,14 +385,14 @@ export const PUT = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["approval-rule:manage"]
 );
 
 /**
  * DELETE /api/approval-rules/[ruleId]
- * Delete an approval rule (Admin only)
+ * Delete an approval rule (approval-rule:manage)
  */
-export const DELETE = withAuth(
+export const DELETE = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -361,28 +412,13 @@ export const DELETE = withAuth(
         );
       }
 
-      // Validate role-based access - only admins can manage approval rules
-      const accessValidation = validateApprovalAccess(
-        user.role,
-        "manage-rules"
-      );
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Check if the rule exists and belongs to the user's company
       const existingRule = await prisma.approvalRule.findFirst({
         where: {
           id: ruleId,
           companyId: user.companyId,
         },
+        include: { approvers: true },
       });
 
       if (!existingRule) {
@@ -404,6 +440,15 @@ export const DELETE = withAuth(
         where: { id: ruleId },
       });
 
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "APPROVAL_RULE",
+        entityId: ruleId,
+        action: "deleted",
+        before: toAuditedRule(existingRule),
+        after: null,
+      });
+
       return NextResponse.json(
         {
           success: true,
@@ -427,5 +472,5 @@ export const DELETE = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["approval-rule:manage"]
 );
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  previewApprovalRuleSchema,
+  validateUserInput,
+  type PreviewApprovalRuleInput,
+} from "@/lib/validations/approvals";
+import { ApprovalService } from "@/services/approval.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface PreviewApprovalRuleResponse {
+  lookbackDays: number;
+  evaluated: number;
+  matchedCount: number;
+  matched: Array<{
+    id: string;
+    description: string;
+    amount: number;
+    currency: string;
+    category: string;
+    submitterName: string;
+    expenseDate: string;
+  }>;
+}
+
+/**
+ * POST /api/approval-rules/preview
+ * Preview which recent expenses a set of rule conditions would have matched (approval-rule:manage)
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<PreviewApprovalRuleResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateUserInput(previewApprovalRuleSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const previewData: PreviewApprovalRuleInput = validation.data!;
+      const lookbackDays = previewData.lookbackDays ?? 30;
+
+      const result = await ApprovalService.previewRuleMatches(
+        user.companyId,
+        previewData.conditions,
+        lookbackDays
+      );
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to preview approval rule",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Approval rule preview generated successfully",
+          data: {
+            lookbackDays,
+            evaluated: result.data.evaluated,
+            matchedCount: result.data.matched.length,
+            matched: result.data.matched,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error previewing approval rule:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to preview approval rule",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["approval-rule:manage"]
+);
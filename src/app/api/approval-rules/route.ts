@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import { ApiResponse } from "@/types/api";
 import {
   approvalRulesQuerySchema,
   createApprovalRuleSchema,
-  validateApprovalAccess,
   validateUserInput,
   validateApprovalRuleConfig,
   type ApprovalRulesQueryInput,
   type CreateApprovalRuleInput,
 } from "@/lib/validations/approvals";
 import { prisma } from "@/lib/prisma";
+import {
+  ApprovalRuleConditionGroup,
+  toAuditedRule,
+} from "@/lib/approval-rules";
+import { AuditService } from "@/services/audit.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -30,8 +34,10 @@ interface ApprovalRule {
   name: string;
   description: string | null;
   isManagerApprovalRequired: boolean;
+  managerApprovalLevels: number;
   isSequenceRequired: boolean;
   minApprovalPercentage: number | null;
+  quorumMode: "ALL" | "ANY";
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -42,12 +48,9 @@ interface ApprovalRule {
     sequenceOrder: number | null;
     isRequired: boolean;
   }>;
-  conditions: {
-    amountThreshold?: number;
-    categories?: string[];
-    userRoles?: string[];
-    departmentIds?: string[];
-  };
+  priority: number;
+  stopOnMatch: boolean;
+  conditions: ApprovalRuleConditionGroup | null;
 }
 
 interface ApprovalRulesResponse {
@@ -68,31 +71,15 @@ interface CreateApprovalRuleResponse {
 
 /**
  * GET /api/approval-rules?page=1&limit=20&isActive=true
- * Get approval rules for the company (Admin only)
+ * Get approval rules for the company (approval-rule:manage)
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (
     request: NextRequest
   ): Promise<NextResponse<ApiResponse<ApprovalRulesResponse>>> => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Validate role-based access - only admins can manage approval rules
-      const accessValidation = validateApprovalAccess(
-        user.role,
-        "manage-rules"
-      );
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate query parameters
       const searchParams = Object.fromEntries(
         request.nextUrl.searchParams.entries()
@@ -156,9 +143,11 @@ export const GET = withAuth(
         name: rule.name,
         description: rule.description,
         isManagerApprovalRequired: rule.isManagerApprovalRequired,
+        managerApprovalLevels: rule.managerApprovalLevels,
         isSequenceRequired: rule.isSequenceRequired,
         minApprovalPercentage: rule.minApprovalPercentage,
-        isActive: true, // TODO: Add isActive field to schema
+        quorumMode: rule.quorumMode,
+        isActive: rule.isActive,
         createdAt: rule.createdAt.toISOString(),
         updatedAt: rule.updatedAt.toISOString(),
         approvers: rule.approvers.map((approver) => ({
@@ -168,9 +157,9 @@ export const GET = withAuth(
           sequenceOrder: approver.sequenceOrder,
           isRequired: approver.isRequired,
         })),
-        conditions: {
-          // TODO: Parse conditions from database or add conditions field
-        },
+        priority: rule.priority,
+        stopOnMatch: rule.stopOnMatch,
+        conditions: rule.conditions as ApprovalRuleConditionGroup | null,
       }));
 
       return NextResponse.json(
@@ -205,36 +194,20 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["approval-rule:manage"]
 );
 
 /**
  * POST /api/approval-rules
- * Create a new approval rule (Admin only)
+ * Create a new approval rule (approval-rule:manage)
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (
     request: NextRequest
   ): Promise<NextResponse<ApiResponse<CreateApprovalRuleResponse>>> => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Validate role-based access - only admins can manage approval rules
-      const accessValidation = validateApprovalAccess(
-        user.role,
-        "manage-rules"
-      );
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate request body
       const body = await request.json();
       const validation = validateUserInput(createApprovalRuleSchema, body);
@@ -257,7 +230,8 @@ export const POST = withAuth(
       const configValidation = validateApprovalRuleConfig(
         ruleData.approvers,
         ruleData.sequence,
-        ruleData.minApprovalPercentage
+        ruleData.minApprovalPercentage,
+        ruleData.requiredApprovers
       );
 
       if (!configValidation.success) {
@@ -298,15 +272,21 @@ export const POST = withAuth(
           name: ruleData.name,
           description: ruleData.description || null,
           isManagerApprovalRequired: ruleData.isManagerApprovalRequired,
+          managerApprovalLevels: ruleData.managerApprovalLevels,
           isSequenceRequired: ruleData.sequence === "SEQUENTIAL",
           minApprovalPercentage: ruleData.minApprovalPercentage,
+          quorumMode: ruleData.quorumMode,
+          isActive: ruleData.isActive,
+          priority: ruleData.priority,
+          stopOnMatch: ruleData.stopOnMatch,
+          conditions: ruleData.conditions,
           companyId: user.companyId,
           approvers: {
             create: ruleData.approvers.map((approverId, index) => ({
               approverId,
               sequenceOrder:
                 ruleData.sequence === "SEQUENTIAL" ? index + 1 : null,
-              isRequired: true,
+              isRequired: ruleData.requiredApprovers.includes(approverId),
             })),
           },
         },
@@ -322,15 +302,26 @@ export const POST = withAuth(
         },
       });
 
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "APPROVAL_RULE",
+        entityId: newRule.id,
+        action: "created",
+        before: null,
+        after: toAuditedRule(newRule),
+      });
+
       // Format response
       const formattedRule: ApprovalRule = {
         id: newRule.id,
         name: newRule.name,
         description: newRule.description,
         isManagerApprovalRequired: newRule.isManagerApprovalRequired,
+        managerApprovalLevels: newRule.managerApprovalLevels,
         isSequenceRequired: newRule.isSequenceRequired,
         minApprovalPercentage: newRule.minApprovalPercentage,
-        isActive: ruleData.isActive,
+        quorumMode: newRule.quorumMode,
+        isActive: newRule.isActive,
         createdAt: newRule.createdAt.toISOString(),
         updatedAt: newRule.updatedAt.toISOString(),
         approvers: newRule.approvers.map((approver) => ({
@@ -340,7 +331,9 @@ export const POST = withAuth(
           sequenceOrder: approver.sequenceOrder,
           isRequired: approver.isRequired,
         })),
-        conditions: ruleData.conditions,
+        priority: newRule.priority,
+        stopOnMatch: newRule.stopOnMatch,
+        conditions: newRule.conditions as ApprovalRuleConditionGroup | null,
       };
 
       return NextResponse.json(
@@ -366,5 +359,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["approval-rule:manage"]
 );
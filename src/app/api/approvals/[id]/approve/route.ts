@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import { ApiResponse } from "@/types/api";
 import {
   approveExpenseSchema,
-  validateApprovalAccess,
   validateUserInput,
   validateExpenseApprovalAuth,
   type ApproveExpenseInput,
 } from "@/lib/validations/approvals";
 import { prisma } from "@/lib/prisma";
+import { ApprovalService } from "@/services/approval.service";
+import { DelegationService } from "@/services/delegation.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -41,14 +42,19 @@ interface ApproveExpenseResponse {
       name: string;
       email: string;
     };
+    // Present when the decision was made by a delegate on the approver's behalf
+    actedBy: {
+      id: string;
+      name: string;
+    } | null;
   };
 }
 
 /**
  * POST /api/approvals/[id]/approve
- * Approve an expense approval request
+ * Approve an expense approval request (expense:approve)
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -68,19 +74,6 @@ export const POST = withAuth(
         );
       }
 
-      // Validate role-based access
-      const accessValidation = validateApprovalAccess(user.role, "approve");
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate request body
       const body = await request.json();
       const validation = validateUserInput(approveExpenseSchema, body);
@@ -99,22 +92,29 @@ export const POST = withAuth(
 
       const { comment }: ApproveExpenseInput = validation.data!;
 
-      // Check if the expense and approval exist
-      const existingApproval = await prisma.expenseApproval.findFirst({
+      // Check if the expense and approval exist. An approver can hold more than
+      // one step for the same expense (their own or delegated to them), so
+      // prefer the step that is currently open
+      const delegatorIds = await DelegationService.getActiveDelegatorIds(
+        user.id
+      );
+      const approverSteps = await prisma.expenseApproval.findMany({
         where: {
           expenseId,
-          approverId: user.id,
+          approverId: { in: [user.id, ...delegatorIds] },
         },
         include: {
           expense: {
-            include: {
-              submitter: true,
-              category: true,
-            },
+            select: { submitterId: true },
           },
-          approver: true,
+        },
+        orderBy: {
+          createdAt: "asc",
         },
       });
+      const existingApproval =
+        approverSteps.find((step) => step.status === "PENDING") ??
+        approverSteps[0];
 
       if (!existingApproval) {
         return NextResponse.json(
@@ -132,7 +132,9 @@ export const POST = withAuth(
       const authValidation = validateExpenseApprovalAuth(
         existingApproval.approverId,
         user.id,
-        existingApproval.status
+        existingApproval.status,
+        delegatorIds,
+        existingApproval.expense?.submitterId
       );
 
       if (!authValidation.success) {
@@ -146,40 +148,25 @@ export const POST = withAuth(
         );
       }
 
-      // Update approval status
-      const updatedApproval = await prisma.expenseApproval.update({
-        where: {
-          id: existingApproval.id,
-        },
-        data: {
-          status: "APPROVED",
-          comments: comment || null,
-          processedAt: new Date(),
-        },
-        include: {
-          expense: {
-            include: {
-              submitter: true,
-              category: true,
-            },
-          },
-          approver: true,
-        },
-      });
+      // Record the decision; the expense only moves once the chain completes
+      const result = await ApprovalService.approveExpense(
+        existingApproval.id,
+        user.id,
+        comment
+      );
 
-      // Update expense status to approved
-      await prisma.expense.update({
-        where: {
-          id: expenseId,
-        },
-        data: {
-          status: "APPROVED",
-          updatedAt: new Date(),
-        },
-      });
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to approve expense",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
 
-      // TODO: Send notification to expense owner
-      // TODO: Check if there are more approvals needed
+      const updatedApproval = result.data;
 
       return NextResponse.json(
         {
@@ -205,6 +192,12 @@ export const POST = withAuth(
                 name: updatedApproval.approver.name,
                 email: updatedApproval.approver.email,
               },
+              actedBy: updatedApproval.actedBy
+                ? {
+                    id: updatedApproval.actedBy.id,
+                    name: updatedApproval.actedBy.name,
+                  }
+                : null,
             },
           },
         },
@@ -223,5 +216,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ["ADMIN", "MANAGER"] }
+  ["expense:approve"]
 );
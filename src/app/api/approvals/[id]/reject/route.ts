@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import { ApiResponse } from "@/types/api";
 import {
   rejectExpenseSchema,
-  validateApprovalAccess,
   validateUserInput,
   validateExpenseApprovalAuth,
   type RejectExpenseInput,
 } from "@/lib/validations/approvals";
 import { prisma } from "@/lib/prisma";
+import { ApprovalService } from "@/services/approval.service";
+import { DelegationService } from "@/services/delegation.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -42,14 +43,19 @@ interface RejectExpenseResponse {
       name: string;
       email: string;
     };
+    // Present when the decision was made by a delegate on the approver's behalf
+    actedBy: {
+      id: string;
+      name: string;
+    } | null;
   };
 }
 
 /**
  * POST /api/approvals/[id]/reject
- * Reject an expense approval request
+ * Reject an expense approval request (expense:reject)
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -69,19 +75,6 @@ export const POST = withAuth(
         );
       }
 
-      // Validate role-based access
-      const accessValidation = validateApprovalAccess(user.role, "reject");
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate request body
       const body = await request.json();
       const validation = validateUserInput(rejectExpenseSchema, body);
@@ -100,22 +93,29 @@ export const POST = withAuth(
 
       const { reason, comment }: RejectExpenseInput = validation.data!;
 
-      // Check if the expense and approval exist
-      const existingApproval = await prisma.expenseApproval.findFirst({
+      // Check if the expense and approval exist. An approver can hold more than
+      // one step for the same expense (their own or delegated to them), so
+      // prefer the step that is currently open
+      const delegatorIds = await DelegationService.getActiveDelegatorIds(
+        user.id
+      );
+      const approverSteps = await prisma.expenseApproval.findMany({
         where: {
           expenseId,
-          approverId: user.id,
+          approverId: { in: [user.id, ...delegatorIds] },
         },
         include: {
           expense: {
-            include: {
-              submitter: true,
-              category: true,
-            },
+            select: { submitterId: true },
           },
-          approver: true,
+        },
+        orderBy: {
+          createdAt: "asc",
         },
       });
+      const existingApproval =
+        approverSteps.find((step) => step.status === "PENDING") ??
+        approverSteps[0];
 
       if (!existingApproval) {
         return NextResponse.json(
@@ -133,7 +133,9 @@ export const POST = withAuth(
       const authValidation = validateExpenseApprovalAuth(
         existingApproval.approverId,
         user.id,
-        existingApproval.status
+        existingApproval.status,
+        delegatorIds,
+        existingApproval.expense?.submitterId
       );
 
       if (!authValidation.success) {
@@ -147,40 +149,25 @@ export const POST = withAuth(
         );
       }
 
-      // Update approval status with rejection details
-      const updatedApproval = await prisma.expenseApproval.update({
-        where: {
-          id: existingApproval.id,
-        },
-        data: {
-          status: "REJECTED",
-          comments: `Reason: ${reason}\nComment: ${comment}`,
-          processedAt: new Date(),
-        },
-        include: {
-          expense: {
-            include: {
-              submitter: true,
-              category: true,
-            },
-          },
-          approver: true,
-        },
-      });
+      // Record the decision; a rejection ends the whole chain
+      const result = await ApprovalService.rejectExpense(
+        existingApproval.id,
+        user.id,
+        `Reason: ${reason}\nComment: ${comment}`
+      );
 
-      // Update expense status to rejected
-      await prisma.expense.update({
-        where: {
-          id: expenseId,
-        },
-        data: {
-          status: "REJECTED",
-          updatedAt: new Date(),
-        },
-      });
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to reject expense",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
 
-      // TODO: Send notification to expense owner with rejection reason
-      // TODO: Log rejection for audit trail
+      const updatedApproval = result.data;
 
       return NextResponse.json(
         {
@@ -207,6 +194,12 @@ export const POST = withAuth(
                 name: updatedApproval.approver.name,
                 email: updatedApproval.approver.email,
               },
+              actedBy: updatedApproval.actedBy
+                ? {
+                    id: updatedApproval.actedBy.id,
+                    name: updatedApproval.actedBy.name,
+                  }
+                : null,
             },
           },
         },
@@ -225,5 +218,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ["ADMIN", "MANAGER"] }
+  ["expense:reject"]
 );
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import { DelegationService } from "@/services/delegation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * DELETE /api/approvals/delegations/[delegationId]
+ * Remove a delegation (the delegator or an admin)
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<{ id: string }>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const delegationId = context?.params?.delegationId;
+
+      if (!delegationId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Delegation ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await DelegationService.deleteDelegation(
+        delegationId,
+        user
+      );
+
+      if (!result.success || !result.data) {
+        const code = result.error?.code;
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to delete delegation",
+            error:
+              code === "DELEGATION_NOT_FOUND"
+                ? "NOT_FOUND"
+                : code === "FORBIDDEN"
+                ? "FORBIDDEN"
+                : "SERVICE_ERROR",
+          },
+          {
+            status:
+              code === "DELEGATION_NOT_FOUND"
+                ? 404
+                : code === "FORBIDDEN"
+                ? 403
+                : 500,
+          }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Delegation deleted successfully",
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error deleting delegation:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to delete delegation",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN", "MANAGER"] }
+);
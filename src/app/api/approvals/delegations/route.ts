@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  createDelegationSchema,
+  delegationsQuerySchema,
+  validateApprovalAccess,
+  validateUserInput,
+  type CreateDelegationInput,
+  type DelegationsQueryInput,
+} from "@/lib/validations/approvals";
+import {
+  DelegationService,
+  type ApprovalDelegationPublic,
+} from "@/services/delegation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface DelegationsResponse {
+  delegations: ApprovalDelegationPublic[];
+}
+
+interface CreateDelegationResponse {
+  delegation: ApprovalDelegationPublic;
+}
+
+/**
+ * GET /api/approvals/delegations?userId=...&includeExpired=false
+ * List approval delegations. Managers see their own; admins can see everyone's
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<DelegationsResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate query parameters
+      const searchParams = Object.fromEntries(
+        request.nextUrl.searchParams.entries()
+      );
+      const validation = validateUserInput(
+        delegationsQuerySchema,
+        searchParams
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid query parameters",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const validatedQuery: DelegationsQueryInput = validation.data!;
+
+      // Only admins can look beyond their own delegations
+      const canManage = validateApprovalAccess(
+        user.role,
+        "manage-delegations"
+      ).success;
+      const userId = canManage ? validatedQuery.userId : user.id;
+
+      const result = await DelegationService.getDelegations(user.companyId, {
+        userId,
+        includeExpired: validatedQuery.includeExpired,
+      });
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to retrieve delegations",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Delegations retrieved successfully",
+          data: {
+            delegations: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching delegations:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch delegations",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN", "MANAGER"] }
+);
+
+/**
+ * POST /api/approvals/delegations
+ * Delegate approvals to another user for a date range.
+ * Admins may set delegatorId to delegate on behalf of another user
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<CreateDelegationResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateUserInput(createDelegationSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const delegationData: CreateDelegationInput = validation.data!;
+      const delegatorId = delegationData.delegatorId ?? user.id;
+
+      if (delegatorId !== user.id) {
+        const accessValidation = validateApprovalAccess(
+          user.role,
+          "manage-delegations"
+        );
+        if (!accessValidation.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              message: accessValidation.error || "Access denied",
+              error: "FORBIDDEN",
+            },
+            { status: 403 }
+          );
+        }
+      }
+
+      const result = await DelegationService.createDelegation({
+        companyId: user.companyId,
+        delegatorId,
+        delegateId: delegationData.delegateId,
+        startDate: delegationData.startDate,
+        endDate: delegationData.endDate,
+        reason: delegationData.reason,
+        createdById: user.id,
+      });
+
+      if (!result.success || !result.data) {
+        const code = result.error?.code;
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to create delegation",
+            error:
+              code === "USER_NOT_FOUND"
+                ? "NOT_FOUND"
+                : code === "DELEGATION_CREATION_FAILED"
+                ? "SERVICE_ERROR"
+                : "VALIDATION_ERROR",
+          },
+          {
+            status:
+              code === "USER_NOT_FOUND"
+                ? 404
+                : code === "DELEGATION_CREATION_FAILED"
+                ? 500
+                : 400,
+          }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Delegation created successfully",
+          data: {
+            delegation: result.data,
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Error creating delegation:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to create delegation",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN", "MANAGER"] }
+);
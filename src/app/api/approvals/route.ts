@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import { ApiResponse } from "@/types/api";
 import {
   pendingApprovalsQuerySchema,
-  validateApprovalAccess,
   validateUserInput,
   type PendingApprovalsQueryInput,
 } from "@/lib/validations/approvals";
@@ -71,28 +70,15 @@ interface PendingApprovalsResponse {
 
 /**
  * GET /api/approvals?page=1&limit=20&status=PENDING
- * Get pending approvals for the current user
+ * Get pending approvals for the current user (expense:approve)
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (
     request: NextRequest
   ): Promise<NextResponse<ApiResponse<PendingApprovalsResponse>>> => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Validate role-based access
-      const accessValidation = validateApprovalAccess(user.role, "view");
-      if (!accessValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            message: accessValidation.error || "Access denied",
-            error: "FORBIDDEN",
-          },
-          { status: 403 }
-        );
-      }
-
       // Parse and validate query parameters
       const searchParams = Object.fromEntries(
         request.nextUrl.searchParams.entries()
@@ -143,6 +129,10 @@ export const GET = withAuth(
       // Format response
       const formattedApprovals = result.data.data.map((approval) => ({
         id: approval.id,
+        // Report and advance steps are decided through
+        // /api/expense-reports/{id} and /api/advances/{id}
+        reportId: approval.reportId ?? null,
+        advanceId: approval.advanceId ?? null,
         expense: {
           id: approval.expenseId,
           title: approval.expenseId, // Using expense ID as title for now
@@ -163,7 +153,9 @@ export const GET = withAuth(
           receipts: [], // TODO: Add receipts
         },
         status: approval.status,
-        requiredBy: null,
+        requiredBy: approval.dueAt
+          ? new Date(approval.dueAt).toISOString()
+          : null,
         comment: approval.comment || null,
         assignedTo: {
           id: approval.approverId,
@@ -204,5 +196,5 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ["ADMIN", "MANAGER"] }
+  ["expense:approve"]
 );
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  updateApprovalSlaSettingsSchema,
+  validateUserInput,
+  type UpdateApprovalSlaSettingsInput,
+} from "@/lib/validations/approvals";
+import {
+  ApprovalSlaService,
+  type ApprovalSlaSettingsPublic,
+} from "@/services/approval-sla.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface ApprovalSlaSettingsResponse {
+  settings: ApprovalSlaSettingsPublic;
+}
+
+/**
+ * GET /api/approvals/sla-settings
+ * Get the company's approval SLA settings
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ApprovalSlaSettingsResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await ApprovalSlaService.getSettings(user.companyId);
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to retrieve approval SLA settings",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Approval SLA settings retrieved successfully",
+          data: {
+            settings: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching approval SLA settings:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch approval SLA settings",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN", "MANAGER"] }
+);
+
+/**
+ * PUT /api/approvals/sla-settings
+ * Set how long each approval step may stay pending, when reminders go out
+ * and who overdue steps are escalated to (admin only)
+ */
+export const PUT = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ApprovalSlaSettingsResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateUserInput(
+        updateApprovalSlaSettingsSchema,
+        body
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const settingsData: UpdateApprovalSlaSettingsInput = validation.data!;
+
+      const result = await ApprovalSlaService.updateSettings(
+        user.companyId,
+        settingsData,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const isValidationError =
+          result.error?.code === "INVALID_FALLBACK_APPROVER";
+        return NextResponse.json(
+          {
+            success: false,
+            message:
+              result.error?.message || "Failed to update approval SLA settings",
+            error: isValidationError ? "VALIDATION_ERROR" : "SERVICE_ERROR",
+          },
+          { status: isValidationError ? 400 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Approval SLA settings updated successfully",
+          data: {
+            settings: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error updating approval SLA settings:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to update approval SLA settings",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  auditQuerySchema,
+  validateAuditInput,
+} from "@/lib/validations/audit";
+import { AuditService } from "@/services/audit.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  AUDIT_EXPORT_TOO_LARGE: 400,
+};
+
+// Error response for a failed AuditService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Audit Events (Admin only)
+ * GET /api/audit
+ *
+ * Who changed what in the company, newest first.
+ *
+ * Query Parameters:
+ * - entityType: EXPENSE | APPROVAL | APPROVAL_RULE | USER | ROLE | CATEGORY | SETTINGS | INVITATION
+ * - entityId, expenseId, actorId, action
+ * - startDate, endDate: YYYY-MM-DD
+ * - page, limit (default 50, max 200)
+ * - format: json (default) | csv; csv downloads every matching event
+ */
+export const GET = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const { searchParams } = new URL(request.url);
+      const validation = validateAuditInput(
+        auditQuerySchema,
+        Object.fromEntries(searchParams.entries())
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid query parameters",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const query = validation.data!;
+
+      if (query.format === "csv") {
+        const result = await AuditService.exportEvents(user.companyId, query);
+
+        if (!result.success) {
+          return serviceErrorResponse(
+            result.error,
+            "Failed to export audit events"
+          );
+        }
+
+        const file = result.data!;
+        return new NextResponse(new Uint8Array(file.buffer), {
+          status: 200,
+          headers: {
+            "Content-Type": file.contentType,
+            "Content-Disposition": `attachment; filename="audit-log.${file.extension}"`,
+          },
+        });
+      }
+
+      const result = await AuditService.listEvents(user.companyId, query);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to fetch audit events");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get audit events error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch audit events",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
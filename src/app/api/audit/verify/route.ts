@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { AuditService } from "@/services/audit.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Verify Audit Trail (Admin only)
+ * GET /api/audit/verify
+ *
+ * Recomputes the hash chain of the company's audit events. A broken chain
+ * means an event was altered or removed; brokenAtSequence is the first
+ * event that doesn't match.
+ */
+export const GET = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await AuditService.verifyChain(user.companyId);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INTERNAL_ERROR",
+              message: result.error?.message || "Failed to verify audit trail",
+            },
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Verify audit trail error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to verify audit trail",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  twoFactorCodeSchema,
+  validateInput,
+} from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  TWO_FACTOR_NOT_ENABLED: 409,
+  TWO_FACTOR_REQUIRED: 403,
+  INVALID_CODE: 400,
+};
+
+// Error response for a failed TwoFactorService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Disable Two-Factor Authentication
+ * POST /api/auth/2fa/disable
+ *
+ * Needs a current code. Not allowed when the company requires two-factor
+ * authentication for the user's role.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const body = await request.json();
+    const validation = validateInput(twoFactorCodeSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorService.disable(user.id, validation.data!.code);
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to disable two-factor authentication"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Two-factor authentication disabled",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to disable two-factor authentication",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
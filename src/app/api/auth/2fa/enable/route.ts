@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  twoFactorCodeSchema,
+  validateInput,
+} from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+  TWO_FACTOR_ALREADY_ENABLED: 409,
+  TWO_FACTOR_SETUP_EXPIRED: 400,
+  INVALID_CODE: 400,
+};
+
+// Error response for a failed TwoFactorService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Enable Two-Factor Authentication
+ * POST /api/auth/2fa/enable
+ *
+ * Confirms setup with a code from the authenticator app. The recovery codes
+ * in the response are only shown this once.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const body = await request.json();
+    const validation = validateInput(twoFactorCodeSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorService.enable(
+      user.id,
+      validation.data!.code
+    );
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to enable two-factor authentication"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Two-factor authentication enabled",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Enable two-factor error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to enable two-factor authentication",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  twoFactorCodeSchema,
+  validateInput,
+} from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  TWO_FACTOR_NOT_ENABLED: 409,
+  INVALID_CODE: 400,
+};
+
+// Error response for a failed TwoFactorService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Regenerate Recovery Codes
+ * POST /api/auth/2fa/recovery-codes
+ *
+ * Needs a current code. Replaces all of the user's recovery codes.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const body = await request.json();
+    const validation = validateInput(twoFactorCodeSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorService.regenerateRecoveryCodes(
+      user.id,
+      validation.data!.code
+    );
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to regenerate recovery codes"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Recovery codes regenerated",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to regenerate recovery codes",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+};
+
+// Error response for a failed TwoFactorService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Two-Factor Status
+ * GET /api/auth/2fa
+ *
+ * Whether the signed-in user has two-factor authentication, and whether
+ * their company requires it for them.
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+    const result = await TwoFactorService.getStatus(user.id);
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to get two-factor status"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Two-factor status error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to get two-factor status",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
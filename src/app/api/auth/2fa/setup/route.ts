@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+  TWO_FACTOR_ALREADY_ENABLED: 409,
+};
+
+// Error response for a failed TwoFactorService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Start Two-Factor Setup
+ * POST /api/auth/2fa/setup
+ *
+ * Returns a new secret with its QR code for the user's authenticator app.
+ * It's saved once a code from it is confirmed at /api/auth/2fa/enable.
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+    const result = await TwoFactorService.beginSetup(user.id);
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to start two-factor setup"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to start two-factor setup",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { startSession } from "@/lib/session";
+import {
+  validateInput,
+  verifyTwoFactorSchema,
+} from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_CHALLENGE: 401,
+  INVALID_CODE: 401,
+  TOO_MANY_ATTEMPTS: 429,
+};
+
+/**
+ * Two-Factor Sign-in
+ * POST /api/auth/2fa/verify
+ *
+ * Completes a sign-in that returned a two-factor challenge, with a code from
+ * the authenticator app or a recovery code, and provides access and refresh
+ * tokens. When the challenge was to set up two-factor authentication the
+ * response also carries the new recovery codes, which aren't shown again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = validateInput(verifyTwoFactorSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { challengeToken, code, recoveryCode } = validation.data!;
+
+    const result = await TwoFactorService.verifySignInChallenge(challengeToken, {
+      code,
+      recoveryCode,
+    });
+
+    if (!result.success) {
+      const errorCode = result.error?.code || "";
+      const status = ERROR_STATUS[errorCode] || 500;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: status === 500 ? "INTERNAL_ERROR" : errorCode,
+            message: result.error?.message || "Two-factor verification failed",
+          },
+        },
+        { status }
+      );
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: result.data!.userId },
+    });
+
+    const session = await startSession(user);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...session,
+          ...(result.data!.recoveryCodes && {
+            recoveryCodes: result.data!.recoveryCodes,
+          }),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Two-factor verification error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Two-factor verification failed",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { verifyPassword } from "@/lib/password";
-import { generateTokenPair, User, storeRefreshToken } from "@/lib/jwt";
+import { startSession } from "@/lib/session";
 import { loginSchema, validateInput } from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
 
 /**
  * User Login
  * POST /api/auth/login
  *
- * Authenticates a user and provides access and refresh tokens.
+ * Authenticates a user and provides access and refresh tokens, or a
+ * two-factor challenge when the user has to pass that step first.
  * Based on API specification in docs/backend/01-api-specifications.md
  */
 export async function POST(request: NextRequest) {
@@ -75,43 +77,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Admins who signed up themselves confirm their email first
+    if (!user.emailVerifiedAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "EMAIL_NOT_VERIFIED",
+            message:
+              "Verify your email address before signing in. Check your inbox for the verification link.",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
     // Check if user account is active (you can add status field to User model later)
     // For now, we assume all users are active
 
-    // Generate JWT tokens
-    const userForToken: User = {
-      id: user.id,
-      email: user.email,
-      role: user.role as "ADMIN" | "MANAGER" | "EMPLOYEE",
-      companyId: user.companyId,
-    };
-
-    const tokens = generateTokenPair(userForToken);
-
-    // Store refresh token in Redis
-    await storeRefreshToken(user.id, tokens.refreshToken);
-
-    // Extract first and last name from the stored name field
-    const nameParts = user.name.split(" ");
-    const firstName = nameParts[0] || "";
-    const lastName = nameParts.slice(1).join(" ") || "";
+    // Users with two-factor authentication, or who must set it up, get a
+    // challenge to answer at /api/auth/2fa/verify instead of tokens
+    const twoFactor = await TwoFactorService.createSignInChallenge(user);
+    if (twoFactor) {
+      return NextResponse.json(
+        {
+          success: true,
+          data: { twoFactor },
+        },
+        { status: 200 }
+      );
+    }
 
-    // Prepare response data
-    const responseData = {
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        firstName,
-        lastName,
-        companyId: user.companyId,
-      },
-      tokens: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresIn: tokens.expiresIn,
-      },
-    };
+    // Generate JWT tokens and store the refresh token in Redis
+    const responseData = await startSession(user);
 
     return NextResponse.json(
       {
@@ -1,18 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { hashPassword } from "@/lib/password";
-import { generateTokenPair, User } from "@/lib/jwt";
 import {
   companyRegistrationSchema,
   validateInput,
 } from "@/lib/validations/auth";
+import {
+  companySignupSchema,
+  validateCompanyInput,
+} from "@/lib/validations/companies";
+import { OnboardingService } from "@/services/onboarding.service";
+
+const ERROR_STATUS: Record<string, number> = {
+  EMAIL_EXISTS: 409,
+  COMPANY_EXISTS: 409,
+  COMPANY_DOMAIN_EXISTS: 409,
+  COMPANY_CREATE_FAILED: 400,
+};
 
 /**
  * Company Registration
  * POST /api/auth/register
  *
- * Creates a new company account with an admin user.
- * Based on API specification in docs/backend/01-api-specifications.md
+ * The older form of POST /api/auth/signup, kept for existing clients. The
+ * request is mapped onto a signup, so the company gets the same defaults and
+ * the admin verifies their email address before signing in; no tokens are
+ * returned. The base currency is USD.
+ *
+ * Request Body:
+ * {
+ *   company: { name: string; industry: string; size: string; country: string };
+ *   admin: { firstName: string; lastName: string; email: string; password: string };
+ * }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -36,146 +53,59 @@ export async function POST(request: NextRequest) {
 
     const { company: companyData, admin: adminData } = validation.data!;
 
-    // Check if company with same name already exists
-    const existingCompany = await prisma.company.findFirst({
-      where: {
-        name: {
-          equals: companyData.name,
-          mode: "insensitive",
-        },
-      },
+    const signup = validateCompanyInput(companySignupSchema, {
+      adminName: `${adminData.firstName} ${adminData.lastName}`,
+      email: adminData.email,
+      companyName: companyData.name,
+      country: companyData.country,
+      baseCurrency: "USD",
+      password: adminData.password,
     });
-
-    if (existingCompany) {
+    if (!signup.success) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: "COMPANY_EXISTS",
-            message: "A company with this name already exists",
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: signup.errors,
           },
         },
-        { status: 409 }
+        { status: 400 }
       );
     }
 
-    // Check if user with same email already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email: adminData.email },
-    });
+    const result = await OnboardingService.signUp(signup.data!);
 
-    if (existingUser) {
+    if (!result.success) {
+      const code = result.error?.code || "";
+      const status = ERROR_STATUS[code] || 500;
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: "EMAIL_EXISTS",
-            message: "A user with this email already exists",
+            code: status === 500 ? "INTERNAL_ERROR" : code,
+            message: result.error?.message || "Company registration failed",
+            ...(status !== 500 && result.error?.details
+              ? { details: result.error.details }
+              : {}),
           },
         },
-        { status: 409 }
+        { status }
       );
     }
 
-    // Hash password
-    const passwordHash = await hashPassword(adminData.password);
-
-    // Create company and admin user in a transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create company
-      const newCompany = await tx.company.create({
-        data: {
-          name: companyData.name,
-          country: companyData.country,
-          baseCurrency: "USD", // Default to USD, can be made configurable
-        },
-      });
-
-      // Create admin user
-      const newUser = await tx.user.create({
-        data: {
-          email: adminData.email,
-          name: `${adminData.firstName} ${adminData.lastName}`,
-          password: passwordHash,
-          role: "ADMIN",
-          companyId: newCompany.id,
-        },
-      });
-
-      // Create default expense categories for the company
-      await tx.expenseCategory.createMany({
-        data: [
-          { name: "Travel", companyId: newCompany.id },
-          { name: "Meals & Entertainment", companyId: newCompany.id },
-          { name: "Office Supplies", companyId: newCompany.id },
-          { name: "Equipment", companyId: newCompany.id },
-          { name: "Software & Subscriptions", companyId: newCompany.id },
-          { name: "Transportation", companyId: newCompany.id },
-          { name: "Accommodation", companyId: newCompany.id },
-        ],
-      });
-
-      return { company: newCompany, user: newUser };
-    });
-
-    // Generate JWT tokens for the admin user
-    const userForToken: User = {
-      id: result.user.id,
-      email: result.user.email,
-      role: result.user.role as "ADMIN" | "MANAGER" | "EMPLOYEE",
-      companyId: result.user.companyId,
-    };
-
-    const tokens = generateTokenPair(userForToken);
-
-    // Prepare response data
-    const responseData = {
-      company: {
-        id: result.company.id,
-        name: result.company.name,
-        status: "ACTIVE",
-        createdAt: result.company.createdAt,
-      },
-      user: {
-        id: result.user.id,
-        email: result.user.email,
-        role: result.user.role,
-        firstName: adminData.firstName,
-        lastName: adminData.lastName,
-      },
-      tokens: {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-        expiresIn: tokens.expiresIn,
-      },
-    };
-
     return NextResponse.json(
       {
         success: true,
-        data: responseData,
+        data: result.data,
+        message: "Account created. Check your email to verify your address.",
       },
       { status: 201 }
     );
   } catch (error) {
     console.error("Company registration error:", error);
 
-    // Handle specific Prisma errors
-    if (error instanceof Error) {
-      if (error.message.includes("Unique constraint")) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "CONFLICT",
-              message: "Company or email already exists",
-            },
-          },
-          { status: 409 }
-        );
-      }
-    }
-
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  resendVerificationSchema,
+  validateInput,
+} from "@/lib/validations/auth";
+import { OnboardingService } from "@/services/onboarding.service";
+
+/**
+ * Resend Verification Email
+ * POST /api/auth/resend-verification
+ *
+ * Sends a new verification link to an unverified account; the previous link
+ * stops working. The response is the same whether or not the account
+ * exists.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validation = validateInput(resendVerificationSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await OnboardingService.resendVerification(
+      validation.data!.email
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: result.error?.message || "Failed to send verification email",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "If the account needs verification, a new link has been sent",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Resend verification error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to send verification email",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,77 @@
 import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { verifyPassword } from "@/lib/password";
+import { startSession } from "@/lib/session";
+import { loginSchema, validateInput } from "@/lib/validations/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
 
+/**
+ * Sign In (web app)
+ * POST /api/auth/signin
+ *
+ * Same checks as /api/auth/login, answered in the shape the sign-in page
+ * expects. Users with two-factor authentication get a challenge to answer at
+ * /api/auth/2fa/verify instead of a token.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, password } = body;
 
-    // Validate required fields
-    if (!email || !password) {
+    const validation = validateInput(loginSchema, body);
+    if (!validation.success) {
       return NextResponse.json(
         { message: "Email and password are required" },
         { status: 400 }
       );
     }
 
-    // TODO: Implement actual authentication logic with Prisma
-    // For now, return a mock success response based on email
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    // Mock authentication - determine role based on email
-    let role = "EMPLOYEE";
-    if (email.includes("admin")) {
-      role = "ADMIN";
-    } else if (email.includes("manager")) {
-      role = "MANAGER";
+    const { email, password } = validation.data!;
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !(await verifyPassword(password, user.password))) {
+      return NextResponse.json(
+        { message: "Invalid email or password" },
+        { status: 401 }
+      );
     }
 
-    // Mock response
+    if (!user.emailVerifiedAt) {
+      return NextResponse.json(
+        {
+          message:
+            "Verify your email address before signing in. Check your inbox for the verification link.",
+          code: "EMAIL_NOT_VERIFIED",
+        },
+        { status: 403 }
+      );
+    }
+
+    const twoFactor = await TwoFactorService.createSignInChallenge(user);
+    if (twoFactor) {
+      return NextResponse.json(
+        {
+          message: "Two-factor authentication required",
+          twoFactor,
+        },
+        { status: 200 }
+      );
+    }
+
+    const session = await startSession(user);
+
     return NextResponse.json(
       {
         message: "Sign in successful",
         user: {
-          id: "mock-user-id",
-          name: email.split("@")[0],
-          email: email,
-          role: role,
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          companyId: user.companyId,
         },
-        token: "mock-jwt-token",
+        token: session.tokens.accessToken,
+        refreshToken: session.tokens.refreshToken,
       },
       { status: 200 }
     );
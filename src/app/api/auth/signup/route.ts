@@ -1,46 +1,93 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  companySignupSchema,
+  validateCompanyInput,
+} from "@/lib/validations/companies";
+import { OnboardingService } from "@/services/onboarding.service";
 
+const ERROR_STATUS: Record<string, number> = {
+  EMAIL_EXISTS: 409,
+  COMPANY_EXISTS: 409,
+  COMPANY_DOMAIN_EXISTS: 409,
+  COMPANY_CREATE_FAILED: 400,
+};
+
+/**
+ * Company Signup
+ * POST /api/auth/signup
+ *
+ * Creates the company with its first admin user, default expense categories
+ * and a manager-approval rule, then emails the admin a verification link.
+ * The admin can sign in once the address is verified.
+ *
+ * Request Body:
+ * {
+ *   adminName: string;
+ *   email: string;
+ *   companyName: string;
+ *   country: string;       // ISO 3166-1 alpha-2
+ *   baseCurrency: string;  // ISO 4217
+ *   password: string;
+ * }
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { adminName, email, companyName, country, password } = body;
 
-    // Validate required fields
-    if (!adminName || !email || !companyName || !country || !password) {
+    const validation = validateCompanyInput(companySignupSchema, body);
+    if (!validation.success) {
       return NextResponse.json(
-        { message: "All fields are required" },
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
         { status: 400 }
       );
     }
 
-    // TODO: Implement actual signup logic with Prisma
-    // For now, return a mock success response
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const result = await OnboardingService.signUp(validation.data!);
+
+    if (!result.success) {
+      const code = result.error?.code || "";
+      const status = ERROR_STATUS[code] || 500;
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: status === 500 ? "INTERNAL_ERROR" : code,
+            message: result.error?.message || "Failed to create account",
+            ...(status !== 500 && result.error?.details
+              ? { details: result.error.details }
+              : {}),
+          },
+        },
+        { status }
+      );
+    }
 
-    // Mock response
     return NextResponse.json(
       {
-        message: "Account created successfully",
-        user: {
-          id: "mock-user-id",
-          name: adminName,
-          email: email,
-          role: "ADMIN",
-        },
-        company: {
-          id: "mock-company-id",
-          name: companyName,
-          country: country,
-        },
+        success: true,
+        data: result.data,
+        message: "Account created. Check your email to verify your address.",
       },
       { status: 201 }
     );
   } catch (error) {
     console.error("Signup error:", error);
+
     return NextResponse.json(
-      { message: "Internal server error" },
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create account",
+        },
+      },
       { status: 500 }
     );
   }
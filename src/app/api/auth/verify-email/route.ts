@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyEmailSchema, validateInput } from "@/lib/validations/auth";
+import { OnboardingService } from "@/services/onboarding.service";
+
+/**
+ * Email Verification
+ * POST /api/auth/verify-email
+ *
+ * Confirms the address using the token from the verification email. Tokens
+ * expire after 24 hours and can be used once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validation = validateInput(verifyEmailSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await OnboardingService.verifyEmail(validation.data!.token);
+
+    if (!result.success) {
+      const invalidToken = result.error?.code === "INVALID_TOKEN";
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: invalidToken ? "INVALID_TOKEN" : "INTERNAL_ERROR",
+            message: result.error?.message || "Email verification failed",
+          },
+        },
+        { status: invalidToken ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Email verified successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Email verification error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Email verification failed",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import {
   updateCategorySchema,
   validateCategoryInput,
 } from "@/lib/validations/categories";
-import type { CategoryPublic } from "@/types/database";
+import { CategoryService } from "@/services/category.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -20,14 +19,53 @@ interface AuthenticatedRequest extends NextRequest {
   user: AuthenticatedUser;
 }
 
+const ERROR_STATUS: Record<string, number> = {
+  CATEGORY_NOT_FOUND: 404,
+  CATEGORY_EXISTS: 409,
+  PARENT_NOT_FOUND: 400,
+  CATEGORY_CYCLE: 400,
+  CATEGORY_HAS_ACTIVE_CHILDREN: 409,
+  DEPARTMENT_NOT_FOUND: 400,
+  DEPARTMENT_INACTIVE: 400,
+};
+
+// Error response for a failed CategoryService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+      },
+    },
+    { status }
+  );
+};
+
 /**
- * Update Expense Category (Admin only)
+ * Update Expense Category (category:manage)
  * PUT /api/categories/[id]
  *
  * Updates an existing expense category
- * Only admins can update categories
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   name?: string;
+ *   glCode?: string | null;
+ *   parentId?: string | null; // null makes it a top-level category
+ *   isActive?: boolean; // false archives, true restores
+ *   monthlyBudget?: number | null; // null removes the budget
+ *   annualBudget?: number | null;
+ *   departmentBudgets?: { departmentId: string; period: "MONTHLY" | "ANNUAL"; amount: number | null }[];
+ * }
  */
-export const PUT = withAuth(
+export const PUT = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -49,20 +87,6 @@ export const PUT = withAuth(
         );
       }
 
-      // Check if user is admin
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can update expense categories",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
       const body = await request.json();
 
       // Validate input
@@ -81,83 +105,21 @@ export const PUT = withAuth(
         );
       }
 
-      const { name } = validation.data!;
-
-      // Check if category exists and belongs to user's company
-      const existingCategory = await prisma.expenseCategory.findFirst({
-        where: {
-          id: categoryId,
-          companyId: user.companyId,
-        },
-      });
-
-      if (!existingCategory) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "CATEGORY_NOT_FOUND",
-              message: "Category not found or access denied",
-            },
-          },
-          { status: 404 }
-        );
-      }
-
-      // Check if category with same name already exists for this company (excluding current category)
-      const duplicateCategory = await prisma.expenseCategory.findFirst({
-        where: {
-          name: {
-            equals: name,
-            mode: "insensitive",
-          },
-          companyId: user.companyId,
-          id: {
-            not: categoryId,
-          },
-        },
-      });
+      const result = await CategoryService.updateCategory(
+        categoryId,
+        user.companyId,
+        validation.data!,
+        user.id
+      );
 
-      if (duplicateCategory) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "CATEGORY_EXISTS",
-              message: "A category with this name already exists",
-            },
-          },
-          { status: 409 }
-        );
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update category");
       }
 
-      // Update the category
-      const updatedCategory = await prisma.expenseCategory.update({
-        where: {
-          id: categoryId,
-        },
-        data: {
-          name,
-        },
-        select: {
-          id: true,
-          name: true,
-          _count: {
-            select: {
-              expenses: true,
-            },
-          },
-        },
-      });
-
       return NextResponse.json(
         {
           success: true,
-          data: {
-            id: updatedCategory.id,
-            name: updatedCategory.name,
-            expenseCount: updatedCategory._count.expenses,
-          },
+          data: result.data,
         },
         { status: 200 }
       );
@@ -192,18 +154,18 @@ export const PUT = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["category:manage"]
 );
 
 /**
- * Delete Expense Category (Admin only)
+ * Archive Expense Category (category:manage)
  * DELETE /api/categories/[id]
  *
- * Deletes an expense category
- * Only admins can delete categories
- * Cannot delete categories that have associated expenses
+ * Categories are archived rather than deleted so their expenses keep them;
+ * archived categories can't be used for new expenses and can be restored
+ * with PUT { isActive: true }
  */
-export const DELETE = withAuth(
+export const DELETE = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -225,92 +187,41 @@ export const DELETE = withAuth(
         );
       }
 
-      // Check if user is admin
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can delete expense categories",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
-      // Check if category exists and belongs to user's company
-      const existingCategory = await prisma.expenseCategory.findFirst({
-        where: {
-          id: categoryId,
-          companyId: user.companyId,
-        },
-        include: {
-          _count: {
-            select: {
-              expenses: true,
-            },
-          },
-        },
-      });
-
-      if (!existingCategory) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "CATEGORY_NOT_FOUND",
-              message: "Category not found or access denied",
-            },
-          },
-          { status: 404 }
-        );
-      }
+      const result = await CategoryService.updateCategory(
+        categoryId,
+        user.companyId,
+        { isActive: false },
+        user.id
+      );
 
-      // Check if category has associated expenses
-      if (existingCategory._count.expenses > 0) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "CATEGORY_IN_USE",
-              message: `Cannot delete category as it has ${existingCategory._count.expenses} associated expense(s)`,
-            },
-          },
-          { status: 409 }
-        );
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to archive category");
       }
 
-      // Delete the category
-      await prisma.expenseCategory.delete({
-        where: {
-          id: categoryId,
-        },
-      });
-
       return NextResponse.json(
         {
           success: true,
           data: {
-            message: "Category deleted successfully",
+            message: "Category archived successfully",
+            category: result.data,
           },
         },
         { status: 200 }
       );
     } catch (error) {
-      console.error("Delete category error:", error);
+      console.error("Archive category error:", error);
 
       return NextResponse.json(
         {
           success: false,
           error: {
             code: "INTERNAL_ERROR",
-            message: "Failed to delete category",
+            message: "Failed to archive category",
           },
         },
         { status: 500 }
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["category:manage"]
 );
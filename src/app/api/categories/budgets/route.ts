@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { CategoryService } from "@/services/category.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Get Budget Utilization (category:manage)
+ * GET /api/categories/budgets
+ *
+ * Returns each category budget with approved and pending spending in the
+ * current month or fiscal year, including subcategories. `state` is
+ * "warning" from 80% and "exceeded" from 100% of the budget.
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await CategoryService.getBudgetUtilization(user.companyId);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INTERNAL_ERROR",
+              message: "Failed to fetch budget utilization",
+            },
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get budget utilization error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch budget utilization",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["category:manage"]
+);
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { withAuth } from "@/middleware/auth";
+import { withAuth, withPermission } from "@/middleware/auth";
 import {
   createCategorySchema,
+  listCategoriesQuerySchema,
   validateCategoryInput,
 } from "@/lib/validations/categories";
-import type { CategoryPublic } from "@/types/database";
+import { CategoryService } from "@/services/category.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -24,39 +24,64 @@ interface AuthenticatedRequest extends NextRequest {
  * Get Expense Categories
  * GET /api/categories
  *
- * Returns all expense categories for the user's company
+ * Returns the expense categories for the user's company, parents before
+ * their subcategories
+ *
+ * Query Parameters:
+ * - includeArchived: boolean (default: false)
+ * - includeSpending: boolean (default: false) - submitted spending per
+ *   category, with totals rolled up from subcategories
+ * - startDate, endDate: YYYY-MM-DD - expense date range for the spending
  */
 export const GET = withAuth(async (request: NextRequest) => {
   try {
     const user = (request as AuthenticatedRequest).user;
 
-    // Fetch categories for user's company
-    const categories = await prisma.expenseCategory.findMany({
-      where: {
-        companyId: user.companyId,
-      },
-      select: {
-        id: true,
-        name: true,
-        _count: {
-          select: {
-            expenses: true,
+    const { searchParams } = new URL(request.url);
+    const validation = validateCategoryInput(
+      listCategoriesQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
           },
         },
-      },
-      orderBy: {
-        name: "asc",
-      },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data!;
+    const result = await CategoryService.listCategories(user.companyId, {
+      includeArchived: query.includeArchived,
+      includeSpending: query.includeSpending,
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
     });
 
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch categories",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: true,
-        data: categories.map((category) => ({
-          id: category.id,
-          name: category.name,
-          expenseCount: category._count.expenses,
-        })),
+        data: result.data,
       },
       { status: 200 }
     );
@@ -77,31 +102,26 @@ export const GET = withAuth(async (request: NextRequest) => {
 });
 
 /**
- * Create Expense Category (Admin only)
+ * Create Expense Category (category:manage)
  * POST /api/categories
  *
  * Creates a new expense category for the company
- * Only admins can create categories
+ *
+ * Request Body:
+ * {
+ *   name: string;
+ *   glCode?: string;
+ *   parentId?: string; // makes it a subcategory
+ *   monthlyBudget?: number; // in the company base currency
+ *   annualBudget?: number; // per fiscal year
+ *   departmentBudgets?: { departmentId: string; period: "MONTHLY" | "ANNUAL"; amount: number }[];
+ * }
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (request: NextRequest) => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Check if user is admin
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can create expense categories",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
       const body = await request.json();
 
       // Validate input
@@ -120,52 +140,39 @@ export const POST = withAuth(
         );
       }
 
-      const { name } = validation.data!;
+      const result = await CategoryService.createCategory(
+        user.companyId,
+        validation.data!,
+        user.id
+      );
 
-      // Check if category with same name already exists for this company
-      const existingCategory = await prisma.expenseCategory.findFirst({
-        where: {
-          name: {
-            equals: name,
-            mode: "insensitive",
-          },
-          companyId: user.companyId,
-        },
-      });
+      if (!result.success) {
+        const code = result.error?.code;
+        const status =
+          code === "CATEGORY_EXISTS"
+            ? 409
+            : code === "PARENT_NOT_FOUND" ||
+              code === "DEPARTMENT_NOT_FOUND" ||
+              code === "DEPARTMENT_INACTIVE"
+            ? 400
+            : 500;
 
-      if (existingCategory) {
         return NextResponse.json(
           {
             success: false,
             error: {
-              code: "CATEGORY_EXISTS",
-              message: "A category with this name already exists",
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to create category",
             },
           },
-          { status: 409 }
+          { status }
         );
       }
 
-      // Create the category
-      const category = await prisma.expenseCategory.create({
-        data: {
-          name,
-          companyId: user.companyId,
-        },
-        select: {
-          id: true,
-          name: true,
-        },
-      });
-
       return NextResponse.json(
         {
           success: true,
-          data: {
-            id: category.id,
-            name: category.name,
-            expenseCount: 0,
-          },
+          data: result.data,
         },
         { status: 201 }
       );
@@ -200,5 +207,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["category:manage"]
 );
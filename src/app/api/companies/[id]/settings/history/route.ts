@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAccessToken } from "@/lib/jwt";
+import { logger } from "@/middleware/logger";
+import CompanyService from "@/services/company.service";
+import { RoleService } from "@/services/role.service";
+import { isPermissionGranted } from "@/lib/permissions";
+import {
+  companySettingsHistoryQuerySchema,
+  validateCompanyInput,
+} from "@/lib/validations/companies";
+
+/**
+ * Get Company Settings History (Admin/Manager access)
+ * GET /api/companies/[id]/settings/history
+ * Returns the stored settings versions, newest first
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - limit: number (default: 20, max: 100)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: companyId } = params;
+
+    // Extract and verify JWT token
+    const token = request.headers.get("authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const decodedToken = verifyAccessToken(token);
+    if (!decodedToken?.userId) {
+      return NextResponse.json(
+        { error: "Invalid authentication token" },
+        { status: 401 }
+      );
+    }
+
+    // Validate user belongs to company
+    const accessValidation = await CompanyService.validateUserCompanyAccess(
+      decodedToken.userId,
+      companyId
+    );
+
+    if (!accessValidation.success) {
+      return NextResponse.json(
+        { error: accessValidation.error },
+        { status: 403 }
+      );
+    }
+
+    // Check role-based access - ADMIN and MANAGER can view settings, as can
+    // anyone a custom role lets change them
+    const canViewSettings =
+      ["ADMIN", "MANAGER"].includes(accessValidation.data!.userRole) ||
+      isPermissionGranted(
+        await RoleService.getEffectivePermissions(
+          decodedToken.userId,
+          accessValidation.data!.userRole,
+          companyId
+        ),
+        "company:settings"
+      );
+    if (!canViewSettings) {
+      return NextResponse.json(
+        {
+          error:
+            "Access denied: Insufficient permissions to view company settings",
+        },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate query parameters
+    const { searchParams } = new URL(request.url);
+    const validation = validateCompanyInput(
+      companySettingsHistoryQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await CompanyService.getCompanySettingsHistory(
+      companyId,
+      validation.data!
+    );
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
+  } catch (error) {
+    logger.error("Error retrieving company settings history:", error as Error);
+
+    // Handle specific JWT errors
+    if (error instanceof Error && error.message.includes("token")) {
+      return NextResponse.json(
+        { error: "Invalid or expired authentication token" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to retrieve company settings history" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,131 +1,140 @@
 import { NextRequest, NextResponse } from "next/server";
 import { verifyAccessToken } from "@/lib/jwt";
+import { withPermission } from "@/middleware/auth";
 import { logger } from "@/middleware/logger";
 import CompanyService from "@/services/company.service";
+import { RoleService } from "@/services/role.service";
+import { isPermissionGranted } from "@/lib/permissions";
 import {
   updateCompanySettingsSchema,
   validateCompanyInput,
-  validateCompanyAccess,
 } from "@/lib/validations/companies";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Update Company Settings (Admin only)
+ * Update Company Settings (company:settings)
  * PUT /api/companies/[id]/settings
  * Updates company-specific settings and configurations
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   expenseCategories?: string[]; // complete list; categories in use are kept
+ *   fiscalYearStartMonth?: number; // 1-12
+ *   defaultCurrency?: string | null;
+ *   allowedCurrencies?: string[]; // empty allows every supported currency
+ *   receiptPolicy?: { required?: boolean; minAmount?: number };
+ *   approvalSla?: {
+ *     isEnabled?: boolean;
+ *     stepSlaHours?: number;
+ *     reminderBeforeHours?: number;
+ *     escalationTarget?: 'MANAGER' | 'FALLBACK';
+ *     fallbackApproverId?: string | null;
+ *   };
+ *   notifications?: {
+ *     emailApprovalRequests?: boolean;
+ *     emailDecisions?: boolean;
+ *     emailSlaReminders?: boolean;
+ *   };
+ *   security?: {
+ *     requireTwoFactor?: boolean; // for ADMIN and MANAGER users
+ *   };
+ * }
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id: companyId } = params;
+export const PUT = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const companyId = context?.params?.id ?? "";
 
-    // Extract and verify JWT token
-    const token = request.headers.get("authorization")?.replace("Bearer ", "");
-    if (!token) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
+      // Validate user belongs to company
+      const accessValidation = await CompanyService.validateUserCompanyAccess(
+        user.id,
+        companyId
       );
-    }
 
-    const decodedToken = verifyAccessToken(token);
-    if (!decodedToken?.userId) {
-      return NextResponse.json(
-        { error: "Invalid authentication token" },
-        { status: 401 }
-      );
-    }
+      if (!accessValidation.success) {
+        return NextResponse.json(
+          { error: accessValidation.error },
+          { status: 403 }
+        );
+      }
 
-    // Validate user belongs to company
-    const accessValidation = await CompanyService.validateUserCompanyAccess(
-      decodedToken.userId,
-      companyId
-    );
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateCompanyInput(updateCompanySettingsSchema, body);
 
-    if (!accessValidation.success) {
-      return NextResponse.json(
-        { error: accessValidation.error },
-        { status: 403 }
-      );
-    }
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            error: "Invalid settings data",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
 
-    // Check role-based access for settings management
-    const roleValidation = validateCompanyAccess(
-      accessValidation.data!.userRole,
-      "manage-settings"
-    );
-    if (!roleValidation.success) {
-      return NextResponse.json(
-        { error: roleValidation.error },
-        { status: 403 }
+      // Update company settings
+      const result = await CompanyService.updateCompanySettings(
+        companyId,
+        validation.data!,
+        user.id,
+        accessValidation.data!.userRole
       );
-    }
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validation = validateCompanyInput(updateCompanySettingsSchema, body);
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            error: result.error,
+            details: result.errors,
+          },
+          { status: 400 }
+        );
+      }
 
-    if (!validation.success) {
-      return NextResponse.json(
-        {
-          error: "Invalid settings data",
-          details: validation.errors,
-        },
-        { status: 400 }
-      );
-    }
-
-    // Update company settings
-    const result = await CompanyService.updateCompanySettings(
-      companyId,
-      validation.data!,
-      decodedToken.userId,
-      accessValidation.data!.userRole
-    );
+      logger.info(`Company settings updated: ${companyId}`, {
+        companyId,
+        updatedBy: user.id,
+        userRole: accessValidation.data!.userRole,
+        settingsKeys: Object.keys(validation.data!),
+      });
 
-    if (!result.success) {
-      return NextResponse.json(
-        {
-          error: result.error,
-          details: result.errors,
+      return NextResponse.json({
+        success: true,
+        data: {
+          message:
+            result.data?.message || "Company settings updated successfully",
+          settings: result.data!.settings,
+          changes: result.data!.changes,
+          updatedAt: result.data!.settings.updatedAt,
         },
-        { status: 400 }
-      );
-    }
-
-    logger.info(`Company settings updated: ${companyId}`, {
-      companyId,
-      updatedBy: decodedToken.userId,
-      userRole: accessValidation.data!.userRole,
-      settingsKeys: Object.keys(validation.data!),
-    });
+        ...(result.warning && { warning: result.warning }),
+      });
+    } catch (error) {
+      logger.error("Error updating company settings:", error as Error);
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        message:
-          result.data?.message || "Company settings updated successfully",
-        updatedAt: new Date().toISOString(),
-      },
-    });
-  } catch (error) {
-    logger.error("Error updating company settings:", error as Error);
-
-    // Handle specific JWT errors
-    if (error instanceof Error && error.message.includes("token")) {
       return NextResponse.json(
-        { error: "Invalid or expired authentication token" },
-        { status: 401 }
+        { error: "Failed to update company settings" },
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      { error: "Failed to update company settings" },
-      { status: 500 }
-    );
-  }
-}
+  },
+  ["company:settings"]
+);
 
 /**
  * Get Company Settings (Admin/Manager access)
@@ -169,10 +178,18 @@ export async function GET(
       );
     }
 
-    // Check role-based access - ADMIN and MANAGER can view settings
-    const canViewSettings = ["ADMIN", "MANAGER"].includes(
-      accessValidation.data!.userRole
-    );
+    // Check role-based access - ADMIN and MANAGER can view settings, as can
+    // anyone a custom role lets change them
+    const canViewSettings =
+      ["ADMIN", "MANAGER"].includes(accessValidation.data!.userRole) ||
+      isPermissionGranted(
+        await RoleService.getEffectivePermissions(
+          decodedToken.userId,
+          accessValidation.data!.userRole,
+          companyId
+        ),
+        "company:settings"
+      );
     if (!canViewSettings) {
       return NextResponse.json(
         {
@@ -194,19 +211,14 @@ export async function GET(
       return NextResponse.json({ error: result.error }, { status: 404 });
     }
 
-    // Extract settings from company data
-    // Note: Since current schema doesn't have settings field, we'll return default settings
-    const defaultSettings = {
-      expenseCategories: [], // Would be populated from ExpenseCategory table
-      defaultApprovalWorkflow: "SEQUENTIAL",
-      maxExpenseAmount: 10000,
-      requireReceipts: true,
-      receiptMinAmount: 25,
-      autoApprovalLimit: 0,
-      allowPersonalExpenses: false,
-      fiscalYearStart: "JANUARY",
-      timezonePreference: "America/New_York",
-    };
+    const settingsResult = await CompanyService.getCompanySettings(companyId);
+
+    if (!settingsResult.success) {
+      return NextResponse.json(
+        { error: settingsResult.error },
+        { status: 500 }
+      );
+    }
 
     logger.info(`Company settings retrieved: ${companyId}`, {
       companyId,
@@ -223,8 +235,8 @@ export async function GET(
           country: result.data!.country,
           baseCurrency: result.data!.baseCurrency,
         },
-        settings: defaultSettings,
-        lastUpdated: result.data!.updatedAt,
+        settings: settingsResult.data,
+        lastUpdated: settingsResult.data!.updatedAt ?? result.data!.updatedAt,
       },
     });
   } catch (error) {
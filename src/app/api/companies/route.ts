@@ -71,6 +71,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: profileResult.error }, { status: 500 });
     }
 
+    const settingsResult = validation.data?.includeSettings
+      ? await CompanyService.getCompanySettings(companyResult.data!.id)
+      : undefined;
+
+    if (settingsResult && !settingsResult.success) {
+      return NextResponse.json(
+        { error: settingsResult.error },
+        { status: 500 }
+      );
+    }
+
     logger.info(`Company profile retrieved by user: ${decodedToken.userId}`, {
       userId: decodedToken.userId,
       companyId: companyResult.data!.id,
@@ -80,12 +91,7 @@ export async function GET(request: NextRequest) {
       success: true,
       data: {
         company: profileResult.data,
-        settings: validation.data?.includeSettings
-          ? {
-              // Add any settings-specific formatting here
-              expenseCategories: [], // This would come from related ExpenseCategory records
-            }
-          : undefined,
+        settings: settingsResult?.data,
       },
     });
   } catch (error) {
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  updateCostCenterSchema,
+  validateDepartmentInput,
+} from "@/lib/validations/departments";
+import { CostCenterService } from "@/services/cost-center.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  COST_CENTER_NOT_FOUND: 404,
+  COST_CENTER_EXISTS: 409,
+  DEPARTMENT_NOT_FOUND: 400,
+  DEPARTMENT_INACTIVE: 400,
+};
+
+// Error response for a failed CostCenterService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Cost center ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Update Cost Center (Admin only)
+ * PATCH /api/cost-centers/[id]
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   code?: string;
+ *   name?: string;
+ *   departmentId?: string | null;
+ *   isActive?: boolean;
+ * }
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const costCenterId = context?.params?.id;
+
+      if (!costCenterId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateDepartmentInput(updateCostCenterSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await CostCenterService.updateCostCenter(
+        costCenterId,
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update cost center");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update cost center error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update cost center",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
+
+/**
+ * Deactivate Cost Center (Admin only)
+ * DELETE /api/cost-centers/[id]
+ *
+ * Cost centers stay on the expenses already charged to them; reactivate
+ * with PATCH { isActive: true }
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const costCenterId = context?.params?.id;
+
+      if (!costCenterId) {
+        return missingIdResponse();
+      }
+
+      const result = await CostCenterService.updateCostCenter(
+        costCenterId,
+        user.companyId,
+        { isActive: false },
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to deactivate cost center"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Cost center deactivated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Deactivate cost center error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to deactivate cost center",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
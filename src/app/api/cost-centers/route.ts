@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createCostCenterSchema,
+  organizationListQuerySchema,
+  validateDepartmentInput,
+} from "@/lib/validations/departments";
+import { CostCenterService } from "@/services/cost-center.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  COST_CENTER_EXISTS: 409,
+  DEPARTMENT_NOT_FOUND: 400,
+  DEPARTMENT_INACTIVE: 400,
+};
+
+/**
+ * Get Cost Centers
+ * GET /api/cost-centers
+ *
+ * Everyone can list the cost centers so expenses can be charged to them
+ *
+ * Query Parameters:
+ * - includeInactive: boolean (default: false)
+ * - departmentId: string - only the department's cost centers
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateDepartmentInput(
+      organizationListQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await CostCenterService.listCostCenters(
+      user.companyId,
+      validation.data!
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch cost centers",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get cost centers error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch cost centers",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create Cost Center (Admin only)
+ * POST /api/cost-centers
+ *
+ * Request Body:
+ * {
+ *   code: string; // unique within the company
+ *   name: string;
+ *   departmentId?: string;
+ * }
+ */
+export const POST = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateDepartmentInput(createCostCenterSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await CostCenterService.createCostCenter(
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to create cost center",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Cost center created successfully",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create cost center error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create cost center",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
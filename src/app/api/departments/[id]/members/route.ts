@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  setDepartmentMembersSchema,
+  validateDepartmentInput,
+} from "@/lib/validations/departments";
+import { DepartmentService } from "@/services/department.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  DEPARTMENT_NOT_FOUND: 404,
+  DEPARTMENT_INACTIVE: 409,
+  USER_NOT_FOUND: 400,
+};
+
+// Error response for a failed DepartmentService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details !== undefined
+          ? { details: error.details }
+          : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Department ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Get Department Members (Admin/Manager only)
+ * GET /api/departments/[id]/members
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const departmentId = context?.params?.id;
+
+      if (!departmentId) {
+        return missingIdResponse();
+      }
+
+      const result = await DepartmentService.getMembers(
+        departmentId,
+        user.companyId
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to fetch department members"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get department members error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch department members",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN", "MANAGER"] }
+);
+
+/**
+ * Set Department Members (Admin only)
+ * PUT /api/departments/[id]/members
+ *
+ * Request Body:
+ * {
+ *   userIds: string[]; // the department's complete member list
+ * }
+ *
+ * Listed users move over from their previous department; current members
+ * who aren't listed leave the department.
+ */
+export const PUT = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const departmentId = context?.params?.id;
+
+      if (!departmentId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateDepartmentInput(
+        setDepartmentMembersSchema,
+        body
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await DepartmentService.setMembers(
+        departmentId,
+        user.companyId,
+        validation.data!.userIds,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to update department members"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Department members updated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Set department members error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update department members",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
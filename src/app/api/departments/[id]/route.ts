@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  updateDepartmentSchema,
+  validateDepartmentInput,
+} from "@/lib/validations/departments";
+import { DepartmentService } from "@/services/department.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  DEPARTMENT_NOT_FOUND: 404,
+  DEPARTMENT_EXISTS: 409,
+  HEAD_NOT_FOUND: 400,
+};
+
+// Error response for a failed DepartmentService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Department ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Update Department (Admin only)
+ * PATCH /api/departments/[id]
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   name?: string;
+ *   code?: string | null;
+ *   headId?: string | null;
+ *   isActive?: boolean;
+ * }
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const departmentId = context?.params?.id;
+
+      if (!departmentId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateDepartmentInput(updateDepartmentSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await DepartmentService.updateDepartment(
+        departmentId,
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update department");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update department error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update department",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
+
+/**
+ * Deactivate Department (Admin only)
+ * DELETE /api/departments/[id]
+ *
+ * Departments are deactivated rather than deleted so members, cost centers
+ * and reports keep them; reactivate with PATCH { isActive: true }
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const departmentId = context?.params?.id;
+
+      if (!departmentId) {
+        return missingIdResponse();
+      }
+
+      const result = await DepartmentService.updateDepartment(
+        departmentId,
+        user.companyId,
+        { isActive: false },
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to deactivate department"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Department deactivated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Deactivate department error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to deactivate department",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
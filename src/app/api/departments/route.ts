@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createDepartmentSchema,
+  organizationListQuerySchema,
+  validateDepartmentInput,
+} from "@/lib/validations/departments";
+import { DepartmentService } from "@/services/department.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  DEPARTMENT_EXISTS: 409,
+  HEAD_NOT_FOUND: 400,
+};
+
+/**
+ * Get Departments
+ * GET /api/departments
+ *
+ * Returns the company's departments with their head, member count and
+ * cost centers
+ *
+ * Query Parameters:
+ * - includeInactive: boolean (default: false)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateDepartmentInput(
+      organizationListQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await DepartmentService.listDepartments(user.companyId, {
+      includeInactive: validation.data!.includeInactive,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch departments",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get departments error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch departments",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create Department (Admin only)
+ * POST /api/departments
+ *
+ * Request Body:
+ * {
+ *   name: string;
+ *   code?: string;
+ *   headId?: string;
+ * }
+ */
+export const POST = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateDepartmentInput(createDepartmentSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await DepartmentService.createDepartment(
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to create department",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Department created successfully",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create department error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create department",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  convertAmountQuerySchema,
+  validateExchangeRateInput,
+} from "@/lib/validations/exchange-rates";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface ConversionResponse {
+  amount: number;
+  from: string;
+  to: string;
+  convertedAmount: number;
+  rate: number;
+  rateDate: string;
+}
+
+/**
+ * GET /api/exchange-rates/convert?amount=100&from=EUR&to=USD&date=2024-10-18
+ * Convert an amount with the company's rates, e.g. to preview the base
+ * amount of an expense before it is saved
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ConversionResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const { searchParams } = new URL(request.url);
+      const validation = validateExchangeRateInput(
+        convertAmountQuerySchema,
+        Object.fromEntries(searchParams.entries())
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid query parameters",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const { amount, from, to, date } = validation.data!;
+      const result = await ExchangeRateService.convert(
+        user.companyId,
+        amount,
+        from,
+        to,
+        date ? new Date(date) : new Date()
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "RATE_NOT_FOUND";
+
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to convert amount",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Amount converted successfully",
+          data: {
+            amount,
+            from,
+            to,
+            convertedAmount: result.data.convertedAmount,
+            rate: result.data.rate,
+            rateDate: result.data.rateDate,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error converting amount:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to convert amount",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
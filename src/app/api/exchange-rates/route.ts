@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  listExchangeRatesQuerySchema,
+  validateExchangeRateInput,
+} from "@/lib/validations/exchange-rates";
+import {
+  ExchangeRateService,
+  type ExchangeRatePublic,
+} from "@/services/exchange-rate.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface ExchangeRatesResponse {
+  rates: ExchangeRatePublic[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
+
+interface ExchangeRateImportResponse {
+  imported: number;
+  dates: string[];
+  // Rows that were skipped, with the reason
+  errors: string[];
+  // Expenses that had no base amount and could be converted now
+  expensesConverted: number;
+}
+
+const MAX_RATES_FILE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * GET /api/exchange-rates?base=EUR&quote=USD&startDate=2024-01-01&page=1&limit=50
+ * Stored rates visible to the company: its own imports and the provider rates
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ExchangeRatesResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const { searchParams } = new URL(request.url);
+      const validation = validateExchangeRateInput(
+        listExchangeRatesQuerySchema,
+        Object.fromEntries(searchParams.entries())
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid query parameters",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExchangeRateService.listRates(
+        user.companyId,
+        validation.data!
+      );
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to retrieve exchange rates",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Exchange rates retrieved successfully",
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch exchange rates",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Import Exchange Rates (Admin only)
+ * POST /api/exchange-rates
+ *
+ * multipart/form-data with a `file` field holding a CSV in either layout:
+ * - date,base,quote,rate (one rate per row)
+ * - the ECB reference rate CSV (Date column, then one column per currency
+ *   in units per euro)
+ *
+ * Imported rates apply to this company only and override provider rates for
+ * the same pair and day.
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ExchangeRateImportResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "A CSV file is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > MAX_RATES_FILE_SIZE) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Rates file must be less than 5MB",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExchangeRateService.importRatesFile(
+        await file.text(),
+        file.name,
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const invalidFile = result.error?.code === "INVALID_RATES_FILE";
+
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to import exchange rates",
+            error: invalidFile ? "VALIDATION_ERROR" : "SERVICE_ERROR",
+            details: result.error?.details,
+          },
+          { status: invalidFile ? 400 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${result.data.imported} exchange rates imported`,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error importing exchange rates:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to import exchange rates",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
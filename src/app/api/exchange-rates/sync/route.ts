@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  syncExchangeRatesSchema,
+  validateExchangeRateInput,
+} from "@/lib/validations/exchange-rates";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+
+interface ExchangeRateSyncResponse {
+  provider: string;
+  imported: number;
+  dates: string[];
+  expensesConverted: number;
+}
+
+/**
+ * Sync Exchange Rates (Admin only)
+ * POST /api/exchange-rates/sync
+ *
+ * Request Body:
+ * {
+ *   date?: string; // YYYY-MM-DD, latest rates when omitted
+ * }
+ *
+ * Fetches rates from the configured provider (FX_PROVIDER) now instead of
+ * waiting for the scheduled sync.
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<ExchangeRateSyncResponse>>> => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const validation = validateExchangeRateInput(
+        syncExchangeRatesSchema,
+        body
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const { date } = validation.data!;
+      const result = await ExchangeRateService.syncFromProvider(
+        date ? new Date(date) : undefined
+      );
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to sync exchange rates",
+            error: "SERVICE_ERROR",
+          },
+          { status: result.error?.code === "PROVIDER_FAILED" ? 502 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: `${result.data.imported} exchange rates synced from ${result.data.provider}`,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error syncing exchange rates:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to sync exchange rates",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createMileageRateSchema,
+  rateListQuerySchema,
+  validateRateInput,
+} from "@/lib/validations/expense-rates";
+import { ExpenseRateService } from "@/services/expense-rate.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  RATE_EXISTS: 409,
+};
+
+/**
+ * Get Mileage Rates
+ * GET /api/expense-rates/mileage
+ *
+ * Everyone can list the rates mileage expenses are calculated with
+ *
+ * Query Parameters:
+ * - date: string (YYYY-MM-DD) - only the rates in effect on the date
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateRateInput(
+      rateListQuerySchema,
+      Object.fromEntries(searchParams.entries()),
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await ExpenseRateService.listMileageRates(
+      user.companyId,
+      validation.data!,
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch mileage rates",
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("Get mileage rates error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch mileage rates",
+        },
+      },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Create Mileage Rate (Admin only)
+ * POST /api/expense-rates/mileage
+ *
+ * Request Body:
+ * {
+ *   vehicleType: string; // e.g. "CAR", matched case-insensitively
+ *   unit: "KM" | "MILE";
+ *   rate: number; // per unit, in the company base currency
+ *   effectiveFrom: string; // YYYY-MM-DD
+ *   effectiveTo?: string;
+ * }
+ */
+export const POST = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateRateInput(createMileageRateSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 },
+        );
+      }
+
+      const result = await ExpenseRateService.createMileageRate(
+        user.companyId,
+        validation.data!,
+        user.id,
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to create mileage rate",
+            },
+          },
+          { status },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Mileage rate created successfully",
+        },
+        { status: 201 },
+      );
+    } catch (error) {
+      console.error("Create mileage rate error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create mileage rate",
+          },
+        },
+        { status: 500 },
+      );
+    }
+  },
+  { roles: ["ADMIN"] },
+);
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  endRateSchema,
+  validateRateInput,
+} from "@/lib/validations/expense-rates";
+import { ExpenseRateService } from "@/services/expense-rate.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  RATE_NOT_FOUND: 404,
+  INVALID_EFFECTIVE_DATES: 400,
+};
+
+/**
+ * End Per-Diem Rate (Admin only)
+ * PATCH /api/expense-rates/per-diem/[id]
+ *
+ * Rates are kept for the expenses already calculated with them, so they
+ * can't be edited; end the rate and create a new one instead.
+ *
+ * Request Body:
+ * {
+ *   effectiveTo: string | null; // YYYY-MM-DD, null reopens the rate
+ * }
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> },
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const rateId = context?.params?.id;
+
+      if (!rateId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Rate ID is required",
+            },
+          },
+          { status: 400 },
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateRateInput(endRateSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 },
+        );
+      }
+
+      const result = await ExpenseRateService.endPerDiemRate(
+        rateId,
+        user.companyId,
+        validation.data!.effectiveTo,
+        user.id,
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message || "Failed to update per-diem rate",
+            },
+          },
+          { status },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 },
+      );
+    } catch (error) {
+      console.error("End per-diem rate error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update per-diem rate",
+          },
+        },
+        { status: 500 },
+      );
+    }
+  },
+  { roles: ["ADMIN"] },
+);
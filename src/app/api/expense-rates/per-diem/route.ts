@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createPerDiemRateSchema,
+  rateListQuerySchema,
+  validateRateInput,
+} from "@/lib/validations/expense-rates";
+import { ExpenseRateService } from "@/services/expense-rate.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  RATE_EXISTS: 409,
+};
+
+/**
+ * Get Per-Diem Rates
+ * GET /api/expense-rates/per-diem
+ *
+ * Everyone can list the rates per-diem expenses are calculated with
+ *
+ * Query Parameters:
+ * - date: string (YYYY-MM-DD) - only the rates in effect on the date
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateRateInput(
+      rateListQuerySchema,
+      Object.fromEntries(searchParams.entries()),
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await ExpenseRateService.listPerDiemRates(
+      user.companyId,
+      validation.data!,
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch per-diem rates",
+          },
+        },
+        { status: 500 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("Get per-diem rates error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch per-diem rates",
+        },
+      },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Create Per-Diem Rate (Admin only)
+ * POST /api/expense-rates/per-diem
+ *
+ * Request Body:
+ * {
+ *   destination: string; // "DEFAULT" applies where there's no own rate
+ *   dailyRate: number; // in the company base currency
+ *   breakfastDeduction?: number; // taken off when the meal is provided
+ *   lunchDeduction?: number;
+ *   dinnerDeduction?: number;
+ *   effectiveFrom: string; // YYYY-MM-DD
+ *   effectiveTo?: string;
+ * }
+ */
+export const POST = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateRateInput(createPerDiemRateSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 },
+        );
+      }
+
+      const result = await ExpenseRateService.createPerDiemRate(
+        user.companyId,
+        validation.data!,
+        user.id,
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message || "Failed to create per-diem rate",
+            },
+          },
+          { status },
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Per-diem rate created successfully",
+        },
+        { status: 201 },
+      );
+    } catch (error) {
+      console.error("Create per-diem rate error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create per-diem rate",
+          },
+        },
+        { status: 500 },
+      );
+    }
+  },
+  { roles: ["ADMIN"] },
+);
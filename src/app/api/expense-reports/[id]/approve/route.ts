@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  approveReportSchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  APPROVAL_NOT_ACTIONABLE: 403,
+};
+
+/**
+ * Approve Expense Report (expense:approve)
+ * POST /api/expense-reports/[id]/approve
+ *
+ * Approves the current user's open step on the report (their own or one
+ * delegated to them). The report's expenses are approved once the whole
+ * chain is, except those rejected individually.
+ *
+ * Request Body:
+ * {
+ *   comment?: string;
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Expense report ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateExpenseReportInput(approveReportSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExpenseReportService.decideReport(
+        user,
+        reportId,
+        "approve",
+        validation.data!.comment
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message || "Failed to approve expense report",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Expense report approved successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Approve expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to approve expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["expense:approve"]
+);
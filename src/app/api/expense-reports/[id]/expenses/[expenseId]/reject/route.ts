@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  rejectReportLineSchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  APPROVAL_NOT_ACTIONABLE: 403,
+  EXPENSE_NOT_FOUND: 404,
+  EXPENSE_NOT_PENDING: 409,
+  LAST_REPORT_EXPENSE: 409,
+};
+
+/**
+ * Reject an Expense from a Report (expense:reject)
+ * POST /api/expense-reports/[id]/expenses/[expenseId]/reject
+ *
+ * Available to an approver while the report waits on their decision. The
+ * expense is rejected and the rest of the report stays in approval.
+ *
+ * Request Body:
+ * {
+ *   comment: string; // the reason, shown to the submitter
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+      const expenseId = context?.params?.expenseId;
+
+      if (!reportId || !expenseId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Expense report ID and expense ID are required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateExpenseReportInput(
+        rejectReportLineSchema,
+        body
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExpenseReportService.rejectReportExpense(
+        user,
+        reportId,
+        expenseId,
+        validation.data!.comment
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to reject the expense",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Expense rejected from the report",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Reject report expense error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to reject the expense",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["expense:reject"]
+);
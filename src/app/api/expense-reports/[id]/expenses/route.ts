@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  reportExpensesSchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  REPORT_NOT_DRAFT: 409,
+  EXPENSE_NOT_FOUND: 400,
+  REPORT_EXPENSES_INVALID: 400,
+};
+
+// Error response for a failed ExpenseReportService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Add or remove expenses on a draft report
+ */
+const changeReportExpenses = (action: "add" | "remove") =>
+  withAuth(
+    async (
+      request: NextRequest,
+      context?: { params?: Record<string, string> }
+    ) => {
+      const fallbackMessage =
+        action === "add"
+          ? "Failed to add expenses to the report"
+          : "Failed to remove expenses from the report";
+
+      try {
+        const user = (request as AuthenticatedRequest).user;
+        const reportId = context?.params?.id;
+
+        if (!reportId) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "INVALID_REQUEST",
+                message: "Expense report ID is required",
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const body = await request.json();
+        const validation = validateExpenseReportInput(
+          reportExpensesSchema,
+          body
+        );
+
+        if (!validation.success) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "VALIDATION_ERROR",
+                message: "Invalid input data",
+                details: validation.errors,
+              },
+            },
+            { status: 400 }
+          );
+        }
+
+        const { expenseIds } = validation.data!;
+        const result =
+          action === "add"
+            ? await ExpenseReportService.addExpenses(user, reportId, expenseIds)
+            : await ExpenseReportService.removeExpenses(
+                user,
+                reportId,
+                expenseIds
+              );
+
+        if (!result.success) {
+          return serviceErrorResponse(result.error, fallbackMessage);
+        }
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: result.data,
+          },
+          { status: 200 }
+        );
+      } catch (error) {
+        console.error(`Report expenses (${action}) error:`, error);
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INTERNAL_ERROR",
+              message: fallbackMessage,
+            },
+          },
+          { status: 500 }
+        );
+      }
+    }
+  );
+
+/**
+ * Add Expenses to Report
+ * POST /api/expense-reports/[id]/expenses
+ *
+ * Request Body:
+ * {
+ *   expenseIds: string[]; // the user's drafts, dated within the report
+ * }
+ */
+export const POST = changeReportExpenses("add");
+
+/**
+ * Remove Expenses from Report
+ * DELETE /api/expense-reports/[id]/expenses
+ *
+ * Request Body:
+ * {
+ *   expenseIds: string[];
+ * }
+ */
+export const DELETE = changeReportExpenses("remove");
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  rejectReportSchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  APPROVAL_NOT_ACTIONABLE: 403,
+};
+
+/**
+ * Reject Expense Report (expense:reject)
+ * POST /api/expense-reports/[id]/reject
+ *
+ * Rejects the current user's open step on the report. When the rule can no
+ * longer reach its quorum the report and its remaining expenses are rejected;
+ * to reject a single expense use
+ * POST /api/expense-reports/[id]/expenses/[expenseId]/reject instead.
+ *
+ * Request Body:
+ * {
+ *   comment: string; // the reason, shown to the submitter
+ * }
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Expense report ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const body = await request.json();
+      const validation = validateExpenseReportInput(rejectReportSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExpenseReportService.decideReport(
+        user,
+        reportId,
+        "reject",
+        validation.data!.comment
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message || "Failed to reject expense report",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Expense report rejected",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Reject expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to reject expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["expense:reject"]
+);
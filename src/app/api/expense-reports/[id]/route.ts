@@ -0,0 +1,250 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  updateExpenseReportSchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  REPORT_NOT_DRAFT: 409,
+  INVALID_REPORT_DATES: 400,
+  ADVANCE_NOT_FOUND: 400,
+  INVALID_ADVANCE_STATUS: 409,
+};
+
+// Error response for a failed ExpenseReportService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Expense report ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Get Expense Report
+ * GET /api/expense-reports/[id]
+ *
+ * The report with its expenses, totals and approval chain. pendingApprovalId
+ * is set when the report is waiting on the current user's decision.
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return missingIdResponse();
+      }
+
+      const result = await ExpenseReportService.getReport(user, reportId);
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to fetch expense report"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Update Expense Report (draft only)
+ * PATCH /api/expense-reports/[id]
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   title?: string;
+ *   purpose?: string | null;
+ *   startDate?: string;
+ *   endDate?: string;
+ *   advanceAmount?: number | null;
+ *   advanceId?: string | null; // links a cash advance, copying its amount
+ * }
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateExpenseReportInput(
+        updateExpenseReportSchema,
+        body
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExpenseReportService.updateReport(
+        user,
+        reportId,
+        validation.data!
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to update expense report"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete Expense Report (draft only)
+ * DELETE /api/expense-reports/[id]
+ *
+ * The report's expenses are kept as standalone drafts
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return missingIdResponse();
+      }
+
+      const result = await ExpenseReportService.deleteReport(user, reportId);
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to delete expense report"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Expense report deleted successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Delete expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to delete expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
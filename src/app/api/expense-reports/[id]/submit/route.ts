@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  REPORT_NOT_FOUND: 404,
+  REPORT_NOT_DRAFT: 409,
+  REPORT_EMPTY: 400,
+  REPORT_EXPENSES_INVALID: 400,
+  ADVANCE_NOT_FOUND: 400,
+  INVALID_ADVANCE_STATUS: 409,
+};
+
+/**
+ * Submit Expense Report
+ * POST /api/expense-reports/[id]/submit
+ *
+ * Submits every expense in the report together. Fails with
+ * REPORT_EXPENSES_INVALID, listing the expenses, when one of them can't be
+ * submitted (e.g. a blocking policy violation or a missing exchange rate).
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const reportId = context?.params?.id;
+
+      if (!reportId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Expense report ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ExpenseReportService.submitReport(user, reportId);
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message || "Failed to submit expense report",
+              ...(status !== 500 && result.error?.details
+                ? { details: result.error.details }
+                : {}),
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Expense report submitted for approval",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Submit expense report error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to submit expense report",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
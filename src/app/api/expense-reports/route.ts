@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createExpenseReportSchema,
+  expenseReportListQuerySchema,
+  validateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { ExpenseReportService } from "@/services/expense-report.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  FORBIDDEN: 403,
+  EXPENSE_NOT_FOUND: 400,
+  REPORT_EXPENSES_INVALID: 400,
+  ADVANCE_NOT_FOUND: 400,
+  INVALID_ADVANCE_STATUS: 409,
+};
+
+// Error response for a failed ExpenseReportService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Expense Reports
+ * GET /api/expense-reports
+ *
+ * Query Parameters:
+ * - status: DRAFT | PENDING_APPROVAL | APPROVED | REJECTED
+ * - scope: mine (default) | approvals | company (admins only)
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateExpenseReportInput(
+      expenseReportListQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ExpenseReportService.listReports(
+      user,
+      validation.data!
+    );
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to fetch expense reports"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get expense reports error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch expense reports",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create Expense Report
+ * POST /api/expense-reports
+ *
+ * Request Body:
+ * {
+ *   title: string;
+ *   purpose?: string;
+ *   startDate: string; // YYYY-MM-DD
+ *   endDate: string;   // YYYY-MM-DD
+ *   advanceAmount?: number; // base currency
+ *   advanceId?: string;     // or an approved cash advance, instead of an amount
+ *   expenseIds?: string[];  // the user's draft expenses dated within the report
+ * }
+ */
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const body = await request.json();
+    const validation = validateExpenseReportInput(
+      createExpenseReportSchema,
+      body
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ExpenseReportService.createReport(
+      user,
+      validation.data!
+    );
+
+    if (!result.success) {
+      return serviceErrorResponse(
+        result.error,
+        "Failed to create expense report"
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Expense report created successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create expense report error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create expense report",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
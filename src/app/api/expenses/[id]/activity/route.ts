@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { AuditService } from "@/services/audit.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Get Expense Activity
+ * GET /api/expenses/[id]/activity
+ *
+ * The expense's audit events, oldest first: edits, submission and each
+ * approval decision. Visible to the submitter, their manager, the
+ * expense's approvers and admins.
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const expenseId = context?.params?.id;
+
+      if (!expenseId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "Expense ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await AuditService.getExpenseActivity(expenseId, user);
+
+      if (!result.success) {
+        const notFound = result.error?.code === "EXPENSE_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: notFound ? "EXPENSE_NOT_FOUND" : "INTERNAL_ERROR",
+              message: result.error?.message || "Failed to fetch expense activity",
+            },
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get expense activity error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch expense activity",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -3,6 +3,10 @@ import { ReceiptService } from "@/services/receipt.service";
 import { EnhancedExpenseService } from "@/services/enhanced-expense.service";
 import { authenticateUser } from "@/middleware/auth";
 import { logger } from "@/middleware/logger";
+import {
+  uploadReceiptSchema,
+  validateReceiptInput,
+} from "@/lib/validations/receipts";
 
 /**
  * POST /api/expenses/[id]/receipts
@@ -29,7 +33,7 @@ export async function POST(
       return NextResponse.json({ error: authResult.error }, { status: 401 });
     }
 
-    const { sub: userId, role: userRole } = authResult.user!;
+    const { sub: userId, role: userRole, companyId } = authResult.user!;
 
     // Check if expense exists and user has access
     const expenseResult = await EnhancedExpenseService.getExpenseById(
@@ -104,15 +108,15 @@ export async function POST(
       );
     }
 
-    // Check if expense already has a receipt (schema limitation)
-    if (expense.receipt) {
+    // Optional caption and file type
+    const detailsValidation = validateReceiptInput(uploadReceiptSchema, {
+      caption: formData.get("caption") ?? undefined,
+      type: formData.get("type") ?? undefined,
+    });
+    if (!detailsValidation.success) {
       return NextResponse.json(
-        {
-          error:
-            "Expense already has a receipt. Please delete the existing receipt first or update it",
-          existingReceiptId: expense.receipt.id,
-        },
-        { status: 409 }
+        { error: "Invalid receipt details", details: detailsValidation.errors },
+        { status: 400 }
       );
     }
 
@@ -120,9 +124,18 @@ export async function POST(
     const uploadResult = await ReceiptService.uploadReceipt(
       file,
       expenseId,
-      userId
+      userId,
+      companyId,
+      detailsValidation.data!
     );
 
+    if (uploadResult.error?.code === "RECEIPT_LIMIT_REACHED") {
+      return NextResponse.json(
+        { error: uploadResult.error.message },
+        { status: 409 }
+      );
+    }
+
     if (!uploadResult.success) {
       logger.error(
         "Failed to upload receipt",
@@ -130,7 +143,7 @@ export async function POST(
       );
 
       return NextResponse.json(
-        { error: uploadResult.error || "Failed to upload receipt" },
+        { error: uploadResult.error?.message || "Failed to upload receipt" },
         { status: 500 }
       );
     }
@@ -220,11 +233,13 @@ export async function GET(
     if (!receiptsResult.success) {
       logger.error(
         "Failed to get receipts for expense",
-        new Error(receiptsResult.error || "Unknown error")
+        new Error(receiptsResult.error?.message || "Unknown error")
       );
 
       return NextResponse.json(
-        { error: receiptsResult.error || "Failed to retrieve receipts" },
+        {
+          error: receiptsResult.error?.message || "Failed to retrieve receipts",
+        },
         { status: 500 }
       );
     }
@@ -5,7 +5,10 @@ import {
   UpdateExpenseInput,
 } from "@/lib/validations/expenses";
 import { authenticateUser } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
+import { RoleService } from "@/services/role.service";
 import { logger } from "@/middleware/logger";
+import { auditContextFromRequest, runWithAuditContext } from "@/lib/audit";
 
 /**
  * Helper function to validate update expense input
@@ -53,7 +56,12 @@ export async function GET(
       return NextResponse.json({ error: authResult.error }, { status: 401 });
     }
 
-    const { sub: userId, role: userRole } = authResult.user!;
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    // Custom roles with expense:read:all or expense:read:team widen the view
+    const userRole = getExpenseScopeRole(
+      await RoleService.getEffectivePermissions(userId, role, companyId)
+    );
 
     // Get expense details using enhanced service
     const result = await EnhancedExpenseService.getExpenseById(
@@ -138,10 +146,9 @@ export async function PUT(
     }
 
     // Update expense using enhanced service
-    const result = await EnhancedExpenseService.updateExpense(
-      id,
-      validation.data!,
-      userId
+    const result = await runWithAuditContext(
+      auditContextFromRequest(request, userId),
+      () => EnhancedExpenseService.updateExpense(id, validation.data!, userId)
     );
 
     if (!result.success) {
@@ -158,6 +165,17 @@ export async function PUT(
         new Error(result.error || "Unknown error")
       );
 
+      // Refused by a blocking company policy
+      if (result.policyViolations) {
+        return NextResponse.json(
+          {
+            error: result.error,
+            policyViolations: result.policyViolations,
+          },
+          { status: 422 }
+        );
+      }
+
       return NextResponse.json(
         { error: result.error || "Failed to update expense" },
         { status: statusCode }
@@ -170,6 +188,8 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       data: result.data,
+      // Non-blocking policy warnings, also stored on the expense
+      policyViolations: result.policyViolations,
     });
   } catch (error) {
     logger.error("Unexpected error in PUT /api/expenses/[id]:", error as Error);
@@ -208,7 +228,10 @@ export async function DELETE(
     const { sub: userId } = authResult.user!;
 
     // Delete expense using enhanced service
-    const result = await EnhancedExpenseService.deleteExpense(id, userId);
+    const result = await runWithAuditContext(
+      auditContextFromRequest(request, userId),
+      () => EnhancedExpenseService.deleteExpense(id, userId)
+    );
 
     if (!result.success) {
       const statusCode = result.error?.includes("not found")
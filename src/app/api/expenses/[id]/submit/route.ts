@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { EnhancedExpenseService } from "@/services/enhanced-expense.service";
 import { authenticateUser } from "@/middleware/auth";
 import { logger } from "@/middleware/logger";
+import { auditContextFromRequest, runWithAuditContext } from "@/lib/audit";
 
 /**
  * POST /api/expenses/[id]/submit
@@ -31,7 +32,10 @@ export async function POST(
     const { sub: userId } = authResult.user!;
 
     // Submit expense using enhanced service
-    const result = await EnhancedExpenseService.submitExpense(id, userId);
+    const result = await runWithAuditContext(
+      auditContextFromRequest(request, userId),
+      () => EnhancedExpenseService.submitExpense(id, userId)
+    );
 
     if (!result.success) {
       const statusCode = result.error?.includes("not found")
@@ -47,6 +51,17 @@ export async function POST(
         new Error(result.error || "Unknown error")
       );
 
+      // Refused by a blocking company policy
+      if (result.policyViolations) {
+        return NextResponse.json(
+          {
+            error: result.error,
+            policyViolations: result.policyViolations,
+          },
+          { status: 422 }
+        );
+      }
+
       return NextResponse.json(
         { error: result.error || "Failed to submit expense" },
         { status: statusCode }
@@ -59,6 +74,8 @@ export async function POST(
     return NextResponse.json({
       success: true,
       data: result.data,
+      // Non-blocking policy warnings, shown to approvers
+      policyViolations: result.policyViolations,
       message: "Expense submitted for approval successfully",
     });
   } catch (error) {
@@ -3,11 +3,18 @@ import { EnhancedExpenseService } from "@/services/enhanced-expense.service";
 import {
   listExpensesQuerySchema,
   createExpenseSchema,
+  createMileageExpenseSchema,
+  createPerDiemExpenseSchema,
   CreateExpenseInput,
+  CreateMileageExpenseInput,
+  CreatePerDiemExpenseInput,
   ListExpensesQueryInput,
 } from "@/lib/validations/expenses";
 import { authenticateUser } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
+import { RoleService } from "@/services/role.service";
 import { logger } from "@/middleware/logger";
+import { auditContextFromRequest, runWithAuditContext } from "@/lib/audit";
 
 /**
  * Helper function to validate query parameters against schema
@@ -31,15 +38,24 @@ function validateListExpensesQuery(data: any): {
 }
 
 /**
- * Helper function to validate create expense input
+ * Helper function to validate create expense input. Mileage and per-diem
+ * expenses take trip details instead of an amount.
  */
 function validateCreateExpenseInput(data: any): {
   success: boolean;
-  data?: CreateExpenseInput;
+  data?:
+    | CreateExpenseInput
+    | CreateMileageExpenseInput
+    | CreatePerDiemExpenseInput;
   errors?: string[];
 } {
   try {
-    const result = createExpenseSchema.parse(data);
+    const result =
+      data?.type === "MILEAGE"
+        ? createMileageExpenseSchema.parse(data)
+        : data?.type === "PER_DIEM"
+          ? createPerDiemExpenseSchema.parse(data)
+          : createExpenseSchema.parse(data);
     return { success: true, data: result };
   } catch (error: any) {
     return {
@@ -63,7 +79,12 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: authResult.error }, { status: 401 });
     }
 
-    const { sub: userId, role: userRole, companyId } = authResult.user!;
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    // Custom roles with expense:read:all or expense:read:team widen the view
+    const userRole = getExpenseScopeRole(
+      await RoleService.getEffectivePermissions(userId, role, companyId)
+    );
 
     // Parse and validate query parameters
     const url = new URL(request.url);
@@ -91,6 +112,10 @@ export async function GET(request: NextRequest) {
         ? parseFloat(url.searchParams.get("maxAmount")!)
         : undefined,
       merchantName: url.searchParams.get("merchantName") || undefined,
+      departmentId: url.searchParams.get("departmentId") || undefined,
+      costCenterId: url.searchParams.get("costCenterId") || undefined,
+      projectId: url.searchParams.get("projectId") || undefined,
+      isBillable: url.searchParams.get("isBillable") || undefined,
     };
 
     // Validate query parameters
@@ -143,7 +168,8 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/expenses
- * Create a new expense
+ * Create a new expense. With `type: "MILEAGE"` or `type: "PER_DIEM"` the
+ * amount is calculated from the company rate tables.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -178,10 +204,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Create expense using enhanced service
-    const result = await EnhancedExpenseService.createExpense(
-      validation.data!,
-      userId,
-      companyId
+    const input = validation.data!;
+    const result = await runWithAuditContext(
+      auditContextFromRequest(request, userId),
+      () =>
+        "type" in input
+          ? EnhancedExpenseService.createCalculatedExpense(
+              input,
+              userId,
+              companyId
+            )
+          : EnhancedExpenseService.createExpense(input, userId, companyId)
     );
 
     if (!result.success) {
@@ -190,6 +223,17 @@ export async function POST(request: NextRequest) {
         new Error(result.error || "Unknown error")
       );
 
+      // Refused by a blocking company policy
+      if (result.policyViolations) {
+        return NextResponse.json(
+          {
+            error: result.error,
+            policyViolations: result.policyViolations,
+          },
+          { status: 422 }
+        );
+      }
+
       return NextResponse.json(
         { error: result.error || "Failed to create expense" },
         { status: 400 }
@@ -203,6 +247,8 @@ export async function POST(request: NextRequest) {
       {
         success: true,
         data: result.data,
+        // Non-blocking policy warnings, also stored on the expense
+        policyViolations: result.policyViolations,
       },
       { status: 201 }
     );
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { InvitationService } from "@/services/invitation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVITATION_NOT_FOUND: 404,
+  INVITATION_NOT_PENDING: 409,
+};
+
+// Error response for a failed InvitationService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Invitation ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Resend Invitation (user:manage)
+ * POST /api/invitations/[id]/resend
+ *
+ * Emails a new link; the previous one stops working. Expired invitations
+ * get a fresh expiry.
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const invitationId = context?.params?.id;
+
+      if (!invitationId) {
+        return missingIdResponse();
+      }
+
+      const result = await InvitationService.resendInvitation(
+        user.companyId,
+        invitationId,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to resend invitation");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Invitation resent",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Resend invitation error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to resend invitation",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["user:manage"]
+);
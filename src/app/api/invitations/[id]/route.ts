@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { InvitationService } from "@/services/invitation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVITATION_NOT_FOUND: 404,
+  INVITATION_NOT_PENDING: 409,
+};
+
+// Error response for a failed InvitationService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Invitation ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Revoke Invitation (user:manage)
+ * DELETE /api/invitations/[id]
+ *
+ * The invitation's link stops working. Only pending invitations can be
+ * revoked; invitees who were to report to this one lose their manager.
+ */
+export const DELETE = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const invitationId = context?.params?.id;
+
+      if (!invitationId) {
+        return missingIdResponse();
+      }
+
+      const result = await InvitationService.revokeInvitation(
+        user.companyId,
+        invitationId,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to revoke invitation");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Invitation revoked",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Revoke invitation error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to revoke invitation",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["user:manage"]
+);
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  acceptInvitationSchema,
+  validateUserInput,
+} from "@/lib/validations/users";
+import { InvitationService } from "@/services/invitation.service";
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_TOKEN: 400,
+  INVITATION_EXPIRED: 410,
+  WEAK_PASSWORD: 400,
+  USER_EXISTS: 409,
+};
+
+// Error response for a failed InvitationService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Invitation
+ * GET /api/invitations/accept?token=...
+ *
+ * The company, role and invitee behind an invitation link, shown before the
+ * invitee sets their password.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token");
+
+    if (!token) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invitation token is required",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await InvitationService.getInvitationByToken(token);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to fetch invitation");
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get invitation error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch invitation",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Accept Invitation
+ * POST /api/invitations/accept
+ *
+ * Request Body:
+ * {
+ *   token: string;
+ *   password: string;
+ * }
+ *
+ * Creates the invitee's account with the password they chose. The link
+ * can't be used again.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = validateUserInput(acceptInvitationSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input data",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { token, password } = validation.data!;
+    const result = await InvitationService.acceptInvitation(token, password);
+
+    if (!result.success) {
+      return serviceErrorResponse(result.error, "Failed to accept invitation");
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+        message: "Invitation accepted. You can now sign in.",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to accept invitation",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
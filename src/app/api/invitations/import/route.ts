@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { importUsersSchema, validateUserInput } from "@/lib/validations/users";
+import { InvitationService } from "@/services/invitation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  INVALID_IMPORT_FILE: 400,
+};
+
+// Well above a full import file (see MAX_IMPORT_ROWS in src/lib/invitations.ts)
+const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
+
+// Error response for a failed InvitationService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Import Users (user:manage)
+ * POST /api/invitations/import
+ *
+ * multipart/form-data:
+ * - file: CSV with a header row; email and name columns are required,
+ *   role, manager_email, department (name) and cost_center (code) optional
+ * - dryRun: "true" to validate the file without inviting anyone
+ *
+ * Every row is reported back with its errors. Valid rows are invited and
+ * emailed a link; invalid rows are skipped.
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "A CSV file is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (file.size > MAX_IMPORT_FILE_SIZE) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Import file must be less than 1MB",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const validation = validateUserInput(importUsersSchema, {
+        dryRun: formData.get("dryRun") ?? undefined,
+      });
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid import options",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const { dryRun } = validation.data!;
+      const result = await InvitationService.importUsers(
+        user.companyId,
+        user.id,
+        await file.text(),
+        { dryRun }
+      );
+
+      if (!result.success || !result.data) {
+        return serviceErrorResponse(result.error, "Failed to import users");
+      }
+
+      const { valid, invalid, invited } = result.data;
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: dryRun
+            ? `${valid} rows ready to invite, ${invalid} with errors`
+            : `${invited} users invited, ${invalid} rows skipped`,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Import users error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to import users",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["user:manage"]
+);
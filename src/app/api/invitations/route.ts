@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import {
+  createInvitationSchema,
+  invitationsQuerySchema,
+  validateUserInput,
+} from "@/lib/validations/users";
+import { InvitationService } from "@/services/invitation.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  BUSINESS_RULE_VIOLATION: 400,
+  MANAGER_NOT_FOUND: 400,
+  DEPARTMENT_NOT_FOUND: 400,
+  DEPARTMENT_INACTIVE: 400,
+  COST_CENTER_NOT_FOUND: 400,
+  USER_EXISTS: 409,
+  INVITATION_EXISTS: 409,
+  ROLE_NOT_ALLOWED: 403,
+};
+
+// Error response for a failed InvitationService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * List Invitations (user:manage)
+ * GET /api/invitations?status=PENDING&page=1&limit=20
+ *
+ * status: PENDING | EXPIRED | ACCEPTED | REVOKED
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const searchParams = Object.fromEntries(
+        request.nextUrl.searchParams.entries()
+      );
+      const validation = validateUserInput(invitationsQuerySchema, searchParams);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid query parameters",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await InvitationService.listInvitations(
+        user.companyId,
+        validation.data!
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to fetch invitations");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get invitations error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch invitations",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["user:manage"]
+);
+
+/**
+ * Invite User (user:manage)
+ * POST /api/invitations
+ *
+ * Request Body:
+ * {
+ *   email: string;
+ *   name: string;
+ *   role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+ *   managerId?: string; // required for managers and employees
+ *   departmentId?: string;
+ *   costCenterId?: string;
+ * }
+ *
+ * Emails the invitee a single-use link to set their password. The user is
+ * created when they accept.
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateUserInput(createInvitationSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await InvitationService.createInvitation(
+        user.companyId,
+        user.id,
+        validation.data!
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to create invitation");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Invitation sent",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create invitation error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create invitation",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["user:manage"]
+);
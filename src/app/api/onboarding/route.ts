@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  updateOnboardingSchema,
+  validateCompanyInput,
+} from "@/lib/validations/companies";
+import { OnboardingService } from "@/services/onboarding.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  COMPANY_NOT_FOUND: 404,
+};
+
+// Error response for a failed OnboardingService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Onboarding Checklist (Admin only)
+ * GET /api/onboarding
+ *
+ * The company's setup steps: verify email, invite the team, set up
+ * categories and approval rules.
+ */
+export const GET = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await OnboardingService.getChecklist(
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to fetch onboarding checklist"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get onboarding checklist error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch onboarding checklist",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
+
+/**
+ * Update Onboarding Checklist (Admin only)
+ * PATCH /api/onboarding
+ *
+ * Request Body:
+ * {
+ *   dismissed: boolean; // hide the checklist, or bring it back
+ * }
+ */
+export const PATCH = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateCompanyInput(updateOnboardingSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await OnboardingService.setChecklistDismissed(
+        user.companyId,
+        user.id,
+        validation.data!.dismissed
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to update onboarding checklist"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update onboarding checklist error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update onboarding checklist",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  updateExpensePolicySchema,
+  validatePolicyInput,
+  type UpdateExpensePolicyInput,
+} from "@/lib/validations/policies";
+import {
+  PolicyService,
+  type ExpensePolicyPublic,
+} from "@/services/policy.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface PolicyResponse {
+  policy: ExpensePolicyPublic;
+}
+
+const ERROR_STATUS: Record<string, { status: number; error: string }> = {
+  POLICY_NOT_FOUND: { status: 404, error: "NOT_FOUND" },
+  CATEGORY_NOT_FOUND: { status: 400, error: "VALIDATION_ERROR" },
+  INVALID_POLICY_CONFIG: { status: 400, error: "VALIDATION_ERROR" },
+};
+
+/**
+ * Update Expense Policy (policy:manage)
+ * PATCH /api/policies/:id
+ * The policy type can't be changed; config must match it
+ */
+export const PATCH = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<PolicyResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const policyId = context?.params?.id;
+
+      if (!policyId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Policy ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validatePolicyInput(updateExpensePolicySchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const policyData: UpdateExpensePolicyInput = validation.data!;
+
+      const result = await PolicyService.updatePolicy(
+        policyId,
+        user.companyId,
+        policyData,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const mapped = ERROR_STATUS[result.error?.code || ""];
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to update expense policy",
+            error: mapped?.error || "SERVICE_ERROR",
+            details: result.error?.details,
+          },
+          { status: mapped?.status || 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Expense policy updated successfully",
+          data: {
+            policy: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error updating expense policy:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to update expense policy",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["policy:manage"]
+);
+
+/**
+ * Delete Expense Policy (policy:manage)
+ * DELETE /api/policies/:id
+ * Deactivate with PATCH { isActive: false } to keep it for later instead
+ */
+export const DELETE = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<{ id: string }>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const policyId = context?.params?.id;
+
+      if (!policyId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Policy ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await PolicyService.deletePolicy(
+        policyId,
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "POLICY_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to delete expense policy",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Expense policy deleted successfully",
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error deleting expense policy:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to delete expense policy",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["policy:manage"]
+);
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth, withPermission } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  createExpensePolicySchema,
+  validatePolicyInput,
+  type CreateExpensePolicyInput,
+} from "@/lib/validations/policies";
+import type { ExpensePolicyDefinition } from "@/lib/expense-policies";
+import {
+  PolicyService,
+  type ExpensePolicyPublic,
+} from "@/services/policy.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface PoliciesResponse {
+  policies: ExpensePolicyPublic[];
+  // The built-in policies in force while the company has configured none
+  defaults: ExpensePolicyDefinition[] | null;
+}
+
+interface PolicyResponse {
+  policy: ExpensePolicyPublic;
+}
+
+/**
+ * Get Expense Policies
+ * GET /api/policies
+ * Readable by everyone in the company so employees know the rules
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<PoliciesResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await PolicyService.getPolicies(user.companyId);
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to retrieve expense policies",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Expense policies retrieved successfully",
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching expense policies:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch expense policies",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Create Expense Policy (policy:manage)
+ * POST /api/policies
+ *
+ * Request Body:
+ * {
+ *   name: string;
+ *   description?: string;
+ *   type: 'RECEIPT_REQUIRED' | 'CATEGORY_DAILY_CAP' | 'CATEGORY_MONTHLY_CAP' |
+ *         'MAX_EXPENSE_AGE' | 'MIN_DESCRIPTION_LENGTH' | 'WEEKEND_EXPENSE' |
+ *         'HOLIDAY_EXPENSE';
+ *   severity?: 'BLOCK' | 'WARN'; // default WARN
+ *   categoryId?: string | null; // every category when omitted
+ *   config: object; // e.g. { amountOver: 25 }, { limit: 100 }, { days: 90 },
+ *                   // { minLength: 10 }, {}, { dates: ['2024-12-25'] }
+ *   isActive?: boolean;
+ * }
+ *
+ * The built-in defaults stop applying once the company has a policy of its own.
+ */
+export const POST = withPermission(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<PolicyResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validatePolicyInput(createExpensePolicySchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const policyData: CreateExpensePolicyInput = validation.data!;
+
+      const result = await PolicyService.createPolicy(
+        user.companyId,
+        policyData,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "CATEGORY_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to create expense policy",
+            error: notFound ? "VALIDATION_ERROR" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 400 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Expense policy created successfully",
+          data: {
+            policy: result.data,
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Error creating expense policy:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to create expense policy",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["policy:manage"]
+);
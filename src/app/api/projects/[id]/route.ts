@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  updateProjectSchema,
+  validateProjectInput,
+} from "@/lib/validations/projects";
+import { ProjectService } from "@/services/project.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  PROJECT_NOT_FOUND: 404,
+  PROJECT_EXISTS: 409,
+  INVALID_PROJECT_DATES: 400,
+};
+
+// Error response for a failed ProjectService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Project ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Update Project (Admin only)
+ * PATCH /api/projects/[id]
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   code?: string;
+ *   name?: string;
+ *   clientName?: string;
+ *   budget?: number | null;
+ *   startDate?: string | null;
+ *   endDate?: string | null;
+ *   isActive?: boolean;
+ * }
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const projectId = context?.params?.id;
+
+      if (!projectId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateProjectInput(updateProjectSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ProjectService.updateProject(
+        projectId,
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update project");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update project error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update project",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
+
+/**
+ * Deactivate Project (Admin only)
+ * DELETE /api/projects/[id]
+ *
+ * Closes the project to new expenses; its expenses, including unbilled
+ * ones, keep it. Reopen with PATCH { isActive: true }
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const projectId = context?.params?.id;
+
+      if (!projectId) {
+        return missingIdResponse();
+      }
+
+      const result = await ProjectService.updateProject(
+        projectId,
+        user.companyId,
+        { isActive: false },
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(
+          result.error,
+          "Failed to deactivate project"
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Project deactivated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Deactivate project error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to deactivate project",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
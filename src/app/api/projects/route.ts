@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import {
+  createProjectSchema,
+  projectListQuerySchema,
+  validateProjectInput,
+} from "@/lib/validations/projects";
+import { ProjectService } from "@/services/project.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Get Projects
+ * GET /api/projects
+ *
+ * Everyone can list the projects so expenses can be charged to them
+ *
+ * Query Parameters:
+ * - includeInactive: boolean (default: false)
+ * - clientName: string - only the client's projects
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    const { searchParams } = new URL(request.url);
+    const validation = validateProjectInput(
+      projectListQuerySchema,
+      Object.fromEntries(searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: validation.errors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ProjectService.listProjects(
+      user.companyId,
+      validation.data!
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch projects",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result.data,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Get projects error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch projects",
+        },
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create Project (Admin only)
+ * POST /api/projects
+ *
+ * Request Body:
+ * {
+ *   code: string; // unique within the company
+ *   name: string;
+ *   clientName: string;
+ *   budget?: number; // in the company base currency
+ *   startDate?: string; // YYYY-MM-DD
+ *   endDate?: string;
+ * }
+ */
+export const POST = withAuth(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateProjectInput(createProjectSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await ProjectService.createProject(
+        user.companyId,
+        validation.data!,
+        user.id
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = code === "PROJECT_EXISTS" ? 409 : 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to create project",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Project created successfully",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create project error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create project",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
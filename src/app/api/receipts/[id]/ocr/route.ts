@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ReceiptService } from "@/services/receipt.service";
+import { authenticateUser } from "@/middleware/auth";
+import { logger } from "@/middleware/logger";
 
 /**
  * Get OCR Results for Receipt
  * GET /api/receipts/:id/ocr
+ *
+ * status is "processing" until the OCR worker has run, then "completed"
+ * (with ocrData and form suggestions), "failed", or "skipped" when OCR is
+ * disabled or the file type isn't supported.
  */
 export async function GET(
   request: NextRequest,
@@ -11,25 +18,43 @@ export async function GET(
   try {
     const { id } = params;
 
-    // TODO: Implement get OCR results logic
-    // - Verify authentication
-    // - Check expense ownership/authorization
-    // - Fetch receipt from database
-    // - Return OCR data (merchantName, amount, date, lineItems, confidence)
-    // - Return processing status if OCR not completed
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
 
-    return NextResponse.json(
-      {
-        message: "Get OCR results - To be implemented",
-        data: {
-          id,
-          status: "processing", // or 'completed'
-          ocrData: null,
-        },
-      },
-      { status: 501 }
-    );
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const result = await ReceiptService.getReceiptOCR(id, {
+      id: userId,
+      role,
+      companyId,
+    });
+
+    if (!result.success) {
+      const statusCode =
+        result.error?.code === "RECEIPT_NOT_FOUND"
+          ? 404
+          : result.error?.code === "ACCESS_DENIED"
+          ? 403
+          : 500;
+
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to fetch OCR results" },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+    });
   } catch (error) {
+    logger.error(
+      "Unexpected error in GET /api/receipts/[id]/ocr:",
+      error as Error
+    );
     return NextResponse.json(
       { error: "Failed to fetch OCR results" },
       { status: 500 }
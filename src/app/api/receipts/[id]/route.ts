@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ReceiptService } from "@/services/receipt.service";
+import { authenticateUser } from "@/middleware/auth";
+import { logger } from "@/middleware/logger";
+import { validateFile } from "@/lib/s3";
+import {
+  updateReceiptSchema,
+  validateReceiptInput,
+} from "@/lib/validations/receipts";
+
+// HTTP status for receipt service error codes
+const ERROR_STATUS: Record<string, number> = {
+  RECEIPT_NOT_FOUND: 404,
+  ACCESS_DENIED: 403,
+  EXPENSE_LOCKED: 409,
+};
 
 /**
  * Get Receipt by ID
  * GET /api/receipts/:id
+ * Includes a download URL valid for one hour
  */
 export async function GET(
   request: NextRequest,
@@ -11,22 +27,177 @@ export async function GET(
   try {
     const { id } = params;
 
-    // TODO: Implement get receipt logic
-    // - Verify authentication
-    // - Fetch receipt from database
-    // - Check expense ownership/authorization
-    // - Return receipt data with S3 URL
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const result = await ReceiptService.getReceipt(id, {
+      id: userId,
+      role,
+      companyId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to fetch receipt" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
 
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipt: result.data,
+      },
+    });
+  } catch (error) {
+    logger.error("Unexpected error in GET /api/receipts/[id]:", error as Error);
     return NextResponse.json(
-      {
-        message: "Get receipt - To be implemented",
-        data: { id },
+      { error: "Failed to fetch receipt" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update Receipt Details
+ * PATCH /api/receipts/:id
+ *
+ * Request Body:
+ * {
+ *   caption?: string | null;
+ *   type?: RECEIPT | INVOICE | FOLIO | ITEMIZED_BILL | OTHER;
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const body = await request.json();
+    const validation = validateReceiptInput(updateReceiptSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await ReceiptService.updateReceipt(id, validation.data!, {
+      id: userId,
+      role,
+      companyId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to update receipt" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipt: result.data,
       },
-      { status: 501 }
+    });
+  } catch (error) {
+    logger.error(
+      "Unexpected error in PATCH /api/receipts/[id]:",
+      error as Error
+    );
+    return NextResponse.json(
+      { error: "Failed to update receipt" },
+      { status: 500 }
     );
+  }
+}
+
+/**
+ * Replace Receipt File
+ * PUT /api/receipts/:id
+ * Content-Type: multipart/form-data
+ *
+ * Form Data:
+ * - file: File (required)
+ *
+ * Keeps the receipt's position, caption and type; OCR runs again on the
+ * new file.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No receipt file provided" },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type and size
+    const fileValidation = validateFile(file);
+    if (!fileValidation.valid) {
+      return NextResponse.json(
+        { error: fileValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const result = await ReceiptService.replaceReceiptFile(id, file, {
+      id: userId,
+      role,
+      companyId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to replace receipt" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipt: result.data,
+        message: "Receipt replaced successfully",
+      },
+    });
   } catch (error) {
+    logger.error("Unexpected error in PUT /api/receipts/[id]:", error as Error);
     return NextResponse.json(
-      { error: "Failed to fetch receipt" },
+      { error: "Failed to replace receipt" },
       { status: 500 }
     );
   }
@@ -35,6 +206,7 @@ export async function GET(
 /**
  * Delete Receipt
  * DELETE /api/receipts/:id
+ * Only while the expense is in DRAFT or REJECTED status
  */
 export async function DELETE(
   request: NextRequest,
@@ -43,22 +215,39 @@ export async function DELETE(
   try {
     const { id } = params;
 
-    // TODO: Implement delete receipt logic
-    // - Verify authentication
-    // - Check expense ownership
-    // - Verify expense is in DRAFT or REJECTED status
-    // - Delete file from S3
-    // - Delete receipt record from database
-    // - Return success message
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
 
-    return NextResponse.json(
-      {
-        message: "Delete receipt - To be implemented",
-        data: { id },
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const result = await ReceiptService.deleteReceipt(id, {
+      id: userId,
+      role,
+      companyId,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to delete receipt" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id,
+        message: "Receipt deleted successfully",
       },
-      { status: 501 }
-    );
+    });
   } catch (error) {
+    logger.error(
+      "Unexpected error in DELETE /api/receipts/[id]:",
+      error as Error
+    );
     return NextResponse.json(
       { error: "Failed to delete receipt" },
       { status: 500 }
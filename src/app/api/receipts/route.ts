@@ -1,4 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ReceiptService } from "@/services/receipt.service";
+import { authenticateUser } from "@/middleware/auth";
+import { logger } from "@/middleware/logger";
+import { validateFile } from "@/lib/s3";
+import {
+  listReceiptsQuerySchema,
+  reorderReceiptsSchema,
+  uploadReceiptSchema,
+  validateReceiptInput,
+} from "@/lib/validations/receipts";
+
+// HTTP status for receipt service error codes
+const ERROR_STATUS: Record<string, number> = {
+  EXPENSE_NOT_FOUND: 404,
+  ACCESS_DENIED: 403,
+  EXPENSE_LOCKED: 409,
+  RECEIPT_LIMIT_REACHED: 409,
+  INVALID_RECEIPT_ORDER: 400,
+};
 
 /**
  * Upload Receipt
@@ -7,35 +26,232 @@ import { NextRequest, NextResponse } from "next/server";
  *
  * Form Data:
  * - file: File (required)
- * - expenseId: string (required)
+ * - expenseId: string (optional; DRAFT or REJECTED expense of the caller)
+ * - caption: string (optional)
+ * - type: RECEIPT | INVOICE | FOLIO | ITEMIZED_BILL | OTHER (optional)
+ *
+ * Without expenseId the receipt is held until the expense is created, so
+ * OCR can pre-fill the form; pass its id in `receiptIds` when creating the
+ * expense. Poll GET /api/receipts/:id/ocr for the extracted fields.
  */
 export async function POST(request: NextRequest) {
   try {
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
     const formData = await request.formData();
-    const file = formData.get("file") as File;
-    const expenseId = formData.get("expenseId") as string;
-
-    // TODO: Implement receipt upload logic
-    // - Verify authentication
-    // - Validate file (type, size < 10MB)
-    // - Check expense ownership
-    // - Generate unique filename
-    // - Upload file to S3
-    // - Create receipt record in database
-    // - Enqueue OCR job for processing
-    // - Return receipt data with S3 URL
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No receipt file provided" },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type and size
+    const fileValidation = validateFile(file);
+    if (!fileValidation.valid) {
+      return NextResponse.json(
+        { error: fileValidation.error },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateReceiptInput(uploadReceiptSchema, {
+      expenseId: formData.get("expenseId") ?? undefined,
+      caption: formData.get("caption") ?? undefined,
+      type: formData.get("type") ?? undefined,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid receipt details", details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { expenseId, caption, type } = validation.data!;
+
+    if (expenseId) {
+      const access = await ReceiptService.canAccessExpense(
+        expenseId,
+        { id: userId, role, companyId },
+        "write"
+      );
+      if (!access.success) {
+        return NextResponse.json(
+          { error: access.error?.message },
+          { status: ERROR_STATUS[access.error?.code ?? ""] ?? 500 }
+        );
+      }
+    }
+
+    const uploadResult = await ReceiptService.uploadReceipt(
+      file,
+      expenseId ?? null,
+      userId,
+      companyId,
+      { caption, type }
+    );
+
+    if (!uploadResult.success) {
+      return NextResponse.json(
+        {
+          error: uploadResult.error?.message || "Failed to upload receipt",
+        },
+        { status: ERROR_STATUS[uploadResult.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    logger.info(`Receipt uploaded: ${uploadResult.data?.id}`, {
+      userId,
+      expenseId,
+      fileName: file.name,
+      fileSize: file.size,
+      status: uploadResult.data?.status,
+    });
 
     return NextResponse.json(
       {
-        message: "Upload receipt - To be implemented",
-        data: { expenseId, filename: file?.name },
+        success: true,
+        data: {
+          receipt: uploadResult.data,
+          message: "Receipt uploaded successfully",
+        },
       },
-      { status: 501 }
+      { status: 201 }
     );
   } catch (error) {
+    logger.error("Unexpected error in POST /api/receipts:", error as Error);
     return NextResponse.json(
       { error: "Failed to upload receipt" },
       { status: 500 }
     );
   }
 }
+
+/**
+ * List Receipts
+ * GET /api/receipts?expenseId=...
+ *
+ * With expenseId, the expense's receipts in display order. Without it, the
+ * caller's receipts that haven't been attached to an expense yet.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const validation = validateReceiptInput(
+      listReceiptsQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid query parameters", details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { expenseId } = validation.data!;
+
+    const result = await ReceiptService.listReceipts(
+      { id: userId, role, companyId },
+      expenseId
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to retrieve receipts" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipts: result.data || [],
+        expenseId: expenseId ?? null,
+      },
+    });
+  } catch (error) {
+    logger.error("Unexpected error in GET /api/receipts:", error as Error);
+    return NextResponse.json(
+      { error: "Failed to fetch receipts" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Reorder Receipts
+ * PATCH /api/receipts
+ *
+ * Request Body:
+ * {
+ *   expenseId: string;
+ *   receiptIds: string[]; // every receipt on the expense, in the new order
+ * }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Extract and validate authentication
+    const authResult = await authenticateUser(request);
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: 401 });
+    }
+
+    const { sub: userId, role, companyId } = authResult.user!;
+
+    const body = await request.json();
+    const validation = validateReceiptInput(reorderReceiptsSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid request body", details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { expenseId, receiptIds } = validation.data!;
+
+    const result = await ReceiptService.reorderReceipts(
+      expenseId,
+      receiptIds,
+      { id: userId, role, companyId }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error?.message || "Failed to reorder receipts" },
+        { status: ERROR_STATUS[result.error?.code ?? ""] ?? 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        receipts: result.data || [],
+        expenseId,
+      },
+    });
+  } catch (error) {
+    logger.error("Unexpected error in PATCH /api/receipts:", error as Error);
+    return NextResponse.json(
+      { error: "Failed to reorder receipts" },
+      { status: 500 }
+    );
+  }
+}
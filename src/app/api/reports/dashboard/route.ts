@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
 import { formatErrorResponse } from "@/middleware/error-handler";
 import {
   dashboardQuerySchema,
@@ -7,9 +8,23 @@ import {
 } from "@/lib/validations/reports";
 import { ReportsService } from "@/services";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Get Dashboard Analytics
- * GET /api/reports/dashboard?period=month&startDate=2024-01-01&endDate=2024-01-31&userId=user123
+ * Get Dashboard Analytics (report:read)
+ * GET /api/reports/dashboard?period=month&startDate=2024-01-01&endDate=2024-01-31&userId=user123&departmentId=dept123
  *
  * Returns comprehensive dashboard data including:
  * - Summary statistics (total, average expenses)
@@ -18,18 +33,9 @@ import { ReportsService } from "@/services";
  * - Monthly trends over the last 12 months
  * - Top spenders (for managers/admins)
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const { user } = authResult;
+    const user = (request as AuthenticatedRequest).user;
 
     // Parse and validate query parameters
     const searchParams = request.nextUrl.searchParams;
@@ -38,6 +44,8 @@ export async function GET(request: NextRequest) {
       startDate: searchParams.get("startDate") || undefined,
       endDate: searchParams.get("endDate") || undefined,
       userId: searchParams.get("userId") || undefined,
+      departmentId: searchParams.get("departmentId") || undefined,
+      costCenterId: searchParams.get("costCenterId") || undefined,
     };
 
     const validation = validateReportInput(dashboardQuerySchema, queryData);
@@ -55,8 +63,8 @@ export async function GET(request: NextRequest) {
     const dashboardData = await ReportsService.getDashboardAnalytics(
       user.companyId,
       validation.data!,
-      user.sub,
-      user.role
+      user.id,
+      getExpenseScopeRole(user.permissions)
     );
 
     return NextResponse.json({
@@ -66,4 +74,4 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     return formatErrorResponse(error as Error);
   }
-}
+}, ["report:read"]);
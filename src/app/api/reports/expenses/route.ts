@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
 import { formatErrorResponse } from "@/middleware/error-handler";
 import {
   expenseReportQuerySchema,
@@ -7,22 +8,30 @@ import {
 } from "@/lib/validations/reports";
 import { ReportsService } from "@/services";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Generate Expense Report
+ * Generate Expense Report (report:read)
  * GET /api/reports/expenses?startDate=2025-01-01&endDate=2025-12-31&userId=xxx&format=json&page=1&limit=50
+ *
+ * groupBy=project adds totals per project, with the billable share, for all
+ * matching expenses
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const { user } = authResult;
+    const user = (request as AuthenticatedRequest).user;
 
     // Parse and validate query parameters
     const searchParams = request.nextUrl.searchParams;
@@ -31,6 +40,11 @@ export async function GET(request: NextRequest) {
       endDate: searchParams.get("endDate") || undefined,
       userId: searchParams.get("userId") || undefined,
       categoryId: searchParams.get("categoryId") || undefined,
+      departmentId: searchParams.get("departmentId") || undefined,
+      costCenterId: searchParams.get("costCenterId") || undefined,
+      projectId: searchParams.get("projectId") || undefined,
+      isBillable: searchParams.get("isBillable") || undefined,
+      groupBy: searchParams.get("groupBy") || undefined,
       status: searchParams.get("status") || undefined,
       format: searchParams.get("format") || "json",
       page: searchParams.get("page") || "1",
@@ -52,8 +66,8 @@ export async function GET(request: NextRequest) {
     const reportData = await ReportsService.getExpenseReport(
       user.companyId,
       validation.data!,
-      user.sub,
-      user.role
+      user.id,
+      getExpenseScopeRole(user.permissions)
     );
 
     return NextResponse.json({
@@ -63,4 +77,4 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     return formatErrorResponse(error as Error);
   }
-}
+}, ["report:read"]);
@@ -1,50 +1,71 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
 import { formatErrorResponse, NotFoundError } from "@/middleware/error-handler";
 import { ReportsService } from "@/services";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Get Export Task Status
+ * Get Export Task Status (report:export)
  * GET /api/reports/export/[taskId]
  *
  * Returns the status of an export task:
- * - PROCESSING: Task is being processed
- * - COMPLETED: Export is ready for download
+ * - QUEUED: Task is waiting for a worker
+ * - PROCESSING: Task is being processed (see progress)
+ * - COMPLETED: Export is ready; downloadUrl is a signed link valid for 15 minutes
  * - FAILED: Export failed with error details
+ * - EXPIRED: The file was removed after the retention period
+ *
+ * With ?download=true a completed export redirects straight to the file.
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { taskId: string } }
-) {
-  try {
-    // Authenticate user
-    const authResult = await authenticateUser(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
+export const GET = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const taskId = context?.params?.taskId;
 
-    const { user } = authResult;
-    const { taskId } = params;
+      if (!taskId) {
+        throw new NotFoundError("Task ID is required");
+      }
 
-    if (!taskId) {
-      throw new NotFoundError("Task ID is required");
-    }
+      // Get export task status
+      const taskStatus = await ReportsService.getExportStatus(
+        taskId,
+        user.companyId,
+        user.id,
+        getExpenseScopeRole(user.permissions)
+      );
 
-    // Get export task status
-    const taskStatus = await ReportsService.getExportStatus(
-      taskId,
-      user.companyId,
-      user.sub
-    );
+      if (request.nextUrl.searchParams.get("download") === "true") {
+        if (!taskStatus.downloadUrl) {
+          throw new NotFoundError("Export file is not available");
+        }
+        return NextResponse.redirect(taskStatus.downloadUrl);
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: taskStatus,
-    });
-  } catch (error) {
-    return formatErrorResponse(error as Error);
-  }
-}
+      return NextResponse.json({
+        success: true,
+        data: taskStatus,
+      });
+    } catch (error) {
+      return formatErrorResponse(error as Error);
+    }
+  },
+  ["report:export"]
+);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
 import { formatErrorResponse } from "@/middleware/error-handler";
 import {
   exportReportSchema,
@@ -7,8 +8,22 @@ import {
 } from "@/lib/validations/reports";
 import { ReportsService } from "@/services";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Create Export Task
+ * Create Export Task (report:export)
  * POST /api/reports/export
  *
  * Body: {
@@ -19,24 +34,16 @@ import { ReportsService } from "@/services";
  *     status?: ["APPROVED", "PENDING_APPROVAL"],
  *     categoryId?: "category123",
  *     userId?: "user123",
+ *     projectId?: "project123",
  *     minAmount?: 100,
  *     maxAmount?: 5000
  *   },
  *   includeReceipts?: boolean
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const { user } = authResult;
+    const user = (request as AuthenticatedRequest).user;
 
     // Parse and validate request body
     const body = await request.json();
@@ -56,8 +63,8 @@ export async function POST(request: NextRequest) {
     const exportTask = await ReportsService.createExportTask(
       user.companyId,
       validation.data!,
-      user.sub,
-      user.role
+      user.id,
+      getExpenseScopeRole(user.permissions)
     );
 
     return NextResponse.json(
@@ -70,4 +77,4 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     return formatErrorResponse(error as Error);
   }
-}
+}, ["report:export"]);
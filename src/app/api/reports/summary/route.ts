@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
 import { formatErrorResponse } from "@/middleware/error-handler";
 import {
   summaryQuerySchema,
@@ -7,22 +8,27 @@ import {
 } from "@/lib/validations/reports";
 import { ReportsService } from "@/services";
 
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
 /**
- * Get Dashboard Summary
+ * Get Dashboard Summary (report:read)
  * GET /api/reports/summary?period=month&startDate=2024-01-01&endDate=2024-01-31&userId=user123
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    const { user } = authResult;
+    const user = (request as AuthenticatedRequest).user;
 
     // Parse and validate query parameters
     const searchParams = request.nextUrl.searchParams;
@@ -48,8 +54,8 @@ export async function GET(request: NextRequest) {
     const summaryData = await ReportsService.getSummaryStats(
       user.companyId,
       validation.data!,
-      user.sub, // user ID is in the 'sub' field
-      user.role
+      user.id,
+      getExpenseScopeRole(user.permissions)
     );
 
     return NextResponse.json({
@@ -59,4 +65,4 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     return formatErrorResponse(error as Error);
   }
-}
+}, ["report:read"]);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
+import { formatErrorResponse } from "@/middleware/error-handler";
+import {
+  taxReportQuerySchema,
+  validateReportInput,
+} from "@/lib/validations/reports";
+import { ReportsService } from "@/services";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Tax Report (report:read)
+ * GET /api/reports/tax?startDate=2025-01-01&endDate=2025-03-31&departmentId=xxx&costCenterId=xxx
+ *
+ * Reclaimable VAT/GST on approved itemised expenses, per tax rate, category
+ * and paid currency
+ */
+export const GET = withPermission(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    // Parse and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryData = {
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      departmentId: searchParams.get("departmentId") || undefined,
+      costCenterId: searchParams.get("costCenterId") || undefined,
+    };
+
+    const validation = validateReportInput(taxReportQuerySchema, queryData);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const reportData = await ReportsService.getTaxReport(
+      user.companyId,
+      validation.data!,
+      getExpenseScopeRole(user.permissions)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: reportData,
+    });
+  } catch (error) {
+    return formatErrorResponse(error as Error);
+  }
+}, ["report:read"]);
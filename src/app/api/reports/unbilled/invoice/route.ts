@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateUser } from "@/middleware/auth";
+import { formatErrorResponse } from "@/middleware/error-handler";
+import {
+  markInvoicedSchema,
+  validateProjectInput,
+} from "@/lib/validations/projects";
+import { ReportsService } from "@/services";
+
+/**
+ * Mark Expenses as Invoiced (Admin only)
+ * POST /api/reports/unbilled/invoice
+ *
+ * Body: {
+ *   expenseIds: ["expense123", "expense456"],
+ *   invoiceReference?: "INV-2025-042"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateUser(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { user } = authResult;
+
+    // Parse and validate request body
+    const body = await request.json();
+
+    const validation = validateProjectInput(markInvoicedSchema, body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ReportsService.markExpensesInvoiced(
+      user.companyId,
+      validation.data!,
+      user.role
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.invoicedCount} expense(s) marked as invoiced`,
+    });
+  } catch (error) {
+    return formatErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { getExpenseScopeRole } from "@/lib/permissions";
+import { formatErrorResponse } from "@/middleware/error-handler";
+import {
+  unbilledReportQuerySchema,
+  validateProjectInput,
+} from "@/lib/validations/projects";
+import { ReportsService } from "@/services";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+/**
+ * Unbilled Expenses Report (report:read)
+ * GET /api/reports/unbilled?clientName=Acme&projectId=xxx&startDate=2025-01-01&endDate=2025-03-31
+ *
+ * Approved billable expenses not invoiced yet, grouped by client and project
+ */
+export const GET = withPermission(async (request: NextRequest) => {
+  try {
+    const user = (request as AuthenticatedRequest).user;
+
+    // Parse and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const queryData = {
+      clientName: searchParams.get("clientName") || undefined,
+      projectId: searchParams.get("projectId") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+    };
+
+    const validation = validateProjectInput(
+      unbilledReportQuerySchema,
+      queryData
+    );
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: validation.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const reportData = await ReportsService.getUnbilledReport(
+      user.companyId,
+      validation.data!,
+      getExpenseScopeRole(user.permissions)
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: reportData,
+    });
+  } catch (error) {
+    return formatErrorResponse(error as Error);
+  }
+}, ["report:read"]);
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { updateRoleSchema, validateRoleInput } from "@/lib/validations/roles";
+import { RoleService } from "@/services/role.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ROLE_NOT_FOUND: 404,
+  ROLE_EXISTS: 409,
+  PERMISSION_NOT_HELD: 403,
+};
+
+// Error response for a failed RoleService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "Role ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Update Role (role:manage)
+ * PATCH /api/roles/[id]
+ *
+ * Request Body (all optional, at least one required):
+ * {
+ *   name?: string;
+ *   description?: string | null;
+ *   permissions?: string[]; // replaces the role's permissions
+ * }
+ *
+ * The built-in ADMIN, MANAGER and EMPLOYEE roles can't be changed.
+ */
+export const PATCH = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const roleId = context?.params?.id;
+
+      if (!roleId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateRoleInput(updateRoleSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await RoleService.updateRole(
+        roleId,
+        user.companyId,
+        validation.data!,
+        user
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update role");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Role updated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Update role error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update role",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["role:manage"]
+);
+
+/**
+ * Delete Role (role:manage)
+ * DELETE /api/roles/[id]
+ *
+ * Users holding the role lose it and its permissions
+ */
+export const DELETE = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const roleId = context?.params?.id;
+
+      if (!roleId) {
+        return missingIdResponse();
+      }
+
+      const result = await RoleService.deleteRole(
+        roleId,
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to delete role");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Role deleted successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Delete role error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to delete role",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["role:manage"]
+);
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/middleware/auth";
+import { createRoleSchema, validateRoleInput } from "@/lib/validations/roles";
+import { RoleService } from "@/services/role.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  ROLE_EXISTS: 409,
+  PERMISSION_NOT_HELD: 403,
+};
+
+// Error response for a failed RoleService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+/**
+ * Get Roles (role:manage)
+ * GET /api/roles
+ *
+ * The permission catalog and role templates, the built-in ADMIN, MANAGER
+ * and EMPLOYEE presets, and the company's custom roles
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await RoleService.listRoles(user.companyId);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to fetch roles");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get roles error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch roles",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["role:manage"]
+);
+
+/**
+ * Create Role (role:manage)
+ * POST /api/roles
+ *
+ * Request Body:
+ * {
+ *   name: string;
+ *   description?: string;
+ *   permissions: string[]; // keys from the permission catalog
+ * }
+ *
+ * Only permissions the caller holds can be granted.
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const body = await request.json();
+      const validation = validateRoleInput(createRoleSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await RoleService.createRole(
+        user.companyId,
+        validation.data!,
+        user
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to create role");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "Role created successfully",
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Create role error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to create role",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["role:manage"]
+);
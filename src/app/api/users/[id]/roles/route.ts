@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth, withPermission } from "@/middleware/auth";
+import {
+  setUserRolesSchema,
+  validateRoleInput,
+} from "@/lib/validations/roles";
+import { isPermissionGranted } from "@/lib/permissions";
+import { RoleService } from "@/services/role.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+  ROLE_NOT_FOUND: 400,
+  PERMISSION_NOT_HELD: 403,
+};
+
+// Error response for a failed RoleService call
+const serviceErrorResponse = (
+  error: { message: string; code?: string; details?: unknown } | undefined,
+  fallbackMessage: string
+) => {
+  const code = error?.code || "";
+  const status = ERROR_STATUS[code] || 500;
+  return NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: status === 500 ? "INTERNAL_ERROR" : code,
+        message: error?.message || fallbackMessage,
+        ...(status !== 500 && error?.details ? { details: error.details } : {}),
+      },
+    },
+    { status }
+  );
+};
+
+const missingIdResponse = () =>
+  NextResponse.json(
+    {
+      success: false,
+      error: {
+        code: "INVALID_REQUEST",
+        message: "User ID is required",
+      },
+    },
+    { status: 400 }
+  );
+
+/**
+ * Get User Roles
+ * GET /api/users/[id]/roles
+ *
+ * The user's built-in role, custom roles and effective permissions. Users
+ * can see their own; role:manage is needed for anyone else's.
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const userId = context?.params?.id;
+
+      if (!userId) {
+        return missingIdResponse();
+      }
+
+      if (userId !== user.id) {
+        const permissions = await RoleService.getEffectivePermissions(
+          user.id,
+          user.role,
+          user.companyId
+        );
+
+        if (!isPermissionGranted(permissions, "role:manage")) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: {
+                code: "AUTHORIZATION_ERROR",
+                message: "Insufficient permissions",
+              },
+            },
+            { status: 403 }
+          );
+        }
+      }
+
+      const result = await RoleService.getUserRoles(userId, user.companyId);
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to fetch user roles");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Get user roles error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to fetch user roles",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Set User Roles (role:manage)
+ * PUT /api/users/[id]/roles
+ *
+ * Request Body:
+ * {
+ *   roleIds: string[]; // the user's complete list of custom roles
+ * }
+ *
+ * The built-in role is unchanged; change it with PUT /api/users/[id].
+ * Only roles whose permissions the caller holds can be newly assigned.
+ */
+export const PUT = withPermission(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const userId = context?.params?.id;
+
+      if (!userId) {
+        return missingIdResponse();
+      }
+
+      const body = await request.json();
+      const validation = validateRoleInput(setUserRolesSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Invalid input data",
+              details: validation.errors,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await RoleService.setUserRoles(
+        userId,
+        user.companyId,
+        validation.data!.roleIds,
+        user
+      );
+
+      if (!result.success) {
+        return serviceErrorResponse(result.error, "Failed to update user roles");
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: result.data,
+          message: "User roles updated successfully",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Set user roles error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to update user roles",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  ["role:manage"]
+);
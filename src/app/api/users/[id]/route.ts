@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { withAuth } from "@/middleware/auth";
+import { withAuth, withPermission } from "@/middleware/auth";
+import { EventBus } from "@/services/event-bus.service";
+import { toUserEventData } from "@/lib/webhooks";
+import { AuditService } from "@/services/audit.service";
+import { USER_AUDIT_FIELDS } from "@/lib/audit";
+import { DepartmentService } from "@/services/department.service";
+import { CostCenterService } from "@/services/cost-center.service";
+import { RoleService } from "@/services/role.service";
+import { isPermissionGranted } from "@/lib/permissions";
 import {
   updateUserSchema,
   validateUserInput,
@@ -49,16 +57,14 @@ export const GET = withAuth(
 
       // Authorization logic:
       // - Users can view their own profile
-      // - ADMINs can view any user in their company
       // - MANAGERs can view their subordinates and their own profile
+      // - Anyone else with user:read (ADMINs, custom roles) can view any
+      //   user in their company
       let canAccess = false;
 
       if (userId === user.id) {
         // User viewing their own profile
         canAccess = true;
-      } else if (user.role === "ADMIN") {
-        // Admin can view any user in company
-        canAccess = true;
       } else if (user.role === "MANAGER") {
         // Manager can view their subordinates
         const subordinate = await prisma.user.findFirst({
@@ -69,6 +75,13 @@ export const GET = withAuth(
           },
         });
         canAccess = !!subordinate;
+      } else {
+        const permissions = await RoleService.getEffectivePermissions(
+          user.id,
+          user.role,
+          user.companyId
+        );
+        canAccess = isPermissionGranted(permissions, "user:read");
       }
 
       if (!canAccess) {
@@ -98,6 +111,19 @@ export const GET = withAuth(
           managerId: true,
           createdAt: true,
           updatedAt: true,
+          department: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          costCenter: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
           company: {
             select: {
               id: true,
@@ -159,6 +185,8 @@ export const GET = withAuth(
                   email: targetUser.manager.email,
                 }
               : null,
+            department: targetUser.department,
+            costCenter: targetUser.costCenter,
             subordinates: targetUser.subordinates.map((sub) => ({
               id: sub.id,
               name: sub.name,
@@ -199,10 +227,10 @@ export const GET = withAuth(
 );
 
 /**
- * Update User (Admin only)
+ * Update User (user:manage)
  * PUT /api/users/[id]
  */
-export const PUT = withAuth(
+export const PUT = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -224,20 +252,6 @@ export const PUT = withAuth(
         );
       }
 
-      // Check authorization - only ADMINs can update other users
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can update users",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
       const body = await request.json();
 
       // Validate input
@@ -256,7 +270,8 @@ export const PUT = withAuth(
         );
       }
 
-      const { name, role, managerId } = validation.data!;
+      const { name, role, managerId, departmentId, costCenterId } =
+        validation.data!;
 
       // Check if target user exists and belongs to same company
       const targetUser = await prisma.user.findFirst({
@@ -279,9 +294,10 @@ export const PUT = withAuth(
         );
       }
 
-      // Validate role hierarchy
-      if (role) {
-        const roleValidation = validateRoleHierarchy(user.role, role);
+      // Validate role hierarchy, for the user's current role as well as the
+      // new one: only admins can change admins and managers
+      for (const checkedRole of [targetUser.role, role]) {
+        const roleValidation = validateRoleHierarchy(user.role, checkedRole);
         if (!roleValidation.success) {
           return NextResponse.json(
             {
@@ -342,6 +358,33 @@ export const PUT = withAuth(
         }
       }
 
+      // Validate a new department and default cost center
+      const assignmentError =
+        (departmentId && departmentId !== targetUser.departmentId
+          ? await DepartmentService.validateDepartment(
+              user.companyId,
+              departmentId
+            )
+          : null) ??
+        (costCenterId && costCenterId !== targetUser.costCenterId
+          ? await CostCenterService.validateCostCenters(user.companyId, [
+              costCenterId,
+            ])
+          : null);
+
+      if (assignmentError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: assignmentError.error?.code || "VALIDATION_ERROR",
+              message: assignmentError.error?.message,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
       // Update the user
       const updatedUser = await prisma.user.update({
         where: {
@@ -351,6 +394,8 @@ export const PUT = withAuth(
           ...(name && { name }),
           ...(role && { role }),
           ...(managerId !== undefined && { managerId }),
+          ...(departmentId !== undefined && { departmentId }),
+          ...(costCenterId !== undefined && { costCenterId }),
         },
         select: {
           id: true,
@@ -358,6 +403,8 @@ export const PUT = withAuth(
           name: true,
           role: true,
           managerId: true,
+          departmentId: true,
+          costCenterId: true,
           updatedAt: true,
           manager: {
             select: {
@@ -375,6 +422,23 @@ export const PUT = withAuth(
         },
       });
 
+      await EventBus.publish(
+        "user.updated",
+        user.companyId,
+        toUserEventData(updatedUser),
+        user.id
+      );
+
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "updated",
+        before: targetUser,
+        after: updatedUser,
+        fields: USER_AUDIT_FIELDS,
+      });
+
       return NextResponse.json(
         {
           success: true,
@@ -391,6 +455,8 @@ export const PUT = withAuth(
                   email: updatedUser.manager.email,
                 }
               : null,
+            departmentId: updatedUser.departmentId,
+            costCenterId: updatedUser.costCenterId,
             stats: {
               totalExpenses: updatedUser._count.submittedExpenses,
               subordinates: updatedUser._count.subordinates,
@@ -415,14 +481,14 @@ export const PUT = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["user:manage"]
 );
 
 /**
- * Delete/Deactivate User (Admin only)
+ * Delete/Deactivate User (user:manage)
  * DELETE /api/users/[id]
  */
-export const DELETE = withAuth(
+export const DELETE = withPermission(
   async (
     request: NextRequest,
     context?: { params?: Record<string, string> }
@@ -444,20 +510,6 @@ export const DELETE = withAuth(
         );
       }
 
-      // Check authorization - only ADMINs can delete users
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can delete users",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
       // Prevent self-deletion
       if (userId === user.id) {
         return NextResponse.json(
@@ -501,6 +553,21 @@ export const DELETE = withAuth(
         );
       }
 
+      // Only admins can remove admins and managers
+      const roleValidation = validateRoleHierarchy(user.role, targetUser.role);
+      if (!roleValidation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "AUTHORIZATION_ERROR",
+              message: roleValidation.error,
+            },
+          },
+          { status: 403 }
+        );
+      }
+
       // Check if user has subordinates that need reassignment
       if (targetUser._count.subordinates > 0) {
         return NextResponse.json(
@@ -540,6 +607,23 @@ export const DELETE = withAuth(
         },
       });
 
+      await EventBus.publish(
+        "user.deleted",
+        user.companyId,
+        toUserEventData(targetUser),
+        user.id
+      );
+
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "deleted",
+        before: targetUser,
+        after: null,
+        fields: USER_AUDIT_FIELDS,
+      });
+
       return NextResponse.json(
         {
           success: true,
@@ -564,5 +648,5 @@ export const DELETE = withAuth(
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["user:manage"]
 );
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { TwoFactorService } from "@/services/two-factor.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+  permissions: string[];
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+const ERROR_STATUS: Record<string, number> = {
+  USER_NOT_FOUND: 404,
+  TWO_FACTOR_NOT_ENABLED: 409,
+};
+
+/**
+ * Reset User's Two-Factor Authentication (Admin only)
+ * DELETE /api/users/[id]/two-factor
+ *
+ * For a user who lost their authenticator and recovery codes. Recorded in
+ * the audit trail; if the company requires two-factor authentication for
+ * the user's role they set it up again at their next sign-in.
+ */
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ) => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const userId = context?.params?.id;
+
+      if (!userId) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_REQUEST",
+              message: "User ID is required",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await TwoFactorService.resetForUser(
+        user.companyId,
+        userId,
+        user.id
+      );
+
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = ERROR_STATUS[code] || 500;
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message:
+                result.error?.message ||
+                "Failed to reset two-factor authentication",
+            },
+          },
+          { status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Two-factor authentication reset",
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: "Failed to reset two-factor authentication",
+          },
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
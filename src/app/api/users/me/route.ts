@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { withAuth } from "@/middleware/auth";
+import { EventBus } from "@/services/event-bus.service";
+import { toUserEventData } from "@/lib/webhooks";
 import {
   updateProfileSchema,
   validateUserInput,
@@ -166,10 +168,18 @@ export const PUT = withAuth(async (request: NextRequest) => {
         email: true,
         name: true,
         role: true,
+        managerId: true,
         updatedAt: true,
       },
     });
 
+    await EventBus.publish(
+      "user.updated",
+      user.companyId,
+      toUserEventData(updatedUser),
+      user.id
+    );
+
     return NextResponse.json(
       {
         success: true,
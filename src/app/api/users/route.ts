@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { withAuth } from "@/middleware/auth";
+import { withPermission } from "@/middleware/auth";
 import {
   usersQuerySchema,
   createUserSchema,
   validateUserInput,
-  validateManagerAssignment,
 } from "@/lib/validations/users";
-import { hashPassword } from "@/lib/password";
-import crypto from "crypto";
+import { InvitationService } from "@/services/invitation.service";
 
 // Define user type for TypeScript
 interface AuthenticatedUser {
@@ -23,28 +21,26 @@ interface AuthenticatedRequest extends NextRequest {
   user: AuthenticatedUser;
 }
 
+const INVITATION_ERROR_STATUS: Record<string, number> = {
+  BUSINESS_RULE_VIOLATION: 400,
+  MANAGER_NOT_FOUND: 400,
+  DEPARTMENT_NOT_FOUND: 400,
+  DEPARTMENT_INACTIVE: 400,
+  COST_CENTER_NOT_FOUND: 400,
+  USER_EXISTS: 409,
+  INVITATION_EXISTS: 409,
+  ROLE_NOT_ALLOWED: 403,
+};
+
 /**
- * Get All Users (Admin/Manager only)
- * GET /api/users?page=1&limit=20&role=EMPLOYEE&search=john
+ * Get All Users (user:read)
+ * GET /api/users?page=1&limit=20&role=EMPLOYEE&departmentId=...&search=john
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest) => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Check authorization - only ADMINs and MANAGERs can list users
-      if (user.role !== "ADMIN" && user.role !== "MANAGER") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins and managers can list users",
-            },
-          },
-          { status: 403 }
-        );
-      }
 
       // Parse and validate query parameters
       const searchParams = Object.fromEntries(
@@ -66,7 +62,8 @@ export const GET = withAuth(
         );
       }
 
-      const { page, limit, role, search, sortBy, sortOrder } = validation.data!;
+      const { page, limit, role, departmentId, search, sortBy, sortOrder } =
+        validation.data!;
       const offset = (page - 1) * limit;
 
       // Build where conditions
@@ -79,6 +76,11 @@ export const GET = withAuth(
         whereConditions.role = role;
       }
 
+      // Department filter
+      if (departmentId) {
+        whereConditions.departmentId = departmentId;
+      }
+
       // Search filter (name or email)
       if (search) {
         whereConditions.OR = [
@@ -113,6 +115,7 @@ export const GET = withAuth(
             name: true,
             role: true,
             managerId: true,
+            twoFactorEnabledAt: true,
             createdAt: true,
             updatedAt: true,
             manager: {
@@ -122,6 +125,25 @@ export const GET = withAuth(
                 email: true,
               },
             },
+            department: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            costCenter: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
+            roleAssignments: {
+              select: {
+                role: { select: { id: true, name: true } },
+              },
+              orderBy: { assignedAt: "asc" },
+            },
             _count: {
               select: {
                 submittedExpenses: true,
@@ -157,6 +179,12 @@ export const GET = withAuth(
                     email: user.manager.email,
                   }
                 : null,
+              department: user.department,
+              costCenter: user.costCenter,
+              customRoles: user.roleAssignments.map(
+                (assignment) => assignment.role
+              ),
+              twoFactorEnabled: !!user.twoFactorEnabledAt,
               stats: {
                 totalExpenses: user._count.submittedExpenses,
                 subordinates: user._count.subordinates,
@@ -189,32 +217,22 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ["ADMIN", "MANAGER"] }
+  ["user:read"]
 );
 
 /**
- * Create User (Admin only)
+ * Invite User (user:manage)
  * POST /api/users
+ *
+ * Users join through an invitation: the invitee is emailed a single-use
+ * link to set their own password, and the account is created when they
+ * accept. Same as POST /api/invitations.
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (request: NextRequest) => {
     try {
       const user = (request as AuthenticatedRequest).user;
 
-      // Check authorization - only ADMINs can create users
-      if (user.role !== "ADMIN") {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "AUTHORIZATION_ERROR",
-              message: "Only admins can create users",
-            },
-          },
-          { status: 403 }
-        );
-      }
-
       const body = await request.json();
 
       // Validate input
@@ -233,152 +251,50 @@ export const POST = withAuth(
         );
       }
 
-      const { email, name, role, managerId } = validation.data!;
-
-      // Validate manager assignment business rules
-      const managerValidation = validateManagerAssignment(role, managerId);
-      if (!managerValidation.success) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: "BUSINESS_RULE_VIOLATION",
-              message: managerValidation.error,
-            },
-          },
-          { status: 400 }
-        );
-      }
+      const result = await InvitationService.createInvitation(
+        user.companyId,
+        user.id,
+        validation.data!
+      );
 
-      // Check if email already exists
-      const existingUser = await prisma.user.findUnique({
-        where: { email },
-      });
+      if (!result.success) {
+        const code = result.error?.code || "";
+        const status = INVITATION_ERROR_STATUS[code] || 500;
 
-      if (existingUser) {
         return NextResponse.json(
           {
             success: false,
             error: {
-              code: "USER_EXISTS",
-              message: "A user with this email already exists",
+              code: status === 500 ? "INTERNAL_ERROR" : code,
+              message: result.error?.message || "Failed to invite user",
             },
           },
-          { status: 409 }
+          { status }
         );
       }
 
-      // Validate manager exists and belongs to same company
-      if (managerId) {
-        const manager = await prisma.user.findFirst({
-          where: {
-            id: managerId,
-            companyId: user.companyId,
-            role: { in: ["ADMIN", "MANAGER"] },
-          },
-        });
-
-        if (!manager) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: {
-                code: "MANAGER_NOT_FOUND",
-                message: "Manager not found or invalid",
-              },
-            },
-            { status: 400 }
-          );
-        }
-      }
-
-      // Generate temporary password
-      const temporaryPassword = crypto.randomBytes(8).toString("hex");
-      const hashedPassword = await hashPassword(temporaryPassword);
-
-      // Create the user
-      const newUser = await prisma.user.create({
-        data: {
-          email,
-          name,
-          password: hashedPassword,
-          role,
-          companyId: user.companyId,
-          managerId,
-        },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          role: true,
-          managerId: true,
-          createdAt: true,
-          manager: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-        },
-      });
-
-      // TODO: Send invitation email with temporary password
-      // This would be implemented with the email service
-
       return NextResponse.json(
         {
           success: true,
-          data: {
-            id: newUser.id,
-            email: newUser.email,
-            name: newUser.name,
-            role: newUser.role,
-            managerId: newUser.managerId,
-            manager: newUser.manager
-              ? {
-                  id: newUser.manager.id,
-                  name: newUser.manager.name,
-                  email: newUser.manager.email,
-                }
-              : null,
-            temporaryPassword,
-            createdAt: newUser.createdAt,
-          },
-          message: "User created successfully. Invitation details provided.",
+          data: result.data,
+          message: "Invitation sent. The user is created once they accept.",
         },
         { status: 201 }
       );
     } catch (error) {
       console.error("Create user error:", error);
 
-      // Handle specific Prisma errors
-      if (error instanceof Error) {
-        if (error.message.includes("Unique constraint")) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: {
-                code: "USER_EXISTS",
-                message: "A user with this email already exists",
-              },
-            },
-            { status: 409 }
-          );
-        }
-      }
-
       return NextResponse.json(
         {
           success: false,
           error: {
             code: "INTERNAL_ERROR",
-            message: "Failed to create user",
+            message: "Failed to invite user",
           },
         },
         { status: 500 }
       );
     }
   },
-  { roles: ["ADMIN"] }
+  ["user:manage"]
 );
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  WebhookService,
+  type WebhookDeliveryPublic,
+} from "@/services/webhook.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface ReplayDeliveryResponse {
+  delivery: WebhookDeliveryPublic;
+}
+
+/**
+ * POST /api/webhooks/:id/deliveries/:deliveryId/replay
+ * Send a past delivery's payload again as a new delivery (Admin only).
+ * The replay keeps the original event ID so receivers can deduplicate.
+ */
+export const POST = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<ReplayDeliveryResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const webhookId = context?.params?.id;
+      const deliveryId = context?.params?.deliveryId;
+
+      if (!webhookId || !deliveryId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Webhook ID and delivery ID are required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await WebhookService.replayDelivery(
+        deliveryId,
+        webhookId,
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        switch (result.error?.code) {
+          case "DELIVERY_NOT_FOUND":
+            return NextResponse.json(
+              {
+                success: false,
+                message: result.error.message,
+                error: "NOT_FOUND",
+              },
+              { status: 404 }
+            );
+          case "WEBHOOK_DISABLED":
+            return NextResponse.json(
+              {
+                success: false,
+                message: result.error.message,
+                error: "CONFLICT",
+              },
+              { status: 409 }
+            );
+          default:
+            return NextResponse.json(
+              {
+                success: false,
+                message: result.error?.message || "Failed to replay delivery",
+                error: "SERVICE_ERROR",
+              },
+              { status: 500 }
+            );
+        }
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Delivery queued for replay",
+          data: {
+            delivery: result.data,
+          },
+        },
+        { status: 202 }
+      );
+    } catch (error) {
+      console.error("Error replaying webhook delivery:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to replay delivery",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  validateWebhookInput,
+  webhookDeliveriesQuerySchema,
+} from "@/lib/validations/webhooks";
+import {
+  WebhookService,
+  type WebhookDeliveryPublic,
+} from "@/services/webhook.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface WebhookDeliveriesResponse {
+  deliveries: WebhookDeliveryPublic[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
+
+/**
+ * GET /api/webhooks/:id/deliveries?page=1&limit=20&status=FAILED
+ * Delivery log for a webhook, newest first (Admin only)
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<WebhookDeliveriesResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const webhookId = context?.params?.id;
+
+      if (!webhookId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Webhook ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      // Parse and validate query parameters
+      const searchParams = Object.fromEntries(
+        request.nextUrl.searchParams.entries()
+      );
+      const validation = validateWebhookInput(
+        webhookDeliveriesQuerySchema,
+        searchParams
+      );
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid query parameters",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const { page, limit, status } = validation.data!;
+
+      const result = await WebhookService.getDeliveries(
+        webhookId,
+        user.companyId,
+        { page, limit, status }
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "WEBHOOK_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message:
+              result.error?.message || "Failed to retrieve webhook deliveries",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      const totalPages = Math.ceil(result.data.total / limit);
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhook deliveries retrieved successfully",
+          data: {
+            deliveries: result.data.deliveries,
+            pagination: {
+              total: result.data.total,
+              page,
+              limit,
+              totalPages,
+              hasNext: page < totalPages,
+              hasPrevious: page > 1,
+            },
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch webhook deliveries",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
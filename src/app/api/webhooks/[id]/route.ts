@@ -1,33 +1,248 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  updateWebhookSchema,
+  validateWebhookInput,
+  type UpdateWebhookInput,
+} from "@/lib/validations/webhooks";
+import { WebhookService, type WebhookPublic } from "@/services/webhook.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface WebhookResponse {
+  webhook: WebhookPublic;
+}
+
+/**
+ * Get Webhook (Admin only)
+ * GET /api/webhooks/:id
+ */
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<WebhookResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const webhookId = context?.params?.id;
+
+      if (!webhookId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Webhook ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await WebhookService.getWebhookById(
+        webhookId,
+        user.companyId
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "WEBHOOK_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to retrieve webhook",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhook retrieved successfully",
+          data: {
+            webhook: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching webhook:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch webhook",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
+
+/**
+ * Update Webhook (Admin only)
+ * PATCH /api/webhooks/:id
+ * Set isActive: true to re-enable an automatically disabled webhook, or
+ * rotateSecret: true to issue a new signing secret
+ */
+export const PATCH = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<WebhookResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const webhookId = context?.params?.id;
+
+      if (!webhookId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Webhook ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateWebhookInput(updateWebhookSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const webhookData: UpdateWebhookInput = validation.data!;
+
+      const result = await WebhookService.updateWebhook(
+        webhookId,
+        user.companyId,
+        webhookData,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "WEBHOOK_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to update webhook",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhook updated successfully",
+          data: {
+            webhook: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to update webhook",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
 
 /**
  * Delete Webhook (Admin only)
  * DELETE /api/webhooks/:id
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-
-    // TODO: Implement delete webhook logic
-    // - Verify authentication
-    // - Check ADMIN role
-    // - Delete webhook from database
-    // - Return success message
-
-    return NextResponse.json(
-      {
-        message: "Delete webhook - To be implemented",
-        data: { id },
-      },
-      { status: 501 }
-    );
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to delete webhook" },
-      { status: 500 }
-    );
-  }
-}
+export const DELETE = withAuth(
+  async (
+    request: NextRequest,
+    context?: { params?: Record<string, string> }
+  ): Promise<NextResponse<ApiResponse<{ id: string }>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+      const webhookId = context?.params?.id;
+
+      if (!webhookId) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Webhook ID is required",
+            error: "VALIDATION_ERROR",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await WebhookService.deleteWebhook(
+        webhookId,
+        user.companyId,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        const notFound = result.error?.code === "WEBHOOK_NOT_FOUND";
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to delete webhook",
+            error: notFound ? "NOT_FOUND" : "SERVICE_ERROR",
+          },
+          { status: notFound ? 404 : 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhook deleted successfully",
+          data: result.data,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to delete webhook",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -1,31 +1,84 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/middleware/auth";
+import { ApiResponse } from "@/types/api";
+import {
+  createWebhookSchema,
+  validateWebhookInput,
+  type CreateWebhookInput,
+} from "@/lib/validations/webhooks";
+import { WebhookService, type WebhookPublic } from "@/services/webhook.service";
+
+// Define user type for TypeScript
+interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  companyId: string;
+}
+
+interface AuthenticatedRequest extends NextRequest {
+  user: AuthenticatedUser;
+}
+
+interface WebhooksResponse {
+  webhooks: WebhookPublic[];
+}
+
+interface WebhookResponse {
+  webhook: WebhookPublic;
+}
 
 /**
- * Get Webhooks
+ * Get Webhooks (Admin only)
  * GET /api/webhooks
+ * Secrets are masked
  */
-export async function GET(request: NextRequest) {
-  try {
-    // TODO: Implement get webhooks logic
-    // - Verify authentication
-    // - Check ADMIN role
-    // - Fetch webhooks for company
-    // - Return webhooks list
-
-    return NextResponse.json(
-      {
-        message: "Get webhooks - To be implemented",
-        data: [],
-      },
-      { status: 501 }
-    );
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to fetch webhooks" },
-      { status: 500 }
-    );
-  }
-}
+export const GET = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<WebhooksResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      const result = await WebhookService.getWebhooks(user.companyId);
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to retrieve webhooks",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhooks retrieved successfully",
+          data: {
+            webhooks: result.data,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to fetch webhooks",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
 
 /**
  * Create Webhook (Admin only)
@@ -33,35 +86,78 @@ export async function GET(request: NextRequest) {
  *
  * Request Body:
  * {
- *   url: string;
- *   events: string[]; // ['expense.submitted', 'expense.approved', etc.]
- *   secret: string;
+ *   url: string; // HTTPS
+ *   events: string[]; // ['expense.submitted', 'expense.approved', etc.] or ['*']
+ *   secret?: string; // generated when omitted
+ *   description?: string;
  * }
+ *
+ * The response is the only time the full secret is returned.
  */
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { url, events, secret } = body;
-
-    // TODO: Implement create webhook logic
-    // - Verify authentication
-    // - Check ADMIN role
-    // - Validate webhook URL
-    // - Validate events
-    // - Create webhook in database
-    // - Return created webhook
-
-    return NextResponse.json(
-      {
-        message: "Create webhook - To be implemented",
-        data: { url, events },
-      },
-      { status: 501 }
-    );
-  } catch (error) {
-    return NextResponse.json(
-      { error: "Failed to create webhook" },
-      { status: 500 }
-    );
-  }
-}
+export const POST = withAuth(
+  async (
+    request: NextRequest
+  ): Promise<NextResponse<ApiResponse<WebhookResponse>>> => {
+    try {
+      const user = (request as AuthenticatedRequest).user;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validation = validateWebhookInput(createWebhookSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid request body",
+            error: "VALIDATION_ERROR",
+            details: validation.errors,
+          },
+          { status: 400 }
+        );
+      }
+
+      const webhookData: CreateWebhookInput = validation.data!;
+
+      const result = await WebhookService.createWebhook(
+        user.companyId,
+        webhookData,
+        user.id
+      );
+
+      if (!result.success || !result.data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: result.error?.message || "Failed to create webhook",
+            error: "SERVICE_ERROR",
+          },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          message: "Webhook created successfully",
+          data: {
+            webhook: result.data,
+          },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Failed to create webhook",
+          error: "INTERNAL_SERVER_ERROR",
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { roles: ["ADMIN"] }
+);
@@ -36,6 +36,8 @@ import {
   X,
   Save,
   RefreshCw,
+  PiggyBank,
+  Briefcase,
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -43,6 +45,13 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn, formatDate, formatRelativeTime, getUserInitials } from "@/lib/utils";
 import { useState } from "react";
+import { BudgetUtilizationCard } from "@/components/dashboard/admin/budget-utilization-card";
+import { UnbilledExpensesCard } from "@/components/dashboard/admin/unbilled-expenses-card";
+import { TaxReportCard } from "@/components/dashboard/admin/tax-report-card";
+import { RoleEditorCard } from "@/components/dashboard/admin/role-editor-card";
+import { OnboardingChecklistCard } from "@/components/dashboard/admin/onboarding-checklist-card";
+import { InvitationsCard } from "@/components/dashboard/admin/invitations-card";
+import { TwoFactorCard } from "@/components/dashboard/admin/two-factor-card";
 
 // Mock data
 const mockUser = {
@@ -200,8 +209,10 @@ export default function AdminDashboardPage() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <OnboardingChecklistCard onNavigate={setActiveTab} />
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-8">
+          <TabsList className="grid w-full grid-cols-4 mb-8">
             <TabsTrigger value="users" className="flex items-center space-x-2">
               <Users className="h-4 w-4" />
               <span>User Management</span>
@@ -210,9 +221,17 @@ export default function AdminDashboardPage() {
               <Settings className="h-4 w-4" />
               <span>Approval Rules</span>
             </TabsTrigger>
+            <TabsTrigger value="budgets" className="flex items-center space-x-2">
+              <PiggyBank className="h-4 w-4" />
+              <span>Budgets</span>
+            </TabsTrigger>
+            <TabsTrigger value="billing" className="flex items-center space-x-2">
+              <Briefcase className="h-4 w-4" />
+              <span>Billing &amp; Tax</span>
+            </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="users">
+          <TabsContent value="users" className="space-y-6">
             <UserManagementSection 
               users={filteredUsers}
               searchQuery={searchQuery}
@@ -223,6 +242,9 @@ export default function AdminDashboardPage() {
               setIsAddingUser={setIsAddingUser}
               currentUserId={mockUser.id}
             />
+            <InvitationsCard />
+            <RoleEditorCard />
+            <TwoFactorCard />
           </TabsContent>
 
           <TabsContent value="rules">
@@ -234,6 +256,15 @@ export default function AdminDashboardPage() {
               setIsCreatingRule={setIsCreatingRule}
             />
           </TabsContent>
+
+          <TabsContent value="budgets">
+            <BudgetUtilizationCard />
+          </TabsContent>
+
+          <TabsContent value="billing" className="space-y-6">
+            <UnbilledExpensesCard />
+            <TaxReportCard />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -36,6 +36,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn, formatCurrency, formatDate, formatRelativeTime, getUserInitials } from "@/lib/utils";
 import { useState, useEffect } from "react";
 import { ExpenseSubmitModal } from "@/components/employee/expense-submit-modal";
+import { ExpenseReportsPanel } from "@/components/dashboard/employee/expense-reports-panel";
+import { AdvancesPanel } from "@/components/dashboard/employee/advances-panel";
+import { ExpenseDetailDialog } from "@/components/shared/expense-detail-dialog";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 // Mock data
@@ -487,6 +490,16 @@ export default function EmployeeDashboardPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Expense Reports */}
+        <div className="mt-8">
+          <ExpenseReportsPanel />
+        </div>
+
+        {/* Cash Advances */}
+        <div className="mt-8">
+          <AdvancesPanel />
+        </div>
       </main>
 
       {/* Expense Submit Modal */}
@@ -669,6 +682,11 @@ function ExpenseTableRow({ expense }: { expense: any }) {
             )}
           </DropdownMenuContent>
         </DropdownMenu>
+        <ExpenseDetailDialog
+          expense={expense}
+          open={isViewModalOpen}
+          onOpenChange={setIsViewModalOpen}
+        />
       </TableCell>
     </TableRow>
   );
@@ -29,6 +29,7 @@ import {
   MessageSquare,
   Info,
   Forward,
+  AlertTriangle,
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -80,6 +81,13 @@ const mockPendingExpenses = [
     createdAt: new Date("2024-01-14"),
     submitter: { id: "4", name: "Jane Smith", role: "Employee", avatar: undefined, initials: "JS" },
     priority: "urgent",
+    policyViolations: [
+      {
+        policyName: "Travel monthly cap",
+        severity: "WARN",
+        message: "Monthly spending in this category would be 1450.00 USD, over the 1000.00 USD limit",
+      },
+    ],
   },
 ];
 
@@ -621,6 +629,22 @@ function ApprovalTableRow({
               {expense.remarks}
             </div>
           )}
+          {expense.policyViolations?.map((
+            violation: { policyName: string; severity: string; message: string },
+            index: number
+          ) => (
+            <div
+              key={`${violation.policyName}-${index}`}
+              className={cn(
+                "flex items-start gap-1 text-xs mt-1",
+                violation.severity === "BLOCK" ? "text-red-700" : "text-orange-700"
+              )}
+              title={violation.policyName}
+            >
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              <span className="line-clamp-2">{violation.message}</span>
+            </div>
+          ))}
         </div>
       </TableCell>
 
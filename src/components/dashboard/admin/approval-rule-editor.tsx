@@ -6,28 +6,185 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Copy, Trash, UserPlus, X } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Eye, Plus, Star, Trash, UserPlus, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import type {
+  ApprovalRuleCondition,
+  ApprovalRuleConditionGroup,
+} from "@/lib/approval-rules";
 
-// (Interfaces remain the same)
 export interface ApprovalRule {
   id: string; name: string; description: string;
-  approvers: { id: string; name: string }[]; isManagerApprovalRequired: boolean;
+  approvers: { id: string; name: string; isRequired?: boolean }[]; isManagerApprovalRequired: boolean;
+  managerApprovalLevels?: number;
+  minApprovalPercentage?: number | null;
+  quorumMode?: "ALL" | "ANY";
+  priority: number; stopOnMatch: boolean; conditions: ApprovalRuleConditionGroup | null;
+}
+export interface ApprovalRulePreview {
+  evaluated: number;
+  matched: { id: string; description: string; amount: number; currency: string; submitterName: string }[];
 }
 interface ApprovalRuleEditorProps {
   rule: ApprovalRule;
+  categories?: { id: string; name: string }[];
+  departments?: { id: string; name: string }[];
   onSave: (updatedRule: ApprovalRule) => void;
+  onPreview?: (conditions: ApprovalRuleConditionGroup | null) => Promise<ApprovalRulePreview>;
+}
+
+const ROLE_OPTIONS = ["ADMIN", "MANAGER", "EMPLOYEE"];
+const EMPTY_GROUP: ApprovalRuleConditionGroup = { operator: "AND", conditions: [] };
+
+const defaultCondition = (field: ApprovalRuleCondition["field"]): ApprovalRuleCondition =>
+  field === "amount"
+    ? { field: "amount", operator: "gte", value: 0 }
+    : { field, operator: "in", value: [] };
+
+interface ConditionGroupEditorProps {
+  group: ApprovalRuleConditionGroup;
+  categories: { id: string; name: string }[];
+  departments: { id: string; name: string }[];
+  onChange: (group: ApprovalRuleConditionGroup) => void;
+  onRemove?: () => void;
 }
 
-export function ApprovalRuleEditor({ rule, onSave }: ApprovalRuleEditorProps) {
+// Recursive editor for an AND/OR group of conditions
+function ConditionGroupEditor({ group, categories, departments, onChange, onRemove }: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: ApprovalRuleCondition | ApprovalRuleConditionGroup) =>
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  const removeChild = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  const toggleValue = (index: number, condition: ApprovalRuleCondition, value: string) => {
+    if (condition.field === "amount") return;
+    const values = condition.value.includes(value)
+      ? condition.value.filter(v => v !== value)
+      : [...condition.value, value];
+    updateChild(index, { ...condition, value: values });
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-secondary/30">
+      <div className="flex items-center justify-between">
+        <Select value={group.operator} onValueChange={(operator: "AND" | "OR") => onChange({ ...group, operator })}>
+          <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">Match all (AND)</SelectItem>
+            <SelectItem value="OR">Match any (OR)</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onRemove}><X className="h-4 w-4" /></Button>
+        )}
+      </div>
+
+      {group.conditions.length === 0 && (
+        <p className="text-sm text-muted-foreground">No conditions: this rule applies to every expense.</p>
+      )}
+
+      {group.conditions.map((child, index) => {
+        if ("conditions" in child) {
+          return (
+            <ConditionGroupEditor key={index} group={child} categories={categories} departments={departments}
+              onChange={g => updateChild(index, g)} onRemove={() => removeChild(index)} />
+          );
+        }
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-md bg-background">
+            <Select value={child.field} onValueChange={(field: ApprovalRuleCondition["field"]) => updateChild(index, defaultCondition(field))}>
+              <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="amount">Amount (base currency)</SelectItem>
+                <SelectItem value="category">Category</SelectItem>
+                <SelectItem value="submitterRole">Submitter role</SelectItem>
+                <SelectItem value="currency">Currency</SelectItem>
+                <SelectItem value="department">Department</SelectItem>
+              </SelectContent>
+            </Select>
+            {child.field === "amount" ? (
+              <>
+                <Select value={child.operator} onValueChange={(operator: typeof child.operator) => updateChild(index, { ...child, operator })}>
+                  <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="gt">&gt;</SelectItem>
+                    <SelectItem value="gte">&ge;</SelectItem>
+                    <SelectItem value="lt">&lt;</SelectItem>
+                    <SelectItem value="lte">&le;</SelectItem>
+                    <SelectItem value="between">between</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input type="number" min={0} className="w-[120px]" value={child.value}
+                  onChange={e => updateChild(index, { ...child, value: Number(e.target.value) })} />
+                {child.operator === "between" && (
+                  <Input type="number" min={0} className="w-[120px]" value={child.valueTo ?? ""}
+                    onChange={e => updateChild(index, { ...child, valueTo: Number(e.target.value) })} />
+                )}
+              </>
+            ) : (
+              <>
+                <Select value={child.operator} onValueChange={(operator: "in" | "notIn") => updateChild(index, { ...child, operator })}>
+                  <SelectTrigger className="w-[120px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="in">is any of</SelectItem>
+                    <SelectItem value="notIn">is none of</SelectItem>
+                  </SelectContent>
+                </Select>
+                {child.field === "currency" ? (
+                  <Input className="w-[200px]" placeholder="USD, EUR" value={child.value.join(", ")}
+                    onChange={e => updateChild(index, { ...child, value: e.target.value.split(",").map(v => v.trim().toUpperCase()).filter(Boolean) })} />
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {(child.field === "category" ? categories : child.field === "department" ? departments : ROLE_OPTIONS.map(r => ({ id: r, name: r }))).map(option => (
+                      <Badge key={option.id} variant={child.value.includes(option.id) ? "default" : "outline"}
+                        className="cursor-pointer" onClick={() => toggleValue(index, child, option.id)}>
+                        {option.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7 ml-auto" onClick={() => removeChild(index)}><X className="h-4 w-4" /></Button>
+          </div>
+        );
+      })}
+
+      <div className="flex space-x-2">
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultCondition("amount")] })}>
+          <Plus className="h-4 w-4 mr-2" />Condition
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...group, conditions: [...group.conditions, { operator: "OR", conditions: [] }] })}>
+          <Plus className="h-4 w-4 mr-2" />Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ApprovalRuleEditor({ rule, categories = [], departments = [], onSave, onPreview }: ApprovalRuleEditorProps) {
   // Make the component interactive with state
   const [editedRule, setEditedRule] = useState(rule);
+  const [preview, setPreview] = useState<ApprovalRulePreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   // Update the form when a new rule is selected from the list
   useEffect(() => {
     setEditedRule(rule);
+    setPreview(null);
   }, [rule]);
 
+  const handlePreview = async () => {
+    if (!onPreview) return;
+    setIsPreviewing(true);
+    try {
+      setPreview(await onPreview(editedRule.conditions));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { id, value } = e.target;
     setEditedRule(prev => ({ ...prev, [id]: value }));
@@ -37,6 +194,13 @@ export function ApprovalRuleEditor({ rule, onSave }: ApprovalRuleEditorProps) {
     setEditedRule(prev => ({ ...prev, isManagerApprovalRequired: checked }));
   };
 
+  const toggleRequired = (approverId: string) => {
+    setEditedRule(prev => ({
+      ...prev,
+      approvers: prev.approvers.map(a => (a.id === approverId ? { ...a, isRequired: !a.isRequired } : a)),
+    }));
+  };
+
   return (
     <Card className="shadow-md">
       <CardHeader>
@@ -64,11 +228,79 @@ export function ApprovalRuleEditor({ rule, onSave }: ApprovalRuleEditorProps) {
           <Label htmlFor="description">Description</Label>
           <Input id="description" value={editedRule.description} onChange={handleInputChange} placeholder="A brief description of this rule..." />
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="priority">Priority</Label>
+            <Input id="priority" type="number" min={0} value={editedRule.priority}
+              onChange={e => setEditedRule(prev => ({ ...prev, priority: Number(e.target.value) }))} />
+          </div>
+          <div className="flex items-center space-x-2 pt-6">
+            <Checkbox id="stopOnMatch" checked={editedRule.stopOnMatch}
+              onCheckedChange={checked => setEditedRule(prev => ({ ...prev, stopOnMatch: checked === true }))} />
+            <Label htmlFor="stopOnMatch">Stop evaluating lower-priority rules when matched</Label>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Conditions</Label>
+            {onPreview && (
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={isPreviewing}>
+                <Eye className="h-4 w-4 mr-2" />{isPreviewing ? "Previewing..." : "Preview last month"}
+              </Button>
+            )}
+          </div>
+          <ConditionGroupEditor
+            group={editedRule.conditions ?? EMPTY_GROUP}
+            categories={categories}
+            departments={departments}
+            onChange={conditions => setEditedRule(prev => ({ ...prev, conditions }))}
+          />
+          {preview && (
+            <div className="p-3 border rounded-lg text-sm space-y-1">
+              <p className="font-medium">
+                Would have matched {preview.matched.length} of {preview.evaluated} expenses
+              </p>
+              {preview.matched.slice(0, 10).map(expense => (
+                <div key={expense.id} className="flex justify-between text-muted-foreground">
+                  <span>{expense.submitterName}: {expense.description}</span>
+                  <span>{expense.currency} {expense.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
         <div className="flex items-center space-x-2 p-4 border rounded-lg bg-secondary/50">
           <Checkbox id="managerApproval" checked={editedRule.isManagerApprovalRequired} onCheckedChange={handleCheckboxChange} />
           <Label htmlFor="managerApproval" className="font-medium">Require manager approval first</Label>
+          {editedRule.isManagerApprovalRequired && (
+            <div className="flex items-center space-x-2 ml-auto">
+              <Label htmlFor="managerApprovalLevels" className="text-sm">Levels up</Label>
+              <Input id="managerApprovalLevels" type="number" min={1} max={5} className="w-20"
+                value={editedRule.managerApprovalLevels ?? 1}
+                onChange={e => setEditedRule(prev => ({ ...prev, managerApprovalLevels: Number(e.target.value) }))} />
+            </div>
+          )}
         </div>
         <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="minApprovalPercentage">Minimum approval percentage</Label>
+              <Input id="minApprovalPercentage" type="number" min={1} max={100} value={editedRule.minApprovalPercentage ?? 100}
+                onChange={e => setEditedRule(prev => ({ ...prev, minApprovalPercentage: Number(e.target.value) }))} />
+            </div>
+            <div className="space-y-2 pt-6">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="quorumMode" checked={editedRule.quorumMode === "ANY"}
+                  onCheckedChange={checked => setEditedRule(prev => ({ ...prev, quorumMode: checked === true ? "ANY" : "ALL" }))} />
+                <Label htmlFor="quorumMode">A starred approver can approve alone</Label>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {editedRule.quorumMode === "ANY"
+                  ? "The rule passes once any starred approver approves or the percentage is met."
+                  : "Starred approvers must always approve; the rule passes once they have and the percentage is met."}
+              </p>
+            </div>
+          </div>
           <div className="flex items-center justify-between">
              <Label>Additional Approvers</Label>
              <Button variant="outline" size="sm"><UserPlus className="h-4 w-4 mr-2" />Add</Button>
@@ -78,6 +310,10 @@ export function ApprovalRuleEditor({ rule, onSave }: ApprovalRuleEditorProps) {
             {editedRule.approvers.length > 0 ? (
               editedRule.approvers.map(a => (
                 <Badge key={a.id} variant="secondary" className="text-base py-1">
+                  <Button variant="ghost" size="icon" className="h-5 w-5 mr-1" title="Toggle required approver"
+                    onClick={() => toggleRequired(a.id)}>
+                    <Star className={`h-3 w-3 ${a.isRequired ? "fill-current text-amber-500" : ""}`} />
+                  </Button>
                   {a.name}
                   <Button variant="ghost" size="icon" className="h-5 w-5 ml-1"><X className="h-3 w-3"/></Button>
                 </Badge>
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, PiggyBank, RefreshCw } from "lucide-react";
+import { cn, formatCurrency } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+import type { BudgetUtilization } from "@/services/category.service";
+
+interface BudgetUtilizationData {
+  currency: string;
+  budgets: BudgetUtilization[];
+}
+
+const STATE_STYLES: Record<BudgetUtilization["state"], { bar: string; badge: string; label: string }> = {
+  ok: { bar: "[&>div]:bg-green-500", badge: "bg-green-100 text-green-800 border-green-200", label: "On track" },
+  warning: { bar: "[&>div]:bg-amber-500", badge: "bg-amber-100 text-amber-800 border-amber-200", label: "Over 80%" },
+  exceeded: { bar: "[&>div]:bg-red-500", badge: "bg-red-100 text-red-800 border-red-200", label: "Exceeded" },
+};
+
+export function BudgetUtilizationCard() {
+  const [data, setData] = useState<BudgetUtilizationData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadBudgets = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const token = AuthService.getToken();
+      const response = await fetch("/api/categories/budgets", {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const result = await response.json();
+      if (result.success) {
+        setData(result.data);
+      } else {
+        setError(result.error?.message || "Failed to load budgets");
+      }
+    } catch {
+      setError("Failed to load budgets");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBudgets();
+  }, []);
+
+  const alerts = data?.budgets.filter((budget) => budget.state !== "ok").length ?? 0;
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <PiggyBank className="h-5 w-5 text-blue-600" />
+              Budget Utilization
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Approved and pending spending against category budgets, including subcategories
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {alerts > 0 && (
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {alerts} need attention
+              </Badge>
+            )}
+            <Button variant="ghost" size="sm" onClick={loadBudgets} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-5">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !isLoading && data?.budgets.length === 0 && (
+          <p className="text-sm text-gray-500">No category budgets are set.</p>
+        )}
+        {data?.budgets.map((budget) => {
+          const style = STATE_STYLES[budget.state];
+          const percent = Math.round(budget.utilization * 100);
+          return (
+            <div key={budget.budgetId} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 truncate">
+                    {budget.path.join(" / ")}
+                    {budget.departmentName && <span className="font-normal text-gray-500"> · {budget.departmentName}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {budget.period === "MONTHLY" ? "Monthly" : "Annual"} budget ·{" "}
+                    {formatCurrency(budget.spent, data.currency)} of {formatCurrency(budget.amount, data.currency)}
+                    {budget.pending > 0 && ` (${formatCurrency(budget.pending, data.currency)} pending)`}
+                  </p>
+                </div>
+                <Badge variant="outline" className={cn("shrink-0", style.badge)}>
+                  {percent}% · {style.label}
+                </Badge>
+              </div>
+              <Progress value={Math.min(percent, 100)} className={cn("h-2", style.bar)} />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default BudgetUtilizationCard;
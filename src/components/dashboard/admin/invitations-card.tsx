@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mail, RefreshCw, Send, Upload, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+type Role = "ADMIN" | "MANAGER" | "EMPLOYEE";
+type InvitationState = "PENDING" | "EXPIRED" | "ACCEPTED" | "REVOKED";
+
+interface Invitation {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  status: InvitationState;
+  expiresAt: string;
+  sentCount: number;
+  manager: { id: string; name: string; email: string; invited: boolean } | null;
+}
+
+interface ManagerOption {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  invited: number;
+  rows: {
+    row: number;
+    email: string;
+    name: string;
+    status: "valid" | "invalid" | "invited";
+    errors: string[];
+  }[];
+}
+
+interface InviteForm {
+  email: string;
+  name: string;
+  role: Role;
+  managerId: string;
+}
+
+const EMPTY_FORM: InviteForm = { email: "", name: "", role: "EMPLOYEE", managerId: "" };
+
+const STATUS_STYLES: Record<InvitationState, string> = {
+  PENDING: "bg-blue-50 text-blue-700 border-blue-200",
+  EXPIRED: "bg-amber-50 text-amber-700 border-amber-200",
+  ACCEPTED: "bg-green-50 text-green-700 border-green-200",
+  REVOKED: "bg-gray-50 text-gray-500 border-gray-200",
+};
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return Array.isArray(result.error?.details) && result.error.details.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+/**
+ * Invite users one at a time or from a CSV file, and follow up on
+ * outstanding invitations
+ */
+export function InvitationsCard() {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [managers, setManagers] = useState<ManagerOption[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<InviteForm | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+
+  const loadInvitations = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [invitationsResponse, usersResponse] = await Promise.all([
+        fetch("/api/invitations?limit=100", { headers: authHeaders() }),
+        fetch("/api/users?limit=100", { headers: authHeaders() }),
+      ]);
+      const [invitationsResult, usersResult] = await Promise.all([
+        invitationsResponse.json(),
+        usersResponse.json(),
+      ]);
+      if (invitationsResult.success) {
+        setInvitations(invitationsResult.data.invitations);
+      } else {
+        setError(errorMessage(invitationsResult, "Failed to load invitations"));
+      }
+      if (usersResult.success) {
+        setManagers(
+          (usersResult.data.users as ManagerOption[]).filter((user) => user.role !== "EMPLOYEE")
+        );
+      }
+    } catch {
+      setError("Failed to load invitations");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  const sendInvitation = async () => {
+    if (!form) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch("/api/invitations", {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({
+          email: form.email,
+          name: form.name,
+          role: form.role,
+          managerId: form.role === "ADMIN" ? undefined : form.managerId || undefined,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to send the invitation"));
+        return;
+      }
+      setForm(null);
+      setNotice(`Invitation sent to ${result.data.email}`);
+      await loadInvitations();
+    } catch {
+      setError("Failed to send the invitation");
+    }
+  };
+
+  const updateInvitation = async (invitation: Invitation, action: "resend" | "revoke") => {
+    if (action === "revoke" && !confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(
+        action === "resend" ? `/api/invitations/${invitation.id}/resend` : `/api/invitations/${invitation.id}`,
+        { method: action === "resend" ? "POST" : "DELETE", headers: authHeaders() }
+      );
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, `Failed to ${action} the invitation`));
+        return;
+      }
+      setNotice(action === "resend" ? `Invitation resent to ${invitation.email}` : "Invitation revoked");
+      await loadInvitations();
+    } catch {
+      setError(`Failed to ${action} the invitation`);
+    }
+  };
+
+  const importUsers = async () => {
+    if (!importFile) return;
+    setIsImporting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", importFile);
+      formData.append("dryRun", String(dryRun));
+
+      const token = AuthService.getToken();
+      const response = await fetch("/api/invitations/import", {
+        method: "POST",
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        body: formData,
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to import users"));
+        return;
+      }
+      setImportResult(result.data);
+      setNotice(result.message);
+      if (!result.data.dryRun) {
+        await loadInvitations();
+      }
+    } catch {
+      setError("Failed to import users");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const outstanding = invitations.filter(
+    (invitation) => invitation.status === "PENDING" || invitation.status === "EXPIRED"
+  );
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Mail className="h-5 w-5 text-blue-600" />
+              Invitations
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Invitees choose their own password through a single-use link
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setForm(EMPTY_FORM)}>
+              <Send className="h-4 w-4 mr-2" />
+              Invite user
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadInvitations} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        {form && (
+          <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="inviteName">Name</Label>
+                <Input
+                  id="inviteName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="inviteEmail">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as Role })}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="EMPLOYEE">Employee</SelectItem>
+                    <SelectItem value="MANAGER">Manager</SelectItem>
+                    <SelectItem value="ADMIN">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.role !== "ADMIN" && (
+                <div className="space-y-2">
+                  <Label>Manager</Label>
+                  <Select value={form.managerId} onValueChange={(managerId) => setForm({ ...form, managerId })}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Select a manager" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {managers.map((manager) => (
+                        <SelectItem key={manager.id} value={manager.id}>
+                          {manager.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={sendInvitation}
+                disabled={!form.email || !form.name || (form.role !== "ADMIN" && !form.managerId)}
+              >
+                Send invitation
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="p-4 border border-dashed border-gray-300 rounded-lg space-y-3">
+          <div>
+            <p className="text-sm font-semibold text-gray-900">Import from CSV</p>
+            <p className="text-xs text-gray-500">
+              Columns: email, name, role, manager_email, department, cost_center. Managers can be
+              existing users or other rows of the file.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="max-w-xs"
+              onChange={(e) => {
+                setImportFile(e.target.files?.[0] ?? null);
+                setImportResult(null);
+              }}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox id="importDryRun" checked={dryRun} onCheckedChange={(checked) => setDryRun(checked === true)} />
+              <Label htmlFor="importDryRun" className="font-normal">
+                Dry run (validate only)
+              </Label>
+            </div>
+            <Button size="sm" onClick={importUsers} disabled={!importFile || isImporting}>
+              <Upload className="h-4 w-4 mr-2" />
+              {dryRun ? "Validate" : "Import"}
+            </Button>
+          </div>
+
+          {importResult && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                {importResult.total} rows: {importResult.valid} valid, {importResult.invalid} with errors
+                {!importResult.dryRun && `, ${importResult.invited} invited`}
+              </p>
+              {importResult.rows
+                .filter((row) => row.errors.length > 0)
+                .map((row) => (
+                  <p key={row.row} className="text-xs text-red-600">
+                    Row {row.row} ({row.email || "no email"}): {row.errors.join("; ")}
+                  </p>
+                ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {outstanding.map((invitation) => (
+            <div key={invitation.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+              <div>
+                <p className="font-semibold text-gray-900">
+                  {invitation.name}{" "}
+                  <Badge variant="outline" className={cn("ml-1 text-xs", STATUS_STYLES[invitation.status])}>
+                    {invitation.status.toLowerCase()}
+                  </Badge>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {invitation.email} · {invitation.role.toLowerCase()}
+                  {invitation.manager &&
+                    ` · reports to ${invitation.manager.name}${invitation.manager.invited ? " (invited)" : ""}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => updateInvitation(invitation, "resend")}>
+                  <Send className="h-4 w-4 mr-1" />
+                  Resend
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => updateInvitation(invitation, "revoke")}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {!isLoading && outstanding.length === 0 && (
+            <p className="text-sm text-gray-500">No outstanding invitations.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default InvitationsCard;
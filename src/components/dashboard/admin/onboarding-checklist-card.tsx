@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Circle, Rocket, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+type OnboardingStepKey =
+  | "verify_email"
+  | "invite_team"
+  | "set_up_categories"
+  | "set_up_approval_rules";
+
+interface OnboardingChecklist {
+  steps: {
+    key: OnboardingStepKey;
+    title: string;
+    description: string;
+    completed: boolean;
+  }[];
+  completedCount: number;
+  totalCount: number;
+  dismissed: boolean;
+}
+
+interface OnboardingChecklistCardProps {
+  // Open the dashboard tab where a step is done
+  onNavigate: (tab: string) => void;
+}
+
+// Dashboard tab for each step; verifying email happens from the inbox
+const STEP_TABS: Partial<Record<OnboardingStepKey, string>> = {
+  invite_team: "users",
+  set_up_categories: "budgets",
+  set_up_approval_rules: "rules",
+};
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+/**
+ * Setup steps for a new company, shown until they're all done or an admin
+ * dismisses the checklist
+ */
+export function OnboardingChecklistCard({ onNavigate }: OnboardingChecklistCardProps) {
+  const [checklist, setChecklist] = useState<OnboardingChecklist | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadChecklist = async () => {
+      try {
+        const response = await fetch("/api/onboarding", { headers: authHeaders() });
+        const result = await response.json();
+        if (result.success) {
+          setChecklist(result.data);
+        } else {
+          setError(result.error?.message || "Failed to load the onboarding checklist");
+        }
+      } catch {
+        setError("Failed to load the onboarding checklist");
+      }
+    };
+
+    loadChecklist();
+  }, []);
+
+  const dismiss = async () => {
+    setError(null);
+    try {
+      const response = await fetch("/api/onboarding", {
+        method: "PATCH",
+        headers: authHeaders(),
+        body: JSON.stringify({ dismissed: true }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setChecklist(result.data);
+      } else {
+        setError(result.error?.message || "Failed to dismiss the checklist");
+      }
+    } catch {
+      setError("Failed to dismiss the checklist");
+    }
+  };
+
+  const resendVerification = async () => {
+    const email = AuthService.getCurrentUser()?.email;
+    if (!email) return;
+    try {
+      const response = await fetch("/api/auth/resend-verification", {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ email }),
+      });
+      const result = await response.json();
+      setResendMessage(
+        result.success ? "Verification email sent" : result.error?.message || "Failed to send the email"
+      );
+    } catch {
+      setResendMessage("Failed to send the email");
+    }
+  };
+
+  if (error && !checklist) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (!checklist || checklist.dismissed || checklist.completedCount === checklist.totalCount) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg border-0 mb-8">
+      <CardHeader className="bg-gradient-to-r from-blue-50 to-white border-b border-gray-100">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Rocket className="h-5 w-5 text-blue-600" />
+              Get your company set up
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              {checklist.completedCount} of {checklist.totalCount} steps done
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={dismiss} title="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <Progress value={(checklist.completedCount / checklist.totalCount) * 100} className="mt-3 h-2" />
+      </CardHeader>
+      <CardContent className="p-6 space-y-3">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {checklist.steps.map((step) => (
+          <div key={step.key} className="flex items-center justify-between gap-4">
+            <div className="flex items-start gap-3">
+              {step.completed ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600 mt-0.5" />
+              ) : (
+                <Circle className="h-5 w-5 text-gray-300 mt-0.5" />
+              )}
+              <div>
+                <p className={cn("text-sm font-semibold", step.completed ? "text-gray-500 line-through" : "text-gray-900")}>
+                  {step.title}
+                </p>
+                <p className="text-xs text-gray-500">{step.description}</p>
+              </div>
+            </div>
+            {!step.completed &&
+              (step.key === "verify_email" ? (
+                <div className="flex items-center gap-2">
+                  {resendMessage && <span className="text-xs text-gray-500">{resendMessage}</span>}
+                  <Button variant="outline" size="sm" onClick={resendVerification}>
+                    Resend email
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => onNavigate(STEP_TABS[step.key]!)}>
+                  Start
+                </Button>
+              ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default OnboardingChecklistCard;
@@ -0,0 +1,342 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, Pencil, Plus, RefreshCw, Trash } from "lucide-react";
+import { cn } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface PermissionDefinition {
+  key: string;
+  group: string;
+  label: string;
+  description: string;
+}
+
+interface RolePreset {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+interface CustomRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  memberCount: number;
+}
+
+interface RoleOverview {
+  permissions: PermissionDefinition[];
+  templates: RolePreset[];
+  builtIn: (RolePreset & { key: string; memberCount: number })[];
+  custom: CustomRole[];
+}
+
+interface RoleForm {
+  // null while defining a new role
+  id: string | null;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleForm = { id: null, name: "", description: "", permissions: [] };
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return result.error?.details?.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+const memberLabel = (count: number) => `${count} member${count === 1 ? "" : "s"}`;
+
+/**
+ * The company's roles: the built-in presets, and custom roles defined from
+ * the permission catalog. Custom roles are assigned to users from the user
+ * management table.
+ */
+export function RoleEditorCard() {
+  const [overview, setOverview] = useState<RoleOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState<RoleForm | null>(null);
+
+  const loadRoles = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/roles", { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setOverview(result.data);
+      } else {
+        setError(errorMessage(result, "Failed to load roles"));
+      }
+    } catch {
+      setError("Failed to load roles");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const saveRole = async () => {
+    if (!form) return;
+    setError(null);
+    try {
+      const response = await fetch(form.id ? `/api/roles/${form.id}` : "/api/roles", {
+        method: form.id ? "PATCH" : "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({
+          name: form.name,
+          description: form.description || (form.id ? null : undefined),
+          permissions: form.permissions,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to save the role"));
+        return;
+      }
+      setForm(null);
+      await loadRoles();
+    } catch {
+      setError("Failed to save the role");
+    }
+  };
+
+  const deleteRole = async (role: CustomRole) => {
+    if (role.memberCount > 0 && !confirm(`${role.name} is held by ${memberLabel(role.memberCount)}. Delete it?`)) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(`/api/roles/${role.id}`, { method: "DELETE", headers: authHeaders() });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to delete the role"));
+        return;
+      }
+      await loadRoles();
+    } catch {
+      setError("Failed to delete the role");
+    }
+  };
+
+  const togglePermission = (key: string, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      permissions: checked
+        ? [...form.permissions, key]
+        : form.permissions.filter((permission) => permission !== key),
+    });
+  };
+
+  const permissionLabel = (key: string) =>
+    overview?.permissions.find((permission) => permission.key === key)?.label ?? key;
+
+  const permissionGroups = Array.from(
+    new Set((overview?.permissions ?? []).map((permission) => permission.group))
+  );
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-blue-600" />
+              Roles &amp; Permissions
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Custom roles add permissions on top of a user&apos;s built-in role
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setForm(EMPTY_FORM)} disabled={!overview}>
+              <Plus className="h-4 w-4 mr-2" />
+              New role
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadRoles} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {form && overview && (
+          <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="roleName">Name</Label>
+                <Input
+                  id="roleName"
+                  placeholder="e.g. Finance Reviewer"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="roleDescription">Description (optional)</Label>
+                <Input
+                  id="roleDescription"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+
+            {!form.id && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-gray-500">Start from:</span>
+                {overview.templates.map((template) => (
+                  <Button
+                    key={template.name}
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        name: template.name,
+                        description: template.description,
+                        permissions: template.permissions,
+                      })
+                    }
+                  >
+                    {template.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {permissionGroups.map((group) => (
+                <div key={group} className="space-y-2">
+                  <p className="text-sm font-semibold text-gray-700">{group}</p>
+                  {overview.permissions
+                    .filter((permission) => permission.group === group)
+                    .map((permission) => (
+                      <div key={permission.key} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`permission-${permission.key}`}
+                          checked={form.permissions.includes(permission.key)}
+                          onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                        />
+                        <Label
+                          htmlFor={`permission-${permission.key}`}
+                          className="flex flex-col items-start gap-0.5 font-normal"
+                        >
+                          <span>{permission.label}</span>
+                          <span className="text-xs text-gray-500">{permission.description}</span>
+                        </Label>
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setForm(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={saveRole}
+                disabled={form.name.trim().length < 2 || form.permissions.length === 0}
+              >
+                {form.id ? "Save role" : "Create role"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {overview && (
+          <div className="space-y-3">
+            {overview.builtIn.map((role) => (
+              <div key={role.key} className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {role.name} <Badge variant="outline" className="ml-1 text-xs">Built-in</Badge>
+                  </p>
+                  <p className="text-xs text-gray-500">{role.description}</p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {role.permissions.includes("*")
+                      ? "All permissions"
+                      : role.permissions.map(permissionLabel).join(", ")}
+                  </p>
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap">{memberLabel(role.memberCount)}</span>
+              </div>
+            ))}
+
+            {overview.custom.map((role) => (
+              <div key={role.id} className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <p className="font-semibold text-gray-900">{role.name}</p>
+                  {role.description && <p className="text-xs text-gray-500">{role.description}</p>}
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {role.permissions.map((key) => (
+                      <Badge key={key} variant="secondary" className="text-xs font-normal">
+                        {permissionLabel(key)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-xs text-gray-500 whitespace-nowrap mr-2">{memberLabel(role.memberCount)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        id: role.id,
+                        name: role.name,
+                        description: role.description ?? "",
+                        permissions: role.permissions,
+                      })
+                    }
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteRole(role)}>
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {overview.custom.length === 0 && (
+              <p className="text-sm text-gray-500">No custom roles yet.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RoleEditorCard;
@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Percent, RefreshCw } from "lucide-react";
+import { cn, formatCurrency } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface TaxReportData {
+  currency: string;
+  totalGrossAmount: number;
+  totalNetAmount: number;
+  totalTaxAmount: number;
+  expenseCount: number;
+  unconvertedExpenses: number;
+  byRate: {
+    taxRate: number | null;
+    lineCount: number;
+    grossAmount: number;
+    netAmount: number;
+    taxAmount: number;
+  }[];
+  byCategory: { categoryId: string; categoryName: string; grossAmount: number; taxAmount: number }[];
+  byCurrency: { currency: string; taxAmount: number }[];
+}
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Report routes return either a message string or an error object
+const errorMessage = (result: { error?: string | { message?: string } }, fallback: string) =>
+  (typeof result.error === "string" ? result.error : result.error?.message) || fallback;
+
+export function TaxReportCard() {
+  const [data, setData] = useState<TaxReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+      });
+      const response = await fetch(`/api/reports/tax?${params}`, { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setData(result.data);
+      } else {
+        setError(errorMessage(result, "Failed to load the tax report"));
+      }
+    } catch {
+      setError("Failed to load the tax report");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+    // The date range applies when the report is refreshed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Percent className="h-5 w-5 text-blue-600" />
+              Reclaimable Tax
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              VAT/GST on approved itemised expenses
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {data && data.totalTaxAmount > 0 && (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                {formatCurrency(data.totalTaxAmount, data.currency)} tax
+              </Badge>
+            )}
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-40"
+            />
+            <Input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-40"
+            />
+            <Button variant="ghost" size="sm" onClick={loadReport} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !isLoading && data?.expenseCount === 0 && (
+          <p className="text-sm text-gray-500">No tax recorded on approved expenses in this period.</p>
+        )}
+        {data && data.expenseCount > 0 && (
+          <>
+            <div className="border border-gray-200 rounded-lg">
+              <div className="grid grid-cols-5 gap-3 px-4 py-2 bg-gray-50 border-b border-gray-200 text-xs font-semibold text-gray-600">
+                <span>Tax rate</span>
+                <span className="text-right">Lines</span>
+                <span className="text-right">Net</span>
+                <span className="text-right">Tax</span>
+                <span className="text-right">Gross</span>
+              </div>
+              {data.byRate.map((rate) => (
+                <div key={rate.taxRate ?? "none"} className="grid grid-cols-5 gap-3 px-4 py-2 text-sm">
+                  <span className="text-gray-900">{rate.taxRate !== null ? `${rate.taxRate}%` : "No rate given"}</span>
+                  <span className="text-right text-gray-500">{rate.lineCount}</span>
+                  <span className="text-right text-gray-700">{formatCurrency(rate.netAmount, data.currency)}</span>
+                  <span className="text-right font-semibold text-gray-900">
+                    {formatCurrency(rate.taxAmount, data.currency)}
+                  </span>
+                  <span className="text-right text-gray-700">{formatCurrency(rate.grossAmount, data.currency)}</span>
+                </div>
+              ))}
+              <div className="grid grid-cols-5 gap-3 px-4 py-2 border-t border-gray-200 text-sm font-semibold">
+                <span className="text-gray-900">Total</span>
+                <span />
+                <span className="text-right text-gray-900">{formatCurrency(data.totalNetAmount, data.currency)}</span>
+                <span className="text-right text-gray-900">{formatCurrency(data.totalTaxAmount, data.currency)}</span>
+                <span className="text-right text-gray-900">{formatCurrency(data.totalGrossAmount, data.currency)}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-900">By category</h4>
+                {data.byCategory.map((category) => (
+                  <div key={category.categoryId} className="flex justify-between text-sm">
+                    <span className="text-gray-700">{category.categoryName}</span>
+                    <span className="text-gray-900">{formatCurrency(category.taxAmount, data.currency)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-900">Paid in</h4>
+                {data.byCurrency.map((entry) => (
+                  <div key={entry.currency} className="flex justify-between text-sm">
+                    <span className="text-gray-700">{entry.currency}</span>
+                    <span className="text-gray-900">{formatCurrency(entry.taxAmount, entry.currency)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {data.unconvertedExpenses > 0 && (
+              <p className="text-xs text-amber-700">
+                {data.unconvertedExpenses} expense{data.unconvertedExpenses === 1 ? " is" : "s are"} still
+                waiting for an exchange rate and only counted under &quot;Paid in&quot;.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TaxReportCard;
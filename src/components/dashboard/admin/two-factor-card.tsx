@@ -0,0 +1,357 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, RefreshCw, ShieldCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface EnrolledUser {
+  id: string;
+  name: string;
+  email: string;
+  role: "ADMIN" | "MANAGER" | "EMPLOYEE";
+  twoFactorEnabled: boolean;
+}
+
+// Actions on the admin's own two-factor authentication that take a code
+type CodeAction = "enable" | "disable" | "recovery-codes";
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+const errorMessage = (
+  result: { error?: string | { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  if (typeof result.error === "string") return result.error;
+  const message = result.error?.message || fallback;
+  return Array.isArray(result.error?.details) && result.error.details.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+/**
+ * The admin's own two-factor authentication, the company requirement for
+ * admins and managers, and resets for users who lost their authenticator
+ */
+export function TwoFactorCard() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [users, setUsers] = useState<EnrolledUser[]>([]);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [statusResponse, usersResponse] = await Promise.all([
+        fetch("/api/auth/2fa", { headers: authHeaders() }),
+        fetch("/api/users?limit=100", { headers: authHeaders() }),
+      ]);
+      const [statusResult, usersResult] = await Promise.all([
+        statusResponse.json(),
+        usersResponse.json(),
+      ]);
+      if (statusResult.success) {
+        setStatus(statusResult.data);
+      } else {
+        setError(errorMessage(statusResult, "Failed to load two-factor status"));
+      }
+      if (usersResult.success) {
+        setUsers(usersResult.data.users);
+      }
+    } catch {
+      setError("Failed to load two-factor status");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const startSetup = async () => {
+    setError(null);
+    setNotice(null);
+    setRecoveryCodes(null);
+    try {
+      const response = await fetch("/api/auth/2fa/setup", { method: "POST", headers: authHeaders() });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to start two-factor setup"));
+        return;
+      }
+      setSetup(result.data);
+      setCodeAction("enable");
+      setCode("");
+    } catch {
+      setError("Failed to start two-factor setup");
+    }
+  };
+
+  const submitCode = async () => {
+    if (!codeAction) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/auth/2fa/${codeAction}`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ code }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "The code wasn't accepted"));
+        setCode("");
+        return;
+      }
+      setRecoveryCodes(result.data?.recoveryCodes ?? null);
+      setNotice(result.message);
+      setSetup(null);
+      setCodeAction(null);
+      setCode("");
+      await loadStatus();
+    } catch {
+      setError("The code wasn't accepted");
+    }
+  };
+
+  const setRequired = async (requireTwoFactor: boolean) => {
+    const companyId = AuthService.getCurrentUser()?.companyId;
+    if (!companyId) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/companies/${companyId}/settings`, {
+        method: "PUT",
+        headers: authHeaders(),
+        body: JSON.stringify({ security: { requireTwoFactor } }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setError(errorMessage(result, "Failed to update the requirement"));
+        return;
+      }
+      setNotice(
+        requireTwoFactor
+          ? "Admins and managers without two-factor authentication will set it up at their next sign-in"
+          : "Two-factor authentication is now optional"
+      );
+      await loadStatus();
+    } catch {
+      setError("Failed to update the requirement");
+    }
+  };
+
+  const resetUser = async (user: EnrolledUser) => {
+    if (!confirm(`Reset two-factor authentication for ${user.name}? They'll sign in with their password alone until they set it up again.`)) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/users/${user.id}/two-factor`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, "Failed to reset two-factor authentication"));
+        return;
+      }
+      setNotice(`Two-factor authentication reset for ${user.name}`);
+      await loadStatus();
+    } catch {
+      setError("Failed to reset two-factor authentication");
+    }
+  };
+
+  const enrolled = users.filter((user) => user.twoFactorEnabled);
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-blue-600" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Codes from an authenticator app, with recovery codes as a fallback
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={loadStatus} disabled={isLoading}>
+            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+        {status && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="requireTwoFactor"
+              checked={status.required}
+              onCheckedChange={(checked) => setRequired(checked === true)}
+            />
+            <Label htmlFor="requireTwoFactor" className="font-normal">
+              Require two-factor authentication for admins and managers
+            </Label>
+          </div>
+        )}
+
+        {status && (
+          <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-semibold text-gray-900">
+                  Your account{" "}
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "ml-1 text-xs",
+                      status.enabled
+                        ? "bg-green-50 text-green-700 border-green-200"
+                        : "bg-gray-50 text-gray-500 border-gray-200"
+                    )}
+                  >
+                    {status.enabled ? "on" : "off"}
+                  </Badge>
+                </p>
+                {status.enabled && (
+                  <p className="text-xs text-gray-500">
+                    {status.recoveryCodesRemaining} recovery codes left
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {status.enabled ? (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={() => setCodeAction("recovery-codes")}>
+                      <KeyRound className="h-4 w-4 mr-1" />
+                      New recovery codes
+                    </Button>
+                    {!status.required && (
+                      <Button variant="ghost" size="sm" onClick={() => setCodeAction("disable")}>
+                        Turn off
+                      </Button>
+                    )}
+                  </>
+                ) : (
+                  !setup && (
+                    <Button variant="outline" size="sm" onClick={startSetup}>
+                      Set up
+                    </Button>
+                  )
+                )}
+              </div>
+            </div>
+
+            {setup && (
+              <div className="flex flex-wrap items-center gap-4">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img src={setup.qrCode} alt="Two-factor authentication QR code" className="h-36 w-36" />
+                <p className="text-xs text-gray-500 max-w-xs">
+                  Scan the code with your authenticator app, or enter this key:{" "}
+                  <span className="font-mono break-all">{setup.secret}</span>
+                </p>
+              </div>
+            )}
+
+            {codeAction && (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="6-digit code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  className="max-w-[10rem]"
+                />
+                <Button size="sm" onClick={submitCode} disabled={!code}>
+                  Confirm
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setCodeAction(null);
+                    setSetup(null);
+                    setCode("");
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-600">
+                  Save these recovery codes somewhere safe; they won&apos;t be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-1 rounded-md border bg-gray-50 p-3 font-mono text-xs">
+                  {recoveryCodes.map((recoveryCode) => (
+                    <span key={recoveryCode}>{recoveryCode}</span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {enrolled.map((user) => (
+            <div key={user.id} className="flex items-center justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+              <div>
+                <p className="font-semibold text-gray-900">{user.name}</p>
+                <p className="text-xs text-gray-500">
+                  {user.email} · {user.role.toLowerCase()}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => resetUser(user)}>
+                Reset
+              </Button>
+            </div>
+          ))}
+
+          {!isLoading && enrolled.length === 0 && (
+            <p className="text-sm text-gray-500">Nobody has set up two-factor authentication yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Briefcase, FileCheck, RefreshCw } from "lucide-react";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface UnbilledExpense {
+  id: string;
+  expenseDate: string;
+  description: string;
+  submittedBy: string;
+  category: string;
+  amount: number;
+  currency: string;
+  baseAmount: number | null;
+}
+
+interface UnbilledProject {
+  projectId: string;
+  projectCode: string;
+  projectName: string;
+  amount: number;
+  expenses: UnbilledExpense[];
+}
+
+interface UnbilledReportData {
+  currency: string;
+  totalAmount: number;
+  expenseCount: number;
+  clients: { clientName: string; amount: number; projects: UnbilledProject[] }[];
+}
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Report routes return either a message string or an error object
+const errorMessage = (result: { error?: string | { message?: string } }, fallback: string) =>
+  (typeof result.error === "string" ? result.error : result.error?.message) || fallback;
+
+export function UnbilledExpensesCard() {
+  const [data, setData] = useState<UnbilledReportData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [invoiceReference, setInvoiceReference] = useState("");
+  const [isInvoicing, setIsInvoicing] = useState(false);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/reports/unbilled", { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setData(result.data);
+        setSelected(new Set());
+      } else {
+        setError(errorMessage(result, "Failed to load unbilled expenses"));
+      }
+    } catch {
+      setError("Failed to load unbilled expenses");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const toggle = (ids: string[], checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      ids.forEach((id) => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const markInvoiced = async () => {
+    setIsInvoicing(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/reports/unbilled/invoice", {
+        method: "POST",
+        headers: { ...authHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({
+          expenseIds: Array.from(selected),
+          ...(invoiceReference.trim() && { invoiceReference: invoiceReference.trim() }),
+        }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setInvoiceReference("");
+        await loadReport();
+      } else {
+        setError(errorMessage(result, "Failed to mark expenses as invoiced"));
+      }
+    } catch {
+      setError("Failed to mark expenses as invoiced");
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Briefcase className="h-5 w-5 text-blue-600" />
+              Unbilled Expenses
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Approved billable expenses not yet invoiced to clients
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {data && data.expenseCount > 0 && (
+              <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                {formatCurrency(data.totalAmount, data.currency)} unbilled
+              </Badge>
+            )}
+            <Button variant="ghost" size="sm" onClick={loadReport} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !isLoading && data?.expenseCount === 0 && (
+          <p className="text-sm text-gray-500">All billable expenses have been invoiced.</p>
+        )}
+        {data?.clients.map((client) => (
+          <div key={client.clientName} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-base font-semibold text-gray-900">{client.clientName}</h4>
+              <span className="text-sm font-semibold text-gray-700">
+                {formatCurrency(client.amount, data.currency)}
+              </span>
+            </div>
+            {client.projects.map((project) => {
+              const ids = project.expenses.map((expense) => expense.id);
+              const allSelected = ids.every((id) => selected.has(id));
+              return (
+                <div key={project.projectId} className="border border-gray-200 rounded-lg">
+                  <label className="flex items-center gap-3 px-4 py-2 bg-gray-50 border-b border-gray-200 cursor-pointer">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggle(ids, checked === true)}
+                    />
+                    <span className="text-sm font-semibold text-gray-900">{project.projectCode}</span>
+                    <span className="text-sm text-gray-600 flex-1 truncate">{project.projectName}</span>
+                    <span className="text-sm text-gray-700">{formatCurrency(project.amount, data.currency)}</span>
+                  </label>
+                  {project.expenses.map((expense) => (
+                    <label
+                      key={expense.id}
+                      className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                    >
+                      <Checkbox
+                        checked={selected.has(expense.id)}
+                        onCheckedChange={(checked) => toggle([expense.id], checked === true)}
+                      />
+                      <span className="w-24 text-gray-500">{formatDate(new Date(`${expense.expenseDate}T00:00:00`))}</span>
+                      <span className="flex-1 truncate text-gray-900">{expense.description}</span>
+                      <span className="text-gray-500 truncate">{expense.submittedBy}</span>
+                      <span className="w-28 text-right text-gray-900">
+                        {expense.baseAmount !== null
+                          ? formatCurrency(expense.baseAmount, data.currency)
+                          : formatCurrency(expense.amount, expense.currency)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {data && data.expenseCount > 0 && (
+          <div className="flex items-center gap-3 pt-2 border-t border-gray-100">
+            <Input
+              value={invoiceReference}
+              onChange={(e) => setInvoiceReference(e.target.value)}
+              placeholder="Invoice reference (optional)"
+              className="max-w-xs"
+            />
+            <Button onClick={markInvoiced} disabled={selected.size === 0 || isInvoicing}>
+              <FileCheck className="h-4 w-4 mr-2" />
+              Mark {selected.size > 0 ? selected.size : ""} as invoiced
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default UnbilledExpensesCard;
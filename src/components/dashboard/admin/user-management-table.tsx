@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   Table,
   TableHeader,
@@ -22,9 +23,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   MoreHorizontal,
   Mail,
@@ -36,6 +48,9 @@ import {
   User,
   CheckCircle,
   XCircle,
+  UserCog,
+  CalendarOff,
+  KeyRound,
 } from "lucide-react";
 
 // (Interfaces remain the same)
@@ -43,19 +58,68 @@ export interface UserData {
   id: string; name: string; email: string; role: "ADMIN" | "MANAGER" | "EMPLOYEE";
   managerId: string | null; status: "active" | "inactive"; avatarUrl?: string;
   initials: string; createdAt: string;
+  // Active or upcoming approval delegation where this user is the delegator
+  delegation?: { id: string; delegateId: string; delegateName: string; startDate: string; endDate: string } | null;
+  // Custom roles held on top of the built-in role
+  customRoles?: { id: string; name: string }[];
 }
 export interface ManagerData { id: string; name: string; }
+export interface CustomRoleData { id: string; name: string; description: string | null; permissions: string[]; }
+export interface DelegationInput { delegateId: string; startDate: string; endDate: string; reason?: string; }
 export type UserAction = "sendPasswordReset" | "editUser" | "toggleStatus";
 interface UserManagementTableProps {
   users: UserData[]; managers: ManagerData[]; currentUserId: string;
   onRoleChange: (userId: string, newRole: UserData["role"]) => void;
   onManagerChange: (userId: string, managerId: string) => void;
   onAction: (userId: string, action: UserAction) => void;
+  onSetDelegation?: (userId: string, delegation: DelegationInput) => void;
+  onClearDelegation?: (userId: string, delegationId: string) => void;
+  // The company's custom roles, assignable in the role editor
+  customRoles?: CustomRoleData[];
+  onCustomRolesChange?: (userId: string, roleIds: string[]) => void;
 }
 
+const EMPTY_DELEGATION: DelegationInput = { delegateId: "", startDate: "", endDate: "", reason: "" };
+
 export function UserManagementTable({
-  users, managers, currentUserId, onRoleChange, onManagerChange, onAction,
+  users, managers, currentUserId, onRoleChange, onManagerChange, onAction, onSetDelegation, onClearDelegation,
+  customRoles = [], onCustomRolesChange,
 }: UserManagementTableProps) {
+  const [delegatingUser, setDelegatingUser] = useState<UserData | null>(null);
+  const [delegationForm, setDelegationForm] = useState<DelegationInput>(EMPTY_DELEGATION);
+  const [editingRolesUser, setEditingRolesUser] = useState<UserData | null>(null);
+  const [selectedRoleIds, setSelectedRoleIds] = useState<string[]>([]);
+
+  const openDelegationDialog = (user: UserData) => {
+    setDelegatingUser(user);
+    setDelegationForm(EMPTY_DELEGATION);
+  };
+
+  const handleSaveDelegation = () => {
+    if (!delegatingUser) return;
+    onSetDelegation?.(delegatingUser.id, delegationForm);
+    setDelegatingUser(null);
+  };
+
+  const openRolesDialog = (user: UserData) => {
+    setEditingRolesUser(user);
+    setSelectedRoleIds((user.customRoles ?? []).map(role => role.id));
+  };
+
+  const toggleRole = (roleId: string, checked: boolean) => {
+    setSelectedRoleIds(prev => checked ? [...prev, roleId] : prev.filter(id => id !== roleId));
+  };
+
+  const handleSaveRoles = () => {
+    if (!editingRolesUser) return;
+    onCustomRolesChange?.(editingRolesUser.id, selectedRoleIds);
+    setEditingRolesUser(null);
+  };
+
+  const canSaveDelegation =
+    delegationForm.delegateId !== "" && delegationForm.startDate !== "" &&
+    delegationForm.endDate !== "" && delegationForm.endDate >= delegationForm.startDate;
+
   return (
     <div className="border rounded-lg overflow-hidden">
       <Table>
@@ -87,6 +151,12 @@ export function UserManagementTable({
                     <div suppressHydrationWarning={true} className="text-sm text-muted-foreground">
                       Joined on {new Date(user.createdAt).toLocaleDateString()}
                     </div>
+                    {user.delegation && (
+                      <div suppressHydrationWarning={true} className="text-xs text-amber-700">
+                        Approvals delegated to {user.delegation.delegateName} until{" "}
+                        {new Date(user.delegation.endDate).toLocaleDateString()}
+                      </div>
+                    )}
                   </div>
                 </div>
               </TableCell>
@@ -117,6 +187,13 @@ export function UserManagementTable({
                     </SelectItem>
                   </SelectContent>
                 </Select>
+                {user.customRoles && user.customRoles.length > 0 && (
+                  <div className="mt-1.5 flex flex-wrap gap-1">
+                    {user.customRoles.map(role => (
+                      <Badge key={role.id} variant="secondary" className="text-xs font-normal">{role.name}</Badge>
+                    ))}
+                  </div>
+                )}
               </TableCell>
               <TableCell>
                 <Select
@@ -161,6 +238,21 @@ export function UserManagementTable({
                   <DropdownMenuContent align="end">
                     <DropdownMenuItem><Mail className="h-4 w-4 mr-2" />Send Password Reset</DropdownMenuItem>
                     <DropdownMenuItem><Edit className="h-4 w-4 mr-2" />Edit User</DropdownMenuItem>
+                    {onCustomRolesChange && (
+                      <DropdownMenuItem onClick={() => openRolesDialog(user)}>
+                        <KeyRound className="h-4 w-4 mr-2" />Edit Roles
+                      </DropdownMenuItem>
+                    )}
+                    {onSetDelegation && user.role !== "EMPLOYEE" && (
+                      <DropdownMenuItem onClick={() => openDelegationDialog(user)}>
+                        <UserCog className="h-4 w-4 mr-2" />Set Approval Delegate
+                      </DropdownMenuItem>
+                    )}
+                    {onClearDelegation && user.delegation && (
+                      <DropdownMenuItem onClick={() => onClearDelegation(user.id, user.delegation!.id)}>
+                        <CalendarOff className="h-4 w-4 mr-2" />Remove Delegation
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuSeparator />
                     <DropdownMenuItem
                       onClick={() => onAction(user.id, "toggleStatus")}
@@ -174,6 +266,86 @@ export function UserManagementTable({
           ))}
         </TableBody>
       </Table>
+
+      <Dialog open={delegatingUser !== null} onOpenChange={open => { if (!open) setDelegatingUser(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set approval delegate</DialogTitle>
+            <DialogDescription>
+              While the delegation is active, the delegate can approve or reject {delegatingUser?.name}&apos;s
+              pending approvals on their behalf.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Delegate</Label>
+              <Select value={delegationForm.delegateId}
+                onValueChange={delegateId => setDelegationForm(prev => ({ ...prev, delegateId }))}>
+                <SelectTrigger className="w-full"><SelectValue placeholder="Choose a delegate" /></SelectTrigger>
+                <SelectContent>
+                  {managers.filter(manager => manager.id !== delegatingUser?.id).map(manager => (
+                    <SelectItem key={manager.id} value={manager.id}>{manager.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="delegationStart">From</Label>
+                <Input id="delegationStart" type="date" value={delegationForm.startDate}
+                  onChange={e => setDelegationForm(prev => ({ ...prev, startDate: e.target.value }))} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="delegationEnd">Until</Label>
+                <Input id="delegationEnd" type="date" value={delegationForm.endDate}
+                  onChange={e => setDelegationForm(prev => ({ ...prev, endDate: e.target.value }))} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegationReason">Reason (optional)</Label>
+              <Input id="delegationReason" placeholder="e.g. Annual leave" value={delegationForm.reason}
+                onChange={e => setDelegationForm(prev => ({ ...prev, reason: e.target.value }))} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDelegatingUser(null)}>Cancel</Button>
+            <Button onClick={handleSaveDelegation} disabled={!canSaveDelegation}>Save Delegation</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingRolesUser !== null} onOpenChange={open => { if (!open) setEditingRolesUser(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit roles</DialogTitle>
+            <DialogDescription>
+              {editingRolesUser?.name} keeps their {editingRolesUser?.role.toLowerCase()} role and gains the
+              permissions of every custom role selected here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {customRoles.length === 0 && (
+              <p className="text-sm text-muted-foreground">No custom roles have been defined yet.</p>
+            )}
+            {customRoles.map(role => (
+              <div key={role.id} className="flex items-start gap-3">
+                <Checkbox id={`role-${role.id}`} checked={selectedRoleIds.includes(role.id)}
+                  onCheckedChange={checked => toggleRole(role.id, checked === true)} />
+                <Label htmlFor={`role-${role.id}`} className="flex flex-col items-start gap-0.5 font-normal">
+                  <span className="font-medium">{role.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {role.description || `${role.permissions.length} permission${role.permissions.length === 1 ? "" : "s"}`}
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRolesUser(null)}>Cancel</Button>
+            <Button onClick={handleSaveRoles}>Save Roles</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
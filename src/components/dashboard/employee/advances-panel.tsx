@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Banknote, Plus, RefreshCw } from "lucide-react";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface AdvanceBalance {
+  currency: string;
+  advanceAmount: number;
+  expenseCount: number;
+  pendingAmount: number;
+  approvedAmount: number;
+  owedByEmployee: number;
+  payableToEmployee: number;
+}
+
+interface Advance {
+  id: string;
+  purpose: string;
+  amount: number;
+  currency: string;
+  neededBy: string | null;
+  status: string;
+  balance: AdvanceBalance;
+  disbursement: { disbursedAt: string } | null;
+  reconciliation: { settlementAmount: number } | null;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  PENDING_APPROVAL: "bg-amber-100 text-amber-800",
+  APPROVED: "bg-blue-100 text-blue-800",
+  DISBURSED: "bg-purple-100 text-purple-800",
+  RECONCILED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+  CANCELLED: "bg-gray-100 text-gray-700",
+};
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return result.error?.details?.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+/**
+ * The employee's cash advances: request one, and follow what is still
+ * outstanding once expenses are set against the paid out ones.
+ */
+export function AdvancesPanel() {
+  const [advances, setAdvances] = useState<Advance[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [request, setRequest] = useState({ purpose: "", amount: "", neededBy: "" });
+
+  const loadAdvances = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/advances", { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setAdvances(result.data);
+      } else {
+        setError(errorMessage(result, "Failed to load advances"));
+      }
+    } catch {
+      setError("Failed to load advances");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAdvances();
+  }, []);
+
+  const runAction = async (url: string, init: RequestInit, fallback: string) => {
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: authHeaders() });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, fallback));
+        return false;
+      }
+      await loadAdvances();
+      return true;
+    } catch {
+      setError(fallback);
+      return false;
+    }
+  };
+
+  const requestAdvance = async () => {
+    const requested = await runAction(
+      "/api/advances",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          purpose: request.purpose,
+          amount: Number(request.amount),
+          ...(request.neededBy && { neededBy: request.neededBy }),
+        }),
+      },
+      "Failed to request the advance"
+    );
+    if (requested) {
+      setRequest({ purpose: "", amount: "", neededBy: "" });
+      setIsRequesting(false);
+    }
+  };
+
+  const cancelAdvance = (advanceId: string) =>
+    runAction(
+      `/api/advances/${advanceId}/cancel`,
+      { method: "POST" },
+      "Failed to cancel the advance"
+    );
+
+  const outstanding = advances.filter((advance) => advance.status === "DISBURSED");
+  const currency = advances[0]?.currency;
+  const totalOutstanding = outstanding.reduce(
+    (sum, advance) => sum + advance.balance.owedByEmployee,
+    0
+  );
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Banknote className="h-5 w-5 text-purple-600" />
+              Cash Advances
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              {outstanding.length > 0 && currency
+                ? `${formatCurrency(totalOutstanding, currency)} outstanding across ${outstanding.length} advance${outstanding.length === 1 ? "" : "s"}`
+                : "No outstanding advances"}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsRequesting(!isRequesting)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Request advance
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadAdvances} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isRequesting && (
+          <div className="flex flex-col sm:flex-row gap-2 p-3 border border-gray-200 rounded-lg">
+            <Input
+              placeholder="What is the advance for?"
+              value={request.purpose}
+              onChange={(e) => setRequest({ ...request, purpose: e.target.value })}
+            />
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Amount"
+              value={request.amount}
+              onChange={(e) => setRequest({ ...request, amount: e.target.value })}
+              className="sm:w-32"
+            />
+            <Input
+              type="date"
+              value={request.neededBy}
+              onChange={(e) => setRequest({ ...request, neededBy: e.target.value })}
+              className="sm:w-40"
+            />
+            <Button
+              size="sm"
+              onClick={requestAdvance}
+              disabled={!request.purpose || !(Number(request.amount) > 0)}
+            >
+              Request
+            </Button>
+          </div>
+        )}
+
+        {!isLoading && advances.length === 0 && (
+          <p className="text-sm text-gray-500">You haven&apos;t requested any advances.</p>
+        )}
+
+        {advances.map((advance) => (
+          <div key={advance.id} className="p-4 border border-gray-200 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-semibold text-gray-900">{advance.purpose}</p>
+                <p className="text-xs text-gray-500">
+                  {formatCurrency(advance.amount, advance.currency)}
+                  {advance.neededBy && ` · needed by ${formatDate(advance.neededBy)}`}
+                  {advance.disbursement && ` · paid out ${formatDate(advance.disbursement.disbursedAt)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge className={STATUS_STYLES[advance.status]}>
+                  {advance.status.replace("_", " ").toLowerCase()}
+                </Badge>
+                {["PENDING_APPROVAL", "APPROVED"].includes(advance.status) && (
+                  <Button variant="ghost" size="sm" onClick={() => cancelAdvance(advance.id)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {advance.status === "DISBURSED" && (
+              <div className="mt-3 grid grid-cols-3 gap-3 text-sm">
+                <div>
+                  <p className="text-xs text-gray-500">Approved expenses</p>
+                  <p className="text-gray-700">
+                    {formatCurrency(advance.balance.approvedAmount, advance.currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Awaiting approval</p>
+                  <p className="text-gray-700">
+                    {formatCurrency(advance.balance.pendingAmount, advance.currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">
+                    {advance.balance.payableToEmployee > 0 ? "Due to you" : "Outstanding"}
+                  </p>
+                  <p className="font-semibold text-gray-900">
+                    {formatCurrency(
+                      advance.balance.payableToEmployee > 0
+                        ? advance.balance.payableToEmployee
+                        : advance.balance.owedByEmployee,
+                      advance.currency
+                    )}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {advance.reconciliation && (
+              <p className="mt-2 text-xs text-gray-500">
+                {advance.reconciliation.settlementAmount > 0
+                  ? `Settled: ${formatCurrency(advance.reconciliation.settlementAmount, advance.currency)} returned`
+                  : advance.reconciliation.settlementAmount < 0
+                  ? `Settled: ${formatCurrency(-advance.reconciliation.settlementAmount, advance.currency)} paid to you`
+                  : "Settled with nothing left over"}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AdvancesPanel;
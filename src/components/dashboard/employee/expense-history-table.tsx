@@ -19,6 +19,10 @@ interface ExpenseHistoryItem {
   description: string;
   amount: number;
   currency: string;
+  // Conversion into the company base currency
+  baseAmount?: number | null;
+  baseCurrency?: string | null;
+  exchangeRate?: number | null;
   category: string;
   status: "PENDING" | "APPROVED" | "REJECTED" | "PAID";
   submittedAt: Date;
@@ -61,8 +65,18 @@ const ExpenseHistoryTable: FC<ExpenseHistoryTableProps> = ({
     }
   };
 
+  // Totals are only meaningful in a single currency: the base currency when
+  // every expense has been converted, otherwise the shared expense currency
+  const baseCurrency = expenses.find((e) => e.baseCurrency)?.baseCurrency;
+  const useBaseAmounts =
+    !!baseCurrency && expenses.every((e) => e.baseAmount != null);
+
   const getTotalStats = () => {
-    const total = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const total = expenses.reduce(
+      (sum, expense) =>
+        sum + (useBaseAmounts ? expense.baseAmount! : expense.amount),
+      0
+    );
     const pending = expenses.filter((e) => e.status === "PENDING").length;
     const approved = expenses.filter(
       (e) => e.status === "APPROVED" || e.status === "PAID"
@@ -73,7 +87,12 @@ const ExpenseHistoryTable: FC<ExpenseHistoryTableProps> = ({
   };
 
   const stats = getTotalStats();
-  const currency = expenses.length > 0 ? expenses[0].currency : "USD";
+  const currency =
+    useBaseAmounts && baseCurrency
+      ? baseCurrency
+      : expenses.length > 0
+      ? expenses[0].currency
+      : "USD";
 
   if (isLoading) {
     return (
@@ -165,6 +184,9 @@ const ExpenseHistoryTable: FC<ExpenseHistoryTableProps> = ({
                     <CurrencyDisplay
                       amount={expense.amount}
                       currency={expense.currency}
+                      baseCurrency={expense.baseCurrency}
+                      convertedAmount={expense.baseAmount}
+                      exchangeRate={expense.exchangeRate}
                     />
                   </TableCell>
 
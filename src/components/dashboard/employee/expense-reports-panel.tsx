@@ -0,0 +1,383 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { StatusBadge } from "@/components/shared/status-badge";
+import { Briefcase, GripVertical, Plus, RefreshCw, Send, X } from "lucide-react";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface ReportTotals {
+  currency: string;
+  expenseCount: number;
+  totalAmount: number;
+  rejectedAmount: number;
+  approvedAmount: number;
+  advanceAmount: number;
+  balanceDue: number;
+}
+
+interface ExpenseReportSummary {
+  id: string;
+  title: string;
+  purpose: string | null;
+  startDate: string;
+  endDate: string;
+  status: string;
+  totals: ReportTotals;
+}
+
+interface ReportLine {
+  id: string;
+  description: string;
+  expenseDate: string;
+  amount: number;
+  currency: string;
+  status: string;
+  rejection: { comment: string | null; rejectedBy: { name: string } } | null;
+}
+
+interface DraftExpense {
+  id: string;
+  description: string;
+  expenseDate: string;
+  amount: number;
+  currency: string;
+  report: { id: string; title: string } | null;
+}
+
+const EXPENSE_DRAG_TYPE = "application/x-expense-id";
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token
+    ? { Authorization: `Bearer ${token}`, "Content-Type": "application/json" }
+    : { "Content-Type": "application/json" };
+};
+
+// Report routes return an error object, sometimes with per-expense details
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return result.error?.details?.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+/**
+ * Trip bundles on the employee dashboard. Draft expenses are dragged onto a
+ * draft report to add them, and the report is submitted in one go.
+ */
+export function ExpenseReportsPanel() {
+  const [reports, setReports] = useState<ExpenseReportSummary[]>([]);
+  const [drafts, setDrafts] = useState<DraftExpense[]>([]);
+  const [expandedLines, setExpandedLines] = useState<Record<string, ReportLine[]>>({});
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newReport, setNewReport] = useState({ title: "", startDate: "", endDate: "" });
+
+  const loadReports = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [reportsResponse, draftsResponse] = await Promise.all([
+        fetch("/api/expense-reports", { headers: authHeaders() }),
+        fetch("/api/expenses?status=DRAFT&limit=100", { headers: authHeaders() }),
+      ]);
+      const reportsResult = await reportsResponse.json();
+      const draftsResult = await draftsResponse.json();
+
+      if (reportsResult.success) {
+        setReports(reportsResult.data);
+      } else {
+        setError(errorMessage(reportsResult, "Failed to load expense reports"));
+      }
+      if (draftsResult.success) {
+        setDrafts(draftsResult.data.expenses);
+      }
+      setExpandedLines({});
+    } catch {
+      setError("Failed to load expense reports");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReports();
+  }, []);
+
+  // Run a report action, then reload the reports and drafts
+  const runAction = async (url: string, init: RequestInit, fallback: string) => {
+    setError(null);
+    try {
+      const response = await fetch(url, { ...init, headers: authHeaders() });
+      const result = await response.json();
+      if (!result.success) {
+        setError(errorMessage(result, fallback));
+        return;
+      }
+      await loadReports();
+    } catch {
+      setError(fallback);
+    }
+  };
+
+  const createReport = async () => {
+    await runAction(
+      "/api/expense-reports",
+      { method: "POST", body: JSON.stringify(newReport) },
+      "Failed to create the expense report"
+    );
+    setNewReport({ title: "", startDate: "", endDate: "" });
+    setIsCreating(false);
+  };
+
+  const addExpense = (reportId: string, expenseId: string) =>
+    runAction(
+      `/api/expense-reports/${reportId}/expenses`,
+      { method: "POST", body: JSON.stringify({ expenseIds: [expenseId] }) },
+      "Failed to add the expense to the report"
+    );
+
+  const removeExpense = (reportId: string, expenseId: string) =>
+    runAction(
+      `/api/expense-reports/${reportId}/expenses`,
+      { method: "DELETE", body: JSON.stringify({ expenseIds: [expenseId] }) },
+      "Failed to remove the expense from the report"
+    );
+
+  const submitReport = (reportId: string) =>
+    runAction(
+      `/api/expense-reports/${reportId}/submit`,
+      { method: "POST" },
+      "Failed to submit the expense report"
+    );
+
+  const toggleLines = async (reportId: string) => {
+    if (expandedLines[reportId]) {
+      const rest = { ...expandedLines };
+      delete rest[reportId];
+      setExpandedLines(rest);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/expense-reports/${reportId}`, { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setExpandedLines({ ...expandedLines, [reportId]: result.data.expenses });
+      } else {
+        setError(errorMessage(result, "Failed to load the report"));
+      }
+    } catch {
+      setError("Failed to load the report");
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, report: ExpenseReportSummary) => {
+    event.preventDefault();
+    setDropTargetId(null);
+    const expenseId = event.dataTransfer.getData(EXPENSE_DRAG_TYPE);
+    if (expenseId && report.status === "DRAFT") {
+      addExpense(report.id, expenseId);
+    }
+  };
+
+  const unassignedDrafts = drafts.filter((expense) => !expense.report);
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="bg-gradient-to-r from-gray-50 to-white border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Briefcase className="h-5 w-5 text-blue-600" />
+              Expense Reports
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              Drag draft expenses onto a report to submit them together
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsCreating(!isCreating)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New report
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadReports} disabled={isLoading}>
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isCreating && (
+          <div className="flex flex-col sm:flex-row gap-2 p-3 border border-gray-200 rounded-lg">
+            <Input
+              placeholder="Trip or report title"
+              value={newReport.title}
+              onChange={(e) => setNewReport({ ...newReport, title: e.target.value })}
+            />
+            <Input
+              type="date"
+              value={newReport.startDate}
+              onChange={(e) => setNewReport({ ...newReport, startDate: e.target.value })}
+              className="sm:w-40"
+            />
+            <Input
+              type="date"
+              value={newReport.endDate}
+              onChange={(e) => setNewReport({ ...newReport, endDate: e.target.value })}
+              className="sm:w-40"
+            />
+            <Button
+              size="sm"
+              onClick={createReport}
+              disabled={!newReport.title || !newReport.startDate || !newReport.endDate}
+            >
+              Create
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900">Draft expenses</h4>
+            {unassignedDrafts.length === 0 && (
+              <p className="text-sm text-gray-500">No draft expenses outside a report.</p>
+            )}
+            {unassignedDrafts.map((expense) => (
+              <div
+                key={expense.id}
+                draggable
+                onDragStart={(event) => event.dataTransfer.setData(EXPENSE_DRAG_TYPE, expense.id)}
+                className="flex items-center gap-2 p-2 border border-gray-200 rounded-lg bg-white cursor-grab text-sm"
+              >
+                <GripVertical className="h-4 w-4 text-gray-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-gray-900">{expense.description}</p>
+                  <p className="text-xs text-gray-500">{formatDate(expense.expenseDate)}</p>
+                </div>
+                <span className="text-gray-700">{formatCurrency(expense.amount, expense.currency)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2 space-y-3">
+            {!isLoading && reports.length === 0 && (
+              <p className="text-sm text-gray-500">No expense reports yet.</p>
+            )}
+            {reports.map((report) => (
+              <div
+                key={report.id}
+                onDragOver={(event) => {
+                  if (report.status !== "DRAFT") return;
+                  event.preventDefault();
+                  setDropTargetId(report.id);
+                }}
+                onDragLeave={() => setDropTargetId(null)}
+                onDrop={(event) => handleDrop(event, report)}
+                className={cn(
+                  "p-4 border rounded-lg transition-colors",
+                  dropTargetId === report.id ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <button
+                      onClick={() => toggleLines(report.id)}
+                      className="font-semibold text-gray-900 hover:underline text-left"
+                    >
+                      {report.title}
+                    </button>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(report.startDate)} – {formatDate(report.endDate)} ·{" "}
+                      {report.totals.expenseCount} expense{report.totals.expenseCount === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <StatusBadge status={report.status} variant="compact" />
+                    {report.status === "DRAFT" && (
+                      <Button
+                        size="sm"
+                        onClick={() => submitReport(report.id)}
+                        disabled={report.totals.expenseCount === 0}
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Submit
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-3 grid grid-cols-3 gap-3 text-sm">
+                  <div>
+                    <p className="text-xs text-gray-500">Total</p>
+                    <p className="font-semibold text-gray-900">
+                      {formatCurrency(report.totals.totalAmount, report.totals.currency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Advance</p>
+                    <p className="text-gray-700">
+                      {formatCurrency(report.totals.advanceAmount, report.totals.currency)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">
+                      {report.totals.balanceDue < 0 ? "To return" : "Due to you"}
+                    </p>
+                    <p className="font-semibold text-gray-900">
+                      {formatCurrency(Math.abs(report.totals.balanceDue), report.totals.currency)}
+                    </p>
+                  </div>
+                </div>
+
+                {expandedLines[report.id] && (
+                  <div className="mt-3 border-t border-gray-100 pt-3 space-y-1">
+                    {expandedLines[report.id].map((line) => (
+                      <div key={line.id} className="flex items-center gap-3 text-sm">
+                        <span className="text-xs text-gray-500 w-24">{formatDate(line.expenseDate)}</span>
+                        <span className="flex-1 truncate text-gray-900">
+                          {line.description}
+                          {line.rejection && (
+                            <span className="block text-xs text-red-600">
+                              Rejected by {line.rejection.rejectedBy.name}
+                              {line.rejection.comment && `: ${line.rejection.comment}`}
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-gray-700">{formatCurrency(line.amount, line.currency)}</span>
+                        {report.status === "DRAFT" ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => removeExpense(report.id, line.id)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        ) : (
+                          <StatusBadge status={line.status} variant="compact" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ExpenseReportsPanel;
@@ -10,6 +10,8 @@ import {
 import { Button } from "@/components/ui/button";
 import StatusBadge from "@/components/shared/status-badge";
 import CurrencyDisplay from "@/components/shared/currency-display";
+import { cn } from "@/lib/utils";
+import { getApprovalSlaStatus } from "@/lib/approval-chain";
 
 interface ExpenseItem {
   id: string;
@@ -17,11 +19,82 @@ interface ExpenseItem {
   description: string;
   amount: number;
   currency: string;
+  // Conversion into the company base currency locked at submission
+  baseAmount?: number | null;
+  baseCurrency?: string | null;
+  exchangeRate?: number | null;
   category: string;
   submittedAt: Date;
   status: "PENDING" | "APPROVED" | "REJECTED";
+  // SLA deadline of the approval step, if the company has an SLA
+  dueAt?: Date | string | null;
+  // Name of the approver the step was escalated from
+  escalatedFrom?: string | null;
+  // Company policy warnings recorded when the expense was submitted
+  policyViolations?: Array<{
+    policyName: string;
+    severity: "BLOCK" | "WARN";
+    message: string;
+  }> | null;
 }
 
+const slaStyles = {
+  "on-track": "bg-gray-100 text-gray-700",
+  "due-soon": "bg-orange-100 text-orange-800",
+  overdue: "bg-red-100 text-red-800",
+} as const;
+
+const SlaIndicator: FC<{ expense: ExpenseItem }> = ({ expense }) => {
+  const sla =
+    expense.status === "PENDING" ? getApprovalSlaStatus(expense.dueAt) : null;
+
+  if (!sla) {
+    return <span className="text-sm text-gray-400">—</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <span
+        className={cn(
+          "inline-flex rounded-full px-2 py-0.5 text-xs font-medium",
+          slaStyles[sla.state]
+        )}
+        title={`Due ${new Date(expense.dueAt!).toLocaleString()}`}
+      >
+        {sla.label}
+      </span>
+      {expense.escalatedFrom && (
+        <p className="text-xs text-gray-500">
+          Escalated from {expense.escalatedFrom}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const PolicyFlags: FC<{ expense: ExpenseItem }> = ({ expense }) => {
+  if (!expense.policyViolations?.length) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {expense.policyViolations.map((violation, index) => (
+        <li
+          key={`${violation.policyName}-${index}`}
+          className={cn(
+            "text-xs",
+            violation.severity === "BLOCK" ? "text-red-700" : "text-orange-700"
+          )}
+          title={violation.policyName}
+        >
+          ⚠ {violation.message}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
 interface PendingApprovalsTableProps {
   expenses: ExpenseItem[];
   onApprove?: (expenseId: string) => void;
@@ -65,6 +138,7 @@ const PendingApprovalsTable: FC<PendingApprovalsTableProps> = ({
             <TableHead>Category</TableHead>
             <TableHead>Status</TableHead>
             <TableHead>Submitted</TableHead>
+            <TableHead>Due</TableHead>
             <TableHead>Actions</TableHead>
           </TableRow>
         </TableHeader>
@@ -74,11 +148,17 @@ const PendingApprovalsTable: FC<PendingApprovalsTableProps> = ({
               <TableCell className="font-medium">
                 {expense.employeeName}
               </TableCell>
-              <TableCell>{expense.description}</TableCell>
+              <TableCell>
+                {expense.description}
+                <PolicyFlags expense={expense} />
+              </TableCell>
               <TableCell>
                 <CurrencyDisplay
                   amount={expense.amount}
                   currency={expense.currency}
+                  baseCurrency={expense.baseCurrency}
+                  convertedAmount={expense.baseAmount}
+                  exchangeRate={expense.exchangeRate}
                 />
               </TableCell>
               <TableCell>{expense.category}</TableCell>
@@ -86,6 +166,9 @@ const PendingApprovalsTable: FC<PendingApprovalsTableProps> = ({
                 <StatusBadge status={expense.status} />
               </TableCell>
               <TableCell>{expense.submittedAt.toLocaleDateString()}</TableCell>
+              <TableCell>
+                <SlaIndicator expense={expense} />
+              </TableCell>
               <TableCell>
                 <div className="flex space-x-2">
                   <Button
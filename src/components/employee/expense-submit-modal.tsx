@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import { cn, formatDate } from "@/lib/utils";
 import { 
   Upload, 
@@ -26,8 +27,12 @@ import {
   FileCheck,
   Sparkles,
   AlertCircle,
+  Briefcase,
+  Plus,
+  Trash2,
 } from "lucide-react";
 import { useDropzone } from "react-dropzone";
+import AuthService from "@/services/auth.service";
 
 interface ExpenseSubmitModalProps {
   open: boolean;
@@ -47,6 +52,100 @@ const mockCategories = [
   { id: "8", name: "Equipment", icon: "🔧" },
 ];
 
+// How often and how long to wait for the OCR worker
+const OCR_POLL_INTERVAL_MS = 2000;
+const OCR_MAX_POLLS = 30;
+
+interface ReceiptOCRResponse {
+  status: "processing" | "completed" | "failed" | "skipped";
+  suggestions: {
+    amount?: number;
+    currency?: string;
+    merchantName?: string;
+    date?: string;
+    lineItems?: { description: string; amount: number; taxAmount?: number }[];
+    confidence: number;
+  };
+}
+
+// A line of an itemised expense as typed in the form; amounts include tax
+interface LineItemDraft {
+  description: string;
+  categoryId: string;
+  amount: string;
+  taxAmount: string;
+}
+
+const emptyLineItem = (): LineItemDraft => ({
+  description: "",
+  categoryId: "",
+  amount: "",
+  taxAmount: "",
+});
+
+// Summed in cents so the total matches the expense amount exactly
+const lineItemsTotal = (lines: LineItemDraft[]) =>
+  lines.reduce((sum, line) => sum + Math.round((parseFloat(line.amount) || 0) * 100), 0) / 100;
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+async function uploadReceipt(file: File): Promise<string> {
+  const body = new FormData();
+  body.append("file", file);
+
+  const response = await fetch("/api/receipts", {
+    method: "POST",
+    headers: authHeaders(),
+    body,
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to upload receipt");
+  }
+
+  return result.data.receipt.id;
+}
+
+async function fetchReceiptOCR(receiptId: string): Promise<ReceiptOCRResponse> {
+  const response = await fetch(`/api/receipts/${receiptId}/ocr`, {
+    headers: authHeaders(),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch OCR results");
+  }
+
+  return result.data;
+}
+
+interface ProjectOption {
+  id: string;
+  code: string;
+  name: string;
+  clientName: string;
+}
+
+// Select items can't have an empty value
+const NO_PROJECT = "none";
+
+async function fetchProjects(): Promise<ProjectOption[]> {
+  const response = await fetch("/api/projects", {
+    headers: authHeaders(),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || "Failed to load projects");
+  }
+
+  return result.data;
+}
+
 const supportedCurrencies = [
   { code: "USD", symbol: "$", name: "US Dollar" },
   { code: "EUR", symbol: "€", name: "Euro" },
@@ -59,39 +158,121 @@ const supportedCurrencies = [
 
 export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingExpense }: ExpenseSubmitModalProps) {
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [receiptId, setReceiptId] = useState<string | null>(null);
   const [isProcessingOCR, setIsProcessingOCR] = useState(false);
+  const [ocrMessage, setOcrMessage] = useState<string | null>(null);
   const [ocrResults, setOcrResults] = useState<{
     confidence: number;
     description?: string;
     amount?: number;
+    currency?: string;
     date?: Date;
+    lineItems?: LineItemDraft[];
   } | null>(null);
+  // Bumped whenever the receipt changes so stale polls stop
+  const uploadRef = useRef(0);
+
+  useEffect(() => {
+    const uploads = uploadRef;
+    return () => {
+      uploads.current += 1;
+    };
+  }, []);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
   const [formData, setFormData] = useState({
     description: "",
     expenseDate: new Date(),
     categoryId: "",
     amount: "",
     currency: baseCurrency,
+    projectId: "",
+    isBillable: false,
     remarks: "",
   });
+  // Empty unless the expense is itemised
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchProjects()
+      .then((data) => {
+        if (!cancelled) setProjects(data);
+      })
+      .catch(() => {
+        // The picker stays empty; expenses can be saved without a project
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (!file) return;
 
     setReceiptFile(file);
+    setOcrResults(null);
+    setOcrMessage(null);
     setIsProcessingOCR(true);
 
-    // Simulate OCR processing
-    setTimeout(() => {
-      setOcrResults({
-        confidence: 0.85,
-        description: "Business lunch at restaurant",
-        amount: 120.50,
-        date: new Date(),
-      });
-      setIsProcessingOCR(false);
-    }, 2000);
+    const upload = ++uploadRef.current;
+    const isCurrent = () => uploadRef.current === upload;
+
+    (async () => {
+      try {
+        const id = await uploadReceipt(file);
+        if (!isCurrent()) return;
+        setReceiptId(id);
+
+        for (let poll = 0; poll < OCR_MAX_POLLS; poll++) {
+          const ocr = await fetchReceiptOCR(id);
+          if (!isCurrent()) return;
+
+          if (ocr.status === "completed") {
+            const { suggestions } = ocr;
+            if (suggestions.amount === undefined && !suggestions.merchantName) {
+              setOcrMessage("We couldn't read this receipt. Please fill in the details.");
+            } else {
+              setOcrResults({
+                confidence: suggestions.confidence,
+                description: suggestions.merchantName,
+                amount: suggestions.amount,
+                currency: suggestions.currency,
+                date: suggestions.date ? new Date(`${suggestions.date}T00:00:00`) : undefined,
+                lineItems: suggestions.lineItems?.map((line) => ({
+                  ...emptyLineItem(),
+                  description: line.description,
+                  amount: line.amount.toFixed(2),
+                  taxAmount: line.taxAmount !== undefined ? line.taxAmount.toFixed(2) : "",
+                })),
+              });
+            }
+            return;
+          }
+          if (ocr.status !== "processing") {
+            setOcrMessage(
+              ocr.status === "failed"
+                ? "We couldn't read this receipt. Please fill in the details."
+                : null
+            );
+            return;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, OCR_POLL_INTERVAL_MS));
+        }
+
+        setOcrMessage("Receipt is still being processed. You can fill in the details yourself.");
+      } catch (error) {
+        if (isCurrent()) {
+          setOcrMessage((error as Error).message);
+        }
+      } finally {
+        if (isCurrent()) {
+          setIsProcessingOCR(false);
+        }
+      }
+    })();
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -105,8 +286,12 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
   });
 
   const handleRemoveReceipt = () => {
+    uploadRef.current += 1;
     setReceiptFile(null);
+    setReceiptId(null);
     setOcrResults(null);
+    setOcrMessage(null);
+    setIsProcessingOCR(false);
   };
 
   const handleApplyOCRResults = () => {
@@ -115,19 +300,34 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
         ...formData,
         description: ocrResults.description || formData.description,
         amount: ocrResults.amount?.toString() || formData.amount,
+        currency:
+          ocrResults.currency &&
+          supportedCurrencies.some((currency) => currency.code === ocrResults.currency)
+            ? ocrResults.currency
+            : formData.currency,
         expenseDate: ocrResults.date || formData.expenseDate,
       });
+      if (ocrResults.lineItems) {
+        setLineItems(ocrResults.lineItems);
+      }
       setOcrResults(null);
     }
   };
 
+  const updateLineItem = (index: number, changes: Partial<LineItemDraft>) => {
+    setLineItems((lines) => lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const linesTotal = lineItemsTotal(lineItems);
+  const linesRemaining = Math.round(((parseFloat(formData.amount) || 0) - linesTotal) * 100) / 100;
+
   const handleSubmit = () => {
-    console.log("Submitting expense:", formData);
+    console.log("Submitting expense:", { ...formData, lineItems, receiptIds: receiptId ? [receiptId] : [] });
     onOpenChange(false);
   };
 
   const handleSaveDraft = () => {
-    console.log("Saving draft:", formData);
+    console.log("Saving draft:", { ...formData, lineItems, receiptIds: receiptId ? [receiptId] : [] });
     onOpenChange(false);
   };
 
@@ -138,10 +338,12 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
       categoryId: "",
       amount: "",
       currency: baseCurrency,
+      projectId: "",
+      isBillable: false,
       remarks: "",
     });
-    setReceiptFile(null);
-    setOcrResults(null);
+    setLineItems([]);
+    handleRemoveReceipt();
     onOpenChange(false);
   };
 
@@ -246,7 +448,7 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
                         <div>
                           <p className="text-sm font-semibold text-blue-900 flex items-center gap-2">
                             <Sparkles className="h-4 w-4" />
-                            Processing receipt with AI...
+                            Reading your receipt...
                           </p>
                           <p className="text-xs text-blue-700 mt-1">
                             Extracting expense details automatically
@@ -256,6 +458,15 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
                     </div>
                   )}
 
+                  {ocrMessage && (
+                    <div className="bg-amber-50 border-2 border-amber-200 rounded-xl p-4">
+                      <div className="flex items-center gap-3">
+                        <AlertCircle className="h-5 w-5 text-amber-600 flex-shrink-0" />
+                        <p className="text-sm text-amber-900">{ocrMessage}</p>
+                      </div>
+                    </div>
+                  )}
+
                   {ocrResults && (
                     <div className="bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-200 rounded-xl p-4">
                       <div className="flex items-start justify-between gap-4">
@@ -266,7 +477,16 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
                               Receipt processed successfully!
                             </p>
                             <p className="text-xs text-green-700 mt-1">
-                              Found: {ocrResults.description} • ${ocrResults.amount}
+                              Found: {[
+                                ocrResults.description,
+                                ocrResults.amount !== undefined &&
+                                  `${ocrResults.currency ?? formData.currency} ${ocrResults.amount.toFixed(2)}`,
+                                ocrResults.date && formatDate(ocrResults.date),
+                                ocrResults.lineItems &&
+                                  `${ocrResults.lineItems.length} line item${ocrResults.lineItems.length === 1 ? "" : "s"}`,
+                              ]
+                                .filter(Boolean)
+                                .join(" • ")}
                             </p>
                           </div>
                         </div>
@@ -410,6 +630,142 @@ export function ExpenseSubmitModal({ open, onOpenChange, baseCurrency, editingEx
                   </div>
                 </div>
 
+                {/* Line Items */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-sm font-semibold text-gray-900">Line Items</Label>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Split one bill over several categories, with the tax on each line
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setLineItems([...lineItems, emptyLineItem()])}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add line
+                    </Button>
+                  </div>
+
+                  {lineItems.length > 0 && (
+                    <div className="space-y-2">
+                      {lineItems.map((line, index) => (
+                        <div key={index} className="grid grid-cols-[1fr_180px_110px_100px_auto] gap-2">
+                          <Input
+                            value={line.description}
+                            onChange={(e) => updateLineItem(index, { description: e.target.value })}
+                            placeholder="e.g., Room, 2 nights"
+                          />
+                          <Select
+                            value={line.categoryId}
+                            onValueChange={(categoryId) => updateLineItem(index, { categoryId })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Category" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {mockCategories.map((category) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {category.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={line.amount}
+                            onChange={(e) => updateLineItem(index, { amount: e.target.value })}
+                            placeholder="Amount"
+                          />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={line.taxAmount}
+                            onChange={(e) => updateLineItem(index, { taxAmount: e.target.value })}
+                            placeholder="Tax"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLineItems(lineItems.filter((_, i) => i !== index))}
+                          >
+                            <Trash2 className="h-4 w-4 text-gray-500" />
+                          </Button>
+                        </div>
+                      ))}
+                      <p className={cn("text-xs text-right", linesRemaining === 0 ? "text-gray-500" : "text-red-600")}>
+                        Lines total {linesTotal.toFixed(2)} {formData.currency}
+                        {linesRemaining !== 0 &&
+                          ` • ${Math.abs(linesRemaining).toFixed(2)} ${linesRemaining > 0 ? "left to itemise" : "over the amount"}`}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Project and Billable */}
+                <div className="grid grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-semibold text-gray-900">
+                      Client Project
+                    </Label>
+                    <Select
+                      value={formData.projectId || NO_PROJECT}
+                      onValueChange={(value) =>
+                        setFormData({
+                          ...formData,
+                          projectId: value === NO_PROJECT ? "" : value,
+                          isBillable: value === NO_PROJECT ? false : formData.isBillable,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-12 text-base">
+                        <SelectValue placeholder="No project" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            <span className="flex items-center gap-2">
+                              <Briefcase className="h-4 w-4 text-gray-400" />
+                              <span className="font-semibold">{project.code}</span>
+                              <span>{project.name}</span>
+                              <span className="text-gray-500">- {project.clientName}</span>
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-semibold text-gray-900">Billing</Label>
+                    <label
+                      htmlFor="isBillable"
+                      className={cn(
+                        "flex items-center gap-3 h-12 px-4 border rounded-md",
+                        formData.projectId ? "cursor-pointer" : "opacity-50 cursor-not-allowed"
+                      )}
+                    >
+                      <Checkbox
+                        id="isBillable"
+                        checked={formData.isBillable}
+                        disabled={!formData.projectId}
+                        onCheckedChange={(checked) =>
+                          setFormData({ ...formData, isBillable: checked === true })
+                        }
+                      />
+                      <span className="text-sm text-gray-900">Billable to the client</span>
+                    </label>
+                  </div>
+                </div>
+
                 {/* Additional Notes */}
                 <div className="space-y-2">
                   <Label htmlFor="remarks" className="text-sm font-semibold text-gray-900">
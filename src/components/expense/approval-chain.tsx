@@ -0,0 +1,149 @@
+"use client";
+
+import { FC } from "react";
+import { CheckCircle, Circle, Clock, MinusCircle, XCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { StatusBadge } from "@/components/shared/status-badge";
+import { cn } from "@/lib/utils";
+import {
+  describeApprovalAction,
+  getApprovalSlaStatus,
+  type ApprovalChainStep,
+} from "@/lib/approval-chain";
+
+interface ApprovalChainProps {
+  steps: ApprovalChainStep[];
+  className?: string;
+}
+
+const formatTimestamp = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : null;
+
+const StepIcon: FC<{ step: ApprovalChainStep }> = ({ step }) => {
+  if (step.state === "done") {
+    return step.status === "REJECTED" ? (
+      <XCircle className="h-5 w-5 text-red-500" />
+    ) : (
+      <CheckCircle className="h-5 w-5 text-green-500" />
+    );
+  }
+  if (step.state === "current") {
+    return <Clock className="h-5 w-5 text-orange-500" />;
+  }
+  if (step.state === "skipped") {
+    return <MinusCircle className="h-5 w-5 text-gray-300" />;
+  }
+  return <Circle className="h-5 w-5 text-gray-300" />;
+};
+
+const ApprovalChain: FC<ApprovalChainProps> = ({ steps, className }) => {
+  if (steps.length === 0) {
+    return (
+      <Card className={className}>
+        <CardContent className="p-6 text-sm text-gray-500">
+          No approval steps for this expense.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">
+          Approval Chain
+        </h3>
+
+        <ol className="space-y-4">
+          {steps.map((step, index) => {
+            const showRule =
+              step.ruleName && steps[index - 1]?.ruleId !== step.ruleId;
+
+            return (
+              <li key={step.id}>
+                {showRule && (
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">
+                    {step.ruleName}
+                    {step.isSequential ? " · in sequence" : " · in parallel"}
+                  </p>
+                )}
+
+                <div
+                  className={cn(
+                    "flex items-start gap-3 rounded-lg border p-3",
+                    step.state === "current" && "border-orange-200 bg-orange-50",
+                    step.state === "upcoming" && "opacity-70",
+                    step.state === "skipped" && "opacity-50"
+                  )}
+                >
+                  <StepIcon step={step} />
+
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {step.stepOrder ? `${step.stepOrder}. ` : ""}
+                          {step.approver.name}
+                          {step.isManagerStep && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">
+                              Manager
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {step.approver.email}
+                        </p>
+                      </div>
+                      <StatusBadge status={step.status} variant="compact" />
+                    </div>
+
+                    <div className="text-xs text-gray-500 space-y-0.5">
+                      {step.state === "upcoming" && (
+                        <p>Waiting for earlier approvers</p>
+                      )}
+                      {step.activatedAt && (
+                        <p>Assigned {formatTimestamp(step.activatedAt)}</p>
+                      )}
+                      {step.escalatedFrom && (
+                        <p>
+                          Escalated from {step.escalatedFrom.name}
+                          {step.escalatedAt &&
+                            ` on ${formatTimestamp(step.escalatedAt)}`}
+                        </p>
+                      )}
+                      {step.state === "current" && step.dueAt && (
+                        <p
+                          className={cn(
+                            getApprovalSlaStatus(step.dueAt)?.state ===
+                              "overdue" && "font-medium text-red-600"
+                          )}
+                        >
+                          Due {formatTimestamp(step.dueAt)} ·{" "}
+                          {getApprovalSlaStatus(step.dueAt)?.label}
+                        </p>
+                      )}
+                      {step.processedAt && (
+                        <p>
+                          {describeApprovalAction(step) ?? "Closed"} on{" "}
+                          {formatTimestamp(step.processedAt)}
+                        </p>
+                      )}
+                    </div>
+
+                    {step.comments && (
+                      <p className="text-sm text-gray-700 whitespace-pre-line">
+                        {step.comments}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApprovalChain;
@@ -1,13 +1,17 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { cn, formatCurrency } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
 
 interface CurrencyDisplayProps {
   amount: number;
   currency: string;
-  baseCurrency?: string;
-  convertedAmount?: number;
-  exchangeRate?: number;
+  baseCurrency?: string | null;
+  // Amount in baseCurrency, e.g. the expense's locked baseAmount
+  convertedAmount?: number | null;
+  // Units of baseCurrency per unit of currency
+  exchangeRate?: number | null;
   variant?: "default" | "large" | "compact";
   showConversion?: boolean;
   className?: string;
@@ -31,11 +35,12 @@ export function CurrencyDisplay({
     compact: "text-sm",
   };
 
-  const shouldShowConversion = 
-    showConversion && 
-    baseCurrency && 
-    currency !== baseCurrency && 
-    convertedAmount !== undefined;
+  const shouldShowConversion =
+    showConversion &&
+    baseCurrency &&
+    currency !== baseCurrency &&
+    convertedAmount !== undefined &&
+    convertedAmount !== null;
 
   return (
     <div className={cn("space-y-1", className)}>
@@ -61,7 +66,7 @@ export function CurrencyDisplay({
               "text-xs text-gray-500",
               variant === "compact" && "text-[10px]"
             )}>
-              @ {exchangeRate} {currency}/{baseCurrency}
+              1 {currency} = {Number(exchangeRate.toPrecision(6))} {baseCurrency}
             </div>
           )}
         </div>
@@ -168,18 +173,81 @@ export const COMMON_CURRENCIES = [
   { code: "SGD", name: "Singapore Dollar", symbol: "S$" },
 ];
 
-// Currency conversion utility hook (placeholder for future implementation)
+interface CurrencyConversionState {
+  convertedAmount?: number;
+  exchangeRate?: number;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Converts with the company's exchange rates, for amounts that don't have a
+// locked base amount yet (e.g. while an expense is being entered). `date` is
+// the rate date (YYYY-MM-DD); the latest rate is used without one.
 export function useCurrencyConversion(
   amount: number,
   fromCurrency: string,
-  toCurrency: string
-) {
-  // This would integrate with a real currency API
-  // For now, return mock data
-  return {
-    convertedAmount: amount * 1.1, // Mock conversion rate
-    exchangeRate: 1.1,
+  toCurrency: string,
+  date?: string
+): CurrencyConversionState {
+  const [state, setState] = useState<CurrencyConversionState>({
     isLoading: false,
     error: null,
-  };
-}
\ No newline at end of file
+  });
+
+  useEffect(() => {
+    if (fromCurrency === toCurrency) {
+      setState({
+        convertedAmount: amount,
+        exchangeRate: 1,
+        isLoading: false,
+        error: null,
+      });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ isLoading: true, error: null });
+
+    const params = new URLSearchParams({
+      amount: String(amount),
+      from: fromCurrency,
+      to: toCurrency,
+      ...(date && { date }),
+    });
+    const token = AuthService.getToken();
+
+    fetch(`/api/exchange-rates/convert?${params}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    })
+      .then((response) => response.json())
+      .then((result) => {
+        if (cancelled) return;
+        setState(
+          result.success
+            ? {
+                convertedAmount: result.data.convertedAmount,
+                exchangeRate: result.data.rate,
+                isLoading: false,
+                error: null,
+              }
+            : {
+                isLoading: false,
+                error: result.message || "Conversion unavailable",
+              }
+        );
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setState({ isLoading: false, error: "Conversion unavailable" });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [amount, fromCurrency, toCurrency, date]);
+
+  return state;
+}
+
+export default CurrencyDisplay;
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, RefreshCw } from "lucide-react";
+import { StatusBadge } from "@/components/shared/status-badge";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import AuthService from "@/services/auth.service";
+
+interface ExpenseSummary {
+  id: string;
+  description: string;
+  remarks?: string | null;
+  expenseDate: string | Date;
+  amount: number;
+  currency: string;
+  status: string;
+  category?: { name: string } | null;
+  createdAt?: string | Date;
+}
+
+interface ActivityEvent {
+  id: string;
+  entityType: string;
+  action: string;
+  changes: Record<string, { before: unknown; after: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  actor: { id: string; name: string; email: string } | null;
+  createdAt: string;
+}
+
+interface ExpenseDetailDialogProps {
+  expense: ExpenseSummary;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const authHeaders = (): HeadersInit => {
+  const token = AuthService.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const errorMessage = (
+  result: { error?: { message?: string; details?: string[] } },
+  fallback: string
+) => {
+  const message = result.error?.message || fallback;
+  return result.error?.details?.length
+    ? `${message}: ${result.error.details.join("; ")}`
+    : message;
+};
+
+// "pending_approval" -> "Pending approval"
+const humanize = (value: string) => {
+  const text = value.replace(/_/g, " ").toLowerCase();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const describeEvent = (event: ActivityEvent) =>
+  event.entityType === "APPROVAL"
+    ? `Approval step ${humanize(event.action).toLowerCase()}`
+    : humanize(event.action);
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * An expense's details, and its activity: who changed what, and each
+ * approval decision, oldest first
+ */
+export function ExpenseDetailDialog({ expense, open, onOpenChange }: ExpenseDetailDialogProps) {
+  const [tab, setTab] = useState("details");
+  const [events, setEvents] = useState<ActivityEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadActivity = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}/activity`, { headers: authHeaders() });
+      const result = await response.json();
+      if (result.success) {
+        setEvents(result.data);
+      } else {
+        setError(errorMessage(result, "Failed to load activity"));
+      }
+    } catch {
+      setError("Failed to load activity");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Activity is fetched the first time its tab is opened
+  const changeTab = (value: string) => {
+    setTab(value);
+    if (value === "activity" && events === null) {
+      loadActivity();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{expense.description}</DialogTitle>
+          <DialogDescription>
+            {formatCurrency(expense.amount, expense.currency)} · {formatDate(expense.expenseDate)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={changeTab}>
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="space-y-3 pt-2">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs text-gray-500">Status</p>
+                <StatusBadge status={expense.status} variant="compact" />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Category</p>
+                <p className="font-medium text-gray-900">{expense.category?.name ?? "—"}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Amount</p>
+                <p className="font-medium text-gray-900">{formatCurrency(expense.amount, expense.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Expense date</p>
+                <p className="font-medium text-gray-900">{formatDate(expense.expenseDate)}</p>
+              </div>
+            </div>
+            {expense.remarks && (
+              <div className="text-sm">
+                <p className="text-xs text-gray-500">Remarks</p>
+                <p className="text-gray-700">{expense.remarks}</p>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="activity" className="pt-2">
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-sm text-gray-600 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Every change to this expense
+              </p>
+              <Button variant="ghost" size="sm" onClick={loadActivity} disabled={isLoading}>
+                <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {events && events.length === 0 && (
+              <p className="text-sm text-gray-500">No activity recorded yet.</p>
+            )}
+
+            {events && events.length > 0 && (
+              <ol className="max-h-[50vh] overflow-y-auto space-y-3 border-l border-gray-200 pl-4">
+                {events.map((event) => (
+                  <li key={event.id} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold text-gray-900">{describeEvent(event)}</span>
+                      <span className="text-gray-500">by {event.actor?.name ?? "a former user"}</span>
+                      {typeof event.metadata?.outcome === "string" && (
+                        <Badge variant="outline" className="text-xs">{humanize(event.metadata.outcome)}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</p>
+                    {event.changes && (
+                      <ul className="text-xs text-gray-700 space-y-0.5">
+                        {Object.entries(event.changes).map(([field, change]) => (
+                          <li key={field}>
+                            <span className="font-medium">{field}</span>: {formatValue(change.before)} →{" "}
+                            {formatValue(change.after)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ExpenseDetailDialog;
@@ -45,6 +45,24 @@ export function StatusBadge({
           icon: Clock,
           className: "bg-gradient-to-r from-orange-50 to-amber-50 text-orange-700 border-orange-200 shadow-sm",
         };
+      case "WAITING":
+        return {
+          label: "Upcoming",
+          icon: Clock,
+          className: "bg-gradient-to-r from-gray-50 to-slate-50 text-gray-600 border-gray-200 shadow-sm",
+        };
+      case "SUPERSEDED":
+        return {
+          label: "Superseded",
+          icon: AlertCircle,
+          className: "bg-gradient-to-r from-gray-50 to-slate-50 text-gray-500 border-gray-200 shadow-sm",
+        };
+      case "SKIPPED":
+        return {
+          label: "Skipped",
+          icon: AlertCircle,
+          className: "bg-gradient-to-r from-gray-50 to-slate-50 text-gray-500 border-gray-200 shadow-sm",
+        };
       case "DRAFT":
         return {
           label: "Draft",
@@ -8,18 +8,23 @@ import React, {
   ReactNode,
 } from "react";
 import { User } from "@/lib/jwt";
-import AuthService from "@/services/auth.service";
+import AuthService, { TwoFactorChallenge } from "@/services/auth.service";
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
+  // Resolves with the challenge when the user has a two-factor step to pass
+  signIn: (
+    email: string,
+    password: string
+  ) => Promise<TwoFactorChallenge | void>;
   signUp: (userData: {
     adminName: string;
     email: string;
     companyName: string;
     country: string;
+    baseCurrency: string;
     password: string;
   }) => Promise<void>;
   signOut: () => Promise<void>;
@@ -68,6 +73,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const signIn = async (email: string, password: string) => {
     try {
       const response = await AuthService.signIn({ email, password });
+      if (response.twoFactor || !response.user) {
+        return response.twoFactor;
+      }
       setUser(response.user);
       AuthService.redirectByRole(response.user);
     } catch (error) {
@@ -80,12 +88,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     email: string;
     companyName: string;
     country: string;
+    baseCurrency: string;
     password: string;
   }) => {
     try {
       await AuthService.signUp(userData);
       // Note: signUp doesn't automatically sign in the user
-      // They need to sign in separately after account creation
+      // They verify their email, then sign in separately
     } catch (error) {
       throw error;
     }
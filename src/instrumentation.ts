@@ -0,0 +1,13 @@
+/**
+ * Next.js startup hook
+ * Runs the background queue workers in the Node.js server when enabled
+ */
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    process.env.ENABLE_QUEUE_WORKERS === "true"
+  ) {
+    const { startWorkers } = await import("./workers");
+    await startWorkers();
+  }
+}
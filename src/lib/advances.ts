@@ -0,0 +1,66 @@
+/**
+ * Cash advances
+ * Money paid to an employee before they spend it, e.g. for a trip. The
+ * expenses they submit against the advance are netted off it: once they are
+ * decided, whatever the approved expenses don't cover is owed back to the
+ * company, and anything above the advance is still payable to the employee.
+ * All amounts are in the company base currency.
+ */
+
+// Advances whose cash is out with the employee and not yet settled
+export const OUTSTANDING_ADVANCE_STATUSES = ["DISBURSED"] as const;
+
+// Advances expenses can still be linked to
+export const LINKABLE_ADVANCE_STATUSES = ["APPROVED", "DISBURSED"] as const;
+
+export interface AdvanceBalance {
+  currency: string;
+  advanceAmount: number;
+  expenseCount: number;
+  // Submitted expenses still waiting for a decision
+  pendingAmount: number;
+  approvedAmount: number;
+  // What the employee owes back if nothing else is approved
+  owedByEmployee: number;
+  // Approved expenses beyond the advance, still to be paid to the employee
+  payableToEmployee: number;
+  // Expenses linked while still drafts; not counted until submitted
+  draftExpenses: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Net an advance off the expenses submitted against it. Rejected expenses
+ * are left out; expenses without a locked base amount are counted at face
+ * value, as in the report totals.
+ */
+export function calculateAdvanceBalance(
+  advance: { amount: unknown; currency: string },
+  expenses: { amount: unknown; baseAmount: unknown; status: string }[]
+): AdvanceBalance {
+  let pendingCents = 0;
+  let approvedCents = 0;
+  let draftExpenses = 0;
+
+  for (const expense of expenses) {
+    const cents = toCents(Number(expense.baseAmount ?? expense.amount));
+    if (expense.status === "APPROVED") approvedCents += cents;
+    else if (expense.status === "PENDING_APPROVAL") pendingCents += cents;
+    else if (expense.status === "DRAFT") draftExpenses++;
+  }
+
+  const advanceCents = toCents(Number(advance.amount));
+  const balanceCents = advanceCents - approvedCents;
+
+  return {
+    currency: advance.currency,
+    advanceAmount: advanceCents / 100,
+    expenseCount: expenses.length,
+    pendingAmount: pendingCents / 100,
+    approvedAmount: approvedCents / 100,
+    owedByEmployee: Math.max(balanceCents, 0) / 100,
+    payableToEmployee: Math.max(-balanceCents, 0) / 100,
+    draftExpenses,
+  };
+}
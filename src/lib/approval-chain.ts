@@ -0,0 +1,256 @@
+/**
+ * Approval chain helpers
+ * Turns the ExpenseApproval rows of an expense into an ordered chain of steps
+ * (done, current, upcoming) for display on the expense detail view
+ */
+
+export type ApprovalChainState = "done" | "current" | "upcoming" | "skipped";
+
+export interface ApprovalChainStep {
+  id: string;
+  ruleId: string | null;
+  ruleName: string | null;
+  isSequential: boolean;
+  stepOrder: number | null;
+  isManagerStep: boolean;
+  status: string;
+  state: ApprovalChainState;
+  comments: string | null;
+  approver: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  // Set when a delegate decided the step on the approver's behalf
+  actedBy: { id: string; name: string } | null;
+  // Set when the step was reassigned after its SLA deadline passed
+  escalatedFrom: { id: string; name: string } | null;
+  createdAt: string;
+  activatedAt: string | null;
+  dueAt: string | null;
+  escalatedAt: string | null;
+  processedAt: string | null;
+}
+
+interface ApprovalChainRecord {
+  id: string;
+  status: string;
+  comments: string | null;
+  stepOrder: number | null;
+  isManagerStep: boolean;
+  createdAt: Date;
+  activatedAt: Date | null;
+  dueAt?: Date | null;
+  escalatedAt?: Date | null;
+  processedAt: Date | null;
+  ruleId: string | null;
+  approver: { id: string; name?: string; email?: string };
+  actedBy?: { id: string; name: string } | null;
+  escalatedFrom?: { id: string; name: string } | null;
+  approvalRule?: { name: string; isSequenceRequired: boolean } | null;
+}
+
+/**
+ * Map an approval status onto its position in the chain
+ */
+export function getApprovalChainState(status: string): ApprovalChainState {
+  switch (status) {
+    case "APPROVED":
+    case "REJECTED":
+      return "done";
+    case "PENDING":
+      return "current";
+    case "WAITING":
+      return "upcoming";
+    default:
+      return "skipped";
+  }
+}
+
+/**
+ * Build the ordered approval chain for an expense.
+ * Steps are grouped by rule (in the order the rules were applied) and ordered
+ * by their position within the rule.
+ */
+export function buildApprovalChain(
+  approvals: ApprovalChainRecord[]
+): ApprovalChainStep[] {
+  return [...approvals]
+    .sort((a, b) => {
+      if (a.ruleId !== b.ruleId) {
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      }
+      return (a.stepOrder ?? 0) - (b.stepOrder ?? 0);
+    })
+    .map((approval) => ({
+      id: approval.id,
+      ruleId: approval.ruleId,
+      ruleName: approval.approvalRule?.name ?? null,
+      isSequential: approval.approvalRule?.isSequenceRequired ?? false,
+      stepOrder: approval.stepOrder,
+      isManagerStep: approval.isManagerStep,
+      status: approval.status,
+      state: getApprovalChainState(approval.status),
+      comments: approval.comments,
+      approver: {
+        id: approval.approver.id,
+        name: approval.approver.name ?? "",
+        email: approval.approver.email ?? "",
+      },
+      actedBy: approval.actedBy ?? null,
+      escalatedFrom: approval.escalatedFrom ?? null,
+      createdAt: approval.createdAt.toISOString(),
+      activatedAt: approval.activatedAt?.toISOString() ?? null,
+      dueAt: approval.dueAt?.toISOString() ?? null,
+      escalatedAt: approval.escalatedAt?.toISOString() ?? null,
+      processedAt: approval.processedAt?.toISOString() ?? null,
+    }));
+}
+
+/**
+ * Describe who decided a step, e.g. "Approved by Jane on behalf of Sam".
+ * Returns null for steps without a decision.
+ */
+export function describeApprovalAction(
+  step: Pick<ApprovalChainStep, "status" | "approver" | "actedBy">
+): string | null {
+  if (step.status !== "APPROVED" && step.status !== "REJECTED") {
+    return null;
+  }
+
+  const verb = step.status === "APPROVED" ? "Approved" : "Rejected";
+
+  return step.actedBy
+    ? `${verb} by ${step.actedBy.name} on behalf of ${step.approver.name}`
+    : `${verb} by ${step.approver.name}`;
+}
+
+export type ApprovalSlaState = "on-track" | "due-soon" | "overdue";
+
+export interface ApprovalSlaStatus {
+  state: ApprovalSlaState;
+  // Negative once the deadline has passed
+  remainingMs: number;
+  label: string;
+}
+
+// Steps within this window of their deadline are flagged as due soon
+const SLA_DUE_SOON_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Describe how close a pending step is to its SLA deadline,
+ * e.g. "5h left" or "Overdue by 2d 3h". Returns null when there is no deadline.
+ */
+export function getApprovalSlaStatus(
+  dueAt: Date | string | null | undefined,
+  now: Date = new Date()
+): ApprovalSlaStatus | null {
+  if (!dueAt) {
+    return null;
+  }
+
+  const remainingMs = new Date(dueAt).getTime() - now.getTime();
+  const totalHours = Math.floor(Math.abs(remainingMs) / (60 * 60 * 1000));
+  const days = Math.floor(totalHours / 24);
+  const hours = totalHours % 24;
+  const duration =
+    days > 0 ? `${days}d ${hours}h` : totalHours > 0 ? `${hours}h` : "<1h";
+
+  if (remainingMs <= 0) {
+    return { state: "overdue", remainingMs, label: `Overdue by ${duration}` };
+  }
+
+  return {
+    state: remainingMs <= SLA_DUE_SOON_MS ? "due-soon" : "on-track",
+    remainingMs,
+    label: `${duration} left`,
+  };
+}
+
+export type RuleQuorumOutcome = "approved" | "rejected" | "pending";
+
+// How a rule's required approvers combine with its percentage threshold
+export type RuleQuorumMode = "ALL" | "ANY";
+
+/**
+ * Decide whether the steps of one rule have reached a verdict.
+ * In ALL mode a rule is approved once the share of approving steps meets its
+ * minApprovalPercentage and every required approver has approved; it is
+ * rejected as soon as a required approver rejects or the remaining open steps
+ * can no longer reach the threshold. In ANY mode one required approver
+ * approving is enough on its own, as is meeting the threshold; the rule is
+ * rejected once neither can still happen. Either way manager steps are always
+ * required and don't count towards the percentage, which applies to the
+ * rule's approvers.
+ */
+export function evaluateRuleQuorum(
+  steps: Array<{ status: string; isRequired: boolean; isManagerStep?: boolean }>,
+  minApprovalPercentage: number | null,
+  quorumMode: RuleQuorumMode = "ALL"
+): RuleQuorumOutcome {
+  if (steps.length === 0) {
+    return "approved";
+  }
+
+  const approverSteps = steps.filter((step) => !step.isManagerStep);
+  const percentage = minApprovalPercentage ?? 100;
+  const needed =
+    approverSteps.length === 0
+      ? 0
+      : Math.max(1, Math.ceil((approverSteps.length * percentage) / 100));
+  const approved = approverSteps.filter(
+    (step) => step.status === "APPROVED"
+  ).length;
+  const open = approverSteps.filter(
+    (step) => step.status === "PENDING" || step.status === "WAITING"
+  ).length;
+
+  if (quorumMode === "ANY") {
+    const managerSteps = steps.filter((step) => step.isManagerStep);
+    const requiredSteps = approverSteps.filter((step) => step.isRequired);
+
+    if (managerSteps.some((step) => step.status === "REJECTED")) {
+      return "rejected";
+    }
+
+    const requiredApproved = requiredSteps.some(
+      (step) => step.status === "APPROVED"
+    );
+    if (
+      (requiredApproved || approved >= needed) &&
+      managerSteps.every((step) => step.status === "APPROVED")
+    ) {
+      return "approved";
+    }
+
+    const requiredOpen = requiredSteps.some(
+      (step) => step.status === "PENDING" || step.status === "WAITING"
+    );
+    if (!requiredApproved && !requiredOpen && approved + open < needed) {
+      return "rejected";
+    }
+
+    return "pending";
+  }
+
+  const required = steps.filter(
+    (step) => step.isRequired || step.isManagerStep
+  );
+
+  if (required.some((step) => step.status === "REJECTED")) {
+    return "rejected";
+  }
+
+  if (
+    approved >= needed &&
+    required.every((step) => step.status === "APPROVED")
+  ) {
+    return "approved";
+  }
+
+  if (approved + open < needed) {
+    return "rejected";
+  }
+
+  return "pending";
+}
@@ -5,6 +5,7 @@
 
 import { NextResponse } from "next/server";
 import { ApiResponse } from "@/types/api";
+import { AuditService } from "@/services/audit.service";
 
 // Error types and codes
 export const APPROVAL_ERROR_CODES = {
@@ -77,6 +78,13 @@ interface AuditLogEntry {
   userAgent?: string;
 }
 
+// AuditEvent entity of each audited resource
+const AUDIT_ENTITY_TYPES = {
+  expense: "EXPENSE",
+  approval: "APPROVAL",
+  rule: "APPROVAL_RULE",
+} as const;
+
 /**
  * Error Handler Class
  */
@@ -260,8 +268,18 @@ export class ApprovalAuditLogger {
         userAgent: entry.userAgent,
       });
 
-      // TODO: In production, store in dedicated audit table
-      // await prisma.auditLog.create({ data: entry });
+      await AuditService.record({
+        companyId: entry.companyId,
+        entityType: AUDIT_ENTITY_TYPES[entry.resourceType],
+        entityId: entry.resourceId,
+        expenseId:
+          typeof entry.metadata?.expenseId === "string"
+            ? entry.metadata.expenseId
+            : undefined,
+        action: entry.action,
+        metadata: { eventType: entry.eventType, ...entry.metadata },
+        actorId: entry.userId,
+      });
     } catch (error) {
       console.error("[AUDIT_LOG_ERROR] Failed to log audit event:", error);
     }
@@ -0,0 +1,214 @@
+/**
+ * Approval rule condition model and evaluator
+ * Conditions are stored as JSON on ApprovalRule.conditions and evaluated
+ * against a flattened view of the expense being submitted
+ */
+
+// Supported condition fields
+export const APPROVAL_CONDITION_FIELDS = [
+  "amount",
+  "category",
+  "submitterRole",
+  "currency",
+  "department",
+] as const;
+
+export type ApprovalConditionField =
+  (typeof APPROVAL_CONDITION_FIELDS)[number];
+
+export type AmountOperator = "gt" | "gte" | "lt" | "lte" | "between";
+export type ListOperator = "in" | "notIn";
+
+export interface AmountCondition {
+  field: "amount";
+  operator: AmountOperator;
+  value: number;
+  // Upper bound (inclusive), only used by "between"
+  valueTo?: number;
+}
+
+export interface ListCondition {
+  field: Exclude<ApprovalConditionField, "amount">;
+  operator: ListOperator;
+  value: string[];
+}
+
+export type ApprovalRuleCondition = AmountCondition | ListCondition;
+
+export interface ApprovalRuleConditionGroup {
+  operator: "AND" | "OR";
+  conditions: Array<ApprovalRuleCondition | ApprovalRuleConditionGroup>;
+}
+
+// Expense attributes a rule can be evaluated against
+export interface ApprovalRuleContext {
+  // Amount expressed in the company base currency
+  amount: number;
+  currency: string;
+  categoryId: string;
+  submitterRole: string;
+  // The submitter's department; "department is none of" matches without one
+  departmentId: string | null;
+}
+
+export function isConditionGroup(
+  node: ApprovalRuleCondition | ApprovalRuleConditionGroup
+): node is ApprovalRuleConditionGroup {
+  return "conditions" in node && Array.isArray(node.conditions);
+}
+
+function evaluateAmountCondition(
+  condition: AmountCondition,
+  amount: number
+): boolean {
+  switch (condition.operator) {
+    case "gt":
+      return amount > condition.value;
+    case "gte":
+      return amount >= condition.value;
+    case "lt":
+      return amount < condition.value;
+    case "lte":
+      return amount <= condition.value;
+    case "between":
+      return (
+        amount >= condition.value &&
+        amount <= (condition.valueTo ?? Number.POSITIVE_INFINITY)
+      );
+    default:
+      return false;
+  }
+}
+
+function evaluateListCondition(
+  condition: ListCondition,
+  context: ApprovalRuleContext
+): boolean {
+  const actual: Record<ListCondition["field"], string> = {
+    category: context.categoryId,
+    submitterRole: context.submitterRole,
+    currency: context.currency,
+    department: context.departmentId ?? "",
+  };
+  const isMember = condition.value.includes(actual[condition.field]);
+
+  return condition.operator === "in" ? isMember : !isMember;
+}
+
+/**
+ * Evaluate a single condition or a nested group against an expense context.
+ * An empty group matches everything so that "no conditions" means "always applies".
+ */
+export function evaluateConditionNode(
+  node: ApprovalRuleCondition | ApprovalRuleConditionGroup,
+  context: ApprovalRuleContext
+): boolean {
+  if (isConditionGroup(node)) {
+    if (node.conditions.length === 0) {
+      return true;
+    }
+
+    return node.operator === "AND"
+      ? node.conditions.every((child) => evaluateConditionNode(child, context))
+      : node.conditions.some((child) => evaluateConditionNode(child, context));
+  }
+
+  if (node.field === "amount") {
+    return evaluateAmountCondition(node, context.amount);
+  }
+
+  return evaluateListCondition(node, context);
+}
+
+/**
+ * Evaluate the stored conditions of a rule; rules without conditions always match
+ */
+export function ruleMatches(
+  conditions: ApprovalRuleConditionGroup | null | undefined,
+  context: ApprovalRuleContext
+): boolean {
+  if (!conditions) {
+    return true;
+  }
+
+  return evaluateConditionNode(conditions, context);
+}
+
+/**
+ * Select the rules that apply to an expense.
+ * Rules are walked in priority order (lowest number first); a matching rule
+ * with stopOnMatch prevents any later rule from being considered.
+ */
+export function selectApplicableRules<
+  T extends {
+    id: string;
+    priority: number;
+    stopOnMatch: boolean;
+    conditions: unknown;
+  }
+>(rules: T[], context: ApprovalRuleContext): T[] {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority);
+  const applicable: T[] = [];
+
+  for (const rule of ordered) {
+    if (
+      !ruleMatches(
+        rule.conditions as ApprovalRuleConditionGroup | null,
+        context
+      )
+    ) {
+      continue;
+    }
+
+    applicable.push(rule);
+
+    if (rule.stopOnMatch) {
+      break;
+    }
+  }
+
+  return applicable;
+}
+
+/**
+ * A rule as kept in the audit trail, with its approvers in chain order
+ */
+export function toAuditedRule(rule: {
+  name: string;
+  description: string | null;
+  isManagerApprovalRequired: boolean;
+  managerApprovalLevels: number;
+  isSequenceRequired: boolean;
+  minApprovalPercentage: number | null;
+  quorumMode: string;
+  isActive: boolean;
+  priority: number;
+  stopOnMatch: boolean;
+  conditions: unknown;
+  approvers: {
+    approverId: string;
+    sequenceOrder: number | null;
+    isRequired: boolean;
+  }[];
+}): Record<string, unknown> {
+  return {
+    name: rule.name,
+    description: rule.description,
+    isManagerApprovalRequired: rule.isManagerApprovalRequired,
+    managerApprovalLevels: rule.managerApprovalLevels,
+    isSequenceRequired: rule.isSequenceRequired,
+    minApprovalPercentage: rule.minApprovalPercentage,
+    quorumMode: rule.quorumMode,
+    isActive: rule.isActive,
+    priority: rule.priority,
+    stopOnMatch: rule.stopOnMatch,
+    conditions: rule.conditions,
+    approvers: [...rule.approvers]
+      .sort((a, b) => (a.sequenceOrder ?? 0) - (b.sequenceOrder ?? 0))
+      .map(({ approverId, sequenceOrder, isRequired }) => ({
+        approverId,
+        sequenceOrder,
+        isRequired,
+      })),
+  };
+}
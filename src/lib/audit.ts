@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import type { NextRequest } from "next/server";
+
+/**
+ * Audit trail
+ * Field diffs and the hash chain of AuditEvent, and the request context
+ * (actor, IP address, user agent) events are recorded under
+ */
+
+// { field: { before, after } }
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditRequestContext {
+  actorId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// The user fields audited; never the password hash
+export const USER_AUDIT_FIELDS = [
+  "email",
+  "name",
+  "role",
+  "managerId",
+  "departmentId",
+  "costCenterId",
+] as const;
+
+const requestContext = new AsyncLocalStorage<AuditRequestContext>();
+
+/**
+ * The audit context of an authenticated request
+ */
+export function auditContextFromRequest(
+  request: NextRequest,
+  actorId: string
+): AuditRequestContext {
+  // The first address is the client's when behind proxies
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  const ipAddress =
+    forwardedFor?.split(",")[0].trim() || request.headers.get("x-real-ip");
+
+  return {
+    actorId,
+    ipAddress: ipAddress?.slice(0, 64) || null,
+    userAgent: request.headers.get("user-agent")?.slice(0, 512) || null,
+  };
+}
+
+/**
+ * Run fn with the request's audit context; withAuth does this for every
+ * handler it wraps
+ */
+export function runWithAuditContext<T>(
+  context: AuditRequestContext,
+  fn: () => T
+): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * The audit context of the request being handled, if any
+ */
+export function getAuditContext(): AuditRequestContext | undefined {
+  return requestContext.getStore();
+}
+
+// JSON with object keys sorted, so a value hashes the same after a round
+// trip through a JSON column
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Plain JSON copy: Decimals and Dates become strings, undefined becomes null
+const toJsonValue = (value: unknown): unknown =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+/**
+ * The fields whose values differ between two versions of a record; only the
+ * given fields are compared when listed
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: readonly string[]
+): AuditChanges {
+  const keys =
+    fields ??
+    Array.from(
+      new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+    );
+
+  const changes: AuditChanges = {};
+  for (const key of keys) {
+    const previous = toJsonValue(before?.[key]);
+    const next = toJsonValue(after?.[key]);
+    if (canonicalJson(previous) !== canonicalJson(next)) {
+      changes[key] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+// The AuditEvent columns the hash covers
+export interface AuditChainFields {
+  companyId: string;
+  sequence: number;
+  entityType: string;
+  entityId: string;
+  expenseId: string | null;
+  action: string;
+  changes: unknown;
+  metadata: unknown;
+  actorId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  previousHash: string | null;
+  createdAt: Date;
+}
+
+/**
+ * SHA-256 of the event's content, chained to the previous event's hash
+ */
+export function hashAuditEvent(event: AuditChainFields): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      canonicalJson({
+        ...event,
+        changes: toJsonValue(event.changes),
+        metadata: toJsonValue(event.metadata),
+        createdAt: event.createdAt.toISOString(),
+      })
+    )
+    .digest("hex");
+}
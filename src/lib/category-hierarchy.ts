@@ -0,0 +1,156 @@
+/**
+ * Expense category hierarchy and budgets
+ * Categories form a tree through parentId. Spending on a category includes
+ * its subcategories, and so does its budget.
+ */
+
+export interface CategoryNode {
+  id: string;
+  parentId: string | null;
+}
+
+export type BudgetPeriodType = "MONTHLY" | "ANNUAL";
+export type BudgetState = "ok" | "warning" | "exceeded";
+
+// Share of the budget at which the admin dashboard starts warning
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+export const BUDGET_EXCEEDED_THRESHOLD = 1;
+
+// Expenses that count as spending against categories and budgets
+export const SPENDING_STATUSES = ["PENDING_APPROVAL", "APPROVED"] as const;
+
+function childrenByParent<T extends CategoryNode>(categories: T[]) {
+  const children = new Map<string, T[]>();
+  for (const category of categories) {
+    if (category.parentId) {
+      const siblings = children.get(category.parentId) ?? [];
+      siblings.push(category);
+      children.set(category.parentId, siblings);
+    }
+  }
+  return children;
+}
+
+/**
+ * The category and all categories below it
+ */
+export function getDescendantIds<T extends CategoryNode>(
+  categories: T[],
+  categoryId: string
+): string[] {
+  const children = childrenByParent(categories);
+  const ids: string[] = [];
+  const queue = [categoryId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (ids.includes(id)) continue;
+    ids.push(id);
+    queue.push(...(children.get(id) ?? []).map((child) => child.id));
+  }
+
+  return ids;
+}
+
+/**
+ * Whether moving the category under the new parent would make it its own
+ * ancestor
+ */
+export function wouldCreateCycle<T extends CategoryNode>(
+  categories: T[],
+  categoryId: string,
+  newParentId: string | null
+): boolean {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const seen = new Set<string>();
+  let current = newParentId;
+
+  while (current && !seen.has(current)) {
+    if (current === categoryId) return true;
+    seen.add(current);
+    current = byId.get(current)?.parentId ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * Names from the top-level category down to the given one
+ */
+export function getCategoryPath<T extends CategoryNode & { name: string }>(
+  categories: T[],
+  categoryId: string
+): string[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(categoryId);
+
+  while (current && !seen.has(current.id)) {
+    path.unshift(current.name);
+    seen.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Add each category's own totals to all of its ancestors
+ */
+export function rollUpTotals<T extends CategoryNode>(
+  categories: T[],
+  direct: Map<string, number>
+): Map<string, number> {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const totals = new Map<string, number>(
+    categories.map((category) => [category.id, 0])
+  );
+
+  for (const [categoryId, amount] of direct) {
+    const seen = new Set<string>();
+    let current = byId.get(categoryId);
+    while (current && !seen.has(current.id)) {
+      totals.set(current.id, (totals.get(current.id) ?? 0) + amount);
+      seen.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+  }
+
+  return totals;
+}
+
+export function getBudgetState(utilization: number): BudgetState {
+  if (utilization >= BUDGET_EXCEEDED_THRESHOLD) return "exceeded";
+  if (utilization >= BUDGET_WARNING_THRESHOLD) return "warning";
+  return "ok";
+}
+
+/**
+ * The budget period containing `now`, as [start, end) in UTC. Annual budgets
+ * follow the fiscal year.
+ */
+export function getBudgetPeriodRange(
+  period: BudgetPeriodType,
+  now: Date,
+  fiscalYearStartMonth = 1
+): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === "MONTHLY") {
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1)),
+    };
+  }
+
+  const monthsIntoYear = (month - (fiscalYearStartMonth - 1) + 12) % 12;
+  const start = new Date(Date.UTC(year, month - monthsIntoYear, 1));
+  return {
+    start,
+    end: new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 12, 1)
+    ),
+  };
+}
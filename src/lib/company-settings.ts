@@ -0,0 +1,175 @@
+/**
+ * Company settings
+ * The CompanySettings row holds the company-wide configuration; the approval
+ * SLA (ApprovalSlaSettings) and the expense categories have their own tables
+ * but are read and written together with it through the settings endpoint
+ */
+
+export interface ReceiptPolicySettings {
+  // When false, companies without configured expense policies don't require
+  // receipts at all
+  required: boolean;
+  // In the company base currency
+  minAmount: number;
+}
+
+export interface NotificationSettings {
+  // Email approvers when a step becomes theirs
+  emailApprovalRequests: boolean;
+  // Email submitters when their expense is approved or rejected
+  emailDecisions: boolean;
+  // Email approvers before an approval SLA runs out
+  emailSlaReminders: boolean;
+}
+
+export interface SecuritySettings {
+  // ADMIN and MANAGER users must sign in with two-factor authentication
+  requireTwoFactor: boolean;
+}
+
+export interface CompanySettingsValues {
+  // 1 = January
+  fiscalYearStartMonth: number;
+  // Pre-selected for new expenses; the base currency when null
+  defaultCurrency: string | null;
+  // Any supported currency when empty
+  allowedCurrencies: string[];
+  receiptPolicy: ReceiptPolicySettings;
+  notifications: NotificationSettings;
+  security: SecuritySettings;
+}
+
+export interface ApprovalSlaSettingsValues {
+  isEnabled: boolean;
+  stepSlaHours: number;
+  reminderBeforeHours: number;
+  escalationTarget: "MANAGER" | "FALLBACK";
+  fallbackApproverId: string | null;
+}
+
+// Everything the settings endpoint reads and writes; also the shape of a
+// stored version snapshot
+export interface CompanySettingsDocument extends CompanySettingsValues {
+  approvalSla: ApprovalSlaSettingsValues;
+  expenseCategories: string[];
+}
+
+export const DEFAULT_COMPANY_SETTINGS: CompanySettingsValues = {
+  fiscalYearStartMonth: 1,
+  defaultCurrency: null,
+  allowedCurrencies: [],
+  receiptPolicy: { required: true, minAmount: 25 },
+  notifications: {
+    emailApprovalRequests: true,
+    emailDecisions: true,
+    emailSlaReminders: true,
+  },
+  security: { requireTwoFactor: false },
+};
+
+// Columns of the CompanySettings row
+export interface CompanySettingsColumns {
+  fiscalYearStartMonth: number;
+  defaultCurrency: string | null;
+  allowedCurrencies: string[];
+  requireReceipts: boolean;
+  receiptMinAmount: unknown;
+  emailApprovalRequests: boolean;
+  emailDecisions: boolean;
+  emailSlaReminders: boolean;
+  requireTwoFactor: boolean;
+}
+
+/**
+ * Settings from a CompanySettings row, or the defaults without one
+ */
+export function toCompanySettingsValues(
+  row: CompanySettingsColumns | null
+): CompanySettingsValues {
+  if (!row) {
+    return DEFAULT_COMPANY_SETTINGS;
+  }
+
+  return {
+    fiscalYearStartMonth: row.fiscalYearStartMonth,
+    defaultCurrency: row.defaultCurrency,
+    allowedCurrencies: row.allowedCurrencies,
+    receiptPolicy: {
+      required: row.requireReceipts,
+      minAmount: Number(row.receiptMinAmount),
+    },
+    notifications: {
+      emailApprovalRequests: row.emailApprovalRequests,
+      emailDecisions: row.emailDecisions,
+      emailSlaReminders: row.emailSlaReminders,
+    },
+    security: { requireTwoFactor: row.requireTwoFactor },
+  };
+}
+
+/**
+ * Row data for the given settings
+ */
+export function toCompanySettingsColumns(
+  settings: CompanySettingsValues
+): CompanySettingsColumns & { receiptMinAmount: number } {
+  return {
+    fiscalYearStartMonth: settings.fiscalYearStartMonth,
+    defaultCurrency: settings.defaultCurrency,
+    allowedCurrencies: settings.allowedCurrencies,
+    requireReceipts: settings.receiptPolicy.required,
+    receiptMinAmount: settings.receiptPolicy.minAmount,
+    emailApprovalRequests: settings.notifications.emailApprovalRequests,
+    emailDecisions: settings.notifications.emailDecisions,
+    emailSlaReminders: settings.notifications.emailSlaReminders,
+    requireTwoFactor: settings.security.requireTwoFactor,
+  };
+}
+
+/**
+ * Whether expenses may be claimed in the currency
+ */
+export function isCurrencyAllowed(
+  settings: CompanySettingsValues,
+  currency: string
+): boolean {
+  return (
+    settings.allowedCurrencies.length === 0 ||
+    settings.allowedCurrencies.includes(currency)
+  );
+}
+
+/**
+ * Top-level keys whose values differ between two settings documents
+ */
+export function diffSettingsKeys(
+  before: CompanySettingsDocument,
+  after: CompanySettingsDocument
+): string[] {
+  return (Object.keys(after) as (keyof CompanySettingsDocument)[]).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+}
+
+/**
+ * Categories to create and remove to go from the existing categories to the
+ * requested list. Names match case-insensitively, so a category that is only
+ * re-cased is kept as it is.
+ */
+export function diffCategoryNames<T extends { name: string }>(
+  existing: T[],
+  requested: string[]
+): { toCreate: string[]; toRemove: T[] } {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const existingNames = new Set(existing.map((category) => normalize(category.name)));
+  const requestedNames = new Set(requested.map(normalize));
+
+  return {
+    toCreate: requested
+      .map((name) => name.trim())
+      .filter((name) => !existingNames.has(normalize(name))),
+    toRemove: existing.filter(
+      (category) => !requestedNames.has(normalize(category.name))
+    ),
+  };
+}
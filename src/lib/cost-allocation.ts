@@ -0,0 +1,64 @@
+/**
+ * Cost center allocation of expenses
+ * An expense is charged to one cost center, or split across several by
+ * percentage. Expense.costCenterId always holds the cost center with the
+ * largest share so unsplit queries stay simple.
+ */
+
+export interface CostAllocation {
+  costCenterId: string;
+  percentage: number;
+}
+
+// Shares may be given with two decimals, so they can miss 100 by rounding
+export const ALLOCATION_TOLERANCE = 0.01;
+
+export function allocationTotal(allocations: CostAllocation[]): number {
+  return allocations.reduce((sum, allocation) => sum + allocation.percentage, 0);
+}
+
+export function isCompleteAllocation(allocations: CostAllocation[]): boolean {
+  return Math.abs(allocationTotal(allocations) - 100) <= ALLOCATION_TOLERANCE;
+}
+
+/**
+ * The cost center with the largest share; the first one listed on a tie
+ */
+export function getPrimaryCostCenterId(
+  allocations: CostAllocation[]
+): string | null {
+  let primary: CostAllocation | null = null;
+  for (const allocation of allocations) {
+    if (!primary || allocation.percentage > primary.percentage) {
+      primary = allocation;
+    }
+  }
+  return primary?.costCenterId ?? null;
+}
+
+/**
+ * Split an amount by the allocation shares, in cents. The rounding remainder
+ * goes to the primary cost center so the parts add up to the amount.
+ */
+export function allocateAmount(
+  amount: number,
+  allocations: CostAllocation[]
+): Map<string, number> {
+  const parts = new Map<string, number>();
+  if (allocations.length === 0) return parts;
+
+  const cents = Math.round(amount * 100);
+  let allocated = 0;
+  for (const allocation of allocations) {
+    const share = Math.floor((cents * allocation.percentage) / 100);
+    parts.set(allocation.costCenterId, share);
+    allocated += share;
+  }
+
+  const primaryId = getPrimaryCostCenterId(allocations)!;
+  parts.set(primaryId, parts.get(primaryId)! + (cents - allocated));
+
+  return new Map(
+    Array.from(parts, ([costCenterId, share]) => [costCenterId, share / 100])
+  );
+}
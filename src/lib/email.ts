@@ -1,5 +1,6 @@
 import nodemailer from "nodemailer";
 import Mail from "nodemailer/lib/mailer";
+import type { EmailJobData } from "./queue";
 
 interface EmailConfig {
   host: string;
@@ -96,6 +97,52 @@ export const EmailTemplates = {
     text: `Welcome to Expense-Wise, ${firstName}! You can now manage your expenses for ${companyName}. Log in to get started.`,
   }),
 
+  // Email address verification after signup
+  emailVerification: (firstName: string, verificationLink: string): EmailTemplate => ({
+    subject: "Verify your Expense-Wise email address",
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #333;">Confirm Your Email</h1>
+        <p>Hi ${firstName},</p>
+        <p>Thanks for setting up your company on Expense-Wise. Confirm your email address to sign in:</p>
+        <p style="margin: 20px 0;">
+          <a href="${verificationLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">
+            Verify Email
+          </a>
+        </p>
+        <p>This link will expire in 24 hours. If you didn't sign up, please ignore this email.</p>
+        <p>Best regards,<br>The Expense-Wise Team</p>
+      </div>
+    `,
+    text: `Confirm your email address to finish setting up Expense-Wise: ${verificationLink}`,
+  }),
+
+  // Invitation to join a company
+  invitation: (
+    firstName: string,
+    inviterName: string,
+    companyName: string,
+    inviteLink: string,
+    expiresInDays: number
+  ): EmailTemplate => ({
+    subject: `${inviterName} invited you to ${companyName} on Expense-Wise`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #333;">You're Invited</h1>
+        <p>Hi ${firstName},</p>
+        <p><strong>${inviterName}</strong> invited you to manage your expenses with <strong>${companyName}</strong> on Expense-Wise. Choose a password to join:</p>
+        <p style="margin: 20px 0;">
+          <a href="${inviteLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px;">
+            Accept Invitation
+          </a>
+        </p>
+        <p>This link will expire in ${expiresInDays} days and can only be used once.</p>
+        <p>Best regards,<br>The Expense-Wise Team</p>
+      </div>
+    `,
+    text: `${inviterName} invited you to ${companyName} on Expense-Wise. Accept the invitation: ${inviteLink}`,
+  }),
+
   // Password reset email
   passwordReset: (firstName: string, resetLink: string): EmailTemplate => ({
     subject: "Reset Your Expense-Wise Password",
@@ -218,6 +265,56 @@ export const EmailTemplates = {
   }),
 };
 
+// The template of a queued email job, from the fields its type sends
+export function renderEmailJob(job: EmailJobData): EmailTemplate {
+  const { data } = job;
+  switch (job.type) {
+    case "welcome":
+      return EmailTemplates.welcome(data.firstName, data.companyName);
+    case "email-verification":
+      return EmailTemplates.emailVerification(data.firstName, data.verificationLink);
+    case "invitation":
+      return EmailTemplates.invitation(
+        data.firstName,
+        data.inviterName,
+        data.companyName,
+        data.inviteLink,
+        data.expiresInDays
+      );
+    case "password-reset":
+      return EmailTemplates.passwordReset(data.firstName, data.resetLink);
+    case "expense-submitted":
+      return EmailTemplates.expenseSubmitted(
+        data.approverName,
+        data.employeeName,
+        data.amount,
+        data.description
+      );
+    case "expense-approved":
+      return EmailTemplates.expenseApproved(
+        data.employeeName,
+        data.amount,
+        data.description,
+        data.approverName
+      );
+    case "expense-rejected":
+      return EmailTemplates.expenseRejected(
+        data.employeeName,
+        data.amount,
+        data.description,
+        data.reason,
+        data.approverName
+      );
+    case "monthly-report":
+      return EmailTemplates.monthlyReport(
+        data.recipientName,
+        data.month,
+        data.totalExpenses,
+        data.reportUrl
+      );
+  }
+}
+
 // Email sending functions with templates
 export async function sendWelcomeEmail(
   to: string,
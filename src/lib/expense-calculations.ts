@@ -0,0 +1,174 @@
+/**
+ * Mileage and per-diem expense calculations
+ * The amount of a MILEAGE or PER_DIEM expense is derived from the company
+ * rate tables (MileageRate, PerDiemRate) rather than entered. The full
+ * derivation is stored in Expense.calculation so it can be audited later,
+ * even after the rates change.
+ */
+
+export type DistanceUnit = "KM" | "MILE";
+
+export const KM_PER_MILE = 1.609344;
+
+// Per-diem rates for destinations without their own rate
+export const DEFAULT_PER_DIEM_DESTINATION = "DEFAULT";
+
+export const MEALS = ["breakfast", "lunch", "dinner"] as const;
+export type Meal = (typeof MEALS)[number];
+
+export interface MileageDetails {
+  distance: number;
+  unit: DistanceUnit;
+  vehicleType: string;
+  origin?: string;
+  destination?: string;
+  // The distance is one way and counted twice
+  roundTrip: boolean;
+}
+
+export interface PerDiemDay {
+  // YYYY-MM-DD
+  date: string;
+  breakfastProvided: boolean;
+  lunchProvided: boolean;
+  dinnerProvided: boolean;
+}
+
+export interface PerDiemDetails {
+  destination: string;
+  days: PerDiemDay[];
+}
+
+export interface MileageRateValues {
+  id: string;
+  vehicleType: string;
+  unit: DistanceUnit;
+  rate: number;
+  // YYYY-MM-DD
+  effectiveFrom: string;
+}
+
+export interface PerDiemRateValues {
+  id: string;
+  destination: string;
+  dailyRate: number;
+  deductions: Record<Meal, number>;
+  // YYYY-MM-DD
+  effectiveFrom: string;
+}
+
+export interface MileageCalculation {
+  type: "MILEAGE";
+  inputs: MileageDetails;
+  rate: MileageRateValues;
+  // Distance travelled, converted to the unit the rate is given in
+  billedDistance: number;
+  amount: number;
+  currency: string;
+  calculatedAt: string;
+}
+
+export interface PerDiemCalculation {
+  type: "PER_DIEM";
+  inputs: PerDiemDetails;
+  days: {
+    date: string;
+    rate: PerDiemRateValues;
+    mealsProvided: Meal[];
+    deduction: number;
+    amount: number;
+  }[];
+  amount: number;
+  currency: string;
+  calculatedAt: string;
+}
+
+export type ExpenseCalculation = MileageCalculation | PerDiemCalculation;
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function convertDistance(
+  distance: number,
+  from: DistanceUnit,
+  to: DistanceUnit
+): number {
+  if (from === to) return distance;
+  return from === "MILE" ? distance * KM_PER_MILE : distance / KM_PER_MILE;
+}
+
+export function calculateMileage(
+  inputs: MileageDetails,
+  rate: MileageRateValues,
+  currency: string,
+  now: Date = new Date()
+): MileageCalculation {
+  const travelled = inputs.roundTrip ? inputs.distance * 2 : inputs.distance;
+  const billedDistance = roundTo(
+    convertDistance(travelled, inputs.unit, rate.unit),
+    2
+  );
+
+  return {
+    type: "MILEAGE",
+    inputs,
+    rate,
+    billedDistance,
+    amount: roundTo(billedDistance * rate.rate, 2),
+    currency,
+    calculatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Per-diem allowance for a set of days. `rateForDay` returns the rate that
+ * applies on a day, so a trip over a rate change uses both rates. A day's
+ * deductions never take it below zero.
+ */
+export function calculatePerDiem(
+  inputs: PerDiemDetails,
+  rateForDay: (date: string) => PerDiemRateValues,
+  currency: string,
+  now: Date = new Date()
+): PerDiemCalculation {
+  const days = [...inputs.days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => {
+      const rate = rateForDay(day.date);
+      const mealsProvided = MEALS.filter((meal) => day[`${meal}Provided`]);
+      const deduction = Math.min(
+        roundTo(
+          mealsProvided.reduce((sum, meal) => sum + rate.deductions[meal], 0),
+          2
+        ),
+        rate.dailyRate
+      );
+
+      return {
+        date: day.date,
+        rate,
+        mealsProvided,
+        deduction,
+        amount: roundTo(rate.dailyRate - deduction, 2),
+      };
+    });
+
+  return {
+    type: "PER_DIEM",
+    inputs,
+    days,
+    amount: roundTo(
+      days.reduce((sum, day) => sum + day.amount, 0),
+      2
+    ),
+    currency,
+    calculatedAt: now.toISOString(),
+  };
+}
+
+// The first day of a per-diem claim, used as the expense date
+export function perDiemStartDate(details: PerDiemDetails): string {
+  return details.days.map((day) => day.date).sort()[0];
+}
@@ -0,0 +1,231 @@
+/**
+ * Company expense policies
+ * Policies are stored per company (ExpensePolicy) with type specific settings
+ * in `config`, and evaluated against a flattened view of the expense when it
+ * is saved and when it is submitted
+ */
+
+export const EXPENSE_POLICY_TYPES = [
+  "RECEIPT_REQUIRED",
+  "CATEGORY_DAILY_CAP",
+  "CATEGORY_MONTHLY_CAP",
+  "MAX_EXPENSE_AGE",
+  "MIN_DESCRIPTION_LENGTH",
+  "WEEKEND_EXPENSE",
+  "HOLIDAY_EXPENSE",
+] as const;
+
+export type ExpensePolicyType = (typeof EXPENSE_POLICY_TYPES)[number];
+export type PolicySeverity = "BLOCK" | "WARN";
+
+// "save" covers creating and editing a draft
+export type PolicyStage = "save" | "submit";
+
+// Settings per policy type. Amounts are in the company base currency.
+export interface ExpensePolicyConfigs {
+  RECEIPT_REQUIRED: { amountOver: number };
+  CATEGORY_DAILY_CAP: { limit: number };
+  CATEGORY_MONTHLY_CAP: { limit: number };
+  MAX_EXPENSE_AGE: { days: number };
+  MIN_DESCRIPTION_LENGTH: { minLength: number };
+  WEEKEND_EXPENSE: Record<string, never>;
+  // YYYY-MM-DD
+  HOLIDAY_EXPENSE: { dates: string[] };
+}
+
+export interface ExpensePolicyDefinition {
+  // Null for the built-in defaults
+  id: string | null;
+  name: string;
+  type: ExpensePolicyType;
+  severity: PolicySeverity;
+  // Applies to every category when null
+  categoryId: string | null;
+  config: unknown;
+}
+
+// Expense attributes a policy is evaluated against
+export interface PolicyEvaluationContext {
+  // In the company base currency; null while no exchange rate is known
+  amount: number | null;
+  baseCurrency: string;
+  categoryId: string;
+  description: string;
+  expenseDate: Date;
+  receiptCount: number;
+  // The submitter's other submitted spending in the expense's category, on
+  // the expense day and in its calendar month
+  dailyCategoryTotal?: number;
+  monthlyCategoryTotal?: number;
+  now: Date;
+}
+
+export interface PolicyViolation {
+  policyId: string | null;
+  policyName: string;
+  type: ExpensePolicyType;
+  severity: PolicySeverity;
+  message: string;
+}
+
+/**
+ * Applied to companies that haven't configured any policies; they match the
+ * rules that were built in before policies were configurable. The receipt
+ * threshold is replaced by the company's receipt settings.
+ */
+export const DEFAULT_EXPENSE_POLICIES: ExpensePolicyDefinition[] = [
+  {
+    id: null,
+    name: "Receipt required",
+    type: "RECEIPT_REQUIRED",
+    severity: "BLOCK",
+    categoryId: null,
+    config: { amountOver: 25 },
+  },
+  {
+    id: null,
+    name: "Maximum expense age",
+    type: "MAX_EXPENSE_AGE",
+    severity: "BLOCK",
+    categoryId: null,
+    config: { days: 365 },
+  },
+];
+
+// Receipts are usually attached after a draft is first saved
+const SUBMIT_ONLY_TYPES: ExpensePolicyType[] = ["RECEIPT_REQUIRED"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAmount = (amount: number, currency: string) =>
+  `${amount.toFixed(2)} ${currency}`;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+// Message for a violated policy, or null when the expense complies
+function checkPolicy(
+  policy: ExpensePolicyDefinition,
+  context: PolicyEvaluationContext
+): string | null {
+  switch (policy.type) {
+    case "RECEIPT_REQUIRED": {
+      const { amountOver } =
+        policy.config as ExpensePolicyConfigs["RECEIPT_REQUIRED"];
+      return context.amount !== null &&
+        context.amount > amountOver &&
+        context.receiptCount === 0
+        ? `Expenses over ${formatAmount(amountOver, context.baseCurrency)} require at least one receipt`
+        : null;
+    }
+
+    case "CATEGORY_DAILY_CAP":
+    case "CATEGORY_MONTHLY_CAP": {
+      const { limit } = policy.config as { limit: number };
+      const daily = policy.type === "CATEGORY_DAILY_CAP";
+      const existing = daily
+        ? context.dailyCategoryTotal
+        : context.monthlyCategoryTotal;
+
+      if (context.amount === null || existing === undefined) {
+        return null;
+      }
+
+      const total = existing + context.amount;
+      return total > limit
+        ? `${daily ? "Daily" : "Monthly"} spending in this category would be ${formatAmount(total, context.baseCurrency)}, over the ${formatAmount(limit, context.baseCurrency)} limit`
+        : null;
+    }
+
+    case "MAX_EXPENSE_AGE": {
+      const { days } = policy.config as ExpensePolicyConfigs["MAX_EXPENSE_AGE"];
+      const age = Math.floor(
+        (context.now.getTime() - context.expenseDate.getTime()) / DAY_MS
+      );
+      return age > days
+        ? `Expenses must be claimed within ${days} days of the expense date`
+        : null;
+    }
+
+    case "MIN_DESCRIPTION_LENGTH": {
+      const { minLength } =
+        policy.config as ExpensePolicyConfigs["MIN_DESCRIPTION_LENGTH"];
+      return context.description.trim().length < minLength
+        ? `Description must be at least ${minLength} characters`
+        : null;
+    }
+
+    case "WEEKEND_EXPENSE": {
+      // Expense dates are stored as UTC midnight of the calendar day
+      const day = context.expenseDate.getUTCDay();
+      return day === 0 || day === 6 ? "Expense was incurred on a weekend" : null;
+    }
+
+    case "HOLIDAY_EXPENSE": {
+      const { dates } = policy.config as ExpensePolicyConfigs["HOLIDAY_EXPENSE"];
+      return dates.includes(toDateString(context.expenseDate))
+        ? "Expense was incurred on a company holiday"
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether the policy needs the submitter's category spending totals
+ */
+export function needsCategoryTotals(policy: ExpensePolicyDefinition): boolean {
+  return (
+    policy.type === "CATEGORY_DAILY_CAP" ||
+    policy.type === "CATEGORY_MONTHLY_CAP"
+  );
+}
+
+/**
+ * Policies that apply to the expense at this stage
+ */
+export function selectApplicablePolicies<T extends ExpensePolicyDefinition>(
+  policies: T[],
+  categoryId: string,
+  stage: PolicyStage
+): T[] {
+  return policies.filter(
+    (policy) =>
+      (policy.categoryId === null || policy.categoryId === categoryId) &&
+      (stage === "submit" || !SUBMIT_ONLY_TYPES.includes(policy.type))
+  );
+}
+
+/**
+ * Evaluate the applicable policies, blocking violations first
+ */
+export function evaluateExpensePolicies(
+  policies: ExpensePolicyDefinition[],
+  context: PolicyEvaluationContext,
+  stage: PolicyStage
+): PolicyViolation[] {
+  return selectApplicablePolicies(policies, context.categoryId, stage)
+    .flatMap((policy) => {
+      const message = checkPolicy(policy, context);
+      return message
+        ? [
+            {
+              policyId: policy.id,
+              policyName: policy.name,
+              type: policy.type,
+              severity: policy.severity,
+              message,
+            },
+          ]
+        : [];
+    })
+    .sort(
+      (a, b) =>
+        Number(b.severity === "BLOCK") - Number(a.severity === "BLOCK")
+    );
+}
+
+export function hasBlockingViolation(violations: PolicyViolation[]): boolean {
+  return violations.some((violation) => violation.severity === "BLOCK");
+}
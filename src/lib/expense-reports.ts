@@ -0,0 +1,218 @@
+/**
+ * Expense reports
+ * A report bundles several expenses (e.g. one business trip) so they are
+ * submitted once and approved by a single approval chain. Approvers decide
+ * the report as a whole but can reject individual expenses in it; the rest
+ * are approved with the report. Cash advances (see src/lib/advances.ts) go
+ * through the same approval rules. An ExpenseApproval step therefore belongs
+ * to an expense, a report or an advance, its "subject".
+ */
+
+export type ApprovalSubject =
+  | { expenseId: string }
+  | { reportId: string }
+  | { advanceId: string };
+
+/**
+ * Where clause for the approval steps of a subject
+ */
+export function approvalSubjectWhere(subject: ApprovalSubject) {
+  if ("reportId" in subject) return { reportId: subject.reportId };
+  if ("advanceId" in subject) return { advanceId: subject.advanceId };
+  return { expenseId: subject.expenseId };
+}
+
+export function getApprovalSubject(step: {
+  expenseId: string | null;
+  reportId: string | null;
+  advanceId: string | null;
+}): ApprovalSubject {
+  if (step.reportId) return { reportId: step.reportId };
+  if (step.advanceId) return { advanceId: step.advanceId };
+  if (step.expenseId) return { expenseId: step.expenseId };
+  throw new Error("Approval step has no expense, report or advance");
+}
+
+/**
+ * Where clause for every approval step of a company, whatever its subject
+ */
+export function companyApprovalStepsWhere(companyId: string) {
+  return {
+    OR: [
+      { expense: { companyId } },
+      { report: { companyId } },
+      { advance: { companyId } },
+    ],
+  };
+}
+
+export interface ApprovalSubjectSummary {
+  kind: "expense" | "report" | "advance";
+  noun: "expense" | "expense report" | "advance";
+  // Title case noun for email subjects and headings
+  heading: "Expense" | "Expense Report" | "Cash Advance";
+  id: string;
+  companyId: string;
+  // e.g. `expense "Taxi"` or `expense report "Berlin trip"`
+  label: string;
+  title: string;
+  amount: number;
+  currency: string;
+  submitterId: string;
+  submitter: { name: string; email: string };
+}
+
+interface SubjectSubmitter {
+  name: string;
+  email: string;
+}
+
+/**
+ * What an approval step is about, for notifications and emails. A report's
+ * amount is its base currency total, fixed when it was submitted.
+ */
+export function summarizeApprovalSubject(step: {
+  expense?: {
+    id: string;
+    companyId: string;
+    description: string;
+    amount: unknown;
+    currency: string;
+    submitterId: string;
+    submitter: SubjectSubmitter;
+  } | null;
+  report?: {
+    id: string;
+    companyId: string;
+    title: string;
+    totalAmount: unknown;
+    currency: string | null;
+    submitterId: string;
+    submitter: SubjectSubmitter;
+  } | null;
+  advance?: {
+    id: string;
+    companyId: string;
+    purpose: string;
+    amount: unknown;
+    currency: string;
+    submitterId: string;
+    submitter: SubjectSubmitter;
+  } | null;
+}): ApprovalSubjectSummary {
+  if (step.report) {
+    return {
+      kind: "report",
+      noun: "expense report",
+      heading: "Expense Report",
+      id: step.report.id,
+      companyId: step.report.companyId,
+      label: `expense report "${step.report.title}"`,
+      title: step.report.title,
+      amount: Number(step.report.totalAmount ?? 0),
+      currency: step.report.currency ?? "",
+      submitterId: step.report.submitterId,
+      submitter: step.report.submitter,
+    };
+  }
+  if (step.advance) {
+    return {
+      kind: "advance",
+      noun: "advance",
+      heading: "Cash Advance",
+      id: step.advance.id,
+      companyId: step.advance.companyId,
+      label: `advance "${step.advance.purpose}"`,
+      title: step.advance.purpose,
+      amount: Number(step.advance.amount),
+      currency: step.advance.currency,
+      submitterId: step.advance.submitterId,
+      submitter: step.advance.submitter,
+    };
+  }
+  if (step.expense) {
+    return {
+      kind: "expense",
+      noun: "expense",
+      heading: "Expense",
+      id: step.expense.id,
+      companyId: step.expense.companyId,
+      label: `expense "${step.expense.description}"`,
+      title: step.expense.description,
+      amount: Number(step.expense.amount),
+      currency: step.expense.currency,
+      submitterId: step.expense.submitterId,
+      submitter: step.expense.submitter,
+    };
+  }
+  throw new Error("Approval step has no expense, report or advance");
+}
+
+export interface ReportTotals {
+  currency: string;
+  expenseCount: number;
+  totalAmount: number;
+  rejectedAmount: number;
+  approvedAmount: number;
+  advanceAmount: number;
+  // What the company owes the employee; negative when the advance was larger
+  balanceDue: number;
+  unconvertedExpenses: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Totals of a report in the company base currency. Rejected expenses are
+ * left out of the approved amount, and the advance is set against it.
+ * Expenses still waiting for an exchange rate are counted at face value.
+ */
+export function calculateReportTotals(
+  expenses: {
+    amount: unknown;
+    baseAmount: unknown;
+    status: string;
+  }[],
+  baseCurrency: string,
+  advanceAmount: unknown = null
+): ReportTotals {
+  let totalCents = 0;
+  let rejectedCents = 0;
+  let unconvertedExpenses = 0;
+
+  for (const expense of expenses) {
+    if (expense.baseAmount == null) unconvertedExpenses++;
+    const cents = toCents(Number(expense.baseAmount ?? expense.amount));
+    totalCents += cents;
+    if (expense.status === "REJECTED") rejectedCents += cents;
+  }
+
+  const advanceCents = toCents(Number(advanceAmount ?? 0));
+  const approvedCents = totalCents - rejectedCents;
+
+  return {
+    currency: baseCurrency,
+    expenseCount: expenses.length,
+    totalAmount: totalCents / 100,
+    rejectedAmount: rejectedCents / 100,
+    approvedAmount: approvedCents / 100,
+    advanceAmount: advanceCents / 100,
+    balanceDue: (approvedCents - advanceCents) / 100,
+    unconvertedExpenses,
+  };
+}
+
+/**
+ * Whether an expense date falls within a report's date range (inclusive,
+ * compared by calendar day)
+ */
+export function isWithinReportDates(
+  expenseDate: Date,
+  report: { startDate: Date; endDate: Date }
+): boolean {
+  const day = expenseDate.toISOString().split("T")[0];
+  return (
+    day >= report.startDate.toISOString().split("T")[0] &&
+    day <= report.endDate.toISOString().split("T")[0]
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * Exchange rates
+ * Pluggable rate providers, the CSV/ECB file parsers used for manual imports
+ * and the rate arithmetic shared by conversions
+ */
+
+export interface RateQuote {
+  // 1 unit of base buys `rate` units of quote
+  base: string;
+  quote: string;
+  rate: number;
+  // YYYY-MM-DD
+  date: string;
+}
+
+export interface ExchangeRateProvider {
+  name: string;
+  // Rates published for the given day, or the latest available without one
+  fetchRates(date?: Date): Promise<RateQuote[]>;
+}
+
+export interface RatesFileParseResult {
+  rates: RateQuote[];
+  errors: string[];
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// Accepts 2024-10-18 and the ECB's "18 October 2024"
+function parseRateDate(value: string): string | undefined {
+  const trimmed = value.trim();
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return toIsoDate(+iso[1], +iso[2], +iso[3]);
+  }
+
+  const named = trimmed.match(/^(\d{1,2})\s+([a-z]+)\s+(\d{4})$/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase()) + 1;
+    if (month > 0) {
+      return toIsoDate(+named[3], month, +named[1]);
+    }
+  }
+
+  return undefined;
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+function parseRateValue(value: string): number | undefined {
+  const rate = Number(value.trim());
+  return Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+}
+
+/**
+ * Parse an exchange rate file. Two layouts are understood:
+ * - one rate per row with `date,base,quote,rate` columns (any order)
+ * - the ECB reference rate CSV: a `Date` column followed by one column per
+ *   currency, each holding the number of units per euro
+ */
+export function parseRatesCsv(content: string): RatesFileParseResult {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  if (lines.length < 2) {
+    return { rates: [], errors: ["File must contain a header and at least one row"] };
+  }
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  const rates: RateQuote[] = [];
+  const errors: string[] = [];
+
+  const dateColumn = header.indexOf("date");
+  if (dateColumn === -1) {
+    return { rates: [], errors: ["Header must include a date column"] };
+  }
+
+  const baseColumn = header.indexOf("base");
+  const quoteColumn = header.indexOf("quote");
+  const rateColumn = header.indexOf("rate");
+
+  if (baseColumn !== -1 && quoteColumn !== -1 && rateColumn !== -1) {
+    lines.slice(1).forEach((line, index) => {
+      const cells = splitCsvLine(line);
+      const row = index + 2;
+      const date = parseRateDate(cells[dateColumn] || "");
+      const base = (cells[baseColumn] || "").toUpperCase();
+      const quote = (cells[quoteColumn] || "").toUpperCase();
+      const rate = parseRateValue(cells[rateColumn] || "");
+
+      if (!date) {
+        errors.push(`Row ${row}: invalid date`);
+      } else if (!CURRENCY_PATTERN.test(base) || !CURRENCY_PATTERN.test(quote)) {
+        errors.push(`Row ${row}: invalid currency code`);
+      } else if (base === quote) {
+        errors.push(`Row ${row}: base and quote currency must differ`);
+      } else if (rate === undefined) {
+        errors.push(`Row ${row}: rate must be a positive number`);
+      } else {
+        rates.push({ base, quote, rate, date });
+      }
+    });
+
+    return { rates, errors };
+  }
+
+  // ECB layout; the file ends every line with a trailing comma
+  const currencies = header.map((cell) => cell.toUpperCase());
+
+  lines.slice(1).forEach((line, index) => {
+    const cells = splitCsvLine(line);
+    const row = index + 2;
+    const date = parseRateDate(cells[dateColumn] || "");
+
+    if (!date) {
+      errors.push(`Row ${row}: invalid date`);
+      return;
+    }
+
+    currencies.forEach((currency, column) => {
+      if (column === dateColumn || !CURRENCY_PATTERN.test(currency)) {
+        return;
+      }
+
+      // Currencies the ECB stopped quoting are reported as N/A
+      const rate = parseRateValue(cells[column] || "");
+      if (rate !== undefined) {
+        rates.push({ base: "EUR", quote: currency, rate, date });
+      }
+    });
+  });
+
+  return { rates, errors };
+}
+
+/**
+ * Parse the ECB reference rate XML (eurofxref-daily.xml / eurofxref-hist-90d.xml)
+ */
+export function parseEcbXml(xml: string): RateQuote[] {
+  const rates: RateQuote[] = [];
+  const dayPattern = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]\s*>([\s\S]*?)<\/Cube>/g;
+  const ratePattern = /<Cube\s+currency=['"]([A-Z]{3})['"]\s+rate=['"]([\d.]+)['"]\s*\/>/g;
+
+  for (const day of Array.from(xml.matchAll(dayPattern))) {
+    for (const match of Array.from(day[2].matchAll(ratePattern))) {
+      const rate = parseRateValue(match[2]);
+      if (rate !== undefined) {
+        rates.push({ base: "EUR", quote: match[1], rate, date: day[1] });
+      }
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * European Central Bank reference rates. Published on TARGET working days
+ * around 16:00 CET; no API key required.
+ */
+class EcbExchangeRateProvider implements ExchangeRateProvider {
+  name = "ecb";
+
+  private static readonly BASE_URL =
+    "https://www.ecb.europa.eu/stats/eurofxref";
+
+  async fetchRates(date?: Date): Promise<RateQuote[]> {
+    // The daily file only has the latest day; the 90 day history covers
+    // recent backfills
+    const file = date ? "eurofxref-hist-90d.xml" : "eurofxref-daily.xml";
+    const response = await fetch(
+      `${EcbExchangeRateProvider.BASE_URL}/${file}`,
+      { signal: AbortSignal.timeout(15000) }
+    );
+
+    if (!response.ok) {
+      throw new Error(`ECB rates request failed with status ${response.status}`);
+    }
+
+    const rates = parseEcbXml(await response.text());
+    if (!date) {
+      return rates;
+    }
+
+    const day = date.toISOString().split("T")[0];
+    return rates.filter((rate) => rate.date === day);
+  }
+}
+
+const providerFactories: Record<string, () => ExchangeRateProvider> = {
+  ecb: () => new EcbExchangeRateProvider(),
+};
+const providerInstances: Record<string, ExchangeRateProvider> = {};
+
+/**
+ * Make a provider selectable through the FX_PROVIDER environment variable
+ */
+export function registerExchangeRateProvider(
+  name: string,
+  factory: () => ExchangeRateProvider
+) {
+  providerFactories[name] = factory;
+  delete providerInstances[name];
+}
+
+/**
+ * The configured provider (FX_PROVIDER, default "ecb")
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  const name = process.env.FX_PROVIDER || "ecb";
+  const factory = providerFactories[name];
+
+  if (!factory) {
+    throw new Error(`Unknown exchange rate provider: ${name}`);
+  }
+
+  if (!providerInstances[name]) {
+    providerInstances[name] = factory();
+  }
+
+  return providerInstances[name];
+}
+
+/**
+ * Rate converting `from` into `to` from a set of quotes: a direct quote, the
+ * inverse of the opposite quote, or a cross rate through a currency both are
+ * quoted against (EUR for ECB data). Quotes are expected to be the latest
+ * known for each pair; the oldest quote used determines the rate date.
+ */
+export function deriveRate(
+  from: string,
+  to: string,
+  quotes: RateQuote[]
+): { rate: number; date: string } | null {
+  const find = (base: string, quote: string) =>
+    quotes.find((item) => item.base === base && item.quote === quote);
+
+  const direct = find(from, to);
+  if (direct) {
+    return { rate: direct.rate, date: direct.date };
+  }
+
+  const inverse = find(to, from);
+  if (inverse) {
+    return { rate: 1 / inverse.rate, date: inverse.date };
+  }
+
+  // Units of `currency` per unit of pivot, from a quote in either direction
+  const perPivot = (pivot: string, currency: string) => {
+    const quoted = find(pivot, currency);
+    if (quoted) return { rate: quoted.rate, date: quoted.date };
+    const inverted = find(currency, pivot);
+    if (inverted) return { rate: 1 / inverted.rate, date: inverted.date };
+    return null;
+  };
+
+  const pivots = new Set(quotes.flatMap((item) => [item.base, item.quote]));
+  for (const pivot of Array.from(pivots)) {
+    if (pivot === from || pivot === to) {
+      continue;
+    }
+
+    const fromLeg = perPivot(pivot, from);
+    const toLeg = perPivot(pivot, to);
+    if (fromLeg && toLeg) {
+      return {
+        rate: toLeg.rate / fromLeg.rate,
+        date: fromLeg.date < toLeg.date ? fromLeg.date : toLeg.date,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rates are stored with 8 decimals and converted amounts with 2
+ */
+export function roundRate(rate: number): number {
+  return Math.round(rate * 1e8) / 1e8;
+}
+
+export function convertAmount(amount: number, rate: number): number {
+  return Math.round(amount * rate * 100) / 100;
+}
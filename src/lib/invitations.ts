@@ -0,0 +1,164 @@
+import crypto from "crypto";
+
+/**
+ * User invitations
+ * Invitation tokens and links, and parsing of the CSV files admins upload to
+ * invite users in bulk
+ */
+
+// Invitation links stay valid for a week; resending starts a new week
+export const INVITATION_TTL_DAYS = 7;
+
+// Largest file a bulk import accepts, in rows
+export const MAX_IMPORT_ROWS = 1000;
+
+export const invitationExpiry = (from: Date = new Date()) =>
+  new Date(from.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+/**
+ * A new invitation token and the hash stored for it. Only the emailed link
+ * carries the token itself.
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString("hex");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function invitationLink(token: string): string {
+  return `${
+    process.env.FRONTEND_URL || "http://localhost:3000"
+  }/accept-invitation?token=${token}`;
+}
+
+// A row of a user import file, with its line number in the file
+export interface UserImportRow {
+  row: number;
+  email: string;
+  name: string;
+  role: string;
+  managerEmail: string;
+  department: string;
+  costCenter: string;
+}
+
+export interface UserImportParseResult {
+  rows: UserImportRow[];
+  // Problems with the file as a whole; the rows are empty when there are any
+  errors: string[];
+}
+
+// Accepted spellings of each column, after lowercasing and dropping spaces,
+// dashes and underscores
+const IMPORT_COLUMNS: Record<keyof Omit<UserImportRow, "row">, string[]> = {
+  email: ["email", "emailaddress"],
+  name: ["name", "fullname"],
+  role: ["role"],
+  managerEmail: ["manageremail", "manager"],
+  department: ["department"],
+  costCenter: ["costcenter", "costcentercode"],
+};
+
+// Split a CSV line, honouring quoted fields ("Doe, Jane") and doubled quotes
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse a user import file. The header row names the columns, in any
+ * order: email and name are required; role (EMPLOYEE when blank),
+ * manager_email, department (name) and cost_center (code) are optional.
+ * Rows are returned as written; validating them is up to the caller.
+ */
+export function parseUserImportCsv(content: string): UserImportParseResult {
+  const lines = content
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+    .filter(({ line }) => line.length > 0);
+
+  if (lines.length < 2) {
+    return { rows: [], errors: ["File must contain a header and at least one row"] };
+  }
+
+  if (lines.length - 1 > MAX_IMPORT_ROWS) {
+    return {
+      rows: [],
+      errors: [`File must not contain more than ${MAX_IMPORT_ROWS} rows`],
+    };
+  }
+
+  const header = splitCsvLine(lines[0].line).map((cell) =>
+    cell.toLowerCase().replace(/[\s_-]/g, "")
+  );
+  const columnIndex = (Object.keys(IMPORT_COLUMNS) as (keyof typeof IMPORT_COLUMNS)[])
+    .reduce(
+      (indexes, column) => ({
+        ...indexes,
+        [column]: header.findIndex((cell) => IMPORT_COLUMNS[column].includes(cell)),
+      }),
+      {} as Record<keyof typeof IMPORT_COLUMNS, number>
+    );
+
+  const missing = (["email", "name"] as const).filter(
+    (column) => columnIndex[column] === -1
+  );
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [
+        `Header must include ${missing.join(" and ")} column${
+          missing.length > 1 ? "s" : ""
+        }`,
+      ],
+    };
+  }
+
+  const rows = lines.slice(1).map(({ line, row }) => {
+    const cells = splitCsvLine(line);
+    const cell = (column: keyof typeof IMPORT_COLUMNS) =>
+      columnIndex[column] === -1 ? "" : cells[columnIndex[column]] || "";
+
+    return {
+      row,
+      email: cell("email"),
+      name: cell("name"),
+      role: cell("role"),
+      managerEmail: cell("managerEmail"),
+      department: cell("department"),
+      costCenter: cell("costCenter"),
+    };
+  });
+
+  return { rows, errors: [] };
+}
@@ -1,6 +1,7 @@
 import jwt from "jsonwebtoken";
 import crypto from "crypto";
 import { getRedisClient } from "./redis";
+import { getBuiltInPermissions } from "./permissions";
 
 /**
  * JWT Token Service
@@ -71,33 +72,6 @@ export interface JWTPayload {
   exp?: number;
 }
 
-/**
- * Get user permissions based on role
- */
-function getUserPermissions(role: string): string[] {
-  const permissions = {
-    ADMIN: ["*"], // All permissions
-    MANAGER: [
-      "expense:read:team",
-      "expense:approve",
-      "expense:reject",
-      "user:read",
-      "report:read",
-      "approval:create",
-      "approval:update",
-    ],
-    EMPLOYEE: [
-      "expense:create",
-      "expense:read:own",
-      "expense:update:own",
-      "expense:delete:own",
-      "receipt:upload",
-      "receipt:read:own",
-    ],
-  };
-  return permissions[role as keyof typeof permissions] || [];
-}
-
 /**
  * Generate a unique JWT ID
  */
@@ -115,7 +89,9 @@ export function generateAccessToken(user: User): string {
     aud: "expensewise-api",
     role: user.role,
     companyId: user.companyId,
-    permissions: getUserPermissions(user.role),
+    // The built-in role's permissions; custom roles are resolved per request
+    // by withPermission
+    permissions: getBuiltInPermissions(user.role),
   };
 
   return jwt.sign(payload, PRIVATE_KEY, {
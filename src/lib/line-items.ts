@@ -0,0 +1,131 @@
+import type { OCRResult } from "@/types/system";
+
+/**
+ * Itemised expenses
+ * An expense can be broken into line items, each with its own category and
+ * VAT/GST, e.g. the room, meals and parking on one hotel bill. Line amounts
+ * are in the expense currency and include tax, and they add up to the
+ * expense amount. Expense.categoryId always holds the category of the
+ * largest line so unitemised queries stay simple.
+ */
+
+export interface LineItemAmounts {
+  amount: number;
+  taxRate?: number | null;
+  taxAmount?: number | null;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function lineItemsTotal(lines: { amount: number }[]): number {
+  return lines.reduce((sum, line) => sum + toCents(line.amount), 0) / 100;
+}
+
+// Compared in cents so float sums like 0.1 + 0.2 still match
+export function linesMatchTotal(
+  lines: { amount: number }[],
+  amount: number
+): boolean {
+  return toCents(lineItemsTotal(lines)) === toCents(amount);
+}
+
+/**
+ * Tax included in a gross amount at a percentage rate
+ */
+export function taxFromRate(amount: number, taxRate: number): number {
+  return toCents((amount * taxRate) / (100 + taxRate)) / 100;
+}
+
+/**
+ * The tax on a line: the amount given, otherwise worked out from the rate
+ */
+export function resolveLineTax(line: LineItemAmounts): number {
+  if (line.taxAmount !== undefined && line.taxAmount !== null) {
+    return line.taxAmount;
+  }
+  return line.taxRate ? taxFromRate(line.amount, line.taxRate) : 0;
+}
+
+/**
+ * Index of the largest line; the first one listed on a tie
+ */
+export function getPrimaryLineIndex(lines: { amount: number }[]): number {
+  let primary = -1;
+  lines.forEach((line, index) => {
+    if (primary === -1 || line.amount > lines[primary].amount) {
+      primary = index;
+    }
+  });
+  return primary;
+}
+
+/**
+ * Split an amount over the lines in proportion to their amounts, in cents.
+ * Used to spread an expense's base currency amount over its lines; the
+ * rounding remainder goes to the largest line so the parts add up.
+ */
+export function allocateToLines(
+  amount: number,
+  lines: { amount: number }[]
+): number[] {
+  if (lines.length === 0) return [];
+
+  const cents = toCents(amount);
+  const lineCents = lines.map((line) => toCents(line.amount));
+  const totalCents = lineCents.reduce((sum, value) => sum + value, 0);
+  if (totalCents === 0) return lines.map(() => 0);
+
+  const parts = lineCents.map((value) =>
+    Math.floor((cents * value) / totalCents)
+  );
+  const allocated = parts.reduce((sum, value) => sum + value, 0);
+  parts[getPrimaryLineIndex(lines)] += cents - allocated;
+
+  return parts.map((value) => value / 100);
+}
+
+export interface SuggestedLineItem {
+  description: string;
+  amount: number;
+  taxAmount?: number;
+}
+
+/**
+ * Line items to pre-fill from a receipt. Receipts list their lines either
+ * with tax included, or before tax with the tax as a separate total; in both
+ * cases the receipt's tax is spread over the lines by amount. Lines that
+ * don't add up to the receipt total are suggested as read.
+ */
+export function suggestLineItems(
+  ocrData: Pick<OCRResult, "fields" | "lineItems">
+): SuggestedLineItem[] | undefined {
+  const lines = ocrData.lineItems.filter((line) => line.amount > 0);
+  if (lines.length === 0) return undefined;
+
+  const { amount, taxAmount } = ocrData.fields;
+  const lineTotal = lineItemsTotal(lines);
+
+  if (taxAmount && amount !== undefined) {
+    if (linesMatchTotal(lines, amount)) {
+      const taxes = allocateToLines(taxAmount, lines);
+      return lines.map((line, index) => ({
+        description: line.description,
+        amount: line.amount,
+        taxAmount: taxes[index],
+      }));
+    }
+    if (toCents(lineTotal) + toCents(taxAmount) === toCents(amount)) {
+      const taxes = allocateToLines(taxAmount, lines);
+      return lines.map((line, index) => ({
+        description: line.description,
+        amount: (toCents(line.amount) + toCents(taxes[index])) / 100,
+        taxAmount: taxes[index],
+      }));
+    }
+  }
+
+  return lines.map((line) => ({
+    description: line.description,
+    amount: line.amount,
+  }));
+}
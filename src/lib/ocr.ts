@@ -0,0 +1,372 @@
+import type { OCRLineItem, OCRResult } from "@/types/system";
+
+/**
+ * Receipt OCR
+ * Pluggable text recognition engines and the parser that turns recognised
+ * receipt text into expense fields
+ */
+
+export interface OCRTextLine {
+  text: string;
+  // 0-1
+  confidence: number;
+}
+
+export interface OCRRecognition {
+  text: string;
+  // 0-1
+  confidence: number;
+  lines: OCRTextLine[];
+}
+
+export interface OCREngine {
+  name: string;
+  supports(mimeType: string): boolean;
+  recognize(image: Buffer, mimeType: string): Promise<OCRRecognition>;
+}
+
+/**
+ * Tesseract engine. Runs locally; set OCR_LANG_PATH to a directory holding
+ * the *.traineddata files to avoid downloading them on first use.
+ */
+class TesseractOCREngine implements OCREngine {
+  name = "tesseract";
+
+  private static readonly SUPPORTED_TYPES = [
+    "image/jpeg",
+    "image/jpg",
+    "image/png",
+    "image/webp",
+    "image/bmp",
+  ];
+
+  private worker: Promise<import("tesseract.js").Worker> | null = null;
+
+  supports(mimeType: string): boolean {
+    return TesseractOCREngine.SUPPORTED_TYPES.includes(mimeType);
+  }
+
+  async recognize(image: Buffer): Promise<OCRRecognition> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(
+      image,
+      {},
+      { text: true, blocks: true }
+    );
+
+    const lines = (data.blocks || []).flatMap((block) =>
+      block.paragraphs.flatMap((paragraph) =>
+        paragraph.lines.map((line) => ({
+          text: line.text.trim(),
+          confidence: line.confidence / 100,
+        }))
+      )
+    );
+
+    return {
+      text: data.text,
+      confidence: data.confidence / 100,
+      lines: lines.filter((line) => line.text.length > 0),
+    };
+  }
+
+  // One worker per process; loading the language data is the slow part
+  private getWorker() {
+    if (!this.worker) {
+      this.worker = import("tesseract.js").then(({ createWorker }) =>
+        createWorker(process.env.OCR_LANGUAGES || "eng", undefined, {
+          ...(process.env.OCR_LANG_PATH && {
+            langPath: process.env.OCR_LANG_PATH,
+          }),
+        })
+      );
+      this.worker.catch(() => {
+        this.worker = null;
+      });
+    }
+
+    return this.worker;
+  }
+}
+
+const engineFactories: Record<string, () => OCREngine> = {
+  tesseract: () => new TesseractOCREngine(),
+};
+const engineInstances: Record<string, OCREngine> = {};
+
+/**
+ * Make an engine selectable through the OCR_ENGINE environment variable
+ */
+export function registerOCREngine(name: string, factory: () => OCREngine) {
+  engineFactories[name] = factory;
+  delete engineInstances[name];
+}
+
+/**
+ * The configured engine (OCR_ENGINE, default "tesseract")
+ */
+export function getOCREngine(): OCREngine {
+  const name = process.env.OCR_ENGINE || "tesseract";
+  const factory = engineFactories[name];
+
+  if (!factory) {
+    throw new Error(`Unknown OCR engine: ${name}`);
+  }
+
+  if (!engineInstances[name]) {
+    engineInstances[name] = factory();
+  }
+
+  return engineInstances[name];
+}
+
+// Amounts with two decimals, e.g. 1,234.50 / 1.234,50 / 12.50
+const AMOUNT_PATTERN = /(\d{1,3}(?:[.,\s]\d{3})+|\d+)[.,](\d{2})(?!\d)/g;
+
+const TOTAL_PATTERN =
+  /\b(grand\s*total|total\s*due|amount\s*due|balance\s*due|total)\b/i;
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+// Lines labelled as tax ("Tax 1.20", "Sales tax", "VAT 20%"), as opposed
+// to totals that mention tax ("Total incl. VAT")
+const TAX_LINE_PATTERN = /^\W*(sales\s*)?(tax|vat|gst|hst|pst)\b/i;
+const NON_ITEM_PATTERN =
+  /\b(total|subtotal|tax|vat|gst|hst|pst|change|cash|card|visa|mastercard|amex|balance|tip|gratuity|tender|paid|due|discount)\b/i;
+const NON_MERCHANT_PATTERN =
+  /\b(receipt|invoice|tel|phone|fax|date|time|www|http|order|table|server|cashier)\b/i;
+
+const CURRENCY_CODES = ["USD", "EUR", "GBP", "INR", "CAD", "AUD", "JPY"];
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "€": "EUR",
+  "£": "GBP",
+  "₹": "INR",
+  "¥": "JPY",
+  $: "USD",
+};
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Last two-decimal amount on a line, as a number
+function findAmount(text: string): number | undefined {
+  const matches = Array.from(text.matchAll(AMOUNT_PATTERN));
+  const last = matches[matches.length - 1];
+
+  if (!last) {
+    return undefined;
+  }
+
+  return Number(`${last[1].replace(/[.,\s]/g, "")}.${last[2]}`);
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+// Returns the date and how sure we are about the day/month order
+function findDate(text: string): { value: string; certainty: number } | null {
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) {
+    const value = toIsoDate(+iso[1], +iso[2], +iso[3]);
+    if (value) return { value, certainty: 1 };
+  }
+
+  const named = text.match(
+    /\b(\d{1,2})?\s*(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s*(\d{1,2})?,?\s*(\d{4})\b/i
+  );
+  if (named && (named[1] || named[3])) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    const value = toIsoDate(+named[4], month, +(named[1] || named[3]));
+    if (value) return { value, certainty: 1 };
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (numeric) {
+    const first = +numeric[1];
+    const second = +numeric[2];
+    const year = numeric[3].length === 2 ? 2000 + +numeric[3] : +numeric[3];
+
+    // Day-first when the first part can't be a month, month-first otherwise
+    const value =
+      first > 12
+        ? toIsoDate(year, second, first)
+        : toIsoDate(year, first, second);
+    if (value) {
+      return { value, certainty: first > 12 || second > 12 ? 0.9 : 0.6 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract merchant, total, tax, currency, date and line items from
+ * recognised receipt text. Each field's confidence combines the engine's
+ * confidence for the line it came from with how specific the match was.
+ */
+export function parseReceiptText(
+  recognition: OCRRecognition,
+  engine: string
+): OCRResult {
+  const lines =
+    recognition.lines.length > 0
+      ? recognition.lines
+      : recognition.text
+          .split("\n")
+          .map((text) => text.trim())
+          .filter(Boolean)
+          .map((text) => ({ text, confidence: recognition.confidence }));
+
+  const fields: OCRResult["fields"] = {};
+  const fieldConfidence: OCRResult["fieldConfidence"] = {};
+
+  // Merchant: the first line near the top that reads like a name
+  const merchantLine = lines
+    .slice(0, 5)
+    .find(
+      (line) =>
+        /[a-z]{3,}/i.test(line.text) &&
+        !NON_MERCHANT_PATTERN.test(line.text) &&
+        findAmount(line.text) === undefined
+    );
+  if (merchantLine) {
+    fields.merchant = merchantLine.text.replace(/\s{2,}/g, " ");
+    fieldConfidence.merchant = round(merchantLine.confidence * 0.8);
+  }
+
+  // Total: prefer explicit "amount due"/"grand total" lines, then the last
+  // "total" line, then the largest amount on the receipt
+  const totalLines = lines.filter(
+    (line) =>
+      TOTAL_PATTERN.test(line.text) &&
+      !SUBTOTAL_PATTERN.test(line.text) &&
+      !TAX_LINE_PATTERN.test(line.text) &&
+      findAmount(line.text) !== undefined
+  );
+  const totalLine =
+    totalLines.find((line) =>
+      /grand\s*total|amount\s*due|balance\s*due|total\s*due/i.test(line.text)
+    ) || totalLines[totalLines.length - 1];
+
+  if (totalLine) {
+    fields.amount = findAmount(totalLine.text);
+    fieldConfidence.amount = round(totalLine.confidence * 0.95);
+  } else {
+    const amounts = lines
+      .map((line) => ({ line, amount: findAmount(line.text) }))
+      .filter(
+        (entry): entry is { line: OCRTextLine; amount: number } =>
+          entry.amount !== undefined
+      );
+    const largest = amounts.sort((a, b) => b.amount - a.amount)[0];
+    if (largest) {
+      fields.amount = largest.amount;
+      fieldConfidence.amount = round(largest.line.confidence * 0.5);
+    }
+  }
+
+  const taxLine = lines.find(
+    (line) =>
+      TAX_LINE_PATTERN.test(line.text) && findAmount(line.text) !== undefined
+  );
+  if (taxLine) {
+    fields.taxAmount = findAmount(taxLine.text);
+    fieldConfidence.taxAmount = round(taxLine.confidence * 0.85);
+  }
+
+  // Currency: an ISO code is unambiguous, a symbol less so ($ especially)
+  const codeMatch = recognition.text.match(
+    new RegExp(`\\b(${CURRENCY_CODES.join("|")})\\b`)
+  );
+  if (codeMatch) {
+    fields.currency = codeMatch[1];
+    fieldConfidence.currency = round(recognition.confidence * 0.9);
+  } else {
+    const symbol = Object.keys(CURRENCY_SYMBOLS).find((candidate) =>
+      recognition.text.includes(candidate)
+    );
+    if (symbol) {
+      fields.currency = CURRENCY_SYMBOLS[symbol];
+      fieldConfidence.currency = round(
+        recognition.confidence * (symbol === "$" ? 0.5 : 0.7)
+      );
+    }
+  }
+
+  for (const line of lines) {
+    const date = findDate(line.text);
+    if (date) {
+      fields.date = date.value;
+      fieldConfidence.date = round(line.confidence * date.certainty);
+      break;
+    }
+  }
+
+  // Line items: priced lines above the totals that aren't payment lines
+  const totalsStart = lines.findIndex(
+    (line) => SUBTOTAL_PATTERN.test(line.text) || TOTAL_PATTERN.test(line.text)
+  );
+  const lineItems: OCRLineItem[] = lines
+    .slice(0, totalsStart === -1 ? lines.length : totalsStart)
+    .filter((line) => line !== merchantLine && !NON_ITEM_PATTERN.test(line.text))
+    .flatMap((line) => {
+      const amount = findAmount(line.text);
+      if (amount === undefined) {
+        return [];
+      }
+
+      const description = line.text
+        .replace(AMOUNT_PATTERN, "")
+        .replace(/[$€£₹¥]/g, "")
+        .trim();
+      if (!/[a-z]{2,}/i.test(description)) {
+        return [];
+      }
+
+      const quantity = description.match(/^(\d+)\s*(?:x|@)\s*/i);
+
+      return [
+        {
+          description: quantity
+            ? description.slice(quantity[0].length)
+            : description,
+          ...(quantity && { quantity: Number(quantity[1]) }),
+          amount,
+          confidence: round(line.confidence),
+        },
+      ];
+    });
+
+  return {
+    text: recognition.text,
+    confidence: round(recognition.confidence),
+    fields,
+    fieldConfidence,
+    lineItems,
+    engine,
+    rawData: { lineCount: lines.length },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Company onboarding
+ * Duplicate-company detection for self-service signup, email verification
+ * tokens, and the steps of the admin onboarding checklist
+ */
+
+// Verification links stay valid for a day
+export const EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60;
+
+export const emailVerificationKey = (token: string) =>
+  `email_verification:${token}`;
+
+// The user's outstanding token, so a resend invalidates the previous link
+export const emailVerificationUserKey = (userId: string) =>
+  `email_verification_user:${userId}`;
+
+// Legal-form suffixes ignored when comparing company names
+const COMPANY_NAME_SUFFIXES = new Set([
+  "ag",
+  "bv",
+  "co",
+  "company",
+  "corp",
+  "corporation",
+  "gmbh",
+  "inc",
+  "incorporated",
+  "limited",
+  "llc",
+  "llp",
+  "ltd",
+  "plc",
+  "private",
+  "pte",
+  "pty",
+  "pvt",
+  "sa",
+  "sarl",
+]);
+
+/**
+ * A company name reduced for comparison: lowercase words without
+ * punctuation or trailing legal-form suffixes ("Acme, Inc." -> "acme")
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  while (words.length > 1 && COMPANY_NAME_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(" ");
+}
+
+// Mailbox providers whose addresses say nothing about the employer
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  "aol.com",
+  "gmail.com",
+  "googlemail.com",
+  "gmx.com",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "yahoo.com",
+  "yandex.com",
+  "zoho.com",
+]);
+
+/**
+ * The domain of a work email address; null for personal mailbox providers
+ */
+export function getCompanyEmailDomain(email: string): string | null {
+  const domain = email.split("@")[1]?.toLowerCase().trim();
+  if (!domain || PERSONAL_EMAIL_DOMAINS.has(domain)) return null;
+  return domain;
+}
+
+export type OnboardingStepKey =
+  | "verify_email"
+  | "invite_team"
+  | "set_up_categories"
+  | "set_up_approval_rules";
+
+export interface OnboardingStepDefinition {
+  key: OnboardingStepKey;
+  title: string;
+  description: string;
+}
+
+export const ONBOARDING_STEPS: OnboardingStepDefinition[] = [
+  {
+    key: "verify_email",
+    title: "Verify your email",
+    description: "Confirm your address with the link we sent you",
+  },
+  {
+    key: "invite_team",
+    title: "Invite your team",
+    description: "Add the employees and managers who will submit and approve expenses",
+  },
+  {
+    key: "set_up_categories",
+    title: "Set up expense categories",
+    description: "Review the default categories, add GL codes and budgets",
+  },
+  {
+    key: "set_up_approval_rules",
+    title: "Set up approval rules",
+    description: "New companies start with manager approval; add rules for larger or special expenses",
+  },
+];
@@ -0,0 +1,276 @@
+/**
+ * Permissions
+ * The catalog of permissions company roles are built from, and the presets
+ * of the built-in ADMIN, MANAGER and EMPLOYEE roles. Custom roles
+ * (CompanyRole) add catalog permissions on top of a user's built-in role.
+ */
+
+export type BuiltInRole = "ADMIN" | "MANAGER" | "EMPLOYEE";
+
+// Grants every permission; only the built-in ADMIN role holds it
+export const ALL_PERMISSIONS = "*";
+
+export interface PermissionDefinition {
+  key: string;
+  group: string;
+  label: string;
+  description: string;
+}
+
+export const PERMISSION_CATALOG: readonly PermissionDefinition[] = [
+  // Expenses
+  {
+    key: "expense:create",
+    group: "Expenses",
+    label: "Submit expenses",
+    description: "Create and submit their own expenses",
+  },
+  {
+    key: "expense:read:own",
+    group: "Expenses",
+    label: "View own expenses",
+    description: "See the expenses they submitted",
+  },
+  {
+    key: "expense:update:own",
+    group: "Expenses",
+    label: "Edit own expenses",
+    description: "Change their expenses before they are approved",
+  },
+  {
+    key: "expense:delete:own",
+    group: "Expenses",
+    label: "Delete own expenses",
+    description: "Delete their draft and rejected expenses",
+  },
+  {
+    key: "expense:read:team",
+    group: "Expenses",
+    label: "View team expenses",
+    description: "See the expenses of the people reporting to them",
+  },
+  {
+    key: "expense:read:all",
+    group: "Expenses",
+    label: "View all expenses",
+    description: "See every expense in the company",
+  },
+  // Receipts
+  {
+    key: "receipt:upload",
+    group: "Receipts",
+    label: "Upload receipts",
+    description: "Attach receipts to their expenses",
+  },
+  {
+    key: "receipt:read:own",
+    group: "Receipts",
+    label: "View own receipts",
+    description: "Download the receipts they uploaded",
+  },
+  // Approvals
+  {
+    key: "expense:approve",
+    group: "Approvals",
+    label: "Approve expenses",
+    description: "Approve the steps assigned to them",
+  },
+  {
+    key: "expense:reject",
+    group: "Approvals",
+    label: "Reject expenses",
+    description: "Reject the steps assigned to them",
+  },
+  {
+    key: "approval:create",
+    group: "Approvals",
+    label: "Start approvals",
+    description: "Open approval steps on expenses",
+  },
+  {
+    key: "approval:update",
+    group: "Approvals",
+    label: "Update approvals",
+    description: "Comment on and reassign approval steps",
+  },
+  {
+    key: "approval-rule:manage",
+    group: "Approvals",
+    label: "Manage approval rules",
+    description: "Create, change and delete the company approval rules",
+  },
+  // Cash advances
+  {
+    key: "advance:disburse",
+    group: "Cash advances",
+    label: "Disburse advances",
+    description: "Record approved advances as paid out",
+  },
+  {
+    key: "advance:reconcile",
+    group: "Cash advances",
+    label: "Reconcile advances",
+    description: "Settle paid out advances against their expenses",
+  },
+  // Reports
+  {
+    key: "report:read",
+    group: "Reports",
+    label: "View reports",
+    description: "See spending analytics and summaries",
+  },
+  {
+    key: "report:export",
+    group: "Reports",
+    label: "Export reports",
+    description: "Download reports as CSV or PDF",
+  },
+  // People
+  {
+    key: "user:read",
+    group: "People",
+    label: "View users",
+    description: "See the company's users and reporting lines",
+  },
+  {
+    key: "user:manage",
+    group: "People",
+    label: "Manage users",
+    description: "Add users and change their role, manager and department",
+  },
+  {
+    key: "role:manage",
+    group: "People",
+    label: "Manage roles",
+    description: "Define custom roles and assign them to users",
+  },
+  // Configuration
+  {
+    key: "category:manage",
+    group: "Configuration",
+    label: "Manage categories",
+    description: "Create, change and archive expense categories and budgets",
+  },
+  {
+    key: "policy:manage",
+    group: "Configuration",
+    label: "Manage policies",
+    description: "Create and change expense policies",
+  },
+  {
+    key: "company:settings",
+    group: "Configuration",
+    label: "Manage company settings",
+    description: "Change the company-wide settings",
+  },
+];
+
+export const PERMISSION_KEYS = PERMISSION_CATALOG.map(
+  (permission) => permission.key
+);
+
+export interface RolePreset {
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+// The built-in roles every user has exactly one of (User.role)
+export const BUILT_IN_ROLES: Record<BuiltInRole, RolePreset> = {
+  ADMIN: {
+    name: "Admin",
+    description: "Full access to the company",
+    permissions: [ALL_PERMISSIONS],
+  },
+  MANAGER: {
+    name: "Manager",
+    description: "Approves and reports on their team's spending",
+    permissions: [
+      "expense:read:team",
+      "expense:approve",
+      "expense:reject",
+      "user:read",
+      "report:read",
+      "report:export",
+      "approval:create",
+      "approval:update",
+    ],
+  },
+  EMPLOYEE: {
+    name: "Employee",
+    description: "Submits their own expenses",
+    permissions: [
+      "expense:create",
+      "expense:read:own",
+      "expense:update:own",
+      "expense:delete:own",
+      "receipt:upload",
+      "receipt:read:own",
+      // Reports on their own expenses
+      "report:read",
+      "report:export",
+    ],
+  },
+};
+
+// Starting points offered when defining a custom role
+export const ROLE_TEMPLATES: readonly RolePreset[] = [
+  {
+    name: "Finance Reviewer",
+    description: "Reviews spending and pays out and settles cash advances",
+    permissions: [
+      "expense:read:all",
+      "expense:approve",
+      "expense:reject",
+      "advance:disburse",
+      "advance:reconcile",
+      "report:read",
+      "report:export",
+    ],
+  },
+  {
+    name: "Auditor (read-only)",
+    description: "Can see everything but change nothing",
+    permissions: ["expense:read:all", "user:read", "report:read", "report:export"],
+  },
+  {
+    name: "Department Head",
+    description: "Approves and reports on their department's spending",
+    permissions: [
+      "expense:read:team",
+      "expense:approve",
+      "expense:reject",
+      "user:read",
+      "report:read",
+    ],
+  },
+];
+
+/**
+ * The permissions of a built-in role; none for an unknown role
+ */
+export function getBuiltInPermissions(role: string): string[] {
+  return BUILT_IN_ROLES[role as BuiltInRole]?.permissions ?? [];
+}
+
+/**
+ * Whether the granted permissions include the permission
+ */
+export function isPermissionGranted(
+  granted: string[],
+  permission: string
+): boolean {
+  return granted.includes(ALL_PERMISSIONS) || granted.includes(permission);
+}
+
+/**
+ * The built-in role whose view of the company's expenses the permissions
+ * amount to: ADMIN with expense:read:all, MANAGER with expense:read:team,
+ * otherwise EMPLOYEE (their own expenses). Reports and listings are scoped
+ * by it rather than by User.role, so custom roles widen what a user sees.
+ */
+export function getExpenseScopeRole(granted: string[]): BuiltInRole {
+  if (isPermissionGranted(granted, "expense:read:all")) return "ADMIN";
+  if (isPermissionGranted(granted, "expense:read:team")) return "MANAGER";
+  return "EMPLOYEE";
+}
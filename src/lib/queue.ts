@@ -41,18 +41,53 @@ export const reportQueue = new Queue("Report Generation", REDIS_URL, {
   },
 });
 
+export const approvalSlaQueue = new Queue("Approval SLA", REDIS_URL, {
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 10,
+    attempts: 1,
+  },
+});
+
+// Webhook deliveries retry with exponential backoff: 10s, 20s, 40s ... ~21 minutes in total
+export const webhookQueue = new Queue("Webhook Delivery", REDIS_URL, {
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 100,
+    attempts: 8,
+    backoff: {
+      type: "exponential",
+      delay: 10000,
+    },
+  },
+});
+
+export const exchangeRateQueue = new Queue("Exchange Rates", REDIS_URL, {
+  defaultJobOptions: {
+    removeOnComplete: 10,
+    removeOnFail: 10,
+    attempts: 3,
+    backoff: {
+      type: "exponential",
+      delay: 60000,
+    },
+  },
+});
+
 // Job types and interfaces
 export interface OCRJobData {
   receiptId: string;
-  fileUrl: string;
-  fileName: string;
+  s3Key: string;
   userId: string;
-  companyId: string;
+  // Null while the receipt hasn't been attached to an expense yet
+  expenseId: string | null;
 }
 
 export interface EmailJobData {
   type:
     | "welcome"
+    | "email-verification"
+    | "invitation"
     | "password-reset"
     | "expense-submitted"
     | "expense-approved"
@@ -67,7 +102,23 @@ export interface ReportJobData {
   userId: string;
   companyId: string;
   parameters: Record<string, any>;
-  format: "pdf" | "csv" | "excel";
+  format: "json" | "csv" | "xlsx" | "pdf";
+  // ExportTask row tracking this job's progress and output
+  exportTaskId?: string;
+}
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+export interface ApprovalSlaJobData {
+  // Overrides the clock, mainly for replaying a missed run
+  runAt?: string;
+}
+
+export interface ExchangeRateJobData {
+  // YYYY-MM-DD; the provider's latest rates when omitted
+  date?: string;
 }
 
 // Job priority levels
@@ -128,6 +179,83 @@ export async function addReportJob(
   }
 }
 
+// Add webhook delivery job
+export async function addWebhookJob(
+  data: WebhookJobData,
+  priority: number = JobPriority.NORMAL
+): Promise<void> {
+  try {
+    await webhookQueue.add("deliver-webhook", data, {
+      priority,
+    });
+    console.log(`Webhook job added for delivery: ${data.deliveryId}`);
+  } catch (error) {
+    console.error("Failed to add webhook job:", error);
+    throw error;
+  }
+}
+
+// Schedule the recurring removal of expired report exports
+export async function scheduleExportCleanupJob(
+  everyMinutes: number = 60
+): Promise<void> {
+  try {
+    await reportQueue.add(
+      "cleanup-exports",
+      {},
+      {
+        jobId: "export-cleanup",
+        repeat: { every: everyMinutes * 60 * 1000 },
+      }
+    );
+    console.log(`Export cleanup scheduled every ${everyMinutes} minutes`);
+  } catch (error) {
+    console.error("Failed to schedule export cleanup job:", error);
+    throw error;
+  }
+}
+
+// Schedule the recurring approval SLA check (reminders and escalations).
+// The fixed job id keeps a single repeatable job across restarts.
+export async function scheduleApprovalSlaJob(
+  everyMinutes: number = 15
+): Promise<void> {
+  try {
+    await approvalSlaQueue.add(
+      "check-approval-slas",
+      {} as ApprovalSlaJobData,
+      {
+        jobId: "approval-sla-check",
+        repeat: { every: everyMinutes * 60 * 1000 },
+      }
+    );
+    console.log(`Approval SLA check scheduled every ${everyMinutes} minutes`);
+  } catch (error) {
+    console.error("Failed to schedule approval SLA job:", error);
+    throw error;
+  }
+}
+
+// Schedule the recurring fetch of exchange rates from the configured provider
+export async function scheduleExchangeRateSyncJob(
+  everyHours: number = 6
+): Promise<void> {
+  try {
+    await exchangeRateQueue.add(
+      "sync-exchange-rates",
+      {} as ExchangeRateJobData,
+      {
+        jobId: "exchange-rate-sync",
+        repeat: { every: everyHours * 60 * 60 * 1000 },
+      }
+    );
+    console.log(`Exchange rate sync scheduled every ${everyHours} hours`);
+  } catch (error) {
+    console.error("Failed to schedule exchange rate sync job:", error);
+    throw error;
+  }
+}
+
 // Get job status
 export async function getJobStatus(
   queueName: string,
@@ -146,6 +274,15 @@ export async function getJobStatus(
       case "report":
         queue = reportQueue;
         break;
+      case "approval-sla":
+        queue = approvalSlaQueue;
+        break;
+      case "webhook":
+        queue = webhookQueue;
+        break;
+      case "exchange-rate":
+        queue = exchangeRateQueue;
+        break;
       default:
         throw new Error("Invalid queue name");
     }
@@ -172,23 +309,42 @@ export async function getJobStatus(
   }
 }
 
+// Job counts by state for each queue
+export interface QueueHealth {
+  ocr: Queue.JobCounts;
+  email: Queue.JobCounts;
+  report: Queue.JobCounts;
+  approvalSla: Queue.JobCounts;
+  webhook: Queue.JobCounts;
+  exchangeRate: Queue.JobCounts;
+}
+
 // Queue monitoring and health check
-export async function getQueueHealth(): Promise<{
-  ocr: any;
-  email: any;
-  report: any;
-}> {
+export async function getQueueHealth(): Promise<QueueHealth> {
   try {
-    const [ocrStats, emailStats, reportStats] = await Promise.all([
+    const [
+      ocrStats,
+      emailStats,
+      reportStats,
+      approvalSlaStats,
+      webhookStats,
+      exchangeRateStats,
+    ] = await Promise.all([
       ocrQueue.getJobCounts(),
       emailQueue.getJobCounts(),
       reportQueue.getJobCounts(),
+      approvalSlaQueue.getJobCounts(),
+      webhookQueue.getJobCounts(),
+      exchangeRateQueue.getJobCounts(),
     ]);
 
     return {
       ocr: ocrStats,
       email: emailStats,
       report: reportStats,
+      approvalSla: approvalSlaStats,
+      webhook: webhookStats,
+      exchangeRate: exchangeRateStats,
     };
   } catch (error) {
     console.error("Failed to get queue health:", error);
@@ -206,6 +362,12 @@ export async function cleanupQueues(): Promise<void> {
       emailQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"),
       reportQueue.clean(24 * 60 * 60 * 1000, "completed"),
       reportQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"),
+      approvalSlaQueue.clean(24 * 60 * 60 * 1000, "completed"),
+      approvalSlaQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"),
+      webhookQueue.clean(24 * 60 * 60 * 1000, "completed"),
+      webhookQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"),
+      exchangeRateQueue.clean(24 * 60 * 60 * 1000, "completed"),
+      exchangeRateQueue.clean(7 * 24 * 60 * 60 * 1000, "failed"),
     ]);
     console.log("Queue cleanup completed");
   } catch (error) {
@@ -220,6 +382,9 @@ export async function closeQueues(): Promise<void> {
       ocrQueue.close(),
       emailQueue.close(),
       reportQueue.close(),
+      approvalSlaQueue.close(),
+      webhookQueue.close(),
+      exchangeRateQueue.close(),
     ]);
     console.log("All queues closed successfully");
   } catch (error) {
@@ -252,4 +417,28 @@ reportQueue.on("failed", (job, err) => {
   console.error(`Report job ${job.id} failed:`, err);
 });
 
+approvalSlaQueue.on("completed", (job, result) => {
+  console.log(`Approval SLA job ${job.id} completed:`, result);
+});
+
+approvalSlaQueue.on("failed", (job, err) => {
+  console.error(`Approval SLA job ${job.id} failed:`, err);
+});
+
+webhookQueue.on("completed", (job, result) => {
+  console.log(`Webhook job ${job.id} completed:`, result);
+});
+
+webhookQueue.on("failed", (job, err) => {
+  console.error(`Webhook job ${job.id} failed:`, err);
+});
+
+exchangeRateQueue.on("completed", (job, result) => {
+  console.log(`Exchange rate job ${job.id} completed:`, result);
+});
+
+exchangeRateQueue.on("failed", (job, err) => {
+  console.error(`Exchange rate job ${job.id} failed:`, err);
+});
+
 export { Queue };
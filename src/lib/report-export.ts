@@ -0,0 +1,278 @@
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+
+/**
+ * Report export rendering
+ * Turns expense report rows into downloadable CSV, XLSX, PDF or JSON files
+ */
+
+export type ExportFormat = "json" | "csv" | "xlsx" | "pdf";
+
+export interface ExpenseExportRow {
+  id: string;
+  expenseDate: string;
+  submittedBy: string;
+  submitterEmail: string;
+  category: string;
+  // Code of the cost center, or of each share for a split expense
+  costCenter?: string | null;
+  // Code of the client project
+  project?: string | null;
+  description: string;
+  amount: number;
+  currency: string;
+  // Amount in the company base currency, at the rate locked on submission
+  baseAmount?: number | null;
+  baseCurrency?: string | null;
+  status: string;
+  receiptFileName?: string | null;
+  receiptUrl?: string | null;
+}
+
+export interface RenderedExport {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+interface ExportColumn {
+  key: keyof ExpenseExportRow;
+  header: string;
+  width: number;
+}
+
+const BASE_COLUMNS: ExportColumn[] = [
+  { key: "expenseDate", header: "Date", width: 12 },
+  { key: "submittedBy", header: "Employee", width: 22 },
+  { key: "submitterEmail", header: "Email", width: 28 },
+  { key: "category", header: "Category", width: 18 },
+  { key: "costCenter", header: "Cost Center", width: 16 },
+  { key: "project", header: "Project", width: 14 },
+  { key: "description", header: "Description", width: 40 },
+  { key: "amount", header: "Amount", width: 12 },
+  { key: "currency", header: "Currency", width: 10 },
+  { key: "baseAmount", header: "Base Amount", width: 12 },
+  { key: "baseCurrency", header: "Base Currency", width: 10 },
+  { key: "status", header: "Status", width: 18 },
+];
+
+const RECEIPT_COLUMNS: ExportColumn[] = [
+  { key: "receiptFileName", header: "Receipt", width: 24 },
+  { key: "receiptUrl", header: "Receipt URL", width: 50 },
+];
+
+const getColumns = (includeReceipts: boolean) =>
+  includeReceipts ? [...BASE_COLUMNS, ...RECEIPT_COLUMNS] : BASE_COLUMNS;
+
+// Quote a CSV field when it contains a delimiter, quote or line break
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(
+  rows: ExpenseExportRow[],
+  columns: ExportColumn[]
+): RenderedExport {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCsvValue(row[column.key])).join(",")
+    ),
+  ];
+
+  return {
+    // Leading BOM so spreadsheet apps detect UTF-8
+    buffer: Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8"),
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+  };
+}
+
+async function renderXlsx(
+  rows: ExpenseExportRow[],
+  columns: ExportColumn[],
+  title: string
+): Promise<RenderedExport> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet("Expenses", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: column.width,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getColumn("amount").numFmt = "#,##0.00";
+  sheet.getColumn("baseAmount").numFmt = "#,##0.00";
+
+  rows.forEach((row) => sheet.addRow(row));
+  workbook.title = title;
+
+  const data = await workbook.xlsx.writeBuffer();
+
+  return {
+    buffer: Buffer.from(data as ArrayBuffer),
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  };
+}
+
+function renderPdf(
+  rows: ExpenseExportRow[],
+  title: string,
+  subtitle: string
+): Promise<RenderedExport> {
+  // Email and receipt columns are left out; the page is too narrow for them
+  const columns = BASE_COLUMNS.filter(
+    (column) => column.key !== "submitterEmail"
+  );
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      layout: "landscape",
+      margin: 36,
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("error", reject);
+    doc.on("end", () =>
+      resolve({
+        buffer: Buffer.concat(chunks),
+        contentType: "application/pdf",
+        extension: "pdf",
+      })
+    );
+
+    const left = doc.page.margins.left;
+    const usableWidth =
+      doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map(
+      (column) => (column.width / totalWidth) * usableWidth
+    );
+
+    const drawRow = (values: string[], bold = false) => {
+      const top = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+
+      let x = left;
+      let rowHeight = 0;
+      values.forEach((value, index) => {
+        const options = { width: widths[index] - 4 };
+        doc.text(value, x, top, options);
+        rowHeight = Math.max(rowHeight, doc.heightOfString(value, options));
+        x += widths[index];
+      });
+
+      doc.x = left;
+      doc.y = top + rowHeight + 4;
+    };
+
+    const drawHeader = () =>
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      );
+
+    doc.font("Helvetica-Bold").fontSize(14).text(title);
+    doc.font("Helvetica").fontSize(9).text(subtitle).moveDown();
+    drawHeader();
+
+    const bottom = doc.page.height - doc.page.margins.bottom;
+    rows.forEach((row) => {
+      if (doc.y > bottom - 24) {
+        doc.addPage();
+        drawHeader();
+      }
+      drawRow(
+        columns.map((column) =>
+          column.key === "amount" || column.key === "baseAmount"
+            ? row[column.key]?.toFixed(2) ?? ""
+            : String(row[column.key] ?? "")
+        )
+      );
+    });
+
+    const totals = rows.reduce<Record<string, number>>((acc, row) => {
+      acc[row.currency] = (acc[row.currency] || 0) + row.amount;
+      return acc;
+    }, {});
+
+    // A single figure in the base currency when every row has been converted
+    const baseCurrencies = new Set(rows.map((row) => row.baseCurrency));
+    const baseCurrency =
+      baseCurrencies.size === 1 && rows.every((row) => row.baseAmount != null)
+        ? rows[0].baseCurrency
+        : null;
+    const baseTotal = rows.reduce((sum, row) => sum + (row.baseAmount ?? 0), 0);
+
+    doc.moveDown();
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(9)
+      .text(
+        `${rows.length} expense(s). Total: ${
+          Object.entries(totals)
+            .map(([currency, amount]) => `${currency} ${amount.toFixed(2)}`)
+            .join(", ") || "0.00"
+        }${
+          baseCurrency && Object.keys(totals).length > 1
+            ? ` (${baseCurrency} ${baseTotal.toFixed(2)})`
+            : ""
+        }`,
+        left
+      );
+
+    doc.end();
+  });
+}
+
+/**
+ * Render expense report rows in the requested format
+ */
+export async function renderExpenseExport(
+  rows: ExpenseExportRow[],
+  format: ExportFormat,
+  options: { title: string; subtitle: string; includeReceipts: boolean }
+): Promise<RenderedExport> {
+  const columns = getColumns(options.includeReceipts);
+
+  switch (format) {
+    case "csv":
+      return renderCsv(rows, columns);
+    case "xlsx":
+      return renderXlsx(rows, columns, options.title);
+    case "pdf":
+      return renderPdf(rows, options.title, options.subtitle);
+    case "json":
+      return {
+        buffer: Buffer.from(
+          JSON.stringify(
+            {
+              title: options.title,
+              generatedAt: new Date().toISOString(),
+              expenses: rows,
+            },
+            null,
+            2
+          ),
+          "utf8"
+        ),
+        contentType: "application/json",
+        extension: "json",
+      };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -41,6 +41,17 @@ export function generateS3Key(
   return `receipts/${companyId}/${year}/${month}/${userId}/${timestamp}-${cleanFilename}`;
 }
 
+// Generate S3 key for a generated report export
+export function generateExportKey(
+  companyId: string,
+  taskId: string,
+  filename: string
+): string {
+  const cleanFilename = filename.replace(/[^a-zA-Z0-9.-]/g, "_");
+
+  return `exports/${companyId}/${taskId}/${cleanFilename}`;
+}
+
 // Upload file to S3
 export async function uploadFile(
   buffer: Buffer,
@@ -93,6 +104,26 @@ export async function getSignedDownloadUrl(
   }
 }
 
+// Download file contents from S3
+export async function downloadFile(key: string): Promise<Buffer> {
+  try {
+    const command = new GetObjectCommand({
+      Bucket: AWS_S3_BUCKET,
+      Key: key,
+    });
+
+    const response = await s3Client.send(command);
+    if (!response.Body) {
+      throw new Error("Empty response body");
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    console.error("S3 download error:", error);
+    throw new Error("Failed to download file from S3");
+  }
+}
+
 // Delete file from S3
 export async function deleteFile(key: string): Promise<void> {
   try {
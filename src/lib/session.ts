@@ -0,0 +1,61 @@
+import { generateTokenPair, storeRefreshToken, TokenPair, User } from "./jwt";
+
+/**
+ * Sessions
+ * Issuing tokens once a user has passed every sign-in step: their password
+ * and, when they have it, two-factor authentication
+ */
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  firstName: string;
+  lastName: string;
+  companyId: string;
+}
+
+export interface Session {
+  user: SessionUser;
+  tokens: TokenPair;
+}
+
+/**
+ * Generate the user's access and refresh tokens and store the refresh token
+ */
+export async function startSession(user: {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  companyId: string;
+}): Promise<Session> {
+  const userForToken: User = {
+    id: user.id,
+    email: user.email,
+    role: user.role as User["role"],
+    companyId: user.companyId,
+  };
+
+  const tokens = generateTokenPair(userForToken);
+  await storeRefreshToken(user.id, tokens.refreshToken);
+
+  // Extract first and last name from the stored name field
+  const nameParts = user.name.split(" ");
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      firstName: nameParts[0] || "",
+      lastName: nameParts.slice(1).join(" ") || "",
+      companyId: user.companyId,
+    },
+    tokens: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    },
+  };
+}
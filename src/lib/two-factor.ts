@@ -0,0 +1,178 @@
+import crypto from "crypto";
+
+/**
+ * Two-factor authentication
+ * TOTP codes (RFC 6238: HMAC-SHA1, 30 second steps, 6 digits) as produced by
+ * authenticator apps, recovery codes, and the Redis keys of the sign-in
+ * challenge and pending enrolment
+ */
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TWO_FACTOR_ISSUER = "Expense-Wise";
+
+// How long a user has to enter their code after the password step
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+// Wrong codes allowed per challenge before the user has to sign in again
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+// How long an enrolment can go unconfirmed
+export const TWO_FACTOR_SETUP_TTL_SECONDS = 10 * 60;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const twoFactorChallengeKey = (token: string) =>
+  `two_factor_challenge:${token}`;
+
+export const twoFactorAttemptsKey = (token: string) =>
+  `two_factor_attempts:${token}`;
+
+export const twoFactorSetupKey = (userId: string) =>
+  `two_factor_setup:${userId}`;
+
+// The last time step a user signed in with, so a code can't be replayed
+export const twoFactorLastStepKey = (userId: string) =>
+  `two_factor_last_step:${userId}`;
+
+// The roles a company can require two-factor authentication for
+export const TWO_FACTOR_PRIVILEGED_ROLES = ["ADMIN", "MANAGER"] as const;
+
+export const isTwoFactorRequiredFor = (
+  role: string,
+  settings: { requireTwoFactor: boolean }
+) =>
+  settings.requireTwoFactor &&
+  (TWO_FACTOR_PRIVILEGED_ROLES as readonly string[]).includes(role);
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * A new TOTP secret, base32 encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The otpauth:// URI an authenticator app scans from the enrolment QR code
+ */
+export function totpProvisioningUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export const totpStep = (time: number = Date.now()) =>
+  Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+
+function totpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * The time step a code is valid for, or null when it doesn't match the
+ * current step or its neighbours
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  time: number = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = totpCode(key, current + offset);
+    if (
+      crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))
+    ) {
+      return current + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * New recovery codes, formatted xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Codes are compared without the dash and case-insensitively
+export function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+}
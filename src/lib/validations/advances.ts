@@ -0,0 +1,155 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for cash advance endpoints
+ */
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date format");
+
+// Amounts are in the company base currency
+const amountSchema = (label: string) =>
+  z
+    .number()
+    .max(1000000, `${label} cannot exceed 1,000,000`)
+    .refine(
+      (amount) => Math.round(amount * 100) === amount * 100,
+      `${label} cannot have more than 2 decimal places`
+    );
+
+const expenseIdSchema = z.string().cuid("Invalid expense ID format");
+
+const commentSchema = z
+  .string()
+  .trim()
+  .max(1000, "Comment must not exceed 1000 characters");
+
+/**
+ * Request Advance Schema
+ * POST /api/advances
+ */
+export const requestAdvanceSchema = z.object({
+  purpose: z
+    .string()
+    .trim()
+    .min(2, "Purpose must be at least 2 characters")
+    .max(500, "Purpose must not exceed 500 characters"),
+  amount: amountSchema("Amount").refine(
+    (amount) => amount > 0,
+    "Amount must be positive"
+  ),
+  neededBy: dateStringSchema.optional(),
+});
+
+/**
+ * Advance List Query Schema
+ * GET /api/advances
+ */
+export const advanceListQuerySchema = z.object({
+  status: z
+    .enum([
+      "PENDING_APPROVAL",
+      "APPROVED",
+      "REJECTED",
+      "CANCELLED",
+      "DISBURSED",
+      "RECONCILED",
+    ])
+    .optional(),
+  // mine: the user's own advances; approvals: advances with a step assigned
+  // to the user or their delegators; company: every advance (admins only)
+  scope: z.enum(["mine", "approvals", "company"]).optional().default("mine"),
+  submitterId: z.string().cuid("Invalid user ID format").optional(),
+});
+
+/**
+ * Advance Decision Schema
+ * POST /api/advances/{id}/approve and /reject
+ */
+export const approveAdvanceSchema = z.object({
+  comment: commentSchema.optional(),
+});
+
+export const rejectAdvanceSchema = z.object({
+  comment: commentSchema.min(1, "A reason is required to reject an advance"),
+});
+
+/**
+ * Disburse Advance Schema
+ * POST /api/advances/{id}/disburse
+ */
+export const disburseAdvanceSchema = z.object({
+  method: z.enum(["CASH", "BANK_TRANSFER", "CARD", "PAYROLL", "OTHER"]),
+  reference: z
+    .string()
+    .trim()
+    .max(100, "Reference must not exceed 100 characters")
+    .optional(),
+  // Defaults to today
+  disbursedOn: dateStringSchema.optional(),
+});
+
+/**
+ * Reconcile Advance Schema
+ * POST /api/advances/{id}/reconcile
+ * The settlement defaults to the computed balance: positive when the employee
+ * pays back, negative when the company pays out
+ */
+export const reconcileAdvanceSchema = z.object({
+  settlementAmount: amountSchema("Settlement").optional(),
+  note: commentSchema.optional(),
+});
+
+/**
+ * Advance Expenses Schema
+ * POST /api/advances/{id}/expenses links, DELETE unlinks
+ */
+export const advanceExpensesSchema = z.object({
+  expenseIds: z
+    .array(expenseIdSchema)
+    .min(1, "At least one expense ID must be provided")
+    .max(200, "Maximum 200 expenses per request")
+    .transform((ids) => Array.from(new Set(ids))),
+});
+
+// Type exports for TypeScript
+export type RequestAdvanceInput = z.infer<typeof requestAdvanceSchema>;
+export type AdvanceListQueryInput = z.infer<typeof advanceListQuerySchema>;
+export type ApproveAdvanceInput = z.infer<typeof approveAdvanceSchema>;
+export type RejectAdvanceInput = z.infer<typeof rejectAdvanceSchema>;
+export type DisburseAdvanceInput = z.infer<typeof disburseAdvanceSchema>;
+export type ReconcileAdvanceInput = z.infer<typeof reconcileAdvanceSchema>;
+export type AdvanceExpensesInput = z.infer<typeof advanceExpensesSchema>;
+
+/**
+ * Validation utility function for advances
+ */
+export function validateAdvanceInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
@@ -21,6 +21,12 @@ const approvalSequenceSchema = z.enum(["SEQUENTIAL", "PARALLEL"], {
   message: "Sequence must be SEQUENTIAL or PARALLEL",
 });
 
+// ALL: the percentage and every required approver; ANY: a required approver
+// or the percentage, whichever is reached first
+const approvalQuorumModeSchema = z.enum(["ALL", "ANY"], {
+  message: "Quorum mode must be ALL or ANY",
+});
+
 /**
  * Pending Approvals Query Schema
  * GET /api/approvals/pending
@@ -72,21 +78,75 @@ export const rejectExpenseSchema = z.object({
 
 /**
  * Approval Rule Conditions Schema
+ * Conditions are a tree of AND/OR groups; amounts are in company base currency
  */
-const approvalRuleConditionsSchema = z.object({
-  amountThreshold: z
-    .number()
-    .min(0, "Amount threshold must be positive")
-    .optional(),
-  categories: z
-    .array(z.string().min(1, "Category ID must not be empty"))
-    .optional(),
-  userRoles: z.array(z.enum(["ADMIN", "MANAGER", "EMPLOYEE"])).optional(),
-  departmentIds: z
-    .array(z.string().min(1, "Department ID must not be empty"))
-    .optional(),
+const amountConditionSchema = z
+  .object({
+    field: z.literal("amount"),
+    operator: z.enum(["gt", "gte", "lt", "lte", "between"]),
+    value: z.number().min(0, "Amount threshold must be positive"),
+    valueTo: z.number().min(0, "Amount threshold must be positive").optional(),
+  })
+  .refine(
+    (condition) =>
+      condition.operator !== "between" ||
+      (condition.valueTo !== undefined && condition.valueTo >= condition.value),
+    {
+      message: "Between conditions require an upper bound above the lower bound",
+      path: ["valueTo"],
+    }
+  );
+
+const listConditionSchema = z.object({
+  field: z.enum(["category", "submitterRole", "currency", "department"]),
+  operator: z.enum(["in", "notIn"]),
+  value: z
+    .array(z.string().min(1, "Condition values must not be empty"))
+    .min(1, "At least one value is required"),
 });
 
+const approvalRuleConditionSchema = z.union([
+  amountConditionSchema,
+  listConditionSchema,
+]);
+
+type ApprovalRuleConditionGroupInput = {
+  operator: "AND" | "OR";
+  conditions: Array<
+    | z.infer<typeof approvalRuleConditionSchema>
+    | ApprovalRuleConditionGroupInput
+  >;
+};
+
+export const approvalRuleConditionsSchema: z.ZodType<ApprovalRuleConditionGroupInput> =
+  z.lazy(() =>
+    z.object({
+      operator: z.enum(["AND", "OR"]),
+      conditions: z
+        .array(
+          z.union([approvalRuleConditionSchema, approvalRuleConditionsSchema])
+        )
+        .max(20, "Maximum 20 conditions allowed per group"),
+    })
+  );
+
+const rulePrioritySchema = z
+  .number()
+  .int("Priority must be a whole number")
+  .min(0, "Priority must be at least 0")
+  .max(1000, "Priority cannot exceed 1000");
+
+// Levels of the submitter's manager hierarchy that approve first
+const managerApprovalLevelsSchema = z
+  .number()
+  .int("Manager approval levels must be a whole number")
+  .min(1, "At least one manager level is required")
+  .max(5, "Manager approval cannot escalate more than 5 levels");
+
+const requiredApproversSchema = z
+  .array(objectIdSchema)
+  .max(10, "Maximum 10 required approvers allowed");
+
 /**
  * Create Approval Rule Schema
  * POST /api/approval-rules
@@ -100,18 +160,24 @@ export const createApprovalRuleSchema = z.object({
     .string()
     .max(500, "Description must not exceed 500 characters")
     .optional(),
-  conditions: approvalRuleConditionsSchema,
+  conditions: approvalRuleConditionsSchema.optional(),
   approvers: z
     .array(objectIdSchema)
     .min(1, "At least one approver is required")
     .max(10, "Maximum 10 approvers allowed"),
+  // Approvers who must approve regardless of the percentage threshold
+  requiredApprovers: requiredApproversSchema.optional().default([]),
   sequence: approvalSequenceSchema,
   minApprovalPercentage: z
     .number()
     .min(1, "Minimum approval percentage must be at least 1%")
     .max(100, "Minimum approval percentage cannot exceed 100%"),
+  quorumMode: approvalQuorumModeSchema.optional().default("ALL"),
   isManagerApprovalRequired: z.boolean().optional().default(true),
+  managerApprovalLevels: managerApprovalLevelsSchema.optional().default(1),
   isActive: z.boolean().optional().default(true),
+  priority: rulePrioritySchema.optional().default(100),
+  stopOnMatch: z.boolean().optional().default(false),
 });
 
 /**
@@ -135,14 +201,19 @@ export const updateApprovalRuleSchema = z
       .min(1, "At least one approver is required")
       .max(10, "Maximum 10 approvers allowed")
       .optional(),
+    requiredApprovers: requiredApproversSchema.optional(),
     sequence: approvalSequenceSchema.optional(),
     minApprovalPercentage: z
       .number()
       .min(1, "Minimum approval percentage must be at least 1%")
       .max(100, "Minimum approval percentage cannot exceed 100%")
       .optional(),
+    quorumMode: approvalQuorumModeSchema.optional(),
     isManagerApprovalRequired: z.boolean().optional(),
+    managerApprovalLevels: managerApprovalLevelsSchema.optional(),
     isActive: z.boolean().optional(),
+    priority: rulePrioritySchema.optional(),
+    stopOnMatch: z.boolean().optional(),
   })
   .refine(
     (data) => Object.keys(data).length > 0,
@@ -177,6 +248,93 @@ export const approvalRulesQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("desc"),
 });
 
+/**
+ * Approval Rule Preview Schema
+ * POST /api/approval-rules/preview
+ */
+export const previewApprovalRuleSchema = z.object({
+  conditions: approvalRuleConditionsSchema.optional(),
+  lookbackDays: z
+    .number()
+    .int()
+    .min(1, "Lookback must be at least 1 day")
+    .max(366, "Lookback cannot exceed 366 days")
+    .optional(),
+});
+
+const delegationDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+/**
+ * Create Approval Delegation Schema
+ * POST /api/approvals/delegations
+ * Dates are inclusive; delegatorId may only be set by admins
+ */
+export const createDelegationSchema = z
+  .object({
+    delegatorId: objectIdSchema.optional(),
+    delegateId: objectIdSchema,
+    startDate: delegationDateSchema,
+    endDate: delegationDateSchema,
+    reason: z
+      .string()
+      .max(500, "Reason must not exceed 500 characters")
+      .optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "End date must not be before the start date",
+    path: ["endDate"],
+  });
+
+/**
+ * Approval Delegations Query Schema
+ * GET /api/approvals/delegations
+ */
+export const delegationsQuerySchema = z.object({
+  userId: objectIdSchema.optional(),
+  includeExpired: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+});
+
+/**
+ * Approval SLA Settings Schema
+ * PUT /api/approvals/sla-settings
+ * The reminder must fall inside the SLA window; the fallback approver is
+ * required when escalations always go to them
+ */
+export const updateApprovalSlaSettingsSchema = z
+  .object({
+    isEnabled: z.boolean(),
+    stepSlaHours: z
+      .number()
+      .int()
+      .min(1, "SLA must be at least 1 hour")
+      .max(720, "SLA cannot exceed 720 hours"),
+    reminderBeforeHours: z
+      .number()
+      .int()
+      .min(0, "Reminder lead time cannot be negative")
+      .max(719, "Reminder lead time cannot exceed 719 hours"),
+    escalationTarget: z.enum(["MANAGER", "FALLBACK"], {
+      message: "Escalation target must be MANAGER or FALLBACK",
+    }),
+    fallbackApproverId: objectIdSchema.nullable().optional(),
+  })
+  .refine((data) => data.reminderBeforeHours < data.stepSlaHours, {
+    message: "Reminder must be sent before the SLA expires",
+    path: ["reminderBeforeHours"],
+  })
+  .refine(
+    (data) => data.escalationTarget !== "FALLBACK" || !!data.fallbackApproverId,
+    {
+      message: "A fallback approver is required for FALLBACK escalation",
+      path: ["fallbackApproverId"],
+    }
+  );
+
 // Type exports for TypeScript
 export type PendingApprovalsQueryInput = z.infer<
   typeof pendingApprovalsQuerySchema
@@ -186,6 +344,17 @@ export type RejectExpenseInput = z.infer<typeof rejectExpenseSchema>;
 export type CreateApprovalRuleInput = z.infer<typeof createApprovalRuleSchema>;
 export type UpdateApprovalRuleInput = z.infer<typeof updateApprovalRuleSchema>;
 export type ApprovalRulesQueryInput = z.infer<typeof approvalRulesQuerySchema>;
+export type ApprovalRuleConditionsInput = z.infer<
+  typeof approvalRuleConditionsSchema
+>;
+export type PreviewApprovalRuleInput = z.infer<
+  typeof previewApprovalRuleSchema
+>;
+export type CreateDelegationInput = z.infer<typeof createDelegationSchema>;
+export type DelegationsQueryInput = z.infer<typeof delegationsQuerySchema>;
+export type UpdateApprovalSlaSettingsInput = z.infer<
+  typeof updateApprovalSlaSettingsSchema
+>;
 
 /**
  * Validation utility function for approvals
@@ -240,22 +409,22 @@ export function validateApprovalInput<T>(
  */
 export function validateApprovalAccess(
   userRole: string,
-  action: "view" | "approve" | "reject" | "manage-rules"
+  action: "manage-rules" | "manage-delegations"
 ): {
   success: boolean;
   error?: string;
 } {
+  // Handling approvals is granted by the expense:approve and expense:reject
+  // permissions, checked by the routes
   switch (action) {
-    case "view":
-    case "approve":
-    case "reject":
-      // Only managers and admins can handle approvals
-      if (userRole === "MANAGER" || userRole === "ADMIN") {
+    case "manage-delegations":
+      // Admins can set delegations on behalf of any user in the company
+      if (userRole === "ADMIN") {
         return { success: true };
       }
       return {
         success: false,
-        error: "Access denied: Only managers and admins can handle approvals",
+        error: "Access denied: Only admins can manage other users' delegations",
       };
 
     case "manage-rules":
@@ -282,19 +451,51 @@ export function validateApprovalAccess(
 export function validateExpenseApprovalAuth(
   approverUserId: string,
   requestingUserId: string,
-  approvalStatus: string
+  approvalStatus: string,
+  delegatorIds: string[] = [],
+  submitterId: string | null = null
 ): {
   success: boolean;
   error?: string;
 } {
-  // Check if user is the assigned approver
-  if (approverUserId !== requestingUserId) {
+  // Check if user is the assigned approver or an active delegate of them
+  if (
+    approverUserId !== requestingUserId &&
+    !delegatorIds.includes(approverUserId)
+  ) {
     return {
       success: false,
       error: "Access denied: You are not authorized to approve this expense",
     };
   }
 
+  // A delegate can't decide on their own expense
+  if (
+    approverUserId !== requestingUserId &&
+    requestingUserId === submitterId
+  ) {
+    return {
+      success: false,
+      error: "Access denied: You can't decide on your own expense",
+    };
+  }
+
+  // Sequential steps can only be acted on once the earlier steps are approved
+  if (approvalStatus === "WAITING") {
+    return {
+      success: false,
+      error: "Expense is still waiting on an earlier approver in the chain",
+    };
+  }
+
+  // Steps closed automatically never received a decision
+  if (approvalStatus === "SKIPPED" || approvalStatus === "SUPERSEDED") {
+    return {
+      success: false,
+      error: "This approval step was closed and no longer needs a decision",
+    };
+  }
+
   // Check if approval is still pending
   if (approvalStatus !== "PENDING") {
     return {
@@ -312,11 +513,20 @@ export function validateExpenseApprovalAuth(
 export function validateApprovalRuleConfig(
   approvers: string[],
   sequence: string,
-  minApprovalPercentage: number
+  minApprovalPercentage: number,
+  requiredApproverIds: string[] = []
 ): {
   success: boolean;
   error?: string;
 } {
+  // Required approvers must be part of the rule's approver list
+  if (requiredApproverIds.some((id) => !approvers.includes(id))) {
+    return {
+      success: false,
+      error: "Required approvers must also be listed as approvers",
+    };
+  }
+
   // For sequential approval, percentage should be 100%
   if (sequence === "SEQUENTIAL" && minApprovalPercentage !== 100) {
     return {
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for audit trail endpoints
+ */
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date format");
+
+/**
+ * Audit Query Schema
+ * GET /api/audit
+ * format=csv downloads every matching event instead of a page
+ */
+export const auditQuerySchema = z
+  .object({
+    entityType: z
+      .enum([
+        "EXPENSE",
+        "APPROVAL",
+        "APPROVAL_RULE",
+        "USER",
+        "ROLE",
+        "CATEGORY",
+        "SETTINGS",
+        "INVITATION",
+      ])
+      .optional(),
+    entityId: z.string().min(1).max(100).optional(),
+    expenseId: z.string().cuid("Invalid expense ID format").optional(),
+    actorId: z.string().cuid("Invalid user ID format").optional(),
+    action: z.string().min(1).max(64).optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    page: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 1))
+      .refine((val) => val > 0, "Page must be greater than 0"),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 50))
+      .refine((val) => val > 0 && val <= 200, "Limit must be between 1 and 200"),
+    format: z.enum(["json", "csv"]).optional().default("json"),
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      new Date(data.startDate) <= new Date(data.endDate),
+    {
+      message: "Start date must be before or equal to end date",
+      path: ["startDate"],
+    }
+  );
+
+// Type exports for TypeScript
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
+
+/**
+ * Validation utility function for audit queries
+ */
+export function validateAuditInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
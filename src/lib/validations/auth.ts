@@ -145,6 +145,22 @@ export const resetPasswordSchema = z.object({
   newPassword: passwordSchema,
 });
 
+/**
+ * Email Verification Schema
+ * POST /api/auth/verify-email
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(10, "Verification token is required"),
+});
+
+/**
+ * Resend Verification Schema
+ * POST /api/auth/resend-verification
+ */
+export const resendVerificationSchema = z.object({
+  email: emailSchema,
+});
+
 /**
  * User Creation Schema (for admin creating users)
  * POST /api/users
@@ -185,6 +201,36 @@ export const changePasswordSchema = z.object({
   newPassword: passwordSchema,
 });
 
+// A six digit code from an authenticator app
+const totpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Code must be 6 digits");
+
+/**
+ * Two-Factor Code Schema
+ * POST /api/auth/2fa/enable, /api/auth/2fa/disable, /api/auth/2fa/recovery-codes
+ */
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+/**
+ * Two-Factor Sign-in Schema
+ * POST /api/auth/2fa/verify
+ * Takes an authenticator code or, when signing in, one of the recovery codes
+ */
+export const verifyTwoFactorSchema = z
+  .object({
+    challengeToken: z.string().min(10, "Challenge token is required"),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(10, "Invalid recovery code").max(20).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either a code or a recovery code",
+    path: ["code"],
+  });
+
 // Type exports for TypeScript
 export type CompanyRegistrationInput = z.infer<
   typeof companyRegistrationSchema
@@ -194,9 +240,13 @@ export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 export type LogoutInput = z.infer<typeof logoutSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type VerifyTwoFactorInput = z.infer<typeof verifyTwoFactorSchema>;
 
 /**
  * Validation utility function
@@ -16,25 +16,115 @@ const categoryNameSchema = z
   )
   .trim();
 
+// General ledger account code
+const glCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "GL code cannot be empty")
+  .max(32, "GL code must not exceed 32 characters")
+  .regex(
+    /^[A-Za-z0-9.-]+$/,
+    "GL code can only contain letters, numbers, dots, and hyphens"
+  );
+
+const parentIdSchema = z.string().cuid("Invalid parent category ID format");
+
+// Budget in the company base currency; null removes it
+const budgetAmountSchema = z
+  .number()
+  .positive("Budget must be greater than 0")
+  .max(99999999.99, "Budget must not exceed 99,999,999.99");
+
+// Budgets for spending by a department's members; a null amount removes one
+const departmentBudgetsSchema = z
+  .array(
+    z.object({
+      departmentId: z.string().cuid("Invalid department ID format"),
+      period: z.enum(["MONTHLY", "ANNUAL"]),
+      amount: budgetAmountSchema.nullable(),
+    })
+  )
+  .max(100, "Maximum 100 department budgets per request")
+  .refine(
+    (budgets) =>
+      new Set(budgets.map((budget) => `${budget.departmentId}:${budget.period}`))
+        .size === budgets.length,
+    "Each department can have one budget per period"
+  );
+
 /**
  * Create Category Schema
  * POST /api/categories
  */
 export const createCategorySchema = z.object({
   name: categoryNameSchema,
+  glCode: glCodeSchema.optional(),
+  parentId: parentIdSchema.optional(),
+  monthlyBudget: budgetAmountSchema.optional(),
+  annualBudget: budgetAmountSchema.optional(),
+  departmentBudgets: departmentBudgetsSchema.optional(),
 });
 
 /**
  * Update Category Schema
  * PUT /api/categories/{id}
+ * isActive: false archives the category, true restores it
  */
-export const updateCategorySchema = z.object({
-  name: categoryNameSchema,
-});
+export const updateCategorySchema = z
+  .object({
+    name: categoryNameSchema.optional(),
+    glCode: glCodeSchema.nullable().optional(),
+    parentId: parentIdSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+    monthlyBudget: budgetAmountSchema.nullable().optional(),
+    annualBudget: budgetAmountSchema.nullable().optional(),
+    departmentBudgets: departmentBudgetsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * List Categories Query Schema
+ * GET /api/categories
+ * Spending is rolled up the hierarchy and covers expenses dated in the range
+ */
+export const listCategoriesQuerySchema = z
+  .object({
+    includeArchived: z
+      .string()
+      .optional()
+      .transform((val) => val === "true"),
+    includeSpending: z
+      .string()
+      .optional()
+      .transform((val) => val === "true"),
+    startDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+      .optional(),
+    endDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      new Date(data.startDate) <= new Date(data.endDate),
+    {
+      message: "Start date must be before or equal to end date",
+      path: ["startDate"],
+    }
+  );
 
 // Type exports for TypeScript
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
 export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type ListCategoriesQueryInput = z.infer<
+  typeof listCategoriesQuerySchema
+>;
 
 /**
  * Validation utility function for categories
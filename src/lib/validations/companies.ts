@@ -134,67 +134,89 @@ const companySizeSchema = z.enum(
 );
 
 // Company settings validation
+const expenseCategoriesSchema = z
+  .array(z.string().min(1, "Category name cannot be empty"))
+  .min(1, "At least one expense category is required")
+  .max(20, "Maximum 20 expense categories allowed");
+
+const companySettingsFields = {
+  expenseCategories: expenseCategoriesSchema.optional(),
+  fiscalYearStartMonth: z
+    .number()
+    .int("Fiscal year start month must be a whole number")
+    .min(1, "Fiscal year start month must be between 1 and 12")
+    .max(12, "Fiscal year start month must be between 1 and 12")
+    .optional(),
+  defaultCurrency: currencyCodeSchema.nullable().optional(),
+  allowedCurrencies: z
+    .array(currencyCodeSchema)
+    .max(20, "Maximum 20 allowed currencies")
+    .transform((currencies) => Array.from(new Set(currencies)))
+    .optional(),
+  receiptPolicy: z
+    .object({
+      required: z.boolean().optional(),
+      minAmount: z
+        .number()
+        .min(0, "Receipt minimum amount must be positive")
+        .max(10000, "Receipt minimum amount cannot exceed 10,000")
+        .optional(),
+    })
+    .optional(),
+  notifications: z
+    .object({
+      emailApprovalRequests: z.boolean().optional(),
+      emailDecisions: z.boolean().optional(),
+      emailSlaReminders: z.boolean().optional(),
+    })
+    .optional(),
+  security: z
+    .object({
+      requireTwoFactor: z.boolean().optional(),
+    })
+    .optional(),
+};
+
+// Only checked when both are part of the same request; the service checks
+// the merged settings
+const defaultCurrencyAllowed = (data: {
+  defaultCurrency?: string | null;
+  allowedCurrencies?: string[];
+}) =>
+  !data.defaultCurrency ||
+  !data.allowedCurrencies?.length ||
+  data.allowedCurrencies.includes(data.defaultCurrency);
+
+const defaultCurrencyAllowedMessage = {
+  message: "Default currency must be one of the allowed currencies",
+  path: ["defaultCurrency"],
+};
+
+// Settings that can be given when a company is created
+const initialCompanySettingsSchema = z
+  .object(companySettingsFields)
+  .refine(defaultCurrencyAllowed, defaultCurrencyAllowedMessage);
+
+// Approval SLA fields are merged with the current SLA settings and then
+// validated as a whole, like PUT /api/approvals/sla-settings
 const companySettingsSchema = z
   .object({
-    expenseCategories: z
-      .array(z.string().min(1, "Category name cannot be empty"))
-      .min(1, "At least one expense category is required")
-      .max(20, "Maximum 20 expense categories allowed")
+    ...companySettingsFields,
+    approvalSla: z
+      .object({
+        isEnabled: z.boolean().optional(),
+        stepSlaHours: z.number().int().optional(),
+        reminderBeforeHours: z.number().int().optional(),
+        escalationTarget: z
+          .enum(["MANAGER", "FALLBACK"], {
+            message: "Escalation target must be MANAGER or FALLBACK",
+          })
+          .optional(),
+        fallbackApproverId: z.string().min(1).nullable().optional(),
+      })
       .optional(),
-    defaultApprovalWorkflow: z
-      .enum(["SEQUENTIAL", "PARALLEL", "NONE"])
-      .optional()
-      .default("SEQUENTIAL"),
-    maxExpenseAmount: z
-      .number()
-      .min(0, "Maximum expense amount must be positive")
-      .max(1000000, "Maximum expense amount cannot exceed 1,000,000")
-      .optional()
-      .default(10000),
-    requireReceipts: z.boolean().optional().default(true),
-    receiptMinAmount: z
-      .number()
-      .min(0, "Receipt minimum amount must be positive")
-      .max(10000, "Receipt minimum amount cannot exceed 10,000")
-      .optional()
-      .default(25),
-    autoApprovalLimit: z
-      .number()
-      .min(0, "Auto approval limit must be positive")
-      .max(10000, "Auto approval limit cannot exceed 10,000")
-      .optional()
-      .default(0),
-    allowPersonalExpenses: z.boolean().optional().default(false),
-    fiscalYearStart: z
-      .enum(["JANUARY", "APRIL", "JULY", "OCTOBER"])
-      .optional()
-      .default("JANUARY"),
-    timezonePreference: z
-      .string()
-      .regex(/^[A-Z][a-z]+\/[A-Z][a-z_]+$/, "Invalid timezone format")
-      .optional()
-      .default("America/New_York"),
   })
-  .refine(
-    (data) =>
-      !data.receiptMinAmount ||
-      !data.maxExpenseAmount ||
-      data.receiptMinAmount <= data.maxExpenseAmount,
-    {
-      message: "Receipt minimum amount cannot exceed maximum expense amount",
-      path: ["receiptMinAmount"],
-    }
-  )
-  .refine(
-    (data) =>
-      !data.autoApprovalLimit ||
-      !data.maxExpenseAmount ||
-      data.autoApprovalLimit <= data.maxExpenseAmount,
-    {
-      message: "Auto approval limit cannot exceed maximum expense amount",
-      path: ["autoApprovalLimit"],
-    }
-  );
+  .refine(defaultCurrencyAllowed, defaultCurrencyAllowedMessage);
 
 /**
  * Get Company Profile Schema
@@ -211,6 +233,29 @@ export const getCompanyProfileSchema = z.object({
     .transform((val) => val === "true"),
 });
 
+// The company's first admin user
+const adminNameSchema = z
+  .string()
+  .min(1, "Admin name is required")
+  .max(50, "Admin name must not exceed 50 characters")
+  .trim();
+
+const adminEmailSchema = z
+  .string()
+  .email("Invalid email format")
+  .max(100, "Email must not exceed 100 characters")
+  .toLowerCase()
+  .trim();
+
+const adminPasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must not exceed 128 characters")
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
+    "Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character"
+  );
+
 /**
  * Create Company Schema
  * POST /api/companies
@@ -221,32 +266,38 @@ export const createCompanySchema = z.object({
   baseCurrency: currencyCodeSchema,
   industry: industrySchema.optional(),
   size: companySizeSchema.optional(),
-  settings: companySettingsSchema.optional(),
+  settings: initialCompanySettingsSchema.optional(),
   adminUser: z
     .object({
-      name: z
-        .string()
-        .min(1, "Admin name is required")
-        .max(50, "Admin name must not exceed 50 characters")
-        .trim(),
-      email: z
-        .string()
-        .email("Invalid email format")
-        .max(100, "Email must not exceed 100 characters")
-        .toLowerCase()
-        .trim(),
-      password: z
-        .string()
-        .min(8, "Password must be at least 8 characters")
-        .max(128, "Password must not exceed 128 characters")
-        .regex(
-          /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
-          "Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character"
-        ),
+      name: adminNameSchema,
+      email: adminEmailSchema,
+      password: adminPasswordSchema,
     })
     .optional(),
 });
 
+/**
+ * Company Signup Schema
+ * POST /api/auth/signup
+ * Self-service signup of a company and its first admin
+ */
+export const companySignupSchema = z.object({
+  adminName: adminNameSchema,
+  email: adminEmailSchema,
+  companyName: companyNameSchema,
+  country: countryCodeSchema,
+  baseCurrency: currencyCodeSchema,
+  password: adminPasswordSchema,
+});
+
+/**
+ * Onboarding Checklist Update Schema
+ * PATCH /api/onboarding
+ */
+export const updateOnboardingSchema = z.object({
+  dismissed: z.boolean(),
+});
+
 /**
  * Update Company Schema
  * PUT /api/companies/[id]
@@ -268,8 +319,33 @@ export const updateCompanySchema = z
 /**
  * Company Settings Schema
  * PUT /api/companies/[id]/settings
+ * Only the given fields change; nested objects are merged with the current
+ * values. `expenseCategories` is the complete list of categories.
  */
-export const updateCompanySettingsSchema = companySettingsSchema.partial();
+export const updateCompanySettingsSchema = companySettingsSchema.refine(
+  (data) => Object.keys(data).length > 0,
+  "At least one setting must be provided"
+);
+
+/**
+ * Company Settings History Query Schema
+ * GET /api/companies/[id]/settings/history
+ */
+export const companySettingsHistoryQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .refine((val) => val > 0, "Page must be greater than 0"),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .refine(
+      (val) => val > 0 && val <= 100,
+      "Limit must be between 1 and 100"
+    ),
+});
 
 /**
  * Company Statistics Query Schema
@@ -314,11 +390,16 @@ export const companyStatsQuerySchema = z
 // Type exports for TypeScript
 export type GetCompanyProfileInput = z.infer<typeof getCompanyProfileSchema>;
 export type CreateCompanyInput = z.infer<typeof createCompanySchema>;
+export type CompanySignupInput = z.infer<typeof companySignupSchema>;
+export type UpdateOnboardingInput = z.infer<typeof updateOnboardingSchema>;
 export type UpdateCompanyInput = z.infer<typeof updateCompanySchema>;
 export type UpdateCompanySettingsInput = z.infer<
   typeof updateCompanySettingsSchema
 >;
 export type CompanyStatsQueryInput = z.infer<typeof companyStatsQuerySchema>;
+export type CompanySettingsHistoryQueryInput = z.infer<
+  typeof companySettingsHistoryQuerySchema
+>;
 
 /**
  * Validation utility function for companies
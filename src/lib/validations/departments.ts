@@ -0,0 +1,149 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for department and cost center endpoints
+ */
+
+const departmentNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Department name must be at least 2 characters")
+  .max(100, "Department name must not exceed 100 characters");
+
+const costCenterNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Cost center name must be at least 2 characters")
+  .max(100, "Cost center name must not exceed 100 characters");
+
+// Department and cost center codes as used by the accounting system
+const codeSchema = z
+  .string()
+  .trim()
+  .min(1, "Code cannot be empty")
+  .max(32, "Code must not exceed 32 characters")
+  .regex(
+    /^[A-Za-z0-9._-]+$/,
+    "Code can only contain letters, numbers, dots, underscores, and hyphens"
+  );
+
+const departmentIdSchema = z.string().cuid("Invalid department ID format");
+const userIdSchema = z.string().cuid("Invalid user ID format");
+
+/**
+ * Create Department Schema
+ * POST /api/departments
+ */
+export const createDepartmentSchema = z.object({
+  name: departmentNameSchema,
+  code: codeSchema.optional(),
+  headId: userIdSchema.optional(),
+});
+
+/**
+ * Update Department Schema
+ * PATCH /api/departments/{id}
+ * isActive: false deactivates the department, true reactivates it
+ */
+export const updateDepartmentSchema = z
+  .object({
+    name: departmentNameSchema.optional(),
+    code: codeSchema.nullable().optional(),
+    headId: userIdSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * Set Department Members Schema
+ * PUT /api/departments/{id}/members
+ * The listed users become the department's members; others leave it
+ */
+export const setDepartmentMembersSchema = z.object({
+  userIds: z
+    .array(userIdSchema)
+    .max(1000, "Maximum 1000 members per request")
+    .transform((ids) => Array.from(new Set(ids))),
+});
+
+/**
+ * Create Cost Center Schema
+ * POST /api/cost-centers
+ */
+export const createCostCenterSchema = z.object({
+  code: codeSchema,
+  name: costCenterNameSchema,
+  departmentId: departmentIdSchema.optional(),
+});
+
+/**
+ * Update Cost Center Schema
+ * PATCH /api/cost-centers/{id}
+ */
+export const updateCostCenterSchema = z
+  .object({
+    code: codeSchema.optional(),
+    name: costCenterNameSchema.optional(),
+    departmentId: departmentIdSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * List Query Schema
+ * GET /api/departments, GET /api/cost-centers
+ */
+export const organizationListQuerySchema = z.object({
+  includeInactive: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+  departmentId: departmentIdSchema.optional(),
+});
+
+// Type exports for TypeScript
+export type CreateDepartmentInput = z.infer<typeof createDepartmentSchema>;
+export type UpdateDepartmentInput = z.infer<typeof updateDepartmentSchema>;
+export type SetDepartmentMembersInput = z.infer<
+  typeof setDepartmentMembersSchema
+>;
+export type CreateCostCenterInput = z.infer<typeof createCostCenterSchema>;
+export type UpdateCostCenterInput = z.infer<typeof updateCostCenterSchema>;
+export type OrganizationListQueryInput = z.infer<
+  typeof organizationListQuerySchema
+>;
+
+/**
+ * Validation utility function for departments and cost centers
+ */
+export function validateDepartmentInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { currencyCodeSchema } from "./expenses";
+
+/**
+ * Validation schemas for exchange rate endpoints
+ */
+
+// Rate files may quote currencies expenses can't be entered in, so stored
+// rates are filtered by any ISO-style code
+const rateCurrencySchema = z
+  .string()
+  .transform((val) => val.toUpperCase())
+  .refine((val) => /^[A-Z]{3}$/.test(val), "Invalid currency code");
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((val) => !isNaN(Date.parse(val)), "Invalid date");
+
+/**
+ * List Exchange Rates Query Schema
+ * GET /api/exchange-rates
+ */
+export const listExchangeRatesQuerySchema = z
+  .object({
+    page: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 1))
+      .refine((val) => val > 0, "Page must be greater than 0"),
+    limit: z
+      .string()
+      .optional()
+      .transform((val) => (val ? parseInt(val, 10) : 50))
+      .refine(
+        (val) => val > 0 && val <= 200,
+        "Limit must be between 1 and 200"
+      ),
+    base: rateCurrencySchema.optional(),
+    quote: rateCurrencySchema.optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    {
+      message: "Start date must be before end date",
+      path: ["endDate"],
+    }
+  );
+
+/**
+ * Convert Amount Query Schema
+ * GET /api/exchange-rates/convert
+ * Without a date the latest rate is used
+ */
+export const convertAmountQuerySchema = z.object({
+  amount: z
+    .string()
+    .transform((val) => Number(val))
+    .refine((val) => Number.isFinite(val) && val >= 0, "Invalid amount"),
+  from: currencyCodeSchema,
+  to: currencyCodeSchema,
+  date: dateStringSchema.optional(),
+});
+
+/**
+ * Sync Exchange Rates Schema
+ * POST /api/exchange-rates/sync
+ * Without a date the provider's latest rates are fetched
+ */
+export const syncExchangeRatesSchema = z.object({
+  date: dateStringSchema.optional(),
+});
+
+// Type exports for TypeScript
+export type ListExchangeRatesQueryInput = z.infer<
+  typeof listExchangeRatesQuerySchema
+>;
+export type ConvertAmountQueryInput = z.infer<typeof convertAmountQuerySchema>;
+export type SyncExchangeRatesInput = z.infer<typeof syncExchangeRatesSchema>;
+
+/**
+ * Validation utility function for exchange rates
+ */
+export function validateExchangeRateInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const result = schema.parse(data);
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Invalid input data"],
+    };
+  }
+}
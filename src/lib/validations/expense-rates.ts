@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for the mileage and per-diem rate tables
+ * All rates are in the company base currency
+ */
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date format");
+
+// Vehicle types and destinations are matched case-insensitively, so they're
+// stored upper case
+const rateKeySchema = (label: string, max: number) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} is required`)
+    .max(max, `${label} must not exceed ${max} characters`)
+    .transform((value) => value.toUpperCase());
+
+const moneySchema = (label: string) =>
+  z
+    .number()
+    .min(0, `${label} cannot be negative`)
+    .max(100000, `${label} cannot exceed 100,000`)
+    .refine(
+      (amount) => Math.round(amount * 100) === amount * 100,
+      `${label} cannot have more than 2 decimal places`
+    );
+
+const effectiveDatesInOrder = (data: {
+  effectiveFrom: string;
+  effectiveTo?: string;
+}) => !data.effectiveTo || new Date(data.effectiveFrom) <= new Date(data.effectiveTo);
+
+/**
+ * Create Mileage Rate Schema
+ * POST /api/expense-rates/mileage
+ */
+export const createMileageRateSchema = z
+  .object({
+    vehicleType: rateKeySchema("Vehicle type", 32),
+    unit: z.enum(["KM", "MILE"], { message: "Unit must be KM or MILE" }),
+    rate: z
+      .number()
+      .positive("Rate must be positive")
+      .max(100, "Rate cannot exceed 100 per unit")
+      .refine(
+        (rate) => Math.round(rate * 10000) === rate * 10000,
+        "Rate cannot have more than 4 decimal places"
+      ),
+    effectiveFrom: dateStringSchema,
+    effectiveTo: dateStringSchema.optional(),
+  })
+  .refine(effectiveDatesInOrder, {
+    message: "Effective from must be before or equal to effective to",
+    path: ["effectiveFrom"],
+  });
+
+/**
+ * Create Per-Diem Rate Schema
+ * POST /api/expense-rates/per-diem
+ * Use the destination "DEFAULT" for the rate that applies everywhere else
+ */
+export const createPerDiemRateSchema = z
+  .object({
+    destination: rateKeySchema("Destination", 64),
+    dailyRate: moneySchema("Daily rate").refine(
+      (rate) => rate > 0,
+      "Daily rate must be positive"
+    ),
+    breakfastDeduction: moneySchema("Breakfast deduction").optional().default(0),
+    lunchDeduction: moneySchema("Lunch deduction").optional().default(0),
+    dinnerDeduction: moneySchema("Dinner deduction").optional().default(0),
+    effectiveFrom: dateStringSchema,
+    effectiveTo: dateStringSchema.optional(),
+  })
+  .refine(effectiveDatesInOrder, {
+    message: "Effective from must be before or equal to effective to",
+    path: ["effectiveFrom"],
+  })
+  .refine(
+    (data) =>
+      data.breakfastDeduction + data.lunchDeduction + data.dinnerDeduction <=
+      data.dailyRate,
+    {
+      message: "Meal deductions cannot add up to more than the daily rate",
+      path: ["dinnerDeduction"],
+    }
+  );
+
+/**
+ * End Rate Schema
+ * PATCH /api/expense-rates/{mileage|per-diem}/{id}
+ * Rates are kept for the expenses calculated with them, so they're ended
+ * rather than edited; null reopens the rate
+ */
+export const endRateSchema = z.object({
+  effectiveTo: dateStringSchema.nullable(),
+});
+
+/**
+ * Rate List Query Schema
+ * GET /api/expense-rates/{mileage|per-diem}
+ */
+export const rateListQuerySchema = z.object({
+  // Only the rates in effect on the date
+  date: dateStringSchema.optional(),
+});
+
+// Type exports for TypeScript
+export type CreateMileageRateInput = z.infer<typeof createMileageRateSchema>;
+export type CreatePerDiemRateInput = z.infer<typeof createPerDiemRateSchema>;
+export type EndRateInput = z.infer<typeof endRateSchema>;
+export type RateListQueryInput = z.infer<typeof rateListQuerySchema>;
+
+/**
+ * Validation utility function for rate tables
+ */
+export function validateRateInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
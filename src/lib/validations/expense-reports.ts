@@ -0,0 +1,193 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for expense report (trip bundle) endpoints
+ */
+
+const titleSchema = z
+  .string()
+  .trim()
+  .min(2, "Title must be at least 2 characters")
+  .max(200, "Title must not exceed 200 characters");
+
+const purposeSchema = z
+  .string()
+  .trim()
+  .max(1000, "Purpose must not exceed 1000 characters");
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date format");
+
+// Cash advanced for the trip, in the company base currency
+const advanceSchema = z
+  .number()
+  .positive("Advance must be positive")
+  .max(1000000, "Advance cannot exceed 1,000,000")
+  .refine(
+    (amount) => Math.round(amount * 100) === amount * 100,
+    "Advance cannot have more than 2 decimal places"
+  );
+
+const expenseIdSchema = z.string().cuid("Invalid expense ID format");
+
+// A cash advance (see /api/advances) the trip was paid from; its amount
+// becomes the report's advance
+const advanceIdSchema = z.string().cuid("Invalid advance ID format");
+
+const commentSchema = z
+  .string()
+  .trim()
+  .max(1000, "Comment must not exceed 1000 characters");
+
+const datesInOrder = (data: { startDate?: string; endDate?: string }) =>
+  !data.startDate ||
+  !data.endDate ||
+  new Date(data.startDate) <= new Date(data.endDate);
+
+const oneAdvanceSource = (data: {
+  advanceId?: string | null;
+  advanceAmount?: number | null;
+}) => data.advanceId == null || data.advanceAmount == null;
+
+/**
+ * Create Expense Report Schema
+ * POST /api/expense-reports
+ */
+export const createExpenseReportSchema = z
+  .object({
+    title: titleSchema,
+    purpose: purposeSchema.optional(),
+    startDate: dateStringSchema,
+    endDate: dateStringSchema,
+    advanceAmount: advanceSchema.optional(),
+    advanceId: advanceIdSchema.optional(),
+    // Draft expenses to start the report with
+    expenseIds: z
+      .array(expenseIdSchema)
+      .max(200, "Maximum 200 expenses per report")
+      .optional(),
+  })
+  .refine(datesInOrder, {
+    message: "Start date must be before or equal to end date",
+    path: ["startDate"],
+  })
+  .refine(oneAdvanceSource, {
+    message: "Give either an advance or an advance amount, not both",
+    path: ["advanceAmount"],
+  });
+
+/**
+ * Update Expense Report Schema
+ * PATCH /api/expense-reports/{id}
+ * Only draft reports can be changed
+ */
+export const updateExpenseReportSchema = z
+  .object({
+    title: titleSchema.optional(),
+    purpose: purposeSchema.nullable().optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    advanceAmount: advanceSchema.nullable().optional(),
+    advanceId: advanceIdSchema.nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  })
+  .refine(datesInOrder, {
+    message: "Start date must be before or equal to end date",
+    path: ["startDate"],
+  })
+  .refine(oneAdvanceSource, {
+    message: "Give either an advance or an advance amount, not both",
+    path: ["advanceAmount"],
+  });
+
+/**
+ * Report Expenses Schema
+ * POST /api/expense-reports/{id}/expenses adds, DELETE removes
+ */
+export const reportExpensesSchema = z.object({
+  expenseIds: z
+    .array(expenseIdSchema)
+    .min(1, "At least one expense ID must be provided")
+    .max(200, "Maximum 200 expenses per report")
+    .transform((ids) => Array.from(new Set(ids))),
+});
+
+/**
+ * Expense Report List Query Schema
+ * GET /api/expense-reports
+ */
+export const expenseReportListQuerySchema = z.object({
+  status: z
+    .enum(["DRAFT", "PENDING_APPROVAL", "APPROVED", "REJECTED"])
+    .optional(),
+  // mine: the user's own reports; approvals: reports with a step assigned
+  // to the user or their delegators; company: every report (admins only)
+  scope: z.enum(["mine", "approvals", "company"]).optional().default("mine"),
+});
+
+/**
+ * Report Decision Schema
+ * POST /api/expense-reports/{id}/approve and /reject
+ */
+export const approveReportSchema = z.object({
+  comment: commentSchema.optional(),
+});
+
+export const rejectReportSchema = z.object({
+  comment: commentSchema.min(1, "A reason is required to reject a report"),
+});
+
+/**
+ * Reject Report Line Schema
+ * POST /api/expense-reports/{id}/expenses/{expenseId}/reject
+ * The rest of the report stays in approval
+ */
+export const rejectReportLineSchema = z.object({
+  comment: commentSchema.min(1, "A reason is required to reject an expense"),
+});
+
+// Type exports for TypeScript
+export type CreateExpenseReportInput = z.infer<typeof createExpenseReportSchema>;
+export type UpdateExpenseReportInput = z.infer<typeof updateExpenseReportSchema>;
+export type ReportExpensesInput = z.infer<typeof reportExpensesSchema>;
+export type ExpenseReportListQueryInput = z.infer<
+  typeof expenseReportListQuerySchema
+>;
+export type ApproveReportInput = z.infer<typeof approveReportSchema>;
+export type RejectReportInput = z.infer<typeof rejectReportSchema>;
+export type RejectReportLineInput = z.infer<typeof rejectReportLineSchema>;
+
+/**
+ * Validation utility function for expense reports
+ */
+export function validateExpenseReportInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
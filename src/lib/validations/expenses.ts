@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { isCompleteAllocation } from "@/lib/cost-allocation";
+import { perDiemStartDate } from "@/lib/expense-calculations";
+import { linesMatchTotal } from "@/lib/line-items";
 
 /**
  * Validation schemas for expense management endpoints
@@ -17,7 +20,7 @@ const amountSchema = z
   }, "Amount cannot have more than 2 decimal places");
 
 // ISO 4217 currency codes (major currencies)
-const currencyCodeSchema = z.enum(
+export const currencyCodeSchema = z.enum(
   [
     "USD",
     "EUR",
@@ -62,13 +65,8 @@ const expenseDateSchema = z
     const today = new Date();
     today.setHours(23, 59, 59, 999); // Allow expenses for today
     return date <= today;
-  }, "Expense date cannot be in the future")
-  .refine((dateStr) => {
-    const date = new Date(dateStr);
-    const oneYearAgo = new Date();
-    oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-    return date >= oneYearAgo;
-  }, "Expense date cannot be more than 1 year ago");
+  }, "Expense date cannot be in the future");
+// How old an expense may be is a company policy (MAX_EXPENSE_AGE)
 
 // Merchant name validation
 const merchantNameSchema = z
@@ -87,6 +85,77 @@ const expenseDescriptionSchema = z
 // Receipt ID validation
 const receiptIdSchema = z.string().cuid("Invalid receipt ID format");
 
+const costCenterIdSchema = z.string().cuid("Invalid cost center ID format");
+
+const projectIdSchema = z.string().cuid("Invalid project ID format");
+
+// Split across cost centers by percentage; the shares add up to 100
+const costAllocationsSchema = z
+  .array(
+    z.object({
+      costCenterId: costCenterIdSchema,
+      percentage: z
+        .number()
+        .positive("Share must be greater than 0")
+        .max(100, "Share cannot exceed 100")
+        .refine(
+          (value) => Math.round(value * 100) === value * 100,
+          "Share cannot have more than 2 decimal places"
+        ),
+    })
+  )
+  .min(2, "A split needs at least two cost centers")
+  .max(20, "Maximum 20 cost centers per expense")
+  .refine(
+    (allocations) =>
+      new Set(allocations.map((allocation) => allocation.costCenterId)).size ===
+      allocations.length,
+    "Each cost center can appear only once in a split"
+  )
+  .refine(isCompleteAllocation, "Cost center shares must add up to 100%");
+
+// One line of an itemised expense; the amount includes tax
+const lineItemSchema = z
+  .object({
+    description: z
+      .string()
+      .trim()
+      .min(1, "Line description is required")
+      .max(200, "Line description must not exceed 200 characters"),
+    category: z
+      .string()
+      .min(1, "Line category is required")
+      .max(50, "Category name must not exceed 50 characters"),
+    amount: amountSchema,
+    // VAT/GST percentage; the tax amount is worked out from it when not given
+    taxRate: z
+      .number()
+      .min(0, "Tax rate cannot be negative")
+      .max(100, "Tax rate cannot exceed 100%")
+      .refine(
+        (rate) => Math.round(rate * 100) === rate * 100,
+        "Tax rate cannot have more than 2 decimal places"
+      )
+      .optional(),
+    taxAmount: z
+      .number()
+      .min(0, "Tax amount cannot be negative")
+      .refine(
+        (amount) => Math.round(amount * 100) === amount * 100,
+        "Tax amount cannot have more than 2 decimal places"
+      )
+      .optional(),
+  })
+  .refine((line) => line.taxAmount === undefined || line.taxAmount <= line.amount, {
+    message: "Tax amount cannot exceed the line amount",
+    path: ["taxAmount"],
+  });
+
+const lineItemsSchema = z
+  .array(lineItemSchema)
+  .min(1, "At least one line item is required")
+  .max(50, "Maximum 50 line items per expense");
+
 // Pagination validation
 const paginationSchema = z.object({
   page: z
@@ -121,46 +190,164 @@ const sortOrderSchema = z.enum(["asc", "desc"], {
   message: "Sort order must be 'asc' or 'desc'",
 });
 
+// Mileage trip; the amount is the distance times the company mileage rate
+const mileageDetailsSchema = z.object({
+  distance: z
+    .number()
+    .positive("Distance must be positive")
+    .max(10000, "Distance cannot exceed 10,000")
+    .refine(
+      (value) => Math.round(value * 100) === value * 100,
+      "Distance cannot have more than 2 decimal places"
+    ),
+  unit: z.enum(["KM", "MILE"], { message: "Unit must be KM or MILE" }),
+  vehicleType: z
+    .string()
+    .trim()
+    .min(1, "Vehicle type is required")
+    .max(32, "Vehicle type must not exceed 32 characters")
+    .transform((value) => value.toUpperCase()),
+  origin: z.string().trim().max(200).optional(),
+  destination: z.string().trim().max(200).optional(),
+  roundTrip: z.boolean().optional().default(false),
+});
+
+// Per-diem claim; each day gets the destination's daily rate less the
+// deductions for meals that were provided
+const perDiemDetailsSchema = z.object({
+  destination: z
+    .string()
+    .trim()
+    .min(1, "Destination is required")
+    .max(64, "Destination must not exceed 64 characters")
+    .transform((value) => value.toUpperCase()),
+  days: z
+    .array(
+      z.object({
+        date: expenseDateSchema,
+        breakfastProvided: z.boolean().optional().default(false),
+        lunchProvided: z.boolean().optional().default(false),
+        dinnerProvided: z.boolean().optional().default(false),
+      })
+    )
+    .min(1, "At least one day is required")
+    .max(90, "Maximum 90 days per claim")
+    .refine(
+      (days) => new Set(days.map((day) => day.date)).size === days.length,
+      "Each day can be claimed only once"
+    ),
+});
+
+// Fields shared by every expense type
+const expenseFields = {
+  category: z
+    .string()
+    .min(1, "Category is required")
+    .max(50, "Category name must not exceed 50 characters"),
+  description: expenseDescriptionSchema,
+  // Whether receipts are required is a company policy (RECEIPT_REQUIRED)
+  receiptIds: z
+    .array(receiptIdSchema)
+    .optional()
+    .default([])
+    .refine((ids) => ids.length <= 10, "Maximum 10 receipts allowed per expense"),
+  // Defaults to the submitter's cost center
+  costCenterId: costCenterIdSchema.optional(),
+  costAllocations: costAllocationsSchema.optional(),
+  // Client project; billable expenses are rebilled to the project's client
+  projectId: projectIdSchema.optional(),
+  isBillable: z.boolean().optional().default(false),
+};
+
+const singleCostAssignment = (data: {
+  costCenterId?: string;
+  costAllocations?: unknown;
+}) => !(data.costCenterId && data.costAllocations);
+
+const billableHasProject = (data: {
+  isBillable?: boolean;
+  projectId?: string;
+}) => !data.isBillable || Boolean(data.projectId);
+
 /**
  * Create Expense Schema
  * POST /api/expenses
  */
 export const createExpenseSchema = z
   .object({
+    ...expenseFields,
+    // Taken from the largest line item when the expense is itemised
+    category: expenseFields.category.optional(),
     amount: amountSchema,
-    currency: currencyCodeSchema,
-    category: z
-      .string()
-      .min(1, "Category is required")
-      .max(50, "Category name must not exceed 50 characters"),
-    description: expenseDescriptionSchema,
+    // Defaults to the company's default currency
+    currency: currencyCodeSchema.optional(),
     date: expenseDateSchema,
     merchantName: merchantNameSchema.optional(),
-    receiptIds: z
-      .array(receiptIdSchema)
-      .optional()
-      .default([])
-      .refine(
-        (ids) => ids.length <= 10,
-        "Maximum 10 receipts allowed per expense"
-      ),
+    // Lines add up to the amount
+    lineItems: lineItemsSchema.optional(),
+  })
+  .refine((data) => Boolean(data.category || data.lineItems), {
+    message: "Category is required",
+    path: ["category"],
   })
   .refine(
-    (data) => {
-      // Business rule: Expenses over $25 require receipts (configurable per company)
-      if (
-        data.amount > 25 &&
-        (!data.receiptIds || data.receiptIds.length === 0)
-      ) {
-        return false;
-      }
-      return true;
-    },
+    (data) => !data.lineItems || linesMatchTotal(data.lineItems, data.amount),
     {
-      message: "Expenses over $25 require at least one receipt",
-      path: ["receiptIds"],
+      message: "Line items must add up to the expense amount",
+      path: ["lineItems"],
     }
-  );
+  )
+  .refine(singleCostAssignment, {
+    message: "Give either a cost center or a cost center split, not both",
+    path: ["costAllocations"],
+  })
+  .refine(billableHasProject, {
+    message: "Billable expenses must be charged to a project",
+    path: ["isBillable"],
+  });
+
+/**
+ * Create Mileage Expense Schema
+ * POST /api/expenses with type "MILEAGE"
+ * The amount is calculated in the company base currency
+ */
+export const createMileageExpenseSchema = z
+  .object({
+    ...expenseFields,
+    type: z.literal("MILEAGE"),
+    // Trip date; selects the mileage rate
+    date: expenseDateSchema,
+    mileage: mileageDetailsSchema,
+  })
+  .refine(singleCostAssignment, {
+    message: "Give either a cost center or a cost center split, not both",
+    path: ["costAllocations"],
+  })
+  .refine(billableHasProject, {
+    message: "Billable expenses must be charged to a project",
+    path: ["isBillable"],
+  });
+
+/**
+ * Create Per-Diem Expense Schema
+ * POST /api/expenses with type "PER_DIEM"
+ * The expense date is the first claimed day
+ */
+export const createPerDiemExpenseSchema = z
+  .object({
+    ...expenseFields,
+    type: z.literal("PER_DIEM"),
+    perDiem: perDiemDetailsSchema,
+  })
+  .transform((data) => ({ ...data, date: perDiemStartDate(data.perDiem) }))
+  .refine(singleCostAssignment, {
+    message: "Give either a cost center or a cost center split, not both",
+    path: ["costAllocations"],
+  })
+  .refine(billableHasProject, {
+    message: "Billable expenses must be charged to a project",
+    path: ["isBillable"],
+  });
 
 /**
  * Update Expense Schema
@@ -185,11 +372,47 @@ export const updateExpenseSchema = z
         (ids) => !ids || ids.length <= 10,
         "Maximum 10 receipts allowed per expense"
       ),
+    // Setting a cost center, or null, removes any split
+    costCenterId: costCenterIdSchema.nullable().optional(),
+    // null removes the split and keeps the primary cost center
+    costAllocations: costAllocationsSchema.nullable().optional(),
+    // null removes the project and the billable flag with it
+    projectId: projectIdSchema.nullable().optional(),
+    isBillable: z.boolean().optional(),
+    // Recalculate a MILEAGE or PER_DIEM expense; their amount, currency and,
+    // for per diems, date can't be set directly
+    mileage: mileageDetailsSchema.optional(),
+    perDiem: perDiemDetailsSchema.optional(),
+    // Replaces the line items, which must add up to the amount; null makes
+    // the expense unitemised again
+    lineItems: lineItemsSchema.nullable().optional(),
   })
   .refine(
     (data) => Object.keys(data).length > 0,
     "At least one field must be provided for update"
-  );
+  )
+  .refine(
+    (data) =>
+      data.costCenterId === undefined || data.costAllocations === undefined,
+    {
+      message: "Give either a cost center or a cost center split, not both",
+      path: ["costAllocations"],
+    }
+  )
+  .refine(
+    (data) =>
+      !data.lineItems ||
+      data.amount === undefined ||
+      linesMatchTotal(data.lineItems, data.amount),
+    {
+      message: "Line items must add up to the expense amount",
+      path: ["lineItems"],
+    }
+  )
+  .refine((data) => !(data.projectId === null && data.isBillable), {
+    message: "Billable expenses must be charged to a project",
+    path: ["isBillable"],
+  });
 
 /**
  * List Expenses Query Schema
@@ -216,6 +439,15 @@ export const listExpensesQuerySchema = z
       .regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format")
       .optional(),
     userId: z.string().cuid("Invalid user ID format").optional(),
+    // Expenses submitted by the department's members
+    departmentId: z.string().cuid("Invalid department ID format").optional(),
+    // Expenses charged to the cost center, including splits
+    costCenterId: costCenterIdSchema.optional(),
+    projectId: projectIdSchema.optional(),
+    isBillable: z
+      .enum(["true", "false"])
+      .transform((val) => val === "true")
+      .optional(),
     minAmount: z
       .string()
       .optional()
@@ -320,7 +552,14 @@ export const expenseAnalyticsQuerySchema = z
 
 // Type exports for TypeScript
 export type CreateExpenseInput = z.infer<typeof createExpenseSchema>;
+export type CreateMileageExpenseInput = z.infer<
+  typeof createMileageExpenseSchema
+>;
+export type CreatePerDiemExpenseInput = z.infer<
+  typeof createPerDiemExpenseSchema
+>;
 export type UpdateExpenseInput = z.infer<typeof updateExpenseSchema>;
+export type LineItemInput = z.infer<typeof lineItemSchema>;
 export type ListExpensesQueryInput = z.infer<typeof listExpensesQuerySchema>;
 export type SubmitExpenseInput = z.infer<typeof submitExpenseSchema>;
 export type ExpenseAnalyticsQueryInput = z.infer<
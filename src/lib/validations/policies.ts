@@ -0,0 +1,161 @@
+import { z } from "zod";
+import type { ExpensePolicyType } from "@/lib/expense-policies";
+
+/**
+ * Validation schemas for expense policy endpoints
+ */
+
+const amountLimitSchema = z
+  .number()
+  .positive("Amount must be greater than 0")
+  .max(999999.99, "Amount must not exceed 999,999.99");
+
+const holidayDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+// Settings accepted for each policy type
+export const policyConfigSchemas: Record<ExpensePolicyType, z.ZodTypeAny> = {
+  RECEIPT_REQUIRED: z.object({
+    amountOver: z.number().min(0, "Amount must not be negative"),
+  }),
+  CATEGORY_DAILY_CAP: z.object({ limit: amountLimitSchema }),
+  CATEGORY_MONTHLY_CAP: z.object({ limit: amountLimitSchema }),
+  MAX_EXPENSE_AGE: z.object({
+    days: z
+      .number()
+      .int("Days must be a whole number")
+      .min(1, "Days must be at least 1")
+      .max(3650, "Days must not exceed 3650"),
+  }),
+  MIN_DESCRIPTION_LENGTH: z.object({
+    minLength: z
+      .number()
+      .int("Length must be a whole number")
+      .min(1, "Length must be at least 1")
+      .max(500, "Length must not exceed 500"),
+  }),
+  WEEKEND_EXPENSE: z.object({}).strict(),
+  HOLIDAY_EXPENSE: z.object({
+    dates: z
+      .array(holidayDateSchema)
+      .min(1, "At least one holiday date is required")
+      .max(366, "Maximum 366 holiday dates allowed")
+      .transform((dates) => Array.from(new Set(dates)).sort()),
+  }),
+};
+
+const policyTypeSchema = z.enum([
+  "RECEIPT_REQUIRED",
+  "CATEGORY_DAILY_CAP",
+  "CATEGORY_MONTHLY_CAP",
+  "MAX_EXPENSE_AGE",
+  "MIN_DESCRIPTION_LENGTH",
+  "WEEKEND_EXPENSE",
+  "HOLIDAY_EXPENSE",
+]);
+
+const policySeveritySchema = z.enum(["BLOCK", "WARN"]);
+
+const policyNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Policy name is required")
+  .max(100, "Policy name must not exceed 100 characters");
+
+const policyDescriptionSchema = z
+  .string()
+  .max(500, "Description must not exceed 500 characters");
+
+const categoryIdSchema = z.string().cuid("Invalid category ID format");
+
+/**
+ * Create Expense Policy Schema
+ * POST /api/policies
+ */
+export const createExpensePolicySchema = z
+  .object({
+    name: policyNameSchema,
+    description: policyDescriptionSchema.optional(),
+    type: policyTypeSchema,
+    severity: policySeveritySchema.default("WARN"),
+    categoryId: categoryIdSchema.nullable().optional(),
+    config: z.unknown().default({}),
+    isActive: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    const result = policyConfigSchemas[data.type].safeParse(data.config);
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        ctx.addIssue({
+          code: "custom",
+          message: issue.message,
+          path: ["config", ...issue.path],
+        })
+      );
+    }
+  })
+  .transform((data) => ({
+    ...data,
+    config: policyConfigSchemas[data.type].parse(data.config),
+  }));
+
+/**
+ * Update Expense Policy Schema
+ * PATCH /api/policies/[id]
+ * The type can't change; config is checked against the stored type
+ */
+export const updateExpensePolicySchema = z
+  .object({
+    name: policyNameSchema.optional(),
+    description: policyDescriptionSchema.nullable().optional(),
+    severity: policySeveritySchema.optional(),
+    categoryId: categoryIdSchema.nullable().optional(),
+    config: z.unknown().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// Type exports for TypeScript
+export type CreateExpensePolicyInput = z.infer<
+  typeof createExpensePolicySchema
+>;
+export type UpdateExpensePolicyInput = z.infer<
+  typeof updateExpensePolicySchema
+>;
+
+/**
+ * Validation utility function for expense policies
+ */
+export function validatePolicyInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const result = schema.parse(data);
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Invalid input data"],
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for project and client billing endpoints
+ */
+
+const projectNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Project name must be at least 2 characters")
+  .max(100, "Project name must not exceed 100 characters");
+
+const clientNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Client name must be at least 2 characters")
+  .max(100, "Client name must not exceed 100 characters");
+
+// Project codes as used on client invoices
+const projectCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "Code cannot be empty")
+  .max(32, "Code must not exceed 32 characters")
+  .regex(
+    /^[A-Za-z0-9._-]+$/,
+    "Code can only contain letters, numbers, dots, underscores, and hyphens"
+  );
+
+// Budget in the company base currency
+const budgetSchema = z
+  .number()
+  .positive("Budget must be positive")
+  .max(100000000, "Budget cannot exceed 100,000,000")
+  .refine(
+    (amount) => Math.round(amount * 100) === amount * 100,
+    "Budget cannot have more than 2 decimal places"
+  );
+
+const dateStringSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Invalid date format");
+
+const projectIdSchema = z.string().cuid("Invalid project ID format");
+const expenseIdSchema = z.string().cuid("Invalid expense ID format");
+
+const datesInOrder = (data: {
+  startDate?: string | null;
+  endDate?: string | null;
+}) =>
+  !data.startDate ||
+  !data.endDate ||
+  new Date(data.startDate) <= new Date(data.endDate);
+
+/**
+ * Create Project Schema
+ * POST /api/projects
+ */
+export const createProjectSchema = z
+  .object({
+    code: projectCodeSchema,
+    name: projectNameSchema,
+    clientName: clientNameSchema,
+    budget: budgetSchema.optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+  })
+  .refine(datesInOrder, {
+    message: "Start date must be before or equal to end date",
+    path: ["startDate"],
+  });
+
+/**
+ * Update Project Schema
+ * PATCH /api/projects/{id}
+ * isActive: false closes the project to new expenses, true reopens it
+ */
+export const updateProjectSchema = z
+  .object({
+    code: projectCodeSchema.optional(),
+    name: projectNameSchema.optional(),
+    clientName: clientNameSchema.optional(),
+    budget: budgetSchema.nullable().optional(),
+    startDate: dateStringSchema.nullable().optional(),
+    endDate: dateStringSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  })
+  .refine(datesInOrder, {
+    message: "Start date must be before or equal to end date",
+    path: ["startDate"],
+  });
+
+/**
+ * List Projects Query Schema
+ * GET /api/projects
+ */
+export const projectListQuerySchema = z.object({
+  includeInactive: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
+  clientName: z.string().trim().min(1).optional(),
+});
+
+/**
+ * Unbilled Expenses Query Schema
+ * GET /api/reports/unbilled
+ */
+export const unbilledReportQuerySchema = z
+  .object({
+    clientName: z.string().trim().min(1).optional(),
+    projectId: projectIdSchema.optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+  })
+  .refine(datesInOrder, {
+    message: "Start date must be before or equal to end date",
+    path: ["startDate"],
+  });
+
+/**
+ * Mark Invoiced Schema
+ * POST /api/reports/unbilled/invoice
+ */
+export const markInvoicedSchema = z.object({
+  expenseIds: z
+    .array(expenseIdSchema)
+    .min(1, "At least one expense ID must be provided")
+    .max(500, "Maximum 500 expenses per invoice")
+    .transform((ids) => Array.from(new Set(ids))),
+  invoiceReference: z
+    .string()
+    .trim()
+    .min(1, "Invoice reference cannot be empty")
+    .max(100, "Invoice reference must not exceed 100 characters")
+    .optional(),
+});
+
+// Type exports for TypeScript
+export type CreateProjectInput = z.infer<typeof createProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type ProjectListQueryInput = z.infer<typeof projectListQuerySchema>;
+export type UnbilledReportQueryInput = z.infer<
+  typeof unbilledReportQuerySchema
+>;
+export type MarkInvoicedInput = z.infer<typeof markInvoicedSchema>;
+
+/**
+ * Validation utility function for projects
+ */
+export function validateProjectInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
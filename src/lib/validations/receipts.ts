@@ -0,0 +1,117 @@
+import { z } from "zod";
+
+/**
+ * Validation schemas for receipt endpoints
+ */
+
+// Files per expense; matches the receiptIds limit on expense create/update
+export const MAX_RECEIPTS_PER_EXPENSE = 10;
+
+export const receiptTypeSchema = z.enum([
+  "RECEIPT",
+  "INVOICE",
+  "FOLIO",
+  "ITEMIZED_BILL",
+  "OTHER",
+]);
+
+const receiptIdSchema = z.string().cuid("Invalid receipt ID format");
+const expenseIdSchema = z.string().cuid("Invalid expense ID format");
+
+const captionSchema = z
+  .string()
+  .trim()
+  .max(200, "Caption must not exceed 200 characters");
+
+/**
+ * Upload Receipt Form Schema
+ * POST /api/receipts (multipart fields other than the file)
+ */
+export const uploadReceiptSchema = z.object({
+  expenseId: expenseIdSchema.optional(),
+  caption: captionSchema.optional(),
+  type: receiptTypeSchema.optional(),
+});
+
+/**
+ * List Receipts Query Schema
+ * GET /api/receipts
+ * Without expenseId, lists the caller's receipts not yet attached to an expense
+ */
+export const listReceiptsQuerySchema = z.object({
+  expenseId: expenseIdSchema.optional(),
+});
+
+/**
+ * Reorder Receipts Schema
+ * PATCH /api/receipts
+ * receiptIds must list every receipt on the expense, in the new order
+ */
+export const reorderReceiptsSchema = z.object({
+  expenseId: expenseIdSchema,
+  receiptIds: z
+    .array(receiptIdSchema)
+    .min(1, "At least one receipt ID is required")
+    .max(
+      MAX_RECEIPTS_PER_EXPENSE,
+      `Maximum ${MAX_RECEIPTS_PER_EXPENSE} receipts allowed per expense`
+    )
+    .refine(
+      (ids) => new Set(ids).size === ids.length,
+      "Receipt IDs must be unique"
+    ),
+});
+
+/**
+ * Update Receipt Schema
+ * PATCH /api/receipts/[id]
+ */
+export const updateReceiptSchema = z
+  .object({
+    caption: captionSchema.nullable().optional(),
+    type: receiptTypeSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+// Type exports for TypeScript
+export type ReceiptTypeInput = z.infer<typeof receiptTypeSchema>;
+export type UploadReceiptInput = z.infer<typeof uploadReceiptSchema>;
+export type ListReceiptsQueryInput = z.infer<typeof listReceiptsQuerySchema>;
+export type ReorderReceiptsInput = z.infer<typeof reorderReceiptsSchema>;
+export type UpdateReceiptInput = z.infer<typeof updateReceiptSchema>;
+
+/**
+ * Validation utility function for receipts
+ */
+export function validateReceiptInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const result = schema.parse(data);
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Invalid input data"],
+    };
+  }
+}
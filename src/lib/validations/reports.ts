@@ -21,10 +21,20 @@ const periodSchema = z.enum(["week", "month", "quarter", "year"], {
   message: "Period must be week, month, quarter, or year",
 });
 
+// Department and cost center filters; these are also interpolated into raw
+// SQL, so only cuids are accepted
+const departmentIdSchema = z.string().cuid("Invalid department ID format");
+const costCenterIdSchema = z.string().cuid("Invalid cost center ID format");
+const projectIdSchema = z.string().cuid("Invalid project ID format");
+
 // Export status validation
-const exportStatusSchema = z.enum(["PROCESSING", "COMPLETED", "FAILED"], {
-  message: "Status must be PROCESSING, COMPLETED, or FAILED",
-});
+const exportStatusSchema = z.enum(
+  ["QUEUED", "PROCESSING", "COMPLETED", "FAILED", "EXPIRED"],
+  {
+    message:
+      "Status must be QUEUED, PROCESSING, COMPLETED, FAILED, or EXPIRED",
+  }
+);
 
 /**
  * Dashboard Query Schema
@@ -35,6 +45,8 @@ export const dashboardQuerySchema = z
     startDate: dateStringSchema.optional(),
     endDate: dateStringSchema.optional(),
     userId: z.string().min(1, "User ID must not be empty").optional(),
+    departmentId: departmentIdSchema.optional(),
+    costCenterId: costCenterIdSchema.optional(),
     period: periodSchema.optional().default("month"),
   })
   .refine(
@@ -65,6 +77,9 @@ export const exportReportSchema = z.object({
         .optional(),
       categoryId: z.string().min(1, "Category ID must not be empty").optional(),
       userId: z.string().min(1, "User ID must not be empty").optional(),
+      departmentId: departmentIdSchema.optional(),
+      costCenterId: costCenterIdSchema.optional(),
+      projectId: projectIdSchema.optional(),
       minAmount: z
         .number()
         .min(0, "Minimum amount must be positive")
@@ -127,9 +142,18 @@ export const expenseReportQuerySchema = z
     endDate: dateStringSchema.optional(),
     userId: z.string().min(1, "User ID must not be empty").optional(),
     categoryId: z.string().min(1, "Category ID must not be empty").optional(),
+    departmentId: departmentIdSchema.optional(),
+    costCenterId: costCenterIdSchema.optional(),
+    projectId: projectIdSchema.optional(),
+    isBillable: z
+      .enum(["true", "false"])
+      .transform((val) => val === "true")
+      .optional(),
     status: z
       .enum(["DRAFT", "PENDING_APPROVAL", "APPROVED", "REJECTED"])
       .optional(),
+    // Adds totals per project (and billable share) for the filtered expenses
+    groupBy: z.enum(["project"]).optional(),
     format: reportFormatSchema.optional().default("json"),
     page: z
       .string()
@@ -158,11 +182,36 @@ export const expenseReportQuerySchema = z
     }
   );
 
+/**
+ * Tax Report Query Schema
+ * GET /api/reports/tax
+ */
+export const taxReportQuerySchema = z
+  .object({
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    departmentId: departmentIdSchema.optional(),
+    costCenterId: costCenterIdSchema.optional(),
+  })
+  .refine(
+    (data) => {
+      if (data.startDate && data.endDate) {
+        return new Date(data.startDate) <= new Date(data.endDate);
+      }
+      return true;
+    },
+    {
+      message: "Start date must be before or equal to end date",
+      path: ["startDate"],
+    }
+  );
+
 // Type exports for TypeScript
 export type DashboardQueryInput = z.infer<typeof dashboardQuerySchema>;
 export type ExportReportInput = z.infer<typeof exportReportSchema>;
 export type SummaryQueryInput = z.infer<typeof summaryQuerySchema>;
 export type ExpenseReportQueryInput = z.infer<typeof expenseReportQuerySchema>;
+export type TaxReportQueryInput = z.infer<typeof taxReportQuerySchema>;
 
 /**
  * Validation utility function for reports
@@ -200,11 +249,13 @@ export function validateReportInput<T>(
 
 /**
  * Helper function to calculate date ranges based on period
+ * Quarters and years are fiscal, starting in `fiscalYearStartMonth` (1-12)
  */
 export function calculateDateRange(
   period: "week" | "month" | "quarter" | "year",
   customStart?: string,
-  customEnd?: string
+  customEnd?: string,
+  fiscalYearStartMonth = 1
 ): {
   startDate: Date;
   endDate: Date;
@@ -243,26 +294,31 @@ export function calculateDateRange(
       endDate.setHours(23, 59, 59, 999);
       break;
 
-    case "quarter":
-      // Start of current quarter
-      const currentQuarter = Math.floor(startDate.getMonth() / 3);
-      startDate.setMonth(currentQuarter * 3, 1);
+    case "quarter": {
+      // Start of current fiscal quarter
+      const monthsIntoYear =
+        (startDate.getMonth() - (fiscalYearStartMonth - 1) + 12) % 12;
+      startDate.setMonth(startDate.getMonth() - (monthsIntoYear % 3), 1);
       startDate.setHours(0, 0, 0, 0);
 
-      // End of current quarter
-      endDate.setMonth(currentQuarter * 3 + 3, 0);
+      // End of current fiscal quarter
+      endDate.setFullYear(startDate.getFullYear(), startDate.getMonth() + 3, 0);
       endDate.setHours(23, 59, 59, 999);
       break;
+    }
 
-    case "year":
-      // Start of current year
-      startDate.setMonth(0, 1);
+    case "year": {
+      // Start of current fiscal year
+      const monthsIntoYear =
+        (startDate.getMonth() - (fiscalYearStartMonth - 1) + 12) % 12;
+      startDate.setMonth(startDate.getMonth() - monthsIntoYear, 1);
       startDate.setHours(0, 0, 0, 0);
 
-      // End of current year
-      endDate.setMonth(11, 31);
+      // End of current fiscal year
+      endDate.setFullYear(startDate.getFullYear(), startDate.getMonth() + 12, 0);
       endDate.setHours(23, 59, 59, 999);
       break;
+    }
   }
 
   return { startDate, endDate };
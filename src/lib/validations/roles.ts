@@ -0,0 +1,102 @@
+import { z } from "zod";
+import { PERMISSION_KEYS } from "@/lib/permissions";
+
+/**
+ * Validation schemas for custom role endpoints
+ */
+
+const roleNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Role name must be at least 2 characters")
+  .max(100, "Role name must not exceed 100 characters");
+
+const roleDescriptionSchema = z
+  .string()
+  .trim()
+  .max(500, "Description must not exceed 500 characters");
+
+// Permissions from the catalog in src/lib/permissions.ts
+const permissionsSchema = z
+  .array(
+    z
+      .string()
+      .refine((key) => PERMISSION_KEYS.includes(key), "Unknown permission")
+  )
+  .min(1, "A role needs at least one permission")
+  .max(PERMISSION_KEYS.length, "Too many permissions")
+  .transform((keys) => Array.from(new Set(keys)));
+
+const roleIdSchema = z.string().cuid("Invalid role ID format");
+
+/**
+ * Create Role Schema
+ * POST /api/roles
+ */
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: roleDescriptionSchema.optional(),
+  permissions: permissionsSchema,
+});
+
+/**
+ * Update Role Schema
+ * PATCH /api/roles/{id}
+ */
+export const updateRoleSchema = z
+  .object({
+    name: roleNameSchema.optional(),
+    description: roleDescriptionSchema.nullable().optional(),
+    permissions: permissionsSchema.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * Set User Roles Schema
+ * PUT /api/users/{id}/roles
+ * The listed custom roles become the user's; others are unassigned
+ */
+export const setUserRolesSchema = z.object({
+  roleIds: z
+    .array(roleIdSchema)
+    .max(50, "Maximum 50 roles per user")
+    .transform((ids) => Array.from(new Set(ids))),
+});
+
+// Type exports for TypeScript
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type SetUserRolesInput = z.infer<typeof setUserRolesSchema>;
+
+/**
+ * Validation utility function for roles
+ */
+export function validateRoleInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const validatedData = schema.parse(data);
+    return { success: true, data: validatedData };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Validation failed"],
+    };
+  }
+}
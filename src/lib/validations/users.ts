@@ -31,6 +31,11 @@ const userIdSchema = z
   .min(1, "User ID is required")
   .regex(/^[a-zA-Z0-9_-]+$/, "Invalid user ID format");
 
+const departmentIdSchema = z.string().cuid("Invalid department ID format");
+
+// The cost center the user's expenses are charged to by default
+const costCenterIdSchema = z.string().cuid("Invalid cost center ID format");
+
 /**
  * Update Current User Profile Schema
  * PUT /api/users/me
@@ -48,6 +53,8 @@ export const createUserSchema = z.object({
   name: nameSchema,
   role: roleSchema,
   managerId: userIdSchema.optional(),
+  departmentId: departmentIdSchema.optional(),
+  costCenterId: costCenterIdSchema.optional(),
 });
 
 /**
@@ -58,6 +65,8 @@ export const updateUserSchema = z.object({
   name: nameSchema.optional(),
   role: roleSchema.optional(),
   managerId: userIdSchema.optional().nullable(),
+  departmentId: departmentIdSchema.optional().nullable(),
+  costCenterId: costCenterIdSchema.optional().nullable(),
 });
 
 /**
@@ -76,6 +85,7 @@ export const usersQuerySchema = z.object({
     .transform((val) => (val ? parseInt(val, 10) : 20))
     .refine((val) => val > 0 && val <= 100, "Limit must be between 1 and 100"),
   role: roleSchema.optional(),
+  departmentId: departmentIdSchema.optional(),
   search: z
     .string()
     .min(1, "Search term must be at least 1 character")
@@ -88,11 +98,75 @@ export const usersQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).optional().default("asc"),
 });
 
+/**
+ * Create Invitation Schema
+ * POST /api/invitations
+ */
+export const createInvitationSchema = createUserSchema;
+
+/**
+ * Accept Invitation Schema
+ * POST /api/invitations/accept
+ * The password is checked against validatePassword by the service
+ */
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+/**
+ * Query Parameters for List Invitations
+ * GET /api/invitations
+ */
+export const invitationsQuerySchema = z.object({
+  status: z.enum(["PENDING", "EXPIRED", "ACCEPTED", "REVOKED"]).optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .refine((val) => val > 0, "Page must be greater than 0"),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .refine((val) => val > 0 && val <= 100, "Limit must be between 1 and 100"),
+});
+
+/**
+ * A row of a user import file, after the department and cost center have
+ * been looked up by name and code
+ */
+export const importUserRowSchema = z.object({
+  email: emailSchema,
+  name: nameSchema,
+  role: z.preprocess(
+    (val) =>
+      typeof val === "string" && val.trim() ? val.trim().toUpperCase() : "EMPLOYEE",
+    roleSchema
+  ),
+  managerEmail: emailSchema.optional(),
+});
+
+/**
+ * Bulk import options
+ * POST /api/invitations/import (multipart form fields)
+ */
+export const importUsersSchema = z.object({
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((val) => val === "true"),
+});
+
 // Type exports for TypeScript
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type UsersQueryInput = z.infer<typeof usersQuerySchema>;
+export type CreateInvitationInput = z.infer<typeof createInvitationSchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type InvitationsQueryInput = z.infer<typeof invitationsQuerySchema>;
+export type ImportUserRowInput = z.infer<typeof importUserRowSchema>;
 
 /**
  * Validation utility function for users
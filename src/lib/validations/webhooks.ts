@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { WEBHOOK_EVENTS, WEBHOOK_WILDCARD_EVENT } from "@/lib/webhooks";
+
+/**
+ * Validation schemas for webhook endpoints
+ */
+
+// Deliveries carry expense data, so plain HTTP is only allowed for local
+// development endpoints
+const webhookUrlSchema = z
+  .string()
+  .url("Webhook URL must be a valid URL")
+  .max(2000, "Webhook URL must not exceed 2000 characters")
+  .refine((value) => {
+    const url = new URL(value);
+    return (
+      url.protocol === "https:" ||
+      (process.env.NODE_ENV !== "production" &&
+        url.protocol === "http:" &&
+        ["localhost", "127.0.0.1"].includes(url.hostname))
+    );
+  }, "Webhook URL must use HTTPS");
+
+const webhookEventsSchema = z
+  .array(z.enum([...WEBHOOK_EVENTS, WEBHOOK_WILDCARD_EVENT]))
+  .min(1, "Subscribe to at least one event")
+  .transform((events) => Array.from(new Set(events)));
+
+const webhookSecretSchema = z
+  .string()
+  .min(16, "Secret must be at least 16 characters")
+  .max(200, "Secret must not exceed 200 characters");
+
+const descriptionSchema = z
+  .string()
+  .max(200, "Description must not exceed 200 characters");
+
+/**
+ * Create Webhook Schema
+ * POST /api/webhooks
+ * A secret is generated when none is given
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  events: webhookEventsSchema,
+  secret: webhookSecretSchema.optional(),
+  description: descriptionSchema.optional(),
+});
+
+/**
+ * Update Webhook Schema
+ * PATCH /api/webhooks/[id]
+ */
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    events: webhookEventsSchema.optional(),
+    description: descriptionSchema.nullable().optional(),
+    isActive: z.boolean().optional(),
+    rotateSecret: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+/**
+ * Webhook Deliveries Query Schema
+ * GET /api/webhooks/[id]/deliveries
+ */
+export const webhookDeliveriesQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 1))
+    .refine((val) => val > 0, "Page must be greater than 0"),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .refine((val) => val > 0 && val <= 100, "Limit must be between 1 and 100"),
+  status: z.enum(["PENDING", "SUCCEEDED", "FAILED"]).optional(),
+});
+
+// Type exports for TypeScript
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookDeliveriesQueryInput = z.infer<
+  typeof webhookDeliveriesQuerySchema
+>;
+
+/**
+ * Validation utility function for webhooks
+ */
+export function validateWebhookInput<T>(
+  schema: z.ZodSchema<T>,
+  data: unknown
+): {
+  success: boolean;
+  data?: T;
+  errors?: string[];
+} {
+  try {
+    const result = schema.parse(data);
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.issues.map((issue) => {
+          const path = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+          return `${path}${issue.message}`;
+        }),
+      };
+    }
+    return {
+      success: false,
+      errors: ["Invalid input data"],
+    };
+  }
+}
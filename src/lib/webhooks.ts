@@ -0,0 +1,154 @@
+import crypto from "crypto";
+
+/**
+ * Outbound webhook helpers
+ * Event catalog, payload envelope and HMAC signing shared by the event bus,
+ * the webhook service and the delivery worker
+ */
+
+export const WEBHOOK_EVENTS = [
+  "expense.created",
+  "expense.submitted",
+  "expense.approved",
+  "expense.rejected",
+  "user.created",
+  "user.updated",
+  "user.deleted",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+// Subscribing to "*" delivers every event, including ones added later
+export const WEBHOOK_WILDCARD_EVENT = "*";
+
+export interface DomainEvent<T = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  companyId: string;
+  occurredAt: string;
+  // The user whose action raised the event, when there is one
+  actorId: string | null;
+  data: T;
+}
+
+export const WEBHOOK_HEADERS = {
+  signature: "X-ExpenseWise-Signature",
+  event: "X-ExpenseWise-Event",
+  delivery: "X-ExpenseWise-Delivery",
+} as const;
+
+/**
+ * Generate a random signing secret for a new webhook
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Sign a delivery body. The header value is `t=<unix seconds>,v1=<hex>`,
+ * where the HMAC-SHA256 covers `<timestamp>.<body>` so receivers can reject
+ * replayed requests by their age.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header produced by signWebhookPayload. Intended for
+ * receivers and tests; `toleranceSeconds` bounds the accepted clock skew.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds: number = 300
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=") as [string, string])
+  );
+  const timestamp = Number(parts.t);
+
+  if (!timestamp || !parts.v1) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, body, timestamp).split("v1=")[1];
+
+  return (
+    expected.length === parts.v1.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1))
+  );
+}
+
+/**
+ * Mask a secret for display, keeping the last four characters
+ */
+export function maskWebhookSecret(secret: string): string {
+  return `whsec_••••${secret.slice(-4)}`;
+}
+
+/**
+ * Event payload for an expense. Amounts are sent as numbers in the
+ * expense's own currency.
+ */
+export function toExpenseEventData(expense: {
+  id: string;
+  description: string;
+  amount: unknown;
+  currency: string;
+  baseAmount?: unknown;
+  baseCurrency?: string | null;
+  status: string;
+  expenseDate: Date;
+  categoryId: string;
+  submitterId: string;
+}) {
+  return {
+    expense: {
+      id: expense.id,
+      description: expense.description,
+      amount: Number(expense.amount),
+      currency: expense.currency,
+      baseAmount:
+        expense.baseAmount != null ? Number(expense.baseAmount) : null,
+      baseCurrency: expense.baseCurrency ?? null,
+      status: expense.status,
+      expenseDate: expense.expenseDate.toISOString().split("T")[0],
+      categoryId: expense.categoryId,
+      submitterId: expense.submitterId,
+    },
+  };
+}
+
+/**
+ * Event payload for a user. Never includes credentials.
+ */
+export function toUserEventData(user: {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  managerId: string | null;
+}) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      managerId: user.managerId,
+    },
+  };
+}
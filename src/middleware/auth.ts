@@ -5,9 +5,13 @@ import {
   isTokenBlacklisted,
   AccessTokenPayload,
 } from "@/lib/jwt";
+import { auditContextFromRequest, runWithAuditContext } from "@/lib/audit";
+import { isPermissionGranted } from "@/lib/permissions";
+import { RoleService } from "@/services/role.service";
 
 export interface AuthenticatedRequest extends NextRequest {
-  user?: AccessTokenPayload;
+  // `id` mirrors the token subject so handlers can use user.id
+  user?: AccessTokenPayload & { id: string };
 }
 
 // Authentication middleware
@@ -131,12 +135,7 @@ export function hasPermission(
   user: AccessTokenPayload,
   permission: string
 ): boolean {
-  // Admin has all permissions
-  if (user.permissions.includes("*")) {
-    return true;
-  }
-
-  return user.permissions.includes(permission);
+  return isPermissionGranted(user.permissions, permission);
 }
 
 // Middleware wrapper for API routes
@@ -171,8 +170,15 @@ export function withAuth(
       );
     }
 
-    // Check permission-based authorization
+    // Check permission-based authorization against the user's built-in role
+    // and the custom roles currently assigned to them
     if (options.permissions) {
+      authResult.user.permissions = await RoleService.getEffectivePermissions(
+        authResult.user.sub,
+        authResult.user.role,
+        authResult.user.companyId
+      );
+
       const hasRequiredPermissions = options.permissions.every((permission) =>
         hasPermission(authResult.user!, permission)
       );
@@ -192,9 +198,17 @@ export function withAuth(
     }
 
     // Add user to request object
-    (request as AuthenticatedRequest).user = authResult.user;
-
-    return handler(request, context);
+    (request as AuthenticatedRequest).user = {
+      ...authResult.user,
+      id: authResult.user.sub,
+    };
+
+    // Changes made while handling the request are audited with its IP
+    // address and user agent
+    return runWithAuditContext(
+      auditContextFromRequest(request, authResult.user.sub),
+      () => handler(request, context)
+    );
   };
 }
 
@@ -211,7 +225,8 @@ export const withManagerAuth = (handler: AuthHandler) =>
 export const withEmployeeAuth = (handler: AuthHandler) =>
   withAuth(handler, { roles: ["ADMIN", "MANAGER", "EMPLOYEE"] });
 
-// Permission-based middlewares
+// Permission-based middlewares; a permission can come from the built-in role
+// or from any custom role assigned to the user
 export const withPermission = (handler: AuthHandler, permissions: string[]) =>
   withAuth(handler, { permissions });
 
@@ -232,7 +232,7 @@ export class BusinessLogger extends Logger {
   logApprovalEvent(
     event: string,
     approvalId: string,
-    expenseId: string,
+    expenseId: string | null,
     approverId: string,
     data?: any
   ): void {
@@ -0,0 +1,903 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { ApprovalChainStep, buildApprovalChain } from "@/lib/approval-chain";
+import {
+  calculateAdvanceBalance,
+  LINKABLE_ADVANCE_STATUSES,
+  type AdvanceBalance,
+} from "@/lib/advances";
+import type {
+  AdvanceListQueryInput,
+  DisburseAdvanceInput,
+  ReconcileAdvanceInput,
+  RequestAdvanceInput,
+} from "@/lib/validations/advances";
+import { ApprovalService } from "./approval.service";
+import { DelegationService } from "./delegation.service";
+import { NotificationService } from "./notification-simple.service";
+
+export interface AdvanceActor {
+  id: string;
+  role: string;
+  companyId: string;
+}
+
+export interface AdvancePublic {
+  id: string;
+  purpose: string;
+  amount: number;
+  currency: string;
+  neededBy: string | null;
+  status: string;
+  submitter: { id: string; name: string; email: string };
+  balance: AdvanceBalance;
+  decidedAt: string | null;
+  disbursement: {
+    disbursedAt: string;
+    method: string | null;
+    reference: string | null;
+    disbursedBy: { id: string; name: string } | null;
+  } | null;
+  reconciliation: {
+    reconciledAt: string;
+    approvedAmount: number;
+    // Positive when the employee paid back, negative when paid out
+    settlementAmount: number;
+    note: string | null;
+    reconciledBy: { id: string; name: string } | null;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdvanceExpense {
+  id: string;
+  description: string;
+  expenseDate: string;
+  amount: number;
+  currency: string;
+  baseAmount: number | null;
+  status: string;
+  report: { id: string; title: string } | null;
+}
+
+export interface AdvanceDetail extends AdvancePublic {
+  expenses: AdvanceExpense[];
+  approvalChain: ApprovalChainStep[];
+  // The viewer's open step on the advance, when they can decide it now
+  pendingApprovalId: string | null;
+}
+
+const advanceInclude = {
+  submitter: { select: { id: true, name: true, email: true } },
+  disbursedBy: { select: { id: true, name: true } },
+  reconciledBy: { select: { id: true, name: true } },
+  expenses: { select: { amount: true, baseAmount: true, status: true } },
+} as const;
+
+type AdvanceRow = Prisma.AdvanceGetPayload<{
+  include: typeof advanceInclude;
+}>;
+
+const advanceDetailInclude = {
+  submitter: { select: { id: true, name: true, email: true } },
+  disbursedBy: { select: { id: true, name: true } },
+  reconciledBy: { select: { id: true, name: true } },
+  expenses: {
+    include: {
+      report: { select: { id: true, title: true } },
+    },
+    orderBy: { expenseDate: "asc" },
+  },
+  approvals: {
+    include: {
+      approver: { select: { id: true, name: true, email: true } },
+      actedBy: { select: { id: true, name: true } },
+      escalatedFrom: { select: { id: true, name: true } },
+      approvalRule: { select: { name: true, isSequenceRequired: true } },
+    },
+    // buildApprovalChain puts the steps in chain order
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const toAdvancePublic = (
+  advance: Omit<AdvanceRow, "expenses"> & {
+    expenses: { amount: unknown; baseAmount: unknown; status: string }[];
+  }
+): AdvancePublic => ({
+  id: advance.id,
+  purpose: advance.purpose,
+  amount: Number(advance.amount),
+  currency: advance.currency,
+  neededBy: advance.neededBy ? toDateString(advance.neededBy) : null,
+  status: advance.status,
+  submitter: advance.submitter,
+  balance: calculateAdvanceBalance(advance, advance.expenses),
+  decidedAt: advance.decidedAt?.toISOString() ?? null,
+  disbursement: advance.disbursedAt
+    ? {
+        disbursedAt: advance.disbursedAt.toISOString(),
+        method: advance.disbursementMethod,
+        reference: advance.disbursementReference,
+        disbursedBy: advance.disbursedBy,
+      }
+    : null,
+  reconciliation: advance.reconciledAt
+    ? {
+        reconciledAt: advance.reconciledAt.toISOString(),
+        approvedAmount: Number(advance.approvedAmount ?? 0),
+        settlementAmount: Number(advance.settlementAmount ?? 0),
+        note: advance.settlementNote,
+        reconciledBy: advance.reconciledBy,
+      }
+    : null,
+  createdAt: advance.createdAt.toISOString(),
+  updatedAt: advance.updatedAt.toISOString(),
+});
+
+const notFound = (): ServiceResult<never> => ({
+  success: false,
+  error: { message: "Advance not found", code: "ADVANCE_NOT_FOUND" },
+});
+
+const invalidStatus = (message: string): ServiceResult<never> => ({
+  success: false,
+  error: { message, code: "INVALID_ADVANCE_STATUS" },
+});
+
+export class AdvanceService {
+  /**
+   * List advances, newest first. See advanceListQuerySchema for the scopes.
+   */
+  static async listAdvances(
+    actor: AdvanceActor,
+    query: AdvanceListQueryInput
+  ): Promise<ServiceResult<AdvancePublic[]>> {
+    try {
+      if (query.scope === "company" && actor.role !== "ADMIN") {
+        return {
+          success: false,
+          error: {
+            message: "Only administrators can list every advance",
+            code: "FORBIDDEN",
+          },
+        };
+      }
+
+      let scopeWhere: Prisma.AdvanceWhereInput = { submitterId: actor.id };
+      if (query.scope === "company") {
+        scopeWhere = query.submitterId ? { submitterId: query.submitterId } : {};
+      } else if (query.scope === "approvals") {
+        const delegatorIds = await DelegationService.getActiveDelegatorIds(
+          actor.id
+        );
+        scopeWhere = {
+          approvals: {
+            some: { approverId: { in: [actor.id, ...delegatorIds] } },
+          },
+        };
+      }
+
+      const advances = await prisma.advance.findMany({
+        where: {
+          companyId: actor.companyId,
+          ...scopeWhere,
+          ...(query.status && { status: query.status }),
+        },
+        include: advanceInclude,
+        orderBy: { createdAt: "desc" },
+      });
+
+      return { success: true, data: advances.map(toAdvancePublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list advances", error as Error, {
+        userId: actor.id,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve advances",
+          code: "ADVANCE_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * An advance with its expenses and approval chain. Visible to its
+   * requester, admins, and approvers (or their delegates) with a step on it.
+   */
+  static async getAdvance(
+    actor: AdvanceActor,
+    advanceId: string
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await prisma.advance.findFirst({
+        where: { id: advanceId, companyId: actor.companyId },
+        include: advanceDetailInclude,
+      });
+
+      if (!advance) return notFound();
+
+      const delegatorIds = await DelegationService.getActiveDelegatorIds(
+        actor.id
+      );
+      const actorApproverIds = [actor.id, ...delegatorIds];
+      const isApprover = advance.approvals.some((step) =>
+        actorApproverIds.includes(step.approverId)
+      );
+
+      if (
+        advance.submitterId !== actor.id &&
+        actor.role !== "ADMIN" &&
+        !isApprover
+      ) {
+        return notFound();
+      }
+
+      // Delegates don't decide on their own advances
+      const pendingStep = advance.approvals.find(
+        (step) =>
+          step.status === "PENDING" &&
+          (step.approverId === actor.id ||
+            (advance.submitterId !== actor.id &&
+              delegatorIds.includes(step.approverId)))
+      );
+
+      return {
+        success: true,
+        data: {
+          ...toAdvancePublic(advance),
+          expenses: advance.expenses.map((expense) => ({
+            id: expense.id,
+            description: expense.description,
+            expenseDate: toDateString(expense.expenseDate),
+            amount: Number(expense.amount),
+            currency: expense.currency,
+            baseAmount:
+              expense.baseAmount != null ? Number(expense.baseAmount) : null,
+            status: expense.status,
+            report: expense.report,
+          })),
+          approvalChain: buildApprovalChain(advance.approvals),
+          pendingApprovalId: pendingStep?.id ?? null,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get advance", error as Error, {
+        advanceId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve advance",
+          code: "ADVANCE_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Request an advance in the company base currency. The approval rules are
+   * evaluated as for an expense of the same amount without a category; with
+   * no applicable rules the advance waits for an administrator.
+   */
+  static async requestAdvance(
+    actor: AdvanceActor,
+    input: RequestAdvanceInput
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const company = await prisma.company.findUniqueOrThrow({
+        where: { id: actor.companyId },
+        select: { baseCurrency: true },
+      });
+
+      const advance = await prisma.advance.create({
+        data: {
+          purpose: input.purpose,
+          amount: input.amount,
+          currency: company.baseCurrency,
+          neededBy: input.neededBy ? new Date(input.neededBy) : null,
+          submitterId: actor.id,
+          companyId: actor.companyId,
+        },
+      });
+
+      const rulesResult = await ApprovalService.evaluateAdvanceApprovalRules(
+        advance.id,
+        actor.companyId
+      );
+
+      // An advance no rule applies to goes to the company's fallback
+      // approver
+      if (rulesResult.success && rulesResult.data) {
+        const chainResult = await ApprovalService.createApprovalChain(
+          { advanceId: advance.id },
+          rulesResult.data
+        );
+
+        if (chainResult.success) {
+          await this.notifyFirstApprovers(advance.id);
+        } else {
+          businessLogger.warn("Failed to create approval chain for advance", {
+            advanceId: advance.id,
+            error: chainResult.error,
+          });
+        }
+      } else {
+        businessLogger.warn("Failed to evaluate approval rules for advance", {
+          advanceId: advance.id,
+          error: rulesResult.error,
+        });
+      }
+
+      businessLogger.logUserAction("advance_requested", actor.id, {
+        advanceId: advance.id,
+        amount: input.amount,
+        ruleIds: rulesResult.data,
+      });
+
+      return this.getAdvance(actor, advance.id);
+    } catch (error) {
+      businessLogger.error("Failed to request advance", error as Error, {
+        userId: actor.id,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to request advance",
+          code: "ADVANCE_REQUEST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Withdraw an advance that hasn't been paid out yet. Open approval steps
+   * are closed.
+   */
+  static async cancelAdvance(
+    actor: AdvanceActor,
+    advanceId: string
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await prisma.advance.findFirst({
+        where: {
+          id: advanceId,
+          companyId: actor.companyId,
+          submitterId: actor.id,
+        },
+      });
+
+      if (!advance) return notFound();
+      if (!["PENDING_APPROVAL", "APPROVED"].includes(advance.status)) {
+        return invalidStatus("Only advances not yet paid out can be cancelled");
+      }
+
+      const cancelledAt = new Date();
+      await prisma.$transaction([
+        prisma.advance.update({
+          where: { id: advanceId },
+          data: { status: "CANCELLED", decidedAt: cancelledAt },
+        }),
+        prisma.expenseApproval.updateMany({
+          where: { advanceId, status: { in: ["PENDING", "WAITING"] } },
+          data: { status: "SKIPPED", processedAt: cancelledAt },
+        }),
+        // Expenses already linked are reimbursed as usual instead
+        prisma.expense.updateMany({
+          where: { advanceId },
+          data: { advanceId: null },
+        }),
+        prisma.expenseReport.updateMany({
+          where: { advanceId },
+          data: { advanceId: null, advanceAmount: null },
+        }),
+      ]);
+
+      businessLogger.logUserAction("advance_cancelled", actor.id, {
+        advanceId,
+      });
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error("Failed to cancel advance", error as Error, {
+        advanceId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to cancel advance",
+          code: "ADVANCE_CANCEL_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Approve or reject the advance on the actor's current step. The advance
+   * only moves once its chain completes. An administrator can decide an
+   * advance no approval rule applied to; the decision is recorded as a step
+   * of its own.
+   */
+  static async decideAdvance(
+    actor: AdvanceActor,
+    advanceId: string,
+    decision: "approve" | "reject",
+    comment?: string
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const step =
+        (await this.findPendingStep(actor, advanceId)) ??
+        (await this.openAdminStep(actor, advanceId));
+      if (!step) {
+        return {
+          success: false,
+          error: {
+            message: "This advance is not awaiting your decision",
+            code: "APPROVAL_NOT_ACTIONABLE",
+          },
+        };
+      }
+
+      const result =
+        decision === "approve"
+          ? await ApprovalService.approveExpense(step.id, actor.id, comment)
+          : await ApprovalService.rejectExpense(
+              step.id,
+              actor.id,
+              comment ?? ""
+            );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error("Failed to decide advance", error as Error, {
+        advanceId,
+        decision,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to record the decision",
+          code: "ADVANCE_DECISION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Record that an approved advance was paid out to the employee
+   */
+  static async disburseAdvance(
+    actor: AdvanceActor,
+    advanceId: string,
+    input: DisburseAdvanceInput
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await prisma.advance.findFirst({
+        where: { id: advanceId, companyId: actor.companyId },
+      });
+
+      if (!advance) return notFound();
+      if (advance.status !== "APPROVED") {
+        return invalidStatus("Only approved advances can be paid out");
+      }
+
+      const disbursed = await prisma.advance.update({
+        where: { id: advanceId },
+        data: {
+          status: "DISBURSED",
+          disbursedAt: input.disbursedOn
+            ? new Date(input.disbursedOn)
+            : new Date(),
+          disbursementMethod: input.method,
+          disbursementReference: input.reference,
+          disbursedById: actor.id,
+        },
+      });
+
+      await NotificationService.createNotification({
+        userId: disbursed.submitterId,
+        type: "SYSTEM_NOTIFICATION",
+        title: "Advance paid out",
+        message: `Your advance "${disbursed.purpose}" of ${disbursed.currency} ${Number(
+          disbursed.amount
+        )} has been paid out. Submit your expenses against it when you're back.`,
+        data: { advanceId },
+      });
+
+      businessLogger.logUserAction("advance_disbursed", actor.id, {
+        advanceId,
+        method: input.method,
+      });
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error("Failed to disburse advance", error as Error, {
+        advanceId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to record the disbursement",
+          code: "ADVANCE_DISBURSE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Settle a paid out advance against the expenses submitted on it. Every
+   * submitted expense must be decided first. The settlement defaults to the
+   * computed balance; a different amount can be recorded with a note (e.g.
+   * when part of the balance is written off). Expenses linked while still
+   * drafts are unlinked and reimbursed as usual.
+   */
+  static async reconcileAdvance(
+    actor: AdvanceActor,
+    advanceId: string,
+    input: ReconcileAdvanceInput
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await prisma.advance.findFirst({
+        where: { id: advanceId, companyId: actor.companyId },
+        include: {
+          expenses: {
+            select: {
+              description: true,
+              amount: true,
+              baseAmount: true,
+              status: true,
+            },
+          },
+        },
+      });
+
+      if (!advance) return notFound();
+      if (advance.status !== "DISBURSED") {
+        return invalidStatus("Only paid out advances can be reconciled");
+      }
+
+      const pendingExpenses = advance.expenses.filter(
+        (expense) => expense.status === "PENDING_APPROVAL"
+      );
+      if (pendingExpenses.length > 0) {
+        return {
+          success: false,
+          error: {
+            message:
+              "Expenses submitted against the advance are still awaiting approval",
+            code: "ADVANCE_EXPENSES_PENDING",
+            details: pendingExpenses.map((expense) => expense.description),
+          },
+        };
+      }
+
+      const balance = calculateAdvanceBalance(advance, advance.expenses);
+      const settlementAmount =
+        input.settlementAmount ??
+        balance.owedByEmployee - balance.payableToEmployee;
+
+      await prisma.$transaction([
+        prisma.expense.updateMany({
+          where: { advanceId, status: "DRAFT" },
+          data: { advanceId: null },
+        }),
+        prisma.advance.update({
+          where: { id: advanceId },
+          data: {
+            status: "RECONCILED",
+            reconciledAt: new Date(),
+            approvedAmount: balance.approvedAmount,
+            settlementAmount,
+            settlementNote: input.note,
+            reconciledById: actor.id,
+          },
+        }),
+      ]);
+
+      await NotificationService.createNotification({
+        userId: advance.submitterId,
+        type: "SYSTEM_NOTIFICATION",
+        title: "Advance reconciled",
+        message:
+          settlementAmount > 0
+            ? `Your advance "${advance.purpose}" was reconciled: ${advance.currency} ${settlementAmount} was returned to the company`
+            : settlementAmount < 0
+            ? `Your advance "${advance.purpose}" was reconciled: ${advance.currency} ${-settlementAmount} is paid out to you`
+            : `Your advance "${advance.purpose}" was reconciled with nothing left to settle`,
+        data: { advanceId },
+      });
+
+      businessLogger.logUserAction("advance_reconciled", actor.id, {
+        advanceId,
+        approvedAmount: balance.approvedAmount,
+        settlementAmount,
+      });
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error("Failed to reconcile advance", error as Error, {
+        advanceId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to reconcile advance",
+          code: "ADVANCE_RECONCILE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Mark the actor's own expenses as paid from the advance. Expenses in an
+   * expense report follow the report's advance instead.
+   */
+  static async linkExpenses(
+    actor: AdvanceActor,
+    advanceId: string,
+    expenseIds: string[]
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await this.findLinkableAdvance(actor, advanceId);
+      if ("error" in advance) return advance.error;
+
+      const expenses = await prisma.expense.findMany({
+        where: {
+          id: { in: expenseIds },
+          companyId: actor.companyId,
+          submitterId: actor.id,
+        },
+        select: {
+          id: true,
+          description: true,
+          status: true,
+          reportId: true,
+          advanceId: true,
+        },
+      });
+
+      if (expenses.length !== expenseIds.length) {
+        return {
+          success: false,
+          error: {
+            message: "Some expenses were not found",
+            code: "EXPENSE_NOT_FOUND",
+          },
+        };
+      }
+
+      const problems: string[] = [];
+      for (const expense of expenses) {
+        if (expense.status === "REJECTED") {
+          problems.push(`${expense.description}: rejected`);
+        } else if (expense.reportId) {
+          problems.push(
+            `${expense.description}: in an expense report; link the report instead`
+          );
+        } else if (expense.advanceId && expense.advanceId !== advanceId) {
+          problems.push(`${expense.description}: linked to another advance`);
+        }
+      }
+
+      if (problems.length > 0) {
+        return {
+          success: false,
+          error: {
+            message: "Some expenses can't be linked to the advance",
+            code: "ADVANCE_EXPENSES_INVALID",
+            details: problems,
+          },
+        };
+      }
+
+      await prisma.expense.updateMany({
+        where: { id: { in: expenseIds } },
+        data: { advanceId },
+      });
+
+      businessLogger.logUserAction("advance_expenses_linked", actor.id, {
+        advanceId,
+        expenseIds,
+      });
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error("Failed to link expenses to advance", error as Error, {
+        advanceId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to link expenses to the advance",
+          code: "ADVANCE_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Unlink expenses from an advance that hasn't been reconciled
+   */
+  static async unlinkExpenses(
+    actor: AdvanceActor,
+    advanceId: string,
+    expenseIds: string[]
+  ): Promise<ServiceResult<AdvanceDetail>> {
+    try {
+      const advance = await this.findLinkableAdvance(actor, advanceId);
+      if ("error" in advance) return advance.error;
+
+      const { count } = await prisma.expense.updateMany({
+        where: { id: { in: expenseIds }, advanceId, reportId: null },
+        data: { advanceId: null },
+      });
+
+      if (count !== expenseIds.length) {
+        return {
+          success: false,
+          error: {
+            message:
+              "Some expenses are not linked to this advance directly; unlink their report instead",
+            code: "EXPENSE_NOT_FOUND",
+          },
+        };
+      }
+
+      businessLogger.logUserAction("advance_expenses_unlinked", actor.id, {
+        advanceId,
+        expenseIds,
+      });
+
+      return this.getAdvance(actor, advanceId);
+    } catch (error) {
+      businessLogger.error(
+        "Failed to unlink expenses from advance",
+        error as Error,
+        { advanceId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to unlink expenses from the advance",
+          code: "ADVANCE_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The actor's own advance, when expenses and reports can still be set
+   * against it (approved or paid out, not yet reconciled)
+   */
+  static async findLinkableAdvance(
+    actor: AdvanceActor,
+    advanceId: string
+  ): Promise<
+    { id: string; amount: Prisma.Decimal } | { error: ServiceResult<never> }
+  > {
+    const advance = await prisma.advance.findFirst({
+      where: {
+        id: advanceId,
+        companyId: actor.companyId,
+        submitterId: actor.id,
+      },
+      select: { id: true, amount: true, status: true },
+    });
+
+    if (!advance) return { error: notFound() };
+    if (
+      !(LINKABLE_ADVANCE_STATUSES as readonly string[]).includes(
+        advance.status
+      )
+    ) {
+      return {
+        error: invalidStatus(
+          "Expenses can only be set against an approved advance that hasn't been reconciled"
+        ),
+      };
+    }
+
+    return advance;
+  }
+
+  /**
+   * The advance step awaiting the actor's decision, their own or delegated
+   */
+  private static async findPendingStep(
+    actor: AdvanceActor,
+    advanceId: string
+  ) {
+    const delegatorIds = await DelegationService.getActiveDelegatorIds(
+      actor.id
+    );
+
+    const steps = await prisma.expenseApproval.findMany({
+      where: {
+        advanceId,
+        advance: { companyId: actor.companyId },
+        status: "PENDING",
+        OR: [
+          { approverId: actor.id },
+          // Delegates don't decide on their own advances
+          {
+            approverId: { in: delegatorIds },
+            advance: { submitterId: { not: actor.id } },
+          },
+        ],
+      },
+    });
+
+    // Prefer the actor's own step over a delegated one
+    return (
+      steps.find((step) => step.approverId === actor.id) ?? steps[0] ?? null
+    );
+  }
+
+  /**
+   * For an advance no approval rule applied to, open a step for the deciding
+   * administrator
+   */
+  private static async openAdminStep(actor: AdvanceActor, advanceId: string) {
+    if (actor.role !== "ADMIN") return null;
+
+    const advance = await prisma.advance.findFirst({
+      where: {
+        id: advanceId,
+        companyId: actor.companyId,
+        status: "PENDING_APPROVAL",
+        approvals: { none: {} },
+      },
+      select: { id: true },
+    });
+    if (!advance) return null;
+
+    const openedAt = new Date();
+    return prisma.expenseApproval.create({
+      data: {
+        advanceId,
+        approverId: actor.id,
+        status: "PENDING",
+        activatedAt: openedAt,
+      },
+    });
+  }
+
+  /**
+   * Tell the approvers of the chain's first stage about the new advance
+   */
+  private static async notifyFirstApprovers(advanceId: string): Promise<void> {
+    const advance = await prisma.advance.findUniqueOrThrow({
+      where: { id: advanceId },
+      include: {
+        submitter: { select: { name: true } },
+        approvals: {
+          where: { status: "PENDING" },
+          select: { id: true, approverId: true },
+        },
+      },
+    });
+
+    for (const step of advance.approvals) {
+      await NotificationService.createNotification({
+        userId: step.approverId,
+        type: "APPROVAL_REQUIRED",
+        title: "Approval required",
+        message: `${advance.submitter.name}'s advance "${advance.purpose}" is waiting for your approval`,
+        data: { advanceId, approvalId: step.id },
+      });
+    }
+  }
+}
+
+export default AdvanceService;
@@ -0,0 +1,571 @@
+import { prisma } from "@/lib/prisma";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { sendEmail } from "@/lib/email";
+import { toCompanySettingsValues } from "@/lib/company-settings";
+import {
+  approvalSubjectWhere,
+  companyApprovalStepsWhere,
+  getApprovalSubject,
+  summarizeApprovalSubject,
+} from "@/lib/expense-reports";
+import { NotificationService } from "./notification-simple.service";
+
+export type EscalationTarget = "MANAGER" | "FALLBACK";
+
+export interface ApprovalSlaSettingsPublic {
+  isEnabled: boolean;
+  stepSlaHours: number;
+  reminderBeforeHours: number;
+  escalationTarget: EscalationTarget;
+  fallbackApprover: { id: string; name: string; email: string } | null;
+  updatedAt: string | null;
+}
+
+export interface ApprovalSlaRunResult {
+  reminded: number;
+  escalated: number;
+  unresolved: number;
+}
+
+// Companies without a settings row have no SLA until an admin enables one
+const DEFAULT_SLA_SETTINGS = {
+  isEnabled: false,
+  stepSlaHours: 48,
+  reminderBeforeHours: 8,
+  escalationTarget: "MANAGER" as EscalationTarget,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const pendingStepInclude = {
+  expense: {
+    include: {
+      submitter: true,
+    },
+  },
+  report: {
+    include: {
+      submitter: true,
+    },
+  },
+  advance: {
+    include: {
+      submitter: true,
+    },
+  },
+  approver: true,
+} as const;
+
+type SlaSettingsRow = {
+  companyId: string;
+  stepSlaHours: number;
+  reminderBeforeHours: number;
+  escalationTarget: EscalationTarget;
+  fallbackApproverId: string | null;
+  updatedAt: Date;
+};
+
+type PendingStep = {
+  id: string;
+  expenseId: string | null;
+  reportId: string | null;
+  advanceId: string | null;
+  ruleId: string | null;
+  approverId: string;
+  dueAt: Date | null;
+  escalatedAt: Date | null;
+  approver: {
+    id: string;
+    name: string;
+    email: string;
+    managerId: string | null;
+  };
+} & Parameters<typeof summarizeApprovalSubject>[0];
+
+export class ApprovalSlaService {
+  /**
+   * Get the company's approval SLA settings, falling back to the defaults
+   */
+  static async getSettings(
+    companyId: string
+  ): Promise<ServiceResult<ApprovalSlaSettingsPublic>> {
+    try {
+      const settings = await prisma.approvalSlaSettings.findUnique({
+        where: { companyId },
+        include: {
+          fallbackApprover: {
+            select: { id: true, name: true, email: true },
+          },
+        },
+      });
+
+      if (!settings) {
+        return {
+          success: true,
+          data: {
+            ...DEFAULT_SLA_SETTINGS,
+            fallbackApprover: null,
+            updatedAt: null,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          isEnabled: settings.isEnabled,
+          stepSlaHours: settings.stepSlaHours,
+          reminderBeforeHours: settings.reminderBeforeHours,
+          escalationTarget: settings.escalationTarget,
+          fallbackApprover: settings.fallbackApprover,
+          updatedAt: settings.updatedAt.toISOString(),
+        },
+      };
+    } catch (error) {
+      businessLogger.error(
+        "Failed to get approval SLA settings",
+        error as Error,
+        { companyId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve approval SLA settings",
+          code: "SLA_SETTINGS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Save the company's approval SLA settings. Enabling the SLA starts the
+   * clock on steps that are already pending; disabling it clears their
+   * deadlines.
+   */
+  static async updateSettings(
+    companyId: string,
+    data: {
+      isEnabled: boolean;
+      stepSlaHours: number;
+      reminderBeforeHours: number;
+      escalationTarget: EscalationTarget;
+      fallbackApproverId?: string | null;
+    },
+    updatedById: string
+  ): Promise<ServiceResult<ApprovalSlaSettingsPublic>> {
+    try {
+      const fallbackApproverId = data.fallbackApproverId ?? null;
+
+      if (fallbackApproverId) {
+        const fallbackApprover = await prisma.user.findFirst({
+          where: {
+            id: fallbackApproverId,
+            companyId,
+            role: { in: ["MANAGER", "ADMIN"] },
+          },
+        });
+
+        if (!fallbackApprover) {
+          return {
+            success: false,
+            error: {
+              message:
+                "Fallback approver must be a manager or admin in this company",
+              code: "INVALID_FALLBACK_APPROVER",
+            },
+          };
+        }
+      }
+
+      const settingsData = {
+        isEnabled: data.isEnabled,
+        stepSlaHours: data.stepSlaHours,
+        reminderBeforeHours: data.reminderBeforeHours,
+        escalationTarget: data.escalationTarget,
+        fallbackApproverId,
+      };
+
+      const now = new Date();
+      await prisma.$transaction([
+        prisma.approvalSlaSettings.upsert({
+          where: { companyId },
+          create: { companyId, ...settingsData },
+          update: settingsData,
+        }),
+        prisma.expenseApproval.updateMany({
+          where: {
+            status: "PENDING",
+            ...companyApprovalStepsWhere(companyId),
+            ...(data.isEnabled ? { dueAt: null } : {}),
+          },
+          data: {
+            dueAt: data.isEnabled
+              ? new Date(now.getTime() + data.stepSlaHours * HOUR_MS)
+              : null,
+          },
+        }),
+      ]);
+
+      businessLogger.logUserAction("approval_sla_updated", updatedById, {
+        companyId,
+        ...settingsData,
+      });
+
+      return this.getSettings(companyId);
+    } catch (error) {
+      businessLogger.error(
+        "Failed to update approval SLA settings",
+        error as Error,
+        { companyId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to update approval SLA settings",
+          code: "SLA_SETTINGS_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Deadline for a step activated at `from`, or null when the company has
+   * no active SLA
+   */
+  static async getDueAt(
+    companyId: string,
+    from: Date = new Date()
+  ): Promise<Date | null> {
+    const settings = await prisma.approvalSlaSettings.findUnique({
+      where: { companyId },
+      select: { isEnabled: true, stepSlaHours: true },
+    });
+
+    if (!settings?.isEnabled) {
+      return null;
+    }
+
+    return new Date(from.getTime() + settings.stepSlaHours * HOUR_MS);
+  }
+
+  /**
+   * Send reminders for steps nearing their deadline and escalate the ones
+   * past it. Run periodically by the approval SLA queue.
+   */
+  static async processApprovalSlas(
+    now: Date = new Date()
+  ): Promise<ApprovalSlaRunResult> {
+    const result: ApprovalSlaRunResult = {
+      reminded: 0,
+      escalated: 0,
+      unresolved: 0,
+    };
+
+    const companies = await prisma.approvalSlaSettings.findMany({
+      where: { isEnabled: true },
+    });
+
+    for (const settings of companies) {
+      try {
+        result.reminded += await this.sendDueReminders(settings, now);
+
+        const escalation = await this.escalateOverdueSteps(settings, now);
+        result.escalated += escalation.escalated;
+        result.unresolved += escalation.unresolved;
+      } catch (error) {
+        businessLogger.error(
+          "Failed to process approval SLAs",
+          error as Error,
+          { companyId: settings.companyId }
+        );
+      }
+    }
+
+    businessLogger.logSystemEvent("approval_sla_run", result);
+
+    return result;
+  }
+
+  /**
+   * Remind approvers once when a step enters the reminder window
+   */
+  private static async sendDueReminders(
+    settings: SlaSettingsRow,
+    now: Date
+  ): Promise<number> {
+    if (settings.reminderBeforeHours === 0) {
+      return 0;
+    }
+
+    const steps = await prisma.expenseApproval.findMany({
+      where: {
+        status: "PENDING",
+        reminderSentAt: null,
+        ...companyApprovalStepsWhere(settings.companyId),
+        dueAt: {
+          gt: now,
+          lte: new Date(now.getTime() + settings.reminderBeforeHours * HOUR_MS),
+        },
+      },
+      include: pendingStepInclude,
+    });
+
+    const { notifications } = toCompanySettingsValues(
+      await prisma.companySettings.findUnique({
+        where: { companyId: settings.companyId },
+      })
+    );
+
+    for (const step of steps) {
+      const summary = summarizeApprovalSubject(step);
+      const hoursLeft = Math.max(
+        1,
+        Math.round((step.dueAt!.getTime() - now.getTime()) / HOUR_MS)
+      );
+
+      await NotificationService.createNotification({
+        userId: step.approverId,
+        type: "APPROVAL_REQUIRED",
+        title: "Approval due soon",
+        message: `${summary.submitter.name}'s ${summary.label} must be reviewed within ${hoursLeft} hour(s)`,
+        data: {
+          ...approvalSubjectWhere(getApprovalSubject(step)),
+          approvalId: step.id,
+          dueAt: step.dueAt!.toISOString(),
+        },
+      });
+
+      if (notifications.emailSlaReminders) {
+        await sendEmail({
+          to: step.approver.email,
+          subject: `Reminder: ${summary.noun} approval due soon`,
+          html: `
+            <h2>An ${summary.noun} approval is due soon</h2>
+            <p>Submitted by: ${summary.submitter.name}</p>
+            <p>${summary.heading}: ${summary.title}</p>
+            <p>Amount: ${summary.currency} ${summary.amount}</p>
+            <p>Due: ${step.dueAt!.toUTCString()}</p>
+            <p>If it is not reviewed by then it will be escalated.</p>
+          `,
+        }).catch((error) => {
+          businessLogger.error("Failed to send approval reminder email", error);
+        });
+      }
+
+      await prisma.expenseApproval.update({
+        where: { id: step.id },
+        data: { reminderSentAt: now },
+      });
+    }
+
+    return steps.length;
+  }
+
+  /**
+   * Reassign overdue steps to the escalation target. Steps with no valid
+   * target keep their overdue deadline and are retried only after the
+   * settings change.
+   */
+  private static async escalateOverdueSteps(
+    settings: SlaSettingsRow,
+    now: Date
+  ): Promise<{ escalated: number; unresolved: number }> {
+    const overdueSteps = await prisma.expenseApproval.findMany({
+      where: {
+        status: "PENDING",
+        ...companyApprovalStepsWhere(settings.companyId),
+        dueAt: { lte: now },
+      },
+      include: pendingStepInclude,
+    });
+
+    let escalated = 0;
+    let unresolved = 0;
+
+    for (const step of overdueSteps) {
+      // A failed attempt is stamped after the deadline
+      if (
+        step.escalatedAt &&
+        step.dueAt &&
+        step.escalatedAt >= step.dueAt &&
+        step.escalatedAt >= settings.updatedAt
+      ) {
+        continue;
+      }
+
+      const targetId = await this.resolveEscalationTarget(step, settings);
+
+      if (!targetId) {
+        await prisma.expenseApproval.update({
+          where: { id: step.id },
+          data: { escalatedAt: now },
+        });
+
+        businessLogger.warn("No escalation target for overdue approval", {
+          approvalId: step.id,
+          expenseId: step.expenseId,
+          reportId: step.reportId,
+          advanceId: step.advanceId,
+          approverId: step.approverId,
+          companyId: settings.companyId,
+        });
+        unresolved++;
+        continue;
+      }
+
+      // Guard against the approver acting while the job runs
+      const updated = await prisma.expenseApproval.updateMany({
+        where: {
+          id: step.id,
+          approverId: step.approverId,
+          status: "PENDING",
+        },
+        data: {
+          approverId: targetId,
+          escalatedFromId: step.approverId,
+          escalatedAt: now,
+          activatedAt: now,
+          dueAt: new Date(now.getTime() + settings.stepSlaHours * HOUR_MS),
+          reminderSentAt: null,
+        },
+      });
+
+      if (updated.count === 0) {
+        continue;
+      }
+
+      await this.notifyEscalation(step, targetId);
+
+      businessLogger.logApprovalEvent(
+        "escalated",
+        step.id,
+        step.expenseId,
+        targetId,
+        {
+          reportId: step.reportId,
+          advanceId: step.advanceId,
+          previousApproverId: step.approverId,
+          escalationTarget: settings.escalationTarget,
+        }
+      );
+      escalated++;
+    }
+
+    return { escalated, unresolved };
+  }
+
+  /**
+   * Pick who an overdue step goes to: the approver's manager (MANAGER mode)
+   * with the fallback approver as a backstop. Candidates must be managers or
+   * admins in the company, must not be the submitter and must not already
+   * hold an open step for the same rule.
+   */
+  private static async resolveEscalationTarget(
+    step: PendingStep,
+    settings: SlaSettingsRow
+  ): Promise<string | null> {
+    const candidateIds: string[] = [];
+    const { submitterId } = summarizeApprovalSubject(step);
+
+    if (settings.escalationTarget === "MANAGER" && step.approver.managerId) {
+      candidateIds.push(step.approver.managerId);
+    }
+    if (settings.fallbackApproverId) {
+      candidateIds.push(settings.fallbackApproverId);
+    }
+
+    for (const candidateId of candidateIds) {
+      if (
+        candidateId === step.approverId ||
+        candidateId === submitterId
+      ) {
+        continue;
+      }
+
+      const candidate = await prisma.user.findFirst({
+        where: {
+          id: candidateId,
+          companyId: settings.companyId,
+          role: { in: ["MANAGER", "ADMIN"] },
+        },
+        select: { id: true },
+      });
+
+      if (!candidate) continue;
+
+      const existingStep = await prisma.expenseApproval.findFirst({
+        where: {
+          ...approvalSubjectWhere(getApprovalSubject(step)),
+          ruleId: step.ruleId,
+          approverId: candidateId,
+          status: { in: ["PENDING", "WAITING"] },
+        },
+        select: { id: true },
+      });
+
+      if (!existingStep) {
+        return candidateId;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Tell the new approver about the escalated step and the previous approver
+   * that it has been taken off their queue
+   */
+  private static async notifyEscalation(
+    step: PendingStep,
+    targetId: string
+  ): Promise<void> {
+    const target = await prisma.user.findUnique({
+      where: { id: targetId },
+      select: { email: true },
+    });
+    const summary = summarizeApprovalSubject(step);
+    const subjectData = approvalSubjectWhere(getApprovalSubject(step));
+
+    await NotificationService.createNotification({
+      userId: targetId,
+      type: "APPROVAL_REQUIRED",
+      title: "Overdue approval escalated to you",
+      message: `${summary.submitter.name}'s ${summary.label} was not reviewed by ${step.approver.name} in time and now needs your approval`,
+      data: {
+        ...subjectData,
+        approvalId: step.id,
+        escalatedFromId: step.approverId,
+      },
+    });
+
+    await NotificationService.createNotification({
+      userId: step.approverId,
+      type: "SYSTEM_NOTIFICATION",
+      title: "Approval escalated",
+      message: `Your approval of "${summary.title}" passed its deadline and was reassigned`,
+      data: {
+        ...subjectData,
+        approvalId: step.id,
+      },
+    });
+
+    if (target) {
+      await sendEmail({
+        to: target.email,
+        subject: `Overdue ${summary.noun} approval escalated to you`,
+        html: `
+          <h2>An overdue ${summary.noun} approval was escalated to you</h2>
+          <p>Submitted by: ${summary.submitter.name}</p>
+          <p>${summary.heading}: ${summary.title}</p>
+          <p>Amount: ${summary.currency} ${summary.amount}</p>
+          <p>Previously assigned to: ${step.approver.name}</p>
+        `,
+      }).catch((error) => {
+        businessLogger.error("Failed to send escalation email", error);
+      });
+    }
+  }
+}
+
+export default ApprovalSlaService;
@@ -1,7 +1,9 @@
 import { prisma } from "@/lib/prisma";
+import type { AdvanceStatus, Expense, Prisma } from "@prisma/client";
 import {
   ApprovalPublic,
   ApprovalStatus,
+  ExpenseStatus,
   ServiceResult,
   PaginatedResult,
   PaginationParams,
@@ -9,6 +11,67 @@ import {
 import { businessLogger } from "@/middleware/logger";
 import { businessMetrics } from "@/middleware/metrics";
 import { sendEmail } from "@/lib/email";
+import { NotificationService } from "./notification-simple.service";
+import { DelegationService } from "./delegation.service";
+import { ApprovalSlaService } from "./approval-sla.service";
+import { CompanyService } from "./company.service";
+import { EventBus } from "./event-bus.service";
+import { AuditService } from "./audit.service";
+import {
+  ApprovalRuleConditionGroup,
+  ApprovalRuleContext,
+  ruleMatches,
+  selectApplicableRules,
+} from "@/lib/approval-rules";
+import { evaluateRuleQuorum, RuleQuorumOutcome } from "@/lib/approval-chain";
+import { toExpenseEventData } from "@/lib/webhooks";
+import {
+  ApprovalSubject,
+  approvalSubjectWhere,
+  companyApprovalStepsWhere,
+  getApprovalSubject,
+  summarizeApprovalSubject,
+} from "@/lib/expense-reports";
+import {
+  DEFAULT_COMPANY_SETTINGS,
+  type NotificationSettings,
+} from "@/lib/company-settings";
+
+// What a step is about: its expense, expense report or cash advance, with
+// the submitter
+const SUBJECT_INCLUDE = {
+  expense: {
+    include: {
+      submitter: true,
+    },
+  },
+  report: {
+    include: {
+      submitter: true,
+    },
+  },
+  advance: {
+    include: {
+      submitter: true,
+    },
+  },
+} as const;
+
+// How an approval chain stands after a decision
+interface ChainCompletion {
+  // The status the chain resolved to
+  status: string;
+  // Set only for the decision that moved the subject to its final status
+  completed: boolean;
+  // Expenses that left approval with it, to publish once committed
+  decidedExpenses: Expense[];
+  reportId: string | null;
+}
+
+interface ChainSettlement extends ChainCompletion {
+  // Steps of the next stage opened by the decision
+  activatedIds: string[];
+}
 
 export class ApprovalService {
   // Create approval request
@@ -69,6 +132,11 @@ export class ApprovalService {
               category: true,
             },
           },
+          report: {
+            include: {
+              submitter: true,
+            },
+          },
           approver: true,
         },
       });
@@ -101,15 +169,30 @@ export class ApprovalService {
     }
   }
 
-  // Get pending approvals for an approver
+  // Get pending approvals for an approver, including those delegated to them
   static async getPendingApprovals(
     approverId: string,
     pagination: PaginationParams
   ): Promise<ServiceResult<PaginatedResult<ApprovalPublic>>> {
     try {
+      const delegatorIds = await DelegationService.getActiveDelegatorIds(
+        approverId
+      );
+
+      // Steps delegated to the approver, except on their own submissions
       const where = {
-        approverId,
         status: "PENDING" as ApprovalStatus,
+        OR: [
+          { approverId },
+          {
+            approverId: { in: delegatorIds },
+            NOT: [
+              { expense: { submitterId: approverId } },
+              { report: { submitterId: approverId } },
+              { advance: { submitterId: approverId } },
+            ],
+          },
+        ],
       };
 
       const total = await prisma.expenseApproval.count({ where });
@@ -123,13 +206,20 @@ export class ApprovalService {
               category: true,
             },
           },
+          report: {
+            include: {
+              submitter: true,
+            },
+          },
           approver: true,
         },
         skip: pagination.offset,
         take: pagination.limit,
-        orderBy: {
-          processedAt: "desc",
-        },
+        // Closest SLA deadline first
+        orderBy: [
+          { dueAt: { sort: "asc", nulls: "last" } },
+          { processedAt: "desc" },
+        ],
       });
 
       const approvalPublics = approvals.map((approval) =>
@@ -169,62 +259,89 @@ export class ApprovalService {
     comment?: string
   ): Promise<ServiceResult<ApprovalPublic>> {
     try {
-      // Update approval
-      const approval = await prisma.expenseApproval.update({
-        where: { id: approvalId },
-        data: {
-          status: "APPROVED" as ApprovalStatus,
-          comments: comment,
-          processedAt: new Date(),
-        },
-        include: {
-          expense: {
-            include: {
-              submitter: true,
+      // Only the assigned approver (or their active delegate) can act, and
+      // only while the step is current. The expense (or report) only moves
+      // once the whole chain has finished; otherwise the next approver of a
+      // sequential rule gets their turn
+      const acting = await this.resolveActingApprover(approvalId, approverId);
+
+      const settlement = acting
+        ? await this.decideStep(
+            approvalId,
+            acting,
+            {
+              status: "APPROVED" as ApprovalStatus,
+              comments: comment,
             },
+            approverId
+          )
+        : null;
+
+      if (!settlement) {
+        return {
+          success: false,
+          error: {
+            message: "Approval is not awaiting a decision from this approver",
+            code: "APPROVAL_NOT_ACTIONABLE",
           },
-          approver: true,
-        },
-      });
+        };
+      }
 
-      // Update expense status
-      await prisma.expense.update({
-        where: { id: approval.expenseId },
-        data: {
-          status: "APPROVED",
+      const approval = await prisma.expenseApproval.findUniqueOrThrow({
+        where: { id: approvalId },
+        include: {
+          ...SUBJECT_INCLUDE,
+          approver: true,
         },
       });
+      const subject = getApprovalSubject(approval);
+      const summary = summarizeApprovalSubject(approval);
+      const finalStatus = settlement.status;
 
       // Record metrics
       businessMetrics.expenseApproved(
-        Number(approval.expense.amount),
-        approval.expense.currency,
+        summary.amount,
+        summary.currency,
         approverId
       );
 
-      // Send notification email to submitter
-      await sendEmail({
-        to: approval.expense.submitter.email,
-        subject: "Expense Approved",
-        html: `
-          <h2>Your expense has been approved!</h2>
-          <p>Expense: ${approval.expense.description}</p>
-          <p>Amount: ${approval.expense.currency} ${Number(
-          approval.expense.amount
-        )}</p>
-        `,
-      });
+      if (
+        settlement.completed &&
+        finalStatus === "APPROVED" &&
+        (await this.getEmailSettings(summary.companyId)).emailDecisions
+      ) {
+        // Send notification email to submitter
+        await sendEmail({
+          to: summary.submitter.email,
+          subject: `${summary.heading} Approved`,
+          html: `
+            <h2>Your ${summary.noun} has been approved!</h2>
+            <p>${summary.heading}: ${summary.title}</p>
+            <p>Amount: ${summary.currency} ${summary.amount}</p>
+          `,
+        }).catch((error) => {
+          businessLogger.error("Failed to send approval email", error);
+        });
+      }
 
       businessLogger.info("Expense approved", {
         approvalId,
-        expenseId: approval.expenseId,
+        ...subject,
         approverId,
         comment,
+        expenseStatus: finalStatus,
       });
 
+      await this.recordStepDecision(
+        approval,
+        summary.companyId,
+        approverId,
+        finalStatus
+      );
+
       return {
         success: true,
-        data: this.toPublicApproval(approval),
+        data: this.toPublicApproval(await this.reloadApproval(approvalId)),
       };
     } catch (error) {
       businessLogger.error("Failed to approve expense", error as Error, {
@@ -247,66 +364,88 @@ export class ApprovalService {
     comment: string
   ): Promise<ServiceResult<ApprovalPublic>> {
     try {
-      // Update approval
-      const approval = await prisma.expenseApproval.update({
-        where: { id: approvalId },
-        data: {
-          status: "REJECTED" as ApprovalStatus,
-          comments: comment,
-          processedAt: new Date(),
-        },
-        include: {
-          expense: {
-            include: {
-              submitter: true,
+      const acting = await this.resolveActingApprover(approvalId, approverId);
+
+      // A single rejection only ends the chain when the rule can no longer
+      // reach its quorum; otherwise the next approver gets their turn
+      const settlement = acting
+        ? await this.decideStep(
+            approvalId,
+            acting,
+            {
+              status: "REJECTED" as ApprovalStatus,
+              comments: comment,
             },
+            approverId
+          )
+        : null;
+
+      if (!settlement) {
+        return {
+          success: false,
+          error: {
+            message: "Approval is not awaiting a decision from this approver",
+            code: "APPROVAL_NOT_ACTIONABLE",
           },
-          approver: true,
-        },
-      });
+        };
+      }
 
-      // Update expense status
-      await prisma.expense.update({
-        where: { id: approval.expenseId },
-        data: {
-          status: "REJECTED",
+      const approval = await prisma.expenseApproval.findUniqueOrThrow({
+        where: { id: approvalId },
+        include: {
+          ...SUBJECT_INCLUDE,
+          approver: true,
         },
       });
+      const summary = summarizeApprovalSubject(approval);
+      const finalStatus = settlement.status;
 
       // Record metrics
-      businessMetrics.expenseRejected(
-        Number(approval.expense.amount),
-        approval.expense.currency,
-        comment
-      );
-
-      // Send notification email to expense owner
-      await sendEmail({
-        to: approval.expense.submitter.email,
-        subject: "Expense Rejected",
-        html: `
-          <h2>Your expense has been rejected</h2>
-          <p>Expense: ${approval.expense.description}</p>
-          <p>Amount: ${approval.expense.currency} ${Number(
-          approval.expense.amount
-        )}</p>
-          <p>Reason: ${comment}</p>
-        `,
-      }).catch((error) => {
-        businessLogger.error("Failed to send rejection email", error);
-      });
+      businessMetrics.expenseRejected(summary.amount, summary.currency, comment);
+
+      if (
+        settlement.completed &&
+        finalStatus === "REJECTED" &&
+        (await this.getEmailSettings(summary.companyId)).emailDecisions
+      ) {
+        // Send notification email to expense owner
+        await sendEmail({
+          to: summary.submitter.email,
+          subject: `${summary.heading} Rejected`,
+          html: `
+            <h2>Your ${summary.noun} has been rejected</h2>
+            <p>${summary.heading}: ${summary.title}</p>
+            <p>Amount: ${summary.currency} ${summary.amount}</p>
+            <p>Reason: ${comment}</p>
+          `,
+        }).catch((error) => {
+          businessLogger.error("Failed to send rejection email", error);
+        });
+      }
 
       businessLogger.logApprovalEvent(
         "rejected",
         approvalId,
         approval.expenseId,
         approverId,
-        { comment }
+        {
+          comment,
+          reportId: approval.reportId,
+          advanceId: approval.advanceId,
+          expenseStatus: finalStatus,
+        }
+      );
+
+      await this.recordStepDecision(
+        approval,
+        summary.companyId,
+        approverId,
+        finalStatus
       );
 
       return {
         success: true,
-        data: this.toPublicApproval(approval),
+        data: this.toPublicApproval(await this.reloadApproval(approvalId)),
       };
     } catch (error) {
       businessLogger.error("Failed to reject expense", error as Error, {
@@ -322,6 +461,590 @@ export class ApprovalService {
     }
   }
 
+  /**
+   * Record a decision on a pending step and settle the chain in the same
+   * transaction: close steps that are no longer needed, then either move the
+   * subject to its final status or open the rule's next stage. The subject's
+   * row is locked first, so concurrent decisions on one expense, report or
+   * advance see each other and only one of them completes the chain. Events
+   * and notifications go out once the transaction has committed.
+   * Returns null when the step isn't awaiting a decision from the approver.
+   */
+  private static async decideStep(
+    approvalId: string,
+    acting: { approverId: string; actedById: string | null },
+    decision: { status: ApprovalStatus; comments?: string },
+    actorId: string
+  ): Promise<ChainSettlement | null> {
+    const step = await prisma.expenseApproval.findUnique({
+      where: { id: approvalId },
+      select: { expenseId: true, reportId: true, advanceId: true, ruleId: true },
+    });
+
+    if (!step) {
+      return null;
+    }
+
+    const subject = getApprovalSubject(step);
+
+    const settlement = await prisma.$transaction(async (tx) => {
+      await this.lockSubject(tx, subject);
+
+      const decided = await tx.expenseApproval.updateMany({
+        where: {
+          id: approvalId,
+          approverId: acting.approverId,
+          status: "PENDING" as ApprovalStatus,
+        },
+        data: {
+          ...decision,
+          actedById: acting.actedById,
+          processedAt: new Date(),
+        },
+      });
+
+      if (decided.count === 0) {
+        return null;
+      }
+
+      const completion = await this.applyApprovalCompletion(tx, subject);
+      const activatedIds =
+        completion.status === "PENDING_APPROVAL"
+          ? await this.activateNextStep(tx, subject, step.ruleId)
+          : [];
+
+      return { ...completion, activatedIds };
+    });
+
+    if (!settlement) {
+      return null;
+    }
+
+    await this.publishCompletion(settlement, actorId);
+    await this.notifyActivatedSteps(settlement.activatedIds);
+
+    return settlement;
+  }
+
+  /**
+   * Lock the expense, report or advance an approval chain belongs to until
+   * the transaction ends
+   */
+  private static async lockSubject(
+    tx: Prisma.TransactionClient,
+    subject: ApprovalSubject
+  ): Promise<void> {
+    if ("reportId" in subject) {
+      await tx.$queryRaw`SELECT "id" FROM "ExpenseReport" WHERE "id" = ${subject.reportId} FOR UPDATE`;
+    } else if ("advanceId" in subject) {
+      await tx.$queryRaw`SELECT "id" FROM "Advance" WHERE "id" = ${subject.advanceId} FOR UPDATE`;
+    } else {
+      await tx.$queryRaw`SELECT "id" FROM "Expense" WHERE "id" = ${subject.expenseId} FOR UPDATE`;
+    }
+  }
+
+  /**
+   * Open the next stage of a rule's chain once its current stage has been
+   * decided. Only steps still waiting are opened, so a stage is activated
+   * once. Returns the activated step ids.
+   */
+  private static async activateNextStep(
+    tx: Prisma.TransactionClient,
+    subject: ApprovalSubject,
+    ruleId: string | null
+  ): Promise<string[]> {
+    if (!ruleId) {
+      return [];
+    }
+
+    // Parallel approvers share a stage; wait until all of them have decided
+    const openSteps = await tx.expenseApproval.count({
+      where: {
+        ...approvalSubjectWhere(subject),
+        ruleId,
+        status: "PENDING" as ApprovalStatus,
+      },
+    });
+
+    if (openSteps > 0) {
+      return [];
+    }
+
+    const nextStep = await tx.expenseApproval.findFirst({
+      where: {
+        ...approvalSubjectWhere(subject),
+        ruleId,
+        status: "WAITING" as ApprovalStatus,
+      },
+      orderBy: {
+        stepOrder: "asc",
+      },
+    });
+
+    if (!nextStep) {
+      return [];
+    }
+
+    const stage = await tx.expenseApproval.findMany({
+      where: {
+        ...approvalSubjectWhere(subject),
+        ruleId,
+        stepOrder: nextStep.stepOrder,
+        status: "WAITING" as ApprovalStatus,
+      },
+      select: { id: true },
+    });
+
+    const owner = await this.getSubjectOwner(subject);
+    if (!owner) {
+      throw new Error("Approval subject not found");
+    }
+    const activatedAt = new Date();
+    const dueAt = await ApprovalSlaService.getDueAt(owner.companyId, activatedAt);
+
+    const activatedIds: string[] = [];
+    for (const step of stage) {
+      const activated = await tx.expenseApproval.updateMany({
+        where: {
+          id: step.id,
+          status: "WAITING" as ApprovalStatus,
+        },
+        data: {
+          status: "PENDING" as ApprovalStatus,
+          activatedAt,
+          dueAt,
+        },
+      });
+
+      if (activated.count === 1) {
+        activatedIds.push(step.id);
+      }
+    }
+
+    return activatedIds;
+  }
+
+  /**
+   * Notify the approvers of newly activated steps
+   */
+  private static async notifyActivatedSteps(
+    approvalIds: string[]
+  ): Promise<void> {
+    for (const approvalId of approvalIds) {
+      const activated = await prisma.expenseApproval.findUniqueOrThrow({
+        where: { id: approvalId },
+        include: {
+          ...SUBJECT_INCLUDE,
+          approver: true,
+        },
+      });
+
+      await this.notifyApprovalRequired(activated);
+
+      businessLogger.logApprovalEvent(
+        "activated",
+        activated.id,
+        activated.expenseId,
+        activated.approverId,
+        {
+          ruleId: activated.ruleId,
+          reportId: activated.reportId,
+          advanceId: activated.advanceId,
+          stepOrder: activated.stepOrder,
+        }
+      );
+    }
+  }
+
+  /**
+   * Tell an approver that an expense, report or advance is waiting on their
+   * decision
+   */
+  private static async notifyApprovalRequired(
+    approval: {
+      id: string;
+      expenseId: string | null;
+      reportId: string | null;
+      advanceId: string | null;
+      approverId: string;
+      approver: { email: string };
+    } & Parameters<typeof summarizeApprovalSubject>[0]
+  ): Promise<void> {
+    const summary = summarizeApprovalSubject(approval);
+
+    await NotificationService.createNotification({
+      userId: approval.approverId,
+      type: "APPROVAL_REQUIRED",
+      title: "Approval required",
+      message: `${summary.submitter.name}'s ${summary.label} is waiting for your approval`,
+      data: {
+        ...approvalSubjectWhere(getApprovalSubject(approval)),
+        approvalId: approval.id,
+      },
+    });
+
+    const emailSettings = await this.getEmailSettings(summary.companyId);
+    if (!emailSettings.emailApprovalRequests) {
+      return;
+    }
+
+    await sendEmail({
+      to: approval.approver.email,
+      subject: `${summary.heading} awaiting your approval`,
+      html: `
+        <h2>An ${summary.noun} is waiting for your approval</h2>
+        <p>Submitted by: ${summary.submitter.name}</p>
+        <p>${summary.heading}: ${summary.title}</p>
+        <p>Amount: ${summary.currency} ${summary.amount}</p>
+      `,
+    }).catch((error) => {
+      businessLogger.error("Failed to send approval request email", error);
+    });
+  }
+
+  /**
+   * The company's email notification settings. Emails go out as by default
+   * when the settings can't be read.
+   */
+  private static async getEmailSettings(
+    companyId: string
+  ): Promise<NotificationSettings> {
+    try {
+      const settings = await CompanyService.getSettingsValues(companyId);
+      return settings.notifications;
+    } catch (error) {
+      businessLogger.error("Failed to load notification settings", error as Error, {
+        companyId,
+      });
+      return DEFAULT_COMPANY_SETTINGS.notifications;
+    }
+  }
+
+  /**
+   * Close steps that no longer need a decision and move the expense (or
+   * report, or advance) to its final status once its approval chain has
+   * finished. The subject only moves while it is still pending approval, so
+   * of two decisions completing the same chain only one reports it.
+   */
+  private static async applyApprovalCompletion(
+    tx: Prisma.TransactionClient,
+    subject: ApprovalSubject
+  ): Promise<ChainCompletion> {
+    const completion = await this.checkApprovalCompletion(subject, tx);
+
+    if (!completion.success || !completion.data) {
+      throw new Error("Failed to check approval completion");
+    }
+
+    const { isComplete, status, ruleOutcomes } = completion.data;
+    const closedAt = new Date();
+    const openStatuses = ["PENDING", "WAITING"] as ApprovalStatus[];
+
+    // Rules that reached their quorum don't need the remaining approvers
+    for (const rule of ruleOutcomes) {
+      if (rule.outcome !== "approved") continue;
+
+      await tx.expenseApproval.updateMany({
+        where: {
+          ...approvalSubjectWhere(subject),
+          ruleId: rule.ruleId,
+          status: { in: openStatuses },
+        },
+        data: {
+          status: "SUPERSEDED" as ApprovalStatus,
+          processedAt: closedAt,
+        },
+      });
+    }
+
+    // A failed rule ends the chain: close every step that is still open
+    if (status === "REJECTED") {
+      await tx.expenseApproval.updateMany({
+        where: {
+          ...approvalSubjectWhere(subject),
+          status: { in: openStatuses },
+        },
+        data: {
+          status: "SKIPPED" as ApprovalStatus,
+          processedAt: closedAt,
+        },
+      });
+    }
+
+    const pending: ChainCompletion = {
+      status,
+      completed: false,
+      decidedExpenses: [],
+      reportId: null,
+    };
+
+    if (!isComplete) {
+      return pending;
+    }
+
+    if ("reportId" in subject) {
+      const decidedExpenses = await this.completeReport(
+        tx,
+        subject.reportId,
+        status
+      );
+
+      return decidedExpenses
+        ? {
+            status,
+            completed: true,
+            decidedExpenses,
+            reportId: subject.reportId,
+          }
+        : pending;
+    }
+
+    if ("advanceId" in subject) {
+      // Approved advances wait for an administrator to pay them out
+      const decided = await tx.advance.updateMany({
+        where: {
+          id: subject.advanceId,
+          status: "PENDING_APPROVAL" as AdvanceStatus,
+        },
+        data: {
+          status: status as AdvanceStatus,
+          decidedAt: new Date(),
+        },
+      });
+
+      return { ...pending, completed: decided.count === 1 };
+    }
+
+    const decided = await tx.expense.updateMany({
+      where: {
+        id: subject.expenseId,
+        status: "PENDING_APPROVAL" as ExpenseStatus,
+      },
+      data: {
+        status: status as ExpenseStatus,
+      },
+    });
+
+    if (decided.count === 0) {
+      return pending;
+    }
+
+    const expense = await tx.expense.findUniqueOrThrow({
+      where: { id: subject.expenseId },
+    });
+
+    return { ...pending, completed: true, decidedExpenses: [expense] };
+  }
+
+  /**
+   * Move a decided report and its expenses to the chain's final status.
+   * Expenses an approver rejected individually stay rejected. Returns the
+   * expenses that were decided, or null when the report was no longer
+   * pending approval.
+   */
+  private static async completeReport(
+    tx: Prisma.TransactionClient,
+    reportId: string,
+    status: string
+  ): Promise<Expense[] | null> {
+    const decided = await tx.expenseReport.updateMany({
+      where: {
+        id: reportId,
+        status: "PENDING_APPROVAL" as ExpenseStatus,
+      },
+      data: {
+        status: status as ExpenseStatus,
+        decidedAt: new Date(),
+      },
+    });
+
+    if (decided.count === 0) {
+      return null;
+    }
+
+    const expenses = await tx.expense.findMany({
+      where: {
+        reportId,
+        status: "PENDING_APPROVAL" as ExpenseStatus,
+      },
+      select: { id: true },
+    });
+
+    const decidedExpenses: Expense[] = [];
+    for (const { id } of expenses) {
+      decidedExpenses.push(
+        await tx.expense.update({
+          where: { id },
+          data: {
+            status: status as ExpenseStatus,
+          },
+        })
+      );
+    }
+
+    return decidedExpenses;
+  }
+
+  /**
+   * Publish and audit the expenses a completed chain decided
+   */
+  private static async publishCompletion(
+    completion: ChainCompletion,
+    actorId: string | null
+  ): Promise<void> {
+    for (const expense of completion.decidedExpenses) {
+      await EventBus.publish(
+        expense.status === "APPROVED" ? "expense.approved" : "expense.rejected",
+        expense.companyId,
+        toExpenseEventData(expense),
+        actorId
+      );
+
+      await this.recordExpenseDecision(
+        expense,
+        actorId,
+        completion.reportId ? { reportId: completion.reportId } : undefined
+      );
+    }
+  }
+
+  /**
+   * Audit an expense leaving approval with the chain's final status
+   */
+  private static async recordExpenseDecision(
+    expense: { id: string; companyId: string; status: string },
+    actorId: string | null,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    await AuditService.record({
+      companyId: expense.companyId,
+      entityType: "EXPENSE",
+      entityId: expense.id,
+      action: expense.status.toLowerCase(),
+      before: { status: "PENDING_APPROVAL" },
+      after: { status: expense.status },
+      metadata,
+      actorId,
+    });
+  }
+
+  /**
+   * Audit an approver's decision on their step
+   */
+  private static async recordStepDecision(
+    approval: {
+      id: string;
+      expenseId: string | null;
+      reportId: string | null;
+      advanceId: string | null;
+      ruleId: string | null;
+      approverId: string;
+      status: string;
+      comments: string | null;
+    },
+    companyId: string,
+    actorId: string,
+    outcome: string
+  ): Promise<void> {
+    await AuditService.record({
+      companyId,
+      entityType: "APPROVAL",
+      entityId: approval.id,
+      expenseId: approval.expenseId,
+      action: approval.status.toLowerCase(),
+      before: { status: "PENDING", comments: null },
+      after: { status: approval.status, comments: approval.comments },
+      metadata: {
+        reportId: approval.reportId,
+        advanceId: approval.advanceId,
+        ruleId: approval.ruleId,
+        // Set when a delegate decided on the approver's behalf
+        onBehalfOf: approval.approverId !== actorId ? approval.approverId : null,
+        outcome,
+      },
+      actorId,
+    });
+  }
+
+  /**
+   * The submitter and company an expense, report or advance belongs to
+   */
+  private static async getSubjectOwner(
+    subject: ApprovalSubject
+  ): Promise<{ submitterId: string; companyId: string } | null> {
+    const select = { submitterId: true, companyId: true };
+    if ("reportId" in subject) {
+      return prisma.expenseReport.findUnique({
+        where: { id: subject.reportId },
+        select,
+      });
+    }
+    if ("advanceId" in subject) {
+      return prisma.advance.findUnique({
+        where: { id: subject.advanceId },
+        select,
+      });
+    }
+    return prisma.expense.findUnique({
+      where: { id: subject.expenseId },
+      select,
+    });
+  }
+
+  /**
+   * Work out whose step `actorId` is deciding: their own, or one delegated to
+   * them by the step's approver. Returns null when the actor may not act.
+   */
+  private static async resolveActingApprover(
+    approvalId: string,
+    actorId: string
+  ): Promise<{ approverId: string; actedById: string | null } | null> {
+    const approval = await prisma.expenseApproval.findUnique({
+      where: { id: approvalId },
+      select: {
+        approverId: true,
+        expense: { select: { submitterId: true } },
+        report: { select: { submitterId: true } },
+        advance: { select: { submitterId: true } },
+      },
+    });
+
+    if (!approval) {
+      return null;
+    }
+
+    if (approval.approverId === actorId) {
+      return { approverId: actorId, actedById: null };
+    }
+
+    // A delegate never decides on their own submission
+    const submitterId =
+      approval.expense?.submitterId ??
+      approval.report?.submitterId ??
+      approval.advance?.submitterId;
+    if (submitterId === actorId) {
+      return null;
+    }
+
+    const delegatorIds = await DelegationService.getActiveDelegatorIds(actorId);
+    if (delegatorIds.includes(approval.approverId)) {
+      return { approverId: approval.approverId, actedById: actorId };
+    }
+
+    return null;
+  }
+
+  private static async reloadApproval(approvalId: string) {
+    return prisma.expenseApproval.findUniqueOrThrow({
+      where: { id: approvalId },
+      include: {
+        ...SUBJECT_INCLUDE,
+        approver: true,
+        actedBy: true,
+      },
+    });
+  }
+
   // Get approvals for an expense
   static async getApprovalsForExpense(
     expenseId: string
@@ -331,10 +1054,10 @@ export class ApprovalService {
         where: { expenseId },
         include: {
           approver: true,
+          actedBy: true,
+          escalatedFrom: true,
         },
-        orderBy: {
-          processedAt: "asc",
-        },
+        orderBy: [{ createdAt: "asc" }, { stepOrder: "asc" }],
       });
 
       const approvalPublics = approvals.map((approval) =>
@@ -405,6 +1128,11 @@ export class ApprovalService {
               category: true,
             },
           },
+          report: {
+            include: {
+              submitter: true,
+            },
+          },
           approver: true,
         },
         skip: pagination.offset,
@@ -433,120 +1161,321 @@ export class ApprovalService {
         },
       };
     } catch (error) {
-      businessLogger.error("Failed to get approvals", error as Error);
+      businessLogger.error("Failed to get approvals", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve approvals",
+          code: "APPROVALS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  // Bulk approve expenses
+  static async bulkApproveExpenses(
+    approvalIds: string[],
+    approverId: string,
+    comment?: string
+  ): Promise<
+    ServiceResult<{ succeeded: number; failed: number; errors: any[] }>
+  > {
+    try {
+      const results = {
+        succeeded: 0,
+        failed: 0,
+        errors: [] as any[],
+      };
+
+      for (const approvalId of approvalIds) {
+        try {
+          const result = await this.approveExpense(
+            approvalId,
+            approverId,
+            comment
+          );
+          if (!result.success) {
+            throw new Error(result.error?.message);
+          }
+          results.succeeded++;
+        } catch (error) {
+          results.failed++;
+          results.errors.push({
+            approvalId,
+            error: (error as Error).message,
+          });
+        }
+      }
+
+      return {
+        success: true,
+        data: results,
+      };
+    } catch (error) {
+      businessLogger.error("Failed to bulk approve expenses", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to bulk approve expenses",
+          code: "BULK_APPROVAL_FAILED",
+        },
+      };
+    }
+  }
+
+  // Helper method to convert Approval to ApprovalPublic
+  private static toPublicApproval(approval: any): ApprovalPublic {
+    return approval as ApprovalPublic;
+  }
+
+  // Enhanced methods for approval workflow management
+
+  /**
+   * Evaluate which approval rules apply to an expense
+   */
+  static async evaluateApprovalRules(
+    expenseId: string,
+    companyId: string
+  ): Promise<ServiceResult<string[]>> {
+    try {
+      const expense = await prisma.expense.findFirst({
+        where: {
+          id: expenseId,
+          companyId,
+        },
+        include: {
+          submitter: true,
+          category: true,
+        },
+      });
+
+      if (!expense) {
+        return {
+          success: false,
+          error: {
+            message: "Expense not found",
+            code: "EXPENSE_NOT_FOUND",
+          },
+        };
+      }
+
+      // Get all active approval rules for the company
+      const rules = await prisma.approvalRule.findMany({
+        where: {
+          companyId,
+          isActive: true,
+        },
+        orderBy: {
+          priority: "asc",
+        },
+      });
+
+      const context = this.buildRuleContext(expense);
+      const applicableRuleIds = selectApplicableRules(rules, context).map(
+        (rule) => rule.id
+      );
+
+      businessLogger.info("Approval rules evaluated", {
+        expenseId,
+        evaluatedRules: rules.length,
+        applicableRuleIds,
+      });
+
+      return {
+        success: true,
+        data: applicableRuleIds,
+      };
+    } catch (error) {
+      businessLogger.error(
+        "Failed to evaluate approval rules",
+        error as Error,
+        {
+          expenseId,
+          companyId,
+        }
+      );
       return {
         success: false,
         error: {
-          message: "Failed to retrieve approvals",
-          code: "APPROVALS_FETCH_FAILED",
+          message: "Failed to evaluate approval rules",
+          code: "RULE_EVALUATION_FAILED",
         },
       };
     }
   }
 
-  // Bulk approve expenses
-  static async bulkApproveExpenses(
-    approvalIds: string[],
-    approverId: string,
-    comment?: string
-  ): Promise<
-    ServiceResult<{ succeeded: number; failed: number; errors: any[] }>
-  > {
+  /**
+   * Evaluate which approval rules apply to an expense report. The report is
+   * judged as a single claim; see buildReportRuleContext.
+   */
+  static async evaluateReportApprovalRules(
+    reportId: string,
+    companyId: string
+  ): Promise<ServiceResult<string[]>> {
     try {
-      const results = {
-        succeeded: 0,
-        failed: 0,
-        errors: [] as any[],
-      };
+      const report = await prisma.expenseReport.findFirst({
+        where: {
+          id: reportId,
+          companyId,
+        },
+        include: {
+          submitter: true,
+          expenses: {
+            select: {
+              amount: true,
+              baseAmount: true,
+              categoryId: true,
+            },
+          },
+        },
+      });
 
-      for (const approvalId of approvalIds) {
-        try {
-          await this.approveExpense(approvalId, approverId, comment);
-          results.succeeded++;
-        } catch (error) {
-          results.failed++;
-          results.errors.push({
-            approvalId,
-            error: (error as Error).message,
-          });
-        }
+      if (!report) {
+        return {
+          success: false,
+          error: {
+            message: "Expense report not found",
+            code: "REPORT_NOT_FOUND",
+          },
+        };
       }
 
+      const rules = await prisma.approvalRule.findMany({
+        where: {
+          companyId,
+          isActive: true,
+        },
+        orderBy: {
+          priority: "asc",
+        },
+      });
+
+      const context = this.buildReportRuleContext(report);
+      const applicableRuleIds = selectApplicableRules(rules, context).map(
+        (rule) => rule.id
+      );
+
+      businessLogger.info("Approval rules evaluated", {
+        reportId,
+        evaluatedRules: rules.length,
+        applicableRuleIds,
+      });
+
       return {
         success: true,
-        data: results,
+        data: applicableRuleIds,
       };
     } catch (error) {
-      businessLogger.error("Failed to bulk approve expenses", error as Error);
+      businessLogger.error(
+        "Failed to evaluate approval rules",
+        error as Error,
+        {
+          reportId,
+          companyId,
+        }
+      );
       return {
         success: false,
         error: {
-          message: "Failed to bulk approve expenses",
-          code: "BULK_APPROVAL_FAILED",
+          message: "Failed to evaluate approval rules",
+          code: "RULE_EVALUATION_FAILED",
         },
       };
     }
   }
 
-  // Helper method to convert Approval to ApprovalPublic
-  private static toPublicApproval(approval: any): ApprovalPublic {
-    return approval as ApprovalPublic;
-  }
+  /**
+   * Rule attributes for a report: the base currency total of its expenses,
+   * the category with the largest share of it, and the submitter
+   */
+  private static buildReportRuleContext(report: {
+    totalAmount: unknown;
+    currency: string | null;
+    expenses: { amount: unknown; baseAmount: unknown; categoryId: string }[];
+    submitter: { role: string; departmentId: string | null };
+  }): ApprovalRuleContext {
+    const categoryTotals = new Map<string, number>();
+    for (const expense of report.expenses) {
+      categoryTotals.set(
+        expense.categoryId,
+        (categoryTotals.get(expense.categoryId) ?? 0) +
+          Number(expense.baseAmount ?? expense.amount)
+      );
+    }
 
-  // Enhanced methods for approval workflow management
+    let categoryId = "";
+    let categoryTotal = -1;
+    for (const [id, total] of categoryTotals) {
+      if (total > categoryTotal) {
+        categoryId = id;
+        categoryTotal = total;
+      }
+    }
+
+    return {
+      amount: Number(report.totalAmount ?? 0),
+      currency: report.currency ?? "",
+      categoryId,
+      submitterRole: report.submitter.role,
+      departmentId: report.submitter.departmentId,
+    };
+  }
 
   /**
-   * Evaluate which approval rules apply to an expense
+   * Evaluate which approval rules apply to a cash advance. An advance has no
+   * category, so rules conditioned on one only match through "is none of".
    */
-  static async evaluateApprovalRules(
-    expenseId: string,
+  static async evaluateAdvanceApprovalRules(
+    advanceId: string,
     companyId: string
   ): Promise<ServiceResult<string[]>> {
     try {
-      const expense = await prisma.expense.findFirst({
+      const advance = await prisma.advance.findFirst({
         where: {
-          id: expenseId,
+          id: advanceId,
           companyId,
         },
         include: {
           submitter: true,
-          category: true,
         },
       });
 
-      if (!expense) {
+      if (!advance) {
         return {
           success: false,
           error: {
-            message: "Expense not found",
-            code: "EXPENSE_NOT_FOUND",
+            message: "Advance not found",
+            code: "ADVANCE_NOT_FOUND",
           },
         };
       }
 
-      // Get all active approval rules for the company
       const rules = await prisma.approvalRule.findMany({
         where: {
           companyId,
-          // TODO: Add isActive field to schema
+          isActive: true,
         },
-        include: {
-          approvers: {
-            include: {
-              approver: true,
-            },
-          },
+        orderBy: {
+          priority: "asc",
         },
       });
 
-      const applicableRuleIds: string[] = [];
+      const context: ApprovalRuleContext = {
+        amount: Number(advance.amount),
+        currency: advance.currency,
+        categoryId: "",
+        submitterRole: advance.submitter.role,
+        departmentId: advance.submitter.departmentId,
+      };
+      const applicableRuleIds = selectApplicableRules(rules, context).map(
+        (rule) => rule.id
+      );
 
-      for (const rule of rules) {
-        // Check amount threshold condition
-        // TODO: Parse conditions from database or add conditions field
-        // For now, assume all rules apply
-        applicableRuleIds.push(rule.id);
-      }
+      businessLogger.info("Approval rules evaluated", {
+        advanceId,
+        evaluatedRules: rules.length,
+        applicableRuleIds,
+      });
 
       return {
         success: true,
@@ -557,7 +1486,7 @@ export class ApprovalService {
         "Failed to evaluate approval rules",
         error as Error,
         {
-          expenseId,
+          advanceId,
           companyId,
         }
       );
@@ -572,15 +1501,138 @@ export class ApprovalService {
   }
 
   /**
-   * Create approval chain based on applicable rules
+   * Build the attributes approval rule conditions are evaluated against.
+   * Amount thresholds are defined in company base currency, so the base
+   * amount locked at submission is used. Expenses submitted before exchange
+   * rates were loaded have none and are compared at face value.
+   */
+  private static buildRuleContext(expense: {
+    amount: unknown;
+    baseAmount: unknown;
+    currency: string;
+    categoryId: string;
+    submitter: { role: string; departmentId: string | null };
+  }): ApprovalRuleContext {
+    return {
+      amount: Number(expense.baseAmount ?? expense.amount),
+      currency: expense.currency,
+      categoryId: expense.categoryId,
+      submitterRole: expense.submitter.role,
+      departmentId: expense.submitter.departmentId,
+    };
+  }
+
+  /**
+   * Preview which recent expenses a set of rule conditions would have matched
+   */
+  static async previewRuleMatches(
+    companyId: string,
+    conditions: ApprovalRuleConditionGroup | undefined,
+    lookbackDays: number = 30
+  ): Promise<
+    ServiceResult<{
+      evaluated: number;
+      matched: Array<{
+        id: string;
+        description: string;
+        amount: number;
+        currency: string;
+        category: string;
+        submitterName: string;
+        expenseDate: string;
+      }>;
+    }>
+  > {
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - lookbackDays);
+
+      const expenses = await prisma.expense.findMany({
+        where: {
+          companyId,
+          status: { not: "DRAFT" },
+          expenseDate: { gte: since },
+        },
+        include: {
+          submitter: {
+            select: { name: true, role: true, departmentId: true },
+          },
+          category: {
+            select: { name: true },
+          },
+        },
+        orderBy: {
+          expenseDate: "desc",
+        },
+      });
+
+      const matched = expenses
+        .filter((expense) =>
+          ruleMatches(conditions, this.buildRuleContext(expense))
+        )
+        .map((expense) => ({
+          id: expense.id,
+          description: expense.description,
+          amount: Number(expense.amount),
+          currency: expense.currency,
+          category: expense.category.name,
+          submitterName: expense.submitter.name,
+          expenseDate: expense.expenseDate.toISOString(),
+        }));
+
+      return {
+        success: true,
+        data: {
+          evaluated: expenses.length,
+          matched,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to preview approval rule", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to preview approval rule",
+          code: "RULE_PREVIEW_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create approval chain based on applicable rules, for an expense, an
+   * expense report or a cash advance. With no applicable rules the chain is
+   * a single step for the company's fallback approver.
    */
   static async createApprovalChain(
-    expenseId: string,
+    subject: ApprovalSubject,
     ruleIds: string[]
   ): Promise<ServiceResult<string[]>> {
     try {
       const approvalIds: string[] = [];
 
+      const expense = await this.getSubjectOwner(subject);
+
+      if (!expense) {
+        return {
+          success: false,
+          error:
+            "reportId" in subject
+              ? { message: "Expense report not found", code: "REPORT_NOT_FOUND" }
+              : "advanceId" in subject
+              ? { message: "Advance not found", code: "ADVANCE_NOT_FOUND" }
+              : { message: "Expense not found", code: "EXPENSE_NOT_FOUND" },
+        };
+      }
+
+      const activatedAt = new Date();
+      const dueAt = await ApprovalSlaService.getDueAt(
+        expense.companyId,
+        activatedAt
+      );
+
       for (const ruleId of ruleIds) {
         const rule = await prisma.approvalRule.findUnique({
           where: { id: ruleId },
@@ -598,42 +1650,145 @@ export class ApprovalService {
 
         if (!rule) continue;
 
-        // Create approvals based on rule configuration
-        if (rule.isSequenceRequired) {
-          // Sequential approval - create one approval at a time
-          const firstApprover = rule.approvers[0];
-          if (firstApprover) {
-            const approval = await prisma.expenseApproval.create({
-              data: {
-                expenseId,
-                approverId: firstApprover.approverId,
-                status: "PENDING",
-              },
+        // Build the rule's steps. Manager steps always come first, one level
+        // at a time; the rule's approvers follow either one after another
+        // (sequential) or together as a single stage (parallel)
+        const steps: Array<{
+          approverId: string;
+          stepOrder: number;
+          isRequired: boolean;
+          isManagerStep: boolean;
+        }> = [];
+
+        if (rule.isManagerApprovalRequired) {
+          const managerIds = await this.resolveManagerChain(
+            expense.submitterId,
+            expense.companyId,
+            rule.managerApprovalLevels
+          );
+
+          managerIds.forEach((managerId, index) => {
+            steps.push({
+              approverId: managerId,
+              stepOrder: index + 1,
+              isRequired: true,
+              isManagerStep: true,
+            });
+          });
+        }
+
+        // The submitter never approves their own submission, and a manager
+        // who is also one of the rule's approvers is only asked once
+        const ruleApprovers = rule.approvers.filter(
+          (approver) =>
+            approver.approverId !== expense.submitterId &&
+            !steps.some((step) => step.approverId === approver.approverId)
+        );
+
+        const managerStages = steps.length;
+        ruleApprovers.forEach((approver, index) => {
+          steps.push({
+            approverId: approver.approverId,
+            stepOrder: rule.isSequenceRequired
+              ? managerStages + index + 1
+              : managerStages + 1,
+            isRequired: approver.isRequired,
+            isManagerStep: false,
+          });
+        });
+
+        // A rule that resolves to nobody (no manager to ask, no approvers)
+        // goes to the company's fallback approver or an administrator rather
+        // than silently dropping out of the chain
+        if (steps.length === 0) {
+          const fallbackId = await this.resolveFallbackApprover(
+            expense.submitterId,
+            expense.companyId
+          );
+
+          if (!fallbackId) {
+            businessLogger.warn("No approver available for approval rule", {
+              ...subject,
+              ruleId: rule.id,
             });
-            approvalIds.push(approval.id);
+            continue;
           }
-        } else {
-          // Parallel approval - create all approvals at once
-          for (const approver of rule.approvers) {
-            const approval = await prisma.expenseApproval.create({
+
+          steps.push({
+            approverId: fallbackId,
+            stepOrder: 1,
+            isRequired: true,
+            isManagerStep: rule.isManagerApprovalRequired,
+          });
+        }
+
+        // Queue every step up front so the whole chain is visible; only the
+        // first stage is actionable
+        const created = await prisma.$transaction(
+          steps.map((step) =>
+            prisma.expenseApproval.create({
               data: {
-                expenseId,
-                approverId: approver.approverId,
-                status: "PENDING",
+                ...approvalSubjectWhere(subject),
+                ruleId: rule.id,
+                ...step,
+                status: step.stepOrder === 1 ? "PENDING" : "WAITING",
+                activatedAt: step.stepOrder === 1 ? activatedAt : null,
+                dueAt: step.stepOrder === 1 ? dueAt : null,
               },
-            });
-            approvalIds.push(approval.id);
-          }
+            })
+          )
+        );
+        approvalIds.push(...created.map((step) => step.id));
+      }
+
+      // No rule matched: the company's fallback approver (or an
+      // administrator) decides instead of leaving the subject pending
+      // with no one able to approve it
+      if (ruleIds.length === 0) {
+        const fallbackId = await this.resolveFallbackApprover(
+          expense.submitterId,
+          expense.companyId
+        );
+
+        if (fallbackId) {
+          const step = await prisma.expenseApproval.create({
+            data: {
+              ...approvalSubjectWhere(subject),
+              ruleId: null,
+              approverId: fallbackId,
+              stepOrder: 1,
+              isRequired: true,
+              isManagerStep: false,
+              status: "PENDING",
+              activatedAt,
+              dueAt,
+            },
+          });
+          approvalIds.push(step.id);
         }
       }
 
+      // Nobody could be asked to approve: complete the chain now instead of
+      // leaving the subject waiting on steps that don't exist
+      if (approvalIds.length === 0) {
+        businessLogger.warn("Approval chain is empty, completing it", {
+          ...subject,
+          ruleIds,
+        });
+        const completion = await prisma.$transaction(async (tx) => {
+          await this.lockSubject(tx, subject);
+          return this.applyApprovalCompletion(tx, subject);
+        });
+        await this.publishCompletion(completion, null);
+      }
+
       return {
         success: true,
         data: approvalIds,
       };
     } catch (error) {
       businessLogger.error("Failed to create approval chain", error as Error, {
-        expenseId,
+        ...subject,
         ruleIds,
       });
       return {
@@ -646,6 +1801,109 @@ export class ApprovalService {
     }
   }
 
+  /**
+   * Walk up the submitter's manager hierarchy, returning up to `levels`
+   * manager ids nearest first. The walk stops early when a user has no
+   * manager, the manager belongs to another company, or the hierarchy loops
+   * back on itself (including a manager who is the submitter).
+   */
+  private static async resolveManagerChain(
+    submitterId: string,
+    companyId: string,
+    levels: number
+  ): Promise<string[]> {
+    const managerIds: string[] = [];
+    const visited = new Set<string>([submitterId]);
+
+    const submitter = await prisma.user.findUnique({
+      where: { id: submitterId },
+      select: { managerId: true },
+    });
+    let nextManagerId = submitter?.managerId ?? null;
+
+    while (managerIds.length < levels) {
+      if (!nextManagerId) {
+        businessLogger.warn("Manager hierarchy ends before requested level", {
+          submitterId,
+          requestedLevels: levels,
+          resolvedLevels: managerIds.length,
+        });
+        break;
+      }
+
+      if (visited.has(nextManagerId)) {
+        businessLogger.warn("Circular manager hierarchy detected", {
+          submitterId,
+          managerId: nextManagerId,
+          resolvedLevels: managerIds.length,
+        });
+        break;
+      }
+
+      const manager = await prisma.user.findUnique({
+        where: { id: nextManagerId },
+        select: { id: true, companyId: true, managerId: true },
+      });
+
+      if (!manager || manager.companyId !== companyId) {
+        businessLogger.warn("Manager is missing or outside the company", {
+          submitterId,
+          managerId: nextManagerId,
+        });
+        break;
+      }
+
+      managerIds.push(manager.id);
+      visited.add(manager.id);
+      nextManagerId = manager.managerId;
+    }
+
+    return managerIds;
+  }
+
+  /**
+   * Approver for a rule that resolves to nobody: the company's SLA fallback
+   * approver, otherwise its longest-standing administrator. Never the
+   * submitter; null when no one else can approve.
+   */
+  private static async resolveFallbackApprover(
+    submitterId: string,
+    companyId: string
+  ): Promise<string | null> {
+    const settings = await prisma.approvalSlaSettings.findUnique({
+      where: { companyId },
+      select: { fallbackApproverId: true },
+    });
+
+    if (
+      settings?.fallbackApproverId &&
+      settings.fallbackApproverId !== submitterId
+    ) {
+      const fallback = await prisma.user.findFirst({
+        where: {
+          id: settings.fallbackApproverId,
+          companyId,
+          role: { in: ["MANAGER", "ADMIN"] },
+        },
+        select: { id: true },
+      });
+
+      if (fallback) return fallback.id;
+    }
+
+    const admin = await prisma.user.findFirst({
+      where: {
+        companyId,
+        role: "ADMIN",
+        id: { not: submitterId },
+      },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+
+    return admin?.id ?? null;
+  }
+
   /**
    * Process approval workflow for an expense
    */
@@ -683,7 +1941,7 @@ export class ApprovalService {
 
       // Create approval chain
       const chainResult = await this.createApprovalChain(
-        expenseId,
+        { expenseId },
         applicableRules
       );
       if (!chainResult.success) {
@@ -725,59 +1983,81 @@ export class ApprovalService {
   }
 
   /**
-   * Check if all required approvals are complete
+   * Check if all required approvals are complete.
+   * Each rule is judged on its own quorum (see evaluateRuleQuorum); the expense
+   * is approved once every rule is approved and rejected as soon as one fails.
+   * A report's line-level rejections are recorded on its expenses, so they
+   * don't affect the report's chain.
    */
   static async checkApprovalCompletion(
-    expenseId: string
-  ): Promise<ServiceResult<{ isComplete: boolean; status: string }>> {
+    subject: ApprovalSubject,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<
+    ServiceResult<{
+      isComplete: boolean;
+      status: string;
+      ruleOutcomes: Array<{ ruleId: string | null; outcome: RuleQuorumOutcome }>;
+    }>
+  > {
     try {
-      const approvals = await prisma.expenseApproval.findMany({
-        where: { expenseId },
+      const approvals = await client.expenseApproval.findMany({
+        where: approvalSubjectWhere(subject),
         include: {
-          approver: true,
+          approvalRule: {
+            select: {
+              minApprovalPercentage: true,
+              quorumMode: true,
+            },
+          },
         },
       });
 
-      if (approvals.length === 0) {
-        return {
-          success: true,
-          data: { isComplete: true, status: "APPROVED" },
-        };
+      // Group the steps by the rule that produced them; steps whose rule has
+      // since been deleted are judged together and must all approve
+      const stepsByRule = new Map<string | null, typeof approvals>();
+      for (const approval of approvals) {
+        const steps = stepsByRule.get(approval.ruleId) ?? [];
+        steps.push(approval);
+        stepsByRule.set(approval.ruleId, steps);
       }
 
-      const pendingApprovals = approvals.filter((a) => a.status === "PENDING");
-      const rejectedApprovals = approvals.filter(
-        (a) => a.status === "REJECTED"
+      const ruleOutcomes = Array.from(stepsByRule.entries()).map(
+        ([ruleId, steps]) => ({
+          ruleId,
+          outcome: evaluateRuleQuorum(
+            steps,
+            steps[0].approvalRule?.minApprovalPercentage ?? null,
+            steps[0].approvalRule?.quorumMode
+          ),
+        })
       );
 
-      // If any approval is rejected, the expense is rejected
-      if (rejectedApprovals.length > 0) {
+      // If any rule can no longer be satisfied, the expense is rejected
+      if (ruleOutcomes.some((rule) => rule.outcome === "rejected")) {
         return {
           success: true,
-          data: { isComplete: true, status: "REJECTED" },
+          data: { isComplete: true, status: "REJECTED", ruleOutcomes },
         };
       }
 
-      // If no pending approvals, the expense is approved
-      if (pendingApprovals.length === 0) {
+      // Once every rule has reached its quorum, the expense is approved
+      if (ruleOutcomes.every((rule) => rule.outcome === "approved")) {
         return {
           success: true,
-          data: { isComplete: true, status: "APPROVED" },
+          data: { isComplete: true, status: "APPROVED", ruleOutcomes },
         };
       }
 
       // Still pending approvals
       return {
         success: true,
-        data: { isComplete: false, status: "PENDING_APPROVAL" },
+        data: { isComplete: false, status: "PENDING_APPROVAL", ruleOutcomes },
       };
     } catch (error) {
       businessLogger.error(
         "Failed to check approval completion",
         error as Error,
-        {
-          expenseId,
-        }
+        subject
       );
       return {
         success: false,
@@ -805,18 +2085,19 @@ export class ApprovalService {
     }>
   > {
     try {
-      const whereClause: any = {
-        expense: {
-          companyId,
-        },
+      const createdAt = dateRange && {
+        gte: dateRange.startDate,
+        lte: dateRange.endDate,
       };
-
-      if (dateRange) {
-        whereClause.expense.createdAt = {
-          gte: dateRange.startDate,
-          lte: dateRange.endDate,
-        };
-      }
+      const whereClause: any = createdAt
+        ? {
+            OR: [
+              { expense: { companyId, createdAt } },
+              { report: { companyId, createdAt } },
+              { advance: { companyId, createdAt } },
+            ],
+          }
+        : companyApprovalStepsWhere(companyId);
 
       const [
         totalApprovals,
@@ -848,6 +2129,16 @@ export class ApprovalService {
                 createdAt: true,
               },
             },
+            report: {
+              select: {
+                createdAt: true,
+              },
+            },
+            advance: {
+              select: {
+                createdAt: true,
+              },
+            },
           },
         }),
       ]);
@@ -856,10 +2147,11 @@ export class ApprovalService {
       let averageApprovalTime = 0;
       if (processedApprovals.length > 0) {
         const totalTime = processedApprovals.reduce((sum, approval) => {
-          if (approval.processedAt) {
+          const subject =
+            approval.expense ?? approval.report ?? approval.advance;
+          if (approval.processedAt && subject) {
             const timeDiff =
-              approval.processedAt.getTime() -
-              approval.expense.createdAt.getTime();
+              approval.processedAt.getTime() - subject.createdAt.getTime();
             return sum + timeDiff;
           }
           return sum;
@@ -0,0 +1,475 @@
+import { prisma } from "@/lib/prisma";
+import { AuditEntityType, AuditEvent, Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  AuditChanges,
+  diffRecords,
+  getAuditContext,
+  hashAuditEvent,
+} from "@/lib/audit";
+import { escapeCsvValue, type RenderedExport } from "@/lib/report-export";
+import type { AuditQueryInput } from "@/lib/validations/audit";
+
+export interface AuditEntry {
+  companyId: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  // The expense the event belongs to, when not the entity itself
+  expenseId?: string | null;
+  // The record before and after the change; the event keeps the fields that
+  // differ (only the listed fields when given)
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  fields?: readonly string[];
+  metadata?: Record<string, unknown>;
+  // Defaults to the user making the request
+  actorId?: string | null;
+}
+
+export interface AuditEventPublic {
+  id: string;
+  sequence: number;
+  entityType: AuditEntityType;
+  entityId: string;
+  expenseId: string | null;
+  action: string;
+  changes: AuditChanges | null;
+  metadata: Record<string, unknown> | null;
+  actor: { id: string; name: string; email: string } | null;
+  // Set when the actor has since been deleted
+  actorId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  hash: string;
+  createdAt: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  eventCount: number;
+  // Sequence of the first event whose hash or link doesn't match
+  brokenAtSequence: number | null;
+}
+
+// An expense's viewer, as needed for its activity history
+export interface AuditActor {
+  id: string;
+  role: string;
+  companyId: string;
+}
+
+// Concurrent events for a company race for the next sequence
+const MAX_RECORD_ATTEMPTS = 3;
+const MAX_EXPORT_ROWS = 10000;
+const VERIFY_BATCH_SIZE = 1000;
+
+const CSV_COLUMNS: { header: string; value: (event: AuditEventPublic) => unknown }[] = [
+  { header: "Sequence", value: (event) => event.sequence },
+  { header: "Time", value: (event) => event.createdAt },
+  { header: "Actor", value: (event) => event.actor?.name ?? event.actorId },
+  { header: "Actor Email", value: (event) => event.actor?.email },
+  { header: "Entity", value: (event) => event.entityType },
+  { header: "Entity ID", value: (event) => event.entityId },
+  { header: "Expense ID", value: (event) => event.expenseId },
+  { header: "Action", value: (event) => event.action },
+  {
+    header: "Changes",
+    value: (event) => (event.changes ? JSON.stringify(event.changes) : ""),
+  },
+  {
+    header: "Details",
+    value: (event) => (event.metadata ? JSON.stringify(event.metadata) : ""),
+  },
+  { header: "IP Address", value: (event) => event.ipAddress },
+  { header: "User Agent", value: (event) => event.userAgent },
+  { header: "Hash", value: (event) => event.hash },
+];
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+export class AuditService {
+  /**
+   * Append an event to the company's audit trail. Recording never fails the
+   * caller: errors are logged so an audit outage can't block a workflow.
+   * Updates that change none of the compared fields aren't recorded.
+   */
+  static async record(entry: AuditEntry): Promise<void> {
+    const context = getAuditContext();
+    const changes =
+      entry.before !== undefined || entry.after !== undefined
+        ? diffRecords(entry.before, entry.after, entry.fields)
+        : null;
+
+    if (
+      changes &&
+      Object.keys(changes).length === 0 &&
+      entry.before &&
+      entry.after
+    ) {
+      return;
+    }
+
+    const actorId =
+      entry.actorId !== undefined ? entry.actorId : context?.actorId ?? null;
+
+    for (let attempt = 1; attempt <= MAX_RECORD_ATTEMPTS; attempt++) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const previous = await tx.auditEvent.findFirst({
+            where: { companyId: entry.companyId },
+            orderBy: { sequence: "desc" },
+            select: { sequence: true, hash: true },
+          });
+
+          const event = {
+            companyId: entry.companyId,
+            sequence: (previous?.sequence ?? 0) + 1,
+            entityType: entry.entityType,
+            entityId: entry.entityId,
+            expenseId:
+              entry.expenseId ??
+              (entry.entityType === "EXPENSE" ? entry.entityId : null),
+            action: entry.action,
+            changes: changes && Object.keys(changes).length > 0 ? changes : null,
+            metadata: entry.metadata ?? null,
+            actorId,
+            ipAddress: context?.ipAddress ?? null,
+            userAgent: context?.userAgent ?? null,
+            previousHash: previous?.hash ?? null,
+            createdAt: new Date(),
+          };
+
+          await tx.auditEvent.create({
+            data: {
+              ...event,
+              changes: (event.changes as Prisma.InputJsonValue) ?? undefined,
+              metadata: (event.metadata as Prisma.InputJsonValue) ?? undefined,
+              hash: hashAuditEvent(event),
+            },
+          });
+        });
+        return;
+      } catch (error) {
+        if (isUniqueViolation(error) && attempt < MAX_RECORD_ATTEMPTS) {
+          continue;
+        }
+        businessLogger.error("Failed to record audit event", error as Error, {
+          companyId: entry.companyId,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          action: entry.action,
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * The company's audit events, newest first
+   */
+  static async listEvents(
+    companyId: string,
+    query: AuditQueryInput
+  ): Promise<
+    ServiceResult<{
+      events: AuditEventPublic[];
+      pagination: { page: number; limit: number; total: number; totalPages: number };
+    }>
+  > {
+    try {
+      const where = this.buildWhere(companyId, query);
+      const [rows, total] = await Promise.all([
+        prisma.auditEvent.findMany({
+          where,
+          orderBy: { sequence: "desc" },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.auditEvent.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          events: await this.toPublic(rows),
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages: Math.ceil(total / query.limit),
+          },
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list audit events", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve audit events",
+          code: "AUDIT_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The matching events as a CSV file, oldest first
+   */
+  static async exportEvents(
+    companyId: string,
+    query: AuditQueryInput
+  ): Promise<ServiceResult<RenderedExport>> {
+    try {
+      const where = this.buildWhere(companyId, query);
+      const total = await prisma.auditEvent.count({ where });
+
+      if (total > MAX_EXPORT_ROWS) {
+        return {
+          success: false,
+          error: {
+            message: `The export is limited to ${MAX_EXPORT_ROWS} events; narrow the filters`,
+            code: "AUDIT_EXPORT_TOO_LARGE",
+            details: { total, limit: MAX_EXPORT_ROWS },
+          },
+        };
+      }
+
+      const events = await this.toPublic(
+        await prisma.auditEvent.findMany({
+          where,
+          orderBy: { sequence: "asc" },
+        })
+      );
+
+      const lines = [
+        CSV_COLUMNS.map((column) => escapeCsvValue(column.header)).join(","),
+        ...events.map((event) =>
+          CSV_COLUMNS.map((column) => escapeCsvValue(column.value(event))).join(
+            ","
+          )
+        ),
+      ];
+
+      return {
+        success: true,
+        data: {
+          // Leading BOM so spreadsheet apps detect UTF-8
+          buffer: Buffer.from(`\uFEFF${lines.join("\r\n")}\r\n`, "utf8"),
+          contentType: "text/csv; charset=utf-8",
+          extension: "csv",
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to export audit events", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to export audit events",
+          code: "AUDIT_EXPORT_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * An expense's full history, oldest first: its own changes and those of
+   * its approval steps. Visible to the submitter, their manager, the
+   * expense's approvers and admins.
+   */
+  static async getExpenseActivity(
+    expenseId: string,
+    actor: AuditActor
+  ): Promise<ServiceResult<AuditEventPublic[]>> {
+    try {
+      const expense = await prisma.expense.findFirst({
+        where: { id: expenseId, companyId: actor.companyId },
+        select: {
+          submitterId: true,
+          submitter: { select: { managerId: true } },
+          approvals: { select: { approverId: true, actedById: true } },
+        },
+      });
+
+      const canView =
+        expense &&
+        (actor.role === "ADMIN" ||
+          expense.submitterId === actor.id ||
+          expense.submitter.managerId === actor.id ||
+          expense.approvals.some(
+            (step) => step.approverId === actor.id || step.actedById === actor.id
+          ));
+
+      if (!canView) {
+        return {
+          success: false,
+          error: {
+            message: "Expense not found or access denied",
+            code: "EXPENSE_NOT_FOUND",
+          },
+        };
+      }
+
+      const rows = await prisma.auditEvent.findMany({
+        where: { companyId: actor.companyId, expenseId },
+        orderBy: { sequence: "asc" },
+      });
+
+      // Network details stay with the admin audit log
+      const events = await this.toPublic(rows);
+      return {
+        success: true,
+        data: events.map((event) => ({
+          ...event,
+          ipAddress: null,
+          userAgent: null,
+        })),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get expense activity", error as Error, {
+        expenseId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve expense activity",
+          code: "EXPENSE_ACTIVITY_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Recompute the company's hash chain from the first event and report the
+   * first event that was changed, removed or inserted out of order
+   */
+  static async verifyChain(
+    companyId: string
+  ): Promise<ServiceResult<AuditChainVerification>> {
+    try {
+      let previous: { sequence: number; hash: string } | null = null;
+      let eventCount = 0;
+
+      for (;;) {
+        const batch: AuditEvent[] = await prisma.auditEvent.findMany({
+          where: {
+            companyId,
+            ...(previous && { sequence: { gt: previous.sequence } }),
+          },
+          orderBy: { sequence: "asc" },
+          take: VERIFY_BATCH_SIZE,
+        });
+
+        for (const event of batch) {
+          const expectedSequence = (previous?.sequence ?? 0) + 1;
+          const intact =
+            event.sequence === expectedSequence &&
+            event.previousHash === (previous?.hash ?? null) &&
+            event.hash === hashAuditEvent(event);
+
+          if (!intact) {
+            businessLogger.logSecurityEvent("audit_chain_broken", undefined, {
+              companyId,
+              sequence: event.sequence,
+            });
+            return {
+              success: true,
+              data: {
+                valid: false,
+                eventCount: eventCount + 1,
+                brokenAtSequence: Math.min(event.sequence, expectedSequence),
+              },
+            };
+          }
+
+          previous = { sequence: event.sequence, hash: event.hash };
+          eventCount++;
+        }
+
+        if (batch.length < VERIFY_BATCH_SIZE) break;
+      }
+
+      return {
+        success: true,
+        data: { valid: true, eventCount, brokenAtSequence: null },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to verify audit chain", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to verify the audit trail",
+          code: "AUDIT_VERIFY_FAILED",
+        },
+      };
+    }
+  }
+
+  private static buildWhere(
+    companyId: string,
+    query: AuditQueryInput
+  ): Prisma.AuditEventWhereInput {
+    return {
+      companyId,
+      ...(query.entityType && { entityType: query.entityType }),
+      ...(query.entityId && { entityId: query.entityId }),
+      ...(query.expenseId && { expenseId: query.expenseId }),
+      ...(query.actorId && { actorId: query.actorId }),
+      ...(query.action && { action: query.action }),
+      ...((query.startDate || query.endDate) && {
+        createdAt: {
+          ...(query.startDate && { gte: new Date(query.startDate) }),
+          // Through the end of the end date
+          ...(query.endDate && {
+            lt: new Date(
+              new Date(query.endDate).getTime() + 24 * 60 * 60 * 1000
+            ),
+          }),
+        },
+      }),
+    };
+  }
+
+  // Attach the actors; deleted actors keep only their id
+  private static async toPublic(
+    rows: AuditEvent[]
+  ): Promise<AuditEventPublic[]> {
+    const actorIds = Array.from(
+      new Set(rows.map((row) => row.actorId).filter((id): id is string => !!id))
+    );
+    const actors = actorIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: actorIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : [];
+
+    return rows.map((row) => ({
+      id: row.id,
+      sequence: row.sequence,
+      entityType: row.entityType,
+      entityId: row.entityId,
+      expenseId: row.expenseId,
+      action: row.action,
+      changes: row.changes as AuditChanges | null,
+      metadata: row.metadata as Record<string, unknown> | null,
+      actor: actors.find((actor) => actor.id === row.actorId) ?? null,
+      actorId: row.actorId,
+      ipAddress: row.ipAddress,
+      userAgent: row.userAgent,
+      hash: row.hash,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+}
+
+export default AuditService;
@@ -10,13 +10,24 @@ export interface SignUpRequest {
   email: string;
   companyName: string;
   country: string;
+  baseCurrency: string;
   password: string;
 }
 
+// Returned instead of a token when the user has two-factor authentication,
+// or must set it up ("setup") before signing in
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  method: "totp" | "setup";
+  expiresIn: number;
+  setup?: { secret: string; otpauthUri: string; qrCode: string };
+}
+
 export interface AuthResponse {
   message: string;
-  user: User;
-  token: string;
+  user?: User;
+  token?: string;
+  twoFactor?: TwoFactorChallenge;
   company?: {
     id: string;
     name: string;
@@ -24,6 +35,21 @@ export interface AuthResponse {
   };
 }
 
+export interface SignUpResponse {
+  success: boolean;
+  message: string;
+  data: {
+    user: { id: string; name: string; email: string; role: "ADMIN"; emailVerified: boolean };
+    company: { id: string; name: string; country: string; baseCurrency: string };
+  };
+}
+
+export interface TwoFactorVerifyResponse {
+  user: User;
+  // Only after setting up two-factor authentication while signing in
+  recoveryCodes?: string[];
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -58,10 +84,45 @@ class AuthService {
     return data;
   }
 
+  /**
+   * Answer the two-factor challenge returned by signIn with an authenticator
+   * code or a recovery code
+   */
+  static async verifyTwoFactor(
+    challengeToken: string,
+    answer: { code: string } | { recoveryCode: string }
+  ): Promise<TwoFactorVerifyResponse> {
+    const response = await fetch(`${this.API_BASE}/2fa/verify`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ challengeToken, ...answer }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || "Failed to verify code");
+    }
+
+    this.setToken(data.data.tokens.accessToken);
+
+    return {
+      user: {
+        id: data.data.user.id,
+        email: data.data.user.email,
+        role: data.data.user.role,
+        companyId: data.data.user.companyId,
+      },
+      recoveryCodes: data.data.recoveryCodes,
+    };
+  }
+
   /**
    * Sign up a new user and company
    */
-  static async signUp(userData: SignUpRequest): Promise<AuthResponse> {
+  static async signUp(userData: SignUpRequest): Promise<SignUpResponse> {
     const response = await fetch(`${this.API_BASE}/signup`, {
       method: "POST",
       headers: {
@@ -73,7 +134,9 @@ class AuthService {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || "Failed to create account");
+      const details: string[] = data.error?.details ?? [];
+      const message = data.error?.message || data.message || "Failed to create account";
+      throw new Error(details.length ? `${message}: ${details.join("; ")}` : message);
     }
 
     return data;
@@ -0,0 +1,715 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { AuditService } from "@/services/audit.service";
+import {
+  SPENDING_STATUSES,
+  getBudgetPeriodRange,
+  getBudgetState,
+  getCategoryPath,
+  rollUpTotals,
+  wouldCreateCycle,
+  type BudgetPeriodType,
+  type BudgetState,
+} from "@/lib/category-hierarchy";
+import type {
+  CreateCategoryInput,
+  UpdateCategoryInput,
+} from "@/lib/validations/categories";
+import { CompanyService } from "./company.service";
+import { DepartmentService } from "./department.service";
+
+export interface CategoryDetails {
+  id: string;
+  name: string;
+  glCode: string | null;
+  parentId: string | null;
+  // Names from the top-level category down to this one
+  path: string[];
+  isActive: boolean;
+  archivedAt: string | null;
+  expenseCount: number;
+  // Company-wide budgets
+  monthlyBudget: number | null;
+  annualBudget: number | null;
+  departmentBudgets: {
+    departmentId: string;
+    period: BudgetPeriodType;
+    amount: number;
+  }[];
+  // Present when spending was requested; totals include subcategories
+  spending?: {
+    amount: number;
+    count: number;
+    totalAmount: number;
+    totalCount: number;
+  };
+}
+
+const CATEGORY_AUDIT_FIELDS = [
+  "name",
+  "glCode",
+  "parentId",
+  "isActive",
+  "monthlyBudget",
+  "annualBudget",
+  "departmentBudgets",
+] as const;
+
+export interface BudgetUtilization {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  path: string[];
+  // Set for a department's budget, which only counts its members' spending
+  departmentId: string | null;
+  departmentName: string | null;
+  period: BudgetPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  amount: number;
+  // Approved and pending spending in the category and its subcategories
+  spent: number;
+  pending: number;
+  utilization: number;
+  state: BudgetState;
+}
+
+type CategoryRow = Prisma.ExpenseCategoryGetPayload<{
+  include: {
+    budgets: true;
+    _count: { select: { expenses: true } };
+  };
+}>;
+
+const categoryInclude = {
+  budgets: true,
+  _count: { select: { expenses: true } },
+} as const;
+
+const budgetAmount = (category: CategoryRow, period: BudgetPeriodType) => {
+  const budget = category.budgets.find(
+    (item) => item.period === period && item.departmentId === null
+  );
+  return budget ? Number(budget.amount) : null;
+};
+
+const toCategoryDetails = (
+  category: CategoryRow,
+  all: CategoryRow[]
+): CategoryDetails => ({
+  id: category.id,
+  name: category.name,
+  glCode: category.glCode,
+  parentId: category.parentId,
+  path: getCategoryPath(all, category.id),
+  isActive: category.isActive,
+  archivedAt: category.archivedAt?.toISOString() ?? null,
+  expenseCount: category._count.expenses,
+  monthlyBudget: budgetAmount(category, "MONTHLY"),
+  annualBudget: budgetAmount(category, "ANNUAL"),
+  departmentBudgets: category.budgets
+    .filter((budget) => budget.departmentId !== null)
+    .map((budget) => ({
+      departmentId: budget.departmentId!,
+      period: budget.period,
+      amount: Number(budget.amount),
+    })),
+});
+
+export class CategoryService {
+  /**
+   * List the company's categories, parents before their subcategories.
+   * Spending, when requested, covers expenses dated in the range.
+   */
+  static async listCategories(
+    companyId: string,
+    options: {
+      includeArchived?: boolean;
+      includeSpending?: boolean;
+      startDate?: Date;
+      endDate?: Date;
+    } = {}
+  ): Promise<ServiceResult<CategoryDetails[]>> {
+    try {
+      const all = await prisma.expenseCategory.findMany({
+        where: { companyId },
+        include: categoryInclude,
+        orderBy: { name: "asc" },
+      });
+
+      const categories = all
+        .filter((category) => options.includeArchived || category.isActive)
+        .map((category) => toCategoryDetails(category, all))
+        .sort((a, b) => a.path.join("/").localeCompare(b.path.join("/")));
+
+      if (!options.includeSpending) {
+        return { success: true, data: categories };
+      }
+
+      const spending = await this.getCategorySpending(
+        companyId,
+        all,
+        options.startDate,
+        options.endDate
+      );
+
+      return {
+        success: true,
+        data: categories.map((category) => ({
+          ...category,
+          spending: spending.get(category.id),
+        })),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list categories", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to fetch categories",
+          code: "CATEGORY_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a category, optionally under a parent and with budgets
+   */
+  static async createCategory(
+    companyId: string,
+    input: CreateCategoryInput,
+    userId: string
+  ): Promise<ServiceResult<CategoryDetails>> {
+    try {
+      const duplicate = await this.findByName(companyId, input.name);
+      if (duplicate) {
+        return {
+          success: false,
+          error: {
+            message: duplicate.isActive
+              ? "A category with this name already exists"
+              : "An archived category with this name exists; restore it instead",
+            code: "CATEGORY_EXISTS",
+          },
+        };
+      }
+
+      if (input.parentId) {
+        const parentError = await this.validateParent(companyId, input.parentId);
+        if (parentError) return parentError;
+      }
+
+      const departmentError = await this.validateBudgetDepartments(
+        companyId,
+        input.departmentBudgets
+      );
+      if (departmentError) return departmentError;
+
+      const category = await prisma.$transaction(async (tx) => {
+        const created = await tx.expenseCategory.create({
+          data: {
+            name: input.name,
+            glCode: input.glCode,
+            parentId: input.parentId,
+            companyId,
+          },
+        });
+
+        await this.saveBudgets(tx, companyId, created.id, input);
+        return created;
+      });
+
+      businessLogger.logUserAction("category_created", userId, {
+        companyId,
+        categoryId: category.id,
+        parentId: category.parentId,
+      });
+
+      const result = await this.getCategory(category.id, companyId);
+
+      if (result.success) {
+        await AuditService.record({
+          companyId,
+          entityType: "CATEGORY",
+          entityId: category.id,
+          action: "created",
+          before: null,
+          after: { ...result.data! },
+          fields: CATEGORY_AUDIT_FIELDS,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      businessLogger.error("Failed to create category", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create category",
+          code: "CATEGORY_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a category. Setting isActive to false archives it; a category
+   * can't be archived while it has active subcategories.
+   */
+  static async updateCategory(
+    categoryId: string,
+    companyId: string,
+    input: UpdateCategoryInput,
+    userId: string
+  ): Promise<ServiceResult<CategoryDetails>> {
+    try {
+      const all = await prisma.expenseCategory.findMany({
+        where: { companyId },
+        select: { id: true, parentId: true, isActive: true },
+      });
+      const existing = all.find((category) => category.id === categoryId);
+
+      if (!existing) {
+        return {
+          success: false,
+          error: {
+            message: "Category not found or access denied",
+            code: "CATEGORY_NOT_FOUND",
+          },
+        };
+      }
+
+      if (input.name) {
+        const duplicate = await this.findByName(companyId, input.name);
+        if (duplicate && duplicate.id !== categoryId) {
+          return {
+            success: false,
+            error: {
+              message: "A category with this name already exists",
+              code: "CATEGORY_EXISTS",
+            },
+          };
+        }
+      }
+
+      if (input.parentId) {
+        const parentError = await this.validateParent(companyId, input.parentId);
+        if (parentError) return parentError;
+
+        if (wouldCreateCycle(all, categoryId, input.parentId)) {
+          return {
+            success: false,
+            error: {
+              message: "A category can't be moved under one of its subcategories",
+              code: "CATEGORY_CYCLE",
+            },
+          };
+        }
+      }
+
+      const departmentError = await this.validateBudgetDepartments(
+        companyId,
+        input.departmentBudgets
+      );
+      if (departmentError) return departmentError;
+
+      // A restored category needs an active parent
+      const parentId =
+        input.parentId !== undefined ? input.parentId : existing.parentId;
+      if (input.isActive === true && !existing.isActive && parentId) {
+        const parentError = await this.validateParent(companyId, parentId);
+        if (parentError) return parentError;
+      }
+
+      if (input.isActive === false && existing.isActive) {
+        const activeChildren = all.filter(
+          (category) => category.parentId === categoryId && category.isActive
+        );
+        if (activeChildren.length > 0) {
+          return {
+            success: false,
+            error: {
+              message: "Archive the category's subcategories first",
+              code: "CATEGORY_HAS_ACTIVE_CHILDREN",
+            },
+          };
+        }
+      }
+
+      const previous = await this.getCategory(categoryId, companyId);
+
+      await prisma.$transaction(async (tx) => {
+        await tx.expenseCategory.update({
+          where: { id: categoryId },
+          data: {
+            ...(input.name !== undefined && { name: input.name }),
+            ...(input.glCode !== undefined && { glCode: input.glCode }),
+            ...(input.parentId !== undefined && { parentId: input.parentId }),
+            ...(input.isActive !== undefined &&
+              input.isActive !== existing.isActive && {
+                isActive: input.isActive,
+                archivedAt: input.isActive ? null : new Date(),
+              }),
+          },
+        });
+
+        await this.saveBudgets(tx, companyId, categoryId, input);
+      });
+
+      businessLogger.logUserAction(
+        input.isActive === false
+          ? "category_archived"
+          : input.isActive === true
+          ? "category_restored"
+          : "category_updated",
+        userId,
+        { companyId, categoryId, changes: Object.keys(input) }
+      );
+
+      const result = await this.getCategory(categoryId, companyId);
+
+      if (result.success) {
+        await AuditService.record({
+          companyId,
+          entityType: "CATEGORY",
+          entityId: categoryId,
+          action:
+            input.isActive === false && existing.isActive
+              ? "archived"
+              : input.isActive === true && !existing.isActive
+              ? "restored"
+              : "updated",
+          before: previous.data ? { ...previous.data } : null,
+          after: { ...result.data! },
+          fields: CATEGORY_AUDIT_FIELDS,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      businessLogger.error("Failed to update category", error as Error, {
+        companyId,
+        categoryId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update category",
+          code: "CATEGORY_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Budget utilisation for the current month and fiscal year, highest first
+   */
+  static async getBudgetUtilization(
+    companyId: string,
+    now: Date = new Date()
+  ): Promise<
+    ServiceResult<{ currency: string; budgets: BudgetUtilization[] }>
+  > {
+    try {
+      const [company, settings, categories, budgets] = await Promise.all([
+        prisma.company.findUnique({
+          where: { id: companyId },
+          select: { baseCurrency: true },
+        }),
+        CompanyService.getSettingsValues(companyId),
+        prisma.expenseCategory.findMany({
+          where: { companyId },
+          select: { id: true, name: true, parentId: true },
+        }),
+        prisma.categoryBudget.findMany({
+          where: { companyId, category: { isActive: true } },
+          include: { department: { select: { name: true } } },
+        }),
+      ]);
+
+      const ranges = {
+        MONTHLY: getBudgetPeriodRange("MONTHLY", now),
+        ANNUAL: getBudgetPeriodRange(
+          "ANNUAL",
+          now,
+          settings.fiscalYearStartMonth
+        ),
+      };
+
+      const periodTotals = async (
+        period: BudgetPeriodType,
+        departmentId: string | null
+      ) => {
+        const rows = await prisma.expense.groupBy({
+          by: ["categoryId", "status"],
+          where: {
+            companyId,
+            status: { in: [...SPENDING_STATUSES] },
+            expenseDate: { gte: ranges[period].start, lt: ranges[period].end },
+            ...(departmentId && { submitter: { departmentId } }),
+          },
+          _sum: { baseAmount: true },
+        });
+
+        const byStatus = (status: (typeof SPENDING_STATUSES)[number]) =>
+          rollUpTotals(
+            categories,
+            new Map(
+              rows
+                .filter((row) => row.status === status)
+                .map((row) => [row.categoryId, Number(row._sum.baseAmount || 0)])
+            )
+          );
+
+        return {
+          approved: byStatus("APPROVED"),
+          pending: byStatus("PENDING_APPROVAL"),
+        };
+      };
+
+      // One set of totals per period and department that has budgets
+      const totals = new Map<string, Awaited<ReturnType<typeof periodTotals>>>();
+      const totalsKey = (budget: (typeof budgets)[number]) =>
+        `${budget.period}:${budget.departmentId ?? ""}`;
+      for (const budget of budgets) {
+        if (!totals.has(totalsKey(budget))) {
+          totals.set(
+            totalsKey(budget),
+            await periodTotals(budget.period, budget.departmentId)
+          );
+        }
+      }
+
+      const utilization = budgets
+        .map((budget): BudgetUtilization => {
+          const category = categories.find(
+            (item) => item.id === budget.categoryId
+          )!;
+          const periodTotal = totals.get(totalsKey(budget))!;
+          const spent = periodTotal.approved.get(budget.categoryId) ?? 0;
+          const pending = periodTotal.pending.get(budget.categoryId) ?? 0;
+          const amount = Number(budget.amount);
+          const used = (spent + pending) / amount;
+
+          return {
+            budgetId: budget.id,
+            categoryId: budget.categoryId,
+            categoryName: category.name,
+            path: getCategoryPath(categories, budget.categoryId),
+            departmentId: budget.departmentId,
+            departmentName: budget.department?.name ?? null,
+            period: budget.period,
+            periodStart: ranges[budget.period].start.toISOString(),
+            periodEnd: ranges[budget.period].end.toISOString(),
+            amount,
+            spent: Math.round(spent * 100) / 100,
+            pending: Math.round(pending * 100) / 100,
+            utilization: Math.round(used * 10000) / 10000,
+            state: getBudgetState(used),
+          };
+        })
+        .sort((a, b) => b.utilization - a.utilization);
+
+      return {
+        success: true,
+        data: {
+          currency: company?.baseCurrency ?? "",
+          budgets: utilization,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get budget utilization", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve budget utilization",
+          code: "BUDGET_UTILIZATION_FAILED",
+        },
+      };
+    }
+  }
+
+  private static async getCategory(
+    categoryId: string,
+    companyId: string
+  ): Promise<ServiceResult<CategoryDetails>> {
+    const all = await prisma.expenseCategory.findMany({
+      where: { companyId },
+      include: categoryInclude,
+    });
+    const category = all.find((item) => item.id === categoryId);
+
+    if (!category) {
+      return {
+        success: false,
+        error: {
+          message: "Category not found or access denied",
+          code: "CATEGORY_NOT_FOUND",
+        },
+      };
+    }
+
+    return { success: true, data: toCategoryDetails(category, all) };
+  }
+
+  private static findByName(companyId: string, name: string) {
+    return prisma.expenseCategory.findFirst({
+      where: {
+        name: { equals: name, mode: "insensitive" },
+        companyId,
+      },
+    });
+  }
+
+  // Error result when the parent can't be used, otherwise null
+  private static async validateParent(
+    companyId: string,
+    parentId: string
+  ): Promise<ServiceResult<never> | null> {
+    const parent = await prisma.expenseCategory.findFirst({
+      where: { id: parentId, companyId },
+    });
+
+    if (!parent || !parent.isActive) {
+      return {
+        success: false,
+        error: {
+          message: parent
+            ? "Parent category is archived"
+            : "Parent category not found",
+          code: "PARENT_NOT_FOUND",
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Error result when a department budget names an unusable department
+  private static async validateBudgetDepartments(
+    companyId: string,
+    budgets: { departmentId: string }[] | undefined
+  ): Promise<ServiceResult<never> | null> {
+    const departmentIds = new Set(
+      (budgets ?? []).map((budget) => budget.departmentId)
+    );
+    for (const departmentId of departmentIds) {
+      const departmentError = await DepartmentService.validateDepartment(
+        companyId,
+        departmentId
+      );
+      if (departmentError) return departmentError;
+    }
+    return null;
+  }
+
+  // Create, update, or remove (null) the category's budgets
+  private static async saveBudgets(
+    tx: Prisma.TransactionClient,
+    companyId: string,
+    categoryId: string,
+    input: {
+      monthlyBudget?: number | null;
+      annualBudget?: number | null;
+      departmentBudgets?: {
+        departmentId: string;
+        period: BudgetPeriodType;
+        amount: number | null;
+      }[];
+    }
+  ): Promise<void> {
+    const budgets: [BudgetPeriodType, string | null, number | null | undefined][] = [
+      ["MONTHLY", null, input.monthlyBudget],
+      ["ANNUAL", null, input.annualBudget],
+      ...(input.departmentBudgets ?? []).map(
+        (budget) =>
+          [budget.period, budget.departmentId, budget.amount] as [
+            BudgetPeriodType,
+            string | null,
+            number | null,
+          ]
+      ),
+    ];
+
+    for (const [period, departmentId, amount] of budgets) {
+      if (amount === undefined) continue;
+
+      // Company-wide budgets have no department, so they can't be looked up
+      // through the compound unique key
+      const existing = await tx.categoryBudget.findFirst({
+        where: { categoryId, departmentId, period },
+      });
+
+      if (amount === null) {
+        if (existing) {
+          await tx.categoryBudget.delete({ where: { id: existing.id } });
+        }
+        continue;
+      }
+
+      if (existing) {
+        await tx.categoryBudget.update({
+          where: { id: existing.id },
+          data: { amount },
+        });
+      } else {
+        await tx.categoryBudget.create({
+          data: { companyId, categoryId, departmentId, period, amount },
+        });
+      }
+    }
+  }
+
+  // Direct and rolled-up spending per category, in the base currency
+  private static async getCategorySpending(
+    companyId: string,
+    categories: { id: string; parentId: string | null }[],
+    startDate?: Date,
+    endDate?: Date
+  ) {
+    const rows = await prisma.expense.groupBy({
+      by: ["categoryId"],
+      where: {
+        companyId,
+        status: { in: [...SPENDING_STATUSES] },
+        ...((startDate || endDate) && {
+          expenseDate: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+      },
+      _count: { id: true },
+      _sum: { baseAmount: true },
+    });
+
+    const amounts = new Map(
+      rows.map((row) => [row.categoryId, Number(row._sum.baseAmount || 0)])
+    );
+    const counts = new Map(rows.map((row) => [row.categoryId, row._count.id]));
+    const totalAmounts = rollUpTotals(categories, amounts);
+    const totalCounts = rollUpTotals(categories, counts);
+
+    return new Map(
+      categories.map((category) => [
+        category.id,
+        {
+          amount: amounts.get(category.id) ?? 0,
+          count: counts.get(category.id) ?? 0,
+          totalAmount: Math.round((totalAmounts.get(category.id) ?? 0) * 100) / 100,
+          totalCount: totalCounts.get(category.id) ?? 0,
+        },
+      ])
+    );
+  }
+}
+
+export default CategoryService;
@@ -1,14 +1,37 @@
 import { prisma } from "@/lib/prisma";
-import { Company, User, Expense, ApprovalRule } from "@prisma/client";
+import {
+  Company,
+  User,
+  Expense,
+  ApprovalRule,
+  Prisma,
+} from "@prisma/client";
 import {
   CreateCompanyInput,
   UpdateCompanyInput,
   UpdateCompanySettingsInput,
   CompanyStatsQueryInput,
+  CompanySettingsHistoryQueryInput,
   validateCompanyNameFormat,
   validateCurrencyChange,
   validateExpenseCategories,
 } from "@/lib/validations/companies";
+import { updateApprovalSlaSettingsSchema } from "@/lib/validations/approvals";
+import { AuditService } from "@/services/audit.service";
+import {
+  DEFAULT_COMPANY_SETTINGS,
+  diffCategoryNames,
+  diffSettingsKeys,
+  isCurrencyAllowed,
+  toCompanySettingsColumns,
+  toCompanySettingsValues,
+  type ApprovalSlaSettingsValues,
+  type CompanySettingsDocument,
+  type CompanySettingsValues,
+} from "@/lib/company-settings";
+import { ApprovalSlaService } from "./approval-sla.service";
+import { RoleService } from "./role.service";
+import { isPermissionGranted } from "@/lib/permissions";
 import { logger } from "@/middleware/logger";
 import bcrypt from "bcryptjs";
 
@@ -16,6 +39,7 @@ import bcrypt from "bcryptjs";
  * Company Service
  * Handles all business logic for company management
  * Note: Based on current Prisma schema - Company model has: id, name, country, baseCurrency, createdAt, updatedAt
+ * Company-wide settings are stored in CompanySettings (see src/lib/company-settings.ts)
  */
 
 // Extended types for service responses
@@ -55,6 +79,20 @@ export interface CompanyStats {
   }>;
 }
 
+export interface CompanySettingsPublic extends CompanySettingsDocument {
+  version: number;
+  updatedAt: string | null;
+  updatedBy: { id: string; name: string } | null;
+}
+
+export interface CompanySettingsVersionPublic {
+  version: number;
+  settings: CompanySettingsDocument;
+  changes: string[];
+  changedBy: { id: string; name: string } | null;
+  createdAt: string;
+}
+
 export interface CompanyServiceResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -63,6 +101,11 @@ export interface CompanyServiceResponse<T = unknown> {
   warning?: string;
 }
 
+// A new company and its first admin, when one was created with it
+export type CreatedCompany = Company & {
+  admin: { id: string; name: string; email: string } | null;
+};
+
 export class CompanyService {
   /**
    * Retrieve company profile by ID
@@ -130,12 +173,16 @@ export class CompanyService {
 
   /**
    * Create a new company with optional admin user
-   * Note: Only basic company fields are created based on current schema
+   * Settings given here become the initial settings (version 0). With an
+   * admin, the company also starts with a manager-approval rule.
+   * requireEmailVerification leaves the admin unverified (self-service
+   * signup).
    */
   static async createCompany(
     data: CreateCompanyInput,
-    createdBy?: string
-  ): Promise<CompanyServiceResponse<Company>> {
+    createdBy?: string,
+    options: { requireEmailVerification?: boolean } = {}
+  ): Promise<CompanyServiceResponse<CreatedCompany>> {
     try {
       // Validate company name format
       const nameValidation = validateCompanyNameFormat(data.name);
@@ -188,16 +235,34 @@ export class CompanyService {
         });
 
         // Create admin user if provided
+        let admin: CreatedCompany["admin"] = null;
         if (data.adminUser) {
           const hashedPassword = await bcrypt.hash(data.adminUser.password, 12);
 
-          await tx.user.create({
+          admin = await tx.user.create({
             data: {
               name: data.adminUser.name.trim(),
               email: data.adminUser.email.toLowerCase().trim(),
               password: hashedPassword,
               role: "ADMIN",
               companyId: company.id,
+              ...(options.requireEmailVerification && { emailVerifiedAt: null }),
+            },
+            select: { id: true, name: true, email: true },
+          });
+
+          // Every expense needs its submitter's manager until the admin
+          // sets up their own rules. Submitters without a manager, the admin
+          // to begin with, go to the fallback approver or another admin; an
+          // expense no one else can approve is approved on submission (see
+          // ApprovalService.createApprovalChain)
+          await tx.approvalRule.create({
+            data: {
+              name: "Manager approval",
+              description: "The submitter's manager approves every expense",
+              isManagerApprovalRequired: true,
+              managerApprovalLevels: 1,
+              companyId: company.id,
             },
           });
         }
@@ -221,7 +286,17 @@ export class CompanyService {
           })),
         });
 
-        return company;
+        // Initial settings (version 0)
+        await tx.companySettings.create({
+          data: {
+            companyId: company.id,
+            ...toCompanySettingsColumns(
+              this.mergeSettings(DEFAULT_COMPANY_SETTINGS, data.settings ?? {})
+            ),
+          },
+        });
+
+        return { ...company, admin };
       });
 
       logger.info(`Company created successfully: ${result.id}`, {
@@ -257,7 +332,7 @@ export class CompanyService {
 
   /**
    * Update company profile
-   * Note: Only basic company fields can be updated based on current schema
+   * Settings are passed on to updateCompanySettings
    */
   static async updateCompany(
     companyId: string,
@@ -364,32 +439,21 @@ export class CompanyService {
         },
       });
 
-      // Update expense categories if provided
-      if (data.settings?.expenseCategories) {
-        const categoryValidation = validateExpenseCategories(
-          data.settings.expenseCategories
+      // Settings go through the versioned settings store
+      if (data.settings) {
+        const settingsResult = await this.updateCompanySettings(
+          companyId,
+          data.settings,
+          updatedBy,
+          userRole
         );
-        if (!categoryValidation.success) {
+        if (!settingsResult.success) {
           return {
             success: false,
-            errors: categoryValidation.errors,
+            error: settingsResult.error,
+            errors: settingsResult.errors,
           };
         }
-
-        await prisma.$transaction(async (tx) => {
-          // Delete existing categories
-          await tx.expenseCategory.deleteMany({
-            where: { companyId },
-          });
-
-          // Create new categories
-          await tx.expenseCategory.createMany({
-            data: data.settings!.expenseCategories!.map((name) => ({
-              name: name.trim(),
-              companyId,
-            })),
-          });
-        });
       }
 
       logger.info(`Company updated successfully: ${companyId}`, {
@@ -398,6 +462,16 @@ export class CompanyService {
         changes: Object.keys(updateData),
       });
 
+      await AuditService.record({
+        companyId,
+        entityType: "SETTINGS",
+        entityId: companyId,
+        action: "company_updated",
+        before: existingCompany,
+        after: updatedCompany,
+        fields: ["name", "country", "baseCurrency"],
+      });
+
       return {
         success: true,
         data: updatedCompany,
@@ -412,37 +486,124 @@ export class CompanyService {
   }
 
   /**
-   * Update company settings (placeholder for future settings implementation)
-   * Note: Current schema doesn't have settings field - this is for future extension
+   * Get the company settings, with defaults for anything not configured
+   */
+  static async getCompanySettings(
+    companyId: string
+  ): Promise<CompanyServiceResponse<CompanySettingsPublic>> {
+    try {
+      const company = await prisma.company.findUnique({
+        where: { id: companyId },
+        include: {
+          settings: {
+            include: { updatedBy: { select: { id: true, name: true } } },
+          },
+          expenseCategories: {
+            where: { isActive: true },
+            select: { name: true },
+            orderBy: { name: "asc" },
+          },
+        },
+      });
+
+      if (!company) {
+        return {
+          success: false,
+          error: "Company not found",
+        };
+      }
+
+      const approvalSla = await ApprovalSlaService.getSettings(companyId);
+      if (!approvalSla.success || !approvalSla.data) {
+        return {
+          success: false,
+          error: "Failed to retrieve company settings",
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          ...toCompanySettingsValues(company.settings),
+          approvalSla: {
+            isEnabled: approvalSla.data.isEnabled,
+            stepSlaHours: approvalSla.data.stepSlaHours,
+            reminderBeforeHours: approvalSla.data.reminderBeforeHours,
+            escalationTarget: approvalSla.data.escalationTarget,
+            fallbackApproverId: approvalSla.data.fallbackApprover?.id ?? null,
+          },
+          expenseCategories: company.expenseCategories.map(
+            (category) => category.name
+          ),
+          version: company.settings?.version ?? 0,
+          updatedAt: company.settings?.updatedAt.toISOString() ?? null,
+          updatedBy: company.settings?.updatedBy ?? null,
+        },
+      };
+    } catch (error) {
+      logger.error("Error retrieving company settings:", error as Error);
+      return {
+        success: false,
+        error: "Failed to retrieve company settings",
+      };
+    }
+  }
+
+  /**
+   * Settings other services act on; throws when they can't be loaded
+   */
+  static async getSettingsValues(
+    companyId: string
+  ): Promise<CompanySettingsValues> {
+    const settings = await prisma.companySettings.findUnique({
+      where: { companyId },
+    });
+    return toCompanySettingsValues(settings);
+  }
+
+  /**
+   * Update company settings
+   * Given fields are merged into the current settings and every change is
+   * recorded as a new settings version. Categories are diffed against the
+   * requested list; removed categories still in use are archived.
    */
   static async updateCompanySettings(
     companyId: string,
     settings: UpdateCompanySettingsInput,
     updatedBy: string,
     userRole: string
-  ): Promise<CompanyServiceResponse<{ message: string }>> {
+  ): Promise<
+    CompanyServiceResponse<{
+      message: string;
+      settings: CompanySettingsPublic;
+      changes: string[];
+    }>
+  > {
     try {
-      // Check permissions
-      if (userRole !== "ADMIN") {
+      // Check permissions; custom roles can grant company:settings
+      const permissions = await RoleService.getEffectivePermissions(
+        updatedBy,
+        userRole,
+        companyId
+      );
+      if (!isPermissionGranted(permissions, "company:settings")) {
         return {
           success: false,
           error:
-            "Access denied: Only company admins can update company settings",
+            "Access denied: You don't have permission to update company settings",
         };
       }
 
-      const existingCompany = await prisma.company.findUnique({
-        where: { id: companyId },
-      });
-
-      if (!existingCompany) {
+      const current = await this.getCompanySettings(companyId);
+      if (!current.success || !current.data) {
         return {
           success: false,
-          error: "Company not found",
+          error: current.error,
         };
       }
 
-      // For now, just handle expense categories
+      const before = current.data;
+
       if (settings.expenseCategories) {
         const categoryValidation = validateExpenseCategories(
           settings.expenseCategories
@@ -453,32 +614,144 @@ export class CompanyService {
             errors: categoryValidation.errors,
           };
         }
+      }
 
-        await prisma.$transaction(async (tx) => {
-          // Delete existing categories
-          await tx.expenseCategory.deleteMany({
-            where: { companyId },
-          });
+      const values = this.mergeSettings(before, settings);
+      if (
+        values.defaultCurrency &&
+        !isCurrencyAllowed(values, values.defaultCurrency)
+      ) {
+        return {
+          success: false,
+          errors: [
+            "defaultCurrency: Default currency must be one of the allowed currencies",
+          ],
+        };
+      }
 
-          // Create new categories
-          await tx.expenseCategory.createMany({
-            data: settings.expenseCategories!.map((name) => ({
-              name: name.trim(),
-              companyId,
-            })),
-          });
+      // The SLA has its own table and side effects on pending steps, so it is
+      // saved through ApprovalSlaService before the rest
+      let approvalSla: ApprovalSlaSettingsValues = before.approvalSla;
+      if (settings.approvalSla) {
+        const parsed = updateApprovalSlaSettingsSchema.safeParse({
+          ...before.approvalSla,
+          ...settings.approvalSla,
         });
 
-        logger.info(`Company expense categories updated: ${companyId}`, {
-          companyId,
-          updatedBy,
-          categoriesCount: settings.expenseCategories.length,
-        });
+        if (!parsed.success) {
+          return {
+            success: false,
+            errors: parsed.error.issues.map(
+              (issue) =>
+                `${["approvalSla", ...issue.path].join(".")}: ${issue.message}`
+            ),
+          };
+        }
+
+        approvalSla = {
+          ...parsed.data,
+          fallbackApproverId: parsed.data.fallbackApproverId ?? null,
+        };
+
+        if (
+          JSON.stringify(approvalSla) !== JSON.stringify(before.approvalSla)
+        ) {
+          const slaResult = await ApprovalSlaService.updateSettings(
+            companyId,
+            approvalSla,
+            updatedBy
+          );
+          if (!slaResult.success) {
+            return {
+              success: false,
+              error: slaResult.error?.message,
+            };
+          }
+        }
       }
 
+      const { changes, archivedCategories } = await prisma.$transaction(
+        async (tx) => {
+          const categories = settings.expenseCategories
+            ? await this.syncExpenseCategories(
+                tx,
+                companyId,
+                settings.expenseCategories
+              )
+            : { names: before.expenseCategories, archived: [] };
+
+          const after: CompanySettingsDocument = {
+            ...values,
+            approvalSla,
+            expenseCategories: categories.names,
+          };
+          const changes = diffSettingsKeys(before, after);
+
+          if (changes.length > 0) {
+            const columns = toCompanySettingsColumns(values);
+            const row = await tx.companySettings.upsert({
+              where: { companyId },
+              create: { companyId, ...columns, version: 1, updatedById: updatedBy },
+              update: {
+                ...columns,
+                version: { increment: 1 },
+                updatedById: updatedBy,
+              },
+            });
+
+            await tx.companySettingsVersion.create({
+              data: {
+                companyId,
+                version: row.version,
+                settings: after as unknown as Prisma.InputJsonValue,
+                changes,
+                changedById: updatedBy,
+              },
+            });
+          }
+
+          return { changes, archivedCategories: categories.archived };
+        }
+      );
+
+      logger.info(`Company settings updated: ${companyId}`, {
+        companyId,
+        updatedBy,
+        changes,
+      });
+
+      const updated = await this.getCompanySettings(companyId);
+      if (!updated.success || !updated.data) {
+        return {
+          success: false,
+          error: updated.error,
+        };
+      }
+
+      await AuditService.record({
+        companyId,
+        entityType: "SETTINGS",
+        entityId: companyId,
+        action: "settings_updated",
+        before: { ...before },
+        after: { ...updated.data },
+        fields: changes,
+      });
+
       return {
         success: true,
-        data: { message: "Company settings updated successfully" },
+        data: {
+          message:
+            changes.length > 0
+              ? "Company settings updated successfully"
+              : "Company settings are unchanged",
+          settings: updated.data,
+          changes,
+        },
+        warning:
+          archivedCategories.length > 0
+            ? `Categories still in use were archived instead of deleted: ${archivedCategories.join(", ")}`
+            : undefined,
       };
     } catch (error) {
       logger.error("Error updating company settings:", error as Error);
@@ -489,6 +762,175 @@ export class CompanyService {
     }
   }
 
+  /**
+   * Versions of the company settings, newest first
+   */
+  static async getCompanySettingsHistory(
+    companyId: string,
+    query: CompanySettingsHistoryQueryInput
+  ): Promise<
+    CompanyServiceResponse<{
+      versions: CompanySettingsVersionPublic[];
+      pagination: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        hasNext: boolean;
+        hasPrevious: boolean;
+      };
+    }>
+  > {
+    try {
+      const where = { companyId };
+      const [total, versions] = await Promise.all([
+        prisma.companySettingsVersion.count({ where }),
+        prisma.companySettingsVersion.findMany({
+          where,
+          include: { changedBy: { select: { id: true, name: true } } },
+          orderBy: { version: "desc" },
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+      ]);
+
+      const totalPages = Math.ceil(total / query.limit);
+
+      return {
+        success: true,
+        data: {
+          versions: versions.map((version) => ({
+            version: version.version,
+            settings: version.settings as unknown as CompanySettingsDocument,
+            changes: version.changes,
+            changedBy: version.changedBy,
+            createdAt: version.createdAt.toISOString(),
+          })),
+          pagination: {
+            total,
+            page: query.page,
+            limit: query.limit,
+            totalPages,
+            hasNext: query.page < totalPages,
+            hasPrevious: query.page > 1,
+          },
+        },
+      };
+    } catch (error) {
+      logger.error("Error retrieving company settings history:", error as Error);
+      return {
+        success: false,
+        error: "Failed to retrieve company settings history",
+      };
+    }
+  }
+
+  /**
+   * Apply a partial settings update to the current settings
+   */
+  private static mergeSettings(
+    current: CompanySettingsValues,
+    update: Omit<UpdateCompanySettingsInput, "approvalSla" | "expenseCategories">
+  ): CompanySettingsValues {
+    return {
+      fiscalYearStartMonth:
+        update.fiscalYearStartMonth ?? current.fiscalYearStartMonth,
+      defaultCurrency:
+        update.defaultCurrency !== undefined
+          ? update.defaultCurrency
+          : current.defaultCurrency,
+      allowedCurrencies: update.allowedCurrencies ?? current.allowedCurrencies,
+      receiptPolicy: { ...current.receiptPolicy, ...update.receiptPolicy },
+      notifications: { ...current.notifications, ...update.notifications },
+      security: { ...current.security, ...update.security },
+    };
+  }
+
+  /**
+   * Create, restore and remove categories so the company has the requested
+   * active ones. Removed categories used by expenses, policies or
+   * subcategories are archived rather than deleted. Returns the resulting
+   * active category names and the archived ones.
+   */
+  private static async syncExpenseCategories(
+    tx: Prisma.TransactionClient,
+    companyId: string,
+    requested: string[]
+  ): Promise<{ names: string[]; archived: string[] }> {
+    const existing = await tx.expenseCategory.findMany({
+      where: { companyId },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        _count: {
+          select: {
+            expenses: true,
+            lineItems: true,
+            policies: true,
+            children: true,
+          },
+        },
+      },
+    });
+
+    const active = existing.filter((category) => category.isActive);
+    const { toCreate, toRemove } = diffCategoryNames(active, requested);
+
+    // Names must stay unique, so a requested name that was archived comes back
+    const { toCreate: toAdd } = diffCategoryNames(existing, toCreate);
+    const restoredNames = new Set(toCreate.map((name) => name.toLowerCase()));
+    const toRestore = existing.filter(
+      (category) =>
+        !category.isActive && restoredNames.has(category.name.toLowerCase())
+    );
+
+    const inUse = (category: (typeof existing)[number]) =>
+      category._count.expenses > 0 ||
+      category._count.lineItems > 0 ||
+      category._count.policies > 0 ||
+      category._count.children > 0;
+    const archived = toRemove.filter(inUse);
+    const removable = toRemove.filter((category) => !inUse(category));
+
+    if (archived.length > 0) {
+      await tx.expenseCategory.updateMany({
+        where: { id: { in: archived.map((category) => category.id) } },
+        data: { isActive: false, archivedAt: new Date() },
+      });
+    }
+
+    if (removable.length > 0) {
+      await tx.expenseCategory.deleteMany({
+        where: { id: { in: removable.map((category) => category.id) } },
+      });
+    }
+
+    if (toRestore.length > 0) {
+      await tx.expenseCategory.updateMany({
+        where: { id: { in: toRestore.map((category) => category.id) } },
+        data: { isActive: true, archivedAt: null },
+      });
+    }
+
+    if (toAdd.length > 0) {
+      await tx.expenseCategory.createMany({
+        data: toAdd.map((name) => ({ name, companyId })),
+      });
+    }
+
+    const categories = await tx.expenseCategory.findMany({
+      where: { companyId, isActive: true },
+      select: { name: true },
+      orderBy: { name: "asc" },
+    });
+
+    return {
+      names: categories.map((category) => category.name),
+      archived: archived.map((category) => category.name),
+    };
+  }
+
   /**
    * Get company statistics and analytics
    */
@@ -520,7 +962,8 @@ export class CompanyService {
         dateFilter.lte = new Date(query.endDate);
       }
 
-      // Get basic stats
+      // Get basic stats. Amounts are in the company base currency; expenses
+      // still waiting for an exchange rate are counted but not summed.
       const [
         totalUsers,
         expenseStats,
@@ -540,8 +983,8 @@ export class CompanyService {
               Object.keys(dateFilter).length > 0 ? dateFilter : undefined,
           },
           _count: true,
-          _sum: { amount: true },
-          _avg: { amount: true },
+          _sum: { baseAmount: true },
+          _avg: { baseAmount: true },
         }),
         // Pending approvals (using correct enum value)
         prisma.expense.count({
@@ -581,7 +1024,7 @@ export class CompanyService {
             Object.keys(dateFilter).length > 0 ? dateFilter : undefined,
         },
         _count: true,
-        _sum: { amount: true },
+        _sum: { baseAmount: true },
       });
 
       // Get category details
@@ -596,7 +1039,7 @@ export class CompanyService {
       const formattedExpensesByCategory = expensesByCategory.map((item) => ({
         category: categoryMap.get(item.categoryId) || "Unknown",
         count: item._count,
-        amount: Number(item._sum.amount || 0),
+        amount: Number(item._sum.baseAmount || 0),
       }));
 
       // Get expenses by month (last 12 months)
@@ -610,7 +1053,7 @@ export class CompanyService {
         SELECT 
           TO_CHAR(DATE_TRUNC('month', "createdAt"), 'YYYY-MM') as month,
           COUNT(*) as count,
-          COALESCE(SUM(amount), 0) as amount
+          COALESCE(SUM("baseAmount"), 0) as amount
         FROM "Expense"
         WHERE "companyId" = ${companyId}
           AND "createdAt" >= NOW() - INTERVAL '12 months'
@@ -627,7 +1070,7 @@ export class CompanyService {
       `;
 
       // Calculate top expense categories
-      const totalAmount = Number(expenseStats._sum.amount || 0);
+      const totalAmount = Number(expenseStats._sum.baseAmount || 0);
       const topExpenseCategories = formattedExpensesByCategory
         .sort((a, b) => b.amount - a.amount)
         .slice(0, 5)
@@ -640,8 +1083,8 @@ export class CompanyService {
       const stats: CompanyStats = {
         totalUsers,
         totalExpenses: expenseStats._count,
-        totalExpenseAmount: Number(expenseStats._sum.amount || 0),
-        averageExpenseAmount: Number(expenseStats._avg.amount || 0),
+        totalExpenseAmount: Number(expenseStats._sum.baseAmount || 0),
+        averageExpenseAmount: Number(expenseStats._avg.baseAmount || 0),
         pendingApprovals,
         approvedExpenses,
         rejectedExpenses,
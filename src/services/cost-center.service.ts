@@ -0,0 +1,258 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import type {
+  CreateCostCenterInput,
+  UpdateCostCenterInput,
+} from "@/lib/validations/departments";
+import { DepartmentService } from "./department.service";
+
+export interface CostCenterPublic {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+  department: { id: string; name: string } | null;
+  // Users whose expenses default to the cost center
+  userCount: number;
+  expenseCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const costCenterInclude = {
+  department: { select: { id: true, name: true } },
+  _count: { select: { defaultForUsers: true, expenses: true } },
+} as const;
+
+type CostCenterRow = Prisma.CostCenterGetPayload<{
+  include: typeof costCenterInclude;
+}>;
+
+const toCostCenterPublic = (costCenter: CostCenterRow): CostCenterPublic => ({
+  id: costCenter.id,
+  code: costCenter.code,
+  name: costCenter.name,
+  isActive: costCenter.isActive,
+  department: costCenter.department,
+  userCount: costCenter._count.defaultForUsers,
+  expenseCount: costCenter._count.expenses,
+  createdAt: costCenter.createdAt.toISOString(),
+  updatedAt: costCenter.updatedAt.toISOString(),
+});
+
+export class CostCenterService {
+  /**
+   * List the company's cost centers by code
+   */
+  static async listCostCenters(
+    companyId: string,
+    options: { includeInactive?: boolean; departmentId?: string } = {}
+  ): Promise<ServiceResult<CostCenterPublic[]>> {
+    try {
+      const costCenters = await prisma.costCenter.findMany({
+        where: {
+          companyId,
+          ...(!options.includeInactive && { isActive: true }),
+          ...(options.departmentId && { departmentId: options.departmentId }),
+        },
+        include: costCenterInclude,
+        orderBy: { code: "asc" },
+      });
+
+      return { success: true, data: costCenters.map(toCostCenterPublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list cost centers", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve cost centers",
+          code: "COST_CENTER_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a cost center, optionally owned by a department
+   */
+  static async createCostCenter(
+    companyId: string,
+    input: CreateCostCenterInput,
+    userId: string
+  ): Promise<ServiceResult<CostCenterPublic>> {
+    try {
+      const duplicate = await this.findByCode(companyId, input.code);
+      if (duplicate) {
+        return {
+          success: false,
+          error: {
+            message: "A cost center with this code already exists",
+            code: "COST_CENTER_EXISTS",
+          },
+        };
+      }
+
+      if (input.departmentId) {
+        const departmentError = await DepartmentService.validateDepartment(
+          companyId,
+          input.departmentId
+        );
+        if (departmentError) return departmentError;
+      }
+
+      const costCenter = await prisma.costCenter.create({
+        data: {
+          code: input.code,
+          name: input.name,
+          departmentId: input.departmentId,
+          companyId,
+        },
+        include: costCenterInclude,
+      });
+
+      businessLogger.logUserAction("cost_center_created", userId, {
+        companyId,
+        costCenterId: costCenter.id,
+      });
+
+      return { success: true, data: toCostCenterPublic(costCenter) };
+    } catch (error) {
+      businessLogger.error("Failed to create cost center", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create cost center",
+          code: "COST_CENTER_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a cost center. Inactive cost centers stay on existing expenses
+   * but can't be charged or set as a user's default.
+   */
+  static async updateCostCenter(
+    costCenterId: string,
+    companyId: string,
+    input: UpdateCostCenterInput,
+    userId: string
+  ): Promise<ServiceResult<CostCenterPublic>> {
+    try {
+      const existing = await prisma.costCenter.findFirst({
+        where: { id: costCenterId, companyId },
+      });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: {
+            message: "Cost center not found or access denied",
+            code: "COST_CENTER_NOT_FOUND",
+          },
+        };
+      }
+
+      if (input.code) {
+        const duplicate = await this.findByCode(companyId, input.code);
+        if (duplicate && duplicate.id !== costCenterId) {
+          return {
+            success: false,
+            error: {
+              message: "A cost center with this code already exists",
+              code: "COST_CENTER_EXISTS",
+            },
+          };
+        }
+      }
+
+      if (input.departmentId) {
+        const departmentError = await DepartmentService.validateDepartment(
+          companyId,
+          input.departmentId
+        );
+        if (departmentError) return departmentError;
+      }
+
+      const costCenter = await prisma.costCenter.update({
+        where: { id: costCenterId },
+        data: {
+          ...(input.code !== undefined && { code: input.code }),
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.departmentId !== undefined && {
+            departmentId: input.departmentId,
+          }),
+          ...(input.isActive !== undefined && { isActive: input.isActive }),
+        },
+        include: costCenterInclude,
+      });
+
+      businessLogger.logUserAction(
+        input.isActive === false && existing.isActive
+          ? "cost_center_deactivated"
+          : "cost_center_updated",
+        userId,
+        { companyId, costCenterId, changes: Object.keys(input) }
+      );
+
+      return { success: true, data: toCostCenterPublic(costCenter) };
+    } catch (error) {
+      businessLogger.error("Failed to update cost center", error as Error, {
+        companyId,
+        costCenterId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update cost center",
+          code: "COST_CENTER_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Error result when any of the cost centers can't be charged, otherwise null
+   */
+  static async validateCostCenters(
+    companyId: string,
+    costCenterIds: string[]
+  ): Promise<ServiceResult<never> | null> {
+    const ids = Array.from(new Set(costCenterIds));
+    const costCenters = await prisma.costCenter.findMany({
+      where: { id: { in: ids }, companyId, isActive: true },
+      select: { id: true },
+    });
+
+    if (costCenters.length !== ids.length) {
+      const found = new Set(costCenters.map((costCenter) => costCenter.id));
+      return {
+        success: false,
+        error: {
+          message: "Cost center not found or inactive",
+          code: "COST_CENTER_NOT_FOUND",
+          details: ids.filter((id) => !found.has(id)),
+        },
+      };
+    }
+
+    return null;
+  }
+
+  private static findByCode(companyId: string, code: string) {
+    return prisma.costCenter.findFirst({
+      where: {
+        code: { equals: code, mode: "insensitive" },
+        companyId,
+      },
+    });
+  }
+}
+
+export default CostCenterService;
@@ -0,0 +1,312 @@
+import { prisma } from "@/lib/prisma";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { NotificationService } from "./notification-simple.service";
+
+export interface ApprovalDelegationPublic {
+  id: string;
+  delegator: { id: string; name: string; email: string };
+  delegate: { id: string; name: string; email: string };
+  createdBy: { id: string; name: string };
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+} as const;
+
+export class DelegationService {
+  /**
+   * Create a delegation letting `delegateId` act on `delegatorId`'s approvals.
+   * Dates are inclusive calendar days (YYYY-MM-DD).
+   */
+  static async createDelegation(data: {
+    companyId: string;
+    delegatorId: string;
+    delegateId: string;
+    startDate: string;
+    endDate: string;
+    reason?: string;
+    createdById: string;
+  }): Promise<ServiceResult<ApprovalDelegationPublic>> {
+    try {
+      if (data.delegatorId === data.delegateId) {
+        return {
+          success: false,
+          error: {
+            message: "Users cannot delegate approvals to themselves",
+            code: "INVALID_DELEGATE",
+          },
+        };
+      }
+
+      const users = await prisma.user.findMany({
+        where: {
+          id: { in: [data.delegatorId, data.delegateId] },
+          companyId: data.companyId,
+        },
+        select: { id: true, role: true },
+      });
+
+      const delegate = users.find((user) => user.id === data.delegateId);
+      if (users.length !== 2 || !delegate) {
+        return {
+          success: false,
+          error: {
+            message: "Delegator or delegate not found in this company",
+            code: "USER_NOT_FOUND",
+          },
+        };
+      }
+
+      // The delegate acts through the approval endpoints, which are limited
+      // to managers and admins
+      if (delegate.role !== "MANAGER" && delegate.role !== "ADMIN") {
+        return {
+          success: false,
+          error: {
+            message: "Delegates must be managers or admins",
+            code: "INVALID_DELEGATE",
+          },
+        };
+      }
+
+      const startDate = new Date(`${data.startDate}T00:00:00.000Z`);
+      const endDate = new Date(`${data.endDate}T23:59:59.999Z`);
+
+      // Avoid ambiguous routing: one delegate per approver at any time
+      const overlapping = await prisma.approvalDelegation.findFirst({
+        where: {
+          delegatorId: data.delegatorId,
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+      });
+
+      if (overlapping) {
+        return {
+          success: false,
+          error: {
+            message: "An existing delegation overlaps these dates",
+            code: "DELEGATION_OVERLAP",
+          },
+        };
+      }
+
+      const delegation = await prisma.approvalDelegation.create({
+        data: {
+          companyId: data.companyId,
+          delegatorId: data.delegatorId,
+          delegateId: data.delegateId,
+          createdById: data.createdById,
+          startDate,
+          endDate,
+          reason: data.reason,
+        },
+        include: {
+          delegator: { select: userSummarySelect },
+          delegate: { select: userSummarySelect },
+          createdBy: { select: { id: true, name: true } },
+        },
+      });
+
+      await NotificationService.createNotification({
+        userId: delegation.delegateId,
+        type: "SYSTEM_NOTIFICATION",
+        title: "Approvals delegated to you",
+        message: `You can approve expenses on behalf of ${
+          delegation.delegator.name
+        } from ${data.startDate} to ${data.endDate}`,
+        data: { delegationId: delegation.id },
+      });
+
+      businessLogger.logUserAction("delegation_created", data.createdById, {
+        delegationId: delegation.id,
+        delegatorId: data.delegatorId,
+        delegateId: data.delegateId,
+      });
+
+      return {
+        success: true,
+        data: this.toPublicDelegation(delegation),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to create delegation", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to create delegation",
+          code: "DELEGATION_CREATION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * List delegations in a company, optionally for a single user (as delegator
+   * or delegate). Expired delegations are left out unless requested.
+   */
+  static async getDelegations(
+    companyId: string,
+    filters: { userId?: string; includeExpired?: boolean }
+  ): Promise<ServiceResult<ApprovalDelegationPublic[]>> {
+    try {
+      const where: Record<string, unknown> = { companyId };
+
+      if (filters.userId) {
+        where.OR = [
+          { delegatorId: filters.userId },
+          { delegateId: filters.userId },
+        ];
+      }
+
+      if (!filters.includeExpired) {
+        where.endDate = { gte: new Date() };
+      }
+
+      const delegations = await prisma.approvalDelegation.findMany({
+        where,
+        include: {
+          delegator: { select: userSummarySelect },
+          delegate: { select: userSummarySelect },
+          createdBy: { select: { id: true, name: true } },
+        },
+        orderBy: {
+          startDate: "asc",
+        },
+      });
+
+      return {
+        success: true,
+        data: delegations.map((delegation) =>
+          this.toPublicDelegation(delegation)
+        ),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get delegations", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve delegations",
+          code: "DELEGATIONS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Remove a delegation. Only the delegator or an admin may do so.
+   */
+  static async deleteDelegation(
+    delegationId: string,
+    user: { id: string; role: string; companyId: string }
+  ): Promise<ServiceResult<{ id: string }>> {
+    try {
+      const delegation = await prisma.approvalDelegation.findFirst({
+        where: {
+          id: delegationId,
+          companyId: user.companyId,
+        },
+      });
+
+      if (!delegation) {
+        return {
+          success: false,
+          error: {
+            message: "Delegation not found",
+            code: "DELEGATION_NOT_FOUND",
+          },
+        };
+      }
+
+      if (user.role !== "ADMIN" && delegation.delegatorId !== user.id) {
+        return {
+          success: false,
+          error: {
+            message: "Access denied: You can only remove your own delegations",
+            code: "FORBIDDEN",
+          },
+        };
+      }
+
+      await prisma.approvalDelegation.delete({
+        where: { id: delegationId },
+      });
+
+      businessLogger.logUserAction("delegation_deleted", user.id, {
+        delegationId,
+      });
+
+      return {
+        success: true,
+        data: { id: delegationId },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to delete delegation", error as Error, {
+        delegationId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to delete delegation",
+          code: "DELEGATION_DELETION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Ids of the approvers whose approvals `delegateId` may currently act on
+   */
+  static async getActiveDelegatorIds(
+    delegateId: string,
+    at: Date = new Date()
+  ): Promise<string[]> {
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        delegateId,
+        startDate: { lte: at },
+        endDate: { gte: at },
+      },
+      select: { delegatorId: true },
+    });
+
+    return delegations.map((delegation) => delegation.delegatorId);
+  }
+
+  // Helper method to convert a delegation row to its public shape
+  private static toPublicDelegation(delegation: {
+    id: string;
+    startDate: Date;
+    endDate: Date;
+    reason: string | null;
+    createdAt: Date;
+    delegator: { id: string; name: string; email: string };
+    delegate: { id: string; name: string; email: string };
+    createdBy: { id: string; name: string };
+  }): ApprovalDelegationPublic {
+    const now = new Date();
+
+    return {
+      id: delegation.id,
+      delegator: delegation.delegator,
+      delegate: delegation.delegate,
+      createdBy: delegation.createdBy,
+      startDate: delegation.startDate.toISOString(),
+      endDate: delegation.endDate.toISOString(),
+      reason: delegation.reason,
+      isActive: delegation.startDate <= now && delegation.endDate >= now,
+      createdAt: delegation.createdAt.toISOString(),
+    };
+  }
+}
+
+export default DelegationService;
@@ -0,0 +1,406 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import type {
+  CreateDepartmentInput,
+  UpdateDepartmentInput,
+} from "@/lib/validations/departments";
+
+export interface DepartmentPublic {
+  id: string;
+  name: string;
+  code: string | null;
+  isActive: boolean;
+  head: { id: string; name: string } | null;
+  memberCount: number;
+  costCenters: { id: string; code: string; name: string; isActive: boolean }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DepartmentMember {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  costCenterId: string | null;
+}
+
+const departmentInclude = {
+  head: { select: { id: true, name: true } },
+  costCenters: {
+    select: { id: true, code: true, name: true, isActive: true },
+    orderBy: { code: "asc" },
+  },
+  _count: { select: { members: true } },
+} as const;
+
+type DepartmentRow = Prisma.DepartmentGetPayload<{
+  include: typeof departmentInclude;
+}>;
+
+const toDepartmentPublic = (department: DepartmentRow): DepartmentPublic => ({
+  id: department.id,
+  name: department.name,
+  code: department.code,
+  isActive: department.isActive,
+  head: department.head,
+  memberCount: department._count.members,
+  costCenters: department.costCenters,
+  createdAt: department.createdAt.toISOString(),
+  updatedAt: department.updatedAt.toISOString(),
+});
+
+export class DepartmentService {
+  /**
+   * List the company's departments by name
+   */
+  static async listDepartments(
+    companyId: string,
+    options: { includeInactive?: boolean } = {}
+  ): Promise<ServiceResult<DepartmentPublic[]>> {
+    try {
+      const departments = await prisma.department.findMany({
+        where: {
+          companyId,
+          ...(!options.includeInactive && { isActive: true }),
+        },
+        include: departmentInclude,
+        orderBy: { name: "asc" },
+      });
+
+      return { success: true, data: departments.map(toDepartmentPublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list departments", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve departments",
+          code: "DEPARTMENT_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a department
+   */
+  static async createDepartment(
+    companyId: string,
+    input: CreateDepartmentInput,
+    userId: string
+  ): Promise<ServiceResult<DepartmentPublic>> {
+    try {
+      const duplicate = await this.findByName(companyId, input.name);
+      if (duplicate) {
+        return {
+          success: false,
+          error: {
+            message: "A department with this name already exists",
+            code: "DEPARTMENT_EXISTS",
+          },
+        };
+      }
+
+      if (input.headId) {
+        const headError = await this.validateHead(companyId, input.headId);
+        if (headError) return headError;
+      }
+
+      const department = await prisma.department.create({
+        data: {
+          name: input.name,
+          code: input.code,
+          headId: input.headId,
+          companyId,
+        },
+        include: departmentInclude,
+      });
+
+      businessLogger.logUserAction("department_created", userId, {
+        companyId,
+        departmentId: department.id,
+      });
+
+      return { success: true, data: toDepartmentPublic(department) };
+    } catch (error) {
+      businessLogger.error("Failed to create department", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create department",
+          code: "DEPARTMENT_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a department. Deactivating keeps its members and cost centers,
+   * but it can no longer be assigned.
+   */
+  static async updateDepartment(
+    departmentId: string,
+    companyId: string,
+    input: UpdateDepartmentInput,
+    userId: string
+  ): Promise<ServiceResult<DepartmentPublic>> {
+    try {
+      const existing = await prisma.department.findFirst({
+        where: { id: departmentId, companyId },
+      });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: {
+            message: "Department not found or access denied",
+            code: "DEPARTMENT_NOT_FOUND",
+          },
+        };
+      }
+
+      if (input.name) {
+        const duplicate = await this.findByName(companyId, input.name);
+        if (duplicate && duplicate.id !== departmentId) {
+          return {
+            success: false,
+            error: {
+              message: "A department with this name already exists",
+              code: "DEPARTMENT_EXISTS",
+            },
+          };
+        }
+      }
+
+      if (input.headId) {
+        const headError = await this.validateHead(companyId, input.headId);
+        if (headError) return headError;
+      }
+
+      const department = await prisma.department.update({
+        where: { id: departmentId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.code !== undefined && { code: input.code }),
+          ...(input.headId !== undefined && { headId: input.headId }),
+          ...(input.isActive !== undefined && { isActive: input.isActive }),
+        },
+        include: departmentInclude,
+      });
+
+      businessLogger.logUserAction(
+        input.isActive === false && existing.isActive
+          ? "department_deactivated"
+          : "department_updated",
+        userId,
+        { companyId, departmentId, changes: Object.keys(input) }
+      );
+
+      return { success: true, data: toDepartmentPublic(department) };
+    } catch (error) {
+      businessLogger.error("Failed to update department", error as Error, {
+        companyId,
+        departmentId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update department",
+          code: "DEPARTMENT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The department's members
+   */
+  static async getMembers(
+    departmentId: string,
+    companyId: string
+  ): Promise<ServiceResult<DepartmentMember[]>> {
+    try {
+      const department = await prisma.department.findFirst({
+        where: { id: departmentId, companyId },
+        select: {
+          members: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+              costCenterId: true,
+            },
+            orderBy: { name: "asc" },
+          },
+        },
+      });
+
+      if (!department) {
+        return {
+          success: false,
+          error: {
+            message: "Department not found or access denied",
+            code: "DEPARTMENT_NOT_FOUND",
+          },
+        };
+      }
+
+      return { success: true, data: department.members };
+    } catch (error) {
+      businessLogger.error("Failed to get department members", error as Error, {
+        companyId,
+        departmentId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve department members",
+          code: "DEPARTMENT_MEMBERS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Make the given users the department's members. Users move over from
+   * their previous department; members not listed leave the department.
+   */
+  static async setMembers(
+    departmentId: string,
+    companyId: string,
+    userIds: string[],
+    userId: string
+  ): Promise<ServiceResult<DepartmentMember[]>> {
+    try {
+      const departmentError = await this.validateDepartment(
+        companyId,
+        departmentId
+      );
+      if (departmentError) return departmentError;
+
+      const users = await prisma.user.findMany({
+        where: { id: { in: userIds }, companyId },
+        select: { id: true },
+      });
+
+      if (users.length !== userIds.length) {
+        const found = new Set(users.map((user) => user.id));
+        return {
+          success: false,
+          error: {
+            message: "Some users were not found in your company",
+            code: "USER_NOT_FOUND",
+            details: userIds.filter((id) => !found.has(id)),
+          },
+        };
+      }
+
+      await prisma.$transaction([
+        prisma.user.updateMany({
+          where: { departmentId, id: { notIn: userIds } },
+          data: { departmentId: null },
+        }),
+        prisma.user.updateMany({
+          where: { id: { in: userIds }, companyId },
+          data: { departmentId },
+        }),
+      ]);
+
+      businessLogger.logUserAction("department_members_updated", userId, {
+        companyId,
+        departmentId,
+        memberCount: userIds.length,
+      });
+
+      return this.getMembers(departmentId, companyId);
+    } catch (error) {
+      businessLogger.error("Failed to set department members", error as Error, {
+        companyId,
+        departmentId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update department members",
+          code: "DEPARTMENT_MEMBERS_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Error result when the department can't be assigned, otherwise null
+   */
+  static async validateDepartment(
+    companyId: string,
+    departmentId: string
+  ): Promise<ServiceResult<never> | null> {
+    const department = await prisma.department.findFirst({
+      where: { id: departmentId, companyId },
+      select: { isActive: true },
+    });
+
+    if (!department) {
+      return {
+        success: false,
+        error: {
+          message: "Department not found or access denied",
+          code: "DEPARTMENT_NOT_FOUND",
+        },
+      };
+    }
+
+    if (!department.isActive) {
+      return {
+        success: false,
+        error: {
+          message: "Department is inactive",
+          code: "DEPARTMENT_INACTIVE",
+        },
+      };
+    }
+
+    return null;
+  }
+
+  private static findByName(companyId: string, name: string) {
+    return prisma.department.findFirst({
+      where: {
+        name: { equals: name, mode: "insensitive" },
+        companyId,
+      },
+    });
+  }
+
+  // Error result when the user can't head a department, otherwise null
+  private static async validateHead(
+    companyId: string,
+    headId: string
+  ): Promise<ServiceResult<never> | null> {
+    const head = await prisma.user.findFirst({
+      where: { id: headId, companyId },
+      select: { id: true },
+    });
+
+    if (!head) {
+      return {
+        success: false,
+        error: {
+          message: "Department head not found in your company",
+          code: "HEAD_NOT_FOUND",
+        },
+      };
+    }
+
+    return null;
+  }
+}
+
+export default DepartmentService;
@@ -2,7 +2,10 @@ import { prisma } from "@/lib/prisma";
 import { logger } from "@/middleware/logger";
 import {
   CreateExpenseInput,
+  CreateMileageExpenseInput,
+  CreatePerDiemExpenseInput,
   UpdateExpenseInput,
+  LineItemInput,
   ListExpensesQueryInput,
   validateExpenseModification,
   validateExpenseAccess,
@@ -14,9 +17,63 @@ import {
   ExpenseCategory,
   Receipt,
   ExpenseApproval,
+  CostCenter,
+  ExpenseCostAllocation,
+  ExpenseLineItem,
+  Project,
+  ExpenseType,
+  Prisma,
 } from "@prisma/client";
+import { ApprovalChainStep, buildApprovalChain } from "@/lib/approval-chain";
+import { toExpenseEventData } from "@/lib/webhooks";
+import {
+  hasBlockingViolation,
+  type PolicyViolation,
+} from "@/lib/expense-policies";
+import { isCurrencyAllowed } from "@/lib/company-settings";
+import {
+  getPrimaryCostCenterId,
+  type CostAllocation,
+} from "@/lib/cost-allocation";
+import {
+  perDiemStartDate,
+  type ExpenseCalculation,
+  type MileageCalculation,
+} from "@/lib/expense-calculations";
+import {
+  getPrimaryLineIndex,
+  linesMatchTotal,
+  resolveLineTax,
+} from "@/lib/line-items";
 import { ApprovalService } from "./approval.service";
+import { AuditService } from "./audit.service";
+import { CompanyService } from "./company.service";
+import { CostCenterService } from "./cost-center.service";
+import { EventBus } from "./event-bus.service";
+import { ExpenseRateService } from "./expense-rate.service";
+import { ExchangeRateService } from "./exchange-rate.service";
 import { NotificationService } from "./notification.service";
+import { PolicyService } from "./policy.service";
+import { ProjectService } from "./project.service";
+
+// Expense fields whose changes are kept in the audit trail
+const EXPENSE_AUDIT_FIELDS = [
+  "description",
+  "expenseDate",
+  "amount",
+  "currency",
+  "type",
+  "status",
+  "remarks",
+  "categoryId",
+  "costCenterId",
+  "projectId",
+  "isBillable",
+  "reportId",
+  "advanceId",
+  "exchangeRate",
+  "baseAmount",
+] as const;
 
 /**
  * Enhanced Expense Service
@@ -28,6 +85,12 @@ type PrismaWhereFilter = Record<string, any>;
 type PrismaOrderBy = Record<string, "asc" | "desc">;
 type PrismaUpdateData = Record<string, any>;
 
+// Line items in order, with their category names
+const LINE_ITEMS_INCLUDE = {
+  include: { category: { select: { id: true, name: true } } },
+  orderBy: { position: "asc" },
+} as const;
+
 interface ExpenseAnalyticsResponse {
   summary: {
     totalExpenses: number;
@@ -55,8 +118,15 @@ export interface ExpenseWithDetails extends Expense {
   submitter?: Partial<User>;
   company?: Company;
   category?: ExpenseCategory;
-  receipt?: Receipt | null;
+  receipts?: Receipt[];
   approvals?: Array<ExpenseApproval & { approver: Partial<User> }>;
+  approvalChain?: ApprovalChainStep[];
+  costCenter?: CostCenter | null;
+  costAllocations?: ExpenseCostAllocation[];
+  project?: Project | null;
+  lineItems?: Array<
+    ExpenseLineItem & { category: Pick<ExpenseCategory, "id" | "name"> }
+  >;
 }
 
 export interface ExpenseListItem {
@@ -65,12 +135,28 @@ export interface ExpenseListItem {
   userName: string;
   amount: number;
   currency: string;
+  // Amount in the company base currency; null until a rate is available
+  baseAmount: number | null;
+  baseCurrency: string | null;
+  exchangeRate: number | null;
   category: string;
+  costCenter: { id: string; code: string; name: string } | null;
+  // Shares per cost center when the expense is split
+  costAllocations: { costCenterId: string; percentage: number }[];
+  project: { id: string; code: string; name: string; clientName: string } | null;
+  isBillable: boolean;
+  invoicedAt: Date | null;
+  // The expense report the expense is submitted with
+  report: { id: string; title: string } | null;
+  // MILEAGE and PER_DIEM amounts are calculated from the rate tables
+  type: ExpenseType;
   description: string;
   status: string;
   expenseDate: Date;
   createdAt: Date;
   receiptCount: number;
+  // Zero unless the expense is itemised
+  lineItemCount: number;
 }
 
 export interface ExpenseListResponse {
@@ -95,25 +181,43 @@ export interface ExpenseServiceResponse<T = unknown> {
   error?: string;
   errors?: string[];
   warning?: string;
+  // Company policy results; the request was refused when one of them blocks
+  policyViolations?: PolicyViolation[];
 }
 
 export class EnhancedExpenseService {
   /**
-   * Create a new expense
+   * Create a new expense. `calculation` is given for MILEAGE and PER_DIEM
+   * expenses, whose amount was derived from the rate tables.
    */
   static async createExpense(
     data: CreateExpenseInput,
     userId: string,
-    companyId: string
+    companyId: string,
+    calculation?: ExpenseCalculation
   ): Promise<ExpenseServiceResponse<ExpenseWithDetails>> {
     try {
+      // Itemised expenses take the category of their largest line
+      const itemised = data.lineItems
+        ? await this.resolveLineItems(companyId, data.lineItems)
+        : null;
+      if (itemised && "error" in itemised) {
+        return {
+          success: false,
+          error: itemised.error,
+        };
+      }
+
       // Validate category exists and is active for company
-      const category = await prisma.expenseCategory.findFirst({
-        where: {
-          name: data.category,
-          companyId: companyId,
-        },
-      });
+      const category = itemised
+        ? { id: itemised.categoryId }
+        : await prisma.expenseCategory.findFirst({
+            where: {
+              name: data.category,
+              companyId: companyId,
+              isActive: true,
+            },
+          });
 
       if (!category) {
         return {
@@ -123,6 +227,32 @@ export class EnhancedExpenseService {
         };
       }
 
+      const assignment = await this.resolveCostAssignment(
+        companyId,
+        userId,
+        data
+      );
+      if ("error" in assignment) {
+        return {
+          success: false,
+          error: assignment.error,
+        };
+      }
+
+      if (data.projectId) {
+        const projectError = await ProjectService.validateProject(
+          companyId,
+          data.projectId,
+          new Date(data.date)
+        );
+        if (projectError) {
+          return {
+            success: false,
+            error: projectError.error?.message,
+          };
+        }
+      }
+
       // Get company settings for validation
       const company = await prisma.company.findUnique({
         where: { id: companyId },
@@ -135,6 +265,56 @@ export class EnhancedExpenseService {
         };
       }
 
+      const settings = await CompanyService.getSettingsValues(companyId);
+      const currency =
+        data.currency ?? settings.defaultCurrency ?? company.baseCurrency;
+
+      if (!isCurrencyAllowed(settings, currency)) {
+        return {
+          success: false,
+          error: `Expenses cannot be claimed in ${currency}. Allowed currencies: ${settings.allowedCurrencies.join(", ")}`,
+        };
+      }
+
+      // Provisional base amount; left empty when no rate is known yet and
+      // filled in when rates arrive or at submission
+      const conversion = await ExchangeRateService.convertToBase(
+        company,
+        data.amount,
+        currency,
+        new Date(data.date)
+      );
+
+      const policyCheck = await PolicyService.evaluateExpense(
+        {
+          companyId,
+          baseCurrency: company.baseCurrency,
+          submitterId: userId,
+          categoryId: category.id,
+          amount: conversion.data?.baseAmount ?? null,
+          description: data.description,
+          expenseDate: new Date(data.date),
+          receiptCount: data.receiptIds?.length ?? 0,
+        },
+        "save"
+      );
+
+      if (!policyCheck.success || !policyCheck.data) {
+        return {
+          success: false,
+          error: "Failed to check expense against company policies",
+        };
+      }
+
+      const policyViolations = policyCheck.data;
+      if (hasBlockingViolation(policyViolations)) {
+        return {
+          success: false,
+          error: "Expense violates company policy",
+          policyViolations,
+        };
+      }
+
       // Create expense using Prisma schema field names
       const expense = await prisma.expense.create({
         data: {
@@ -142,11 +322,27 @@ export class EnhancedExpenseService {
           companyId: companyId,
           categoryId: category.id,
           amount: data.amount,
-          currency: data.currency,
+          currency,
           description: data.description,
           expenseDate: new Date(data.date),
           remarks: data.merchantName, // Using remarks field for merchant name
           status: "DRAFT",
+          ...conversion.data,
+          policyViolations: policyViolations as unknown as Prisma.InputJsonValue,
+          policyCheckedAt: new Date(),
+          costCenterId: assignment.costCenterId,
+          ...(assignment.allocations.length > 0 && {
+            costAllocations: { create: assignment.allocations },
+          }),
+          ...(itemised && {
+            lineItems: { create: itemised.lineItems },
+          }),
+          projectId: data.projectId,
+          isBillable: data.isBillable,
+          type: calculation?.type ?? "STANDARD",
+          ...(calculation && {
+            calculation: calculation as unknown as Prisma.InputJsonValue,
+          }),
         },
         include: {
           submitter: {
@@ -159,7 +355,15 @@ export class EnhancedExpenseService {
           },
           company: true,
           category: true,
-          receipt: true,
+          costCenter: true,
+          costAllocations: true,
+          project: true,
+          lineItems: LINE_ITEMS_INCLUDE,
+          receipts: {
+            orderBy: {
+              position: "asc",
+            },
+          },
           approvals: {
             include: {
               approver: {
@@ -177,23 +381,27 @@ export class EnhancedExpenseService {
 
       // Handle receipt associations if provided
       if (data.receiptIds && data.receiptIds.length > 0) {
-        // Note: Current schema supports one receipt per expense
-        // If multiple receipts needed, schema would need modification
-        if (data.receiptIds.length > 1) {
-          return {
-            success: false,
-            error: "Current schema supports only one receipt per expense",
-          };
-        }
+        // Attach the user's own receipts that aren't on an expense yet, in
+        // the order given
+        await prisma.$transaction(
+          data.receiptIds.map((receiptId, position) =>
+            prisma.receipt.updateMany({
+              where: {
+                id: receiptId,
+                userId,
+                expenseId: null,
+              },
+              data: {
+                expenseId: expense.id,
+                position,
+              },
+            })
+          )
+        );
 
-        // Update the receipt to associate with this expense
-        await prisma.receipt.updateMany({
-          where: {
-            id: { in: data.receiptIds },
-          },
-          data: {
-            expenseId: expense.id,
-          },
+        expense.receipts = await prisma.receipt.findMany({
+          where: { expenseId: expense.id },
+          orderBy: { position: "asc" },
         });
       }
 
@@ -204,9 +412,28 @@ export class EnhancedExpenseService {
         currency: expense.currency,
       });
 
+      await EventBus.publish(
+        "expense.created",
+        companyId,
+        toExpenseEventData(expense),
+        userId
+      );
+
+      await AuditService.record({
+        companyId,
+        entityType: "EXPENSE",
+        entityId: expense.id,
+        action: "created",
+        before: null,
+        after: expense,
+        fields: EXPENSE_AUDIT_FIELDS,
+        actorId: userId,
+      });
+
       return {
         success: true,
         data: expense,
+        policyViolations,
       };
     } catch (error) {
       logger.error("Error creating expense:", error as Error);
@@ -217,6 +444,69 @@ export class EnhancedExpenseService {
     }
   }
 
+  /**
+   * Create a mileage or per-diem expense. The amount is calculated in the
+   * company base currency from the rate tables and the derivation is stored
+   * with the expense.
+   */
+  static async createCalculatedExpense(
+    data: CreateMileageExpenseInput | CreatePerDiemExpenseInput,
+    userId: string,
+    companyId: string
+  ): Promise<ExpenseServiceResponse<ExpenseWithDetails>> {
+    try {
+      const company = await prisma.company.findUnique({
+        where: { id: companyId },
+        select: { baseCurrency: true },
+      });
+
+      if (!company) {
+        return {
+          success: false,
+          error: "Company not found",
+        };
+      }
+
+      const calculated = await this.calculateAmount(
+        companyId,
+        data.type === "MILEAGE"
+          ? { type: "MILEAGE", mileage: data.mileage, date: data.date }
+          : { type: "PER_DIEM", perDiem: data.perDiem },
+        company.baseCurrency
+      );
+      if ("error" in calculated) {
+        return {
+          success: false,
+          error: calculated.error,
+        };
+      }
+
+      return await this.createExpense(
+        {
+          category: data.category,
+          description: data.description,
+          date: data.date,
+          receiptIds: data.receiptIds,
+          costCenterId: data.costCenterId,
+          costAllocations: data.costAllocations,
+          projectId: data.projectId,
+          isBillable: data.isBillable,
+          amount: calculated.calculation.amount,
+          currency: company.baseCurrency as CreateExpenseInput["currency"],
+        },
+        userId,
+        companyId,
+        calculated.calculation
+      );
+    } catch (error) {
+      logger.error("Error creating calculated expense:", error as Error);
+      return {
+        success: false,
+        error: "Failed to create expense",
+      };
+    }
+  }
+
   /**
    * List expenses with role-based filtering
    */
@@ -284,6 +574,25 @@ export class EnhancedExpenseService {
         };
       }
 
+      if (query.departmentId) {
+        where.submitter = { departmentId: query.departmentId };
+      }
+
+      if (query.costCenterId) {
+        where.OR = [
+          { costCenterId: query.costCenterId },
+          { costAllocations: { some: { costCenterId: query.costCenterId } } },
+        ];
+      }
+
+      if (query.projectId) {
+        where.projectId = query.projectId;
+      }
+
+      if (query.isBillable !== undefined) {
+        where.isBillable = query.isBillable;
+      }
+
       // Calculate pagination
       const page = query.page || 1;
       const limit = query.limit || 20;
@@ -316,9 +625,37 @@ export class EnhancedExpenseService {
                 name: true,
               },
             },
-            receipt: {
+            costCenter: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
+            costAllocations: {
+              select: {
+                costCenterId: true,
+                percentage: true,
+              },
+            },
+            project: {
               select: {
                 id: true,
+                code: true,
+                name: true,
+                clientName: true,
+              },
+            },
+            report: {
+              select: {
+                id: true,
+                title: true,
+              },
+            },
+            _count: {
+              select: {
+                receipts: true,
+                lineItems: true,
               },
             },
           },
@@ -336,7 +673,7 @@ export class EnhancedExpenseService {
           ...(userRole === "EMPLOYEE" ? { submitterId: userId } : {}),
         },
         _sum: {
-          amount: true,
+          baseAmount: true,
         },
       });
 
@@ -368,12 +705,28 @@ export class EnhancedExpenseService {
         userName: expense.submitter?.name || "Unknown",
         amount: Number(expense.amount),
         currency: expense.currency,
+        baseAmount:
+          expense.baseAmount !== null ? Number(expense.baseAmount) : null,
+        baseCurrency: expense.baseCurrency,
+        exchangeRate:
+          expense.exchangeRate !== null ? Number(expense.exchangeRate) : null,
         category: expense.category?.name || "Unknown",
+        costCenter: expense.costCenter,
+        costAllocations: expense.costAllocations.map((allocation) => ({
+          costCenterId: allocation.costCenterId,
+          percentage: Number(allocation.percentage),
+        })),
+        project: expense.project,
+        isBillable: expense.isBillable,
+        invoicedAt: expense.invoicedAt,
+        report: expense.report,
+        type: expense.type,
         description: expense.description,
         status: expense.status,
         expenseDate: expense.expenseDate,
         createdAt: expense.createdAt,
-        receiptCount: expense.receipt ? 1 : 0,
+        receiptCount: expense._count.receipts,
+        lineItemCount: expense._count.lineItems,
       }));
 
       const response: ExpenseListResponse = {
@@ -385,7 +738,7 @@ export class EnhancedExpenseService {
           totalPages: Math.ceil(totalCount / limit),
         },
         summary: {
-          totalAmount: Number(summary._sum.amount || 0),
+          totalAmount: Number(summary._sum.baseAmount || 0),
           pendingCount,
           approvedCount,
           rejectedCount,
@@ -427,7 +780,21 @@ export class EnhancedExpenseService {
           },
           company: true,
           category: true,
-          receipt: true,
+          costCenter: true,
+          costAllocations: {
+            include: {
+              costCenter: {
+                select: { id: true, code: true, name: true },
+              },
+            },
+          },
+          project: true,
+          lineItems: LINE_ITEMS_INCLUDE,
+          receipts: {
+            orderBy: {
+              position: "asc",
+            },
+          },
           approvals: {
             include: {
               approver: {
@@ -438,10 +805,26 @@ export class EnhancedExpenseService {
                   role: true,
                 },
               },
+              actedBy: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+              escalatedFrom: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+              approvalRule: {
+                select: {
+                  name: true,
+                  isSequenceRequired: true,
+                },
+              },
             },
-            orderBy: {
-              processedAt: "desc",
-            },
+            orderBy: [{ createdAt: "asc" }, { stepOrder: "asc" }],
           },
         },
       });
@@ -469,7 +852,10 @@ export class EnhancedExpenseService {
 
       return {
         success: true,
-        data: expense,
+        data: {
+          ...expense,
+          approvalChain: buildApprovalChain(expense.approvals),
+        },
       };
     } catch (error) {
       logger.error("Error retrieving expense:", error as Error);
@@ -494,6 +880,13 @@ export class EnhancedExpenseService {
         where: { id: expenseId },
         include: {
           category: true,
+          company: true,
+          _count: {
+            select: {
+              receipts: true,
+              lineItems: true,
+            },
+          },
         },
       });
 
@@ -528,6 +921,18 @@ export class EnhancedExpenseService {
       // Prepare update data
       const updateData: PrismaUpdateData = {};
 
+      if (data.currency !== undefined) {
+        const settings = await CompanyService.getSettingsValues(
+          existingExpense.companyId
+        );
+        if (!isCurrencyAllowed(settings, data.currency)) {
+          return {
+            success: false,
+            error: `Expenses cannot be claimed in ${data.currency}. Allowed currencies: ${settings.allowedCurrencies.join(", ")}`,
+          };
+        }
+      }
+
       if (data.amount !== undefined) updateData.amount = data.amount;
       if (data.currency !== undefined) updateData.currency = data.currency;
       if (data.description !== undefined)
@@ -536,12 +941,107 @@ export class EnhancedExpenseService {
       if (data.merchantName !== undefined)
         updateData.remarks = data.merchantName;
 
+      // Mileage and per-diem amounts are recalculated from their details
+      const calculationError = this.checkCalculatedUpdate(
+        existingExpense.type,
+        data
+      );
+      if (calculationError) {
+        return {
+          success: false,
+          error: calculationError,
+        };
+      }
+
+      if (
+        (existingExpense.type === "MILEAGE" &&
+          (data.mileage || data.date !== undefined)) ||
+        (existingExpense.type === "PER_DIEM" && data.perDiem)
+      ) {
+        const stored =
+          existingExpense.calculation as unknown as MileageCalculation | null;
+        const calculated = await this.calculateAmount(
+          existingExpense.companyId,
+          data.perDiem
+            ? { type: "PER_DIEM", perDiem: data.perDiem }
+            : {
+                type: "MILEAGE",
+                mileage: data.mileage ?? stored!.inputs,
+                date:
+                  data.date ??
+                  existingExpense.expenseDate.toISOString().split("T")[0],
+              },
+          existingExpense.company.baseCurrency
+        );
+        if ("error" in calculated) {
+          return {
+            success: false,
+            error: calculated.error,
+          };
+        }
+
+        updateData.amount = calculated.calculation.amount;
+        updateData.calculation = calculated.calculation;
+        if (data.perDiem) {
+          updateData.expenseDate = new Date(perDiemStartDate(data.perDiem));
+        }
+      }
+
+      // New line items replace the old ones and set the category; the
+      // amount and category of an itemised expense only change with its lines
+      if (data.lineItems) {
+        if (data.category !== undefined) {
+          return {
+            success: false,
+            error:
+              "The category of an itemised expense comes from its line items",
+          };
+        }
+        if (
+          !linesMatchTotal(
+            data.lineItems,
+            updateData.amount ?? Number(existingExpense.amount)
+          )
+        ) {
+          return {
+            success: false,
+            error: "Line items must add up to the expense amount",
+          };
+        }
+
+        const itemised = await this.resolveLineItems(
+          existingExpense.companyId,
+          data.lineItems
+        );
+        if ("error" in itemised) {
+          return {
+            success: false,
+            error: itemised.error,
+          };
+        }
+
+        updateData.categoryId = itemised.categoryId;
+        updateData.lineItems = { deleteMany: {}, create: itemised.lineItems };
+      } else if (data.lineItems === null) {
+        updateData.lineItems = { deleteMany: {} };
+      } else if (
+        existingExpense._count.lineItems > 0 &&
+        (data.amount !== undefined || data.category !== undefined)
+      ) {
+        return {
+          success: false,
+          error:
+            "Update the line items together with the amount or category of an itemised expense",
+        };
+      }
+
       // Handle category update
       if (data.category !== undefined) {
         const category = await prisma.expenseCategory.findFirst({
           where: {
             name: data.category,
             companyId: existingExpense.companyId,
+            isActive: true,
           },
         });
 
@@ -555,6 +1055,137 @@ export class EnhancedExpenseService {
         updateData.categoryId = category.id;
       }
 
+      // A cost center replaces any split; a split sets the primary cost center
+      if (data.costCenterId !== undefined) {
+        if (data.costCenterId) {
+          const costCenterError = await CostCenterService.validateCostCenters(
+            existingExpense.companyId,
+            [data.costCenterId]
+          );
+          if (costCenterError) {
+            return {
+              success: false,
+              error: costCenterError.error?.message,
+            };
+          }
+        }
+        updateData.costCenterId = data.costCenterId;
+        updateData.costAllocations = { deleteMany: {} };
+      } else if (data.costAllocations === null) {
+        updateData.costAllocations = { deleteMany: {} };
+      } else if (data.costAllocations !== undefined) {
+        const assignment = await this.resolveCostAssignment(
+          existingExpense.companyId,
+          existingExpense.submitterId,
+          { costAllocations: data.costAllocations }
+        );
+        if ("error" in assignment) {
+          return {
+            success: false,
+            error: assignment.error,
+          };
+        }
+        updateData.costCenterId = assignment.costCenterId;
+        updateData.costAllocations = {
+          deleteMany: {},
+          create: assignment.allocations,
+        };
+      }
+
+      // Removing the project also clears the billable flag. The project is
+      // checked again when the date moves, as it may fall outside its dates.
+      const projectId =
+        data.projectId !== undefined
+          ? data.projectId
+          : existingExpense.projectId;
+      if (data.projectId !== undefined) updateData.projectId = data.projectId;
+      if (data.isBillable !== undefined) updateData.isBillable = data.isBillable;
+      if (data.projectId === null) updateData.isBillable = false;
+
+      if (projectId && (data.projectId || updateData.expenseDate)) {
+        const projectError = await ProjectService.validateProject(
+          existingExpense.companyId,
+          projectId,
+          updateData.expenseDate ?? existingExpense.expenseDate
+        );
+        if (projectError) {
+          return {
+            success: false,
+            error: projectError.error?.message,
+          };
+        }
+      }
+
+      if (data.isBillable && !projectId) {
+        return {
+          success: false,
+          error: "Billable expenses must be charged to a project",
+        };
+      }
+
+      // Recalculate the provisional base amount when what it depends on changes
+      if (
+        updateData.amount !== undefined ||
+        data.currency !== undefined ||
+        updateData.expenseDate !== undefined
+      ) {
+        const conversion = await ExchangeRateService.convertToBase(
+          existingExpense.company,
+          updateData.amount ?? Number(existingExpense.amount),
+          data.currency ?? existingExpense.currency,
+          updateData.expenseDate ?? existingExpense.expenseDate
+        );
+
+        Object.assign(
+          updateData,
+          conversion.data ?? {
+            exchangeRate: null,
+            exchangeRateDate: null,
+            baseAmount: null,
+            baseCurrency: null,
+          }
+        );
+      }
+
+      const policyCheck = await PolicyService.evaluateExpense(
+        {
+          companyId: existingExpense.companyId,
+          baseCurrency: existingExpense.company.baseCurrency,
+          expenseId,
+          submitterId: existingExpense.submitterId,
+          categoryId: updateData.categoryId ?? existingExpense.categoryId,
+          amount:
+            "baseAmount" in updateData
+              ? updateData.baseAmount
+              : existingExpense.baseAmount !== null
+              ? Number(existingExpense.baseAmount)
+              : null,
+          description: data.description ?? existingExpense.description,
+          expenseDate: updateData.expenseDate ?? existingExpense.expenseDate,
+          receiptCount: existingExpense._count.receipts,
+        },
+        "save"
+      );
+
+      if (!policyCheck.success || !policyCheck.data) {
+        return {
+          success: false,
+          error: "Failed to check expense against company policies",
+        };
+      }
+
+      const policyViolations = policyCheck.data;
+      if (hasBlockingViolation(policyViolations)) {
+        return {
+          success: false,
+          error: "Expense violates company policy",
+          policyViolations,
+        };
+      }
+
+      updateData.policyViolations = policyViolations;
+      updateData.policyCheckedAt = new Date();
+
       // Update expense
       const updatedExpense = await prisma.expense.update({
         where: { id: expenseId },
@@ -573,7 +1204,15 @@ export class EnhancedExpenseService {
           },
           company: true,
           category: true,
-          receipt: true,
+          costCenter: true,
+          costAllocations: true,
+          project: true,
+          lineItems: LINE_ITEMS_INCLUDE,
+          receipts: {
+            orderBy: {
+              position: "asc",
+            },
+          },
           approvals: {
             include: {
               approver: {
@@ -592,12 +1231,24 @@ export class EnhancedExpenseService {
       logger.info(`Expense updated: ${expenseId}`, {
         expenseId,
         userId,
-        changes: Object.keys(updateData),
+        changes: Object.keys(data),
+      });
+
+      await AuditService.record({
+        companyId: existingExpense.companyId,
+        entityType: "EXPENSE",
+        entityId: expenseId,
+        action: "updated",
+        before: existingExpense,
+        after: updatedExpense,
+        fields: EXPENSE_AUDIT_FIELDS,
+        actorId: userId,
       });
 
       return {
         success: true,
         data: updatedExpense,
+        policyViolations,
       };
     } catch (error) {
       logger.error("Error updating expense:", error as Error);
@@ -659,6 +1310,17 @@ export class EnhancedExpenseService {
         userId,
       });
 
+      await AuditService.record({
+        companyId: existingExpense.companyId,
+        entityType: "EXPENSE",
+        entityId: expenseId,
+        action: "deleted",
+        before: existingExpense,
+        after: null,
+        fields: EXPENSE_AUDIT_FIELDS,
+        actorId: userId,
+      });
+
       return {
         success: true,
         data: { message: "Expense deleted successfully" },
@@ -672,6 +1334,86 @@ export class EnhancedExpenseService {
     }
   }
 
+  /**
+   * The checks an expense passes when it leaves draft, on its own or with
+   * its expense report: the exchange rate is locked (approval thresholds and
+   * reports work on the base amount from here on) and the company policies
+   * are applied. Returns the fields to save with the new status.
+   */
+  static async prepareSubmission(expense: {
+    id: string;
+    companyId: string;
+    submitterId: string;
+    categoryId: string;
+    amount: unknown;
+    currency: string;
+    description: string;
+    expenseDate: Date;
+    company: { id: string; baseCurrency: string };
+    receipts: { id: string }[];
+  }): Promise<ExpenseServiceResponse<PrismaUpdateData>> {
+    const conversion = await ExchangeRateService.convertToBase(
+      expense.company,
+      Number(expense.amount),
+      expense.currency,
+      expense.expenseDate
+    );
+
+    if (!conversion.success || !conversion.data) {
+      return {
+        success: false,
+        error:
+          conversion.error?.code === "RATE_NOT_FOUND"
+            ? `${conversion.error.message}. Ask an administrator to load exchange rates before submitting.`
+            : "Failed to convert expense into the company currency",
+      };
+    }
+
+    // Company policies, including receipt requirements
+    const policyCheck = await PolicyService.evaluateExpense(
+      {
+        companyId: expense.companyId,
+        baseCurrency: expense.company.baseCurrency,
+        expenseId: expense.id,
+        submitterId: expense.submitterId,
+        categoryId: expense.categoryId,
+        amount: conversion.data.baseAmount,
+        description: expense.description,
+        expenseDate: expense.expenseDate,
+        receiptCount: expense.receipts.length,
+      },
+      "submit"
+    );
+
+    if (!policyCheck.success || !policyCheck.data) {
+      return {
+        success: false,
+        error: "Failed to check expense against company policies",
+      };
+    }
+
+    const policyViolations = policyCheck.data;
+    if (hasBlockingViolation(policyViolations)) {
+      return {
+        success: false,
+        error: "Expense violates company policy",
+        policyViolations,
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...conversion.data,
+        rateLockedAt: new Date(),
+        // Approvers see the warnings the expense was submitted with
+        policyViolations: policyViolations as unknown as Prisma.InputJsonValue,
+        policyCheckedAt: new Date(),
+      },
+      policyViolations,
+    };
+  }
+
   /**
    * Submit expense for approval
    */
@@ -684,7 +1426,11 @@ export class EnhancedExpenseService {
       const existingExpense = await prisma.expense.findUnique({
         where: { id: expenseId },
         include: {
-          receipt: true,
+          receipts: {
+            select: {
+              id: true,
+            },
+          },
           company: true,
         },
       });
@@ -717,12 +1463,21 @@ export class EnhancedExpenseService {
         };
       }
 
-      // Validate receipt requirements (basic validation)
-      const hasReceipt = !!existingExpense.receipt;
-      if (Number(existingExpense.amount) > 25 && !hasReceipt) {
+      // Expenses in a report are submitted with the report
+      if (existingExpense.reportId) {
         return {
           success: false,
-          error: "Expenses over $25 require at least one receipt",
+          error:
+            "This expense belongs to an expense report; submit the report instead",
+        };
+      }
+
+      const submission = await this.prepareSubmission(existingExpense);
+      if (!submission.success || !submission.data) {
+        return {
+          success: false,
+          error: submission.error,
+          policyViolations: submission.policyViolations,
         };
       }
 
@@ -731,6 +1486,7 @@ export class EnhancedExpenseService {
         where: { id: expenseId },
         data: {
           status: "PENDING_APPROVAL",
+          ...submission.data,
           updatedAt: new Date(),
         },
         include: {
@@ -744,7 +1500,11 @@ export class EnhancedExpenseService {
           },
           company: true,
           category: true,
-          receipt: true,
+          receipts: {
+            orderBy: {
+              position: "asc",
+            },
+          },
           approvals: {
             include: {
               approver: {
@@ -768,14 +1528,11 @@ export class EnhancedExpenseService {
           existingExpense.companyId
         );
 
-        if (
-          rulesResult.success &&
-          rulesResult.data &&
-          rulesResult.data.length > 0
-        ) {
-          // Create approval chain based on applicable rules
+        if (rulesResult.success && rulesResult.data) {
+          // Create approval chain based on applicable rules; an expense no
+          // rule applies to goes to the company's fallback approver
           const chainResult = await ApprovalService.createApprovalChain(
-            expenseId,
+            { expenseId },
             rulesResult.data
           );
 
@@ -785,9 +1542,10 @@ export class EnhancedExpenseService {
               ruleIds: rulesResult.data,
             });
 
-            // Get approver IDs from the created approval chain
+            // Only the approvers whose turn it is; WAITING steps of a
+            // sequential chain are notified as they activate
             const approverIds = await prisma.expenseApproval.findMany({
-              where: { expenseId },
+              where: { expenseId, status: "PENDING" },
               select: { approverId: true },
             });
 
@@ -808,13 +1566,13 @@ export class EnhancedExpenseService {
             );
           }
         } else {
-          // No approval rules found - auto-approve or require manual setup
-          logger.warn(`No approval rules found for expense: ${expenseId}`, {
-            companyId: existingExpense.companyId,
-          });
-
-          // For now, leave in PENDING_APPROVAL status
-          // In production, might want to auto-approve or require admin intervention
+          logger.warn(
+            `Failed to evaluate approval rules for expense: ${expenseId}`,
+            {
+              companyId: existingExpense.companyId,
+              error: rulesResult.error,
+            }
+          );
         }
       } catch (approvalError) {
         // Log approval workflow error but don't fail the submission
@@ -830,9 +1588,28 @@ export class EnhancedExpenseService {
         amount: existingExpense.amount,
       });
 
+      await EventBus.publish(
+        "expense.submitted",
+        existingExpense.companyId,
+        toExpenseEventData(updatedExpense),
+        userId
+      );
+
+      await AuditService.record({
+        companyId: existingExpense.companyId,
+        entityType: "EXPENSE",
+        entityId: expenseId,
+        action: "submitted",
+        before: existingExpense,
+        after: updatedExpense,
+        fields: EXPENSE_AUDIT_FIELDS,
+        actorId: userId,
+      });
+
       return {
         success: true,
         data: updatedExpense,
+        policyViolations: submission.policyViolations,
       };
     } catch (error) {
       logger.error("Error submitting expense:", error as Error);
@@ -875,25 +1652,25 @@ export class EnhancedExpenseService {
         }
       }
 
-      // Get basic analytics
+      // Get basic analytics, in the company base currency
       const [totalStats, statusStats, categoryStats] = await Promise.all([
         prisma.expense.aggregate({
           where,
-          _sum: { amount: true },
-          _avg: { amount: true },
+          _sum: { baseAmount: true },
+          _avg: { baseAmount: true },
           _count: true,
         }),
         prisma.expense.groupBy({
           by: ["status"],
           where,
           _count: true,
-          _sum: { amount: true },
+          _sum: { baseAmount: true },
         }),
         prisma.expense.groupBy({
           by: ["categoryId"],
           where,
           _count: true,
-          _sum: { amount: true },
+          _sum: { baseAmount: true },
         }),
       ]);
 
@@ -909,19 +1686,19 @@ export class EnhancedExpenseService {
       const formattedCategoryStats = categoryStats.map((stat) => ({
         category: categoryMap.get(stat.categoryId) || "Unknown",
         count: stat._count,
-        amount: Number(stat._sum.amount || 0),
+        amount: Number(stat._sum.baseAmount || 0),
       }));
 
       const analytics = {
         summary: {
           totalExpenses: totalStats._count,
-          totalAmount: Number(totalStats._sum.amount || 0),
-          averageAmount: Number(totalStats._avg.amount || 0),
+          totalAmount: Number(totalStats._sum.baseAmount || 0),
+          averageAmount: Number(totalStats._avg.baseAmount || 0),
         },
         byStatus: statusStats.map((stat) => ({
           status: stat.status,
           count: stat._count,
-          amount: Number(stat._sum.amount || 0),
+          amount: Number(stat._sum.baseAmount || 0),
         })),
         byCategory: formattedCategoryStats,
         period: {
@@ -984,6 +1761,162 @@ export class EnhancedExpenseService {
       };
     }
   }
+
+  /**
+   * The cost center and split an expense is charged to. Without either in
+   * the request, the submitter's default cost center is used while it is
+   * active.
+   */
+  /**
+   * Error message when an update sets what a calculated expense derives, or
+   * gives details for another expense type
+   */
+  private static checkCalculatedUpdate(
+    type: ExpenseType,
+    data: UpdateExpenseInput
+  ): string | null {
+    if (data.mileage && type !== "MILEAGE") {
+      return "Mileage details can only be set on mileage expenses";
+    }
+    if (data.perDiem && type !== "PER_DIEM") {
+      return "Per-diem details can only be set on per-diem expenses";
+    }
+    if (
+      type !== "STANDARD" &&
+      (data.amount !== undefined || data.currency !== undefined)
+    ) {
+      return "The amount of a mileage or per-diem expense is calculated; update its details instead";
+    }
+    if (type === "PER_DIEM" && data.date !== undefined) {
+      return "The date of a per-diem expense is its first claimed day";
+    }
+    if (type !== "STANDARD" && data.lineItems) {
+      return "Mileage and per-diem expenses can't be itemised";
+    }
+    return null;
+  }
+
+  /**
+   * Amount of a mileage or per-diem expense from the company rate tables
+   */
+  private static async calculateAmount(
+    companyId: string,
+    input:
+      | {
+          type: "MILEAGE";
+          mileage: CreateMileageExpenseInput["mileage"];
+          date: string;
+        }
+      | { type: "PER_DIEM"; perDiem: CreatePerDiemExpenseInput["perDiem"] },
+    currency: string
+  ): Promise<{ calculation: ExpenseCalculation } | { error: string }> {
+    const result =
+      input.type === "MILEAGE"
+        ? await ExpenseRateService.calculateMileage(
+            companyId,
+            input.mileage,
+            input.date,
+            currency
+          )
+        : await ExpenseRateService.calculatePerDiem(
+            companyId,
+            input.perDiem,
+            currency
+          );
+
+    if (!result.success || !result.data) {
+      return { error: result.error?.message || "Failed to calculate amount" };
+    }
+    if (result.data.amount <= 0) {
+      return { error: "The calculated amount is zero" };
+    }
+
+    return { calculation: result.data };
+  }
+
+  /**
+   * Line items ready to store, with their categories looked up by name, and
+   * the category of the largest line for the expense itself
+   */
+  private static async resolveLineItems(
+    companyId: string,
+    lines: LineItemInput[]
+  ): Promise<
+    | {
+        categoryId: string;
+        lineItems: Prisma.ExpenseLineItemUncheckedCreateWithoutExpenseInput[];
+      }
+    | { error: string }
+  > {
+    const names = Array.from(new Set(lines.map((line) => line.category)));
+    const categories = await prisma.expenseCategory.findMany({
+      where: { name: { in: names }, companyId, isActive: true },
+      select: { id: true, name: true },
+    });
+    const categoryIds = new Map(
+      categories.map((category) => [category.name, category.id])
+    );
+
+    const unknown = names.filter((name) => !categoryIds.has(name));
+    if (unknown.length > 0) {
+      return {
+        error: `Invalid line item categories or categories not available for your company: ${unknown.join(", ")}`,
+      };
+    }
+
+    return {
+      categoryId: categoryIds.get(lines[getPrimaryLineIndex(lines)].category)!,
+      lineItems: lines.map((line, position) => ({
+        description: line.description,
+        amount: line.amount,
+        taxRate: line.taxRate,
+        taxAmount: resolveLineTax(line),
+        position,
+        categoryId: categoryIds.get(line.category)!,
+      })),
+    };
+  }
+
+  private static async resolveCostAssignment(
+    companyId: string,
+    submitterId: string,
+    input: { costCenterId?: string; costAllocations?: CostAllocation[] }
+  ): Promise<
+    | { costCenterId: string | null; allocations: CostAllocation[] }
+    | { error: string }
+  > {
+    const allocations = input.costAllocations ?? [];
+    const requestedIds = input.costCenterId
+      ? [input.costCenterId]
+      : allocations.map((allocation) => allocation.costCenterId);
+
+    if (requestedIds.length > 0) {
+      const costCenterError = await CostCenterService.validateCostCenters(
+        companyId,
+        requestedIds
+      );
+      if (costCenterError) {
+        return { error: costCenterError.error!.message };
+      }
+
+      return {
+        costCenterId: input.costCenterId ?? getPrimaryCostCenterId(allocations),
+        allocations,
+      };
+    }
+
+    const submitter = await prisma.user.findUnique({
+      where: { id: submitterId },
+      select: { costCenter: { select: { id: true, isActive: true } } },
+    });
+
+    return {
+      costCenterId: submitter?.costCenter?.isActive
+        ? submitter.costCenter.id
+        : null,
+      allocations: [],
+    };
+  }
 }
 
 export default EnhancedExpenseService;
@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { businessLogger } from "@/middleware/logger";
+import type { DomainEvent, WebhookEventType } from "@/lib/webhooks";
+import { WebhookService } from "./webhook.service";
+
+export type EventSubscriber = (event: DomainEvent) => unknown;
+
+/**
+ * In-process event bus for domain events (expense.submitted, user.created...).
+ * Publishing never fails the caller: subscriber errors are logged and
+ * swallowed so a broken integration can't block an expense workflow.
+ */
+export class EventBus {
+  private static subscribers: EventSubscriber[] = [
+    (event) => WebhookService.enqueueDeliveries(event),
+  ];
+
+  /**
+   * Register a subscriber. Returns a function that removes it again.
+   */
+  static subscribe(subscriber: EventSubscriber): () => void {
+    this.subscribers.push(subscriber);
+
+    return () => {
+      this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+    };
+  }
+
+  /**
+   * Publish an event to every subscriber and wait for them to finish
+   */
+  static async publish<T extends Record<string, unknown>>(
+    type: WebhookEventType,
+    companyId: string,
+    data: T,
+    actorId: string | null = null
+  ): Promise<DomainEvent<T>> {
+    const event: DomainEvent<T> = {
+      id: crypto.randomUUID(),
+      type,
+      companyId,
+      occurredAt: new Date().toISOString(),
+      actorId,
+      data,
+    };
+
+    const results = await Promise.allSettled(
+      this.subscribers.map(async (subscriber) => subscriber(event))
+    );
+
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        businessLogger.error(
+          "Event subscriber failed",
+          result.reason as Error,
+          { eventId: event.id, type, companyId }
+        );
+      }
+    });
+
+    return event;
+  }
+}
+
+export default EventBus;
@@ -0,0 +1,583 @@
+import { prisma } from "@/lib/prisma";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  convertAmount,
+  deriveRate,
+  getExchangeRateProvider,
+  parseRatesCsv,
+  roundRate,
+  type RateQuote,
+} from "@/lib/fx";
+import type { ListExchangeRatesQueryInput } from "@/lib/validations/exchange-rates";
+
+export interface ExchangeRatePublic {
+  id: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateDate: string;
+  source: string;
+  // False for provider rates shared by every company
+  companySpecific: boolean;
+}
+
+export interface ResolvedRate {
+  rate: number;
+  rateDate: string;
+}
+
+// Expense columns holding the conversion into the company base currency
+export interface ExpenseBaseConversion {
+  exchangeRate: number;
+  exchangeRateDate: Date;
+  baseAmount: number;
+  baseCurrency: string;
+}
+
+// How far back a rate may be taken from when none was published on the
+// requested day (weekends, bank holidays, today before publication)
+const MAX_RATE_AGE_DAYS = parseInt(process.env.FX_MAX_RATE_AGE_DAYS || "7");
+const INSERT_BATCH_SIZE = 1000;
+const BACKFILL_BATCH_SIZE = 200;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+export class ExchangeRateService {
+  /**
+   * Rate converting one unit of `from` into `to` on the given day, using the
+   * latest rate published on or before it. Company imported rates win over
+   * provider rates for the same day.
+   */
+  static async getRate(
+    companyId: string,
+    from: string,
+    to: string,
+    on: Date
+  ): Promise<ServiceResult<ResolvedRate>> {
+    try {
+      if (from === to) {
+        return {
+          success: true,
+          data: { rate: 1, rateDate: toDateString(on) },
+        };
+      }
+
+      const since = new Date(on);
+      since.setUTCDate(since.getUTCDate() - MAX_RATE_AGE_DAYS);
+
+      const rows = await prisma.exchangeRate.findMany({
+        where: {
+          OR: [{ companyId }, { companyId: null }],
+          rateDate: { gte: since, lte: on },
+          AND: [
+            {
+              OR: [
+                { baseCurrency: { in: [from, to] } },
+                { quoteCurrency: { in: [from, to] } },
+              ],
+            },
+          ],
+        },
+        orderBy: { rateDate: "desc" },
+      });
+
+      // Latest quote per pair, company rows first on the same day
+      const sorted = rows.sort(
+        (a, b) =>
+          b.rateDate.getTime() - a.rateDate.getTime() ||
+          Number(Boolean(b.companyId)) - Number(Boolean(a.companyId))
+      );
+      const latest = new Map<string, RateQuote>();
+      for (const row of sorted) {
+        const key = `${row.baseCurrency}:${row.quoteCurrency}`;
+        if (!latest.has(key)) {
+          latest.set(key, {
+            base: row.baseCurrency,
+            quote: row.quoteCurrency,
+            rate: Number(row.rate),
+            date: toDateString(row.rateDate),
+          });
+        }
+      }
+
+      const resolved = deriveRate(from, to, Array.from(latest.values()));
+      if (!resolved) {
+        return {
+          success: false,
+          error: {
+            message: `No ${from}/${to} exchange rate available for ${toDateString(on)}`,
+            code: "RATE_NOT_FOUND",
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: { rate: roundRate(resolved.rate), rateDate: resolved.date },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to resolve exchange rate", error as Error, {
+        companyId,
+        from,
+        to,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to resolve exchange rate",
+          code: "RATE_LOOKUP_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Convert an amount between any two currencies
+   */
+  static async convert(
+    companyId: string,
+    amount: number,
+    from: string,
+    to: string,
+    on: Date
+  ): Promise<
+    ServiceResult<ResolvedRate & { amount: number; convertedAmount: number }>
+  > {
+    const rate = await this.getRate(companyId, from, to, on);
+    if (!rate.success || !rate.data) {
+      return { success: false, error: rate.error };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...rate.data,
+        amount,
+        convertedAmount: convertAmount(amount, rate.data.rate),
+      },
+    };
+  }
+
+  /**
+   * Conversion of an expense amount into the company base currency, at the
+   * rate for the expense date
+   */
+  static async convertToBase(
+    company: { id: string; baseCurrency: string },
+    amount: number,
+    currency: string,
+    expenseDate: Date
+  ): Promise<ServiceResult<ExpenseBaseConversion>> {
+    const rate = await this.getRate(
+      company.id,
+      currency,
+      company.baseCurrency,
+      expenseDate
+    );
+    if (!rate.success || !rate.data) {
+      return { success: false, error: rate.error };
+    }
+
+    return {
+      success: true,
+      data: {
+        exchangeRate: rate.data.rate,
+        exchangeRateDate: new Date(rate.data.rateDate),
+        baseAmount: convertAmount(amount, rate.data.rate),
+        baseCurrency: company.baseCurrency,
+      },
+    };
+  }
+
+  /**
+   * List stored rates visible to the company, newest first
+   */
+  static async listRates(
+    companyId: string,
+    query: ListExchangeRatesQueryInput
+  ): Promise<
+    ServiceResult<{
+      rates: ExchangeRatePublic[];
+      pagination: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        hasNext: boolean;
+        hasPrevious: boolean;
+      };
+    }>
+  > {
+    try {
+      const where = {
+        OR: [{ companyId }, { companyId: null }],
+        ...(query.base && { baseCurrency: query.base }),
+        ...(query.quote && { quoteCurrency: query.quote }),
+        ...((query.startDate || query.endDate) && {
+          rateDate: {
+            ...(query.startDate && { gte: new Date(query.startDate) }),
+            ...(query.endDate && { lte: new Date(query.endDate) }),
+          },
+        }),
+      };
+
+      const [rates, total] = await Promise.all([
+        prisma.exchangeRate.findMany({
+          where,
+          orderBy: [
+            { rateDate: "desc" },
+            { baseCurrency: "asc" },
+            { quoteCurrency: "asc" },
+          ],
+          skip: (query.page - 1) * query.limit,
+          take: query.limit,
+        }),
+        prisma.exchangeRate.count({ where }),
+      ]);
+
+      const totalPages = Math.ceil(total / query.limit);
+
+      return {
+        success: true,
+        data: {
+          rates: rates.map((rate) => ({
+            id: rate.id,
+            baseCurrency: rate.baseCurrency,
+            quoteCurrency: rate.quoteCurrency,
+            rate: Number(rate.rate),
+            rateDate: toDateString(rate.rateDate),
+            source: rate.source,
+            companySpecific: rate.companyId !== null,
+          })),
+          pagination: {
+            total,
+            page: query.page,
+            limit: query.limit,
+            totalPages,
+            hasNext: query.page < totalPages,
+            hasPrevious: query.page > 1,
+          },
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list exchange rates", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to list exchange rates",
+          code: "RATE_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Store rates, replacing any earlier rate for the same pair and day in the
+   * same scope (the company, or the shared provider rates when companyId is
+   * null)
+   */
+  static async importRates(
+    rates: RateQuote[],
+    source: string,
+    companyId: string | null
+  ): Promise<ServiceResult<{ imported: number; dates: string[] }>> {
+    try {
+      // Later rows in a file override earlier ones for the same pair and day
+      const unique = new Map<string, RateQuote>();
+      for (const rate of rates) {
+        unique.set(`${rate.date}:${rate.base}:${rate.quote}`, rate);
+      }
+      const quotes = Array.from(unique.values());
+
+      const byDayAndBase = new Map<string, RateQuote[]>();
+      for (const quote of quotes) {
+        const key = `${quote.date}:${quote.base}`;
+        byDayAndBase.set(key, [...(byDayAndBase.get(key) || []), quote]);
+      }
+
+      await prisma.$transaction(
+        async (tx) => {
+          for (const group of Array.from(byDayAndBase.values())) {
+            await tx.exchangeRate.deleteMany({
+              where: {
+                companyId,
+                baseCurrency: group[0].base,
+                rateDate: new Date(group[0].date),
+                quoteCurrency: { in: group.map((quote) => quote.quote) },
+              },
+            });
+          }
+
+          for (let i = 0; i < quotes.length; i += INSERT_BATCH_SIZE) {
+            await tx.exchangeRate.createMany({
+              data: quotes.slice(i, i + INSERT_BATCH_SIZE).map((quote) => ({
+                baseCurrency: quote.base,
+                quoteCurrency: quote.quote,
+                rate: roundRate(quote.rate),
+                rateDate: new Date(quote.date),
+                source,
+                companyId,
+              })),
+            });
+          }
+        },
+        { timeout: 60000 }
+      );
+
+      const dates = Array.from(new Set(quotes.map((quote) => quote.date))).sort();
+
+      businessLogger.logSystemEvent("exchange_rates_imported", {
+        companyId,
+        source,
+        imported: quotes.length,
+        firstDate: dates[0],
+        lastDate: dates[dates.length - 1],
+      });
+
+      return {
+        success: true,
+        data: { imported: quotes.length, dates },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to import exchange rates", error as Error, {
+        companyId,
+        source,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to import exchange rates",
+          code: "RATE_IMPORT_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Import a company's rates from an uploaded CSV file (see parseRatesCsv for
+   * the accepted layouts). Rows that fail to parse are reported back and
+   * skipped; the rest are stored.
+   */
+  static async importRatesFile(
+    content: string,
+    fileName: string,
+    companyId: string,
+    userId: string
+  ): Promise<
+    ServiceResult<{
+      imported: number;
+      dates: string[];
+      errors: string[];
+      expensesConverted: number;
+    }>
+  > {
+    const parsed = parseRatesCsv(content);
+
+    if (parsed.rates.length === 0) {
+      return {
+        success: false,
+        error: {
+          message: "The file does not contain any valid exchange rates",
+          code: "INVALID_RATES_FILE",
+          details: parsed.errors.slice(0, 50),
+        },
+      };
+    }
+
+    const result = await this.importRates(
+      parsed.rates,
+      `csv:${fileName}`,
+      companyId
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const backfill = await this.backfillBaseAmounts(companyId);
+
+    businessLogger.logUserAction("exchange_rates_imported", userId, {
+      companyId,
+      fileName,
+      imported: result.data.imported,
+      rejectedRows: parsed.errors.length,
+    });
+
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        errors: parsed.errors.slice(0, 50),
+        expensesConverted: backfill.data?.converted ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Fetch rates from the configured provider into the shared rate table
+   */
+  static async syncFromProvider(
+    date?: Date
+  ): Promise<
+    ServiceResult<{
+      provider: string;
+      imported: number;
+      dates: string[];
+      expensesConverted: number;
+    }>
+  > {
+    let provider;
+    try {
+      provider = getExchangeRateProvider();
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: (error as Error).message,
+          code: "PROVIDER_NOT_CONFIGURED",
+        },
+      };
+    }
+
+    let rates: RateQuote[];
+    try {
+      rates = await provider.fetchRates(date);
+    } catch (error) {
+      businessLogger.error("Exchange rate provider request failed", error as Error, {
+        provider: provider.name,
+        date: date && toDateString(date),
+      });
+      return {
+        success: false,
+        error: {
+          message: `Failed to fetch rates from ${provider.name}`,
+          code: "PROVIDER_FAILED",
+        },
+      };
+    }
+
+    if (rates.length === 0) {
+      return {
+        success: true,
+        data: {
+          provider: provider.name,
+          imported: 0,
+          dates: [],
+          expensesConverted: 0,
+        },
+      };
+    }
+
+    const result = await this.importRates(rates, provider.name, null);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const backfill = await this.backfillBaseAmounts();
+
+    return {
+      success: true,
+      data: {
+        provider: provider.name,
+        ...result.data,
+        expensesConverted: backfill.data?.converted ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Fill in the base amount of expenses that don't have one yet, typically
+   * because no rate was known when they were saved. Expenses already past
+   * submission get their rate locked.
+   */
+  static async backfillBaseAmounts(
+    companyId?: string
+  ): Promise<ServiceResult<{ converted: number; missingRates: number }>> {
+    try {
+      const rateCache = new Map<string, ResolvedRate | null>();
+      let converted = 0;
+      let missingRates = 0;
+      let cursor: string | undefined;
+
+      for (;;) {
+        const expenses = await prisma.expense.findMany({
+          where: {
+            baseAmount: null,
+            ...(companyId && { companyId }),
+            ...(cursor && { id: { gt: cursor } }),
+          },
+          include: {
+            company: { select: { id: true, baseCurrency: true } },
+          },
+          orderBy: { id: "asc" },
+          take: BACKFILL_BATCH_SIZE,
+        });
+
+        if (expenses.length === 0) {
+          break;
+        }
+        cursor = expenses[expenses.length - 1].id;
+
+        for (const expense of expenses) {
+          const key = `${expense.company.id}:${expense.currency}:${expense.company.baseCurrency}:${toDateString(expense.expenseDate)}`;
+
+          if (!rateCache.has(key)) {
+            const rate = await this.getRate(
+              expense.company.id,
+              expense.currency,
+              expense.company.baseCurrency,
+              expense.expenseDate
+            );
+            rateCache.set(key, rate.success && rate.data ? rate.data : null);
+          }
+
+          const rate = rateCache.get(key);
+          if (!rate) {
+            missingRates++;
+            continue;
+          }
+
+          await prisma.expense.update({
+            where: { id: expense.id },
+            data: {
+              exchangeRate: rate.rate,
+              exchangeRateDate: new Date(rate.rateDate),
+              baseAmount: convertAmount(Number(expense.amount), rate.rate),
+              baseCurrency: expense.company.baseCurrency,
+              ...(expense.status !== "DRAFT" && { rateLockedAt: new Date() }),
+            },
+          });
+          converted++;
+        }
+      }
+
+      if (converted > 0 || missingRates > 0) {
+        businessLogger.info("Expense base amounts backfilled", {
+          companyId,
+          converted,
+          missingRates,
+        });
+      }
+
+      return {
+        success: true,
+        data: { converted, missingRates },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to backfill base amounts", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to backfill base amounts",
+          code: "BACKFILL_FAILED",
+        },
+      };
+    }
+  }
+}
+
+export default ExchangeRateService;
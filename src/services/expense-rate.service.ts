@@ -0,0 +1,467 @@
+import { prisma } from "@/lib/prisma";
+import { MileageRate, PerDiemRate, Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  calculateMileage,
+  calculatePerDiem,
+  DEFAULT_PER_DIEM_DESTINATION,
+  type MileageCalculation,
+  type MileageDetails,
+  type MileageRateValues,
+  type PerDiemCalculation,
+  type PerDiemDetails,
+  type PerDiemRateValues,
+} from "@/lib/expense-calculations";
+import type {
+  CreateMileageRateInput,
+  CreatePerDiemRateInput,
+} from "@/lib/validations/expense-rates";
+
+export interface MileageRatePublic extends MileageRateValues {
+  effectiveTo: string | null;
+  createdAt: string;
+}
+
+export interface PerDiemRatePublic extends PerDiemRateValues {
+  effectiveTo: string | null;
+  createdAt: string;
+}
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+// The values recorded in an expense calculation
+const toMileageRateValues = (rate: MileageRate): MileageRateValues => ({
+  id: rate.id,
+  vehicleType: rate.vehicleType,
+  unit: rate.unit,
+  rate: Number(rate.rate),
+  effectiveFrom: toDateString(rate.effectiveFrom),
+});
+
+const toPerDiemRateValues = (rate: PerDiemRate): PerDiemRateValues => ({
+  id: rate.id,
+  destination: rate.destination,
+  dailyRate: Number(rate.dailyRate),
+  deductions: {
+    breakfast: Number(rate.breakfastDeduction),
+    lunch: Number(rate.lunchDeduction),
+    dinner: Number(rate.dinnerDeduction),
+  },
+  effectiveFrom: toDateString(rate.effectiveFrom),
+});
+
+const toMileageRatePublic = (rate: MileageRate): MileageRatePublic => ({
+  ...toMileageRateValues(rate),
+  effectiveTo: rate.effectiveTo ? toDateString(rate.effectiveTo) : null,
+  createdAt: rate.createdAt.toISOString(),
+});
+
+const toPerDiemRatePublic = (rate: PerDiemRate): PerDiemRatePublic => ({
+  ...toPerDiemRateValues(rate),
+  effectiveTo: rate.effectiveTo ? toDateString(rate.effectiveTo) : null,
+  createdAt: rate.createdAt.toISOString(),
+});
+
+// Rates in effect on the date
+const effectiveOn = (date: Date) => ({
+  effectiveFrom: { lte: date },
+  OR: [{ effectiveTo: null }, { effectiveTo: { gte: date } }],
+});
+
+const rateNotFound: ServiceResult<never> = {
+  success: false,
+  error: {
+    message: "Rate not found or access denied",
+    code: "RATE_NOT_FOUND",
+  },
+};
+
+export class ExpenseRateService {
+  /**
+   * List the mileage rates, newest first per vehicle type
+   */
+  static async listMileageRates(
+    companyId: string,
+    options: { date?: string } = {}
+  ): Promise<ServiceResult<MileageRatePublic[]>> {
+    try {
+      const rates = await prisma.mileageRate.findMany({
+        where: {
+          companyId,
+          ...(options.date && effectiveOn(new Date(options.date))),
+        },
+        orderBy: [{ vehicleType: "asc" }, { effectiveFrom: "desc" }],
+      });
+
+      return { success: true, data: rates.map(toMileageRatePublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list mileage rates", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve mileage rates",
+          code: "RATE_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Add a mileage rate. It supersedes the vehicle type's earlier rates from
+   * its effective date.
+   */
+  static async createMileageRate(
+    companyId: string,
+    input: CreateMileageRateInput,
+    userId: string
+  ): Promise<ServiceResult<MileageRatePublic>> {
+    try {
+      const rate = await prisma.mileageRate.create({
+        data: {
+          vehicleType: input.vehicleType,
+          unit: input.unit,
+          rate: input.rate,
+          effectiveFrom: new Date(input.effectiveFrom),
+          effectiveTo: input.effectiveTo ? new Date(input.effectiveTo) : null,
+          companyId,
+        },
+      });
+
+      businessLogger.logUserAction("mileage_rate_created", userId, {
+        companyId,
+        rateId: rate.id,
+      });
+
+      return { success: true, data: toMileageRatePublic(rate) };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return {
+          success: false,
+          error: {
+            message:
+              "A rate for this vehicle type already starts on this date",
+            code: "RATE_EXISTS",
+          },
+        };
+      }
+      businessLogger.error("Failed to create mileage rate", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create mileage rate",
+          code: "RATE_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Set or clear the last day a mileage rate applies
+   */
+  static async endMileageRate(
+    rateId: string,
+    companyId: string,
+    effectiveTo: string | null,
+    userId: string
+  ): Promise<ServiceResult<MileageRatePublic>> {
+    try {
+      const existing = await prisma.mileageRate.findFirst({
+        where: { id: rateId, companyId },
+      });
+
+      if (!existing) {
+        return rateNotFound;
+      }
+
+      const endError = checkEndDate(existing.effectiveFrom, effectiveTo);
+      if (endError) return endError;
+
+      const rate = await prisma.mileageRate.update({
+        where: { id: rateId },
+        data: { effectiveTo: effectiveTo ? new Date(effectiveTo) : null },
+      });
+
+      businessLogger.logUserAction("mileage_rate_ended", userId, {
+        companyId,
+        rateId,
+        effectiveTo,
+      });
+
+      return { success: true, data: toMileageRatePublic(rate) };
+    } catch (error) {
+      businessLogger.error("Failed to update mileage rate", error as Error, {
+        companyId,
+        rateId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update mileage rate",
+          code: "RATE_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * List the per-diem rates, newest first per destination
+   */
+  static async listPerDiemRates(
+    companyId: string,
+    options: { date?: string } = {}
+  ): Promise<ServiceResult<PerDiemRatePublic[]>> {
+    try {
+      const rates = await prisma.perDiemRate.findMany({
+        where: {
+          companyId,
+          ...(options.date && effectiveOn(new Date(options.date))),
+        },
+        orderBy: [{ destination: "asc" }, { effectiveFrom: "desc" }],
+      });
+
+      return { success: true, data: rates.map(toPerDiemRatePublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list per-diem rates", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve per-diem rates",
+          code: "RATE_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Add a per-diem rate. It supersedes the destination's earlier rates from
+   * its effective date.
+   */
+  static async createPerDiemRate(
+    companyId: string,
+    input: CreatePerDiemRateInput,
+    userId: string
+  ): Promise<ServiceResult<PerDiemRatePublic>> {
+    try {
+      const rate = await prisma.perDiemRate.create({
+        data: {
+          destination: input.destination,
+          dailyRate: input.dailyRate,
+          breakfastDeduction: input.breakfastDeduction,
+          lunchDeduction: input.lunchDeduction,
+          dinnerDeduction: input.dinnerDeduction,
+          effectiveFrom: new Date(input.effectiveFrom),
+          effectiveTo: input.effectiveTo ? new Date(input.effectiveTo) : null,
+          companyId,
+        },
+      });
+
+      businessLogger.logUserAction("per_diem_rate_created", userId, {
+        companyId,
+        rateId: rate.id,
+      });
+
+      return { success: true, data: toPerDiemRatePublic(rate) };
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return {
+          success: false,
+          error: {
+            message: "A rate for this destination already starts on this date",
+            code: "RATE_EXISTS",
+          },
+        };
+      }
+      businessLogger.error("Failed to create per-diem rate", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create per-diem rate",
+          code: "RATE_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Set or clear the last day a per-diem rate applies
+   */
+  static async endPerDiemRate(
+    rateId: string,
+    companyId: string,
+    effectiveTo: string | null,
+    userId: string
+  ): Promise<ServiceResult<PerDiemRatePublic>> {
+    try {
+      const existing = await prisma.perDiemRate.findFirst({
+        where: { id: rateId, companyId },
+      });
+
+      if (!existing) {
+        return rateNotFound;
+      }
+
+      const endError = checkEndDate(existing.effectiveFrom, effectiveTo);
+      if (endError) return endError;
+
+      const rate = await prisma.perDiemRate.update({
+        where: { id: rateId },
+        data: { effectiveTo: effectiveTo ? new Date(effectiveTo) : null },
+      });
+
+      businessLogger.logUserAction("per_diem_rate_ended", userId, {
+        companyId,
+        rateId,
+        effectiveTo,
+      });
+
+      return { success: true, data: toPerDiemRatePublic(rate) };
+    } catch (error) {
+      businessLogger.error("Failed to update per-diem rate", error as Error, {
+        companyId,
+        rateId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update per-diem rate",
+          code: "RATE_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Mileage amount for a trip on the date, at the vehicle type's rate
+   */
+  static async calculateMileage(
+    companyId: string,
+    details: MileageDetails,
+    date: string,
+    currency: string
+  ): Promise<ServiceResult<MileageCalculation>> {
+    const rate = await prisma.mileageRate.findFirst({
+      where: {
+        companyId,
+        vehicleType: details.vehicleType,
+        ...effectiveOn(new Date(date)),
+      },
+      orderBy: { effectiveFrom: "desc" },
+    });
+
+    if (!rate) {
+      return {
+        success: false,
+        error: {
+          message: `No mileage rate for ${details.vehicleType} on ${date}`,
+          code: "MILEAGE_RATE_NOT_FOUND",
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: calculateMileage(details, toMileageRateValues(rate), currency),
+    };
+  }
+
+  /**
+   * Per-diem allowance for the claimed days. Each day uses the destination's
+   * rate on that day, or the DEFAULT rate where the destination has none.
+   */
+  static async calculatePerDiem(
+    companyId: string,
+    details: PerDiemDetails,
+    currency: string
+  ): Promise<ServiceResult<PerDiemCalculation>> {
+    const dates = details.days.map((day) => day.date).sort();
+    const rates = await prisma.perDiemRate.findMany({
+      where: {
+        companyId,
+        destination: {
+          in: [details.destination, DEFAULT_PER_DIEM_DESTINATION],
+        },
+        effectiveFrom: { lte: new Date(dates[dates.length - 1]) },
+        OR: [
+          { effectiveTo: null },
+          { effectiveTo: { gte: new Date(dates[0]) } },
+        ],
+      },
+      orderBy: { effectiveFrom: "desc" },
+    });
+
+    const rateOn = (date: string, destination: string) =>
+      rates.find(
+        (rate) =>
+          rate.destination === destination &&
+          toDateString(rate.effectiveFrom) <= date &&
+          (!rate.effectiveTo || toDateString(rate.effectiveTo) >= date)
+      );
+    const rateForDay = new Map<string, PerDiemRateValues>();
+    const missing: string[] = [];
+
+    for (const date of dates) {
+      const rate =
+        rateOn(date, details.destination) ??
+        rateOn(date, DEFAULT_PER_DIEM_DESTINATION);
+      if (!rate) {
+        missing.push(date);
+        continue;
+      }
+      rateForDay.set(date, toPerDiemRateValues(rate));
+    }
+
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: {
+          message: `No per-diem rate for ${details.destination} on ${missing.join(", ")}`,
+          code: "PER_DIEM_RATE_NOT_FOUND",
+          details: missing,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: calculatePerDiem(
+        details,
+        (date) => rateForDay.get(date)!,
+        currency
+      ),
+    };
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+function checkEndDate(
+  effectiveFrom: Date,
+  effectiveTo: string | null
+): ServiceResult<never> | null {
+  if (effectiveTo && new Date(effectiveTo) < effectiveFrom) {
+    return {
+      success: false,
+      error: {
+        message: "A rate can't end before it takes effect",
+        code: "INVALID_EFFECTIVE_DATES",
+      },
+    };
+  }
+  return null;
+}
+
+export default ExpenseRateService;
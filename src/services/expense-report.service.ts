@@ -0,0 +1,1082 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { ApprovalChainStep, buildApprovalChain } from "@/lib/approval-chain";
+import {
+  calculateReportTotals,
+  isWithinReportDates,
+  type ReportTotals,
+} from "@/lib/expense-reports";
+import { toExpenseEventData } from "@/lib/webhooks";
+import type {
+  CreateExpenseReportInput,
+  ExpenseReportListQueryInput,
+  UpdateExpenseReportInput,
+} from "@/lib/validations/expense-reports";
+import { AdvanceService } from "./advance.service";
+import { ApprovalService } from "./approval.service";
+import { DelegationService } from "./delegation.service";
+import { EnhancedExpenseService } from "./enhanced-expense.service";
+import { EventBus } from "./event-bus.service";
+import { NotificationService } from "./notification-simple.service";
+
+export interface ReportActor {
+  id: string;
+  role: string;
+  companyId: string;
+}
+
+export interface ExpenseReportPublic {
+  id: string;
+  title: string;
+  purpose: string | null;
+  startDate: string;
+  endDate: string;
+  status: string;
+  submitter: { id: string; name: string; email: string };
+  // Cash advance the trip was paid from; totals.advanceAmount is its amount
+  advance: { id: string; purpose: string; status: string } | null;
+  totals: ReportTotals;
+  submittedAt: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExpenseReportLine {
+  id: string;
+  description: string;
+  expenseDate: string;
+  amount: number;
+  currency: string;
+  baseAmount: number | null;
+  status: string;
+  category: { id: string; name: string };
+  receiptCount: number;
+  // Set when an approver rejected this expense out of the report
+  rejection: {
+    comment: string | null;
+    rejectedBy: { id: string; name: string };
+    rejectedAt: string | null;
+  } | null;
+}
+
+export interface ExpenseReportDetail extends ExpenseReportPublic {
+  expenses: ExpenseReportLine[];
+  approvalChain: ApprovalChainStep[];
+  // The viewer's open step on the report, when they can decide it now
+  pendingApprovalId: string | null;
+}
+
+const reportInclude = {
+  submitter: { select: { id: true, name: true, email: true } },
+  company: { select: { baseCurrency: true } },
+  advance: { select: { id: true, purpose: true, status: true } },
+  expenses: { select: { amount: true, baseAmount: true, status: true } },
+} as const;
+
+type ReportRow = Prisma.ExpenseReportGetPayload<{
+  include: typeof reportInclude;
+}>;
+
+const reportDetailInclude = {
+  submitter: { select: { id: true, name: true, email: true } },
+  company: { select: { baseCurrency: true } },
+  advance: { select: { id: true, purpose: true, status: true } },
+  expenses: {
+    include: {
+      category: { select: { id: true, name: true } },
+      _count: { select: { receipts: true } },
+      // Line-level rejections are recorded on the expense without a rule
+      approvals: {
+        where: { status: "REJECTED", ruleId: null },
+        include: {
+          approver: { select: { id: true, name: true } },
+          actedBy: { select: { id: true, name: true } },
+        },
+        orderBy: { processedAt: "desc" },
+        take: 1,
+      },
+    },
+    orderBy: { expenseDate: "asc" },
+  },
+  approvals: {
+    include: {
+      approver: { select: { id: true, name: true, email: true } },
+      actedBy: { select: { id: true, name: true } },
+      escalatedFrom: { select: { id: true, name: true } },
+      approvalRule: { select: { name: true, isSequenceRequired: true } },
+    },
+    // buildApprovalChain puts the steps in chain order
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
+type ReportDetailRow = Prisma.ExpenseReportGetPayload<{
+  include: typeof reportDetailInclude;
+}>;
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+const toReportPublic = (
+  report: Omit<ReportRow, "expenses"> & {
+    expenses: { amount: unknown; baseAmount: unknown; status: string }[];
+  }
+): ExpenseReportPublic => ({
+  id: report.id,
+  title: report.title,
+  purpose: report.purpose,
+  startDate: toDateString(report.startDate),
+  endDate: toDateString(report.endDate),
+  status: report.status,
+  submitter: report.submitter,
+  advance: report.advance,
+  totals: calculateReportTotals(
+    report.expenses,
+    report.company.baseCurrency,
+    report.advanceAmount
+  ),
+  submittedAt: report.submittedAt?.toISOString() ?? null,
+  decidedAt: report.decidedAt?.toISOString() ?? null,
+  createdAt: report.createdAt.toISOString(),
+  updatedAt: report.updatedAt.toISOString(),
+});
+
+const toReportLine = (
+  expense: ReportDetailRow["expenses"][number]
+): ExpenseReportLine => {
+  const rejection = expense.approvals[0];
+  return {
+    id: expense.id,
+    description: expense.description,
+    expenseDate: toDateString(expense.expenseDate),
+    amount: Number(expense.amount),
+    currency: expense.currency,
+    baseAmount: expense.baseAmount != null ? Number(expense.baseAmount) : null,
+    status: expense.status,
+    category: expense.category,
+    receiptCount: expense._count.receipts,
+    rejection: rejection
+      ? {
+          comment: rejection.comments,
+          rejectedBy: rejection.actedBy ?? rejection.approver,
+          rejectedAt: rejection.processedAt?.toISOString() ?? null,
+        }
+      : null,
+  };
+};
+
+const notFound = (): ServiceResult<never> => ({
+  success: false,
+  error: { message: "Expense report not found", code: "REPORT_NOT_FOUND" },
+});
+
+const notDraft = (): ServiceResult<never> => ({
+  success: false,
+  error: {
+    message: "Only draft expense reports can be changed",
+    code: "REPORT_NOT_DRAFT",
+  },
+});
+
+export class ExpenseReportService {
+  /**
+   * List expense reports, newest first. See expenseReportListQuerySchema for
+   * the scopes.
+   */
+  static async listReports(
+    actor: ReportActor,
+    query: ExpenseReportListQueryInput
+  ): Promise<ServiceResult<ExpenseReportPublic[]>> {
+    try {
+      if (query.scope === "company" && actor.role !== "ADMIN") {
+        return {
+          success: false,
+          error: {
+            message: "Only administrators can list every expense report",
+            code: "FORBIDDEN",
+          },
+        };
+      }
+
+      let scopeWhere: Prisma.ExpenseReportWhereInput = {
+        submitterId: actor.id,
+      };
+      if (query.scope === "company") {
+        scopeWhere = {};
+      } else if (query.scope === "approvals") {
+        const delegatorIds = await DelegationService.getActiveDelegatorIds(
+          actor.id
+        );
+        scopeWhere = {
+          approvals: {
+            some: { approverId: { in: [actor.id, ...delegatorIds] } },
+          },
+        };
+      }
+
+      const reports = await prisma.expenseReport.findMany({
+        where: {
+          companyId: actor.companyId,
+          ...scopeWhere,
+          ...(query.status && { status: query.status }),
+        },
+        include: reportInclude,
+        orderBy: { createdAt: "desc" },
+      });
+
+      return { success: true, data: reports.map(toReportPublic) };
+    } catch (error) {
+      businessLogger.error("Failed to list expense reports", error as Error, {
+        userId: actor.id,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve expense reports",
+          code: "REPORT_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * A report with its expenses and approval chain. Visible to its submitter,
+   * admins, and approvers (or their delegates) with a step on it.
+   */
+  static async getReport(
+    actor: ReportActor,
+    reportId: string
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const report = await prisma.expenseReport.findFirst({
+        where: { id: reportId, companyId: actor.companyId },
+        include: reportDetailInclude,
+      });
+
+      if (!report) return notFound();
+
+      const delegatorIds = await DelegationService.getActiveDelegatorIds(
+        actor.id
+      );
+      const actorApproverIds = [actor.id, ...delegatorIds];
+      const isApprover = report.approvals.some((step) =>
+        actorApproverIds.includes(step.approverId)
+      );
+
+      if (
+        report.submitterId !== actor.id &&
+        actor.role !== "ADMIN" &&
+        !isApprover
+      ) {
+        return notFound();
+      }
+
+      // Delegates don't decide on their own reports
+      const pendingStep = report.approvals.find(
+        (step) =>
+          step.status === "PENDING" &&
+          (step.approverId === actor.id ||
+            (report.submitterId !== actor.id &&
+              delegatorIds.includes(step.approverId)))
+      );
+
+      return {
+        success: true,
+        data: {
+          ...toReportPublic(report),
+          expenses: report.expenses.map(toReportLine),
+          approvalChain: buildApprovalChain(report.approvals),
+          pendingApprovalId: pendingStep?.id ?? null,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get expense report", error as Error, {
+        reportId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve expense report",
+          code: "REPORT_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a draft report, optionally with some of the user's draft expenses
+   */
+  static async createReport(
+    actor: ReportActor,
+    input: CreateExpenseReportInput
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const dates = {
+        startDate: new Date(input.startDate),
+        endDate: new Date(input.endDate),
+      };
+
+      if (input.expenseIds?.length) {
+        const expenseError = await this.validateDraftExpenses(
+          actor,
+          input.expenseIds,
+          dates
+        );
+        if (expenseError) return expenseError;
+      }
+
+      let advanceAmount: number | Prisma.Decimal | undefined =
+        input.advanceAmount;
+      if (input.advanceId) {
+        const advance = await AdvanceService.findLinkableAdvance(
+          actor,
+          input.advanceId
+        );
+        if ("error" in advance) return advance.error;
+        advanceAmount = advance.amount;
+      }
+
+      const report = await prisma.$transaction(async (tx) => {
+        const created = await tx.expenseReport.create({
+          data: {
+            title: input.title,
+            purpose: input.purpose,
+            ...dates,
+            advanceAmount,
+            advanceId: input.advanceId,
+            submitterId: actor.id,
+            companyId: actor.companyId,
+          },
+        });
+
+        if (input.expenseIds?.length) {
+          await tx.expense.updateMany({
+            where: { id: { in: input.expenseIds } },
+            data: { reportId: created.id },
+          });
+        }
+
+        return created;
+      });
+
+      businessLogger.logUserAction("expense_report_created", actor.id, {
+        reportId: report.id,
+        expenseCount: input.expenseIds?.length ?? 0,
+      });
+
+      return this.getReport(actor, report.id);
+    } catch (error) {
+      businessLogger.error("Failed to create expense report", error as Error, {
+        userId: actor.id,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create expense report",
+          code: "REPORT_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a draft report. New dates must still cover its expenses. Linking
+   * an advance copies its amount; entering an amount unlinks the advance.
+   */
+  static async updateReport(
+    actor: ReportActor,
+    reportId: string,
+    input: UpdateExpenseReportInput
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const report = await this.findOwnDraft(actor, reportId);
+      if ("error" in report) return report.error;
+
+      const dates = {
+        startDate: input.startDate
+          ? new Date(input.startDate)
+          : report.startDate,
+        endDate: input.endDate ? new Date(input.endDate) : report.endDate,
+      };
+
+      if (dates.startDate > dates.endDate) {
+        return {
+          success: false,
+          error: {
+            message: "Start date must be before or equal to end date",
+            code: "INVALID_REPORT_DATES",
+          },
+        };
+      }
+
+      const outsideRange = report.expenses.filter(
+        (expense) => !isWithinReportDates(expense.expenseDate, dates)
+      );
+      if (outsideRange.length > 0) {
+        return {
+          success: false,
+          error: {
+            message:
+              "The report dates must cover every expense in the report",
+            code: "INVALID_REPORT_DATES",
+            details: outsideRange.map((expense) => expense.description),
+          },
+        };
+      }
+
+      let advanceData: Prisma.ExpenseReportUncheckedUpdateInput = {};
+      if (input.advanceId) {
+        const advance = await AdvanceService.findLinkableAdvance(
+          actor,
+          input.advanceId
+        );
+        if ("error" in advance) return advance.error;
+        advanceData = { advanceId: advance.id, advanceAmount: advance.amount };
+      } else if (input.advanceAmount !== undefined) {
+        advanceData = { advanceId: null, advanceAmount: input.advanceAmount };
+      } else if (input.advanceId === null) {
+        advanceData = { advanceId: null, advanceAmount: null };
+      }
+
+      await prisma.expenseReport.update({
+        where: { id: reportId },
+        data: {
+          ...(input.title !== undefined && { title: input.title }),
+          ...(input.purpose !== undefined && { purpose: input.purpose }),
+          ...advanceData,
+          ...dates,
+        },
+      });
+
+      businessLogger.logUserAction("expense_report_updated", actor.id, {
+        reportId,
+        fields: Object.keys(input),
+      });
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error("Failed to update expense report", error as Error, {
+        reportId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update expense report",
+          code: "REPORT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Delete a draft report; its expenses go back to being standalone drafts
+   */
+  static async deleteReport(
+    actor: ReportActor,
+    reportId: string
+  ): Promise<ServiceResult<{ id: string }>> {
+    try {
+      const report = await this.findOwnDraft(actor, reportId);
+      if ("error" in report) return report.error;
+
+      await prisma.expenseReport.delete({ where: { id: reportId } });
+
+      businessLogger.logUserAction("expense_report_deleted", actor.id, {
+        reportId,
+      });
+
+      return { success: true, data: { id: reportId } };
+    } catch (error) {
+      businessLogger.error("Failed to delete expense report", error as Error, {
+        reportId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to delete expense report",
+          code: "REPORT_DELETE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Add draft expenses to a draft report. An expense already in another
+   * draft report is moved.
+   */
+  static async addExpenses(
+    actor: ReportActor,
+    reportId: string,
+    expenseIds: string[]
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const report = await this.findOwnDraft(actor, reportId);
+      if ("error" in report) return report.error;
+
+      const expenseError = await this.validateDraftExpenses(
+        actor,
+        expenseIds,
+        report
+      );
+      if (expenseError) return expenseError;
+
+      await prisma.expense.updateMany({
+        where: { id: { in: expenseIds } },
+        data: { reportId },
+      });
+
+      businessLogger.logUserAction("expense_report_expenses_added", actor.id, {
+        reportId,
+        expenseIds,
+      });
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error(
+        "Failed to add expenses to report",
+        error as Error,
+        { reportId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to add expenses to the report",
+          code: "REPORT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Take expenses out of a draft report; they stay as drafts
+   */
+  static async removeExpenses(
+    actor: ReportActor,
+    reportId: string,
+    expenseIds: string[]
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const report = await this.findOwnDraft(actor, reportId);
+      if ("error" in report) return report.error;
+
+      await prisma.expense.updateMany({
+        where: { id: { in: expenseIds }, reportId },
+        data: { reportId: null },
+      });
+
+      businessLogger.logUserAction(
+        "expense_report_expenses_removed",
+        actor.id,
+        { reportId, expenseIds }
+      );
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error(
+        "Failed to remove expenses from report",
+        error as Error,
+        { reportId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to remove expenses from the report",
+          code: "REPORT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Submit a draft report for approval. Every expense goes through the same
+   * checks as a standalone submission (locked exchange rate, company
+   * policies); the report is refused if any of them fails. The approval
+   * rules are evaluated once, against the report's base currency total, and
+   * the chain is attached to the report. With no applicable rules the
+   * report waits for an administrator, as expenses do. The expenses of a
+   * report linked to an advance are set against it.
+   */
+  static async submitReport(
+    actor: ReportActor,
+    reportId: string
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const report = await this.findOwnDraft(actor, reportId);
+      if ("error" in report) return report.error;
+
+      // The advance may have been reconciled or cancelled since it was linked
+      if (report.advanceId) {
+        const advance = await AdvanceService.findLinkableAdvance(
+          actor,
+          report.advanceId
+        );
+        if ("error" in advance) return advance.error;
+      }
+
+      const expenses = await prisma.expense.findMany({
+        where: { reportId },
+        include: {
+          company: true,
+          receipts: { select: { id: true } },
+        },
+      });
+
+      if (expenses.length === 0) {
+        return {
+          success: false,
+          error: {
+            message: "Add at least one expense before submitting the report",
+            code: "REPORT_EMPTY",
+          },
+        };
+      }
+
+      const notDraftExpenses = expenses.filter(
+        (expense) => expense.status !== "DRAFT"
+      );
+      if (notDraftExpenses.length > 0) {
+        return {
+          success: false,
+          error: {
+            message: "Only draft expenses can be submitted with a report",
+            code: "REPORT_EXPENSES_INVALID",
+            details: notDraftExpenses.map((expense) => expense.description),
+          },
+        };
+      }
+
+      const submissions: { id: string; data: Record<string, unknown> }[] = [];
+      const problems: string[] = [];
+      for (const expense of expenses) {
+        const submission = await EnhancedExpenseService.prepareSubmission(
+          expense
+        );
+        if (submission.success && submission.data) {
+          submissions.push({ id: expense.id, data: submission.data });
+        } else {
+          problems.push(`${expense.description}: ${submission.error}`);
+        }
+      }
+
+      if (problems.length > 0) {
+        return {
+          success: false,
+          error: {
+            message: "Some expenses in the report can't be submitted",
+            code: "REPORT_EXPENSES_INVALID",
+            details: problems,
+          },
+        };
+      }
+
+      const baseCurrency = expenses[0].company.baseCurrency;
+      const submittedAt = new Date();
+
+      await prisma.$transaction(async (tx) => {
+        for (const submission of submissions) {
+          await tx.expense.update({
+            where: { id: submission.id },
+            data: {
+              status: "PENDING_APPROVAL",
+              ...submission.data,
+              advanceId: report.advanceId,
+            },
+          });
+        }
+
+        const submitted = await tx.expense.findMany({
+          where: { reportId },
+          select: { amount: true, baseAmount: true, status: true },
+        });
+
+        await tx.expenseReport.update({
+          where: { id: reportId },
+          data: {
+            status: "PENDING_APPROVAL",
+            submittedAt,
+            totalAmount: calculateReportTotals(submitted, baseCurrency)
+              .totalAmount,
+            currency: baseCurrency,
+          },
+        });
+      });
+
+      const rulesResult = await ApprovalService.evaluateReportApprovalRules(
+        reportId,
+        actor.companyId
+      );
+
+      // A report no rule applies to goes to the company's fallback
+      // approver
+      if (rulesResult.success && rulesResult.data) {
+        const chainResult = await ApprovalService.createApprovalChain(
+          { reportId },
+          rulesResult.data
+        );
+
+        if (chainResult.success) {
+          await this.notifyFirstApprovers(reportId);
+        } else {
+          businessLogger.warn("Failed to create approval chain for report", {
+            reportId,
+            error: chainResult.error,
+          });
+        }
+      } else {
+        businessLogger.warn("Failed to evaluate approval rules for report", {
+          reportId,
+          error: rulesResult.error,
+        });
+      }
+
+      const submittedExpenses = await prisma.expense.findMany({
+        where: { reportId },
+      });
+      for (const expense of submittedExpenses) {
+        await EventBus.publish(
+          "expense.submitted",
+          actor.companyId,
+          toExpenseEventData(expense),
+          actor.id
+        );
+      }
+
+      businessLogger.logUserAction("expense_report_submitted", actor.id, {
+        reportId,
+        expenseCount: expenses.length,
+        ruleIds: rulesResult.data,
+      });
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error("Failed to submit expense report", error as Error, {
+        reportId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to submit expense report",
+          code: "REPORT_SUBMIT_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Approve or reject the whole report on the actor's current step. The
+   * report only moves once its chain completes.
+   */
+  static async decideReport(
+    actor: ReportActor,
+    reportId: string,
+    decision: "approve" | "reject",
+    comment?: string
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const step = await this.findPendingStep(actor, reportId);
+      if (!step) return this.notActionable();
+
+      const result =
+        decision === "approve"
+          ? await ApprovalService.approveExpense(step.id, actor.id, comment)
+          : await ApprovalService.rejectExpense(
+              step.id,
+              actor.id,
+              comment ?? ""
+            );
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error("Failed to decide expense report", error as Error, {
+        reportId,
+        decision,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to record the decision",
+          code: "REPORT_DECISION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Reject a single expense out of a report that is awaiting the actor's
+   * decision. The expense is rejected straight away; the rest of the report
+   * carries on through its chain. Rejecting every expense this way isn't
+   * allowed: the last one is rejected with the report instead.
+   */
+  static async rejectReportExpense(
+    actor: ReportActor,
+    reportId: string,
+    expenseId: string,
+    comment: string
+  ): Promise<ServiceResult<ExpenseReportDetail>> {
+    try {
+      const step = await this.findPendingStep(actor, reportId);
+      if (!step) return this.notActionable();
+
+      const expense = await prisma.expense.findFirst({
+        where: { id: expenseId, reportId },
+      });
+
+      if (!expense) {
+        return {
+          success: false,
+          error: {
+            message: "Expense not found in this report",
+            code: "EXPENSE_NOT_FOUND",
+          },
+        };
+      }
+
+      if (expense.status !== "PENDING_APPROVAL") {
+        return {
+          success: false,
+          error: {
+            message: "This expense has already been decided",
+            code: "EXPENSE_NOT_PENDING",
+          },
+        };
+      }
+
+      const remaining = await prisma.expense.count({
+        where: { reportId, status: "PENDING_APPROVAL" },
+      });
+      if (remaining <= 1) {
+        return {
+          success: false,
+          error: {
+            message:
+              "This is the last expense awaiting approval; reject the report instead",
+            code: "LAST_REPORT_EXPENSE",
+          },
+        };
+      }
+
+      const processedAt = new Date();
+      const rejected = await prisma.$transaction(async (tx) => {
+        await tx.expenseApproval.create({
+          data: {
+            expenseId,
+            approverId: step.approverId,
+            actedById: step.approverId === actor.id ? null : actor.id,
+            status: "REJECTED",
+            comments: comment,
+            activatedAt: processedAt,
+            processedAt,
+          },
+        });
+
+        return tx.expense.update({
+          where: { id: expenseId },
+          data: { status: "REJECTED" },
+        });
+      });
+
+      await EventBus.publish(
+        "expense.rejected",
+        actor.companyId,
+        toExpenseEventData(rejected),
+        actor.id
+      );
+
+      await NotificationService.createNotification({
+        userId: rejected.submitterId,
+        type: "EXPENSE_REJECTED",
+        title: "Expense rejected",
+        message: `"${rejected.description}" was rejected from your expense report: ${comment}`,
+        data: { reportId, expenseId },
+      });
+
+      businessLogger.logApprovalEvent(
+        "line_rejected",
+        step.id,
+        expenseId,
+        actor.id,
+        { reportId, comment }
+      );
+
+      return this.getReport(actor, reportId);
+    } catch (error) {
+      businessLogger.error(
+        "Failed to reject expense from report",
+        error as Error,
+        { reportId, expenseId }
+      );
+      return {
+        success: false,
+        error: {
+          message: "Failed to reject the expense",
+          code: "REPORT_DECISION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The actor's own draft report, with its expense dates
+   */
+  private static async findOwnDraft(
+    actor: ReportActor,
+    reportId: string
+  ): Promise<
+    | {
+        startDate: Date;
+        endDate: Date;
+        advanceId: string | null;
+        expenses: { description: string; expenseDate: Date }[];
+      }
+    | { error: ServiceResult<never> }
+  > {
+    const report = await prisma.expenseReport.findFirst({
+      where: {
+        id: reportId,
+        companyId: actor.companyId,
+        submitterId: actor.id,
+      },
+      include: {
+        expenses: { select: { description: true, expenseDate: true } },
+      },
+    });
+
+    if (!report) return { error: notFound() };
+    if (report.status !== "DRAFT") return { error: notDraft() };
+
+    return report;
+  }
+
+  /**
+   * Expenses added to a report must be the actor's own drafts, dated within
+   * the report, and not already in a submitted report
+   */
+  private static async validateDraftExpenses(
+    actor: ReportActor,
+    expenseIds: string[],
+    dates: { startDate: Date; endDate: Date }
+  ): Promise<ServiceResult<never> | null> {
+    const expenses = await prisma.expense.findMany({
+      where: {
+        id: { in: expenseIds },
+        companyId: actor.companyId,
+        submitterId: actor.id,
+      },
+      select: {
+        id: true,
+        description: true,
+        expenseDate: true,
+        status: true,
+        report: { select: { status: true } },
+      },
+    });
+
+    if (expenses.length !== expenseIds.length) {
+      return {
+        success: false,
+        error: {
+          message: "Some expenses were not found",
+          code: "EXPENSE_NOT_FOUND",
+        },
+      };
+    }
+
+    const problems: string[] = [];
+    for (const expense of expenses) {
+      if (expense.status !== "DRAFT") {
+        problems.push(`${expense.description}: only drafts can be added`);
+      } else if (expense.report && expense.report.status !== "DRAFT") {
+        problems.push(`${expense.description}: already in a submitted report`);
+      } else if (!isWithinReportDates(expense.expenseDate, dates)) {
+        problems.push(`${expense.description}: dated outside the report`);
+      }
+    }
+
+    if (problems.length > 0) {
+      return {
+        success: false,
+        error: {
+          message: "Some expenses can't be added to the report",
+          code: "REPORT_EXPENSES_INVALID",
+          details: problems,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * The report step awaiting the actor's decision, their own or delegated
+   */
+  private static async findPendingStep(actor: ReportActor, reportId: string) {
+    const delegatorIds = await DelegationService.getActiveDelegatorIds(
+      actor.id
+    );
+
+    const steps = await prisma.expenseApproval.findMany({
+      where: {
+        reportId,
+        report: { companyId: actor.companyId },
+        status: "PENDING",
+        OR: [
+          { approverId: actor.id },
+          // Delegates don't decide on their own reports
+          {
+            approverId: { in: delegatorIds },
+            report: { submitterId: { not: actor.id } },
+          },
+        ],
+      },
+    });
+
+    // Prefer the actor's own step over a delegated one
+    return (
+      steps.find((step) => step.approverId === actor.id) ?? steps[0] ?? null
+    );
+  }
+
+  private static notActionable(): ServiceResult<never> {
+    return {
+      success: false,
+      error: {
+        message: "This report is not awaiting your decision",
+        code: "APPROVAL_NOT_ACTIONABLE",
+      },
+    };
+  }
+
+  /**
+   * Tell the approvers of the chain's first stage about the new report
+   */
+  private static async notifyFirstApprovers(reportId: string): Promise<void> {
+    const report = await prisma.expenseReport.findUniqueOrThrow({
+      where: { id: reportId },
+      include: {
+        submitter: { select: { name: true } },
+        approvals: {
+          where: { status: "PENDING" },
+          select: { id: true, approverId: true },
+        },
+      },
+    });
+
+    for (const step of report.approvals) {
+      await NotificationService.createNotification({
+        userId: step.approverId,
+        type: "APPROVAL_REQUIRED",
+        title: "Approval required",
+        message: `${report.submitter.name}'s expense report "${report.title}" is waiting for your approval`,
+        data: { reportId, approvalId: step.id },
+      });
+    }
+  }
+}
+
+export default ExpenseReportService;
@@ -7,3 +7,21 @@ export { default as ReceiptService } from "./receipt.service";
 export { default as NotificationService } from "./notification-simple.service";
 export { ReportsService } from "./reports.service";
 export { default as CompanyService } from "./company.service";
+export { default as DelegationService } from "./delegation.service";
+export { default as ApprovalSlaService } from "./approval-sla.service";
+export { default as WebhookService } from "./webhook.service";
+export { default as EventBus } from "./event-bus.service";
+export { default as ExchangeRateService } from "./exchange-rate.service";
+export { default as PolicyService } from "./policy.service";
+export { default as CategoryService } from "./category.service";
+export { default as DepartmentService } from "./department.service";
+export { default as CostCenterService } from "./cost-center.service";
+export { default as ProjectService } from "./project.service";
+export { default as ExpenseRateService } from "./expense-rate.service";
+export { default as ExpenseReportService } from "./expense-report.service";
+export { default as AdvanceService } from "./advance.service";
+export { default as RoleService } from "./role.service";
+export { default as AuditService } from "./audit.service";
+export { default as OnboardingService } from "./onboarding.service";
+export { default as InvitationService } from "./invitation.service";
+export { default as TwoFactorService } from "./two-factor.service";
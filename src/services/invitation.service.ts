@@ -0,0 +1,1126 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma, Role } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { addEmailJob, JobPriority } from "@/lib/queue";
+import { hashPassword, validatePassword } from "@/lib/password";
+import { USER_AUDIT_FIELDS } from "@/lib/audit";
+import { toUserEventData } from "@/lib/webhooks";
+import {
+  INVITATION_TTL_DAYS,
+  generateInvitationToken,
+  hashInvitationToken,
+  invitationExpiry,
+  invitationLink,
+  parseUserImportCsv,
+} from "@/lib/invitations";
+import {
+  importUserRowSchema,
+  validateManagerAssignment,
+  validateRoleHierarchy,
+  validateUserInput,
+  type CreateInvitationInput,
+  type InvitationsQueryInput,
+} from "@/lib/validations/users";
+import { AuditService } from "./audit.service";
+import { CostCenterService } from "./cost-center.service";
+import { DepartmentService } from "./department.service";
+import { EventBus } from "./event-bus.service";
+
+const INVITATION_AUDIT_FIELDS = [
+  "email",
+  "name",
+  "role",
+  "managerId",
+  "managerInvitationId",
+  "departmentId",
+  "costCenterId",
+] as const;
+
+// PENDING invitations past their expiry are reported as EXPIRED
+export type InvitationState = "PENDING" | "EXPIRED" | "ACCEPTED" | "REVOKED";
+
+export interface InvitationPublic {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  status: InvitationState;
+  expiresAt: string;
+  sentCount: number;
+  lastSentAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  invitedBy: { id: string; name: string; email: string } | null;
+  // An existing user, or an invitee who will be the manager once they join
+  manager: {
+    id: string;
+    name: string;
+    email: string;
+    invited: boolean;
+  } | null;
+  department: { id: string; name: string } | null;
+  costCenter: { id: string; code: string; name: string } | null;
+}
+
+// What the invitee sees before accepting
+export interface InvitationPreview {
+  email: string;
+  name: string;
+  role: Role;
+  companyName: string;
+  inviterName: string | null;
+  expiresAt: string;
+}
+
+export interface AcceptedInvitation {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    role: Role;
+    companyId: string;
+  };
+}
+
+export interface UserImportRowResult {
+  row: number;
+  email: string;
+  name: string;
+  role: string;
+  managerEmail: string | null;
+  // valid rows are invited unless the import is a dry run
+  status: "valid" | "invalid" | "invited";
+  errors: string[];
+  invitationId?: string;
+}
+
+export interface UserImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  invited: number;
+  rows: UserImportRowResult[];
+}
+
+const invitationInclude = {
+  invitedBy: { select: { id: true, name: true, email: true } },
+  manager: { select: { id: true, name: true, email: true } },
+  managerInvitation: { select: { id: true, name: true, email: true } },
+  department: { select: { id: true, name: true } },
+  costCenter: { select: { id: true, code: true, name: true } },
+} as const;
+
+type InvitationRow = Prisma.InvitationGetPayload<{
+  include: typeof invitationInclude;
+}>;
+
+const invitationState = (invitation: {
+  status: InvitationRow["status"];
+  expiresAt: Date;
+}): InvitationState =>
+  invitation.status === "PENDING" && invitation.expiresAt < new Date()
+    ? "EXPIRED"
+    : invitation.status;
+
+const toInvitationPublic = (invitation: InvitationRow): InvitationPublic => ({
+  id: invitation.id,
+  email: invitation.email,
+  name: invitation.name,
+  role: invitation.role,
+  status: invitationState(invitation),
+  expiresAt: invitation.expiresAt.toISOString(),
+  sentCount: invitation.sentCount,
+  lastSentAt: invitation.lastSentAt.toISOString(),
+  acceptedAt: invitation.acceptedAt?.toISOString() ?? null,
+  revokedAt: invitation.revokedAt?.toISOString() ?? null,
+  createdAt: invitation.createdAt.toISOString(),
+  invitedBy: invitation.invitedBy,
+  manager: invitation.manager
+    ? { ...invitation.manager, invited: false }
+    : invitation.managerInvitation
+      ? { ...invitation.managerInvitation, invited: true }
+      : null,
+  department: invitation.department,
+  costCenter: invitation.costCenter,
+});
+
+const invitationNotFound = (): ServiceResult<never> => ({
+  success: false,
+  error: {
+    message: "Invitation not found or access denied",
+    code: "INVITATION_NOT_FOUND",
+  },
+});
+
+const invalidToken = (): ServiceResult<never> => ({
+  success: false,
+  error: {
+    message: "This invitation link is invalid or has already been used",
+    code: "INVALID_TOKEN",
+  },
+});
+
+const isManagerRole = (role: string) => role === "ADMIN" || role === "MANAGER";
+
+export class InvitationService {
+  /**
+   * The company's invitations, newest first
+   */
+  static async listInvitations(
+    companyId: string,
+    query: InvitationsQueryInput
+  ): Promise<
+    ServiceResult<{
+      invitations: InvitationPublic[];
+      pagination: { page: number; limit: number; total: number; totalPages: number };
+    }>
+  > {
+    try {
+      const { status, page, limit } = query;
+      const now = new Date();
+
+      const where: Prisma.InvitationWhereInput = { companyId };
+      if (status === "PENDING") {
+        where.status = "PENDING";
+        where.expiresAt = { gte: now };
+      } else if (status === "EXPIRED") {
+        where.status = "PENDING";
+        where.expiresAt = { lt: now };
+      } else if (status) {
+        where.status = status;
+      }
+
+      const [invitations, total] = await Promise.all([
+        prisma.invitation.findMany({
+          where,
+          include: invitationInclude,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.invitation.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          invitations: invitations.map(toInvitationPublic),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list invitations", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve invitations",
+          code: "INVITATION_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Invite someone to the company. They join with the given role, manager,
+   * department and cost center once they accept.
+   */
+  static async createInvitation(
+    companyId: string,
+    inviterId: string,
+    input: CreateInvitationInput
+  ): Promise<ServiceResult<InvitationPublic>> {
+    try {
+      const { email, name, role, managerId, departmentId, costCenterId } =
+        input;
+
+      const managerValidation = validateManagerAssignment(role, managerId);
+      if (!managerValidation.success) {
+        return {
+          success: false,
+          error: {
+            message: managerValidation.error!,
+            code: "BUSINESS_RULE_VIOLATION",
+          },
+        };
+      }
+
+      // Only admins can invite admins and managers
+      const inviter = await prisma.user.findUniqueOrThrow({
+        where: { id: inviterId },
+        select: { role: true },
+      });
+      const roleValidation = validateRoleHierarchy(inviter.role, role);
+      if (!roleValidation.success) {
+        return {
+          success: false,
+          error: {
+            message: roleValidation.error!,
+            code: "ROLE_NOT_ALLOWED",
+          },
+        };
+      }
+
+      const conflict = await this.findEmailConflict(companyId, email);
+      if (conflict) return conflict;
+
+      if (managerId) {
+        const manager = await prisma.user.findFirst({
+          where: {
+            id: managerId,
+            companyId,
+            role: { in: ["ADMIN", "MANAGER"] },
+          },
+          select: { id: true },
+        });
+
+        if (!manager) {
+          return {
+            success: false,
+            error: {
+              message: "Manager not found or invalid",
+              code: "MANAGER_NOT_FOUND",
+            },
+          };
+        }
+      }
+
+      const assignmentError =
+        (departmentId
+          ? await DepartmentService.validateDepartment(companyId, departmentId)
+          : null) ??
+        (costCenterId
+          ? await CostCenterService.validateCostCenters(companyId, [
+              costCenterId,
+            ])
+          : null);
+      if (assignmentError) return assignmentError;
+
+      const { token, tokenHash } = generateInvitationToken();
+      const invitation = await prisma.invitation.create({
+        data: {
+          email,
+          name,
+          role,
+          tokenHash,
+          expiresAt: invitationExpiry(),
+          companyId,
+          invitedById: inviterId,
+          managerId,
+          departmentId,
+          costCenterId,
+        },
+        include: invitationInclude,
+      });
+
+      await this.sendInvitationEmail(invitation, token);
+
+      await AuditService.record({
+        companyId,
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        action: "created",
+        before: null,
+        after: { ...invitation },
+        fields: INVITATION_AUDIT_FIELDS,
+      });
+
+      businessLogger.logUserAction("user_invited", inviterId, {
+        companyId,
+        invitationId: invitation.id,
+        role,
+      });
+
+      return { success: true, data: toInvitationPublic(invitation) };
+    } catch (error) {
+      businessLogger.error("Failed to create invitation", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create invitation",
+          code: "INVITATION_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Email a pending invitation again with a new link. The previous link stops
+   * working and the invitation gets a fresh expiry, so expired invitations
+   * can be revived.
+   */
+  static async resendInvitation(
+    companyId: string,
+    invitationId: string,
+    actorId: string
+  ): Promise<ServiceResult<InvitationPublic>> {
+    try {
+      const existing = await prisma.invitation.findFirst({
+        where: { id: invitationId, companyId },
+        select: { status: true },
+      });
+
+      if (!existing) return invitationNotFound();
+
+      if (existing.status !== "PENDING") {
+        return {
+          success: false,
+          error: {
+            message: `Invitation has already been ${existing.status.toLowerCase()}`,
+            code: "INVITATION_NOT_PENDING",
+          },
+        };
+      }
+
+      const { token, tokenHash } = generateInvitationToken();
+      const invitation = await prisma.invitation.update({
+        where: { id: invitationId },
+        data: {
+          tokenHash,
+          expiresAt: invitationExpiry(),
+          sentCount: { increment: 1 },
+          lastSentAt: new Date(),
+        },
+        include: invitationInclude,
+      });
+
+      await this.sendInvitationEmail(invitation, token);
+
+      await AuditService.record({
+        companyId,
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        action: "resent",
+        metadata: { sentCount: invitation.sentCount },
+      });
+
+      businessLogger.logUserAction("invitation_resent", actorId, {
+        companyId,
+        invitationId,
+      });
+
+      return { success: true, data: toInvitationPublic(invitation) };
+    } catch (error) {
+      businessLogger.error("Failed to resend invitation", error as Error, {
+        companyId,
+        invitationId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to resend invitation",
+          code: "INVITATION_RESEND_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Withdraw a pending invitation; its link stops working. Invitees who were
+   * to report to the revoked invitee are left without a manager.
+   */
+  static async revokeInvitation(
+    companyId: string,
+    invitationId: string,
+    actorId: string
+  ): Promise<ServiceResult<InvitationPublic>> {
+    try {
+      const existing = await prisma.invitation.findFirst({
+        where: { id: invitationId, companyId },
+        select: { status: true },
+      });
+
+      if (!existing) return invitationNotFound();
+
+      if (existing.status !== "PENDING") {
+        return {
+          success: false,
+          error: {
+            message: `Invitation has already been ${existing.status.toLowerCase()}`,
+            code: "INVITATION_NOT_PENDING",
+          },
+        };
+      }
+
+      const [invitation, orphaned] = await prisma.$transaction([
+        prisma.invitation.update({
+          where: { id: invitationId },
+          data: { status: "REVOKED", revokedAt: new Date() },
+          include: invitationInclude,
+        }),
+        prisma.invitation.updateMany({
+          where: { managerInvitationId: invitationId, status: "PENDING" },
+          data: { managerInvitationId: null },
+        }),
+      ]);
+
+      await AuditService.record({
+        companyId,
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        action: "revoked",
+        metadata: { reportsWithoutManager: orphaned.count },
+      });
+
+      businessLogger.logUserAction("invitation_revoked", actorId, {
+        companyId,
+        invitationId,
+      });
+
+      return { success: true, data: toInvitationPublic(invitation) };
+    } catch (error) {
+      businessLogger.error("Failed to revoke invitation", error as Error, {
+        companyId,
+        invitationId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to revoke invitation",
+          code: "INVITATION_REVOKE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The invitation behind a link, for the invitee to confirm before setting
+   * a password
+   */
+  static async getInvitationByToken(
+    token: string
+  ): Promise<ServiceResult<InvitationPreview>> {
+    try {
+      const invitation = await prisma.invitation.findUnique({
+        where: { tokenHash: hashInvitationToken(token) },
+        include: {
+          company: { select: { name: true } },
+          invitedBy: { select: { name: true } },
+        },
+      });
+
+      const tokenError = this.checkUsable(invitation);
+      if (tokenError || !invitation) return tokenError ?? invalidToken();
+
+      return {
+        success: true,
+        data: {
+          email: invitation.email,
+          name: invitation.name,
+          role: invitation.role,
+          companyName: invitation.company.name,
+          inviterName: invitation.invitedBy?.name ?? null,
+          expiresAt: invitation.expiresAt.toISOString(),
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to look up invitation", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve invitation",
+          code: "INVITATION_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Join the company through an invitation link with a password of the
+   * invitee's choosing. The link can be used once.
+   */
+  static async acceptInvitation(
+    token: string,
+    password: string
+  ): Promise<ServiceResult<AcceptedInvitation>> {
+    try {
+      const passwordValidation = validatePassword(password);
+      if (!passwordValidation.isValid) {
+        return {
+          success: false,
+          error: {
+            message: "Password does not meet the security requirements",
+            code: "WEAK_PASSWORD",
+            details: passwordValidation.errors,
+          },
+        };
+      }
+
+      const invitation = await prisma.invitation.findUnique({
+        where: { tokenHash: hashInvitationToken(token) },
+        include: {
+          managerInvitation: {
+            select: { status: true, acceptedUserId: true },
+          },
+        },
+      });
+
+      const tokenError = this.checkUsable(invitation);
+      if (tokenError || !invitation) return tokenError ?? invalidToken();
+
+      const existingUser = await prisma.user.findUnique({
+        where: { email: invitation.email },
+        select: { id: true },
+      });
+
+      if (existingUser) {
+        return {
+          success: false,
+          error: {
+            message: "An account with this email already exists",
+            code: "USER_EXISTS",
+          },
+        };
+      }
+
+      // A manager who was invited too is assigned once they've joined
+      const managerId =
+        invitation.managerId ??
+        (invitation.managerInvitation?.status === "ACCEPTED"
+          ? invitation.managerInvitation.acceptedUserId
+          : null);
+
+      const passwordHash = await hashPassword(password);
+
+      const user = await prisma.$transaction(async (tx) => {
+        // Claim the invitation first so a link used twice at once fails
+        const claimed = await tx.invitation.updateMany({
+          where: { id: invitation.id, status: "PENDING" },
+          data: { status: "ACCEPTED", acceptedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          return null;
+        }
+
+        const created = await tx.user.create({
+          data: {
+            email: invitation.email,
+            name: invitation.name,
+            password: passwordHash,
+            role: invitation.role,
+            companyId: invitation.companyId,
+            managerId,
+            departmentId: invitation.departmentId,
+            costCenterId: invitation.costCenterId,
+          },
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            companyId: true,
+            managerId: true,
+            departmentId: true,
+            costCenterId: true,
+          },
+        });
+
+        await tx.invitation.update({
+          where: { id: invitation.id },
+          data: { acceptedUserId: created.id },
+        });
+
+        // Invitees waiting on this user as their manager
+        await tx.invitation.updateMany({
+          where: { managerInvitationId: invitation.id, status: "PENDING" },
+          data: { managerId: created.id, managerInvitationId: null },
+        });
+        await tx.user.updateMany({
+          where: {
+            managerId: null,
+            acceptedInvitation: { managerInvitationId: invitation.id },
+          },
+          data: { managerId: created.id },
+        });
+
+        return created;
+      });
+
+      if (!user) return invalidToken();
+
+      await EventBus.publish(
+        "user.created",
+        user.companyId,
+        toUserEventData(user),
+        user.id
+      );
+
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "USER",
+        entityId: user.id,
+        action: "created",
+        before: null,
+        after: user,
+        fields: USER_AUDIT_FIELDS,
+        metadata: { invitationId: invitation.id },
+        actorId: user.id,
+      });
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "INVITATION",
+        entityId: invitation.id,
+        action: "accepted",
+        metadata: { userId: user.id },
+        actorId: user.id,
+      });
+
+      businessLogger.logUserAction("invitation_accepted", user.id, {
+        companyId: user.companyId,
+        invitationId: invitation.id,
+      });
+
+      return {
+        success: true,
+        data: {
+          user: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            role: user.role,
+            companyId: user.companyId,
+          },
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to accept invitation", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to accept invitation",
+          code: "INVITATION_ACCEPT_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Invite users from a CSV file (see parseUserImportCsv for the columns).
+   * Every row is validated and reported back; the valid rows are invited
+   * unless it's a dry run. A manager is matched by email to an existing
+   * manager or admin, a pending invitation, or another row of the file.
+   */
+  static async importUsers(
+    companyId: string,
+    inviterId: string,
+    content: string,
+    options: { dryRun: boolean }
+  ): Promise<ServiceResult<UserImportResult>> {
+    const parsed = parseUserImportCsv(content);
+
+    if (parsed.errors.length > 0) {
+      return {
+        success: false,
+        error: {
+          message: "The file can't be imported",
+          code: "INVALID_IMPORT_FILE",
+          details: parsed.errors,
+        },
+      };
+    }
+
+    try {
+      const fileEmails = parsed.rows.map((row) => row.email.toLowerCase());
+      const managerEmails = parsed.rows
+        .map((row) => row.managerEmail.toLowerCase())
+        .filter(Boolean);
+      const lookupEmails = Array.from(new Set([...fileEmails, ...managerEmails]));
+
+      const [inviter, users, pendingInvitations, departments, costCenters] =
+        await Promise.all([
+          prisma.user.findUniqueOrThrow({
+            where: { id: inviterId },
+            select: { role: true },
+          }),
+          prisma.user.findMany({
+            where: { email: { in: lookupEmails } },
+            select: { id: true, email: true, role: true, companyId: true },
+          }),
+          prisma.invitation.findMany({
+            where: { companyId, status: "PENDING", email: { in: lookupEmails } },
+            select: { id: true, email: true, role: true },
+          }),
+          prisma.department.findMany({
+            where: { companyId, isActive: true },
+            select: { id: true, name: true },
+          }),
+          prisma.costCenter.findMany({
+            where: { companyId, isActive: true },
+            select: { id: true, code: true },
+          }),
+        ]);
+
+      const userByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]));
+      const invitationByEmail = new Map(
+        pendingInvitations.map((invitation) => [invitation.email.toLowerCase(), invitation])
+      );
+      const departmentByName = new Map(
+        departments.map((department) => [department.name.toLowerCase(), department.id])
+      );
+      const costCenterByCode = new Map(
+        costCenters.map((costCenter) => [costCenter.code.toLowerCase(), costCenter.id])
+      );
+
+      // First row of the file for each email
+      const firstRowByEmail = new Map<string, number>();
+
+      const rows = parsed.rows.map((raw, index) => {
+        const errors: string[] = [];
+        const validation = validateUserInput(importUserRowSchema, {
+          email: raw.email,
+          name: raw.name,
+          role: raw.role,
+          managerEmail: raw.managerEmail || undefined,
+        });
+        const data = validation.data;
+
+        if (!validation.success || !data) {
+          errors.push(...(validation.errors ?? ["Invalid row"]));
+        }
+
+        const email = data?.email ?? raw.email.toLowerCase();
+        const role = data?.role ?? raw.role;
+        const managerEmail = data?.managerEmail ?? null;
+
+        const firstRow = firstRowByEmail.get(email);
+        if (firstRow !== undefined) {
+          errors.push(`Duplicate of row ${parsed.rows[firstRow].row}`);
+        } else {
+          firstRowByEmail.set(email, index);
+        }
+
+        if (userByEmail.has(email)) {
+          errors.push("A user with this email already exists");
+        } else if (invitationByEmail.has(email)) {
+          errors.push("Already invited; resend the pending invitation instead");
+        }
+
+        if (data) {
+          const managerValidation = validateManagerAssignment(
+            data.role,
+            data.managerEmail
+          );
+          if (!managerValidation.success) {
+            errors.push(managerValidation.error!);
+          }
+
+          // Only admins can invite admins and managers
+          const roleValidation = validateRoleHierarchy(inviter.role, data.role);
+          if (!roleValidation.success) {
+            errors.push(roleValidation.error!);
+          }
+        }
+
+        const departmentId = raw.department
+          ? departmentByName.get(raw.department.toLowerCase())
+          : undefined;
+        if (raw.department && !departmentId) {
+          errors.push(`Department not found or inactive: ${raw.department}`);
+        }
+
+        const costCenterId = raw.costCenter
+          ? costCenterByCode.get(raw.costCenter.toLowerCase())
+          : undefined;
+        if (raw.costCenter && !costCenterId) {
+          errors.push(`Cost center not found or inactive: ${raw.costCenter}`);
+        }
+
+        return {
+          raw,
+          email,
+          role,
+          managerEmail,
+          departmentId,
+          costCenterId,
+          errors,
+          managerId: undefined as string | undefined,
+          managerInvitationId: undefined as string | undefined,
+          // Index of the row that invites the manager
+          managerRow: undefined as number | undefined,
+        };
+      });
+
+      rows.forEach((row) => {
+        if (!row.managerEmail || row.role === "ADMIN") return;
+
+        const existingManager = userByEmail.get(row.managerEmail);
+        const invitedManager = invitationByEmail.get(row.managerEmail);
+        const managerRow = firstRowByEmail.get(row.managerEmail);
+
+        if (row.managerEmail === row.email) {
+          row.errors.push("A user can't be their own manager");
+        } else if (existingManager && existingManager.companyId === companyId) {
+          if (isManagerRole(existingManager.role)) {
+            row.managerId = existingManager.id;
+          } else {
+            row.errors.push(`${row.managerEmail} is not a manager or admin`);
+          }
+        } else if (invitedManager) {
+          if (isManagerRole(invitedManager.role)) {
+            row.managerInvitationId = invitedManager.id;
+          } else {
+            row.errors.push(`${row.managerEmail} is not invited as a manager or admin`);
+          }
+        } else if (managerRow !== undefined) {
+          if (isManagerRole(rows[managerRow].role)) {
+            row.managerRow = managerRow;
+          } else {
+            row.errors.push(
+              `Row ${rows[managerRow].raw.row} is not a manager or admin`
+            );
+          }
+        } else {
+          row.errors.push(
+            `Manager not found: ${row.managerEmail}; invite them first or add them to the file`
+          );
+        }
+      });
+
+      // Rows can only be invited along with their manager's row
+      let changed = true;
+      while (changed) {
+        changed = false;
+        rows.forEach((row) => {
+          if (
+            row.errors.length === 0 &&
+            row.managerRow !== undefined &&
+            rows[row.managerRow].errors.length > 0
+          ) {
+            row.errors.push(
+              `Manager's row ${rows[row.managerRow].raw.row} has errors`
+            );
+            changed = true;
+          }
+        });
+      }
+
+      const validRows = rows.filter((row) => row.errors.length === 0);
+      const invitationIds = new Map<number, string>();
+      const tokens = new Map<string, string>();
+
+      if (!options.dryRun && validRows.length > 0) {
+        const expiresAt = invitationExpiry();
+
+        // Sized for a few hundred rows
+        await prisma.$transaction(
+          async (tx) => {
+            for (const row of validRows) {
+              const { token, tokenHash } = generateInvitationToken();
+              const invitation = await tx.invitation.create({
+                data: {
+                  email: row.email,
+                  name: row.raw.name.trim(),
+                  role: row.role as Role,
+                  tokenHash,
+                  expiresAt,
+                  companyId,
+                  invitedById: inviterId,
+                  managerId: row.managerId,
+                  managerInvitationId: row.managerInvitationId,
+                  departmentId: row.departmentId,
+                  costCenterId: row.costCenterId,
+                },
+                select: { id: true },
+              });
+              invitationIds.set(rows.indexOf(row), invitation.id);
+              tokens.set(invitation.id, token);
+            }
+
+            // Managers invited in the same file
+            for (const row of validRows) {
+              if (row.managerRow === undefined) continue;
+              await tx.invitation.update({
+                where: { id: invitationIds.get(rows.indexOf(row))! },
+                data: { managerInvitationId: invitationIds.get(row.managerRow) },
+              });
+            }
+          },
+          { timeout: 60000 }
+        );
+
+        const invitations = await prisma.invitation.findMany({
+          where: { id: { in: Array.from(tokens.keys()) } },
+          include: invitationInclude,
+        });
+
+        for (const invitation of invitations) {
+          await this.sendInvitationEmail(
+            invitation,
+            tokens.get(invitation.id)!,
+            JobPriority.LOW
+          );
+          await AuditService.record({
+            companyId,
+            entityType: "INVITATION",
+            entityId: invitation.id,
+            action: "created",
+            before: null,
+            after: { ...invitation },
+            fields: INVITATION_AUDIT_FIELDS,
+            metadata: { source: "import" },
+          });
+        }
+
+        businessLogger.logUserAction("users_imported", inviterId, {
+          companyId,
+          invited: invitations.length,
+          rejectedRows: rows.length - validRows.length,
+        });
+      }
+
+      const results: UserImportRowResult[] = rows.map((row, index) => ({
+        row: row.raw.row,
+        email: row.email,
+        name: row.raw.name,
+        role: row.role,
+        managerEmail: row.managerEmail,
+        status:
+          row.errors.length > 0
+            ? "invalid"
+            : invitationIds.has(index)
+              ? "invited"
+              : "valid",
+        errors: row.errors,
+        invitationId: invitationIds.get(index),
+      }));
+
+      return {
+        success: true,
+        data: {
+          dryRun: options.dryRun,
+          total: rows.length,
+          valid: validRows.length,
+          invalid: rows.length - validRows.length,
+          invited: invitationIds.size,
+          rows: results,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to import users", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to import users",
+          code: "USER_IMPORT_FAILED",
+        },
+      };
+    }
+  }
+
+  // Error result when the email already has an account or a pending
+  // invitation, otherwise null
+  private static async findEmailConflict(
+    companyId: string,
+    email: string
+  ): Promise<ServiceResult<never> | null> {
+    const [existingUser, pendingInvitation] = await Promise.all([
+      prisma.user.findFirst({
+        where: { email: { equals: email, mode: "insensitive" } },
+        select: { id: true },
+      }),
+      prisma.invitation.findFirst({
+        where: {
+          companyId,
+          status: "PENDING",
+          email: { equals: email, mode: "insensitive" },
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    if (existingUser) {
+      return {
+        success: false,
+        error: {
+          message: "A user with this email already exists",
+          code: "USER_EXISTS",
+        },
+      };
+    }
+
+    if (pendingInvitation) {
+      return {
+        success: false,
+        error: {
+          message: "This email already has a pending invitation; resend it instead",
+          code: "INVITATION_EXISTS",
+          details: { invitationId: pendingInvitation.id },
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Error result unless the invitation can still be accepted
+  private static checkUsable(
+    invitation: { status: InvitationRow["status"]; expiresAt: Date } | null
+  ): ServiceResult<never> | null {
+    if (!invitation || invitation.status !== "PENDING") {
+      return invalidToken();
+    }
+
+    if (invitationState(invitation) === "EXPIRED") {
+      return {
+        success: false,
+        error: {
+          message:
+            "This invitation has expired; ask your administrator to send a new one",
+          code: "INVITATION_EXPIRED",
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Queue the invitation email. A failure is logged rather than returned:
+  // the invitation stands and the admin can resend it.
+  private static async sendInvitationEmail(
+    invitation: InvitationRow,
+    token: string,
+    priority: number = JobPriority.HIGH
+  ): Promise<void> {
+    try {
+      const company = await prisma.company.findUnique({
+        where: { id: invitation.companyId },
+        select: { name: true },
+      });
+
+      await addEmailJob(
+        {
+          type: "invitation",
+          to: invitation.email,
+          data: {
+            firstName: invitation.name.split(" ")[0],
+            inviterName: invitation.invitedBy?.name ?? "Your administrator",
+            companyName: company?.name ?? "your company",
+            inviteLink: invitationLink(token),
+            expiresInDays: INVITATION_TTL_DAYS,
+          },
+        },
+        priority
+      );
+    } catch (error) {
+      businessLogger.error("Failed to send invitation email", error as Error, {
+        invitationId: invitation.id,
+      });
+    }
+  }
+}
+
+export default InvitationService;
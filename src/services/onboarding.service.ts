@@ -0,0 +1,464 @@
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import { getRedisClient } from "@/lib/redis";
+import { addEmailJob, JobPriority } from "@/lib/queue";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  EMAIL_VERIFICATION_TTL_SECONDS,
+  ONBOARDING_STEPS,
+  OnboardingStepDefinition,
+  emailVerificationKey,
+  emailVerificationUserKey,
+  getCompanyEmailDomain,
+  normalizeCompanyName,
+} from "@/lib/onboarding";
+import type { CompanySignupInput } from "@/lib/validations/companies";
+import { AuditService } from "./audit.service";
+import { CompanyService } from "./company.service";
+
+export interface SignupResult {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    role: "ADMIN";
+    emailVerified: boolean;
+  };
+  company: {
+    id: string;
+    name: string;
+    country: string;
+    baseCurrency: string;
+  };
+}
+
+export interface OnboardingChecklist {
+  steps: (OnboardingStepDefinition & { completed: boolean })[];
+  completedCount: number;
+  totalCount: number;
+  dismissed: boolean;
+}
+
+// A resend within this window reuses the link already sent
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const resendCooldownKey = (userId: string) =>
+  `email_verification_resend:${userId}`;
+
+export class OnboardingService {
+  /**
+   * Self-service signup: the company, its first admin, the default
+   * categories and approval rule are created together. The admin signs in
+   * once their email address is verified.
+   */
+  static async signUp(
+    input: CompanySignupInput
+  ): Promise<ServiceResult<SignupResult>> {
+    try {
+      const duplicateError = await this.findDuplicateCompany(input);
+      if (duplicateError) return duplicateError;
+
+      const result = await CompanyService.createCompany(
+        {
+          name: input.companyName,
+          country: input.country,
+          baseCurrency: input.baseCurrency,
+          adminUser: {
+            name: input.adminName,
+            email: input.email,
+            password: input.password,
+          },
+        },
+        "signup",
+        { requireEmailVerification: true }
+      );
+
+      if (!result.success || !result.data?.admin) {
+        return {
+          success: false,
+          error: {
+            message: result.error || "Failed to create company",
+            code: "COMPANY_CREATE_FAILED",
+            details: result.errors,
+          },
+        };
+      }
+
+      const { admin, ...company } = result.data;
+
+      await AuditService.record({
+        companyId: company.id,
+        entityType: "SETTINGS",
+        entityId: company.id,
+        action: "company_created",
+        before: null,
+        after: company,
+        fields: ["name", "country", "baseCurrency"],
+        actorId: admin.id,
+      });
+
+      // The admin can ask for another link if this one can't be queued
+      await this.sendVerificationEmail(admin).catch((error) =>
+        businessLogger.error("Failed to send verification email", error, {
+          userId: admin.id,
+        })
+      );
+
+      businessLogger.logUserAction("company_signed_up", admin.id, {
+        companyId: company.id,
+      });
+
+      return {
+        success: true,
+        data: {
+          user: {
+            id: admin.id,
+            name: admin.name,
+            email: admin.email,
+            role: "ADMIN",
+            emailVerified: false,
+          },
+          company: {
+            id: company.id,
+            name: company.name,
+            country: company.country,
+            baseCurrency: company.baseCurrency,
+          },
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to sign up company", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to create account",
+          code: "SIGNUP_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Confirm the address a verification link was sent to. Links are single
+   * use.
+   */
+  static async verifyEmail(
+    token: string
+  ): Promise<ServiceResult<{ email: string }>> {
+    try {
+      const redis = await getRedisClient();
+      const userId = await redis.get(emailVerificationKey(token));
+
+      const user = userId
+        ? await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+              id: true,
+              email: true,
+              companyId: true,
+              emailVerifiedAt: true,
+            },
+          })
+        : null;
+
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            message: "Invalid or expired verification link",
+            code: "INVALID_TOKEN",
+          },
+        };
+      }
+
+      if (!user.emailVerifiedAt) {
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { emailVerifiedAt: new Date() },
+        });
+
+        await AuditService.record({
+          companyId: user.companyId,
+          entityType: "USER",
+          entityId: user.id,
+          action: "email_verified",
+          actorId: user.id,
+        });
+      }
+
+      await redis.del([
+        emailVerificationKey(token),
+        emailVerificationUserKey(user.id),
+      ]);
+
+      businessLogger.logSecurityEvent("email_verified", user.id);
+
+      return { success: true, data: { email: user.email } };
+    } catch (error) {
+      businessLogger.error("Failed to verify email", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Email verification failed",
+          code: "EMAIL_VERIFICATION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Send a new verification link to an unverified user. Succeeds whether or
+   * not the address belongs to one, so it can't be used to probe accounts.
+   */
+  static async resendVerification(email: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: {
+          email: { equals: email, mode: "insensitive" },
+          emailVerifiedAt: null,
+        },
+        select: { id: true, name: true, email: true },
+      });
+
+      if (user) {
+        const redis = await getRedisClient();
+        const cooling = await redis.get(resendCooldownKey(user.id));
+
+        if (!cooling) {
+          await this.sendVerificationEmail(user);
+          await redis.setEx(resendCooldownKey(user.id), RESEND_COOLDOWN_SECONDS, "1");
+        }
+      }
+
+      return { success: true };
+    } catch (error) {
+      businessLogger.error("Failed to resend verification email", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Failed to send verification email",
+          code: "EMAIL_VERIFICATION_RESEND_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The admin onboarding checklist. Steps are complete once the company has
+   * done them, however they were done.
+   */
+  static async getChecklist(
+    companyId: string,
+    userId: string
+  ): Promise<ServiceResult<OnboardingChecklist>> {
+    try {
+      const [company, user, userCount, categoryEvents, categoryVersions, ruleEvents] =
+        await Promise.all([
+          prisma.company.findUnique({
+            where: { id: companyId },
+            select: { onboardingDismissedAt: true },
+          }),
+          prisma.user.findUnique({
+            where: { id: userId },
+            select: { emailVerifiedAt: true },
+          }),
+          prisma.user.count({ where: { companyId } }),
+          prisma.auditEvent.count({
+            where: { companyId, entityType: "CATEGORY" },
+          }),
+          prisma.companySettingsVersion.count({
+            where: { companyId, changes: { has: "expenseCategories" } },
+          }),
+          prisma.auditEvent.count({
+            where: { companyId, entityType: "APPROVAL_RULE" },
+          }),
+        ]);
+
+      if (!company) {
+        return {
+          success: false,
+          error: { message: "Company not found", code: "COMPANY_NOT_FOUND" },
+        };
+      }
+
+      const completed: Record<OnboardingStepDefinition["key"], boolean> = {
+        verify_email: !!user?.emailVerifiedAt,
+        invite_team: userCount > 1,
+        set_up_categories: categoryEvents + categoryVersions > 0,
+        set_up_approval_rules: ruleEvents > 0,
+      };
+
+      const steps = ONBOARDING_STEPS.map((step) => ({
+        ...step,
+        completed: completed[step.key],
+      }));
+
+      return {
+        success: true,
+        data: {
+          steps,
+          completedCount: steps.filter((step) => step.completed).length,
+          totalCount: steps.length,
+          dismissed: !!company.onboardingDismissedAt,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get onboarding checklist", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve onboarding checklist",
+          code: "ONBOARDING_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Hide or show the onboarding checklist for the company's admins
+   */
+  static async setChecklistDismissed(
+    companyId: string,
+    userId: string,
+    dismissed: boolean
+  ): Promise<ServiceResult<OnboardingChecklist>> {
+    try {
+      await prisma.company.update({
+        where: { id: companyId },
+        data: { onboardingDismissedAt: dismissed ? new Date() : null },
+      });
+
+      businessLogger.logUserAction(
+        dismissed ? "onboarding_dismissed" : "onboarding_restored",
+        userId,
+        { companyId }
+      );
+
+      return this.getChecklist(companyId, userId);
+    } catch (error) {
+      businessLogger.error("Failed to update onboarding checklist", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update onboarding checklist",
+          code: "ONBOARDING_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  // Error result when the signup would duplicate an existing company or
+  // account, otherwise null
+  private static async findDuplicateCompany(
+    input: CompanySignupInput
+  ): Promise<ServiceResult<never> | null> {
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: input.email, mode: "insensitive" } },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      return {
+        success: false,
+        error: {
+          message: "An account with this email already exists",
+          code: "EMAIL_EXISTS",
+        },
+      };
+    }
+
+    // "Acme Inc." and "ACME, LLC" are the same company
+    const normalizedName = normalizeCompanyName(input.companyName);
+    const candidates = await prisma.company.findMany({
+      where: {
+        name: {
+          contains: normalizedName.split(" ")[0],
+          mode: "insensitive",
+        },
+      },
+      select: { name: true },
+    });
+
+    if (
+      candidates.some(
+        (company) => normalizeCompanyName(company.name) === normalizedName
+      )
+    ) {
+      return {
+        success: false,
+        error: {
+          message:
+            "A company with this name already exists; ask its administrator to invite you",
+          code: "COMPANY_EXISTS",
+        },
+      };
+    }
+
+    const domain = getCompanyEmailDomain(input.email);
+    const colleague = domain
+      ? await prisma.user.findFirst({
+          where: { email: { endsWith: `@${domain}`, mode: "insensitive" } },
+          select: { id: true },
+        })
+      : null;
+
+    if (colleague) {
+      return {
+        success: false,
+        error: {
+          message: `Your organization already uses Expense-Wise with ${domain} addresses; ask its administrator to invite you`,
+          code: "COMPANY_DOMAIN_EXISTS",
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Queue a new verification link, invalidating any previous one
+  private static async sendVerificationEmail(user: {
+    id: string;
+    name: string;
+    email: string;
+  }): Promise<void> {
+    const redis = await getRedisClient();
+    const token = crypto.randomBytes(32).toString("hex");
+
+    const previous = await redis.get(emailVerificationUserKey(user.id));
+    if (previous) {
+      await redis.del(emailVerificationKey(previous));
+    }
+
+    await redis.setEx(
+      emailVerificationKey(token),
+      EMAIL_VERIFICATION_TTL_SECONDS,
+      user.id
+    );
+    await redis.setEx(
+      emailVerificationUserKey(user.id),
+      EMAIL_VERIFICATION_TTL_SECONDS,
+      token
+    );
+
+    await addEmailJob(
+      {
+        type: "email-verification",
+        to: user.email,
+        data: {
+          firstName: user.name.split(" ")[0],
+          verificationLink: `${
+            process.env.FRONTEND_URL || "http://localhost:3000"
+          }/verify-email?token=${token}`,
+        },
+      },
+      JobPriority.HIGH
+    );
+  }
+}
+
+export default OnboardingService;
@@ -0,0 +1,441 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  DEFAULT_EXPENSE_POLICIES,
+  evaluateExpensePolicies,
+  needsCategoryTotals,
+  selectApplicablePolicies,
+  type ExpensePolicyDefinition,
+  type PolicyStage,
+  type PolicyViolation,
+} from "@/lib/expense-policies";
+import { CompanyService } from "./company.service";
+import {
+  policyConfigSchemas,
+  type CreateExpensePolicyInput,
+  type UpdateExpensePolicyInput,
+} from "@/lib/validations/policies";
+
+export interface ExpensePolicyPublic {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  severity: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  config: unknown;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The expense as it will be saved or submitted
+export interface PolicyCheckInput {
+  companyId: string;
+  baseCurrency: string;
+  // Excluded from the spending totals; absent for a new expense
+  expenseId?: string;
+  submitterId: string;
+  categoryId: string;
+  // In the company base currency; null while no exchange rate is known
+  amount: number | null;
+  description: string;
+  expenseDate: Date;
+  receiptCount: number;
+}
+
+// Spending that counts towards the category caps
+const CAP_STATUSES = ["PENDING_APPROVAL", "APPROVED"] as const;
+
+type PolicyRow = Prisma.ExpensePolicyGetPayload<{
+  include: { category: { select: { name: true } } };
+}>;
+
+const toPolicyPublic = (policy: PolicyRow): ExpensePolicyPublic => ({
+  id: policy.id,
+  name: policy.name,
+  description: policy.description,
+  type: policy.type,
+  severity: policy.severity,
+  categoryId: policy.categoryId,
+  categoryName: policy.category?.name ?? null,
+  config: policy.config,
+  isActive: policy.isActive,
+  createdAt: policy.createdAt.toISOString(),
+  updatedAt: policy.updatedAt.toISOString(),
+});
+
+export class PolicyService {
+  /**
+   * List the company's policies. Companies that haven't configured any get
+   * the built-in defaults, which are returned alongside for reference.
+   */
+  static async getPolicies(companyId: string): Promise<
+    ServiceResult<{
+      policies: ExpensePolicyPublic[];
+      defaults: ExpensePolicyDefinition[] | null;
+    }>
+  > {
+    try {
+      const policies = await prisma.expensePolicy.findMany({
+        where: { companyId },
+        include: { category: { select: { name: true } } },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return {
+        success: true,
+        data: {
+          policies: policies.map(toPolicyPublic),
+          defaults:
+            policies.length === 0
+              ? await this.getDefaultDefinitions(companyId)
+              : null,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list expense policies", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to list expense policies",
+          code: "POLICY_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a policy. Creating the first one replaces the built-in defaults.
+   */
+  static async createPolicy(
+    companyId: string,
+    input: CreateExpensePolicyInput,
+    userId: string
+  ): Promise<ServiceResult<ExpensePolicyPublic>> {
+    try {
+      if (input.categoryId) {
+        const category = await prisma.expenseCategory.findFirst({
+          where: { id: input.categoryId, companyId },
+        });
+        if (!category) {
+          return {
+            success: false,
+            error: { message: "Category not found", code: "CATEGORY_NOT_FOUND" },
+          };
+        }
+      }
+
+      const policy = await prisma.expensePolicy.create({
+        data: {
+          companyId,
+          name: input.name,
+          description: input.description,
+          type: input.type,
+          severity: input.severity,
+          categoryId: input.categoryId ?? null,
+          config: input.config as Prisma.InputJsonValue,
+          isActive: input.isActive,
+          createdById: userId,
+        },
+        include: { category: { select: { name: true } } },
+      });
+
+      businessLogger.logUserAction("expense_policy_created", userId, {
+        companyId,
+        policyId: policy.id,
+        type: policy.type,
+        severity: policy.severity,
+      });
+
+      return { success: true, data: toPolicyPublic(policy) };
+    } catch (error) {
+      businessLogger.error("Failed to create expense policy", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create expense policy",
+          code: "POLICY_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a policy; config is validated against the policy's type
+   */
+  static async updatePolicy(
+    policyId: string,
+    companyId: string,
+    input: UpdateExpensePolicyInput,
+    userId: string
+  ): Promise<ServiceResult<ExpensePolicyPublic>> {
+    try {
+      const existing = await prisma.expensePolicy.findFirst({
+        where: { id: policyId, companyId },
+      });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: { message: "Policy not found", code: "POLICY_NOT_FOUND" },
+        };
+      }
+
+      let config: Prisma.InputJsonValue | undefined;
+      if (input.config !== undefined) {
+        const parsed = policyConfigSchemas[existing.type].safeParse(
+          input.config
+        );
+        if (!parsed.success) {
+          return {
+            success: false,
+            error: {
+              message: "Invalid policy configuration",
+              code: "INVALID_POLICY_CONFIG",
+              details: parsed.error.issues.map((issue) => {
+                const path = ["config", ...issue.path].join(".");
+                return `${path}: ${issue.message}`;
+              }),
+            },
+          };
+        }
+        config = parsed.data as Prisma.InputJsonValue;
+      }
+
+      if (input.categoryId) {
+        const category = await prisma.expenseCategory.findFirst({
+          where: { id: input.categoryId, companyId },
+        });
+        if (!category) {
+          return {
+            success: false,
+            error: { message: "Category not found", code: "CATEGORY_NOT_FOUND" },
+          };
+        }
+      }
+
+      const policy = await prisma.expensePolicy.update({
+        where: { id: policyId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && {
+            description: input.description,
+          }),
+          ...(input.severity !== undefined && { severity: input.severity }),
+          ...(input.categoryId !== undefined && {
+            categoryId: input.categoryId,
+          }),
+          ...(config !== undefined && { config }),
+          ...(input.isActive !== undefined && { isActive: input.isActive }),
+        },
+        include: { category: { select: { name: true } } },
+      });
+
+      businessLogger.logUserAction("expense_policy_updated", userId, {
+        companyId,
+        policyId,
+        changes: Object.keys(input),
+      });
+
+      return { success: true, data: toPolicyPublic(policy) };
+    } catch (error) {
+      businessLogger.error("Failed to update expense policy", error as Error, {
+        companyId,
+        policyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update expense policy",
+          code: "POLICY_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Delete a policy. Warnings already stored on expenses are kept.
+   */
+  static async deletePolicy(
+    policyId: string,
+    companyId: string,
+    userId: string
+  ): Promise<ServiceResult<{ id: string }>> {
+    try {
+      const { count } = await prisma.expensePolicy.deleteMany({
+        where: { id: policyId, companyId },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: { message: "Policy not found", code: "POLICY_NOT_FOUND" },
+        };
+      }
+
+      businessLogger.logUserAction("expense_policy_deleted", userId, {
+        companyId,
+        policyId,
+      });
+
+      return { success: true, data: { id: policyId } };
+    } catch (error) {
+      businessLogger.error("Failed to delete expense policy", error as Error, {
+        companyId,
+        policyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to delete expense policy",
+          code: "POLICY_DELETE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Check an expense against the company's active policies
+   */
+  static async evaluateExpense(
+    input: PolicyCheckInput,
+    stage: PolicyStage
+  ): Promise<ServiceResult<PolicyViolation[]>> {
+    try {
+      const policies = await this.getActiveDefinitions(input.companyId);
+      const applicable = selectApplicablePolicies(
+        policies,
+        input.categoryId,
+        stage
+      );
+
+      if (applicable.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const totals = applicable.some(needsCategoryTotals)
+        ? await this.getCategoryTotals(input)
+        : {};
+
+      const violations = evaluateExpensePolicies(
+        applicable,
+        {
+          amount: input.amount,
+          baseCurrency: input.baseCurrency,
+          categoryId: input.categoryId,
+          description: input.description,
+          expenseDate: input.expenseDate,
+          receiptCount: input.receiptCount,
+          ...totals,
+          now: new Date(),
+        },
+        stage
+      );
+
+      return { success: true, data: violations };
+    } catch (error) {
+      businessLogger.error("Failed to evaluate expense policies", error as Error, {
+        companyId: input.companyId,
+        expenseId: input.expenseId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to evaluate expense policies",
+          code: "POLICY_EVALUATION_FAILED",
+        },
+      };
+    }
+  }
+
+  // Active policies, or the defaults when the company has configured none
+  private static async getActiveDefinitions(
+    companyId: string
+  ): Promise<ExpensePolicyDefinition[]> {
+    const policies = await prisma.expensePolicy.findMany({
+      where: { companyId },
+    });
+
+    if (policies.length === 0) {
+      return this.getDefaultDefinitions(companyId);
+    }
+
+    return policies
+      .filter((policy) => policy.isActive)
+      .map((policy) => ({
+        id: policy.id,
+        name: policy.name,
+        type: policy.type,
+        severity: policy.severity,
+        categoryId: policy.categoryId,
+        config: policy.config,
+      }));
+  }
+
+  // The built-in defaults, with the receipt policy taken from the company's
+  // receipt settings
+  private static async getDefaultDefinitions(
+    companyId: string
+  ): Promise<ExpensePolicyDefinition[]> {
+    const { receiptPolicy } = await CompanyService.getSettingsValues(
+      companyId
+    );
+
+    return DEFAULT_EXPENSE_POLICIES.flatMap((policy) => {
+      if (policy.type !== "RECEIPT_REQUIRED") {
+        return [policy];
+      }
+      return receiptPolicy.required
+        ? [{ ...policy, config: { amountOver: receiptPolicy.minAmount } }]
+        : [];
+    });
+  }
+
+  // The submitter's submitted spending in the category on the expense day
+  // and in its calendar month, excluding the expense itself
+  private static async getCategoryTotals(input: PolicyCheckInput) {
+    const day = new Date(input.expenseDate);
+    day.setUTCHours(0, 0, 0, 0);
+    const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+    const month = new Date(
+      Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1)
+    );
+    const nextMonth = new Date(
+      Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1)
+    );
+
+    const where: Prisma.ExpenseWhereInput = {
+      companyId: input.companyId,
+      submitterId: input.submitterId,
+      categoryId: input.categoryId,
+      status: { in: [...CAP_STATUSES] },
+      ...(input.expenseId && { id: { not: input.expenseId } }),
+    };
+
+    const [daily, monthly] = await Promise.all([
+      prisma.expense.aggregate({
+        where: { ...where, expenseDate: { gte: day, lt: nextDay } },
+        _sum: { baseAmount: true },
+      }),
+      prisma.expense.aggregate({
+        where: { ...where, expenseDate: { gte: month, lt: nextMonth } },
+        _sum: { baseAmount: true },
+      }),
+    ]);
+
+    return {
+      dailyCategoryTotal: Number(daily._sum.baseAmount || 0),
+      monthlyCategoryTotal: Number(monthly._sum.baseAmount || 0),
+    };
+  }
+}
+
+export default PolicyService;
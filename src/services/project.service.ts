@@ -0,0 +1,358 @@
+import { prisma } from "@/lib/prisma";
+import { Project } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import type {
+  CreateProjectInput,
+  UpdateProjectInput,
+} from "@/lib/validations/projects";
+
+export interface ProjectPublic {
+  id: string;
+  code: string;
+  name: string;
+  clientName: string;
+  budget: number | null;
+  startDate: string | null;
+  endDate: string | null;
+  isActive: boolean;
+  // Pending and approved spending in the company base currency
+  spent: number;
+  // Approved billable spending not invoiced to the client yet
+  unbilled: number;
+  expenseCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProjectTotals {
+  spent: number;
+  unbilled: number;
+  expenseCount: number;
+}
+
+const EMPTY_TOTALS: ProjectTotals = { spent: 0, unbilled: 0, expenseCount: 0 };
+
+const toDateString = (date: Date | null) =>
+  date ? date.toISOString().split("T")[0] : null;
+
+const toProjectPublic = (
+  project: Project,
+  totals: ProjectTotals = EMPTY_TOTALS
+): ProjectPublic => ({
+  id: project.id,
+  code: project.code,
+  name: project.name,
+  clientName: project.clientName,
+  budget: project.budget !== null ? Number(project.budget) : null,
+  startDate: toDateString(project.startDate),
+  endDate: toDateString(project.endDate),
+  isActive: project.isActive,
+  spent: totals.spent,
+  unbilled: totals.unbilled,
+  expenseCount: totals.expenseCount,
+  createdAt: project.createdAt.toISOString(),
+  updatedAt: project.updatedAt.toISOString(),
+});
+
+export class ProjectService {
+  /**
+   * List the company's projects by client and code, with their spending
+   */
+  static async listProjects(
+    companyId: string,
+    options: { includeInactive?: boolean; clientName?: string } = {}
+  ): Promise<ServiceResult<ProjectPublic[]>> {
+    try {
+      const projects = await prisma.project.findMany({
+        where: {
+          companyId,
+          ...(!options.includeInactive && { isActive: true }),
+          ...(options.clientName && {
+            clientName: { equals: options.clientName, mode: "insensitive" },
+          }),
+        },
+        orderBy: [{ clientName: "asc" }, { code: "asc" }],
+      });
+
+      const totals = await this.getTotals(projects.map((project) => project.id));
+
+      return {
+        success: true,
+        data: projects.map((project) =>
+          toProjectPublic(project, totals.get(project.id))
+        ),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list projects", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve projects",
+          code: "PROJECT_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a client project
+   */
+  static async createProject(
+    companyId: string,
+    input: CreateProjectInput,
+    userId: string
+  ): Promise<ServiceResult<ProjectPublic>> {
+    try {
+      const duplicate = await this.findByCode(companyId, input.code);
+      if (duplicate) {
+        return {
+          success: false,
+          error: {
+            message: "A project with this code already exists",
+            code: "PROJECT_EXISTS",
+          },
+        };
+      }
+
+      const project = await prisma.project.create({
+        data: {
+          code: input.code,
+          name: input.name,
+          clientName: input.clientName,
+          budget: input.budget,
+          startDate: input.startDate ? new Date(input.startDate) : undefined,
+          endDate: input.endDate ? new Date(input.endDate) : undefined,
+          companyId,
+        },
+      });
+
+      businessLogger.logUserAction("project_created", userId, {
+        companyId,
+        projectId: project.id,
+      });
+
+      return { success: true, data: toProjectPublic(project) };
+    } catch (error) {
+      businessLogger.error("Failed to create project", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create project",
+          code: "PROJECT_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a project. Inactive projects stay on existing expenses but can't
+   * be picked for new ones.
+   */
+  static async updateProject(
+    projectId: string,
+    companyId: string,
+    input: UpdateProjectInput,
+    userId: string
+  ): Promise<ServiceResult<ProjectPublic>> {
+    try {
+      const existing = await prisma.project.findFirst({
+        where: { id: projectId, companyId },
+      });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: {
+            message: "Project not found or access denied",
+            code: "PROJECT_NOT_FOUND",
+          },
+        };
+      }
+
+      if (input.code) {
+        const duplicate = await this.findByCode(companyId, input.code);
+        if (duplicate && duplicate.id !== projectId) {
+          return {
+            success: false,
+            error: {
+              message: "A project with this code already exists",
+              code: "PROJECT_EXISTS",
+            },
+          };
+        }
+      }
+
+      // Only one of the dates may be changing, so check the resulting range
+      const startDate =
+        input.startDate !== undefined
+          ? input.startDate
+            ? new Date(input.startDate)
+            : null
+          : existing.startDate;
+      const endDate =
+        input.endDate !== undefined
+          ? input.endDate
+            ? new Date(input.endDate)
+            : null
+          : existing.endDate;
+      if (startDate && endDate && startDate > endDate) {
+        return {
+          success: false,
+          error: {
+            message: "Start date must be before or equal to end date",
+            code: "INVALID_PROJECT_DATES",
+          },
+        };
+      }
+
+      const project = await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          ...(input.code !== undefined && { code: input.code }),
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.clientName !== undefined && {
+            clientName: input.clientName,
+          }),
+          ...(input.budget !== undefined && { budget: input.budget }),
+          ...(input.startDate !== undefined && { startDate }),
+          ...(input.endDate !== undefined && { endDate }),
+          ...(input.isActive !== undefined && { isActive: input.isActive }),
+        },
+      });
+
+      businessLogger.logUserAction(
+        input.isActive === false && existing.isActive
+          ? "project_deactivated"
+          : "project_updated",
+        userId,
+        { companyId, projectId, changes: Object.keys(input) }
+      );
+
+      const totals = await this.getTotals([projectId]);
+
+      return {
+        success: true,
+        data: toProjectPublic(project, totals.get(projectId)),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to update project", error as Error, {
+        companyId,
+        projectId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update project",
+          code: "PROJECT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Error result when an expense on the date can't be charged to the
+   * project, otherwise null
+   */
+  static async validateProject(
+    companyId: string,
+    projectId: string,
+    expenseDate: Date
+  ): Promise<ServiceResult<never> | null> {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, companyId },
+      select: { isActive: true, startDate: true, endDate: true },
+    });
+
+    if (!project) {
+      return {
+        success: false,
+        error: { message: "Project not found", code: "PROJECT_NOT_FOUND" },
+      };
+    }
+
+    if (!project.isActive) {
+      return {
+        success: false,
+        error: { message: "Project is inactive", code: "PROJECT_INACTIVE" },
+      };
+    }
+
+    if (
+      (project.startDate && expenseDate < project.startDate) ||
+      (project.endDate && expenseDate > project.endDate)
+    ) {
+      return {
+        success: false,
+        error: {
+          message: `Expense date is outside the project's active dates (${
+            toDateString(project.startDate) ?? "open"
+          } to ${toDateString(project.endDate) ?? "open"})`,
+          code: "PROJECT_OUT_OF_RANGE",
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Spending per project, in the company base currency
+  private static async getTotals(projectIds: string[]) {
+    const totals = new Map<string, ProjectTotals>();
+    if (projectIds.length === 0) return totals;
+
+    const groups = await prisma.expense.groupBy({
+      by: ["projectId"],
+      where: {
+        projectId: { in: projectIds },
+        status: { in: ["PENDING_APPROVAL", "APPROVED"] },
+      },
+      _count: { id: true },
+      _sum: { baseAmount: true },
+    });
+    const unbilled = await prisma.expense.groupBy({
+      by: ["projectId"],
+      where: {
+        projectId: { in: projectIds },
+        status: "APPROVED",
+        isBillable: true,
+        invoicedAt: null,
+      },
+      _sum: { baseAmount: true },
+    });
+
+    for (const group of groups) {
+      if (!group.projectId) continue;
+      const entry = totals.get(group.projectId) ?? { ...EMPTY_TOTALS };
+      entry.spent += Number(group._sum.baseAmount) || 0;
+      entry.expenseCount += group._count.id;
+      totals.set(group.projectId, entry);
+    }
+    for (const group of unbilled) {
+      if (!group.projectId) continue;
+      const entry = totals.get(group.projectId) ?? { ...EMPTY_TOTALS };
+      entry.unbilled = Number(group._sum.baseAmount) || 0;
+      totals.set(group.projectId, entry);
+    }
+    for (const entry of totals.values()) {
+      entry.spent = Math.round(entry.spent * 100) / 100;
+    }
+
+    return totals;
+  }
+
+  private static findByCode(companyId: string, code: string) {
+    return prisma.project.findFirst({
+      where: {
+        code: { equals: code, mode: "insensitive" },
+        companyId,
+      },
+    });
+  }
+}
+
+export default ProjectService;
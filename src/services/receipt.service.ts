@@ -1,61 +1,128 @@
-import { uploadFile, generateSignedUrl } from "@/lib/s3";
+import {
+  uploadFile,
+  downloadFile,
+  deleteFile,
+  fileToBuffer,
+  generateS3Key,
+  getSignedDownloadUrl,
+} from "@/lib/s3";
 import { prisma } from "@/lib/prisma";
-import { queueOCRJob } from "@/lib/queue";
+import { addOCRJob } from "@/lib/queue";
+import { getOCREngine, parseReceiptText } from "@/lib/ocr";
+import { suggestLineItems, type SuggestedLineItem } from "@/lib/line-items";
+import { validateExpenseModification } from "@/lib/validations/expenses";
 import {
-  Receipt,
-  ReceiptPublic,
-  ReceiptStatus,
-  ServiceResult,
-  FileMetadata,
-} from "@/types";
+  MAX_RECEIPTS_PER_EXPENSE,
+  type UpdateReceiptInput,
+} from "@/lib/validations/receipts";
+import { Prisma, Receipt, ReceiptStatus, ReceiptType } from "@prisma/client";
+import { OCRResult, ServiceResult } from "@/types/system";
 import { businessLogger } from "@/middleware/logger";
 import { businessMetrics } from "@/middleware/metrics";
 
+export type ReceiptPublic = Omit<Receipt, "s3Key">;
+
+export interface ReceiptOCRStatus {
+  receiptId: string;
+  // "skipped" when OCR is switched off or the file type isn't supported
+  status: "processing" | "completed" | "failed" | "skipped";
+  engine: string | null;
+  processedAt: Date | null;
+  error: string | null;
+  ocrData: Omit<OCRResult, "rawData"> | null;
+  // Values to pre-fill the expense form with
+  suggestions: ReturnType<typeof ReceiptService.extractExpenseDataFromOCR>;
+}
+
+export interface ReceiptRequester {
+  id: string;
+  role: string;
+  companyId: string;
+}
+
+type ReceiptAccess = "read" | "write";
+
+type ReceiptWithContext = Receipt & {
+  user: { companyId: string } | null;
+  expense: {
+    status: string;
+    submitterId: string;
+    submitter: { companyId: string };
+  } | null;
+};
+
+const isOCREnabled = () => process.env.ENABLE_OCR_SCANNING === "true";
+const isCompanyReviewer = (requester: ReceiptRequester, companyId?: string) =>
+  ["ADMIN", "MANAGER"].includes(requester.role) &&
+  companyId === requester.companyId;
+
 export class ReceiptService {
-  // Upload receipt file
+  // Upload receipt file. expenseId is null for receipts uploaded before the
+  // expense exists; they are attached when the expense is created. Callers
+  // check access to the expense; see canAccessExpense.
   static async uploadReceipt(
     file: File,
-    expenseId: string,
-    userId: string
+    expenseId: string | null,
+    userId: string,
+    companyId: string,
+    details: { caption?: string; type?: ReceiptType } = {}
   ): Promise<ServiceResult<ReceiptPublic>> {
     try {
-      // Generate S3 key
-      const timestamp = Date.now();
-      const s3Key = `receipts/${expenseId}/${timestamp}-${file.name}`;
+      // New files go after the expense's existing ones
+      let position = 0;
+      if (expenseId) {
+        const existing = await prisma.receipt.aggregate({
+          where: { expenseId },
+          _count: { _all: true },
+          _max: { position: true },
+        });
+
+        if (existing._count._all >= MAX_RECEIPTS_PER_EXPENSE) {
+          return {
+            success: false,
+            error: {
+              message: `Maximum ${MAX_RECEIPTS_PER_EXPENSE} receipts allowed per expense`,
+              code: "RECEIPT_LIMIT_REACHED",
+            },
+          };
+        }
+
+        position =
+          existing._count._all > 0 ? (existing._max.position ?? 0) + 1 : 0;
+      }
+
+      const s3Key = generateS3Key(companyId, userId, file.name);
 
       // Upload to S3
-      const uploadResult = await uploadFile(file, {
-        key: s3Key,
-        contentType: file.type,
-        metadata: {
-          expenseId,
-          userId,
-          originalName: file.name,
-        },
-      });
+      const uploadResult = await uploadFile(
+        await fileToBuffer(file),
+        s3Key,
+        file.type
+      );
+
+      const runOCR = isOCREnabled() && getOCREngine().supports(file.type);
 
       // Create receipt record
-      const receipt = await prisma.receipt.create({
+      let receipt = await prisma.receipt.create({
         data: {
           expenseId,
           userId,
-          fileName: `${timestamp}-${file.name}`,
-          originalFileName: file.name,
+          fileName: file.name,
           fileSize: file.size,
           fileType: file.type,
           s3Key,
-          s3Url: uploadResult.url,
-          status: "PROCESSING" as ReceiptStatus,
+          url: uploadResult.url,
+          status: runOCR ? "PROCESSING" : "PROCESSED",
+          position,
+          caption: details.caption,
+          type: details.type,
         },
       });
 
       // Queue OCR processing
-      await queueOCRJob({
-        receiptId: receipt.id,
-        s3Key,
-        userId,
-        expenseId,
-      });
+      if (runOCR) {
+        receipt = await this.queueOCR(receipt);
+      }
 
       // Record metrics
       businessMetrics.fileUploaded(file.size, file.type);
@@ -90,10 +157,6 @@ export class ReceiptService {
     try {
       const receipt = await prisma.receipt.findUnique({
         where: { id },
-        include: {
-          expense: true,
-          user: true,
-        },
       });
 
       if (!receipt) {
@@ -131,9 +194,7 @@ export class ReceiptService {
     try {
       const receipts = await prisma.receipt.findMany({
         where: { expenseId },
-        orderBy: {
-          createdAt: "asc",
-        },
+        orderBy: [{ position: "asc" }, { uploadedAt: "asc" }],
       });
 
       const receiptPublics = receipts.map((receipt) =>
@@ -180,11 +241,10 @@ export class ReceiptService {
         };
       }
 
-      // Generate signed URL (expires in 1 hour)
-      const signedUrl = await generateSignedUrl({
-        key: receipt.s3Key,
-        expires: 3600, // 1 hour
-      });
+      // Receipts stored before S3 keys were recorded only have their URL
+      const signedUrl = receipt.s3Key
+        ? await getSignedDownloadUrl(receipt.s3Key, 3600) // 1 hour
+        : receipt.url;
 
       businessLogger.logDataAccess("receipt", "download", userId, receiptId);
 
@@ -212,15 +272,29 @@ export class ReceiptService {
   // Update receipt OCR data
   static async updateReceiptOCR(
     receiptId: string,
-    ocrData: any,
-    status: ReceiptStatus
+    ocrData: OCRResult | null,
+    status: ReceiptStatus,
+    ocrError: string | null = null
   ): Promise<ServiceResult<ReceiptPublic>> {
     try {
       const receipt = await prisma.receipt.update({
         where: { id: receiptId },
         data: {
-          ocrData,
           status,
+          ocrEngine: ocrData?.engine ?? null,
+          ocrText: ocrData?.text ?? null,
+          ocrConfidence: ocrData?.confidence ?? null,
+          ocrFields: ocrData
+            ? ({
+                values: ocrData.fields,
+                confidence: ocrData.fieldConfidence,
+              } as Prisma.InputJsonValue)
+            : Prisma.DbNull,
+          ocrLineItems: ocrData
+            ? (ocrData.lineItems as unknown as Prisma.InputJsonValue)
+            : Prisma.DbNull,
+          ocrError,
+          ocrProcessedAt: new Date(),
         },
       });
 
@@ -248,37 +322,438 @@ export class ReceiptService {
     }
   }
 
-  // Delete receipt
-  static async deleteReceipt(
+  /**
+   * Run OCR for a receipt and store the result. Called by the OCR worker;
+   * errors are rethrown so the queue retries, and the receipt is only
+   * marked FAILED once the last attempt has failed.
+   */
+  static async processReceiptOCR(
     receiptId: string,
-    userId: string
-  ): Promise<ServiceResult<boolean>> {
+    options: { isFinalAttempt: boolean }
+  ): Promise<{ status: ReceiptStatus; confidence: number | null }> {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: receiptId },
+    });
+
+    // Deleted since the job was queued, or already handled by a replay
+    if (!receipt || receipt.status !== "PROCESSING") {
+      return { status: receipt?.status ?? "FAILED", confidence: null };
+    }
+
+    const engine = getOCREngine();
+
+    if (!receipt.s3Key || !engine.supports(receipt.fileType)) {
+      await this.updateReceiptOCR(
+        receiptId,
+        null,
+        "FAILED",
+        `OCR is not available for ${receipt.fileType} files`
+      );
+      return { status: "FAILED", confidence: null };
+    }
+
     try {
-      const receipt = await prisma.receipt.findUnique({
-        where: { id: receiptId },
+      const image = await downloadFile(receipt.s3Key);
+      const recognition = await engine.recognize(image, receipt.fileType);
+      const result = parseReceiptText(recognition, engine.name);
+
+      await this.updateReceiptOCR(receiptId, result, "PROCESSED");
+
+      return { status: "PROCESSED", confidence: result.confidence };
+    } catch (error) {
+      businessLogger.error("Receipt OCR failed", error as Error, {
+        receiptId,
+        engine: engine.name,
+        isFinalAttempt: options.isFinalAttempt,
       });
 
-      if (!receipt) {
+      if (options.isFinalAttempt) {
+        await this.updateReceiptOCR(
+          receiptId,
+          null,
+          "FAILED",
+          (error as Error).message
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * OCR status and extracted fields for a receipt. Visible to the uploader,
+   * the expense submitter, and managers/admins of the same company.
+   */
+  static async getReceiptOCR(
+    receiptId: string,
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<ReceiptOCRStatus>> {
+    try {
+      const access = await this.loadReceipt(receiptId, requester, "read");
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error };
+      }
+
+      const receipt = access.data;
+      const ocrFields = receipt.ocrFields as {
+        values: OCRResult["fields"];
+        confidence: OCRResult["fieldConfidence"];
+      } | null;
+      const ocrData = ocrFields
+        ? {
+            text: receipt.ocrText ?? "",
+            confidence: receipt.ocrConfidence ?? 0,
+            fields: ocrFields.values,
+            fieldConfidence: ocrFields.confidence,
+            lineItems: (receipt.ocrLineItems ??
+              []) as unknown as OCRResult["lineItems"],
+            engine: receipt.ocrEngine ?? "",
+          }
+        : null;
+
+      const status: ReceiptOCRStatus["status"] =
+        receipt.status === "PROCESSING"
+          ? "processing"
+          : receipt.status === "FAILED"
+          ? "failed"
+          : ocrData
+          ? "completed"
+          : "skipped";
+
+      return {
+        success: true,
+        data: {
+          receiptId: receipt.id,
+          status,
+          engine: receipt.ocrEngine,
+          processedAt: receipt.ocrProcessedAt,
+          error: receipt.ocrError,
+          ocrData,
+          suggestions: this.extractExpenseDataFromOCR(ocrData),
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get receipt OCR", error as Error, {
+        receiptId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve OCR results",
+          code: "RECEIPT_OCR_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Receipts on an expense in display order, or the requester's receipts
+   * not yet attached to an expense when no expenseId is given
+   */
+  static async listReceipts(
+    requester: ReceiptRequester,
+    expenseId?: string
+  ): Promise<ServiceResult<ReceiptPublic[]>> {
+    try {
+      if (expenseId) {
+        const access = await this.canAccessExpense(
+          expenseId,
+          requester,
+          "read"
+        );
+        if (!access.success) {
+          return { success: false, error: access.error };
+        }
+      }
+
+      const receipts = await prisma.receipt.findMany({
+        where: expenseId
+          ? { expenseId }
+          : { userId: requester.id, expenseId: null },
+        orderBy: expenseId
+          ? [{ position: "asc" }, { uploadedAt: "asc" }]
+          : { uploadedAt: "desc" },
+      });
+
+      return {
+        success: true,
+        data: receipts.map((receipt) => this.toPublicReceipt(receipt)),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list receipts", error as Error, {
+        expenseId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve receipts",
+          code: "RECEIPTS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Receipt details with a short-lived download URL
+   */
+  static async getReceipt(
+    receiptId: string,
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<ReceiptPublic & { downloadUrl: string }>> {
+    try {
+      const access = await this.loadReceipt(receiptId, requester, "read");
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error };
+      }
+
+      const download = await this.getReceiptDownloadUrl(
+        receiptId,
+        requester.id
+      );
+      if (!download.success || !download.data) {
+        return { success: false, error: download.error };
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { user, expense, ...receipt } = access.data;
+
+      return {
+        success: true,
+        data: {
+          ...this.toPublicReceipt(receipt),
+          downloadUrl: download.data.url,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get receipt", error as Error, {
+        receiptId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve receipt",
+          code: "RECEIPT_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Set the display order of an expense's receipts. receiptIds must list
+   * every receipt on the expense exactly once.
+   */
+  static async reorderReceipts(
+    expenseId: string,
+    receiptIds: string[],
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<ReceiptPublic[]>> {
+    try {
+      const access = await this.canAccessExpense(
+        expenseId,
+        requester,
+        "write"
+      );
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const current = await prisma.receipt.findMany({
+        where: { expenseId },
+        select: { id: true },
+      });
+      const currentIds = new Set(current.map((receipt) => receipt.id));
+
+      if (
+        receiptIds.length !== currentIds.size ||
+        receiptIds.some((id) => !currentIds.has(id))
+      ) {
         return {
           success: false,
           error: {
-            message: "Receipt not found",
-            code: "RECEIPT_NOT_FOUND",
+            message: "receiptIds must list every receipt on the expense",
+            code: "INVALID_RECEIPT_ORDER",
           },
         };
       }
 
+      const receipts = await prisma.$transaction(
+        receiptIds.map((id, position) =>
+          prisma.receipt.update({
+            where: { id },
+            data: { position },
+          })
+        )
+      );
+
+      businessLogger.logUserAction("receipts_reordered", requester.id, {
+        expenseId,
+        receiptIds,
+      });
+
+      return {
+        success: true,
+        data: receipts.map((receipt) => this.toPublicReceipt(receipt)),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to reorder receipts", error as Error, {
+        expenseId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to reorder receipts",
+          code: "RECEIPT_REORDER_FAILED",
+        },
+      };
+    }
+  }
+
+  // Update a receipt's caption or type
+  static async updateReceipt(
+    receiptId: string,
+    data: UpdateReceiptInput,
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<ReceiptPublic>> {
+    try {
+      const access = await this.loadReceipt(receiptId, requester, "write");
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const receipt = await prisma.receipt.update({
+        where: { id: receiptId },
+        data: {
+          ...(data.caption !== undefined && { caption: data.caption }),
+          ...(data.type && { type: data.type }),
+        },
+      });
+
+      businessLogger.logUserAction("receipt_updated", requester.id, {
+        receiptId,
+        fields: Object.keys(data),
+      });
+
+      return {
+        success: true,
+        data: this.toPublicReceipt(receipt),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to update receipt", error as Error, {
+        receiptId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update receipt",
+          code: "RECEIPT_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Swap the file behind a receipt, keeping its position, caption and type.
+   * OCR results from the old file are discarded.
+   */
+  static async replaceReceiptFile(
+    receiptId: string,
+    file: File,
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<ReceiptPublic>> {
+    try {
+      const access = await this.loadReceipt(receiptId, requester, "write");
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error };
+      }
+
+      const previousKey = access.data.s3Key;
+      const s3Key = generateS3Key(requester.companyId, requester.id, file.name);
+      const uploadResult = await uploadFile(
+        await fileToBuffer(file),
+        s3Key,
+        file.type
+      );
+
+      const runOCR = isOCREnabled() && getOCREngine().supports(file.type);
+
+      let receipt = await prisma.receipt.update({
+        where: { id: receiptId },
+        data: {
+          fileName: file.name,
+          fileSize: file.size,
+          fileType: file.type,
+          s3Key,
+          url: uploadResult.url,
+          uploadedAt: new Date(),
+          status: runOCR ? "PROCESSING" : "PROCESSED",
+          ocrEngine: null,
+          ocrText: null,
+          ocrConfidence: null,
+          ocrFields: Prisma.DbNull,
+          ocrLineItems: Prisma.DbNull,
+          ocrError: null,
+          ocrProcessedAt: null,
+        },
+      });
+
+      if (runOCR) {
+        receipt = await this.queueOCR(receipt);
+      }
+
+      if (previousKey) {
+        await this.deleteStoredFile(previousKey);
+      }
+
+      businessMetrics.fileUploaded(file.size, file.type);
+
+      businessLogger.logUserAction("receipt_replaced", requester.id, {
+        receiptId,
+        expenseId: receipt.expenseId,
+        fileName: file.name,
+        fileSize: file.size,
+      });
+
+      return {
+        success: true,
+        data: this.toPublicReceipt(receipt),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to replace receipt file", error as Error, {
+        receiptId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to replace receipt file",
+          code: "RECEIPT_REPLACE_FAILED",
+        },
+      };
+    }
+  }
+
+  // Delete receipt and its stored file
+  static async deleteReceipt(
+    receiptId: string,
+    requester: ReceiptRequester
+  ): Promise<ServiceResult<boolean>> {
+    try {
+      const access = await this.loadReceipt(receiptId, requester, "write");
+      if (!access.success || !access.data) {
+        return { success: false, error: access.error };
+      }
+
       // Delete from database
       await prisma.receipt.delete({
         where: { id: receiptId },
       });
 
-      // Note: In production, you might want to also delete from S3
-      // or mark it for cleanup
+      if (access.data.s3Key) {
+        await this.deleteStoredFile(access.data.s3Key);
+      }
 
-      businessLogger.logUserAction("receipt_deleted", userId, {
+      businessLogger.logUserAction("receipt_deleted", requester.id, {
         receiptId,
-        expenseId: receipt.expenseId,
+        expenseId: access.data.expenseId,
       });
 
       return {
@@ -299,6 +774,160 @@ export class ReceiptService {
     }
   }
 
+  /**
+   * Whether the requester may view ("read") or add, reorder and remove
+   * ("write") the receipts on an expense. Only the submitter writes, and
+   * only while the expense is DRAFT or REJECTED.
+   */
+  static async canAccessExpense(
+    expenseId: string,
+    requester: ReceiptRequester,
+    access: ReceiptAccess
+  ): Promise<ServiceResult<true>> {
+    const expense = await prisma.expense.findUnique({
+      where: { id: expenseId },
+      select: { status: true, submitterId: true, companyId: true },
+    });
+
+    // Expenses in other companies are reported as missing
+    if (!expense || expense.companyId !== requester.companyId) {
+      return {
+        success: false,
+        error: { message: "Expense not found", code: "EXPENSE_NOT_FOUND" },
+      };
+    }
+
+    const isSubmitter = expense.submitterId === requester.id;
+    if (
+      access === "write"
+        ? !isSubmitter
+        : !isSubmitter && !isCompanyReviewer(requester, expense.companyId)
+    ) {
+      return {
+        success: false,
+        error: { message: "Access denied", code: "ACCESS_DENIED" },
+      };
+    }
+
+    if (access === "write") {
+      const modification = validateExpenseModification(
+        expense.status,
+        "update"
+      );
+      if (!modification.success) {
+        return {
+          success: false,
+          error: {
+            message: `Receipts can't be changed: ${modification.error}`,
+            code: "EXPENSE_LOCKED",
+          },
+        };
+      }
+    }
+
+    return { success: true, data: true };
+  }
+
+  // Load a receipt the requester may read or modify (see canAccessExpense)
+  private static async loadReceipt(
+    receiptId: string,
+    requester: ReceiptRequester,
+    access: ReceiptAccess
+  ): Promise<ServiceResult<ReceiptWithContext>> {
+    const receipt = await prisma.receipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        user: { select: { companyId: true } },
+        expense: {
+          select: {
+            status: true,
+            submitterId: true,
+            submitter: { select: { companyId: true } },
+          },
+        },
+      },
+    });
+
+    const companyId =
+      receipt?.expense?.submitter.companyId ?? receipt?.user?.companyId;
+
+    // Receipts in other companies are reported as missing
+    if (!receipt || companyId !== requester.companyId) {
+      return {
+        success: false,
+        error: { message: "Receipt not found", code: "RECEIPT_NOT_FOUND" },
+      };
+    }
+
+    const isOwner = receipt.expense
+      ? receipt.expense.submitterId === requester.id
+      : receipt.userId === requester.id;
+    if (
+      access === "write"
+        ? !isOwner
+        : !isOwner &&
+          receipt.userId !== requester.id &&
+          !isCompanyReviewer(requester, companyId)
+    ) {
+      return {
+        success: false,
+        error: { message: "Access denied", code: "ACCESS_DENIED" },
+      };
+    }
+
+    if (access === "write" && receipt.expense) {
+      const modification = validateExpenseModification(
+        receipt.expense.status,
+        "update"
+      );
+      if (!modification.success) {
+        return {
+          success: false,
+          error: {
+            message: `Receipts can't be changed: ${modification.error}`,
+            code: "EXPENSE_LOCKED",
+          },
+        };
+      }
+    }
+
+    return { success: true, data: receipt };
+  }
+
+  // Queue OCR for a receipt in PROCESSING state. A queue outage doesn't fail
+  // the upload; the receipt is marked FAILED and the form is filled by hand.
+  private static async queueOCR(receipt: Receipt): Promise<Receipt> {
+    try {
+      await addOCRJob({
+        receiptId: receipt.id,
+        s3Key: receipt.s3Key!,
+        userId: receipt.userId!,
+        expenseId: receipt.expenseId,
+      });
+      return receipt;
+    } catch (error) {
+      businessLogger.error("Failed to queue receipt OCR", error as Error, {
+        receiptId: receipt.id,
+      });
+      return prisma.receipt.update({
+        where: { id: receipt.id },
+        data: { status: "FAILED", ocrError: "OCR queue unavailable" },
+      });
+    }
+  }
+
+  // Stored files are removed best-effort; a leftover object is harmless
+  private static async deleteStoredFile(s3Key: string): Promise<void> {
+    try {
+      await deleteFile(s3Key);
+    } catch (error) {
+      businessLogger.warn("Failed to delete receipt file", {
+        s3Key,
+        error: (error as Error).message,
+      });
+    }
+  }
+
   // Get receipts by user
   static async getReceiptsByUser(
     userId: string,
@@ -309,29 +938,23 @@ export class ReceiptService {
     } = {}
   ): Promise<ServiceResult<ReceiptPublic[]>> {
     try {
-      const where: any = { userId };
+      const where: Prisma.ReceiptWhereInput = { userId };
 
       if (filters.status) {
         where.status = filters.status;
       }
 
       if (filters.startDate || filters.endDate) {
-        where.createdAt = {};
-        if (filters.startDate) {
-          where.createdAt.gte = new Date(filters.startDate);
-        }
-        if (filters.endDate) {
-          where.createdAt.lte = new Date(filters.endDate);
-        }
+        where.uploadedAt = {
+          ...(filters.startDate && { gte: new Date(filters.startDate) }),
+          ...(filters.endDate && { lte: new Date(filters.endDate) }),
+        };
       }
 
       const receipts = await prisma.receipt.findMany({
         where,
-        include: {
-          expense: true,
-        },
         orderBy: {
-          createdAt: "desc",
+          uploadedAt: "desc",
         },
       });
 
@@ -358,34 +981,43 @@ export class ReceiptService {
   }
 
   // Extract data from OCR result and suggest expense updates
-  static extractExpenseDataFromOCR(ocrData: any): {
+  static extractExpenseDataFromOCR(
+    ocrData: Pick<
+      OCRResult,
+      "fields" | "fieldConfidence" | "confidence" | "lineItems"
+    > | null
+  ): {
     amount?: number;
+    currency?: string;
     merchantName?: string;
     date?: string;
+    taxAmount?: number;
+    // Line items to itemise the expense with, when the receipt lists them
+    lineItems?: SuggestedLineItem[];
     confidence: number;
+    fieldConfidence: OCRResult["fieldConfidence"];
   } {
-    try {
-      const extracted = {
-        amount: ocrData.fields?.amount,
-        merchantName: ocrData.fields?.merchant,
-        date: ocrData.fields?.date,
-        confidence: ocrData.confidence || 0,
-      };
-
-      return extracted;
-    } catch (error) {
-      businessLogger.error(
-        "Failed to extract expense data from OCR",
-        error as Error
-      );
-      return { confidence: 0 };
+    if (!ocrData) {
+      return { confidence: 0, fieldConfidence: {} };
     }
+
+    return {
+      amount: ocrData.fields.amount,
+      currency: ocrData.fields.currency,
+      merchantName: ocrData.fields.merchant,
+      date: ocrData.fields.date,
+      taxAmount: ocrData.fields.taxAmount,
+      lineItems: suggestLineItems(ocrData),
+      confidence: ocrData.confidence,
+      fieldConfidence: ocrData.fieldConfidence,
+    };
   }
 
   // Helper method to convert Receipt to ReceiptPublic
-  private static toPublicReceipt(receipt: any): ReceiptPublic {
+  private static toPublicReceipt(receipt: Receipt): ReceiptPublic {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { s3Key, ...receiptPublic } = receipt;
-    return receiptPublic as ReceiptPublic;
+    return receiptPublic;
   }
 }
 
@@ -1,13 +1,71 @@
 import { prisma } from "@/lib/prisma";
-import { AuthorizationError, NotFoundError } from "@/middleware/error-handler";
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from "@/middleware/error-handler";
 import type {
   DashboardQueryInput,
   ExportReportInput,
   SummaryQueryInput,
   ExpenseReportQueryInput,
+  TaxReportQueryInput,
 } from "@/lib/validations/reports";
 import { calculateDateRange } from "@/lib/validations/reports";
-import { Prisma } from "@prisma/client";
+import type {
+  MarkInvoicedInput,
+  UnbilledReportQueryInput,
+} from "@/lib/validations/projects";
+import { Prisma, ExpenseStatus } from "@prisma/client";
+import { addReportJob } from "@/lib/queue";
+import {
+  deleteFile,
+  generateExportKey,
+  getSignedDownloadUrl,
+  uploadFile,
+} from "@/lib/s3";
+import {
+  renderExpenseExport,
+  type ExpenseExportRow,
+  type ExportFormat,
+} from "@/lib/report-export";
+import {
+  getCategoryPath,
+  getDescendantIds,
+  rollUpTotals,
+} from "@/lib/category-hierarchy";
+import { allocateAmount } from "@/lib/cost-allocation";
+import { allocateToLines } from "@/lib/line-items";
+import {
+  calculateAdvanceBalance,
+  OUTSTANDING_ADVANCE_STATUSES,
+} from "@/lib/advances";
+import { getExpenseScopeRole } from "@/lib/permissions";
+import { CompanyService } from "./company.service";
+import { RoleService } from "./role.service";
+
+// Filters accepted by the expense report; exports add status lists and
+// amount bounds on top of the query string filters
+type ExpenseReportParams = Omit<ExpenseReportQueryInput, "status"> & {
+  status?: ExpenseStatus | ExpenseStatus[];
+  minAmount?: number;
+  maxAmount?: number;
+};
+
+interface OrganizationFilters {
+  departmentId?: string;
+  costCenterId?: string;
+}
+
+// How long a finished export stays downloadable
+const EXPORT_RETENTION_HOURS = parseInt(
+  process.env.EXPORT_RETENTION_HOURS || "24"
+);
+// Lifetime of the signed download link handed out by the status endpoint
+const EXPORT_LINK_TTL_SECONDS = 15 * 60;
+// Failed and expired task records are kept this long for reference
+const EXPORT_RECORD_RETENTION_DAYS = 30;
+const EXPORT_PAGE_SIZE = 500;
 
 /**
  * Reports service for handling analytics and export functionality
@@ -22,10 +80,14 @@ export class ReportsService {
     requestingUserId: string,
     userRole: string
   ) {
+    const { fiscalYearStartMonth } = await CompanyService.getSettingsValues(
+      companyId
+    );
     const { startDate, endDate } = calculateDateRange(
       params.period,
       params.startDate,
-      params.endDate
+      params.endDate,
+      fiscalYearStartMonth
     );
 
     // Build where clause based on permissions
@@ -62,56 +124,67 @@ export class ReportsService {
     }
 
     // Add user filter if specified
-    const whereClause = params.userId
-      ? { ...baseWhere, submitterId: params.userId }
-      : userRole === "EMPLOYEE"
-      ? { ...baseWhere, submitterId: requestingUserId }
-      : baseWhere;
-
-    // Get expense summaries
-    const [totalExpenses, expensesByStatus, expensesByCategory] =
-      await Promise.all([
-        // Total expenses summary
-        prisma.expense.aggregate({
-          where: whereClause,
-          _count: { id: true },
-          _sum: { amount: true },
-        }),
+    const whereClause: Prisma.ExpenseWhereInput = {
+      ...(params.userId
+        ? { ...baseWhere, submitterId: params.userId }
+        : userRole === "EMPLOYEE"
+        ? { ...baseWhere, submitterId: requestingUserId }
+        : baseWhere),
+      ...ReportsService.organizationWhere(params),
+    };
 
-        // Expenses by status
-        prisma.expense.groupBy({
-          by: ["status"],
-          where: whereClause,
-          _count: { id: true },
-          _sum: { amount: true },
-        }),
+    // Get expense summaries. Amounts are summed in the company base currency;
+    // expenses still waiting for an exchange rate are counted but not summed.
+    const [
+      company,
+      totalExpenses,
+      expensesByStatus,
+      expensesByCategory,
+      unconvertedExpenses,
+    ] = await Promise.all([
+      prisma.company.findUnique({
+        where: { id: companyId },
+        select: { baseCurrency: true },
+      }),
 
-        // Expenses by category
-        prisma.expense.groupBy({
-          by: ["categoryId"],
-          where: whereClause,
-          _count: { id: true },
-          _sum: { amount: true },
-        }),
-      ]);
+      // Total expenses summary
+      prisma.expense.aggregate({
+        where: whereClause,
+        _count: { id: true },
+        _sum: { baseAmount: true },
+      }),
 
-    // Get category names for category breakdown
-    const categoryIds = expensesByCategory
-      .map((item: any) => item.categoryId)
-      .filter(Boolean);
-    const categories =
-      categoryIds.length > 0
-        ? await prisma.expenseCategory.findMany({
-            where: {
-              id: { in: categoryIds },
-              companyId,
-            },
-            select: {
-              id: true,
-              name: true,
-            },
-          })
-        : [];
+      // Expenses by status
+      prisma.expense.groupBy({
+        by: ["status"],
+        where: whereClause,
+        _count: { id: true },
+        _sum: { baseAmount: true },
+      }),
+
+      // Expenses by category, itemised expenses by their line items
+      ReportsService.getCategoryTotals(whereClause),
+
+      prisma.expense.count({
+        where: { ...whereClause, baseAmount: null },
+      }),
+    ]);
+
+    // All categories, so spending can be rolled up to parent categories
+    const categories = await prisma.expenseCategory.findMany({
+      where: { companyId },
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+      },
+    });
+    const rolledUpAmounts = rollUpTotals(
+      categories,
+      new Map(
+        expensesByCategory.map((item) => [item.categoryId, item.amount])
+      )
+    );
 
     const categoryMap = new Map(categories.map((cat) => [cat.id, cat]));
 
@@ -122,7 +195,8 @@ export class ReportsService {
       endDate,
       params.userId,
       userRole,
-      requestingUserId
+      requestingUserId,
+      params
     );
     const topSpenders =
       userRole !== "EMPLOYEE"
@@ -130,32 +204,65 @@ export class ReportsService {
             companyId,
             startDate,
             endDate,
-            params.userId
+            params.userId,
+            params
           )
         : [];
 
+    const [departmentBreakdown, costCenterBreakdown, outstandingAdvances] =
+      await Promise.all([
+        ReportsService.getDepartmentBreakdown(whereClause),
+        ReportsService.getCostCenterBreakdown(companyId, whereClause),
+        ReportsService.getOutstandingAdvances(
+          companyId,
+          params.userId ??
+            (userRole === "EMPLOYEE" ? requestingUserId : undefined)
+        ),
+      ]);
+
     return {
       summary: {
         totalExpenses: totalExpenses._count.id || 0,
-        totalAmount: Number(totalExpenses._sum.amount) || 0,
-        averageExpense: totalExpenses._count.id
-          ? Number(totalExpenses._sum.amount || 0) / totalExpenses._count.id
-          : 0,
+        totalAmount: Number(totalExpenses._sum.baseAmount) || 0,
+        averageExpense:
+          totalExpenses._count.id > unconvertedExpenses
+            ? Number(totalExpenses._sum.baseAmount || 0) /
+              (totalExpenses._count.id - unconvertedExpenses)
+            : 0,
+        currency: company?.baseCurrency,
+        unconvertedExpenses,
       },
       statusBreakdown: expensesByStatus.map((item: any) => ({
         status: item.status,
         count: item._count.id,
-        amount: Number(item._sum.amount) || 0,
+        amount: Number(item._sum.baseAmount) || 0,
       })),
-      categoryBreakdown: expensesByCategory.map((item: any) => {
+      categoryBreakdown: expensesByCategory.map((item) => {
         const category = categoryMap.get(item.categoryId);
         return {
           categoryId: item.categoryId,
           categoryName: category?.name || "Unknown",
-          count: item._count.id,
-          amount: Number(item._sum.amount) || 0,
+          parentId: category?.parentId ?? null,
+          path: getCategoryPath(categories, item.categoryId),
+          count: item.count,
+          amount: item.amount,
         };
       }),
+      // Spending per category including its subcategories; top-level
+      // categories add up to the total
+      categoryRollup: categories
+        .filter((category) => (rolledUpAmounts.get(category.id) ?? 0) > 0)
+        .map((category) => ({
+          categoryId: category.id,
+          categoryName: category.name,
+          parentId: category.parentId,
+          totalAmount:
+            Math.round((rolledUpAmounts.get(category.id) ?? 0) * 100) / 100,
+        }))
+        .sort((a, b) => b.totalAmount - a.totalAmount),
+      departmentBreakdown,
+      costCenterBreakdown,
+      outstandingAdvances,
       monthlyTrends,
       topSpenders,
       period: {
@@ -166,6 +273,81 @@ export class ReportsService {
     };
   }
 
+  /**
+   * Paid out advances not yet reconciled, per employee, with what is still
+   * out once their approved expenses are set against them. These are
+   * balances as of now, so the report period doesn't apply.
+   */
+  private static async getOutstandingAdvances(
+    companyId: string,
+    submitterId?: string
+  ) {
+    const advances = await prisma.advance.findMany({
+      where: {
+        companyId,
+        status: { in: [...OUTSTANDING_ADVANCE_STATUSES] },
+        ...(submitterId && { submitterId }),
+      },
+      include: {
+        submitter: { select: { id: true, name: true, email: true } },
+        expenses: { select: { amount: true, baseAmount: true, status: true } },
+      },
+    });
+
+    const byEmployee = new Map<
+      string,
+      {
+        userId: string;
+        name: string;
+        email: string;
+        advanceCount: number;
+        advancedAmount: number;
+        approvedAmount: number;
+        pendingAmount: number;
+        outstandingAmount: number;
+      }
+    >();
+
+    for (const advance of advances) {
+      const balance = calculateAdvanceBalance(advance, advance.expenses);
+      const employee = byEmployee.get(advance.submitterId) ?? {
+        userId: advance.submitter.id,
+        name: advance.submitter.name,
+        email: advance.submitter.email,
+        advanceCount: 0,
+        advancedAmount: 0,
+        approvedAmount: 0,
+        pendingAmount: 0,
+        outstandingAmount: 0,
+      };
+      employee.advanceCount++;
+      employee.advancedAmount += balance.advanceAmount;
+      employee.approvedAmount += balance.approvedAmount;
+      employee.pendingAmount += balance.pendingAmount;
+      employee.outstandingAmount += balance.owedByEmployee;
+      byEmployee.set(advance.submitterId, employee);
+    }
+
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const employees = Array.from(byEmployee.values())
+      .map((employee) => ({
+        ...employee,
+        advancedAmount: round(employee.advancedAmount),
+        approvedAmount: round(employee.approvedAmount),
+        pendingAmount: round(employee.pendingAmount),
+        outstandingAmount: round(employee.outstandingAmount),
+      }))
+      .sort((a, b) => b.outstandingAmount - a.outstandingAmount);
+
+    return {
+      advanceCount: advances.length,
+      totalOutstanding: round(
+        employees.reduce((sum, employee) => sum + employee.outstandingAmount, 0)
+      ),
+      employees,
+    };
+  }
+
   /**
    * Helper method to get monthly trends
    */
@@ -175,7 +357,8 @@ export class ReportsService {
     endDate: Date,
     userId?: string,
     userRole?: string,
-    requestingUserId?: string
+    requestingUserId?: string,
+    organization: OrganizationFilters = {}
   ) {
     const yearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
 
@@ -198,9 +381,10 @@ export class ReportsService {
       SELECT 
         DATE_TRUNC('month', "createdAt") as month,
         COUNT(*)::int as count,
-        SUM("amount")::float as total
+        COALESCE(SUM("baseAmount"), 0)::float as total
       FROM "Expense" 
       WHERE ${Prisma.raw(whereConditions)}
+        ${ReportsService.organizationSql(organization, "")}
       GROUP BY DATE_TRUNC('month', "createdAt")
       ORDER BY month ASC
     `;
@@ -215,7 +399,8 @@ export class ReportsService {
     companyId: string,
     startDate: Date,
     endDate: Date,
-    userId?: string
+    userId?: string,
+    organization: OrganizationFilters = {}
   ) {
     let whereConditions = `u."companyId" = '${companyId}' AND e."createdAt" >= '${startDate.toISOString()}' AND e."createdAt" <= '${endDate.toISOString()}'`;
 
@@ -237,10 +422,11 @@ export class ReportsService {
         u.name,
         u.email,
         COUNT(e.id)::int as "expenseCount",
-        SUM(e.amount)::float as "totalAmount"
+        COALESCE(SUM(e."baseAmount"), 0)::float as "totalAmount"
       FROM "User" u
       INNER JOIN "Expense" e ON u.id = e."submitterId"
       WHERE ${Prisma.raw(whereConditions)}
+        ${ReportsService.organizationSql(organization, "e.")}
       GROUP BY u.id, u.name, u.email
       ORDER BY "totalAmount" DESC
       LIMIT 10
@@ -249,16 +435,303 @@ export class ReportsService {
     return spenders;
   }
 
+  /**
+   * Spending per department of the submitters
+   */
+  private static async getDepartmentBreakdown(
+    whereClause: Prisma.ExpenseWhereInput
+  ) {
+    const bySubmitter = await prisma.expense.groupBy({
+      by: ["submitterId"],
+      where: whereClause,
+      _count: { id: true },
+      _sum: { baseAmount: true },
+    });
+
+    const submitters = await prisma.user.findMany({
+      where: { id: { in: bySubmitter.map((item) => item.submitterId) } },
+      select: { id: true, department: { select: { id: true, name: true } } },
+    });
+    const departmentOf = new Map(
+      submitters.map((submitter) => [submitter.id, submitter.department])
+    );
+
+    const departments = new Map<
+      string | null,
+      { departmentId: string | null; departmentName: string; count: number; amount: number }
+    >();
+    for (const item of bySubmitter) {
+      const department = departmentOf.get(item.submitterId) ?? null;
+      const key = department?.id ?? null;
+      const entry = departments.get(key) ?? {
+        departmentId: key,
+        departmentName: department?.name ?? "No department",
+        count: 0,
+        amount: 0,
+      };
+      entry.count += item._count.id;
+      entry.amount += Number(item._sum.baseAmount) || 0;
+      departments.set(key, entry);
+    }
+
+    return Array.from(departments.values())
+      .map((entry) => ({
+        ...entry,
+        amount: Math.round(entry.amount * 100) / 100,
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Spending per category. Itemised expenses are divided over their line
+   * items and counted once for each category they have lines in.
+   */
+  private static async getCategoryTotals(whereClause: Prisma.ExpenseWhereInput) {
+    const [unitemised, itemised] = await Promise.all([
+      prisma.expense.groupBy({
+        by: ["categoryId"],
+        where: { AND: [whereClause, { lineItems: { none: {} } }] },
+        _count: { id: true },
+        _sum: { baseAmount: true },
+      }),
+      prisma.expense.findMany({
+        where: { AND: [whereClause, { lineItems: { some: {} } }] },
+        select: {
+          baseAmount: true,
+          lineItems: {
+            select: { categoryId: true, amount: true },
+            orderBy: { position: "asc" },
+          },
+        },
+      }),
+    ]);
+
+    const totals = new Map<string, { count: number; amount: number }>();
+    const add = (categoryId: string, count: number, amount: number) => {
+      const entry = totals.get(categoryId) ?? { count: 0, amount: 0 };
+      entry.count += count;
+      entry.amount += amount;
+      totals.set(categoryId, entry);
+    };
+
+    for (const item of unitemised) {
+      add(item.categoryId, item._count.id, Number(item._sum.baseAmount) || 0);
+    }
+    for (const expense of itemised) {
+      const lines = expense.lineItems.map((line) => ({
+        categoryId: line.categoryId,
+        amount: Number(line.amount),
+      }));
+      const parts = allocateToLines(Number(expense.baseAmount) || 0, lines);
+      const categoryAmounts = new Map<string, number>();
+      lines.forEach((line, index) => {
+        categoryAmounts.set(
+          line.categoryId,
+          (categoryAmounts.get(line.categoryId) ?? 0) + parts[index]
+        );
+      });
+      for (const [categoryId, amount] of categoryAmounts) {
+        add(categoryId, 1, amount);
+      }
+    }
+
+    return Array.from(totals, ([categoryId, entry]) => ({
+      categoryId,
+      count: entry.count,
+      amount: Math.round(entry.amount * 100) / 100,
+    }));
+  }
+
+  /**
+   * Spending per cost center. Split expenses are divided by their shares and
+   * counted once for each cost center they are charged to.
+   */
+  private static async getCostCenterBreakdown(
+    companyId: string,
+    whereClause: Prisma.ExpenseWhereInput
+  ) {
+    const [unsplit, split, costCenters] = await Promise.all([
+      prisma.expense.groupBy({
+        by: ["costCenterId"],
+        where: { AND: [whereClause, { costAllocations: { none: {} } }] },
+        _count: { id: true },
+        _sum: { baseAmount: true },
+      }),
+      prisma.expense.findMany({
+        where: { AND: [whereClause, { costAllocations: { some: {} } }] },
+        select: {
+          baseAmount: true,
+          costAllocations: {
+            select: { costCenterId: true, percentage: true },
+          },
+        },
+      }),
+      prisma.costCenter.findMany({
+        where: { companyId },
+        select: { id: true, code: true, name: true },
+      }),
+    ]);
+
+    const totals = new Map<string | null, { count: number; amount: number }>();
+    const add = (costCenterId: string | null, count: number, amount: number) => {
+      const entry = totals.get(costCenterId) ?? { count: 0, amount: 0 };
+      entry.count += count;
+      entry.amount += amount;
+      totals.set(costCenterId, entry);
+    };
+
+    for (const item of unsplit) {
+      add(item.costCenterId, item._count.id, Number(item._sum.baseAmount) || 0);
+    }
+    for (const expense of split) {
+      const parts = allocateAmount(
+        Number(expense.baseAmount) || 0,
+        expense.costAllocations.map((allocation) => ({
+          costCenterId: allocation.costCenterId,
+          percentage: Number(allocation.percentage),
+        }))
+      );
+      for (const [costCenterId, amount] of parts) {
+        add(costCenterId, 1, amount);
+      }
+    }
+
+    const costCenterMap = new Map(
+      costCenters.map((costCenter) => [costCenter.id, costCenter])
+    );
+
+    return Array.from(totals, ([costCenterId, entry]) => {
+      const costCenter = costCenterId ? costCenterMap.get(costCenterId) : null;
+      return {
+        costCenterId,
+        costCenterCode: costCenter?.code ?? null,
+        costCenterName: costCenter?.name ?? "Unassigned",
+        count: entry.count,
+        amount: Math.round(entry.amount * 100) / 100,
+      };
+    }).sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Totals per project across all pages of the expense report, with the
+   * billable share. Expenses without a project are grouped as "No project".
+   */
+  private static async getProjectBreakdown(
+    companyId: string,
+    whereClause: Prisma.ExpenseWhereInput
+  ) {
+    const [groups, projects] = await Promise.all([
+      prisma.expense.groupBy({
+        by: ["projectId", "isBillable"],
+        where: whereClause,
+        _count: { id: true },
+        _sum: { baseAmount: true },
+      }),
+      prisma.project.findMany({
+        where: { companyId },
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          clientName: true,
+          budget: true,
+        },
+      }),
+    ]);
+
+    const projectMap = new Map(projects.map((project) => [project.id, project]));
+    const totals = new Map<
+      string | null,
+      { count: number; amount: number; billableAmount: number }
+    >();
+    for (const group of groups) {
+      const entry = totals.get(group.projectId) ?? {
+        count: 0,
+        amount: 0,
+        billableAmount: 0,
+      };
+      const amount = Number(group._sum.baseAmount) || 0;
+      entry.count += group._count.id;
+      entry.amount += amount;
+      if (group.isBillable) entry.billableAmount += amount;
+      totals.set(group.projectId, entry);
+    }
+
+    return Array.from(totals, ([projectId, entry]) => {
+      const project = projectId ? projectMap.get(projectId) : null;
+      return {
+        projectId,
+        projectCode: project?.code ?? null,
+        projectName: project?.name ?? "No project",
+        clientName: project?.clientName ?? null,
+        budget: project?.budget ? Number(project.budget) : null,
+        count: entry.count,
+        amount: Math.round(entry.amount * 100) / 100,
+        billableAmount: Math.round(entry.billableAmount * 100) / 100,
+      };
+    }).sort((a, b) => b.amount - a.amount);
+  }
+
+  /**
+   * Department and cost center filters. A department matches its members'
+   * expenses; a cost center matches expenses charged to it in full or as
+   * part of a split.
+   */
+  private static organizationWhere(
+    filters: OrganizationFilters
+  ): Prisma.ExpenseWhereInput {
+    const conditions: Prisma.ExpenseWhereInput[] = [];
+
+    if (filters.departmentId) {
+      conditions.push({ submitter: { departmentId: filters.departmentId } });
+    }
+    if (filters.costCenterId) {
+      conditions.push({
+        OR: [
+          { costCenterId: filters.costCenterId },
+          {
+            costAllocations: { some: { costCenterId: filters.costCenterId } },
+          },
+        ],
+      });
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+  }
+
+  // The organization filters as SQL conditions on the Expense table, with
+  // the ids bound as parameters
+  private static organizationSql(
+    filters: OrganizationFilters,
+    expenseAlias: "" | "e."
+  ): Prisma.Sql {
+    const alias = Prisma.raw(expenseAlias);
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.departmentId) {
+      conditions.push(
+        Prisma.sql`AND ${alias}"submitterId" IN (SELECT id FROM "User" WHERE "departmentId" = ${filters.departmentId})`
+      );
+    }
+    if (filters.costCenterId) {
+      conditions.push(
+        Prisma.sql`AND (${alias}"costCenterId" = ${filters.costCenterId} OR ${alias}id IN (SELECT "expenseId" FROM "ExpenseCostAllocation" WHERE "costCenterId" = ${filters.costCenterId}))`
+      );
+    }
+
+    return conditions.length > 0 ? Prisma.join(conditions, " ") : Prisma.empty;
+  }
+
   /**
    * Get detailed expense report with pagination
    */
   static async getExpenseReport(
     companyId: string,
-    params: ExpenseReportQueryInput,
+    params: ExpenseReportParams,
     requestingUserId: string,
     userRole: string
   ) {
-    const { page, limit, ...filters } = params;
+    const { page, limit, groupBy, ...filters } = params;
     const skip = (page - 1) * limit;
 
     // Build where clause
@@ -278,11 +751,36 @@ export class ReportsService {
     }
 
     // Add other filters
-    if (filters.status) {
+    if (Array.isArray(filters.status)) {
+      baseWhere.status = { in: filters.status };
+    } else if (filters.status) {
       baseWhere.status = filters.status;
     }
     if (filters.categoryId) {
-      baseWhere.categoryId = filters.categoryId;
+      // A parent category includes its subcategories
+      const categories = await prisma.expenseCategory.findMany({
+        where: { companyId },
+        select: { id: true, parentId: true },
+      });
+      baseWhere.categoryId = {
+        in: getDescendantIds(categories, filters.categoryId),
+      };
+    }
+    Object.assign(baseWhere, ReportsService.organizationWhere(filters));
+    if (filters.projectId) {
+      baseWhere.projectId = filters.projectId;
+    }
+    if (filters.isBillable !== undefined) {
+      baseWhere.isBillable = filters.isBillable;
+    }
+    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+      baseWhere.amount = {};
+      if (filters.minAmount !== undefined) {
+        baseWhere.amount.gte = filters.minAmount;
+      }
+      if (filters.maxAmount !== undefined) {
+        baseWhere.amount.lte = filters.maxAmount;
+      }
     }
 
     // Handle user access
@@ -327,12 +825,43 @@ export class ReportsService {
               name: true,
             },
           },
-          receipt: {
+          costCenter: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
+          costAllocations: {
+            select: {
+              percentage: true,
+              costCenter: {
+                select: {
+                  id: true,
+                  code: true,
+                },
+              },
+            },
+          },
+          project: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+              clientName: true,
+            },
+          },
+          receipts: {
             select: {
               id: true,
               fileName: true,
               url: true,
               fileType: true,
+              caption: true,
+              type: true,
+            },
+            orderBy: {
+              position: "asc",
             },
           },
         },
@@ -347,8 +876,14 @@ export class ReportsService {
       }),
     ]);
 
+    const projects =
+      groupBy === "project"
+        ? await ReportsService.getProjectBreakdown(companyId, baseWhere)
+        : undefined;
+
     return {
       expenses,
+      ...(projects && { projects }),
       pagination: {
         page,
         limit,
@@ -366,7 +901,356 @@ export class ReportsService {
   }
 
   /**
-   * Create export task (simplified without database storage for now)
+   * Approved billable expenses not invoiced yet, grouped by client and project
+   */
+  static async getUnbilledReport(
+    companyId: string,
+    filters: UnbilledReportQueryInput,
+    userRole: string
+  ) {
+    if (userRole === "EMPLOYEE") {
+      throw new AuthorizationError("Insufficient permissions");
+    }
+
+    const where: Prisma.ExpenseWhereInput = {
+      companyId,
+      status: "APPROVED",
+      isBillable: true,
+      invoicedAt: null,
+      ...(filters.projectId && { projectId: filters.projectId }),
+      ...(filters.clientName && {
+        project: {
+          clientName: { equals: filters.clientName, mode: "insensitive" },
+        },
+      }),
+    };
+    if (filters.startDate || filters.endDate) {
+      where.expenseDate = {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) }),
+      };
+    }
+
+    const [company, expenses] = await Promise.all([
+      prisma.company.findUnique({
+        where: { id: companyId },
+        select: { baseCurrency: true },
+      }),
+      prisma.expense.findMany({
+        where,
+        include: {
+          submitter: { select: { id: true, name: true } },
+          category: { select: { name: true } },
+          project: {
+            select: { id: true, code: true, name: true, clientName: true },
+          },
+        },
+        orderBy: { expenseDate: "asc" },
+      }),
+    ]);
+
+    type UnbilledProject = {
+      projectId: string;
+      projectCode: string;
+      projectName: string;
+      amount: number;
+      expenses: {
+        id: string;
+        expenseDate: string;
+        description: string;
+        submittedBy: string;
+        category: string;
+        amount: number;
+        currency: string;
+        baseAmount: number | null;
+      }[];
+    };
+    const clients = new Map<
+      string,
+      { clientName: string; amount: number; projects: Map<string, UnbilledProject> }
+    >();
+
+    for (const expense of expenses) {
+      // Billable expenses always have a project
+      if (!expense.project) continue;
+      const { project } = expense;
+      const baseAmount =
+        expense.baseAmount !== null ? Number(expense.baseAmount) : null;
+
+      const client = clients.get(project.clientName) ?? {
+        clientName: project.clientName,
+        amount: 0,
+        projects: new Map<string, UnbilledProject>(),
+      };
+      const entry = client.projects.get(project.id) ?? {
+        projectId: project.id,
+        projectCode: project.code,
+        projectName: project.name,
+        amount: 0,
+        expenses: [],
+      };
+
+      entry.expenses.push({
+        id: expense.id,
+        expenseDate: expense.expenseDate.toISOString().split("T")[0],
+        description: expense.description,
+        submittedBy: expense.submitter.name,
+        category: expense.category.name,
+        amount: Number(expense.amount),
+        currency: expense.currency,
+        baseAmount,
+      });
+      entry.amount += baseAmount ?? 0;
+      client.amount += baseAmount ?? 0;
+      client.projects.set(project.id, entry);
+      clients.set(project.clientName, client);
+    }
+
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const clientList = Array.from(clients.values())
+      .map((client) => ({
+        clientName: client.clientName,
+        amount: round(client.amount),
+        projects: Array.from(client.projects.values()).map((project) => ({
+          ...project,
+          amount: round(project.amount),
+        })),
+      }))
+      .sort((a, b) => a.clientName.localeCompare(b.clientName));
+
+    return {
+      currency: company?.baseCurrency,
+      totalAmount: round(
+        clientList.reduce((total, client) => total + client.amount, 0)
+      ),
+      expenseCount: expenses.length,
+      clients: clientList,
+      filters: {
+        ...filters,
+        startDate: filters.startDate || null,
+        endDate: filters.endDate || null,
+      },
+    };
+  }
+
+  /**
+   * Mark billable expenses as invoiced to the client, taking them off the
+   * unbilled report. All of them must be approved, billable and unbilled.
+   */
+  static async markExpensesInvoiced(
+    companyId: string,
+    input: MarkInvoicedInput,
+    userRole: string
+  ) {
+    if (userRole !== "ADMIN") {
+      throw new AuthorizationError("Only admins can mark expenses as invoiced");
+    }
+
+    const invoiceable: Prisma.ExpenseWhereInput = {
+      id: { in: input.expenseIds },
+      companyId,
+      status: "APPROVED",
+      isBillable: true,
+      invoicedAt: null,
+    };
+
+    const found = await prisma.expense.findMany({
+      where: invoiceable,
+      select: { id: true, baseAmount: true },
+    });
+
+    if (found.length !== input.expenseIds.length) {
+      const foundIds = new Set(found.map((expense) => expense.id));
+      const rejected = input.expenseIds.filter((id) => !foundIds.has(id));
+      throw new ValidationError(
+        `${rejected.length} of the expenses can't be invoiced; only approved, billable expenses that aren't invoiced yet can be`,
+        rejected
+      );
+    }
+
+    const invoicedAt = new Date();
+    // Repeat the conditions so an expense invoiced in the meantime is skipped
+    const { count } = await prisma.expense.updateMany({
+      where: invoiceable,
+      data: {
+        invoicedAt,
+        invoiceReference: input.invoiceReference ?? null,
+      },
+    });
+
+    return {
+      invoicedCount: count,
+      invoicedAt: invoicedAt.toISOString(),
+      invoiceReference: input.invoiceReference ?? null,
+      totalAmount:
+        Math.round(
+          found.reduce(
+            (total, expense) => total + (Number(expense.baseAmount) || 0),
+            0
+          ) * 100
+        ) / 100,
+    };
+  }
+
+  /**
+   * VAT/GST paid on approved itemised expenses, for reclaiming. Tax is
+   * converted with each expense's exchange rate and totalled per tax rate
+   * and per category; totals in the currency it was paid in are kept too,
+   * since tax is reclaimed where it was charged.
+   */
+  static async getTaxReport(
+    companyId: string,
+    filters: TaxReportQueryInput,
+    userRole: string
+  ) {
+    if (userRole !== "ADMIN") {
+      throw new AuthorizationError("Insufficient permissions");
+    }
+
+    const expenseWhere: Prisma.ExpenseWhereInput = {
+      companyId,
+      status: "APPROVED",
+      ...ReportsService.organizationWhere(filters),
+    };
+    if (filters.startDate || filters.endDate) {
+      expenseWhere.expenseDate = {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) }),
+      };
+    }
+
+    const [company, lines] = await Promise.all([
+      prisma.company.findUnique({
+        where: { id: companyId },
+        select: { baseCurrency: true },
+      }),
+      prisma.expenseLineItem.findMany({
+        where: { taxAmount: { gt: 0 }, expense: expenseWhere },
+        select: {
+          amount: true,
+          taxRate: true,
+          taxAmount: true,
+          categoryId: true,
+          category: { select: { name: true } },
+          expense: {
+            select: { id: true, currency: true, exchangeRate: true },
+          },
+        },
+      }),
+    ]);
+
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const byRate = new Map<
+      string,
+      {
+        taxRate: number | null;
+        lineCount: number;
+        grossAmount: number;
+        taxAmount: number;
+      }
+    >();
+    const byCategory = new Map<
+      string,
+      {
+        categoryId: string;
+        categoryName: string;
+        grossAmount: number;
+        taxAmount: number;
+      }
+    >();
+    const byCurrency = new Map<string, number>();
+    const expenseIds = new Set<string>();
+    const unconverted = new Set<string>();
+
+    for (const line of lines) {
+      const { expense } = line;
+      const taxAmount = Number(line.taxAmount);
+      expenseIds.add(expense.id);
+      byCurrency.set(
+        expense.currency,
+        (byCurrency.get(expense.currency) ?? 0) + taxAmount
+      );
+
+      // Counted in the paid currency only until a rate is known
+      if (expense.exchangeRate === null) {
+        unconverted.add(expense.id);
+        continue;
+      }
+      const rate = Number(expense.exchangeRate);
+      const baseGross = round(Number(line.amount) * rate);
+      const baseTax = round(taxAmount * rate);
+
+      const taxRate = line.taxRate !== null ? Number(line.taxRate) : null;
+      const rateKey = taxRate === null ? "none" : taxRate.toFixed(2);
+      const rateEntry = byRate.get(rateKey) ?? {
+        taxRate,
+        lineCount: 0,
+        grossAmount: 0,
+        taxAmount: 0,
+      };
+      rateEntry.lineCount += 1;
+      rateEntry.grossAmount += baseGross;
+      rateEntry.taxAmount += baseTax;
+      byRate.set(rateKey, rateEntry);
+
+      const categoryEntry = byCategory.get(line.categoryId) ?? {
+        categoryId: line.categoryId,
+        categoryName: line.category.name,
+        grossAmount: 0,
+        taxAmount: 0,
+      };
+      categoryEntry.grossAmount += baseGross;
+      categoryEntry.taxAmount += baseTax;
+      byCategory.set(line.categoryId, categoryEntry);
+    }
+
+    const rates = Array.from(byRate.values())
+      .map((entry) => ({
+        taxRate: entry.taxRate,
+        lineCount: entry.lineCount,
+        grossAmount: round(entry.grossAmount),
+        netAmount: round(entry.grossAmount - entry.taxAmount),
+        taxAmount: round(entry.taxAmount),
+      }))
+      // Highest rate first, lines without a rate last
+      .sort((a, b) => (b.taxRate ?? -1) - (a.taxRate ?? -1));
+    const totalGrossAmount = round(
+      rates.reduce((total, entry) => total + entry.grossAmount, 0)
+    );
+    const totalTaxAmount = round(
+      rates.reduce((total, entry) => total + entry.taxAmount, 0)
+    );
+
+    return {
+      currency: company?.baseCurrency,
+      totalGrossAmount,
+      totalNetAmount: round(totalGrossAmount - totalTaxAmount),
+      totalTaxAmount,
+      expenseCount: expenseIds.size,
+      unconvertedExpenses: unconverted.size,
+      byRate: rates,
+      byCategory: Array.from(byCategory.values())
+        .map((entry) => ({
+          ...entry,
+          grossAmount: round(entry.grossAmount),
+          taxAmount: round(entry.taxAmount),
+        }))
+        .sort((a, b) => b.taxAmount - a.taxAmount),
+      // Tax in the currency it was paid in, converted or not
+      byCurrency: Array.from(byCurrency, ([currency, taxAmount]) => ({
+        currency,
+        taxAmount: round(taxAmount),
+      })).sort((a, b) => a.currency.localeCompare(b.currency)),
+      filters: {
+        ...filters,
+        startDate: filters.startDate || null,
+        endDate: filters.endDate || null,
+      },
+    };
+  }
+
+  /**
+   * Create an export task and queue it for background rendering
    */
   static async createExportTask(
     companyId: string,
@@ -397,45 +1281,309 @@ export class ReportsService {
       }
     }
 
-    // Generate a task ID
-    const taskId = crypto.randomUUID();
+    const task = await prisma.exportTask.create({
+      data: {
+        companyId,
+        requestedById: requestingUserId,
+        format: params.format,
+        filters: params.filters,
+        includeReceipts: params.includeReceipts,
+      },
+    });
 
-    // TODO: Store export task in database when ExportTask model is added
-    // TODO: Queue the export job for background processing
-    // For now, we'll return the task ID and simulate processing
+    try {
+      await addReportJob({
+        type: "expense-report",
+        userId: requestingUserId,
+        companyId,
+        parameters: params.filters,
+        format: params.format,
+        exportTaskId: task.id,
+      });
+    } catch (error) {
+      await prisma.exportTask.update({
+        where: { id: task.id },
+        data: {
+          status: "FAILED",
+          error: "Failed to queue export",
+        },
+      });
+      throw error;
+    }
 
     return {
-      taskId,
-      status: "PROCESSING",
+      taskId: task.id,
+      status: task.status,
       message:
         "Export task created successfully. Use the task ID to check status.",
     };
   }
 
   /**
-   * Get export task status (simplified without database for now)
+   * Get export task status. Completed exports include a short-lived
+   * download link.
    */
   static async getExportStatus(
     taskId: string,
-    _companyId: string,
-    _requestingUserId: string
+    companyId: string,
+    requestingUserId: string,
+    userRole: string
+  ) {
+    const task = await prisma.exportTask.findFirst({
+      where: {
+        id: taskId,
+        companyId,
+        // Admins can follow any export in the company
+        ...(userRole === "ADMIN" ? {} : { requestedById: requestingUserId }),
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundError("Export task not found");
+    }
+
+    let downloadUrl: string | null = null;
+    let downloadUrlExpiresAt: string | null = null;
+
+    if (task.status === "COMPLETED" && task.fileKey) {
+      downloadUrl = await getSignedDownloadUrl(
+        task.fileKey,
+        EXPORT_LINK_TTL_SECONDS
+      );
+      downloadUrlExpiresAt = new Date(
+        Date.now() + EXPORT_LINK_TTL_SECONDS * 1000
+      ).toISOString();
+    }
+
+    return {
+      taskId: task.id,
+      status: task.status,
+      format: task.format.toUpperCase(),
+      progress: task.progress,
+      rowCount: task.rowCount,
+      fileName: task.fileName,
+      fileSize: task.fileSize,
+      createdAt: task.createdAt.toISOString(),
+      startedAt: task.startedAt?.toISOString() ?? null,
+      completedAt: task.completedAt?.toISOString() ?? null,
+      expiresAt: task.expiresAt?.toISOString() ?? null,
+      downloadUrl,
+      downloadUrlExpiresAt,
+      error: task.error,
+    };
+  }
+
+  /**
+   * Render an export task's report and store the file. Called by the report
+   * queue worker; failures are recorded on the task and rethrown so the
+   * queue can retry.
+   */
+  static async processExportTask(
+    taskId: string,
+    onProgress: (progress: number) => void | Promise<void> = () => {}
   ) {
-    // TODO: Retrieve from database when ExportTask model is added
-    // For now, simulate a completed export
+    const task = await prisma.exportTask.findUnique({
+      where: { id: taskId },
+      include: {
+        requestedBy: {
+          select: { id: true, role: true },
+        },
+      },
+    });
 
-    if (!taskId) {
+    if (!task) {
       throw new NotFoundError("Export task not found");
     }
 
-    // Simulate export completion
+    const reportProgress = async (progress: number) => {
+      await prisma.exportTask.update({
+        where: { id: taskId },
+        data: { progress },
+      });
+      await onProgress(progress);
+    };
+
+    await prisma.exportTask.update({
+      where: { id: taskId },
+      data: {
+        status: "PROCESSING",
+        progress: 0,
+        error: null,
+        startedAt: new Date(),
+      },
+    });
+
+    try {
+      const filters = task.filters as ExportReportInput["filters"];
+      const format = task.format as ExportFormat;
+      const rows: ExpenseExportRow[] = [];
+
+      // Scoped like the request: by the requester's effective permissions,
+      // custom roles included, as they stand when the export runs
+      const scopeRole = getExpenseScopeRole(
+        await RoleService.getEffectivePermissions(
+          task.requestedBy.id,
+          task.requestedBy.role,
+          task.companyId
+        )
+      );
+
+      // Page through the report so large exports are not loaded in one query
+      for (let page = 1; ; page++) {
+        const report = await this.getExpenseReport(
+          task.companyId,
+          {
+            ...filters,
+            format: "json",
+            page,
+            limit: EXPORT_PAGE_SIZE,
+          },
+          task.requestedBy.id,
+          scopeRole
+        );
+
+        rows.push(
+          ...report.expenses.map((expense) => ({
+            id: expense.id,
+            expenseDate: expense.expenseDate.toISOString().split("T")[0],
+            submittedBy: expense.submitter.name,
+            submitterEmail: expense.submitter.email,
+            category: expense.category.name,
+            costCenter:
+              expense.costAllocations.length > 0
+                ? expense.costAllocations
+                    .map(
+                      (allocation) =>
+                        `${allocation.costCenter.code} ${Number(allocation.percentage)}%`
+                    )
+                    .join(", ")
+                : expense.costCenter?.code ?? null,
+            project: expense.project?.code ?? null,
+            description: expense.description,
+            amount: Number(expense.amount),
+            currency: expense.currency,
+            baseAmount:
+              expense.baseAmount !== null ? Number(expense.baseAmount) : null,
+            baseCurrency: expense.baseCurrency,
+            status: expense.status,
+            // Several files per expense are listed in display order
+            receiptFileName:
+              expense.receipts.map((receipt) => receipt.fileName).join("; ") ||
+              null,
+            receiptUrl:
+              expense.receipts.map((receipt) => receipt.url).join(" ") || null,
+          }))
+        );
+
+        // Fetching is the bulk of the work; rendering and upload take the rest
+        const fetched = Math.min(
+          page * EXPORT_PAGE_SIZE,
+          report.pagination.total
+        );
+        await reportProgress(
+          Math.round(
+            10 + (70 * fetched) / Math.max(report.pagination.total, 1)
+          )
+        );
+
+        if (!report.pagination.hasNext) break;
+      }
+
+      const rendered = await renderExpenseExport(rows, format, {
+        title: "Expense Report",
+        subtitle: `${filters.startDate} to ${filters.endDate}`,
+        includeReceipts: task.includeReceipts,
+      });
+      await reportProgress(90);
+
+      const fileName = `expense-report-${filters.startDate}-to-${filters.endDate}.${rendered.extension}`;
+      const upload = await uploadFile(
+        rendered.buffer,
+        generateExportKey(task.companyId, task.id, fileName),
+        rendered.contentType
+      );
+
+      const completedAt = new Date();
+      await prisma.exportTask.update({
+        where: { id: taskId },
+        data: {
+          status: "COMPLETED",
+          progress: 100,
+          rowCount: rows.length,
+          fileKey: upload.key,
+          fileName,
+          fileSize: rendered.buffer.length,
+          contentType: rendered.contentType,
+          completedAt,
+          expiresAt: new Date(
+            completedAt.getTime() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000
+          ),
+        },
+      });
+
+      return { taskId, rowCount: rows.length };
+    } catch (error) {
+      await prisma.exportTask.update({
+        where: { id: taskId },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Export failed",
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete stored files of exports past their retention period and drop
+   * old failed or expired task records
+   */
+  static async cleanupExpiredExports(now: Date = new Date()) {
+    const expiredTasks = await prisma.exportTask.findMany({
+      where: {
+        status: "COMPLETED",
+        expiresAt: { lte: now },
+      },
+      select: { id: true, fileKey: true },
+    });
+
+    let filesDeleted = 0;
+    for (const task of expiredTasks) {
+      if (task.fileKey) {
+        try {
+          await deleteFile(task.fileKey);
+          filesDeleted++;
+        } catch (error) {
+          // Leave the task as is so the next run retries the delete
+          console.error(`Failed to delete export file for ${task.id}:`, error);
+          continue;
+        }
+      }
+
+      await prisma.exportTask.update({
+        where: { id: task.id },
+        data: {
+          status: "EXPIRED",
+          fileKey: null,
+        },
+      });
+    }
+
+    const { count: recordsDeleted } = await prisma.exportTask.deleteMany({
+      where: {
+        status: { in: ["FAILED", "EXPIRED"] },
+        createdAt: {
+          lt: new Date(
+            now.getTime() - EXPORT_RECORD_RETENTION_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      },
+    });
+
     return {
-      taskId,
-      status: "COMPLETED",
-      format: "CSV",
-      createdAt: new Date().toISOString(),
-      completedAt: new Date().toISOString(),
-      downloadUrl: `/api/reports/download/${taskId}`,
-      error: null,
+      expired: expiredTasks.length,
+      filesDeleted,
+      recordsDeleted,
     };
   }
 
@@ -448,10 +1596,14 @@ export class ReportsService {
     requestingUserId: string,
     userRole: string
   ) {
+    const { fiscalYearStartMonth } = await CompanyService.getSettingsValues(
+      companyId
+    );
     const { startDate, endDate } = calculateDateRange(
       params.period,
       params.startDate,
-      params.endDate
+      params.endDate,
+      fiscalYearStartMonth
     );
 
     const whereClause: Prisma.ExpenseWhereInput = {
@@ -486,14 +1638,29 @@ export class ReportsService {
       whereClause.submitterId = requestingUserId;
     }
 
-    const summary = await prisma.expense.aggregate({
-      where: whereClause,
-      _count: { id: true },
-      _sum: { amount: true },
-      _avg: { amount: true },
-      _max: { amount: true },
-      _min: { amount: true },
-    });
+    // Amounts in the company base currency
+    const [company, summary, unconvertedExpenses, outstandingAdvances] =
+      await Promise.all([
+        prisma.company.findUnique({
+          where: { id: companyId },
+          select: { baseCurrency: true },
+        }),
+        prisma.expense.aggregate({
+          where: whereClause,
+          _count: { id: true },
+          _sum: { baseAmount: true },
+          _avg: { baseAmount: true },
+          _max: { baseAmount: true },
+          _min: { baseAmount: true },
+        }),
+        prisma.expense.count({
+          where: { ...whereClause, baseAmount: null },
+        }),
+        ReportsService.getOutstandingAdvances(
+          companyId,
+          whereClause.submitterId as string | undefined
+        ),
+      ]);
 
     return {
       period: {
@@ -503,11 +1670,15 @@ export class ReportsService {
       },
       summary: {
         totalExpenses: summary._count.id || 0,
-        totalAmount: Number(summary._sum.amount) || 0,
-        averageAmount: Number(summary._avg.amount) || 0,
-        maxAmount: Number(summary._max.amount) || 0,
-        minAmount: Number(summary._min.amount) || 0,
+        totalAmount: Number(summary._sum.baseAmount) || 0,
+        averageAmount: Number(summary._avg.baseAmount) || 0,
+        maxAmount: Number(summary._max.baseAmount) || 0,
+        minAmount: Number(summary._min.baseAmount) || 0,
+        currency: company?.baseCurrency,
+        // Expenses still waiting for an exchange rate, left out of the sums
+        unconvertedExpenses,
       },
+      outstandingAdvances,
     };
   }
 }
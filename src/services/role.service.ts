@@ -0,0 +1,580 @@
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { AuditService } from "@/services/audit.service";
+import {
+  BUILT_IN_ROLES,
+  BuiltInRole,
+  PERMISSION_CATALOG,
+  PermissionDefinition,
+  ROLE_TEMPLATES,
+  RolePreset,
+  getBuiltInPermissions,
+  isPermissionGranted,
+} from "@/lib/permissions";
+import type {
+  CreateRoleInput,
+  UpdateRoleInput,
+} from "@/lib/validations/roles";
+
+const ROLE_AUDIT_FIELDS = ["name", "description", "permissions"] as const;
+
+// The user managing roles, with their resolved permissions
+export interface RoleActor {
+  id: string;
+  permissions: string[];
+}
+
+export interface RolePublic {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BuiltInRolePublic extends RolePreset {
+  key: BuiltInRole;
+  memberCount: number;
+}
+
+export interface RoleOverview {
+  permissions: readonly PermissionDefinition[];
+  templates: readonly RolePreset[];
+  builtIn: BuiltInRolePublic[];
+  custom: RolePublic[];
+}
+
+export interface UserRoles {
+  userId: string;
+  role: BuiltInRole;
+  customRoles: { id: string; name: string }[];
+  // Effective permissions of the built-in and custom roles combined
+  permissions: string[];
+}
+
+const roleInclude = {
+  _count: { select: { assignments: true } },
+} as const;
+
+type RoleRow = Prisma.CompanyRoleGetPayload<{ include: typeof roleInclude }>;
+
+const toRolePublic = (role: RoleRow): RolePublic => ({
+  id: role.id,
+  name: role.name,
+  description: role.description,
+  permissions: role.permissions,
+  memberCount: role._count.assignments,
+  createdAt: role.createdAt.toISOString(),
+  updatedAt: role.updatedAt.toISOString(),
+});
+
+const roleNotFound = (): ServiceResult<never> => ({
+  success: false,
+  error: {
+    message: "Role not found or access denied",
+    code: "ROLE_NOT_FOUND",
+  },
+});
+
+export class RoleService {
+  /**
+   * The permission catalog, the built-in roles and the company's custom roles
+   */
+  static async listRoles(companyId: string): Promise<ServiceResult<RoleOverview>> {
+    try {
+      const [roles, roleCounts] = await Promise.all([
+        prisma.companyRole.findMany({
+          where: { companyId },
+          include: roleInclude,
+          orderBy: { name: "asc" },
+        }),
+        prisma.user.groupBy({
+          by: ["role"],
+          where: { companyId },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const builtIn = (Object.keys(BUILT_IN_ROLES) as BuiltInRole[]).map(
+        (key) => ({
+          key,
+          ...BUILT_IN_ROLES[key],
+          memberCount:
+            roleCounts.find((count) => count.role === key)?._count._all ?? 0,
+        })
+      );
+
+      return {
+        success: true,
+        data: {
+          permissions: PERMISSION_CATALOG,
+          templates: ROLE_TEMPLATES,
+          builtIn,
+          custom: roles.map(toRolePublic),
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to list roles", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve roles",
+          code: "ROLE_LIST_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Define a custom role
+   */
+  static async createRole(
+    companyId: string,
+    input: CreateRoleInput,
+    actor: RoleActor
+  ): Promise<ServiceResult<RolePublic>> {
+    try {
+      const grantError = this.validateGrant(actor, input.permissions);
+      if (grantError) return grantError;
+
+      const nameError = await this.validateName(companyId, input.name);
+      if (nameError) return nameError;
+
+      const role = await prisma.companyRole.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          permissions: input.permissions,
+          companyId,
+          createdById: actor.id,
+        },
+        include: roleInclude,
+      });
+
+      businessLogger.logUserAction("role_created", actor.id, {
+        companyId,
+        roleId: role.id,
+        permissions: role.permissions,
+      });
+
+      await AuditService.record({
+        companyId,
+        entityType: "ROLE",
+        entityId: role.id,
+        action: "created",
+        before: null,
+        after: role,
+        fields: ROLE_AUDIT_FIELDS,
+      });
+
+      return { success: true, data: toRolePublic(role) };
+    } catch (error) {
+      businessLogger.error("Failed to create role", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create role",
+          code: "ROLE_CREATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Change a custom role; its holders get the new permissions on their next
+   * request
+   */
+  static async updateRole(
+    roleId: string,
+    companyId: string,
+    input: UpdateRoleInput,
+    actor: RoleActor
+  ): Promise<ServiceResult<RolePublic>> {
+    try {
+      const existing = await prisma.companyRole.findFirst({
+        where: { id: roleId, companyId },
+      });
+      if (!existing) return roleNotFound();
+
+      // Only a change to the permissions needs the actor to hold them
+      if (input.permissions) {
+        const added = input.permissions.filter(
+          (key) => !existing.permissions.includes(key)
+        );
+        const grantError = this.validateGrant(actor, added);
+        if (grantError) return grantError;
+      }
+
+      if (input.name) {
+        const nameError = await this.validateName(companyId, input.name, roleId);
+        if (nameError) return nameError;
+      }
+
+      const role = await prisma.companyRole.update({
+        where: { id: roleId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && {
+            description: input.description,
+          }),
+          ...(input.permissions !== undefined && {
+            permissions: input.permissions,
+          }),
+        },
+        include: roleInclude,
+      });
+
+      businessLogger.logUserAction("role_updated", actor.id, {
+        companyId,
+        roleId,
+        changes: Object.keys(input),
+      });
+
+      await AuditService.record({
+        companyId,
+        entityType: "ROLE",
+        entityId: roleId,
+        action: "updated",
+        before: existing,
+        after: role,
+        fields: ROLE_AUDIT_FIELDS,
+      });
+
+      return { success: true, data: toRolePublic(role) };
+    } catch (error) {
+      businessLogger.error("Failed to update role", error as Error, {
+        companyId,
+        roleId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update role",
+          code: "ROLE_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Delete a custom role, unassigning it from its holders
+   */
+  static async deleteRole(
+    roleId: string,
+    companyId: string,
+    userId: string
+  ): Promise<ServiceResult<{ id: string; unassignedCount: number }>> {
+    try {
+      const role = await prisma.companyRole.findFirst({
+        where: { id: roleId, companyId },
+        include: roleInclude,
+      });
+      if (!role) return roleNotFound();
+
+      await prisma.companyRole.delete({ where: { id: roleId } });
+
+      businessLogger.logUserAction("role_deleted", userId, {
+        companyId,
+        roleId,
+        unassignedCount: role._count.assignments,
+      });
+
+      await AuditService.record({
+        companyId,
+        entityType: "ROLE",
+        entityId: roleId,
+        action: "deleted",
+        before: role,
+        after: null,
+        fields: ROLE_AUDIT_FIELDS,
+        metadata: { unassignedCount: role._count.assignments },
+      });
+
+      return {
+        success: true,
+        data: { id: roleId, unassignedCount: role._count.assignments },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to delete role", error as Error, {
+        companyId,
+        roleId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to delete role",
+          code: "ROLE_DELETE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * A user's built-in and custom roles with their effective permissions
+   */
+  static async getUserRoles(
+    userId: string,
+    companyId: string
+  ): Promise<ServiceResult<UserRoles>> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: { id: userId, companyId },
+        select: {
+          id: true,
+          role: true,
+          roleAssignments: {
+            select: {
+              role: { select: { id: true, name: true, permissions: true } },
+            },
+            orderBy: { assignedAt: "asc" },
+          },
+        },
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            message: "User not found in your company",
+            code: "USER_NOT_FOUND",
+          },
+        };
+      }
+
+      const customRoles = user.roleAssignments.map(
+        (assignment) => assignment.role
+      );
+
+      return {
+        success: true,
+        data: {
+          userId: user.id,
+          role: user.role,
+          customRoles: customRoles.map((role) => ({
+            id: role.id,
+            name: role.name,
+          })),
+          permissions: this.combinePermissions(
+            user.role,
+            customRoles.map((role) => role.permissions)
+          ),
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get user roles", error as Error, {
+        companyId,
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve user roles",
+          code: "USER_ROLES_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Make the given custom roles the user's; roles not listed are unassigned
+   */
+  static async setUserRoles(
+    userId: string,
+    companyId: string,
+    roleIds: string[],
+    actor: RoleActor
+  ): Promise<ServiceResult<UserRoles>> {
+    try {
+      const [user, roles] = await Promise.all([
+        prisma.user.findFirst({
+          where: { id: userId, companyId },
+          select: {
+            id: true,
+            roleAssignments: { select: { roleId: true } },
+          },
+        }),
+        prisma.companyRole.findMany({
+          where: { id: { in: roleIds }, companyId },
+          select: { id: true, permissions: true },
+        }),
+      ]);
+
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            message: "User not found in your company",
+            code: "USER_NOT_FOUND",
+          },
+        };
+      }
+
+      if (roles.length !== roleIds.length) {
+        const found = new Set(roles.map((role) => role.id));
+        return {
+          success: false,
+          error: {
+            message: "Some roles were not found in your company",
+            code: "ROLE_NOT_FOUND",
+            details: roleIds.filter((id) => !found.has(id)),
+          },
+        };
+      }
+
+      const currentIds = user.roleAssignments.map(
+        (assignment) => assignment.roleId
+      );
+      const addedRoles = roles.filter((role) => !currentIds.includes(role.id));
+      const grantError = this.validateGrant(
+        actor,
+        addedRoles.flatMap((role) => role.permissions)
+      );
+      if (grantError) return grantError;
+
+      await prisma.$transaction([
+        prisma.userRoleAssignment.deleteMany({
+          where: { userId, roleId: { notIn: roleIds } },
+        }),
+        prisma.userRoleAssignment.createMany({
+          data: addedRoles.map((role) => ({
+            userId,
+            roleId: role.id,
+            assignedById: actor.id,
+          })),
+        }),
+      ]);
+
+      businessLogger.logUserAction("user_roles_updated", actor.id, {
+        companyId,
+        targetUserId: userId,
+        roleIds,
+      });
+
+      await AuditService.record({
+        companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "roles_updated",
+        before: { roleIds: [...currentIds].sort() },
+        after: { roleIds: [...roleIds].sort() },
+      });
+
+      return this.getUserRoles(userId, companyId);
+    } catch (error) {
+      businessLogger.error("Failed to set user roles", error as Error, {
+        companyId,
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update user roles",
+          code: "USER_ROLES_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The permissions a user holds right now: their built-in role's plus those
+   * of their custom roles. Falls back to the built-in role's when the custom
+   * roles can't be read.
+   */
+  static async getEffectivePermissions(
+    userId: string,
+    role: string,
+    companyId: string
+  ): Promise<string[]> {
+    try {
+      const roles = await prisma.companyRole.findMany({
+        where: { companyId, assignments: { some: { userId } } },
+        select: { permissions: true },
+      });
+
+      return this.combinePermissions(
+        role,
+        roles.map((customRole) => customRole.permissions)
+      );
+    } catch (error) {
+      businessLogger.error("Failed to resolve permissions", error as Error, {
+        companyId,
+        userId,
+      });
+      return getBuiltInPermissions(role);
+    }
+  }
+
+  private static combinePermissions(
+    role: string,
+    customPermissions: string[][]
+  ): string[] {
+    return Array.from(
+      new Set([...getBuiltInPermissions(role), ...customPermissions.flat()])
+    );
+  }
+
+  // Error result when the actor would grant permissions they don't hold,
+  // otherwise null
+  private static validateGrant(
+    actor: RoleActor,
+    permissions: string[]
+  ): ServiceResult<never> | null {
+    const notHeld = Array.from(new Set(permissions)).filter(
+      (key) => !isPermissionGranted(actor.permissions, key)
+    );
+
+    if (notHeld.length > 0) {
+      return {
+        success: false,
+        error: {
+          message: "You can only grant permissions you hold yourself",
+          code: "PERMISSION_NOT_HELD",
+          details: notHeld,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  // Error result when another role has the name, otherwise null
+  private static async validateName(
+    companyId: string,
+    name: string,
+    roleId?: string
+  ): Promise<ServiceResult<never> | null> {
+    const builtInName = Object.values(BUILT_IN_ROLES).some(
+      (preset) => preset.name.toLowerCase() === name.toLowerCase()
+    );
+    const duplicate = await prisma.companyRole.findFirst({
+      where: {
+        name: { equals: name, mode: "insensitive" },
+        companyId,
+        ...(roleId && { id: { not: roleId } }),
+      },
+      select: { id: true },
+    });
+
+    if (builtInName || duplicate) {
+      return {
+        success: false,
+        error: {
+          message: "A role with this name already exists",
+          code: "ROLE_EXISTS",
+        },
+      };
+    }
+
+    return null;
+  }
+}
+
+export default RoleService;
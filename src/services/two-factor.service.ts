@@ -0,0 +1,707 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { prisma } from "@/lib/prisma";
+import { getRedisClient } from "@/lib/redis";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import {
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+  TWO_FACTOR_MAX_ATTEMPTS,
+  TWO_FACTOR_SETUP_TTL_SECONDS,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTwoFactorRequiredFor,
+  totpProvisioningUri,
+  twoFactorAttemptsKey,
+  twoFactorChallengeKey,
+  twoFactorLastStepKey,
+  twoFactorSetupKey,
+  verifyTotp,
+} from "@/lib/two-factor";
+import { AuditService } from "./audit.service";
+import { CompanyService } from "./company.service";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  // Whether the company requires it for the user's role
+  required: boolean;
+}
+
+// What the user scans, or types in, to add the account to an authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  // PNG data URL of the otpauth URI
+  qrCode: string;
+}
+
+/**
+ * Issued after a correct password when the user has two-factor
+ * authentication, or must set it up before signing in ("setup").
+ */
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  method: "totp" | "setup";
+  expiresIn: number;
+  setup?: TwoFactorSetup;
+}
+
+export interface TwoFactorSignIn {
+  userId: string;
+  // Only when the challenge enrolled the user; shown to them once
+  recoveryCodes?: string[];
+}
+
+interface StoredChallenge {
+  userId: string;
+  method: TwoFactorChallenge["method"];
+}
+
+// The user a sign-in challenge is created for
+interface ChallengeUser {
+  id: string;
+  email: string;
+  role: string;
+  companyId: string;
+  twoFactorEnabledAt: Date | null;
+}
+
+const twoFactorUserSelect = {
+  id: true,
+  email: true,
+  role: true,
+  companyId: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  twoFactorRecoveryCodes: true,
+} as const;
+
+// Stores ARGV[1] as the last used step unless the stored one is the same
+// or later; returns 1 when the step was accepted
+const ACCEPT_STEP_SCRIPT = `
+local last = redis.call("GET", KEYS[1])
+if last and tonumber(last) >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2])
+return 1
+`;
+
+const invalidCode = <T>(): ServiceResult<T> => ({
+  success: false,
+  error: { message: "Invalid authentication code", code: "INVALID_CODE" },
+});
+
+const notEnabled = <T>(): ServiceResult<T> => ({
+  success: false,
+  error: {
+    message: "Two-factor authentication is not enabled",
+    code: "TWO_FACTOR_NOT_ENABLED",
+  },
+});
+
+export class TwoFactorService {
+  /**
+   * Whether the user has two-factor authentication and how many recovery
+   * codes they have left
+   */
+  static async getStatus(userId: string): Promise<ServiceResult<TwoFactorStatus>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: { message: "User not found", code: "USER_NOT_FOUND" },
+        };
+      }
+
+      const settings = await CompanyService.getSettingsValues(user.companyId);
+
+      return {
+        success: true,
+        data: {
+          enabled: !!user.twoFactorEnabledAt,
+          enabledAt: user.twoFactorEnabledAt?.toISOString() ?? null,
+          recoveryCodesRemaining: user.twoFactorEnabledAt
+            ? user.twoFactorRecoveryCodes.length
+            : 0,
+          required: isTwoFactorRequiredFor(user.role, settings.security),
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get two-factor status", error as Error, {
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to get two-factor status",
+          code: "TWO_FACTOR_STATUS_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Start enrolment with a new secret. Nothing changes for the user until a
+   * code from it is confirmed with enable().
+   */
+  static async beginSetup(userId: string): Promise<ServiceResult<TwoFactorSetup>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: { message: "User not found", code: "USER_NOT_FOUND" },
+        };
+      }
+
+      if (user.twoFactorEnabledAt) {
+        return {
+          success: false,
+          error: {
+            message: "Two-factor authentication is already enabled",
+            code: "TWO_FACTOR_ALREADY_ENABLED",
+          },
+        };
+      }
+
+      return { success: true, data: await this.createSetup(user) };
+    } catch (error) {
+      businessLogger.error("Failed to start two-factor setup", error as Error, {
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to start two-factor setup",
+          code: "TWO_FACTOR_SETUP_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app. Returns the
+   * recovery codes, which aren't shown again.
+   */
+  static async enable(
+    userId: string,
+    code: string
+  ): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: { message: "User not found", code: "USER_NOT_FOUND" },
+        };
+      }
+
+      if (user.twoFactorEnabledAt) {
+        return {
+          success: false,
+          error: {
+            message: "Two-factor authentication is already enabled",
+            code: "TWO_FACTOR_ALREADY_ENABLED",
+          },
+        };
+      }
+
+      const redis = await getRedisClient();
+      const secret = await redis.get(twoFactorSetupKey(userId));
+
+      if (!secret) {
+        return {
+          success: false,
+          error: {
+            message: "Two-factor setup has expired; start again",
+            code: "TWO_FACTOR_SETUP_EXPIRED",
+          },
+        };
+      }
+
+      if (!(await this.acceptCode(userId, secret, code))) {
+        return invalidCode();
+      }
+
+      const recoveryCodes = await this.activate(user, secret);
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      businessLogger.error("Failed to enable two-factor authentication", error as Error, {
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to enable two-factor authentication",
+          code: "TWO_FACTOR_ENABLE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Turn two-factor authentication off, confirmed with a current code. Users
+   * the company requires it for can't.
+   */
+  static async disable(userId: string, code: string): Promise<ServiceResult<void>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+        return notEnabled();
+      }
+
+      const settings = await CompanyService.getSettingsValues(user.companyId);
+      if (isTwoFactorRequiredFor(user.role, settings.security)) {
+        return {
+          success: false,
+          error: {
+            message: `Your company requires two-factor authentication for ${user.role.toLowerCase()}s`,
+            code: "TWO_FACTOR_REQUIRED",
+          },
+        };
+      }
+
+      if (!(await this.acceptCode(userId, user.twoFactorSecret, code))) {
+        return invalidCode();
+      }
+
+      await this.clear(userId);
+
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "two_factor_disabled",
+        actorId: userId,
+      });
+
+      businessLogger.logSecurityEvent("two_factor_disabled", userId);
+
+      return { success: true };
+    } catch (error) {
+      businessLogger.error("Failed to disable two-factor authentication", error as Error, {
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to disable two-factor authentication",
+          code: "TWO_FACTOR_DISABLE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Replace the user's recovery codes, confirmed with a current code. The
+   * old ones stop working.
+   */
+  static async regenerateRecoveryCodes(
+    userId: string,
+    code: string
+  ): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user?.twoFactorEnabledAt || !user.twoFactorSecret) {
+        return notEnabled();
+      }
+
+      if (!(await this.acceptCode(userId, user.twoFactorSecret, code))) {
+        return invalidCode();
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+      });
+
+      await AuditService.record({
+        companyId: user.companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "two_factor_recovery_codes_regenerated",
+        actorId: userId,
+      });
+
+      return { success: true, data: { recoveryCodes } };
+    } catch (error) {
+      businessLogger.error("Failed to regenerate recovery codes", error as Error, {
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to regenerate recovery codes",
+          code: "RECOVERY_CODES_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Admin reset for a user who lost their authenticator and recovery codes.
+   * If the company requires two-factor authentication for the user's role,
+   * they set it up again at their next sign-in.
+   */
+  static async resetForUser(
+    companyId: string,
+    userId: string,
+    adminId: string
+  ): Promise<ServiceResult<void>> {
+    try {
+      const user = await prisma.user.findFirst({
+        where: { id: userId, companyId },
+        select: twoFactorUserSelect,
+      });
+
+      if (!user) {
+        return {
+          success: false,
+          error: { message: "User not found", code: "USER_NOT_FOUND" },
+        };
+      }
+
+      if (!user.twoFactorEnabledAt) {
+        return notEnabled();
+      }
+
+      await this.clear(userId);
+
+      await AuditService.record({
+        companyId,
+        entityType: "USER",
+        entityId: userId,
+        action: "two_factor_reset",
+        actorId: adminId,
+        metadata: { enabledAt: user.twoFactorEnabledAt.toISOString() },
+      });
+
+      businessLogger.logSecurityEvent("two_factor_reset", adminId, {
+        companyId,
+        targetUserId: userId,
+      });
+
+      return { success: true };
+    } catch (error) {
+      businessLogger.error("Failed to reset two-factor authentication", error as Error, {
+        companyId,
+        userId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to reset two-factor authentication",
+          code: "TWO_FACTOR_RESET_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * The challenge a user with a correct password answers before tokens are
+   * issued, or null when they sign in with their password alone. Users the
+   * company requires two-factor authentication for who haven't set it up
+   * get a new secret to enrol with.
+   */
+  static async createSignInChallenge(
+    user: ChallengeUser
+  ): Promise<TwoFactorChallenge | null> {
+    let method: TwoFactorChallenge["method"];
+    let setup: TwoFactorSetup | undefined;
+
+    if (user.twoFactorEnabledAt) {
+      method = "totp";
+    } else {
+      const settings = await CompanyService.getSettingsValues(user.companyId);
+      if (!isTwoFactorRequiredFor(user.role, settings.security)) {
+        return null;
+      }
+      method = "setup";
+      setup = await this.createSetup(user);
+    }
+
+    const redis = await getRedisClient();
+    const challengeToken = crypto.randomBytes(32).toString("hex");
+    const challenge: StoredChallenge = { userId: user.id, method };
+
+    await redis.setEx(
+      twoFactorChallengeKey(challengeToken),
+      TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+      JSON.stringify(challenge)
+    );
+
+    return {
+      challengeToken,
+      method,
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+      ...(setup && { setup }),
+    };
+  }
+
+  /**
+   * Answer a sign-in challenge. Challenges are single use, even when
+   * answered by requests in parallel, and allow TWO_FACTOR_MAX_ATTEMPTS wrong
+   * codes; recovery codes can only be used to sign in to an account that
+   * already has two-factor authentication, and each works once.
+   */
+  static async verifySignInChallenge(
+    challengeToken: string,
+    answer: { code?: string; recoveryCode?: string }
+  ): Promise<ServiceResult<TwoFactorSignIn>> {
+    const invalidChallenge: ServiceResult<TwoFactorSignIn> = {
+      success: false,
+      error: {
+        message: "Sign-in has expired; sign in again",
+        code: "INVALID_CHALLENGE",
+      },
+    };
+
+    try {
+      const redis = await getRedisClient();
+      const stored = await redis.get(twoFactorChallengeKey(challengeToken));
+      if (!stored) return invalidChallenge;
+
+      const challenge = JSON.parse(stored) as StoredChallenge;
+
+      const attempts = await redis.incr(twoFactorAttemptsKey(challengeToken));
+      if (attempts === 1) {
+        await redis.expire(
+          twoFactorAttemptsKey(challengeToken),
+          TWO_FACTOR_CHALLENGE_TTL_SECONDS
+        );
+      }
+      if (attempts > TWO_FACTOR_MAX_ATTEMPTS) {
+        await this.endChallenge(challengeToken);
+        businessLogger.logSecurityEvent("two_factor_attempts_exceeded", challenge.userId);
+        return {
+          success: false,
+          error: {
+            message: "Too many incorrect codes; sign in again",
+            code: "TOO_MANY_ATTEMPTS",
+          },
+        };
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenge.userId },
+        select: twoFactorUserSelect,
+      });
+
+      // The user was removed, or their two-factor authentication reset or
+      // set up elsewhere, since the challenge was issued
+      if (!user || !!user.twoFactorEnabledAt !== (challenge.method === "totp")) {
+        await this.endChallenge(challengeToken);
+        return invalidChallenge;
+      }
+
+      // The answer is checked before the challenge is claimed, so a mistyped
+      // code doesn't end it; the code is then used up atomically, so of two
+      // requests answering the same challenge at most one signs in
+      if (challenge.method === "setup") {
+        const secret = await redis.get(twoFactorSetupKey(user.id));
+        if (!secret) {
+          await this.endChallenge(challengeToken);
+          return invalidChallenge;
+        }
+
+        const step = answer.code ? verifyTotp(secret, answer.code) : null;
+        if (step === null) return invalidCode();
+
+        if (!(await this.claimChallenge(challengeToken))) return invalidChallenge;
+        if (!(await this.acceptStep(user.id, step))) return invalidCode();
+
+        const recoveryCodes = await this.activate(user, secret);
+
+        return { success: true, data: { userId: user.id, recoveryCodes } };
+      }
+
+      if (answer.recoveryCode) {
+        const hash = hashRecoveryCode(answer.recoveryCode);
+        if (!user.twoFactorRecoveryCodes.includes(hash)) {
+          return invalidCode();
+        }
+
+        if (!(await this.claimChallenge(challengeToken))) return invalidChallenge;
+
+        // Removed only while it's still there, so a code works once even when
+        // used twice at the same time
+        const [used] = await prisma.$queryRaw<Array<{ remaining: number }>>`
+          UPDATE "User"
+          SET "twoFactorRecoveryCodes" = array_remove("twoFactorRecoveryCodes", ${hash})
+          WHERE "id" = ${user.id} AND ${hash} = ANY("twoFactorRecoveryCodes")
+          RETURNING cardinality("twoFactorRecoveryCodes")::int AS "remaining"
+        `;
+        if (!used) return invalidCode();
+
+        await AuditService.record({
+          companyId: user.companyId,
+          entityType: "USER",
+          entityId: user.id,
+          action: "two_factor_recovery_code_used",
+          actorId: user.id,
+          metadata: { recoveryCodesRemaining: used.remaining },
+        });
+      } else {
+        const step =
+          answer.code && user.twoFactorSecret
+            ? verifyTotp(user.twoFactorSecret, answer.code)
+            : null;
+        if (step === null) return invalidCode();
+
+        if (!(await this.claimChallenge(challengeToken))) return invalidChallenge;
+        if (!(await this.acceptStep(user.id, step))) return invalidCode();
+      }
+
+      return { success: true, data: { userId: user.id } };
+    } catch (error) {
+      businessLogger.error("Failed to verify two-factor challenge", error as Error);
+      return {
+        success: false,
+        error: {
+          message: "Two-factor verification failed",
+          code: "TWO_FACTOR_VERIFICATION_FAILED",
+        },
+      };
+    }
+  }
+
+  // A new pending secret, replacing any earlier unconfirmed one
+  private static async createSetup(user: {
+    id: string;
+    email: string;
+  }): Promise<TwoFactorSetup> {
+    const secret = generateTotpSecret();
+    const otpauthUri = totpProvisioningUri(secret, user.email);
+
+    const redis = await getRedisClient();
+    await redis.setEx(twoFactorSetupKey(user.id), TWO_FACTOR_SETUP_TTL_SECONDS, secret);
+
+    return {
+      secret,
+      otpauthUri,
+      qrCode: await QRCode.toDataURL(otpauthUri),
+    };
+  }
+
+  /**
+   * Check a code against the secret. A code is accepted once: codes from the
+   * step last used, or an earlier one, are rejected so an observed code
+   * can't be replayed.
+   */
+  private static async acceptCode(
+    userId: string,
+    secret: string,
+    code: string
+  ): Promise<boolean> {
+    const step = verifyTotp(secret, code);
+    if (step === null) return false;
+
+    return this.acceptStep(userId, step);
+  }
+
+  // Record the step as the user's last one unless it isn't newer, in one
+  // script so concurrent requests can't both use the same code
+  private static async acceptStep(userId: string, step: number): Promise<boolean> {
+    const redis = await getRedisClient();
+    const accepted = await redis.eval(ACCEPT_STEP_SCRIPT, {
+      keys: [twoFactorLastStepKey(userId)],
+      // Steps outside the verification window can't be replayed anyway
+      arguments: [String(step), String(5 * 60)],
+    });
+
+    return accepted === 1;
+  }
+
+  // Save a confirmed secret with new recovery codes, which are returned
+  private static async activate(
+    user: { id: string; companyId: string },
+    secret: string
+  ): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    const redis = await getRedisClient();
+    await redis.del(twoFactorSetupKey(user.id));
+
+    await AuditService.record({
+      companyId: user.companyId,
+      entityType: "USER",
+      entityId: user.id,
+      action: "two_factor_enabled",
+      actorId: user.id,
+    });
+
+    businessLogger.logSecurityEvent("two_factor_enabled", user.id);
+
+    return recoveryCodes;
+  }
+
+  private static async clear(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+
+    const redis = await getRedisClient();
+    await redis.del(twoFactorSetupKey(userId));
+  }
+
+  // Take the challenge for this request; false when another request
+  // already has
+  private static async claimChallenge(challengeToken: string): Promise<boolean> {
+    const redis = await getRedisClient();
+    const challenge = await redis.getDel(twoFactorChallengeKey(challengeToken));
+    await redis.del(twoFactorAttemptsKey(challengeToken));
+
+    return challenge !== null;
+  }
+
+  private static async endChallenge(challengeToken: string): Promise<void> {
+    const redis = await getRedisClient();
+    await redis.del([
+      twoFactorChallengeKey(challengeToken),
+      twoFactorAttemptsKey(challengeToken),
+    ]);
+  }
+}
+
+export default TwoFactorService;
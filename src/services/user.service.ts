@@ -15,6 +15,7 @@ import {
 } from "@/types";
 import { sendEmail } from "@/lib/email";
 import { businessLogger } from "@/middleware/logger";
+import { TwoFactorService, type TwoFactorChallenge } from "./two-factor.service";
 
 export class UserService {
   // Create a new user
@@ -328,7 +329,13 @@ export class UserService {
   static async authenticateUser(
     email: string,
     password: string
-  ): Promise<ServiceResult<{ user: UserPublic; tokens: any }>> {
+  ): Promise<
+    ServiceResult<{
+      user: UserPublic;
+      tokens?: any;
+      twoFactor?: TwoFactorChallenge;
+    }>
+  > {
     try {
       // Find user by email
       const user = await prisma.user.findUnique({
@@ -361,6 +368,16 @@ export class UserService {
         };
       }
 
+      // Users with two-factor authentication answer a challenge at
+      // /api/auth/2fa/verify before any tokens are issued
+      const twoFactor = await TwoFactorService.createSignInChallenge(user);
+      if (twoFactor) {
+        return {
+          success: true,
+          data: { user: this.toPublicUser(user), twoFactor },
+        };
+      }
+
       // Generate tokens
       const tokens = await generateTokenPair({
         userId: user.id,
@@ -0,0 +1,709 @@
+import { prisma } from "@/lib/prisma";
+import { ServiceResult } from "@/types/system";
+import { businessLogger } from "@/middleware/logger";
+import { addWebhookJob } from "@/lib/queue";
+import {
+  generateWebhookSecret,
+  maskWebhookSecret,
+  signWebhookPayload,
+  WEBHOOK_HEADERS,
+  WEBHOOK_WILDCARD_EVENT,
+  type DomainEvent,
+} from "@/lib/webhooks";
+import { NotificationService } from "./notification-simple.service";
+
+export interface WebhookPublic {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  // Masked, except in the response that creates or rotates it
+  secret: string;
+  isActive: boolean;
+  consecutiveFailures: number;
+  disabledAt: string | null;
+  disabledReason: string | null;
+  lastDeliveryAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryPublic {
+  id: string;
+  eventId: string;
+  event: string;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  replayOfId: string | null;
+}
+
+// Deliveries in a row that may exhaust their retries before the webhook is
+// switched off
+const MAX_CONSECUTIVE_FAILURES = 5;
+const DELIVERY_TIMEOUT_MS = 10000;
+// Response bodies are kept for debugging only; long ones are cut off
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+type WebhookRow = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  secret: string;
+  isActive: boolean;
+  consecutiveFailures: number;
+  disabledAt: Date | null;
+  disabledReason: string | null;
+  lastDeliveryAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export class WebhookService {
+  /**
+   * List the company's webhooks
+   */
+  static async getWebhooks(
+    companyId: string
+  ): Promise<ServiceResult<WebhookPublic[]>> {
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { companyId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return {
+        success: true,
+        data: webhooks.map((webhook) => this.toPublicWebhook(webhook)),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get webhooks", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve webhooks",
+          code: "WEBHOOKS_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Get a single webhook in the company
+   */
+  static async getWebhookById(
+    webhookId: string,
+    companyId: string
+  ): Promise<ServiceResult<WebhookPublic>> {
+    try {
+      const webhook = await prisma.webhook.findFirst({
+        where: { id: webhookId, companyId },
+      });
+
+      if (!webhook) {
+        return {
+          success: false,
+          error: {
+            message: "Webhook not found",
+            code: "WEBHOOK_NOT_FOUND",
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: this.toPublicWebhook(webhook),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get webhook", error as Error, {
+        webhookId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve webhook",
+          code: "WEBHOOK_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Register a webhook. A secret is generated when none is supplied; the
+   * response is the only place it is returned in full.
+   */
+  static async createWebhook(
+    companyId: string,
+    data: {
+      url: string;
+      events: string[];
+      secret?: string;
+      description?: string;
+    },
+    createdById: string
+  ): Promise<ServiceResult<WebhookPublic>> {
+    try {
+      const webhook = await prisma.webhook.create({
+        data: {
+          companyId,
+          createdById,
+          url: data.url,
+          events: data.events,
+          secret: data.secret ?? generateWebhookSecret(),
+          description: data.description,
+        },
+      });
+
+      businessLogger.logUserAction("webhook_created", createdById, {
+        webhookId: webhook.id,
+        url: webhook.url,
+        events: webhook.events,
+      });
+
+      return {
+        success: true,
+        data: this.toPublicWebhook(webhook, { revealSecret: true }),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to create webhook", error as Error, {
+        companyId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to create webhook",
+          code: "WEBHOOK_CREATION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Update a webhook. Re-activating a webhook clears its failure count;
+   * `rotateSecret` issues a new signing secret.
+   */
+  static async updateWebhook(
+    webhookId: string,
+    companyId: string,
+    data: {
+      url?: string;
+      events?: string[];
+      description?: string | null;
+      isActive?: boolean;
+      rotateSecret?: boolean;
+    },
+    updatedById: string
+  ): Promise<ServiceResult<WebhookPublic>> {
+    try {
+      const existing = await prisma.webhook.findFirst({
+        where: { id: webhookId, companyId },
+      });
+
+      if (!existing) {
+        return {
+          success: false,
+          error: {
+            message: "Webhook not found",
+            code: "WEBHOOK_NOT_FOUND",
+          },
+        };
+      }
+
+      const webhook = await prisma.webhook.update({
+        where: { id: webhookId },
+        data: {
+          ...(data.url !== undefined && { url: data.url }),
+          ...(data.events !== undefined && { events: data.events }),
+          ...(data.description !== undefined && {
+            description: data.description,
+          }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(data.isActive === true && {
+            consecutiveFailures: 0,
+            disabledAt: null,
+            disabledReason: null,
+          }),
+          ...(data.rotateSecret && { secret: generateWebhookSecret() }),
+        },
+      });
+
+      businessLogger.logUserAction("webhook_updated", updatedById, {
+        webhookId,
+        fields: Object.keys(data),
+      });
+
+      return {
+        success: true,
+        data: this.toPublicWebhook(webhook, {
+          revealSecret: !!data.rotateSecret,
+        }),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to update webhook", error as Error, {
+        webhookId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to update webhook",
+          code: "WEBHOOK_UPDATE_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  static async deleteWebhook(
+    webhookId: string,
+    companyId: string,
+    deletedById: string
+  ): Promise<ServiceResult<{ id: string }>> {
+    try {
+      const { count } = await prisma.webhook.deleteMany({
+        where: { id: webhookId, companyId },
+      });
+
+      if (count === 0) {
+        return {
+          success: false,
+          error: {
+            message: "Webhook not found",
+            code: "WEBHOOK_NOT_FOUND",
+          },
+        };
+      }
+
+      businessLogger.logUserAction("webhook_deleted", deletedById, {
+        webhookId,
+      });
+
+      return {
+        success: true,
+        data: { id: webhookId },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to delete webhook", error as Error, {
+        webhookId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to delete webhook",
+          code: "WEBHOOK_DELETION_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Page through a webhook's delivery log, newest first
+   */
+  static async getDeliveries(
+    webhookId: string,
+    companyId: string,
+    filters: { page: number; limit: number; status?: string }
+  ): Promise<
+    ServiceResult<{ deliveries: WebhookDeliveryPublic[]; total: number }>
+  > {
+    try {
+      const webhook = await prisma.webhook.findFirst({
+        where: { id: webhookId, companyId },
+        select: { id: true },
+      });
+
+      if (!webhook) {
+        return {
+          success: false,
+          error: {
+            message: "Webhook not found",
+            code: "WEBHOOK_NOT_FOUND",
+          },
+        };
+      }
+
+      const where = {
+        webhookId,
+        ...(filters.status && {
+          status: filters.status as "PENDING" | "SUCCEEDED" | "FAILED",
+        }),
+      };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (filters.page - 1) * filters.limit,
+          take: filters.limit,
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          deliveries: deliveries.map((delivery) =>
+            this.toPublicDelivery(delivery)
+          ),
+          total,
+        },
+      };
+    } catch (error) {
+      businessLogger.error("Failed to get webhook deliveries", error as Error, {
+        webhookId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to retrieve webhook deliveries",
+          code: "DELIVERIES_FETCH_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Send an earlier delivery's payload again as a new delivery
+   */
+  static async replayDelivery(
+    deliveryId: string,
+    webhookId: string,
+    companyId: string,
+    actorId: string
+  ): Promise<ServiceResult<WebhookDeliveryPublic>> {
+    try {
+      const original = await prisma.webhookDelivery.findFirst({
+        where: {
+          id: deliveryId,
+          webhookId,
+          webhook: { companyId },
+        },
+        include: {
+          webhook: { select: { isActive: true } },
+        },
+      });
+
+      if (!original) {
+        return {
+          success: false,
+          error: {
+            message: "Delivery not found",
+            code: "DELIVERY_NOT_FOUND",
+          },
+        };
+      }
+
+      if (!original.webhook.isActive) {
+        return {
+          success: false,
+          error: {
+            message: "Re-enable the webhook before replaying deliveries",
+            code: "WEBHOOK_DISABLED",
+          },
+        };
+      }
+
+      const replay = await prisma.webhookDelivery.create({
+        data: {
+          webhookId,
+          eventId: original.eventId,
+          event: original.event,
+          payload: original.payload ?? {},
+          replayOfId: original.id,
+        },
+      });
+
+      await this.queueDelivery(replay.id);
+
+      businessLogger.logUserAction("webhook_delivery_replayed", actorId, {
+        webhookId,
+        deliveryId,
+        replayId: replay.id,
+      });
+
+      return {
+        success: true,
+        data: this.toPublicDelivery(replay),
+      };
+    } catch (error) {
+      businessLogger.error("Failed to replay webhook delivery", error as Error, {
+        deliveryId,
+      });
+      return {
+        success: false,
+        error: {
+          message: "Failed to replay delivery",
+          code: "DELIVERY_REPLAY_FAILED",
+        },
+      };
+    }
+  }
+
+  /**
+   * Event bus subscriber: record a delivery for every active webhook in the
+   * company subscribed to the event and queue it. Returns the number queued.
+   */
+  static async enqueueDeliveries(event: DomainEvent): Promise<number> {
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        companyId: event.companyId,
+        isActive: true,
+        events: { hasSome: [event.type, WEBHOOK_WILDCARD_EVENT] },
+      },
+      select: { id: true },
+    });
+
+    for (const webhook of webhooks) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          webhookId: webhook.id,
+          eventId: event.id,
+          event: event.type,
+          payload: JSON.parse(JSON.stringify(event)),
+        },
+      });
+
+      await this.queueDelivery(delivery.id);
+    }
+
+    return webhooks.length;
+  }
+
+  /**
+   * Send one delivery attempt. Called by the webhook queue worker; throws on
+   * a failed attempt so the queue retries with backoff. On the final attempt
+   * the failure counts towards disabling the webhook.
+   */
+  static async deliver(
+    deliveryId: string,
+    options: { isFinalAttempt: boolean }
+  ): Promise<{ status: string; responseStatus: number | null }> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+
+    if (!delivery || delivery.status === "SUCCEEDED") {
+      return {
+        status: delivery?.status ?? "NOT_FOUND",
+        responseStatus: delivery?.responseStatus ?? null,
+      };
+    }
+
+    // Don't keep retrying into an endpoint that has been switched off
+    if (!delivery.webhook.isActive) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: "FAILED", error: "Webhook is disabled" },
+      });
+      return { status: "FAILED", responseStatus: null };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "ExpenseWise-Webhooks/1.0",
+          [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+            delivery.webhook.secret,
+            body
+          ),
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.delivery]: delivery.id,
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(
+        0,
+        MAX_RESPONSE_BODY_LENGTH
+      );
+
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error =
+        requestError instanceof Error
+          ? requestError.message
+          : "Request failed";
+    }
+
+    const succeeded = error === null;
+    const attemptedAt = new Date();
+
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: succeeded
+          ? "SUCCEEDED"
+          : options.isFinalAttempt
+          ? "FAILED"
+          : "PENDING",
+        attempts: { increment: 1 },
+        responseStatus,
+        responseBody,
+        error,
+        durationMs: Date.now() - startedAt,
+        lastAttemptAt: attemptedAt,
+        ...(succeeded && { deliveredAt: attemptedAt }),
+      },
+    });
+
+    if (succeeded) {
+      await prisma.webhook.update({
+        where: { id: delivery.webhookId },
+        data: {
+          lastDeliveryAt: attemptedAt,
+          consecutiveFailures: 0,
+        },
+      });
+      return { status: "SUCCEEDED", responseStatus };
+    }
+
+    if (options.isFinalAttempt) {
+      await this.recordExhaustedDelivery(delivery.webhookId);
+    }
+
+    throw new Error(error ?? "Webhook delivery failed");
+  }
+
+  /**
+   * Count a delivery that used up its retries, disabling the webhook once
+   * too many fail in a row and telling whoever set it up
+   */
+  private static async recordExhaustedDelivery(
+    webhookId: string
+  ): Promise<void> {
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data: { consecutiveFailures: { increment: 1 } },
+    });
+
+    if (
+      !webhook.isActive ||
+      webhook.consecutiveFailures < MAX_CONSECUTIVE_FAILURES
+    ) {
+      return;
+    }
+
+    const disabledReason = `Disabled after ${webhook.consecutiveFailures} consecutive failed deliveries`;
+
+    await prisma.webhook.update({
+      where: { id: webhookId },
+      data: {
+        isActive: false,
+        disabledAt: new Date(),
+        disabledReason,
+      },
+    });
+
+    await NotificationService.createNotification({
+      userId: webhook.createdById,
+      type: "SYSTEM_NOTIFICATION",
+      title: "Webhook disabled",
+      message: `Webhook ${webhook.url} was disabled after repeated delivery failures. Fix the endpoint and re-enable it to resume deliveries.`,
+      data: { webhookId },
+    });
+
+    businessLogger.warn("Webhook disabled after repeated failures", {
+      webhookId,
+      companyId: webhook.companyId,
+      consecutiveFailures: webhook.consecutiveFailures,
+    });
+  }
+
+  // Queue a delivery, marking it failed if the queue is unavailable so it
+  // can be replayed later
+  private static async queueDelivery(deliveryId: string): Promise<void> {
+    try {
+      await addWebhookJob({ deliveryId });
+    } catch {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: "FAILED",
+          error: "Failed to queue delivery",
+        },
+      });
+    }
+  }
+
+  // Helper method to convert a webhook row to its public shape
+  private static toPublicWebhook(
+    webhook: WebhookRow,
+    options: { revealSecret?: boolean } = {}
+  ): WebhookPublic {
+    return {
+      id: webhook.id,
+      url: webhook.url,
+      description: webhook.description,
+      events: webhook.events,
+      secret: options.revealSecret
+        ? webhook.secret
+        : maskWebhookSecret(webhook.secret),
+      isActive: webhook.isActive,
+      consecutiveFailures: webhook.consecutiveFailures,
+      disabledAt: webhook.disabledAt?.toISOString() ?? null,
+      disabledReason: webhook.disabledReason,
+      lastDeliveryAt: webhook.lastDeliveryAt?.toISOString() ?? null,
+      createdAt: webhook.createdAt.toISOString(),
+      updatedAt: webhook.updatedAt.toISOString(),
+    };
+  }
+
+  // Helper method to convert a delivery row to its public shape
+  private static toPublicDelivery(delivery: {
+    id: string;
+    eventId: string;
+    event: string;
+    status: string;
+    attempts: number;
+    responseStatus: number | null;
+    responseBody: string | null;
+    error: string | null;
+    durationMs: number | null;
+    lastAttemptAt: Date | null;
+    deliveredAt: Date | null;
+    createdAt: Date;
+    replayOfId: string | null;
+  }): WebhookDeliveryPublic {
+    return {
+      id: delivery.id,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      responseBody: delivery.responseBody,
+      error: delivery.error,
+      durationMs: delivery.durationMs,
+      lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      createdAt: delivery.createdAt.toISOString(),
+      replayOfId: delivery.replayOfId,
+    };
+  }
+}
+
+export default WebhookService;
@@ -1,5 +1,7 @@
 // Database Model Types (based on Prisma schema)
 
+import type { PolicyViolation } from "@/lib/expense-policies";
+
 // Enums
 export enum UserRole {
   ADMIN = "ADMIN",
@@ -18,6 +20,9 @@ export enum ApprovalStatus {
   PENDING = "PENDING",
   APPROVED = "APPROVED",
   REJECTED = "REJECTED",
+  WAITING = "WAITING",
+  SKIPPED = "SKIPPED",
+  SUPERSEDED = "SUPERSEDED",
 }
 
 export enum NotificationType {
@@ -217,6 +222,9 @@ export interface CategoryPublic {
   id: string;
   name: string;
   companyId: string;
+  glCode?: string | null;
+  parentId?: string | null;
+  isActive?: boolean;
   expenseCount?: number; // Optional computed field
 }
 
@@ -232,6 +240,8 @@ export interface ExpensePublic {
   merchantName?: string;
   status: ExpenseStatus;
   submittedAt?: Date;
+  // Company policy violations recorded when the expense was last checked
+  policyViolations?: PolicyViolation[] | null;
   createdAt: Date;
   updatedAt: Date;
 
@@ -245,10 +255,14 @@ export interface ExpensePublic {
 
 export interface ApprovalPublic {
   id: string;
-  expenseId: string;
+  // A step belongs to an expense, an expense report or a cash advance
+  expenseId: string | null;
+  reportId?: string | null;
+  advanceId?: string | null;
   approverId: string;
   status: ApprovalStatus;
   comment?: string;
+  dueAt?: Date | null;
   processedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -3,7 +3,7 @@
 // Enums from Prisma schema
 export type Role = "ADMIN" | "MANAGER" | "EMPLOYEE";
 export type ExpenseStatus = "DRAFT" | "PENDING_APPROVAL" | "APPROVED" | "REJECTED";
-export type ApprovalStatus = "PENDING" | "APPROVED" | "REJECTED";
+export type ApprovalStatus = "PENDING" | "APPROVED" | "REJECTED" | "WAITING" | "SKIPPED" | "SUPERSEDED";
 
 // Core entities matching Prisma models
 export interface Company {
@@ -121,6 +121,7 @@ export interface RuleApprover {
   id: string;
   sequenceOrder?: number;
   isRequired: boolean;
+  isManagerStep: boolean;
   ruleId: string;
   approverId: string;
   
@@ -136,9 +137,17 @@ export interface ExpenseApproval {
   id: string;
   status: ApprovalStatus;
   comments?: string;
+  stepOrder?: number;
+  isRequired: boolean;
+  activatedAt?: Date;
+  dueAt?: Date;
+  escalatedAt?: Date;
   processedAt?: Date;
+  createdAt: Date;
   expenseId: string;
   approverId: string;
+  escalatedFromId?: string;
+  ruleId?: string;
   
   // Relations
   expense?: Expense;
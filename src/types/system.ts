@@ -92,14 +92,25 @@ export interface OCRResult {
     category?: string;
     taxAmount?: number;
   };
+  // Confidence (0-1) for each extracted field
+  fieldConfidence: Partial<Record<keyof OCRResult["fields"], number>>;
+  lineItems: OCRLineItem[];
+  engine: string;
   rawData: any;
 }
 
+export interface OCRLineItem {
+  description: string;
+  quantity?: number;
+  amount: number;
+  confidence: number;
+}
+
 export interface OCRJobData {
   receiptId: string;
   s3Key: string;
   userId: string;
-  expenseId: string;
+  expenseId: string | null;
 }
 
 // Queue Types
@@ -0,0 +1,27 @@
+import {
+  approvalSlaQueue,
+  scheduleApprovalSlaJob,
+  type ApprovalSlaJobData,
+} from "@/lib/queue";
+import { ApprovalSlaService } from "@/services/approval-sla.service";
+
+/**
+ * Approval SLA worker
+ * Periodically reminds approvers of steps nearing their deadline and
+ * escalates steps that are past it
+ */
+export async function startApprovalSlaWorker(): Promise<void> {
+  approvalSlaQueue.process(
+    "check-approval-slas",
+    async (job: { data: ApprovalSlaJobData }) => {
+      const now = job.data.runAt ? new Date(job.data.runAt) : new Date();
+      return ApprovalSlaService.processApprovalSlas(now);
+    }
+  );
+
+  await scheduleApprovalSlaJob(
+    parseInt(process.env.APPROVAL_SLA_CHECK_MINUTES || "15")
+  );
+
+  console.log("Approval SLA worker started");
+}
@@ -0,0 +1,20 @@
+import { emailQueue, type EmailJobData } from "@/lib/queue";
+import { renderEmailJob, sendEmail } from "@/lib/email";
+
+/**
+ * Email worker
+ * Sends queued emails; a thrown error makes the queue retry with backoff
+ */
+export async function startEmailWorker(): Promise<void> {
+  emailQueue.process("send-email", async (job: { data: EmailJobData }) => {
+    const template = renderEmailJob(job.data);
+    await sendEmail({
+      to: job.data.to,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+  });
+
+  console.log("Email worker started");
+}
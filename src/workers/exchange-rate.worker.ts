@@ -0,0 +1,41 @@
+import {
+  exchangeRateQueue,
+  scheduleExchangeRateSyncJob,
+  type ExchangeRateJobData,
+} from "@/lib/queue";
+import { ExchangeRateService } from "@/services/exchange-rate.service";
+
+/**
+ * Exchange rate worker
+ * Periodically fetches rates from the configured provider and converts
+ * expenses that were waiting for one. Set FX_PROVIDER=none to rely on
+ * imported rate files only.
+ */
+export async function startExchangeRateWorker(): Promise<void> {
+  if (process.env.FX_PROVIDER === "none") {
+    console.log("Exchange rate sync disabled");
+    return;
+  }
+
+  exchangeRateQueue.process(
+    "sync-exchange-rates",
+    async (job: { data: ExchangeRateJobData }) => {
+      const result = await ExchangeRateService.syncFromProvider(
+        job.data.date ? new Date(job.data.date) : undefined
+      );
+
+      if (!result.success) {
+        // Let the queue retry
+        throw new Error(result.error?.message);
+      }
+
+      return result.data;
+    }
+  );
+
+  await scheduleExchangeRateSyncJob(
+    parseInt(process.env.FX_SYNC_INTERVAL_HOURS || "6")
+  );
+
+  console.log("Exchange rate worker started");
+}
@@ -0,0 +1,16 @@
+import { startApprovalSlaWorker } from "./approval-sla.worker";
+import { startReportExportWorker } from "./report-export.worker";
+import { startWebhookWorker } from "./webhook.worker";
+import { startOCRWorker } from "./ocr.worker";
+import { startExchangeRateWorker } from "./exchange-rate.worker";
+import { startEmailWorker } from "./email.worker";
+
+// Start the background queue workers for this process
+export async function startWorkers(): Promise<void> {
+  await startApprovalSlaWorker();
+  await startReportExportWorker();
+  await startWebhookWorker();
+  await startOCRWorker();
+  await startExchangeRateWorker();
+  await startEmailWorker();
+}
@@ -0,0 +1,22 @@
+import { ocrQueue, type OCRJobData } from "@/lib/queue";
+import { ReceiptService } from "@/services/receipt.service";
+
+/**
+ * Receipt OCR worker
+ * Extracts expense fields from uploaded receipts
+ */
+export async function startOCRWorker(): Promise<void> {
+  ocrQueue.process(
+    "process-receipt",
+    async (job: {
+      data: OCRJobData;
+      attemptsMade: number;
+      opts: { attempts?: number };
+    }) =>
+      ReceiptService.processReceiptOCR(job.data.receiptId, {
+        isFinalAttempt: job.attemptsMade + 1 >= (job.opts.attempts ?? 1),
+      })
+  );
+
+  console.log("OCR worker started");
+}
@@ -0,0 +1,37 @@
+import {
+  reportQueue,
+  scheduleExportCleanupJob,
+  type ReportJobData,
+} from "@/lib/queue";
+import { ReportsService } from "@/services/reports.service";
+
+/**
+ * Report export worker
+ * Renders queued export tasks to files and removes expired exports
+ */
+export async function startReportExportWorker(): Promise<void> {
+  reportQueue.process(
+    "generate-report",
+    async (job: {
+      data: ReportJobData;
+      progress: (value: number) => Promise<void>;
+    }) => {
+      if (!job.data.exportTaskId) {
+        throw new Error("Report job has no export task");
+      }
+
+      return ReportsService.processExportTask(
+        job.data.exportTaskId,
+        (progress) => job.progress(progress)
+      );
+    }
+  );
+
+  reportQueue.process("cleanup-exports", async () =>
+    ReportsService.cleanupExpiredExports()
+  );
+
+  await scheduleExportCleanupJob();
+
+  console.log("Report export worker started");
+}
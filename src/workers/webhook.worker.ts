@@ -0,0 +1,22 @@
+import { webhookQueue, type WebhookJobData } from "@/lib/queue";
+import { WebhookService } from "@/services/webhook.service";
+
+/**
+ * Webhook delivery worker
+ * Sends queued deliveries; a thrown error makes the queue retry with backoff
+ */
+export async function startWebhookWorker(): Promise<void> {
+  webhookQueue.process(
+    "deliver-webhook",
+    async (job: {
+      data: WebhookJobData;
+      attemptsMade: number;
+      opts: { attempts?: number };
+    }) =>
+      WebhookService.deliver(job.data.deliveryId, {
+        isFinalAttempt: job.attemptsMade + 1 >= (job.opts.attempts ?? 1),
+      })
+  );
+
+  console.log("Webhook worker started");
+}